@@ -13,6 +13,26 @@ export const PLUGIN_NAME = 'TO-DO Plugin';
  */
 export const DEFAULT_INDEX_NAME = 'customplugin-todos';
 
+/**
+ * Default OpenSearch index name for the TODO change history (audit trail).
+ */
+export const DEFAULT_AUDIT_INDEX_NAME = 'customplugin-todos-audit';
+
+/**
+ * Default OpenSearch index name for comments on TODO items.
+ */
+export const DEFAULT_COMMENTS_INDEX_NAME = 'customplugin-todos-comments';
+
+/**
+ * Default OpenSearch index name for the registry of custom TODO fields.
+ */
+export const DEFAULT_CUSTOM_FIELDS_INDEX_NAME = 'customplugin-todos-custom-fields';
+
+/**
+ * Default OpenSearch index name for saved views of the TODO page.
+ */
+export const DEFAULT_SAVED_VIEWS_INDEX_NAME = 'customplugin-todos-saved-views';
+
 /**
  * Base path for all plugin API endpoints.
  */
@@ -33,6 +53,42 @@ export const DEFAULT_PAGE_SIZE = 20;
  */
 export const MAX_PAGE_SIZE = 100;
 
+/**
+ * Default number of TODOs loaded per Kanban board column.
+ */
+export const DEFAULT_BOARD_COLUMN_SIZE = 20;
+
+/**
+ * Maximum number of TODOs skipped in a Kanban board column, so that the offset plus
+ * the column size stays within OpenSearch's default result window of 10,000.
+ */
+export const MAX_BOARD_OFFSET = 10000 - MAX_PAGE_SIZE;
+
+/**
+ * Maximum number of actions accepted in a single bulk request.
+ */
+export const MAX_BULK_ACTIONS = 100;
+
+/**
+ * Number of TODOs read from OpenSearch per request while exporting.
+ */
+export const EXPORT_BATCH_SIZE = 500;
+
+/**
+ * Maximum number of data rows accepted in a single import.
+ */
+export const MAX_IMPORT_ROWS = 5000;
+
+/**
+ * Maximum size of an import request body, in bytes.
+ */
+export const MAX_IMPORT_BYTES = 10 * 1024 * 1024;
+
+/**
+ * Number of valid rows returned as a preview by an import.
+ */
+export const IMPORT_PREVIEW_SIZE = 10;
+
 /**
  * OpenSearch date format string for date fields.
  * Uses ISO 8601 format with optional time component.
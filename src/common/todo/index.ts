@@ -1,2 +1,17 @@
 export * from './todo.types';
 export * from './todo.dtos';
+export * from './todo.diff';
+export * from './todo.history';
+export * from './todo.comments';
+export * from './todo.recurrence';
+export * from './todo.custom_fields';
+export * from './todo.export';
+export * from './todo.import';
+export * from './todo.sarif';
+export * from './todo.oscal';
+export * from './todo.report';
+export * from './todo.calendar';
+export * from './todo.rank';
+export * from './todo.wip_limits';
+export * from './todo.saved_views';
+export * from './todo.query';
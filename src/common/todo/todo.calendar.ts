@@ -0,0 +1,33 @@
+import { TodoPriority, TodoStatus } from './todo.types';
+
+/**
+ * Content type of the iCalendar feed (RFC 5545).
+ */
+export const TODO_CALENDAR_CONTENT_TYPE = 'text/calendar; charset=utf-8';
+
+/**
+ * Product identifier written to the `PRODID` property of the iCalendar feed.
+ */
+export const TODO_CALENDAR_PRODUCT_ID = '-//OpenSearch Dashboards//TODO Plugin//EN';
+
+/**
+ * iCalendar status of a TODO (RFC 5545, section 3.8.1.11).
+ * TODOs in `error` still need work, so they are reported as `NEEDS-ACTION`.
+ */
+export const TODO_CALENDAR_STATUS: Record<TodoStatus, string> = {
+  planned: 'NEEDS-ACTION',
+  in_progress: 'IN-PROCESS',
+  done: 'COMPLETED',
+  error: 'NEEDS-ACTION',
+} as const;
+
+/**
+ * iCalendar priority of a TODO (RFC 5545, section 3.8.1.9): 1 is the highest,
+ * 1-4 is high, 5 is medium and 6-9 is low.
+ */
+export const TODO_CALENDAR_PRIORITY: Record<TodoPriority, number> = {
+  critical: 1,
+  high: 3,
+  medium: 5,
+  low: 9,
+} as const;
@@ -0,0 +1,28 @@
+/**
+ * Maximum length of a comment body, in characters.
+ */
+export const MAX_TODO_COMMENT_LENGTH = 10000;
+
+/**
+ * A comment in the discussion thread of a TODO.
+ * All properties are readonly to ensure immutability.
+ */
+export interface TodoComment {
+  /** Unique identifier of the comment */
+  readonly id: string;
+
+  /** ID of the TODO the comment belongs to */
+  readonly todoId: string;
+
+  /** Username of the user who wrote the comment */
+  readonly author: string;
+
+  /** Comment text (Markdown) */
+  readonly body: string;
+
+  /** ISO 8601 timestamp when the comment was written */
+  readonly createdAt: string;
+
+  /** ISO 8601 timestamp of the last edit, or null if the comment was never edited */
+  readonly updatedAt: string | null;
+}
@@ -0,0 +1,153 @@
+/**
+ * Type of a custom TODO field.
+ * - `text`: Free text
+ * - `number`: Numeric value
+ * - `date`: ISO 8601 date
+ * - `enum`: One of a fixed list of options
+ * - `boolean`: Yes/no flag
+ */
+export type TodoCustomFieldType = 'text' | 'number' | 'date' | 'enum' | 'boolean';
+
+/**
+ * Array of all valid custom field types.
+ */
+export const TODO_CUSTOM_FIELD_TYPE_VALUES: readonly TodoCustomFieldType[] = [
+  'text',
+  'number',
+  'date',
+  'enum',
+  'boolean',
+] as const;
+
+/**
+ * Security roles allowed to manage the custom field registry by default.
+ */
+export const DEFAULT_CUSTOM_FIELD_ADMIN_ROLES: readonly string[] = ['all_access'];
+
+/**
+ * Maximum number of custom fields that can be defined.
+ */
+export const MAX_TODO_CUSTOM_FIELDS = 50;
+
+/**
+ * Maximum character length for a custom field key.
+ */
+export const MAX_CUSTOM_FIELD_KEY_LENGTH = 50;
+
+/**
+ * Allowed format of a custom field key: lowercase letters, digits and underscores,
+ * starting with a letter.
+ */
+export const CUSTOM_FIELD_KEY_PATTERN = /^[a-z][a-z0-9_]*$/;
+
+/**
+ * Maximum character length for a custom field label.
+ */
+export const MAX_CUSTOM_FIELD_LABEL_LENGTH = 100;
+
+/**
+ * Maximum character length for a custom field description.
+ */
+export const MAX_CUSTOM_FIELD_DESCRIPTION_LENGTH = 500;
+
+/**
+ * Maximum number of options of an `enum` custom field.
+ */
+export const MAX_CUSTOM_FIELD_OPTIONS = 50;
+
+/**
+ * Maximum character length for a `text` custom field value or an `enum` option.
+ */
+export const MAX_CUSTOM_FIELD_TEXT_LENGTH = 1000;
+
+/**
+ * Value of a custom field on a TODO.
+ * `date` values are ISO 8601 strings.
+ */
+export type TodoCustomFieldValue = string | number | boolean;
+
+/**
+ * Custom field values of a TODO, keyed by field key.
+ */
+export type TodoCustomFieldValues = Readonly<Record<string, TodoCustomFieldValue>>;
+
+/**
+ * Definition of a custom TODO field in the deployment's registry.
+ * All properties are readonly to ensure immutability.
+ */
+export interface TodoCustomFieldDefinition {
+  /** Unique key under which values are stored (immutable) */
+  readonly key: string;
+
+  /** Label shown in the form and table */
+  readonly label: string;
+
+  /** Value type (immutable) */
+  readonly type: TodoCustomFieldType;
+
+  /** Optional help text shown in the form */
+  readonly description?: string;
+
+  /** Allowed values of an `enum` field */
+  readonly options?: readonly string[];
+
+  /** Whether new TODOs must have a value for this field */
+  readonly required: boolean;
+
+  /** ISO 8601 timestamp when the field was defined */
+  readonly createdAt: string;
+
+  /** ISO 8601 timestamp when the definition was last changed */
+  readonly updatedAt: string;
+}
+
+/**
+ * Comparison applied by a custom field filter.
+ * - `eq`: Value equals the filter value
+ * - `gte`: Value is greater than or equal to the filter value
+ * - `lte`: Value is less than or equal to the filter value
+ */
+export type TodoCustomFieldFilterOperator = 'eq' | 'gte' | 'lte';
+
+/**
+ * A filter on a custom field, parsed from a `key:value`, `key>=value` or `key<=value` expression.
+ */
+export interface TodoCustomFieldFilter {
+  /** Key of the filtered custom field */
+  readonly key: string;
+
+  /** Comparison to apply */
+  readonly operator: TodoCustomFieldFilterOperator;
+
+  /** Value to compare with, as written in the expression */
+  readonly value: string;
+}
+
+const CUSTOM_FIELD_FILTER_PATTERN = /^([a-z][a-z0-9_]*)(:|>=|<=)(.+)$/;
+
+const CUSTOM_FIELD_FILTER_OPERATORS: Record<string, TodoCustomFieldFilterOperator> = {
+  ':': 'eq',
+  '>=': 'gte',
+  '<=': 'lte',
+};
+
+/**
+ * Parses a custom field filter expression.
+ *
+ * @param expression - Filter expression, e.g. `ticket:SEC-42` or `cost>=1000`
+ * @returns Parsed filter, or null if the expression is malformed
+ *
+ * @example
+ * parseCustomFieldFilter('cost>=1000') // { key: 'cost', operator: 'gte', value: '1000' }
+ */
+export function parseCustomFieldFilter(expression: string): TodoCustomFieldFilter | null {
+  const match = CUSTOM_FIELD_FILTER_PATTERN.exec(expression.trim());
+  if (!match) {
+    return null;
+  }
+  return {
+    key: match[1],
+    operator: CUSTOM_FIELD_FILTER_OPERATORS[match[2]],
+    value: match[3].trim(),
+  };
+}
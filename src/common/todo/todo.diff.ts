@@ -0,0 +1,96 @@
+import { Todo } from './todo.types';
+
+/**
+ * User-editable TODO fields compared when diffing two versions of a TODO.
+ */
+export type TodoDiffableField =
+  | 'title'
+  | 'description'
+  | 'status'
+  | 'statusReason'
+  | 'tags'
+  | 'assignee'
+  | 'priority'
+  | 'severity'
+  | 'startDate'
+  | 'dueDate'
+  | 'complianceFrameworks'
+  | 'parentId'
+  | 'blockedBy'
+  | 'recurrence';
+
+/**
+ * Fields compared by {@link diffTodos}, in display order.
+ */
+export const TODO_DIFFABLE_FIELDS: readonly TodoDiffableField[] = [
+  'title',
+  'description',
+  'status',
+  'statusReason',
+  'tags',
+  'assignee',
+  'priority',
+  'severity',
+  'startDate',
+  'dueDate',
+  'complianceFrameworks',
+  'parentId',
+  'blockedBy',
+  'recurrence',
+] as const;
+
+/**
+ * Value of a single TODO field as it appears in a diff.
+ * Missing values are represented as null.
+ */
+export type TodoFieldValue = string | readonly string[] | null;
+
+/**
+ * A single field-level change between two versions of a TODO.
+ */
+export interface TodoFieldChange {
+  /** Name of the changed field */
+  readonly field: TodoDiffableField;
+
+  /** Value before the change, or null if it was not set */
+  readonly oldValue: TodoFieldValue;
+
+  /** Value after the change, or null if it was cleared */
+  readonly newValue: TodoFieldValue;
+}
+
+function normalizeFieldValue(value: Todo[TodoDiffableField]): TodoFieldValue {
+  if (value === undefined || value === null || value === '') {
+    return null;
+  }
+  if (Array.isArray(value) && value.length === 0) {
+    return null;
+  }
+  return value;
+}
+
+function isSameFieldValue(a: TodoFieldValue, b: TodoFieldValue): boolean {
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((item, index) => item === b[index]);
+  }
+  return a === b;
+}
+
+/**
+ * Computes the field-level differences between two versions of a TODO.
+ *
+ * @param before - Previous version of the TODO (or null when it did not exist)
+ * @param after - New version of the TODO (or null when it was deleted)
+ * @returns Changed fields in {@link TODO_DIFFABLE_FIELDS} order
+ */
+export function diffTodos(before: Todo | null, after: Todo | null): TodoFieldChange[] {
+  const changes: TodoFieldChange[] = [];
+  for (const field of TODO_DIFFABLE_FIELDS) {
+    const oldValue = before ? normalizeFieldValue(before[field]) : null;
+    const newValue = after ? normalizeFieldValue(after[field]) : null;
+    if (!isSameFieldValue(oldValue, newValue)) {
+      changes.push({ field, oldValue, newValue });
+    }
+  }
+  return changes;
+}
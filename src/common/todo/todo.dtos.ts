@@ -7,7 +7,22 @@ import {
   SortDirection,
   TodoStats,
   AnalyticsStats,
+  TodoChildProgress,
+  TodoStatusTransitionRules,
 } from './todo.types';
+import { TodoHistoryEntry } from './todo.history';
+import { TodoComment } from './todo.comments';
+import {
+  TodoCustomFieldDefinition,
+  TodoCustomFieldType,
+  TodoCustomFieldValue,
+} from './todo.custom_fields';
+import { TodoExportFormat } from './todo.export';
+import { TodoImportFormat } from './todo.import';
+import { SarifImportAction, SarifLevel } from './todo.sarif';
+import { TodoReportFormat } from './todo.report';
+import { TodoWipLimits } from './todo.wip_limits';
+import { TodoSavedView, TodoSavedViewFilters, TodoViewTab } from './todo.saved_views';
 
 /**
  * Request payload for creating a new TODO item.
@@ -34,11 +49,26 @@ export interface CreateTodoRequest {
   /** Severity level (defaults to 'low' if not specified) */
   severity?: TodoSeverity;
 
+  /** Planned start date in ISO 8601 format (must not be after the due date) */
+  startDate?: string;
+
   /** Due date in ISO 8601 format */
   dueDate?: string;
 
   /** Array of compliance frameworks this task relates to */
   complianceFrameworks?:  string[];
+
+  /** ID of the parent TODO, to create this TODO as a subtask */
+  parentId?: string;
+
+  /** IDs of the TODOs that must be done before this TODO can start */
+  blockedBy?: string[];
+
+  /** Recurrence rule in the supported RRULE subset (e.g. `FREQ=MONTHLY;INTERVAL=3`) */
+  recurrence?: string;
+
+  /** Values of custom fields, keyed by field key (required fields must be present) */
+  custom?: Record<string, TodoCustomFieldValue>;
 }
 
 /**
@@ -74,11 +104,35 @@ export interface UpdateTodoRequest {
   /** Updated severity level */
   severity?: TodoSeverity;
 
+  /** Updated planned start date (set to null to clear) */
+  startDate?: string | null;
+
   /** Updated due date (set to null to clear) */
   dueDate?: string | null;
 
   /** Updated compliance frameworks array (replaces existing frameworks) */
   complianceFrameworks?:  string[];
+
+  /** Reason for the status change (required for some transitions, e.g. to `error`) */
+  statusReason?: string;
+
+  /** ID of the new parent TODO (set to null to make this a top-level TODO) */
+  parentId?: string | null;
+
+  /** IDs of the blocking TODOs (replaces existing; set to an empty array to clear) */
+  blockedBy?: string[];
+
+  /** Updated recurrence rule (set to null to stop the TODO from recurring) */
+  recurrence?: string | null;
+
+  /** Position in manually ordered lists (set to null to clear) */
+  rank?: string | null;
+
+  /** Custom field values to change, keyed by field key (set a key to null to clear it; other keys are kept) */
+  custom?: Record<string, TodoCustomFieldValue | null>;
+
+  /** Version token of the TODO being edited; the update is rejected with 409 if it is stale */
+  version?: string;
 }
 
 /**
@@ -99,6 +153,299 @@ export interface DeleteTodoResponse {
   deleted: boolean;
 }
 
+/**
+ * Kind of action in a bulk request.
+ */
+export type BulkTodoActionType = 'create' | 'update' | 'delete';
+
+/**
+ * A single action in a bulk request.
+ * Each action is validated exactly like the equivalent single-item request.
+ */
+export type BulkTodoAction =
+  | {
+      /** Create a new TODO */
+      action: 'create';
+      /** Fields of the new TODO */
+      todo: CreateTodoRequest;
+    }
+  | {
+      /** Update an existing TODO */
+      action: 'update';
+      /** ID of the TODO to update */
+      id: string;
+      /** Fields to modify (may include `version` for optimistic concurrency) */
+      changes: UpdateTodoRequest;
+    }
+  | {
+      /** Delete an existing TODO */
+      action: 'delete';
+      /** ID of the TODO to delete */
+      id: string;
+    };
+
+/**
+ * Request payload for creating, updating and deleting several TODO items at once.
+ */
+export interface BulkTodosRequest {
+  /** Actions to perform (at most `MAX_BULK_ACTIONS`) */
+  actions: BulkTodoAction[];
+}
+
+/**
+ * Outcome of a single action in a bulk request.
+ */
+export interface BulkTodoItemResult {
+  /** Position of the action in the request */
+  index: number;
+
+  /** Kind of action */
+  action: BulkTodoActionType;
+
+  /** ID of the affected TODO (absent for a create that failed) */
+  id?: string;
+
+  /** Whether the action was applied */
+  success: boolean;
+
+  /** The TODO after a successful create or update */
+  todo?: Todo;
+
+  /** Reason the action failed */
+  error?: ApiErrorResponse;
+}
+
+/**
+ * Response payload for a bulk request.
+ * Actions are applied independently: some may succeed while others fail.
+ */
+export interface BulkTodosResponse {
+  /** Per-action results, in request order */
+  results: BulkTodoItemResult[];
+
+  /** Counts of processed, applied and failed actions */
+  summary: {
+    total: number;
+    succeeded: number;
+    failed: number;
+  };
+}
+
+/**
+ * Filters selecting the TODO items an update-by-query request applies to.
+ * Same shape as the list filters, without pagination and sorting.
+ */
+export type TodoQueryFilters = Omit<
+  ListTodosQueryParams,
+  'page' | 'pageSize' | 'sortField' | 'sortDirection'
+>;
+
+/**
+ * Fields an update-by-query request can set on every matching TODO item.
+ */
+export type TodoUpdateByQueryPatch = Pick<
+  UpdateTodoRequest,
+  | 'status'
+  | 'statusReason'
+  | 'tags'
+  | 'assignee'
+  | 'priority'
+  | 'severity'
+  | 'dueDate'
+  | 'complianceFrameworks'
+>;
+
+/**
+ * Request payload for updating every TODO item that matches a filter.
+ */
+export interface UpdateTodosByQueryRequest {
+  /** Filters selecting the TODOs to update (all TODOs when omitted) */
+  filters?: TodoQueryFilters;
+
+  /** Fields to set on every matching TODO */
+  patch: TodoUpdateByQueryPatch;
+
+  /** When true, only count the matching TODOs without changing them */
+  dryRun?: boolean;
+}
+
+/**
+ * Response payload for an update-by-query request.
+ */
+export interface UpdateTodosByQueryResponse {
+  /** Whether this was a dry run */
+  dryRun: boolean;
+
+  /** Number of TODOs matching the filters */
+  matched: number;
+
+  /** Matching TODOs left unchanged because the workflow does not allow the requested status */
+  skipped: number;
+
+  /** Number of TODOs updated (always 0 for a dry run) */
+  updated: number;
+
+  /** TODOs modified concurrently during the update and therefore not updated */
+  versionConflicts: number;
+
+  /** TODOs that failed to update for another reason */
+  failed: number;
+}
+
+/**
+ * Response payload after rebalancing the ranks of the TODO items.
+ */
+export interface RebalanceTodoRanksResponse {
+  /** Number of ranked TODOs given a new, evenly spaced rank */
+  rebalanced: number;
+
+  /** TODOs that failed to update */
+  failed: number;
+}
+
+/**
+ * Request payload for importing TODO items from a file.
+ */
+export interface ImportTodosRequest {
+  /** Format of `content` */
+  format: TodoImportFormat;
+
+  /** Text of the file */
+  content: string;
+
+  /**
+   * Maps file columns to import fields (`title`, `tags`, ..., or `custom.<key>`).
+   * Columns left out are ignored. Defaults to matching column names to field names.
+   */
+  mapping?: Record<string, string>;
+
+  /** When true, only validate the rows; nothing is created */
+  dryRun?: boolean;
+}
+
+/**
+ * A row of an import that was not created.
+ */
+export interface TodoImportRowError {
+  /** Position of the row among the file's data rows (1-based) */
+  row: number;
+
+  /** Line of the file where the row starts (1-based) */
+  line: number;
+
+  /** Reason the row was rejected */
+  error: ApiErrorResponse;
+}
+
+/**
+ * Response payload for an import request.
+ */
+export interface ImportTodosResponse {
+  /** Whether this was a dry run */
+  dryRun: boolean;
+
+  /** Column names found in the file */
+  columns: string[];
+
+  /** Column mapping that was applied */
+  mapping: Record<string, string>;
+
+  /** Number of data rows in the file */
+  total: number;
+
+  /** Rows that passed validation */
+  valid: number;
+
+  /** TODOs created (always 0 for a dry run) */
+  imported: number;
+
+  /** Rows that were rejected, in file order */
+  errors: TodoImportRowError[];
+
+  /** The first valid rows as they will be created */
+  preview: CreateTodoRequest[];
+}
+
+/**
+ * Request payload for importing scanner findings from a SARIF log.
+ */
+export interface ImportSarifRequest {
+  /** Text of the SARIF 2.1.0 log */
+  content: string;
+
+  /** Lowest result level that gets a TODO (defaults to `note`) */
+  minLevel?: SarifLevel;
+
+  /** When true, only report what would change; nothing is written */
+  dryRun?: boolean;
+}
+
+/**
+ * A run of a SARIF log, as read by the import.
+ */
+export interface SarifImportRunSummary {
+  /** Name of the tool that produced the run */
+  tool: string;
+
+  /** Category of the analysis, when the run has one */
+  category?: string;
+
+  /** Number of findings in the run (failing results that are not suppressed) */
+  findings: number;
+}
+
+/**
+ * What a SARIF import did, or would do, with one finding or TODO.
+ */
+export interface SarifImportItem {
+  /** Change made to the TODO */
+  action: SarifImportAction;
+
+  /** ID of the TODO (absent for TODOs not created yet) */
+  id?: string;
+
+  /** Title of the TODO */
+  title: string;
+
+  /** Severity of the TODO */
+  severity: TodoSeverity;
+
+  /** ID of the rule the finding violates */
+  ruleId: string;
+
+  /** Fingerprint of the finding */
+  fingerprint: string;
+
+  /** Primary location of the finding */
+  location?: string;
+
+  /** Index of the run in the log (0-based) */
+  run: number;
+
+  /** Index of the result in the run (0-based); absent for closed TODOs */
+  result?: number;
+
+  /** Reason the change failed; the change was not applied */
+  error?: ApiErrorResponse;
+}
+
+/**
+ * Response payload for a SARIF import.
+ */
+export interface ImportSarifResponse {
+  /** Whether this was a dry run */
+  dryRun: boolean;
+
+  /** Runs found in the log, in log order */
+  runs: SarifImportRunSummary[];
+
+  /** Number of changes applied (or planned in a dry run) for each action, and of failed changes */
+  summary: Record<SarifImportAction | 'failed', number>;
+
+  /** Every finding and closed TODO, in log order */
+  items: SarifImportItem[];
+}
+
 /**
  * Response payload for fetching a single TODO item by ID.
  */
@@ -165,12 +512,77 @@ export interface ListTodosQueryParams {
   /** Filter for overdue items (due date in the past and not completed) */
   isOverdue?: boolean;
 
-  /** Field to sort by */
+  /** Filter for direct subtasks of this TODO */
+  parentId?: string;
+
+  /** Filter for TODOs that have (true) or do not have (false) a blocker that is not done */
+  isBlocked?: boolean;
+
+  /** Filter by custom field values (`key:value`, `key>=value` or `key<=value`; all must match) */
+  custom?: string[];
+
+  /** Field to sort by (`custom.<key>` sorts by a custom field) */
   sortField?: TodoSortField;
 
   /** Sort direction (asc or desc) */
   sortDirection?: SortDirection;
 }
+/**
+ * Query parameters for exporting TODO items.
+ * Accepts every list filter; all matching TODOs are exported, not just one page.
+ */
+export interface ExportTodosQueryParams extends Omit<ListTodosQueryParams, 'page' | 'pageSize'> {
+  /** File format (defaults to `csv`) */
+  format?: TodoExportFormat;
+
+  /**
+   * Columns to export, in order: built-in fields or `custom.<key>`.
+   * Defaults to every built-in column followed by every custom field.
+   */
+  columns?: string[];
+}
+/**
+ * Query parameters for the iCalendar feed of TODO due dates.
+ * Accepts every list filter; only TODOs with a due date are included.
+ */
+export type TodoCalendarQueryParams = Omit<
+  ListTodosQueryParams,
+  'page' | 'pageSize' | 'sortField' | 'sortDirection'
+>;
+/**
+ * Query parameters for the Kanban board.
+ * Accepts every list filter; `status` limits the board to those columns.
+ */
+export type GetTodoBoardQueryParams = Omit<
+  ListTodosQueryParams,
+  'page' | 'pageSize' | 'sortField' | 'sortDirection'
+> & {
+  /** Number of TODOs returned per column (defaults to 20, max 100) */
+  columnSize?: number;
+
+  /** Number of TODOs skipped in each column, to load more of them (defaults to 0) */
+  offset?: number;
+};
+/**
+ * One status column of the Kanban board.
+ */
+export interface TodoBoardColumn {
+  /** Status of the TODOs in this column */
+  status: TodoStatus;
+
+  /** TODOs of the column, ranked ones first in rank order, then newest first */
+  todos: Todo[];
+
+  /** Total number of TODOs with this status matching the filters */
+  total: number;
+}
+/**
+ * Response payload for the Kanban board.
+ */
+export interface GetTodoBoardResponse {
+  /** Columns in workflow order (planned, in progress, done, error) */
+  columns: TodoBoardColumn[];
+}
 /**
  * Pagination metadata for list responses.
  */
@@ -205,6 +617,16 @@ export interface ListTodosResponse {
   /** Pagination information */
   pagination: PaginationMeta;
 }
+/**
+ * Response payload for listing the direct subtasks of a TODO item.
+ */
+export interface GetTodoChildrenResponse extends ListTodosResponse {
+  /** ID of the parent TODO */
+  parentId: string;
+
+  /** Completion of all direct subtasks (not only the current page) */
+  progress: TodoChildProgress;
+}
 /**
  * Request payload for searching TODO items.
  * Supports full-text search, filtering, pagination, and sorting.
@@ -301,6 +723,269 @@ export interface TodoAnalyticsResponse {
   analytics: AnalyticsStats;
 }
 
+/**
+ * Query parameters for generating a compliance report.
+ */
+export interface TodoReportQueryParams {
+  /** File format of the report (defaults to `html`) */
+  format?: TodoReportFormat;
+
+  /** Only report on TODOs of this compliance framework */
+  complianceFramework?: string;
+
+  /** Only include TODOs created after this date */
+  createdAfter?: string;
+
+  /** Only include TODOs created before this date */
+  createdBefore?: string;
+
+  /** Time interval of the completion trend (defaults to `week`) */
+  timeInterval?: 'hour' | 'day' | 'week' | 'month';
+}
+
+/**
+ * Query parameters for exporting the open TODOs of a compliance framework as an OSCAL POA&M.
+ */
+export interface TodoOscalExportQueryParams {
+  /** Compliance framework whose open TODOs become POA&M items */
+  complianceFramework: string;
+}
+
+/**
+ * Query parameters for fetching the change history of a TODO item.
+ */
+export interface TodoHistoryQueryParams {
+  /** Page number (1-based, defaults to 1) */
+  page?: number;
+
+  /** Number of entries per page (defaults to 20, max 100) */
+  pageSize?: number;
+}
+
+/**
+ * Response payload containing the change history of a TODO item.
+ * Entries are ordered from newest to oldest.
+ */
+export interface GetTodoHistoryResponse {
+  /** ID of the TODO item */
+  todoId: string;
+
+  /** History entries for the current page */
+  entries: TodoHistoryEntry[];
+
+  /** Pagination information */
+  pagination: PaginationMeta;
+}
+
+/**
+ * Query parameters for listing the comments of a TODO item.
+ */
+export interface TodoCommentsQueryParams {
+  /** Page number (1-based, defaults to 1) */
+  page?: number;
+
+  /** Number of comments per page (defaults to 20, max 100) */
+  pageSize?: number;
+}
+
+/**
+ * Response payload containing the comments of a TODO item.
+ * Comments are ordered from oldest to newest.
+ */
+export interface ListTodoCommentsResponse {
+  /** ID of the TODO item */
+  todoId: string;
+
+  /** Comments for the current page */
+  comments: TodoComment[];
+
+  /** Pagination information */
+  pagination: PaginationMeta;
+}
+
+/**
+ * Request payload for adding a comment to a TODO item.
+ * The author is taken from the authenticated user.
+ */
+export interface CreateTodoCommentRequest {
+  /** Comment text (Markdown, required) */
+  body: string;
+}
+
+/**
+ * Request payload for editing a comment.
+ */
+export interface UpdateTodoCommentRequest {
+  /** New comment text (Markdown, required) */
+  body: string;
+}
+
+/**
+ * Response payload after adding or editing a comment.
+ */
+export interface TodoCommentResponse {
+  /** The stored comment */
+  comment: TodoComment;
+}
+
+/**
+ * Response payload after deleting a comment.
+ */
+export interface DeleteTodoCommentResponse {
+  /** ID of the deleted comment */
+  id: string;
+
+  /** Confirmation that the deletion was successful */
+  deleted: boolean;
+}
+
+/**
+ * Response payload for listing the custom field registry.
+ */
+export interface ListTodoCustomFieldsResponse {
+  /** Field definitions, ordered by creation date */
+  fields: TodoCustomFieldDefinition[];
+}
+
+/**
+ * Request payload for defining a new custom field.
+ */
+export interface CreateTodoCustomFieldRequest {
+  /** Unique key (lowercase letters, digits and underscores, starting with a letter) */
+  key: string;
+
+  /** Label shown in the form and table */
+  label: string;
+
+  /** Value type */
+  type: TodoCustomFieldType;
+
+  /** Optional help text */
+  description?: string;
+
+  /** Allowed values (required for `enum` fields, not allowed otherwise) */
+  options?: string[];
+
+  /** Whether new TODOs must have a value (defaults to false) */
+  required?: boolean;
+}
+
+/**
+ * Request payload for changing a custom field definition.
+ * The key and type cannot be changed.
+ */
+export interface UpdateTodoCustomFieldRequest {
+  /** Updated label */
+  label?: string;
+
+  /** Updated help text (set to null to clear) */
+  description?: string | null;
+
+  /** Updated allowed values of an `enum` field (replaces existing) */
+  options?: string[];
+
+  /** Updated required flag */
+  required?: boolean;
+}
+
+/**
+ * Response payload after defining or changing a custom field.
+ */
+export interface TodoCustomFieldResponse {
+  /** The stored field definition */
+  field: TodoCustomFieldDefinition;
+}
+
+/**
+ * Response payload after deleting a custom field definition.
+ * Values already stored on TODOs are kept but no longer shown or validated.
+ */
+export interface DeleteTodoCustomFieldResponse {
+  /** Key of the deleted field */
+  key: string;
+
+  /** Confirmation that the deletion was successful */
+  deleted: boolean;
+}
+
+/**
+ * Response payload for listing the saved views visible to the current user.
+ */
+export interface ListTodoSavedViewsResponse {
+  /** The user's own views and the views shared by others, ordered by name */
+  views: TodoSavedView[];
+
+  /** Username of the current user, to tell their own views apart */
+  username: string;
+}
+
+/**
+ * Request payload for saving a view.
+ * The owner is taken from the authenticated user.
+ */
+export interface CreateTodoSavedViewRequest {
+  /** Name of the view (required, unique among the user's views) */
+  name: string;
+
+  /** Filters to store (defaults to none) */
+  filters?: TodoSavedViewFilters;
+
+  /** Sort field of the table (defaults to `createdAt`) */
+  sortField?: TodoSortField;
+
+  /** Sort direction of the table (defaults to `desc`) */
+  sortDirection?: SortDirection;
+
+  /** Tab to open (defaults to `table`) */
+  tab?: TodoViewTab;
+
+  /** Whether every user can see the view (defaults to false) */
+  shared?: boolean;
+}
+
+/**
+ * Request payload for changing a saved view.
+ * Only provided fields will be updated.
+ */
+export interface UpdateTodoSavedViewRequest {
+  /** Updated name */
+  name?: string;
+
+  /** Updated filters (replaces existing) */
+  filters?: TodoSavedViewFilters;
+
+  /** Updated sort field */
+  sortField?: TodoSortField;
+
+  /** Updated sort direction */
+  sortDirection?: SortDirection;
+
+  /** Updated tab */
+  tab?: TodoViewTab;
+
+  /** Updated sharing flag */
+  shared?: boolean;
+}
+
+/**
+ * Response payload after saving or changing a view.
+ */
+export interface TodoSavedViewResponse {
+  /** The stored view */
+  view: TodoSavedView;
+}
+
+/**
+ * Response payload after deleting a saved view.
+ */
+export interface DeleteTodoSavedViewResponse {
+  /** ID of the deleted view */
+  id: string;
+
+  /** Confirmation that the deletion was successful */
+  deleted: boolean;
+}
+
 /**
  * Response payload for autocomplete suggestions.
  * Provides lists of existing tags and compliance frameworks.
@@ -313,6 +998,22 @@ export interface TodoSuggestionsResponse {
   complianceFrameworks:  string[];
 }
 
+/**
+ * Response payload for reading the work-in-progress limits of the Kanban columns.
+ */
+export interface GetTodoWipLimitsResponse {
+  /** Configured limits */
+  limits: TodoWipLimits;
+}
+
+/**
+ * Response payload for reading the status workflow applied to TODO updates.
+ */
+export interface GetTodoStatusTransitionsResponse {
+  /** Configured workflow */
+  rules: TodoStatusTransitionRules;
+}
+
 /**
  * Standard error response structure for API errors.
  */
@@ -358,4 +1059,46 @@ export const TODO_API_ENDPOINTS = {
 
   /** GET /todos/_analytics - Get advanced analytics */
   ANALYTICS: '/todos/_analytics',
+
+  /** GET /todos/_analytics/oscal - Download the open TODOs of a framework as an OSCAL POA&M */
+  ANALYTICS_OSCAL: '/todos/_analytics/oscal',
+
+  /** GET /todos/_analytics/report - Download a compliance report as HTML or Markdown */
+  ANALYTICS_REPORT: '/todos/_analytics/report',
+
+  /** POST /todos/_bulk - Create, update and delete several TODOs at once */
+  BULK: '/todos/_bulk',
+
+  /** POST /todos/_update_by_query - Update every TODO matching a filter */
+  UPDATE_BY_QUERY: '/todos/_update_by_query',
+
+  /** GET /todos/:id/_history - Get the change history of a TODO */
+  HISTORY: (id: string) => `/todos/${id}/_history`,
+
+  /** GET /todos/:id/_children - List the direct subtasks of a TODO */
+  CHILDREN: (id: string) => `/todos/${id}/_children`,
+
+  /** GET/POST /todos/:id/comments - List or add comments on a TODO */
+  COMMENTS: (id: string) => `/todos/${id}/comments`,
+
+  /** PATCH/DELETE /todos/:id/comments/:commentId - Edit or delete a comment */
+  COMMENT: (id: string, commentId: string) => `/todos/${id}/comments/${commentId}`,
+
+  /** GET /todos/_export - Download every TODO matching the list filters */
+  EXPORT: '/todos/_export',
+
+  /** GET /todos/_calendar.ics - iCalendar feed of the TODOs with a due date */
+  CALENDAR: '/todos/_calendar.ics',
+
+  /** POST /todos/_import - Create TODOs from a CSV or JSON file */
+  IMPORT: '/todos/_import',
+
+  /** POST /todos/_import/sarif - Create, update and close TODOs from scanner findings */
+  IMPORT_SARIF: '/todos/_import/sarif',
+
+  /** GET/POST /todos/_custom_fields - List or define custom fields */
+  CUSTOM_FIELDS: '/todos/_custom_fields',
+
+  /** PATCH/DELETE /todos/_custom_fields/:key - Change or delete a custom field */
+  CUSTOM_FIELD: (key: string) => `/todos/_custom_fields/${key}`,
 } as const;
@@ -0,0 +1,80 @@
+/**
+ * File format of a TODO export.
+ * - `csv`: RFC 4180 comma-separated values with a header row
+ * - `ndjson`: One JSON object per line
+ * - `json`: A single JSON array
+ */
+export type TodoExportFormat = 'csv' | 'ndjson' | 'json';
+
+/**
+ * Array of all valid export formats.
+ */
+export const TODO_EXPORT_FORMAT_VALUES: readonly TodoExportFormat[] = [
+  'csv',
+  'ndjson',
+  'json',
+] as const;
+
+/**
+ * Content type of the response body for each export format.
+ */
+export const TODO_EXPORT_CONTENT_TYPES: Record<TodoExportFormat, string> = {
+  csv: 'text/csv; charset=utf-8',
+  ndjson: 'application/x-ndjson; charset=utf-8',
+  json: 'application/json; charset=utf-8',
+};
+
+/**
+ * Built-in TODO field that can be exported as a column.
+ */
+export type TodoExportColumn =
+  | 'id'
+  | 'title'
+  | 'description'
+  | 'status'
+  | 'statusReason'
+  | 'priority'
+  | 'severity'
+  | 'assignee'
+  | 'tags'
+  | 'complianceFrameworks'
+  | 'startDate'
+  | 'dueDate'
+  | 'createdAt'
+  | 'updatedAt'
+  | 'completedAt'
+  | 'parentId'
+  | 'blockedBy'
+  | 'recurrence'
+  | 'seriesId';
+
+/**
+ * Built-in columns in their default export order.
+ * Custom fields are exported after them as `custom.<key>` columns.
+ */
+export const TODO_EXPORT_COLUMNS: readonly TodoExportColumn[] = [
+  'id',
+  'title',
+  'description',
+  'status',
+  'statusReason',
+  'priority',
+  'severity',
+  'assignee',
+  'tags',
+  'complianceFrameworks',
+  'startDate',
+  'dueDate',
+  'createdAt',
+  'updatedAt',
+  'completedAt',
+  'parentId',
+  'blockedBy',
+  'recurrence',
+  'seriesId',
+] as const;
+
+/**
+ * Separator placed between the items of a list column (tags, frameworks, blockers) in CSV.
+ */
+export const TODO_EXPORT_LIST_SEPARATOR = '; ';
@@ -0,0 +1,45 @@
+import { TodoFieldChange } from './todo.diff';
+
+/**
+ * Kind of change recorded in a TODO's history.
+ */
+export type TodoHistoryAction = 'create' | 'update' | 'delete';
+
+/**
+ * Array of all valid TODO history actions.
+ */
+export const TODO_HISTORY_ACTION_VALUES: readonly TodoHistoryAction[] = [
+  'create',
+  'update',
+  'delete',
+] as const;
+
+/**
+ * Actor recorded when the authenticated user cannot be determined
+ * (e.g. the security plugin is not installed).
+ */
+export const UNKNOWN_ACTOR = 'unknown';
+
+/**
+ * A single entry in a TODO's change history (audit trail).
+ * All properties are readonly to ensure immutability.
+ */
+export interface TodoHistoryEntry {
+  /** Unique identifier of the history entry */
+  readonly id: string;
+
+  /** ID of the TODO the change applies to */
+  readonly todoId: string;
+
+  /** Kind of change */
+  readonly action: TodoHistoryAction;
+
+  /** Username of the user who made the change */
+  readonly actor: string;
+
+  /** ISO 8601 timestamp of the change */
+  readonly timestamp: string;
+
+  /** Field-level changes (old and new values) */
+  readonly changes: readonly TodoFieldChange[];
+}
@@ -0,0 +1,94 @@
+/**
+ * File format of a TODO import.
+ * - `csv`: RFC 4180 comma-separated values with a header row
+ * - `json`: A JSON array of objects, or one JSON object per line (NDJSON)
+ */
+export type TodoImportFormat = 'csv' | 'json';
+
+/**
+ * Array of all valid import formats.
+ */
+export const TODO_IMPORT_FORMAT_VALUES: readonly TodoImportFormat[] = ['csv', 'json'] as const;
+
+/**
+ * Field of `CreateTodoRequest` that an imported column can be mapped to.
+ * Custom fields are mapped as `custom.<key>`.
+ */
+export type TodoImportField =
+  | 'title'
+  | 'description'
+  | 'status'
+  | 'tags'
+  | 'assignee'
+  | 'priority'
+  | 'severity'
+  | 'startDate'
+  | 'dueDate'
+  | 'complianceFrameworks'
+  | 'parentId'
+  | 'blockedBy'
+  | 'recurrence';
+
+/**
+ * Built-in fields an imported column can be mapped to.
+ */
+export const TODO_IMPORT_FIELDS: readonly TodoImportField[] = [
+  'title',
+  'description',
+  'status',
+  'tags',
+  'assignee',
+  'priority',
+  'severity',
+  'startDate',
+  'dueDate',
+  'complianceFrameworks',
+  'parentId',
+  'blockedBy',
+  'recurrence',
+] as const;
+
+/**
+ * Import fields that hold a list of values.
+ */
+export const TODO_IMPORT_LIST_FIELDS: readonly TodoImportField[] = [
+  'tags',
+  'complianceFrameworks',
+  'blockedBy',
+] as const;
+
+/**
+ * Separates the items of a list field given as text, e.g. `security; java` or `PCI-DSS,SOX`.
+ */
+export const TODO_IMPORT_LIST_SEPARATOR_PATTERN = /[;,]/;
+
+/**
+ * Builds the column mapping used when none is given: every column whose name matches an
+ * import field or a defined custom field (ignoring case) is mapped to it, other columns are ignored.
+ *
+ * @param columns - Column names found in the file
+ * @param customFieldKeys - Keys of the defined custom fields
+ * @returns Mapping from column name to import field
+ *
+ * @example
+ * getDefaultImportMapping(['Title', 'tags', 'custom.ticket', 'id'], ['ticket'])
+ * // { Title: 'title', tags: 'tags', 'custom.ticket': 'custom.ticket' }
+ */
+export function getDefaultImportMapping(
+  columns: readonly string[],
+  customFieldKeys: readonly string[]
+): Record<string, string> {
+  const targets = [...TODO_IMPORT_FIELDS, ...customFieldKeys.map((key) => `custom.${key}`)];
+  const mapping: Record<string, string> = {};
+  const used = new Set<string>();
+  for (const column of columns) {
+    const target = targets.find(
+      (candidate) => candidate.toLowerCase() === column.trim().toLowerCase()
+    );
+    if (target && !used.has(target)) {
+      mapping[column] = target;
+      used.add(target);
+    }
+  }
+  return mapping;
+}
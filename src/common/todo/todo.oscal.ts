@@ -0,0 +1,36 @@
+import { TodoStatus } from './todo.types';
+
+/**
+ * Version of the OSCAL model used by the POA&M export.
+ */
+export const OSCAL_VERSION = '1.1.2';
+
+/**
+ * Namespace of the TODO-specific properties in an exported OSCAL document.
+ */
+export const OSCAL_TODO_NAMESPACE = 'urn:opensearch-dashboards:todos:oscal';
+
+/**
+ * Content type of an exported OSCAL document.
+ */
+export const OSCAL_CONTENT_TYPE = 'application/json; charset=utf-8';
+
+/**
+ * Status of an OSCAL risk.
+ * - `open`: The risk has been identified and not yet addressed
+ * - `investigating`: The risk is being analysed
+ * - `remediating`: Work to address the risk is in progress
+ * - `closed`: The risk has been addressed
+ */
+export type OscalRiskStatus = 'open' | 'investigating' | 'remediating' | 'closed';
+
+/**
+ * Status of the risk a TODO becomes in an exported POA&M.
+ * TODOs in `error` need another look, so their risk is reported as under investigation.
+ */
+export const OSCAL_RISK_STATUS: Record<TodoStatus, OscalRiskStatus> = {
+  planned: 'open',
+  in_progress: 'remediating',
+  error: 'investigating',
+  done: 'closed',
+} as const;
@@ -0,0 +1,338 @@
+import {
+  TODO_STATUS_VALUES,
+  TODO_PRIORITY_VALUES,
+  TODO_SEVERITY_VALUES,
+} from './todo.types';
+
+/**
+ * Field that can be searched with `field:value` in the search box.
+ */
+export type TodoQueryField =
+  | 'status'
+  | 'priority'
+  | 'severity'
+  | 'tag'
+  | 'assignee'
+  | 'framework'
+  | 'overdue'
+  | 'start'
+  | 'due'
+  | 'created'
+  | 'updated'
+  | 'completed';
+
+/**
+ * Comparison between a field and its value.
+ * - `:` matches the value (for dates, the whole day)
+ * - `<`, `<=`, `>`, `>=` compare dates
+ */
+export type TodoQueryOperator = ':' | '<' | '<=' | '>' | '>=';
+
+/**
+ * Kind of values a query field accepts.
+ * - `enum`: one of a fixed list of values
+ * - `keyword`: any value, matched exactly
+ * - `boolean`: `true` or `false`
+ * - `date`: `YYYY-MM-DD` or an ISO 8601 timestamp, compared with any operator
+ */
+export type TodoQueryFieldKind = 'enum' | 'keyword' | 'boolean' | 'date';
+
+/**
+ * Description of a query field, used to check values and to suggest completions.
+ */
+export interface TodoQueryFieldDefinition {
+  /** Kind of values the field accepts */
+  readonly kind: TodoQueryFieldKind;
+
+  /** Allowed values, for `enum` and `boolean` fields */
+  readonly values?: readonly string[];
+
+  /** Short description shown in completions */
+  readonly description: string;
+}
+
+/**
+ * Query fields, in the order completions are suggested.
+ */
+export const TODO_QUERY_FIELDS: Readonly<Record<TodoQueryField, TodoQueryFieldDefinition>> = {
+  status: { kind: 'enum', values: TODO_STATUS_VALUES, description: 'Status' },
+  priority: { kind: 'enum', values: TODO_PRIORITY_VALUES, description: 'Priority' },
+  severity: { kind: 'enum', values: TODO_SEVERITY_VALUES, description: 'Severity' },
+  tag: { kind: 'keyword', description: 'Tag' },
+  assignee: { kind: 'keyword', description: 'Assignee' },
+  framework: { kind: 'keyword', description: 'Compliance framework' },
+  overdue: { kind: 'boolean', values: ['true', 'false'], description: 'Past due and not done' },
+  start: { kind: 'date', description: 'Start date' },
+  due: { kind: 'date', description: 'Due date' },
+  created: { kind: 'date', description: 'Creation date' },
+  updated: { kind: 'date', description: 'Last update date' },
+  completed: { kind: 'date', description: 'Completion date' },
+};
+
+/**
+ * Field condition of a query, e.g. `-assignee:bob` or `due<2026-11-01`.
+ */
+export interface TodoQueryClause {
+  readonly field: TodoQueryField;
+  readonly operator: TodoQueryOperator;
+  readonly value: string;
+
+  /** Whether the clause was written with a leading `-` and excludes matches */
+  readonly negated: boolean;
+}
+
+/**
+ * Free text of a query, a word or a quoted phrase.
+ */
+export interface TodoQueryTerm {
+  readonly text: string;
+
+  /** Whether the term was written with a leading `-` and excludes matches */
+  readonly negated: boolean;
+
+  /** Whether the term was quoted and matches its words together, in order */
+  readonly phrase: boolean;
+}
+
+/**
+ * Syntax error found in a query, with the position of the offending part.
+ */
+export interface TodoQuerySyntaxError {
+  readonly message: string;
+
+  /** Offset of the first character of the offending part */
+  readonly start: number;
+
+  /** Offset after the last character of the offending part */
+  readonly end: number;
+}
+
+/**
+ * Result of {@link parseTodoQuery}.
+ */
+export interface ParsedTodoQuery {
+  readonly clauses: TodoQueryClause[];
+  readonly terms: TodoQueryTerm[];
+  readonly errors: TodoQuerySyntaxError[];
+}
+
+/**
+ * Completion suggested while typing a query.
+ */
+export interface TodoQueryCompletion {
+  /** Text shown in the list, e.g. `status:` */
+  readonly label: string;
+
+  /** Description shown next to the label */
+  readonly description: string;
+
+  /** Query after accepting the completion */
+  readonly query: string;
+}
+
+const FIELD_CLAUSE_PATTERN = /^([a-zA-Z][a-zA-Z_]*)(<=|>=|:|<|>)/;
+const DATE_ONLY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const TIMESTAMP_PATTERN = /^\d{4}-\d{2}-\d{2}T/;
+const ONE_DAY_MS = 24 * 60 * 60 * 1000;
+
+const isQueryField = (name: string): name is TodoQueryField =>
+  Object.prototype.hasOwnProperty.call(TODO_QUERY_FIELDS, name);
+
+/**
+ * Reads a value starting at `start`: a quoted string, or the characters up to the next space.
+ * Returns the value and the offset after it, or an error for an unclosed quote.
+ */
+const readValue = (
+  input: string,
+  start: number
+): { value: string; end: number; quoted: boolean } | TodoQuerySyntaxError => {
+  if (input[start] === '"') {
+    const close = input.indexOf('"', start + 1);
+    if (close === -1) {
+      return { message: 'Missing closing quote', start, end: input.length };
+    }
+    return { value: input.slice(start + 1, close), end: close + 1, quoted: true };
+  }
+  let end = start;
+  while (end < input.length && !/\s/.test(input[end])) {
+    end++;
+  }
+  return { value: input.slice(start, end), end, quoted: false };
+};
+
+/**
+ * Checks the value of a field clause.
+ *
+ * @returns An error message, or null if the value is valid
+ */
+const checkClause = (field: TodoQueryField, operator: TodoQueryOperator, value: string) => {
+  const definition = TODO_QUERY_FIELDS[field];
+  if (value.length === 0) {
+    return `Missing value for '${field}'`;
+  }
+  if (definition.kind === 'date') {
+    const time = Date.parse(value);
+    const isDate = DATE_ONLY_PATTERN.test(value)
+      ? !isNaN(time) && new Date(time).toISOString().startsWith(value)
+      : TIMESTAMP_PATTERN.test(value) && !isNaN(time);
+    return isDate ? null : `Invalid date '${value}' for '${field}'. Use YYYY-MM-DD`;
+  }
+  if (operator !== ':') {
+    return `'${field}' cannot be compared with '${operator}'. Use '${field}:'`;
+  }
+  if (definition.values && !definition.values.includes(value)) {
+    return `Invalid ${field} '${value}'. Use one of: ${definition.values.join(', ')}`;
+  }
+  return null;
+};
+
+/**
+ * Parses a search box query written in a KQL-like syntax.
+ *
+ * Words and quoted phrases are free text. `field:value` matches a field, and
+ * date fields also accept `<`, `<=`, `>` and `>=`. A leading `-` excludes matches.
+ * Values with spaces are quoted, e.g. `assignee:"Ana Lopez"`. Words whose part before
+ * the colon is not a field, such as URLs or `CVE:2024-1234`, are free text.
+ *
+ * @param input - Query typed in the search box
+ * @returns Field clauses, free text terms and syntax errors, in the order written
+ *
+ * @example
+ * parseTodoQuery('status:in_progress -assignee:bob due<2026-11-01 firewall')
+ * // {
+ * //   clauses: [
+ * //     { field: 'status', operator: ':', value: 'in_progress', negated: false },
+ * //     { field: 'assignee', operator: ':', value: 'bob', negated: true },
+ * //     { field: 'due', operator: '<', value: '2026-11-01', negated: false },
+ * //   ],
+ * //   terms: [{ text: 'firewall', negated: false, phrase: false }],
+ * //   errors: [],
+ * // }
+ */
+export function parseTodoQuery(input: string): ParsedTodoQuery {
+  const clauses: TodoQueryClause[] = [];
+  const terms: TodoQueryTerm[] = [];
+  const errors: TodoQuerySyntaxError[] = [];
+  let position = 0;
+  while (position < input.length) {
+    if (/\s/.test(input[position])) {
+      position++;
+      continue;
+    }
+    const start = position;
+    const negated = input[position] === '-' && position + 1 < input.length && !/\s/.test(input[position + 1]);
+    const bodyStart = negated ? position + 1 : position;
+    const fieldMatch = input[bodyStart] === '"' ? null : FIELD_CLAUSE_PATTERN.exec(input.slice(bodyStart));
+    if (fieldMatch) {
+      const name = fieldMatch[1].toLowerCase();
+      const operator = fieldMatch[2] as TodoQueryOperator;
+      const read = readValue(input, bodyStart + fieldMatch[0].length);
+      if ('message' in read) {
+        errors.push(read);
+        break;
+      }
+      position = read.end;
+      if (!isQueryField(name)) {
+        // Words such as "Note:", "http://host" or "CVE:2024-1234" are free text
+        terms.push({ text: input.slice(bodyStart, position), negated, phrase: false });
+        continue;
+      }
+      // Values of fixed lists are lowercase, so `status:DONE` is accepted
+      const value = TODO_QUERY_FIELDS[name].values ? read.value.toLowerCase() : read.value;
+      const message = checkClause(name, operator, value);
+      if (message) {
+        errors.push({ message, start, end: position });
+        continue;
+      }
+      clauses.push({ field: name, operator, value, negated });
+      continue;
+    }
+    const read = readValue(input, bodyStart);
+    if ('message' in read) {
+      errors.push(read);
+      break;
+    }
+    position = read.end;
+    if (read.value.length > 0) {
+      terms.push({ text: read.value, negated, phrase: read.quoted });
+    }
+  }
+  return { clauses, terms, errors };
+}
+
+/**
+ * Converts a date clause to the bounds of a range, in UTC.
+ * A `YYYY-MM-DD` value stands for the whole day, so `due<=2026-11-01`
+ * includes TODOs due during that day and `due:2026-11-01` matches the day.
+ *
+ * @param clause - Clause on a date field
+ * @returns Range bounds as ISO 8601 timestamps
+ *
+ * @example
+ * getTodoQueryDateRange({ field: 'due', operator: '<', value: '2026-11-01', negated: false })
+ * // { lt: '2026-11-01T00:00:00.000Z' }
+ */
+export function getTodoQueryDateRange(
+  clause: TodoQueryClause
+): { gt?: string; gte?: string; lt?: string; lte?: string } {
+  const time = Date.parse(clause.value);
+  const dateOnly = DATE_ONLY_PATTERN.test(clause.value);
+  const value = new Date(time).toISOString();
+  const nextDay = new Date(time + ONE_DAY_MS).toISOString();
+  switch (clause.operator) {
+    case '<':
+      return { lt: value };
+    case '<=':
+      return dateOnly ? { lt: nextDay } : { lte: value };
+    case '>':
+      return dateOnly ? { gte: nextDay } : { gt: value };
+    case '>=':
+      return { gte: value };
+    default:
+      return dateOnly ? { gte: value, lt: nextDay } : { gte: value, lte: value };
+  }
+}
+
+/**
+ * Suggests completions for the word being typed at the end of a query:
+ * field names while typing a field, then the values of `enum` and `boolean` fields.
+ *
+ * @param input - Query typed so far
+ * @returns Completions, empty when there is nothing to suggest
+ *
+ * @example
+ * getTodoQueryCompletions('firewall pri')
+ * // [{ label: 'priority:', description: 'Priority', query: 'firewall priority:' }]
+ */
+export function getTodoQueryCompletions(input: string): TodoQueryCompletion[] {
+  const wordStart = Math.max(input.lastIndexOf(' '), input.lastIndexOf('\t')) + 1;
+  const prefixEnd = input[wordStart] === '-' ? wordStart + 1 : wordStart;
+  const before = input.slice(0, prefixEnd);
+  const word = input.slice(prefixEnd);
+  if (word.length === 0 || word.startsWith('"')) {
+    return [];
+  }
+  const colon = word.indexOf(':');
+  if (colon === -1) {
+    const partial = word.toLowerCase();
+    return (Object.keys(TODO_QUERY_FIELDS) as TodoQueryField[])
+      .filter((field) => field.startsWith(partial) && field !== partial)
+      .map((field) => ({
+        label: `${field}:`,
+        description: TODO_QUERY_FIELDS[field].description,
+        query: `${before}${field}:`,
+      }));
+  }
+  const name = word.slice(0, colon).toLowerCase();
+  const partial = word.slice(colon + 1);
+  if (!isQueryField(name) || !TODO_QUERY_FIELDS[name].values) {
+    return [];
+  }
+  return (TODO_QUERY_FIELDS[name].values || [])
+    .filter((value) => value.startsWith(partial) && value !== partial)
+    .map((value) => ({
+      label: `${name}:${value}`,
+      description: TODO_QUERY_FIELDS[name].description,
+      query: `${before}${name}:${value} `,
+    }));
+}
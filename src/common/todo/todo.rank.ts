@@ -0,0 +1,99 @@
+/**
+ * Digits of a TODO rank, in sort order.
+ */
+const RANK_DIGITS = '0123456789abcdefghijklmnopqrstuvwxyz';
+
+const RANK_BASE = RANK_DIGITS.length;
+
+/**
+ * Maximum length of a TODO rank.
+ */
+export const MAX_TODO_RANK_LENGTH = 64;
+
+/**
+ * Rank length from which the ranks should be rebalanced.
+ * Ranks grow by about one character every five moves to the same position.
+ */
+export const TODO_RANK_REBALANCE_LENGTH = 16;
+
+const RANK_PATTERN = /^[0-9a-z]*[1-9a-z]$/;
+
+/**
+ * Checks whether a value is a valid TODO rank.
+ *
+ * Ranks are made of the digits `0-9` and lowercase letters `a-z`, compared as strings,
+ * and never end in `0` so that a rank can always be placed before any other.
+ *
+ * @param rank - Value to check
+ * @returns True if the value is a valid rank
+ */
+export function isValidRank(rank: string): boolean {
+  return rank.length <= MAX_TODO_RANK_LENGTH && RANK_PATTERN.test(rank);
+}
+
+/**
+ * Computes the rank between two ranks, read as base-36 fractions (`a` ≈ 0.a).
+ */
+function midpoint(before: string, after: string | null): string {
+  if (after !== null) {
+    let prefix = 0;
+    while ((before[prefix] || '0') === after[prefix]) {
+      prefix++;
+    }
+    if (prefix > 0) {
+      return after.slice(0, prefix) + midpoint(before.slice(prefix), after.slice(prefix));
+    }
+  }
+  const low = before ? RANK_DIGITS.indexOf(before[0]) : 0;
+  const high = after !== null ? RANK_DIGITS.indexOf(after[0]) : RANK_BASE;
+  if (high - low > 1) {
+    return RANK_DIGITS[Math.round((low + high) / 2)];
+  }
+  if (after !== null && after.length > 1) {
+    return after[0];
+  }
+  return RANK_DIGITS[low] + midpoint(before.slice(1), null);
+}
+
+/**
+ * Computes a rank that sorts between two neighbors.
+ *
+ * @param before - Rank of the previous item, or null to place first
+ * @param after - Rank of the next item, or null to place last
+ * @returns A rank greater than `before` and less than `after`
+ *
+ * @remarks
+ * When `before` is not less than `after` (e.g. two items were given the same rank
+ * concurrently), no rank fits between them; the rank returned sorts right after `before`.
+ *
+ * @example
+ * rankBetween(null, null) // 'i'
+ * rankBetween('i', null) // 'r'
+ * rankBetween('a', 'b') // 'ai'
+ */
+export function rankBetween(before: string | null, after: string | null): string {
+  if (before !== null && after !== null && before >= after) {
+    return before + midpoint('', null);
+  }
+  return midpoint(before || '', after);
+}
+
+/**
+ * Computes evenly spaced ranks, leaving room for later moves between each pair.
+ *
+ * @param count - Number of ranks
+ * @returns `count` ascending ranks, all of the same length or shorter
+ */
+export function evenRanks(count: number): string[] {
+  let length = 1;
+  while (Math.pow(RANK_BASE, length) < (count + 1) * RANK_BASE) {
+    length++;
+  }
+  const span = Math.pow(RANK_BASE, length);
+  const ranks: string[] = [];
+  for (let i = 1; i <= count; i++) {
+    const value = Math.floor((i * span) / (count + 1));
+    ranks.push(value.toString(RANK_BASE).padStart(length, '0').replace(/0+$/, ''));
+  }
+  return ranks;
+}
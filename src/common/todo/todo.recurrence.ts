@@ -0,0 +1,144 @@
+/**
+ * How often a recurring TODO repeats.
+ */
+export type TodoRecurrenceFrequency = 'daily' | 'weekly' | 'monthly' | 'yearly';
+
+/**
+ * Array of all valid recurrence frequencies, from shortest to longest period.
+ */
+export const TODO_RECURRENCE_FREQUENCY_VALUES: readonly TodoRecurrenceFrequency[] = [
+  'daily',
+  'weekly',
+  'monthly',
+  'yearly',
+] as const;
+
+/**
+ * Maximum number of periods between two occurrences of a recurring TODO.
+ */
+export const MAX_TODO_RECURRENCE_INTERVAL = 365;
+
+/**
+ * Parsed form of a TODO recurrence rule.
+ */
+export interface TodoRecurrenceRule {
+  /** Period unit */
+  readonly frequency: TodoRecurrenceFrequency;
+
+  /** Number of periods between two occurrences (1 or more) */
+  readonly interval: number;
+}
+
+const RRULE_FREQUENCIES: Record<string, TodoRecurrenceFrequency> = {
+  DAILY: 'daily',
+  WEEKLY: 'weekly',
+  MONTHLY: 'monthly',
+  YEARLY: 'yearly',
+};
+
+/**
+ * Parses a recurrence rule written in the supported RRULE subset.
+ *
+ * Only `FREQ` (`DAILY`, `WEEKLY`, `MONTHLY` or `YEARLY`) and an optional
+ * `INTERVAL` are accepted; parts are separated by `;` and an `RRULE:` prefix is allowed.
+ *
+ * @param rule - Recurrence rule, e.g. `FREQ=MONTHLY;INTERVAL=3`
+ * @returns Parsed rule, or null if the rule is not in the supported subset
+ *
+ * @example
+ * parseRecurrenceRule('FREQ=MONTHLY;INTERVAL=3') // { frequency: 'monthly', interval: 3 }
+ * parseRecurrenceRule('FREQ=MONTHLY;BYDAY=MO') // null
+ */
+export function parseRecurrenceRule(rule: string): TodoRecurrenceRule | null {
+  const parts = rule
+    .trim()
+    .replace(/^RRULE:/i, '')
+    .split(';')
+    .filter((part) => part.length > 0);
+  let frequency: TodoRecurrenceFrequency | undefined;
+  let interval = 1;
+  const seen = new Set<string>();
+  for (const part of parts) {
+    const [name, value, ...rest] = part.split('=');
+    const key = (name || '').trim().toUpperCase();
+    if (!value || rest.length > 0 || seen.has(key)) {
+      return null;
+    }
+    seen.add(key);
+    if (key === 'FREQ') {
+      frequency = RRULE_FREQUENCIES[value.trim().toUpperCase()];
+      if (!frequency) {
+        return null;
+      }
+    } else if (key === 'INTERVAL') {
+      if (!/^\d+$/.test(value.trim())) {
+        return null;
+      }
+      interval = Number(value.trim());
+      if (interval < 1 || interval > MAX_TODO_RECURRENCE_INTERVAL) {
+        return null;
+      }
+    } else {
+      return null;
+    }
+  }
+  return frequency ? { frequency, interval } : null;
+}
+
+/**
+ * Formats a parsed recurrence rule in canonical RRULE form.
+ * `INTERVAL` is left out when it is 1.
+ *
+ * @param rule - Parsed recurrence rule
+ * @returns Recurrence rule string
+ *
+ * @example
+ * formatRecurrenceRule({ frequency: 'yearly', interval: 1 }) // "FREQ=YEARLY"
+ */
+export function formatRecurrenceRule(rule: TodoRecurrenceRule): string {
+  const frequency = `FREQ=${rule.frequency.toUpperCase()}`;
+  return rule.interval > 1 ? `${frequency};INTERVAL=${rule.interval}` : frequency;
+}
+
+/**
+ * Computes the date of the next occurrence of a recurring TODO.
+ *
+ * Dates are shifted in UTC. Monthly and yearly steps that land past the end
+ * of a month are moved to its last day (e.g. January 31 + 1 month is February 28 or 29).
+ *
+ * @param from - ISO 8601 date of the current occurrence
+ * @param rule - Parsed recurrence rule
+ * @returns ISO 8601 timestamp of the next occurrence
+ *
+ * @example
+ * getNextOccurrenceDate('2024-01-31T00:00:00.000Z', { frequency: 'monthly', interval: 1 })
+ * // "2024-02-29T00:00:00.000Z"
+ */
+export function getNextOccurrenceDate(from: string, rule: TodoRecurrenceRule): string {
+  const date = new Date(from);
+  switch (rule.frequency) {
+    case 'daily':
+      date.setUTCDate(date.getUTCDate() + rule.interval);
+      break;
+    case 'weekly':
+      date.setUTCDate(date.getUTCDate() + rule.interval * 7);
+      break;
+    case 'monthly':
+      addUtcMonths(date, rule.interval);
+      break;
+    case 'yearly':
+      addUtcMonths(date, rule.interval * 12);
+      break;
+  }
+  return date.toISOString();
+}
+
+function addUtcMonths(date: Date, months: number): void {
+  const day = date.getUTCDate();
+  date.setUTCDate(1);
+  date.setUTCMonth(date.getUTCMonth() + months);
+  const lastDayOfMonth = new Date(
+    Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 0)
+  ).getUTCDate();
+  date.setUTCDate(Math.min(day, lastDayOfMonth));
+}
@@ -0,0 +1,27 @@
+/**
+ * File format of a compliance report.
+ * - `html`: A self-contained HTML page with inline styles, ready to print
+ * - `markdown`: GitHub-flavored Markdown with tables
+ */
+export type TodoReportFormat = 'html' | 'markdown';
+
+/**
+ * Array of all valid report formats.
+ */
+export const TODO_REPORT_FORMAT_VALUES: readonly TodoReportFormat[] = ['html', 'markdown'] as const;
+
+/**
+ * Content type of the response body for each report format.
+ */
+export const TODO_REPORT_CONTENT_TYPES: Record<TodoReportFormat, string> = {
+  html: 'text/html; charset=utf-8',
+  markdown: 'text/markdown; charset=utf-8',
+};
+
+/**
+ * File extension of the downloaded report for each format.
+ */
+export const TODO_REPORT_FILE_EXTENSIONS: Record<TodoReportFormat, string> = {
+  html: 'html',
+  markdown: 'md',
+};
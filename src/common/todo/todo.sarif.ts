@@ -0,0 +1,45 @@
+import { TodoSeverity } from './todo.types';
+
+/**
+ * Version of the SARIF format accepted by the SARIF import.
+ */
+export const SARIF_VERSION = '2.1.0';
+
+/**
+ * Level of a SARIF result.
+ * - `error`: A serious problem was found
+ * - `warning`: A problem was found
+ * - `note`: A minor problem or an opportunity for improvement
+ * - `none`: The result is informational
+ */
+export type SarifLevel = 'none' | 'note' | 'warning' | 'error';
+
+/**
+ * Array of all SARIF levels in ascending order.
+ */
+export const SARIF_LEVEL_VALUES: readonly SarifLevel[] = [
+  'none',
+  'note',
+  'warning',
+  'error',
+] as const;
+
+/**
+ * Severity given to the TODO of a finding at each SARIF level.
+ */
+export const SARIF_LEVEL_SEVERITY: Record<SarifLevel, TodoSeverity> = {
+  none: 'info',
+  note: 'low',
+  warning: 'medium',
+  error: 'high',
+} as const;
+
+/**
+ * What a SARIF import did, or would do in a dry run, with one finding or TODO.
+ * - `create`: A TODO is created for a new finding
+ * - `update`: The TODO of a finding is updated from the run
+ * - `reopen`: The done TODO of a finding that is reported again is reopened
+ * - `close`: The TODO of a finding the run no longer reports is marked done
+ * - `unchanged`: The TODO already matches the finding
+ */
+export type SarifImportAction = 'create' | 'update' | 'reopen' | 'close' | 'unchanged';
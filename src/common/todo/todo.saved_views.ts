@@ -0,0 +1,125 @@
+import { TodoStatus, TodoPriority, TodoSeverity, TodoSortField, SortDirection } from './todo.types';
+
+/**
+ * Tab of the TODO page a saved view opens.
+ */
+export type TodoViewTab = 'table' | 'kanban' | 'calendar' | 'gantt' | 'analytics';
+
+/**
+ * Array of all valid TODO page tabs.
+ */
+export const TODO_VIEW_TAB_VALUES: readonly TodoViewTab[] = [
+  'table',
+  'kanban',
+  'calendar',
+  'gantt',
+  'analytics',
+] as const;
+
+/**
+ * Maximum number of saved views a user can own.
+ */
+export const MAX_TODO_SAVED_VIEWS = 100;
+
+/**
+ * Maximum character length for the name of a saved view.
+ */
+export const MAX_SAVED_VIEW_NAME_LENGTH = 100;
+
+/**
+ * Filters stored in a saved view, named as the filters of the list endpoint.
+ * Filters left out are not applied.
+ */
+export interface TodoSavedViewFilters {
+  /** Full-text search on title and description */
+  readonly searchText?: string;
+
+  /** Statuses to include */
+  readonly status?: readonly TodoStatus[];
+
+  /** Tags to include */
+  readonly tags?: readonly string[];
+
+  /** Priorities to include */
+  readonly priority?: readonly TodoPriority[];
+
+  /** Severities to include */
+  readonly severity?: readonly TodoSeverity[];
+
+  /** Only overdue TODOs */
+  readonly isOverdue?: boolean;
+
+  /** Created on or after (ISO 8601) */
+  readonly createdAfter?: string;
+
+  /** Created on or before (ISO 8601) */
+  readonly createdBefore?: string;
+
+  /** Updated on or after (ISO 8601) */
+  readonly updatedAfter?: string;
+
+  /** Updated on or before (ISO 8601) */
+  readonly updatedBefore?: string;
+
+  /** Completed on or after (ISO 8601) */
+  readonly completedAfter?: string;
+
+  /** Completed on or before (ISO 8601) */
+  readonly completedBefore?: string;
+
+  /** Due on or after (ISO 8601) */
+  readonly dueDateAfter?: string;
+
+  /** Due on or before (ISO 8601) */
+  readonly dueDateBefore?: string;
+}
+
+/**
+ * Date range filters of a saved view.
+ */
+export const TODO_SAVED_VIEW_DATE_FILTERS = [
+  'createdAfter',
+  'createdBefore',
+  'updatedAfter',
+  'updatedBefore',
+  'completedAfter',
+  'completedBefore',
+  'dueDateAfter',
+  'dueDateBefore',
+] as const;
+
+/**
+ * A named combination of filters, sort order and tab of the TODO page.
+ * All properties are readonly to ensure immutability.
+ */
+export interface TodoSavedView {
+  /** Unique identifier of the view */
+  readonly id: string;
+
+  /** Name shown in the picker, unique among the views of its owner */
+  readonly name: string;
+
+  /** Username of the user who saved the view */
+  readonly owner: string;
+
+  /** Whether every user can see and apply the view (only the owner can change it) */
+  readonly shared: boolean;
+
+  /** Filters applied by the view */
+  readonly filters: TodoSavedViewFilters;
+
+  /** Sort field of the table */
+  readonly sortField: TodoSortField;
+
+  /** Sort direction of the table */
+  readonly sortDirection: SortDirection;
+
+  /** Tab opened by the view */
+  readonly tab: TodoViewTab;
+
+  /** ISO 8601 timestamp when the view was saved */
+  readonly createdAt: string;
+
+  /** ISO 8601 timestamp when the view was last changed */
+  readonly updatedAt: string;
+}
@@ -1,3 +1,5 @@
+import { TodoCustomFieldValues } from './todo.custom_fields';
+
 /**
  * Status of a TODO item.
  * - `planned`: Task is scheduled or pending
@@ -32,6 +34,58 @@ export const TODO_STATUS_COLORS: Record<TodoStatus, string> = {
   done: 'success',
   error: 'danger',
 } as const;
+
+/**
+ * Declarative status workflow applied to TODO updates.
+ * Each status lists the statuses it may move to; transitions into a
+ * status listed in `requireReason` must carry a `statusReason`.
+ */
+export interface TodoStatusTransitionRules {
+  /** Whether transitions are enforced (when false, any status change is allowed) */
+  readonly enabled: boolean;
+
+  /** Allowed target statuses keyed by current status */
+  readonly allowed: Readonly<Record<TodoStatus, readonly TodoStatus[]>>;
+
+  /** Target statuses that require a non-empty reason */
+  readonly requireReason: readonly TodoStatus[];
+}
+
+/**
+ * Default status workflow.
+ * Work must be started before it can be completed, and completed work
+ * can only be reopened to `in_progress`.
+ */
+export const DEFAULT_TODO_STATUS_TRANSITIONS: TodoStatusTransitionRules = {
+  enabled: true,
+  allowed: {
+    planned: ['in_progress', 'error'],
+    in_progress: ['planned', 'done', 'error'],
+    done: ['in_progress'],
+    error: ['planned', 'in_progress'],
+  },
+  requireReason: ['error'],
+};
+
+/**
+ * Maximum character length for a status change reason.
+ */
+export const MAX_STATUS_REASON_LENGTH = 1000;
+
+/**
+ * Maximum nesting depth of subtasks (a top-level TODO has depth 1).
+ */
+export const MAX_TODO_HIERARCHY_DEPTH = 5;
+
+/**
+ * Maximum number of TODOs a single TODO can be blocked by.
+ */
+export const MAX_TODO_BLOCKERS = 20;
+
+/**
+ * Statuses a TODO cannot move to while any of its blockers is not done.
+ */
+export const TODO_BLOCKED_STATUSES: readonly TodoStatus[] = ['in_progress', 'done'];
 /**
  * Priority level of a TODO item.
  * Indicates the importance and urgency of the task.
@@ -145,6 +199,9 @@ export interface Todo {
   /** Severity level indicating the impact or seriousness */
   readonly severity: TodoSeverity;
 
+  /** Optional date work is planned to start, in ISO 8601 format */
+  readonly startDate?: string;
+
   /** Optional due date in ISO 8601 format */
   readonly dueDate?: string;
 
@@ -159,6 +216,118 @@ export interface Todo {
 
   /** ISO 8601 timestamp when the TODO was completed, or null if not completed */
   readonly completedAt: string | null;
+
+  /** Optional reason recorded with the most recent status change */
+  readonly statusReason?: string;
+
+  /** ID of the parent TODO when this TODO is a subtask */
+  readonly parentId?: string;
+
+  /**
+   * Completion of this TODO's direct subtasks.
+   * Computed when the TODO is read; absent when it has no subtasks.
+   */
+  readonly childProgress?: TodoChildProgress;
+
+  /** IDs of the TODOs that must be done before this TODO can start */
+  readonly blockedBy?: readonly string[];
+
+  /**
+   * Current state of the TODOs in `blockedBy`.
+   * Computed when the TODO is read; blockers that were deleted are left out.
+   */
+  readonly blockers?: readonly TodoBlocker[];
+
+  /**
+   * Whether any blocker is not done yet.
+   * Computed when the TODO is read; absent when it has no blockers.
+   */
+  readonly isBlocked?: boolean;
+
+  /**
+   * Recurrence rule in the supported RRULE subset (e.g. `FREQ=MONTHLY;INTERVAL=3`).
+   * When the TODO is completed, the next occurrence is created automatically.
+   */
+  readonly recurrence?: string;
+
+  /** ID of the first TODO of the recurring series this TODO was generated from */
+  readonly seriesId?: string;
+
+  /** ID of the occurrence generated when this recurring TODO was completed */
+  readonly nextOccurrenceId?: string;
+
+  /** Values of the deployment's custom fields, keyed by field key */
+  readonly custom?: TodoCustomFieldValues;
+
+  /** Scanner finding this TODO tracks, when it was created by a SARIF import */
+  readonly finding?: TodoFinding;
+
+  /**
+   * Position of the TODO in manually ordered lists such as Kanban columns.
+   * Ranks are compared as strings; TODOs without a rank sort last.
+   */
+  readonly rank?: string;
+
+  /**
+   * Number of comments on the TODO.
+   * Computed when TODOs are listed or read.
+   */
+  readonly commentCount?: number;
+
+  /**
+   * Opaque version token for optimistic concurrency control.
+   * Send it back on update (`If-Match` header or `version` field) to reject
+   * the change if the TODO was modified in the meantime.
+   */
+  readonly version?: string;
+}
+/**
+ * Roll-up of a parent TODO's direct subtasks.
+ */
+export interface TodoChildProgress {
+  /** Number of direct subtasks */
+  readonly total: number;
+
+  /** Number of direct subtasks with status `done` */
+  readonly done: number;
+
+  /** Percentage of direct subtasks done (0-100) */
+  readonly percent: number;
+}
+/**
+ * Scanner finding tracked by a TODO created from a SARIF import.
+ */
+export interface TodoFinding {
+  /** Name of the tool that reported the finding (SARIF `tool.driver.name`) */
+  readonly tool: string;
+
+  /** Category of the analysis (SARIF `automationDetails.id`), when the tool reports one */
+  readonly category?: string;
+
+  /** ID of the rule the finding violates */
+  readonly ruleId: string;
+
+  /** Stable fingerprint identifying the finding across runs */
+  readonly fingerprint: string;
+
+  /** Primary location of the finding, e.g. `src/app.js:42` */
+  readonly location?: string;
+
+  /** ISO 8601 time of the most recent run that reported the finding */
+  readonly lastSeenAt: string;
+}
+/**
+ * Summary of a TODO that blocks another TODO.
+ */
+export interface TodoBlocker {
+  /** ID of the blocking TODO */
+  readonly id: string;
+
+  /** Title of the blocking TODO */
+  readonly title: string;
+
+  /** Current status of the blocking TODO */
+  readonly status: TodoStatus;
 }
 /**
  * Fields that can be used for sorting TODO items.
@@ -171,7 +340,9 @@ export type TodoSortField =
   | 'status'
   | 'priority'
   | 'severity'
-  | 'dueDate';
+  | 'dueDate'
+  | 'rank'
+  | `custom.${string}`;
 
 /**
  * Sort direction for ordering results.
@@ -251,6 +422,38 @@ export interface TimeSeriesPoint {
  * Defines the data types and indexing behavior for each field.
  */
 export const TODO_INDEX_MAPPING = {
+  // Date-like strings in custom fields stay keywords; built-in date fields are mapped explicitly
+  date_detection: false,
+  dynamic_templates: [
+    {
+      custom_strings: {
+        path_match: 'custom.*',
+        match_mapping_type: 'string',
+        mapping: {
+          type: 'keyword',
+          ignore_above: 1024,
+        },
+      },
+    },
+    {
+      custom_integers: {
+        path_match: 'custom.*',
+        match_mapping_type: 'long',
+        mapping: {
+          type: 'double',
+        },
+      },
+    },
+    {
+      custom_decimals: {
+        path_match: 'custom.*',
+        match_mapping_type: 'double',
+        mapping: {
+          type: 'double',
+        },
+      },
+    },
+  ],
   properties: {
     title: {
       type: 'text',
@@ -279,6 +482,10 @@ export const TODO_INDEX_MAPPING = {
     severity: {
       type: 'keyword',
     },
+    start_date: {
+      type: 'date',
+      format: 'strict_date_optional_time',
+    },
     due_date: {
       type: 'date',
       format: 'strict_date_optional_time',
@@ -298,6 +505,54 @@ export const TODO_INDEX_MAPPING = {
       type: 'date',
       format: 'strict_date_optional_time',
     },
+    status_reason: {
+      type: 'text',
+    },
+    parent_id: {
+      type: 'keyword',
+    },
+    blocked_by: {
+      type: 'keyword',
+    },
+    recurrence: {
+      type: 'keyword',
+    },
+    series_id: {
+      type: 'keyword',
+    },
+    next_occurrence_id: {
+      type: 'keyword',
+    },
+    rank: {
+      type: 'keyword',
+    },
+    finding: {
+      properties: {
+        tool: {
+          type: 'keyword',
+        },
+        category: {
+          type: 'keyword',
+        },
+        rule_id: {
+          type: 'keyword',
+        },
+        fingerprint: {
+          type: 'keyword',
+        },
+        location: {
+          type: 'keyword',
+        },
+        last_seen_at: {
+          type: 'date',
+          format: 'strict_date_optional_time',
+        },
+      },
+    },
+    custom: {
+      type: 'object',
+      dynamic: true,
+    },
   },
 } as const;
 
@@ -309,6 +564,140 @@ export const TODO_INDEX_SETTINGS = {
   number_of_shards: 1,
   number_of_replicas: 0,
 } as const;
+
+/**
+ * OpenSearch index mapping for TODO history (audit trail) entries.
+ * Each document records one create/update/delete with its field-level changes.
+ */
+export const TODO_AUDIT_INDEX_MAPPING = {
+  properties: {
+    todo_id: {
+      type: 'keyword',
+    },
+    action: {
+      type: 'keyword',
+    },
+    actor: {
+      type: 'keyword',
+    },
+    timestamp: {
+      type: 'date',
+      format: 'strict_date_optional_time',
+    },
+    changes: {
+      type: 'nested',
+      properties: {
+        field: {
+          type: 'keyword',
+        },
+        old_value: {
+          type: 'keyword',
+          ignore_above: 256,
+        },
+        new_value: {
+          type: 'keyword',
+          ignore_above: 256,
+        },
+      },
+    },
+  },
+} as const;
+
+/**
+ * OpenSearch index mapping for the custom field registry.
+ * Each document is one field definition, stored under its key as document ID.
+ */
+export const TODO_CUSTOM_FIELDS_INDEX_MAPPING = {
+  properties: {
+    label: {
+      type: 'keyword',
+    },
+    type: {
+      type: 'keyword',
+    },
+    description: {
+      type: 'text',
+    },
+    options: {
+      type: 'keyword',
+    },
+    required: {
+      type: 'boolean',
+    },
+    created_at: {
+      type: 'date',
+      format: 'strict_date_optional_time',
+    },
+    updated_at: {
+      type: 'date',
+      format: 'strict_date_optional_time',
+    },
+  },
+} as const;
+
+/**
+ * OpenSearch index mapping for comments on TODO items.
+ */
+export const TODO_COMMENTS_INDEX_MAPPING = {
+  properties: {
+    todo_id: {
+      type: 'keyword',
+    },
+    author: {
+      type: 'keyword',
+    },
+    body: {
+      type: 'text',
+    },
+    created_at: {
+      type: 'date',
+      format: 'strict_date_optional_time',
+    },
+    updated_at: {
+      type: 'date',
+      format: 'strict_date_optional_time',
+    },
+  },
+} as const;
+
+/**
+ * OpenSearch index mapping for saved views of the TODO page.
+ * Filters are stored as given and not indexed.
+ */
+export const TODO_SAVED_VIEWS_INDEX_MAPPING = {
+  properties: {
+    name: {
+      type: 'keyword',
+    },
+    owner: {
+      type: 'keyword',
+    },
+    shared: {
+      type: 'boolean',
+    },
+    filters: {
+      type: 'object',
+      enabled: false,
+    },
+    sort_field: {
+      type: 'keyword',
+    },
+    sort_direction: {
+      type: 'keyword',
+    },
+    tab: {
+      type: 'keyword',
+    },
+    created_at: {
+      type: 'date',
+      format: 'strict_date_optional_time',
+    },
+    updated_at: {
+      type: 'date',
+      format: 'strict_date_optional_time',
+    },
+  },
+} as const;
 /**
  * Statistics for a specific compliance framework.
  * Shows coverage and completion status.
@@ -0,0 +1,57 @@
+import { TodoStatus } from './todo.types';
+
+/**
+ * Maximum number of TODOs per status; statuses left out have no limit.
+ */
+export type TodoWipLimitMap = Readonly<Partial<Record<TodoStatus, number>>>;
+
+/**
+ * Work-in-progress limits of the Kanban columns.
+ */
+export interface TodoWipLimits {
+  /** Whether updates that would go over a limit are rejected (when false, limits are only shown) */
+  readonly enforce: boolean;
+
+  /** Limits on the number of TODOs in each status, across all assignees */
+  readonly global: TodoWipLimitMap;
+
+  /** Limits on the number of TODOs one assignee has in each status, keyed by assignee */
+  readonly perAssignee: Readonly<Record<string, TodoWipLimitMap>>;
+}
+
+/**
+ * Default work-in-progress limits: none.
+ */
+export const DEFAULT_TODO_WIP_LIMITS: TodoWipLimits = {
+  enforce: false,
+  global: {},
+  perAssignee: {},
+};
+
+/**
+ * Looks up the work-in-progress limit of a status.
+ *
+ * @param limits - Configured limits
+ * @param status - Status of the column
+ * @param assignee - Assignee whose TODOs are counted, or undefined for the global limit
+ * @returns Maximum number of TODOs, or null if the status has no limit
+ *
+ * @example
+ * const limits = {
+ *   enforce: true,
+ *   global: { in_progress: 10 },
+ *   perAssignee: { alice: { in_progress: 3 } },
+ * };
+ * getWipLimit(limits, 'in_progress') // 10
+ * getWipLimit(limits, 'in_progress', 'alice') // 3
+ * getWipLimit(limits, 'in_progress', 'bob') // null
+ */
+export function getWipLimit(
+  limits: TodoWipLimits,
+  status: TodoStatus,
+  assignee?: string
+): number | null {
+  const map = assignee === undefined ? limits.global : limits.perAssignee[assignee];
+  const limit = map ? map[status] : undefined;
+  return limit === undefined ? null : limit;
+}
@@ -431,6 +431,38 @@ describe('ComplianceDashboard', () => {
       expect(select.options.length).toBe(1); 
     });
   });
+  describe('OSCAL Export', () => {
+    const mockOnExportOscal = jest.fn();
+    it('should not render the download button without a callback', () => {
+      render(<ComplianceDashboard {...defaultProps} />);
+      expect(screen.queryByText('Download POA&M (OSCAL)')).not.toBeInTheDocument();
+    });
+    it('should disable the download button until a framework is selected', () => {
+      render(<ComplianceDashboard {...defaultProps} onExportOscal={mockOnExportOscal} />);
+      expect(screen.getByTestId('complianceOscalExport')).toBeDisabled();
+    });
+    it('should download the POA&M of the selected framework', () => {
+      render(<ComplianceDashboard {...defaultProps} onExportOscal={mockOnExportOscal} />);
+      const select = screen.getByLabelText(/Filter by Compliance Framework/i);
+      fireEvent.change(select, { target: { value: 'HIPAA' } });
+      fireEvent.click(screen.getByTestId('complianceOscalExport'));
+      expect(mockOnExportOscal).toHaveBeenCalledWith('HIPAA');
+    });
+    it('should disable the download button when the framework has no open tasks', () => {
+      const doneData: AnalyticsStats = {
+        ...sampleAnalyticsData,
+        complianceCoverage: [
+          { framework: 'SOC2', total: 4, byStatus: { done: 4 }, completionRate: 100 },
+        ],
+      } as AnalyticsStats;
+      render(
+        <ComplianceDashboard {...defaultProps} data={doneData} onExportOscal={mockOnExportOscal} />
+      );
+      const select = screen.getByLabelText(/Filter by Compliance Framework/i);
+      fireEvent.change(select, { target: { value: 'SOC2' } });
+      expect(screen.getByTestId('complianceOscalExport')).toBeDisabled();
+    });
+  });
   describe('Layout and Responsiveness', () => {
     it('should render visualizations in 2x2 grid layout', () => {
       const { container } = render(<ComplianceDashboard {...defaultProps} />);
@@ -1,6 +1,6 @@
 
 import React from 'react';
-import { render, screen } from '@testing-library/react';
+import { render, screen, fireEvent } from '@testing-library/react';
 import { KanbanBoard } from '../ui/KanbanBoard';
 import { Todo } from '../../../../common/todo/todo.types';
 import { IntlProvider } from 'react-intl';
@@ -77,36 +77,60 @@ describe('KanbanBoard', () => {
       title: 'Planned',
       color: 'primary',
       droppableId: 'planned',
+      draggableIdPrefix: '',
       todos: [mockTodos[0]],
       count: 1,
+      total: 1,
+      hasMore: false,
+      isLoadingMore: false,
+      limit: null,
+      isOverLimit: false,
     },
     {
       status: 'in_progress',
       title: 'In Progress',
       color: 'warning',
       droppableId: 'in_progress',
+      draggableIdPrefix: '',
       todos: [mockTodos[1]],
       count: 1,
+      total: 1,
+      hasMore: false,
+      isLoadingMore: false,
+      limit: null,
+      isOverLimit: false,
     },
     {
       status: 'done',
       title: 'Done',
       color: 'success',
       droppableId: 'done',
+      draggableIdPrefix: '',
       todos: [mockTodos[2]],
       count: 1,
+      total: 1,
+      hasMore: false,
+      isLoadingMore: false,
+      limit: null,
+      isOverLimit: false,
     },
     {
       status: 'error',
       title: 'Error',
       color: 'danger',
       droppableId: 'error',
+      draggableIdPrefix: '',
       todos: [mockTodos[3]],
       count: 1,
+      total: 1,
+      hasMore: false,
+      isLoadingMore: false,
+      limit: null,
+      isOverLimit: false,
     },
   ];
 
-  const mockOnStatusChange = jest.fn();
+  const mockOnMove = jest.fn();
   const mockOnEdit = jest.fn();
   const mockOnDelete = jest.fn();
   const mockHandleDragEnd = jest.fn();
@@ -120,11 +144,17 @@ describe('KanbanBoard', () => {
     (useKanbanBoardModule.useKanbanBoard as jest.Mock).mockReturnValue({
       data: {
         columns: mockColumns,
+        lanes: [],
+        parentTitles: {},
+        unloadedCount: 0,
+        reasonPrompt: null,
       },
       uiState: {
+        swimlane: 'none',
         isDragging: false,
         hasError: false,
         isEmpty: false,
+        isLoadingMore: false,
       },
       actions: {
         handleDragEnd: mockHandleDragEnd,
@@ -141,7 +171,7 @@ describe('KanbanBoard', () => {
           todos={mockTodos}
           loading={false}
           error={null}
-          onStatusChange={mockOnStatusChange}
+          onMove={mockOnMove}
           onEdit={mockOnEdit}
           onDelete={mockOnDelete}
         />
@@ -159,7 +189,7 @@ describe('KanbanBoard', () => {
           todos={mockTodos}
           loading={false}
           error={null}
-          onStatusChange={mockOnStatusChange}
+          onMove={mockOnMove}
           onEdit={mockOnEdit}
           onDelete={mockOnDelete}
         />
@@ -178,43 +208,73 @@ describe('KanbanBoard', () => {
           title: 'Planned',
           color: 'primary',
           droppableId: 'planned',
+          draggableIdPrefix: '',
           todos: [mockTodos[0], mockTodos[1]],
           count: 2,
+          total: 2,
+          hasMore: false,
+          isLoadingMore: false,
+          limit: null,
+          isOverLimit: false,
         },
         {
           status: 'in_progress',
           title: 'In Progress',
           color: 'warning',
           droppableId: 'in_progress',
+          draggableIdPrefix: '',
           todos: [],
           count: 0,
+          total: 0,
+          hasMore: false,
+          isLoadingMore: false,
+          limit: null,
+          isOverLimit: false,
         },
         {
           status: 'done',
           title: 'Done',
           color: 'success',
           droppableId: 'done',
+          draggableIdPrefix: '',
           todos: [mockTodos[2]],
           count: 1,
+          total: 1,
+          hasMore: false,
+          isLoadingMore: false,
+          limit: null,
+          isOverLimit: false,
         },
         {
           status: 'error',
           title: 'Error',
           color: 'danger',
           droppableId: 'error',
+          draggableIdPrefix: '',
           todos: [mockTodos[3]],
           count: 1,
+          total: 1,
+          hasMore: false,
+          isLoadingMore: false,
+          limit: null,
+          isOverLimit: false,
         },
       ];
 
       (useKanbanBoardModule.useKanbanBoard as jest.Mock).mockReturnValue({
         data: {
           columns: multiTodoColumns,
+          lanes: [],
+          parentTitles: {},
+          unloadedCount: 0,
+          reasonPrompt: null,
         },
         uiState: {
+          swimlane: 'none',
           isDragging: false,
           hasError: false,
           isEmpty: false,
+          isLoadingMore: false,
         },
         actions: {
           handleDragEnd: mockHandleDragEnd,
@@ -228,7 +288,7 @@ describe('KanbanBoard', () => {
           todos={mockTodos}
           loading={false}
           error={null}
-          onStatusChange={mockOnStatusChange}
+          onMove={mockOnMove}
           onEdit={mockOnEdit}
           onDelete={mockOnDelete}
         />
@@ -239,6 +299,97 @@ describe('KanbanBoard', () => {
       expect(screen.getByText(/Done \(1\)/)).toBeInTheDocument();
       expect(screen.getByText(/Error \(1\)/)).toBeInTheDocument();
     });
+
+    it('should show the count against the limit of columns with one', () => {
+      const limitedColumns: readonly KanbanColumnData[] = mockColumns.map((column) =>
+        column.status === 'in_progress' ? { ...column, limit: 0, isOverLimit: true } : column
+      );
+
+      (useKanbanBoardModule.useKanbanBoard as jest.Mock).mockReturnValue({
+        data: {
+          columns: limitedColumns,
+          lanes: [],
+          parentTitles: {},
+          unloadedCount: 0,
+          reasonPrompt: null,
+        },
+        uiState: {
+          swimlane: 'none',
+          isDragging: false,
+          hasError: false,
+          isEmpty: false,
+          isLoadingMore: false,
+        },
+        actions: {
+          handleDragEnd: mockHandleDragEnd,
+          handleEdit: mockHandleEdit,
+          handleDelete: mockHandleDelete,
+        },
+      });
+
+      renderWithIntl(
+        <KanbanBoard
+          todos={mockTodos}
+          loading={false}
+          error={null}
+          onMove={mockOnMove}
+          onEdit={mockOnEdit}
+          onDelete={mockOnDelete}
+        />
+      );
+
+      expect(screen.getByTestId('kanbanColumnOverLimit')).toHaveTextContent('(1 / 0)');
+      expect(screen.getByText(/Planned \(1\)/)).toBeInTheDocument();
+    });
+  });
+
+  describe('Load More', () => {
+    const mockHandleLoadMore = jest.fn();
+
+    it('should offer to load the rest of a column', () => {
+      const partialColumns: readonly KanbanColumnData[] = mockColumns.map((column) =>
+        column.status === 'planned' ? { ...column, total: 21, hasMore: true } : column
+      );
+
+      (useKanbanBoardModule.useKanbanBoard as jest.Mock).mockReturnValue({
+        data: {
+          columns: partialColumns,
+          lanes: [],
+          parentTitles: {},
+          unloadedCount: 20,
+          reasonPrompt: null,
+        },
+        uiState: {
+          swimlane: 'none',
+          isDragging: false,
+          hasError: false,
+          isEmpty: false,
+          isLoadingMore: false,
+        },
+        actions: {
+          handleDragEnd: mockHandleDragEnd,
+          handleEdit: mockHandleEdit,
+          handleDelete: mockHandleDelete,
+          handleLoadMore: mockHandleLoadMore,
+        },
+      });
+
+      renderWithIntl(
+        <KanbanBoard
+          todos={mockTodos}
+          loading={false}
+          error={null}
+          onMove={mockOnMove}
+          onEdit={mockOnEdit}
+          onDelete={mockOnDelete}
+        />
+      );
+
+      expect(screen.getByText(/Planned \(21\)/)).toBeInTheDocument();
+      expect(screen.queryByTestId('kanbanLoadMore-done')).not.toBeInTheDocument();
+      fireEvent.click(screen.getByTestId('kanbanLoadMore-planned'));
+      expect(mockHandleLoadMore).toHaveBeenCalledWith('planned');
+    });
   });
 
   describe('Loading State', () => {
@@ -248,7 +399,7 @@ describe('KanbanBoard', () => {
           todos={[]}
           loading={true}
           error={null}
-          onStatusChange={mockOnStatusChange}
+          onMove={mockOnMove}
           onEdit={mockOnEdit}
           onDelete={mockOnDelete}
         />
@@ -264,7 +415,7 @@ describe('KanbanBoard', () => {
           todos={mockTodos}
           loading={true}
           error={null}
-          onStatusChange={mockOnStatusChange}
+          onMove={mockOnMove}
           onEdit={mockOnEdit}
           onDelete={mockOnDelete}
         />
@@ -284,43 +435,73 @@ describe('KanbanBoard', () => {
           title: 'Planned',
           color: 'primary',
           droppableId: 'planned',
+          draggableIdPrefix: '',
           todos: [],
           count: 0,
+          total: 0,
+          hasMore: false,
+          isLoadingMore: false,
+          limit: null,
+          isOverLimit: false,
         },
         {
           status: 'in_progress',
           title: 'In Progress',
           color: 'warning',
           droppableId: 'in_progress',
+          draggableIdPrefix: '',
           todos: [],
           count: 0,
+          total: 0,
+          hasMore: false,
+          isLoadingMore: false,
+          limit: null,
+          isOverLimit: false,
         },
         {
           status: 'done',
           title: 'Done',
           color: 'success',
           droppableId: 'done',
+          draggableIdPrefix: '',
           todos: [],
           count: 0,
+          total: 0,
+          hasMore: false,
+          isLoadingMore: false,
+          limit: null,
+          isOverLimit: false,
         },
         {
           status: 'error',
           title: 'Error',
           color: 'danger',
           droppableId: 'error',
+          draggableIdPrefix: '',
           todos: [],
           count: 0,
+          total: 0,
+          hasMore: false,
+          isLoadingMore: false,
+          limit: null,
+          isOverLimit: false,
         },
       ];
 
       (useKanbanBoardModule.useKanbanBoard as jest.Mock).mockReturnValue({
         data: {
           columns: emptyColumns,
+          lanes: [],
+          parentTitles: {},
+          unloadedCount: 0,
+          reasonPrompt: null,
         },
         uiState: {
+          swimlane: 'none',
           isDragging: false,
           hasError: false,
           isEmpty: true,
+          isLoadingMore: false,
         },
         actions: {
           handleDragEnd: mockHandleDragEnd,
@@ -334,7 +515,7 @@ describe('KanbanBoard', () => {
           todos={[]}
           loading={false}
           error={null}
-          onStatusChange={mockOnStatusChange}
+          onMove={mockOnMove}
           onEdit={mockOnEdit}
           onDelete={mockOnDelete}
         />
@@ -354,7 +535,7 @@ describe('KanbanBoard', () => {
           todos={mockTodos}
           loading={false}
           error={null}
-          onStatusChange={mockOnStatusChange}
+          onMove={mockOnMove}
           onEdit={mockOnEdit}
           onDelete={mockOnDelete}
         />
@@ -376,7 +557,7 @@ describe('KanbanBoard', () => {
           todos={mockTodos}
           loading={false}
           error={null}
-          onStatusChange={mockOnStatusChange}
+          onMove={mockOnMove}
           onEdit={mockOnEdit}
           onDelete={mockOnDelete}
         />
@@ -388,6 +569,64 @@ describe('KanbanBoard', () => {
     });
   });
 
+  describe('Reason Prompt', () => {
+    it('should ask for the reason of a drop and pass it to the hook', () => {
+      const mockSetReason = jest.fn();
+      const mockConfirmReason = jest.fn();
+      const hookResult = (useKanbanBoardModule.useKanbanBoard as jest.Mock)();
+      (useKanbanBoardModule.useKanbanBoard as jest.Mock).mockReturnValue({
+        ...hookResult,
+        data: {
+          ...hookResult.data,
+          reasonPrompt: { todoTitle: 'Rotate keys', statusTitle: 'Error', reason: 'Vendor outage' },
+        },
+        actions: {
+          ...hookResult.actions,
+          setReason: mockSetReason,
+          confirmReason: mockConfirmReason,
+          cancelReason: jest.fn(),
+        },
+      });
+
+      renderWithIntl(
+        <KanbanBoard
+          todos={mockTodos}
+          loading={false}
+          error={null}
+          onMove={mockOnMove}
+          onEdit={mockOnEdit}
+          onDelete={mockOnDelete}
+        />
+      );
+
+      expect(screen.getByTestId('kanbanReasonModal')).toHaveTextContent(
+        'Why is Rotate keys moving to Error?'
+      );
+      fireEvent.change(screen.getByTestId('kanbanReasonInput'), {
+        target: { value: 'Vendor outage, retry Monday' },
+      });
+      expect(mockSetReason).toHaveBeenCalledWith('Vendor outage, retry Monday');
+
+      fireEvent.click(screen.getByText('Move'));
+      expect(mockConfirmReason).toHaveBeenCalled();
+    });
+
+    it('should not ask for a reason when no drop is waiting for one', () => {
+      renderWithIntl(
+        <KanbanBoard
+          todos={mockTodos}
+          loading={false}
+          error={null}
+          onMove={mockOnMove}
+          onEdit={mockOnEdit}
+          onDelete={mockOnDelete}
+        />
+      );
+
+      expect(screen.queryByTestId('kanbanReasonModal')).not.toBeInTheDocument();
+    });
+  });
+
   describe('Error State', () => {
     it('should still render board when error is present', () => {
       const error = new Error('Test error');
@@ -397,7 +636,7 @@ describe('KanbanBoard', () => {
           todos={mockTodos}
           loading={false}
           error={error}
-          onStatusChange={mockOnStatusChange}
+          onMove={mockOnMove}
           onEdit={mockOnEdit}
           onDelete={mockOnDelete}
         />
@@ -415,7 +654,7 @@ describe('KanbanBoard', () => {
           todos={mockTodos}
           loading={false}
           error={null}
-          onStatusChange={mockOnStatusChange}
+          onMove={mockOnMove}
           onEdit={mockOnEdit}
           onDelete={mockOnDelete}
         />
@@ -434,7 +673,7 @@ describe('KanbanBoard', () => {
           todos={mockTodos}
           loading={false}
           error={null}
-          onStatusChange={mockOnStatusChange}
+          onMove={mockOnMove}
           onEdit={mockOnEdit}
           onDelete={mockOnDelete}
         />
@@ -453,7 +692,7 @@ describe('KanbanBoard', () => {
           todos={mockTodos}
           loading={false}
           error={null}
-          onStatusChange={mockOnStatusChange}
+          onMove={mockOnMove}
           onEdit={mockOnEdit}
           onDelete={mockOnDelete}
         />
@@ -478,7 +717,7 @@ describe('KanbanBoard', () => {
           todos={mockTodos}
           loading={false}
           error={null}
-          onStatusChange={mockOnStatusChange}
+          onMove={mockOnMove}
           onEdit={mockOnEdit}
           onDelete={mockOnDelete}
         />
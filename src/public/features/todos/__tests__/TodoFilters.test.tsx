@@ -14,6 +14,8 @@ describe('TodoFilters', () => {
   const mockSetIsSeverityPopoverOpen = jest.fn();
   const mockSetLocalTags = jest.fn();
   const mockHandleSearchChange = jest.fn();
+  const mockApplyQuerySuggestion = jest.fn();
+  const mockCloseSuggestions = jest.fn();
   const mockHandleStatusChange = jest.fn();
   const mockHandlePriorityChange = jest.fn();
   const mockHandleSeverityChange = jest.fn();
@@ -49,11 +51,14 @@ describe('TodoFilters', () => {
         localTags: '',
         localShowOverdueOnly: false,
         activeFiltersCount: 0,
+        queryError: null,
+        querySuggestions: [],
       },
       uiState: {
         isStatusPopoverOpen: false,
         isPriorityPopoverOpen: false,
         isSeverityPopoverOpen: false,
+        isSuggestionsOpen: false,
       },
       actions: {
         setIsStatusPopoverOpen: mockSetIsStatusPopoverOpen,
@@ -61,6 +66,8 @@ describe('TodoFilters', () => {
         setIsSeverityPopoverOpen: mockSetIsSeverityPopoverOpen,
         setLocalTags: mockSetLocalTags,
         handleSearchChange: mockHandleSearchChange,
+        applyQuerySuggestion: mockApplyQuerySuggestion,
+        closeSuggestions: mockCloseSuggestions,
         handleStatusChange: mockHandleStatusChange,
         handlePriorityChange: mockHandlePriorityChange,
         handleSeverityChange: mockHandleSeverityChange,
@@ -140,11 +147,14 @@ describe('TodoFilters', () => {
           localTags: '',
           localShowOverdueOnly: false,
           activeFiltersCount: 1,
+          queryError: null,
+          querySuggestions: [],
         },
         uiState: {
           isStatusPopoverOpen: false,
           isPriorityPopoverOpen: false,
           isSeverityPopoverOpen: false,
+          isSuggestionsOpen: false,
         },
         actions: {
           setIsStatusPopoverOpen: mockSetIsStatusPopoverOpen,
@@ -152,6 +162,8 @@ describe('TodoFilters', () => {
           setIsSeverityPopoverOpen: mockSetIsSeverityPopoverOpen,
           setLocalTags: mockSetLocalTags,
           handleSearchChange: mockHandleSearchChange,
+          applyQuerySuggestion: mockApplyQuerySuggestion,
+          closeSuggestions: mockCloseSuggestions,
           handleStatusChange: mockHandleStatusChange,
           handlePriorityChange: mockHandlePriorityChange,
           handleSeverityChange: mockHandleSeverityChange,
@@ -208,11 +220,14 @@ describe('TodoFilters', () => {
           localTags: '',
           localShowOverdueOnly: false,
           activeFiltersCount: 1,
+          queryError: null,
+          querySuggestions: [],
         },
         uiState: {
           isStatusPopoverOpen: false,
           isPriorityPopoverOpen: false,
           isSeverityPopoverOpen: false,
+          isSuggestionsOpen: false,
         },
         actions: {
           setIsStatusPopoverOpen: mockSetIsStatusPopoverOpen,
@@ -220,6 +235,8 @@ describe('TodoFilters', () => {
           setIsSeverityPopoverOpen: mockSetIsSeverityPopoverOpen,
           setLocalTags: mockSetLocalTags,
           handleSearchChange: mockHandleSearchChange,
+          applyQuerySuggestion: mockApplyQuerySuggestion,
+          closeSuggestions: mockCloseSuggestions,
           handleStatusChange: mockHandleStatusChange,
           handlePriorityChange: mockHandlePriorityChange,
           handleSeverityChange: mockHandleSeverityChange,
@@ -238,6 +255,49 @@ describe('TodoFilters', () => {
       const searchInput = screen.getByPlaceholderText('Search TODOs...') as HTMLInputElement;
       expect(searchInput.value).toBe('existing search');
     });
+
+    it('should highlight the invalid part of the query', () => {
+      const hookResult = (useTodoFilters as jest.Mock)();
+      (useTodoFilters as jest.Mock).mockReturnValueOnce({
+        ...hookResult,
+        data: {
+          ...hookResult.data,
+          localSearchText: 'firewall owner:bob',
+          queryError: {
+            message: "Unknown field 'owner'",
+            before: 'firewall ',
+            text: 'owner',
+            after: ':bob',
+          },
+        },
+      });
+
+      render(<TodoFilters onFiltersChange={mockOnFiltersChange} />);
+
+      expect(screen.getByTestId('todoSearchQueryError')).toHaveTextContent(
+        "Unknown field 'owner': firewall owner:bob"
+      );
+      expect(screen.getByText('owner').tagName).toBe('MARK');
+    });
+
+    it('should apply a suggestion when it is clicked', () => {
+      const suggestion = {
+        label: 'priority:',
+        description: 'Priority',
+        query: 'firewall priority:',
+      };
+      const hookResult = (useTodoFilters as jest.Mock)();
+      (useTodoFilters as jest.Mock).mockReturnValueOnce({
+        ...hookResult,
+        data: { ...hookResult.data, localSearchText: 'firewall pri', querySuggestions: [suggestion] },
+        uiState: { ...hookResult.uiState, isSuggestionsOpen: true },
+      });
+
+      render(<TodoFilters onFiltersChange={mockOnFiltersChange} />);
+      fireEvent.click(screen.getByText('priority:'));
+
+      expect(mockApplyQuerySuggestion).toHaveBeenCalledWith(suggestion);
+    });
   });
 
   describe('Status Filter', () => {
@@ -371,11 +431,14 @@ describe('TodoFilters', () => {
           localTags: 'existing1, existing2',
           localShowOverdueOnly: false,
           activeFiltersCount: 2,
+          queryError: null,
+          querySuggestions: [],
         },
         uiState: {
           isStatusPopoverOpen: false,
           isPriorityPopoverOpen: false,
           isSeverityPopoverOpen: false,
+          isSuggestionsOpen: false,
         },
         actions: {
           setIsStatusPopoverOpen: mockSetIsStatusPopoverOpen,
@@ -383,6 +446,8 @@ describe('TodoFilters', () => {
           setIsSeverityPopoverOpen: mockSetIsSeverityPopoverOpen,
           setLocalTags: mockSetLocalTags,
           handleSearchChange: mockHandleSearchChange,
+          applyQuerySuggestion: mockApplyQuerySuggestion,
+          closeSuggestions: mockCloseSuggestions,
           handleStatusChange: mockHandleStatusChange,
           handlePriorityChange: mockHandlePriorityChange,
           handleSeverityChange: mockHandleSeverityChange,
@@ -457,11 +522,14 @@ describe('TodoFilters', () => {
           localTags: 'tag1',
           localShowOverdueOnly: true,
           activeFiltersCount: 6,
+          queryError: null,
+          querySuggestions: [],
         },
         uiState: {
           isStatusPopoverOpen: false,
           isPriorityPopoverOpen: false,
           isSeverityPopoverOpen: false,
+          isSuggestionsOpen: false,
         },
         actions: {
           setIsStatusPopoverOpen: mockSetIsStatusPopoverOpen,
@@ -469,6 +537,8 @@ describe('TodoFilters', () => {
           setIsSeverityPopoverOpen: mockSetIsSeverityPopoverOpen,
           setLocalTags: mockSetLocalTags,
           handleSearchChange: mockHandleSearchChange,
+          applyQuerySuggestion: mockApplyQuerySuggestion,
+          closeSuggestions: mockCloseSuggestions,
           handleStatusChange: mockHandleStatusChange,
           handlePriorityChange: mockHandlePriorityChange,
           handleSeverityChange: mockHandleSeverityChange,
@@ -522,11 +592,14 @@ describe('TodoFilters', () => {
           localTags: 'tag1',
           localShowOverdueOnly: false,
           activeFiltersCount: 4,
+          queryError: null,
+          querySuggestions: [],
         },
         uiState: {
           isStatusPopoverOpen: false,
           isPriorityPopoverOpen: false,
           isSeverityPopoverOpen: false,
+          isSuggestionsOpen: false,
         },
         actions: {
           setIsStatusPopoverOpen: mockSetIsStatusPopoverOpen,
@@ -534,6 +607,8 @@ describe('TodoFilters', () => {
           setIsSeverityPopoverOpen: mockSetIsSeverityPopoverOpen,
           setLocalTags: mockSetLocalTags,
           handleSearchChange: mockHandleSearchChange,
+          applyQuerySuggestion: mockApplyQuerySuggestion,
+          closeSuggestions: mockCloseSuggestions,
           handleStatusChange: mockHandleStatusChange,
           handlePriorityChange: mockHandlePriorityChange,
           handleSeverityChange: mockHandleSeverityChange,
@@ -593,11 +668,14 @@ describe('TodoFilters', () => {
           localTags: 'urgent',
           localShowOverdueOnly: false,
           activeFiltersCount: 2,
+          queryError: null,
+          querySuggestions: [],
         },
         uiState: {
           isStatusPopoverOpen: false,
           isPriorityPopoverOpen: false,
           isSeverityPopoverOpen: false,
+          isSuggestionsOpen: false,
         },
         actions: {
           setIsStatusPopoverOpen: mockSetIsStatusPopoverOpen,
@@ -605,6 +683,8 @@ describe('TodoFilters', () => {
           setIsSeverityPopoverOpen: mockSetIsSeverityPopoverOpen,
           setLocalTags: mockSetLocalTags,
           handleSearchChange: mockHandleSearchChange,
+          applyQuerySuggestion: mockApplyQuerySuggestion,
+          closeSuggestions: mockCloseSuggestions,
           handleStatusChange: mockHandleStatusChange,
           handlePriorityChange: mockHandlePriorityChange,
           handleSeverityChange: mockHandleSeverityChange,
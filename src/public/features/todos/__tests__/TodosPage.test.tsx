@@ -63,6 +63,16 @@ jest.mock('../ui/TodoForm', () => ({
   ),
 }));
 
+jest.mock('../ui/components/TodoSavedViewPicker', () => ({
+  TodoSavedViewPicker: ({ onApply }: any) => (
+    <div data-testid="todo-saved-view-picker">
+      <button onClick={() => onApply({ id: 'view-1', name: 'Morning', tab: 'kanban' })}>
+        Apply View
+      </button>
+    </div>
+  ),
+}));
+
 jest.mock('../../../components/language-selector', () => ({
   LanguageSelector: () => <div data-testid="language-selector">Language Selector</div>,
 }));
@@ -185,6 +195,7 @@ describe('TodosPage', () => {
   const mockDeleteTodo = jest.fn();
   const mockRefreshAnalytics = jest.fn();
   const mockHandleFrameworkFilterChange = jest.fn();
+  const mockHandleApplySavedView = jest.fn();
 
   beforeEach(() => {
     jest.clearAllMocks();
@@ -230,6 +241,7 @@ describe('TodosPage', () => {
         deleteTodo: mockDeleteTodo,
         refreshAnalytics: mockRefreshAnalytics,
         handleFrameworkFilterChange: mockHandleFrameworkFilterChange,
+        handleApplySavedView: mockHandleApplySavedView,
       },
     });
   });
@@ -257,6 +269,14 @@ describe('TodosPage', () => {
       renderWithIntl(<TodosPage http={mockHttp} notifications={mockNotifications} />);
       expect(screen.getByTestId('language-selector')).toBeInTheDocument();
     });
+
+    it('should apply a saved view from the picker', () => {
+      renderWithIntl(<TodosPage http={mockHttp} notifications={mockNotifications} />);
+      fireEvent.click(screen.getByText('Apply View'));
+      expect(mockHandleApplySavedView).toHaveBeenCalledWith(
+        expect.objectContaining({ id: 'view-1', tab: 'kanban' })
+      );
+    });
   });
 
   describe('Tab Structure - 2 Tabs', () => {
@@ -20,8 +20,10 @@ describe('TodosTable', () => {
     jest.setSystemTime(MOCK_NOW);
     jest.clearAllMocks();
 
-    (useTodosTable as jest.Mock).mockReturnValue({
+    (useTodosTable as jest.Mock).mockImplementation(({ todos }: { todos: Todo[] }) => ({
       data: {
+        tableItems: todos,
+        depthById: {},
         todoToDelete: null,
         paginationConfig: {
           pageIndex: 0,
@@ -42,7 +44,7 @@ describe('TodosTable', () => {
         handleDeleteCancel: mockHandleDeleteCancel,
         handleTableChange: mockHandleTableChange,
       },
-    });
+    }));
   });
   afterEach(() => {
     jest.useRealTimers();
@@ -248,6 +250,8 @@ describe('TodosTable', () => {
     it('should show delete confirmation modal when todoToDelete is set', () => {
       (useTodosTable as jest.Mock).mockReturnValueOnce({
         data: {
+          tableItems: mockTodos,
+          depthById: {},
           todoToDelete: mockTodos[0],
           paginationConfig: {
             pageIndex: 0,
@@ -281,6 +285,8 @@ describe('TodosTable', () => {
     it('should call handleDeleteConfirm when delete is confirmed', () => {
       (useTodosTable as jest.Mock).mockReturnValueOnce({
         data: {
+          tableItems: mockTodos,
+          depthById: {},
           todoToDelete: mockTodos[0],
           paginationConfig: {
             pageIndex: 0,
@@ -312,6 +318,8 @@ describe('TodosTable', () => {
     it('should call handleDeleteCancel when cancel is clicked', () => {
       (useTodosTable as jest.Mock).mockReturnValueOnce({
         data: {
+          tableItems: mockTodos,
+          depthById: {},
           todoToDelete: mockTodos[0],
           paginationConfig: {
             pageIndex: 0,
@@ -343,6 +351,8 @@ describe('TodosTable', () => {
     it('should not call onDelete when cancel is clicked', () => {
       (useTodosTable as jest.Mock).mockReturnValueOnce({
         data: {
+          tableItems: mockTodos,
+          depthById: {},
           todoToDelete: mockTodos[0],
           paginationConfig: {
             pageIndex: 0,
@@ -85,6 +85,24 @@ describe('QueryParamsBuilder', () => {
     });
   });
 
+  describe('addRepeated', () => {
+    it('should keep values as an array so each one is sent as its own parameter', () => {
+      const result = new QueryParamsBuilder()
+        .addRepeated('custom', ['ticket:SEC-1,SEC-2', 'cost>=1000'])
+        .build();
+
+      expect(result).toEqual({ custom: ['ticket:SEC-1,SEC-2', 'cost>=1000'] });
+    });
+
+    it('should not add empty array', () => {
+      const result = new QueryParamsBuilder()
+        .addRepeated('custom', [])
+        .build();
+
+      expect(result).toEqual({});
+    });
+  });
+
   describe('addArrayOrString', () => {
     it('should add array as comma-separated string', () => {
       const result = new QueryParamsBuilder()
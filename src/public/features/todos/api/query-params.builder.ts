@@ -1,4 +1,4 @@
-type QueryParamValue = string | number | boolean;
+type QueryParamValue = string | number | boolean | string[];
 type QueryParams = Record<string, QueryParamValue>;
 
 
@@ -20,6 +20,14 @@ export class QueryParamsBuilder {
   }
 
 
+  addRepeated(key: string, value: string[] | undefined): this {
+    if (value && Array.isArray(value) && value.length > 0) {
+      this.params[key] = [...value];
+    }
+    return this;
+  }
+
+
   addArrayOrString(key: string, value: string | string[] | undefined): this {
     if (value !== undefined && value !== null) {
       this.params[key] = Array.isArray(value) ? value.join(',') : value;
@@ -5,14 +5,48 @@ import {
   UpdateTodoRequest,
   UpdateTodoResponse,
   DeleteTodoResponse,
+  BulkTodosRequest,
+  BulkTodosResponse,
+  UpdateTodosByQueryRequest,
+  UpdateTodosByQueryResponse,
+  RebalanceTodoRanksResponse,
+  ImportTodosRequest,
+  ImportTodosResponse,
   GetTodoResponse,
   ListTodosQueryParams,
   ListTodosResponse,
+  ExportTodosQueryParams,
   TodoStatsQueryParams,
   TodoStatsResponse,
   TodoAnalyticsQueryParams,
+  TodoCalendarQueryParams,
+  TodoOscalExportQueryParams,
+  TodoReportQueryParams,
   TodoAnalyticsResponse,
   TodoSuggestionsResponse,
+  TodoHistoryQueryParams,
+  GetTodoHistoryResponse,
+  GetTodoChildrenResponse,
+  TodoCommentsQueryParams,
+  ListTodoCommentsResponse,
+  CreateTodoCommentRequest,
+  UpdateTodoCommentRequest,
+  TodoCommentResponse,
+  DeleteTodoCommentResponse,
+  ListTodoCustomFieldsResponse,
+  CreateTodoCustomFieldRequest,
+  UpdateTodoCustomFieldRequest,
+  TodoCustomFieldResponse,
+  DeleteTodoCustomFieldResponse,
+  ListTodoSavedViewsResponse,
+  CreateTodoSavedViewRequest,
+  UpdateTodoSavedViewRequest,
+  TodoSavedViewResponse,
+  DeleteTodoSavedViewResponse,
+  GetTodoWipLimitsResponse,
+  GetTodoStatusTransitionsResponse,
+  GetTodoBoardQueryParams,
+  GetTodoBoardResponse,
 } from "../../../../common/todo/todo.dtos";
 import { buildQueryParams } from "./query-params.builder";
 
@@ -68,6 +102,7 @@ export class TodosClient {
         .addIfDefined("pageSize", params?.pageSize)
         .addIfDefined("searchText", params?.searchText)
         .addIfDefined("assignee", params?.assignee)
+        .addIfDefined("parentId", params?.parentId)
         .addIfDefined("sortField", params?.sortField)
         .addIfDefined("sortDirection", params?.sortDirection)
         .addArrayOrString("status", params?.status)
@@ -83,12 +118,158 @@ export class TodosClient {
         .addIfDefined("updatedBefore", params?.updatedBefore)
         .addIfDefined("completedAfter", params?.completedAfter)
         .addIfDefined("completedBefore", params?.completedBefore)
-        .addBoolean("isOverdue", params?.isOverdue);
+        .addBoolean("isOverdue", params?.isOverdue)
+        .addBoolean("isBlocked", params?.isBlocked)
+        .addRepeated("custom", params?.custom);
     });
 
     return this.http.get<ListTodosResponse>(this.basePath, { query });
   }
 
+  /**
+   * Fetches the status columns of the Kanban board: the first TODOs of each status
+   * matching the filters, and their totals.
+   *
+   * @param params - List filters, plus the number of TODOs per column and to skip
+   * @returns Promise resolving to the columns
+   *
+   * @example
+   * ```typescript
+   * // The whole board
+   * const { columns } = await client.getBoard({ tags: ['pci'] });
+   *
+   * // The next TODOs of one column
+   * const more = await client.getBoard({ tags: ['pci'], status: 'planned', offset: 20 });
+   * ```
+   */
+  async getBoard(params?: GetTodoBoardQueryParams): Promise<GetTodoBoardResponse> {
+    const query = buildQueryParams((builder) => {
+      builder
+        .addIfDefined("columnSize", params?.columnSize)
+        .addIfDefined("offset", params?.offset)
+        .addIfDefined("searchText", params?.searchText)
+        .addIfDefined("assignee", params?.assignee)
+        .addIfDefined("parentId", params?.parentId)
+        .addArrayOrString("status", params?.status)
+        .addArray("tags", params?.tags)
+        .addArrayOrString("priority", params?.priority)
+        .addArrayOrString("severity", params?.severity)
+        .addArray("complianceFrameworks", params?.complianceFrameworks)
+        .addIfDefined("dueDateAfter", params?.dueDateAfter)
+        .addIfDefined("dueDateBefore", params?.dueDateBefore)
+        .addIfDefined("createdAfter", params?.createdAfter)
+        .addIfDefined("createdBefore", params?.createdBefore)
+        .addIfDefined("updatedAfter", params?.updatedAfter)
+        .addIfDefined("updatedBefore", params?.updatedBefore)
+        .addIfDefined("completedAfter", params?.completedAfter)
+        .addIfDefined("completedBefore", params?.completedBefore)
+        .addBoolean("isOverdue", params?.isOverdue)
+        .addBoolean("isBlocked", params?.isBlocked)
+        .addRepeated("custom", params?.custom);
+    });
+
+    return this.http.get<GetTodoBoardResponse>(`${this.basePath}/_board`, { query });
+  }
+
+  /**
+   * Builds the download URL of an export of every TODO matching the filters.
+   *
+   * @param params - List filters and sorting, plus the export format and columns
+   * @returns URL, including the base path, that serves the export as an attachment
+   *
+   * @remarks
+   * The export is streamed by the server, so it is downloaded by navigating to
+   * this URL rather than through the JSON HTTP client.
+   *
+   * @example
+   * ```typescript
+   * const url = client.getExportUrl({ status: 'planned', format: 'csv' });
+   * window.location.assign(url);
+   * ```
+   */
+  getExportUrl(params?: ExportTodosQueryParams): string {
+    const query = buildQueryParams((builder) => {
+      builder
+        .addIfDefined("format", params?.format)
+        .addIfDefined("searchText", params?.searchText)
+        .addIfDefined("assignee", params?.assignee)
+        .addIfDefined("parentId", params?.parentId)
+        .addIfDefined("sortField", params?.sortField)
+        .addIfDefined("sortDirection", params?.sortDirection)
+        .addArrayOrString("status", params?.status)
+        .addArray("tags", params?.tags)
+        .addArrayOrString("priority", params?.priority)
+        .addArrayOrString("severity", params?.severity)
+        .addArray("complianceFrameworks", params?.complianceFrameworks)
+        .addIfDefined("dueDateAfter", params?.dueDateAfter)
+        .addIfDefined("dueDateBefore", params?.dueDateBefore)
+        .addIfDefined("createdAfter", params?.createdAfter)
+        .addIfDefined("createdBefore", params?.createdBefore)
+        .addIfDefined("updatedAfter", params?.updatedAfter)
+        .addIfDefined("updatedBefore", params?.updatedBefore)
+        .addIfDefined("completedAfter", params?.completedAfter)
+        .addIfDefined("completedBefore", params?.completedBefore)
+        .addBoolean("isOverdue", params?.isOverdue)
+        .addBoolean("isBlocked", params?.isBlocked)
+        .addRepeated("custom", params?.custom)
+        .addRepeated("columns", params?.columns);
+    });
+
+    const search = new URLSearchParams();
+    Object.entries(query).forEach(([key, value]) => {
+      (Array.isArray(value) ? value : [value]).forEach((item) =>
+        search.append(key, String(item))
+      );
+    });
+    const queryString = search.toString();
+    const path = this.http.basePath.prepend(`${this.basePath}/_export`);
+    return queryString ? `${path}?${queryString}` : path;
+  }
+
+  /**
+   * Builds the URL of the iCalendar feed of the TODOs with a due date.
+   *
+   * @param params - List filters, e.g. the assignee for a personal feed
+   * @returns URL, including the base path, that serves the feed
+   *
+   * @remarks
+   * Calendar applications subscribe to this URL, so it is not requested through
+   * the JSON HTTP client. Prefix it with the origin to share it.
+   *
+   * @example
+   * ```typescript
+   * const url = client.getCalendarUrl({ assignee: 'alice', status: ['planned', 'in_progress'] });
+   * ```
+   */
+  getCalendarUrl(params?: TodoCalendarQueryParams): string {
+    const query = buildQueryParams((builder) => {
+      builder
+        .addIfDefined("searchText", params?.searchText)
+        .addIfDefined("assignee", params?.assignee)
+        .addIfDefined("parentId", params?.parentId)
+        .addArrayOrString("status", params?.status)
+        .addArray("tags", params?.tags)
+        .addArrayOrString("priority", params?.priority)
+        .addArrayOrString("severity", params?.severity)
+        .addArray("complianceFrameworks", params?.complianceFrameworks)
+        .addIfDefined("dueDateAfter", params?.dueDateAfter)
+        .addIfDefined("dueDateBefore", params?.dueDateBefore)
+        .addBoolean("isOverdue", params?.isOverdue)
+        .addBoolean("isBlocked", params?.isBlocked)
+        .addRepeated("custom", params?.custom);
+    });
+
+    const search = new URLSearchParams();
+    Object.entries(query).forEach(([key, value]) => {
+      (Array.isArray(value) ? value : [value]).forEach((item) =>
+        search.append(key, String(item))
+      );
+    });
+    const queryString = search.toString();
+    const path = this.http.basePath.prepend(`${this.basePath}/_calendar.ics`);
+    return queryString ? `${path}?${queryString}` : path;
+  }
+
   /**
    * Fetches a single TODO item by ID.
    *
@@ -136,6 +317,7 @@ export class TodosClient {
    * @param request - The update request with fields to modify
    * @returns Promise resolving to the updated TODO
    * @throws {Error} If the TODO is not found (404) or validation fails (400)
+   * @throws {Error} If `request.version` is stale because the TODO changed meanwhile (409)
    *
    * @example
    * ```typescript
@@ -173,6 +355,453 @@ export class TodosClient {
     return this.http.delete<DeleteTodoResponse>(`${this.basePath}/${id}`);
   }
 
+  /**
+   * Creates, updates and deletes several TODO items in one request.
+   *
+   * @param request - The bulk actions to apply
+   * @returns Promise resolving to per-action results and a summary
+   * @throws {Error} If the request itself is invalid (400); failures of
+   * individual actions are reported in the results instead
+   *
+   * @example
+   * ```typescript
+   * const response = await client.bulk({
+   *   actions: [
+   *     { action: 'update', id: 'abc123', changes: { status: 'done' } },
+   *     { action: 'delete', id: 'def456' }
+   *   ]
+   * });
+   * console.log(response.summary.failed);
+   * ```
+   */
+  async bulk(request: BulkTodosRequest): Promise<BulkTodosResponse> {
+    return this.http.post<BulkTodosResponse>(`${this.basePath}/_bulk`, {
+      body: JSON.stringify(request),
+    });
+  }
+
+  /**
+   * Sets the same fields on every TODO item matching a filter.
+   *
+   * @param request - Filters, fields to set and an optional dry-run flag
+   * @returns Promise resolving to the number of matched, skipped and updated TODOs
+   * @throws {Error} If the patch is invalid (400) or needs a status reason (422)
+   *
+   * @example
+   * ```typescript
+   * const preview = await client.updateByQuery({
+   *   filters: { complianceFrameworks: ["PCI-DSS"], tags: ["network"] },
+   *   patch: { assignee: "alice" },
+   *   dryRun: true
+   * });
+   * console.log(`${preview.matched} TODOs would be reassigned`);
+   * ```
+   */
+  async updateByQuery(request: UpdateTodosByQueryRequest): Promise<UpdateTodosByQueryResponse> {
+    return this.http.post<UpdateTodosByQueryResponse>(`${this.basePath}/_update_by_query`, {
+      body: JSON.stringify(request),
+    });
+  }
+
+  /**
+   * Gives the ranked TODO items new, evenly spaced ranks in the same order.
+   *
+   * @returns Promise resolving to the number of rebalanced and failed TODOs
+   *
+   * @example
+   * ```typescript
+   * const { rebalanced } = await client.rebalanceRanks();
+   * ```
+   */
+  async rebalanceRanks(): Promise<RebalanceTodoRanksResponse> {
+    return this.http.post<RebalanceTodoRanksResponse>(`${this.basePath}/_rebalance_ranks`);
+  }
+
+  /**
+   * Creates TODO items from a CSV or JSON file, or validates the rows in a dry run.
+   *
+   * @param request - File content and format, optional column mapping and dry-run flag
+   * @returns Promise resolving to counts, per-row errors and a preview of the valid rows
+   * @throws {Error} If the file cannot be read or the mapping is invalid (400)
+   *
+   * @example
+   * ```typescript
+   * const preview = await client.importTodos({
+   *   format: "csv",
+   *   content: await file.text(),
+   *   mapping: { Summary: "title", Owner: "assignee" },
+   *   dryRun: true
+   * });
+   * console.log(`${preview.valid} of ${preview.total} rows are valid`);
+   * ```
+   */
+  async importTodos(request: ImportTodosRequest): Promise<ImportTodosResponse> {
+    return this.http.post<ImportTodosResponse>(`${this.basePath}/_import`, {
+      body: JSON.stringify(request),
+    });
+  }
+
+  /**
+   * Fetches the direct subtasks of a TODO item.
+   *
+   * @param id - The parent TODO ID
+   * @param params - Optional pagination and sorting parameters
+   * @returns Promise resolving to the subtasks and their roll-up progress
+   *
+   * @example
+   * ```typescript
+   * const response = await client.getChildren('abc123');
+   * console.log(`${response.progress.percent}% of subtasks done`);
+   * ```
+   */
+  async getChildren(
+    id: string,
+    params?: Pick<ListTodosQueryParams, "page" | "pageSize" | "sortField" | "sortDirection">
+  ): Promise<GetTodoChildrenResponse> {
+    const query = buildQueryParams((builder) => {
+      builder
+        .addIfDefined("page", params?.page)
+        .addIfDefined("pageSize", params?.pageSize)
+        .addIfDefined("sortField", params?.sortField)
+        .addIfDefined("sortDirection", params?.sortDirection);
+    });
+
+    return this.http.get<GetTodoChildrenResponse>(
+      `${this.basePath}/${id}/_children`,
+      { query }
+    );
+  }
+
+  /**
+   * Fetches the change history of a TODO item, newest first.
+   *
+   * @param id - The TODO ID
+   * @param params - Optional pagination parameters
+   * @returns Promise resolving to the history entries
+   *
+   * @example
+   * ```typescript
+   * const response = await client.getHistory('abc123', { pageSize: 50 });
+   * response.entries.forEach((entry) => console.log(entry.actor, entry.action));
+   * ```
+   */
+  async getHistory(
+    id: string,
+    params?: TodoHistoryQueryParams
+  ): Promise<GetTodoHistoryResponse> {
+    const query = buildQueryParams((builder) => {
+      builder
+        .addIfDefined("page", params?.page)
+        .addIfDefined("pageSize", params?.pageSize);
+    });
+
+    return this.http.get<GetTodoHistoryResponse>(
+      `${this.basePath}/${id}/_history`,
+      { query }
+    );
+  }
+
+  /**
+   * Fetches the comments of a TODO item, oldest first.
+   *
+   * @param id - The TODO ID
+   * @param params - Optional pagination parameters
+   * @returns Promise resolving to the comments
+   *
+   * @example
+   * ```typescript
+   * const response = await client.listComments('abc123', { pageSize: 100 });
+   * response.comments.forEach((comment) => console.log(comment.author, comment.body));
+   * ```
+   */
+  async listComments(
+    id: string,
+    params?: TodoCommentsQueryParams
+  ): Promise<ListTodoCommentsResponse> {
+    const query = buildQueryParams((builder) => {
+      builder
+        .addIfDefined("page", params?.page)
+        .addIfDefined("pageSize", params?.pageSize);
+    });
+
+    return this.http.get<ListTodoCommentsResponse>(
+      `${this.basePath}/${id}/comments`,
+      { query }
+    );
+  }
+
+  /**
+   * Adds a comment to a TODO item as the current user.
+   *
+   * @param id - The TODO ID
+   * @param request - The comment text (Markdown)
+   * @returns Promise resolving to the stored comment
+   *
+   * @example
+   * ```typescript
+   * const response = await client.addComment('abc123', { body: 'Waiting on the vendor' });
+   * console.log(response.comment.author);
+   * ```
+   */
+  async addComment(
+    id: string,
+    request: CreateTodoCommentRequest
+  ): Promise<TodoCommentResponse> {
+    return this.http.post<TodoCommentResponse>(`${this.basePath}/${id}/comments`, {
+      body: JSON.stringify(request),
+    });
+  }
+
+  /**
+   * Edits a comment written by the current user.
+   *
+   * @param id - The TODO ID
+   * @param commentId - The comment ID
+   * @param request - The new comment text (Markdown)
+   * @returns Promise resolving to the edited comment
+   * @throws {Error} If the comment was written by another user (422)
+   *
+   * @example
+   * ```typescript
+   * await client.updateComment('abc123', 'c1', { body: 'Vendor replied' });
+   * ```
+   */
+  async updateComment(
+    id: string,
+    commentId: string,
+    request: UpdateTodoCommentRequest
+  ): Promise<TodoCommentResponse> {
+    return this.http.patch<TodoCommentResponse>(
+      `${this.basePath}/${id}/comments/${commentId}`,
+      { body: JSON.stringify(request) }
+    );
+  }
+
+  /**
+   * Deletes a comment written by the current user.
+   *
+   * @param id - The TODO ID
+   * @param commentId - The comment ID
+   * @returns Promise resolving to deletion confirmation
+   * @throws {Error} If the comment was written by another user (422)
+   *
+   * @example
+   * ```typescript
+   * await client.deleteComment('abc123', 'c1');
+   * ```
+   */
+  async deleteComment(
+    id: string,
+    commentId: string
+  ): Promise<DeleteTodoCommentResponse> {
+    return this.http.delete<DeleteTodoCommentResponse>(
+      `${this.basePath}/${id}/comments/${commentId}`
+    );
+  }
+
+  /**
+   * Gets the deployment's work-in-progress limits of the Kanban columns.
+   *
+   * @returns Promise resolving to the limits
+   *
+   * @example
+   * ```typescript
+   * const { limits } = await client.getWipLimits();
+   * console.log(limits.global.in_progress);
+   * ```
+   */
+  async getWipLimits(): Promise<GetTodoWipLimitsResponse> {
+    return this.http.get<GetTodoWipLimitsResponse>(`${this.basePath}/_wip_limits`);
+  }
+
+  /**
+   * Gets the deployment's status workflow, so the UI can ask for a reason
+   * before a status change that requires one.
+   *
+   * @returns Promise resolving to the workflow
+   *
+   * @example
+   * ```typescript
+   * const { rules } = await client.getStatusTransitions();
+   * console.log(rules.requireReason);
+   * ```
+   */
+  async getStatusTransitions(): Promise<GetTodoStatusTransitionsResponse> {
+    return this.http.get<GetTodoStatusTransitionsResponse>(
+      `${this.basePath}/_status_transitions`
+    );
+  }
+
+  /**
+   * Lists the deployment's custom field definitions.
+   *
+   * @returns Promise resolving to the field definitions
+   *
+   * @example
+   * ```typescript
+   * const response = await client.listCustomFields();
+   * console.log(response.fields.map((field) => field.label));
+   * ```
+   */
+  async listCustomFields(): Promise<ListTodoCustomFieldsResponse> {
+    return this.http.get<ListTodoCustomFieldsResponse>(
+      `${this.basePath}/_custom_fields`
+    );
+  }
+
+  /**
+   * Defines a new custom field (requires an admin role).
+   *
+   * @param request - The field definition
+   * @returns Promise resolving to the stored definition
+   * @throws {Error} If the user is not an administrator (403) or the key is taken (409)
+   *
+   * @example
+   * ```typescript
+   * const response = await client.createCustomField({
+   *   key: 'ticket',
+   *   label: 'Ticket',
+   *   type: 'text'
+   * });
+   * ```
+   */
+  async createCustomField(
+    request: CreateTodoCustomFieldRequest
+  ): Promise<TodoCustomFieldResponse> {
+    return this.http.post<TodoCustomFieldResponse>(
+      `${this.basePath}/_custom_fields`,
+      {
+        body: JSON.stringify(request),
+      }
+    );
+  }
+
+  /**
+   * Changes a custom field definition (requires an admin role).
+   *
+   * @param key - Key of the field
+   * @param request - Fields to change
+   * @returns Promise resolving to the updated definition
+   *
+   * @example
+   * ```typescript
+   * await client.updateCustomField('ticket', { required: true });
+   * ```
+   */
+  async updateCustomField(
+    key: string,
+    request: UpdateTodoCustomFieldRequest
+  ): Promise<TodoCustomFieldResponse> {
+    return this.http.patch<TodoCustomFieldResponse>(
+      `${this.basePath}/_custom_fields/${key}`,
+      {
+        body: JSON.stringify(request),
+      }
+    );
+  }
+
+  /**
+   * Deletes a custom field definition (requires an admin role).
+   *
+   * @param key - Key of the field
+   * @returns Promise resolving to deletion confirmation
+   *
+   * @example
+   * ```typescript
+   * await client.deleteCustomField('ticket');
+   * ```
+   */
+  async deleteCustomField(key: string): Promise<DeleteTodoCustomFieldResponse> {
+    return this.http.delete<DeleteTodoCustomFieldResponse>(
+      `${this.basePath}/_custom_fields/${key}`
+    );
+  }
+
+  /**
+   * Lists the current user's saved views and the views shared by other users.
+   *
+   * @returns Promise resolving to the views and the current username
+   *
+   * @example
+   * ```typescript
+   * const response = await client.listSavedViews();
+   * const mine = response.views.filter((view) => view.owner === response.username);
+   * ```
+   */
+  async listSavedViews(): Promise<ListTodoSavedViewsResponse> {
+    return this.http.get<ListTodoSavedViewsResponse>(
+      `${this.basePath}/_saved_views`
+    );
+  }
+
+  /**
+   * Saves a view for the current user.
+   *
+   * @param request - Name, filters, sort order and tab of the view
+   * @returns Promise resolving to the stored view
+   * @throws {Error} If the user already has a view with this name (409)
+   *
+   * @example
+   * ```typescript
+   * const response = await client.createSavedView({
+   *   name: 'My critical overdue',
+   *   filters: { severity: ['critical'], isOverdue: true },
+   *   tab: 'table'
+   * });
+   * ```
+   */
+  async createSavedView(
+    request: CreateTodoSavedViewRequest
+  ): Promise<TodoSavedViewResponse> {
+    return this.http.post<TodoSavedViewResponse>(
+      `${this.basePath}/_saved_views`,
+      {
+        body: JSON.stringify(request),
+      }
+    );
+  }
+
+  /**
+   * Changes a saved view (owner only).
+   *
+   * @param id - ID of the view
+   * @param request - Fields to change
+   * @returns Promise resolving to the updated view
+   *
+   * @example
+   * ```typescript
+   * await client.updateSavedView('view-1', { shared: true });
+   * ```
+   */
+  async updateSavedView(
+    id: string,
+    request: UpdateTodoSavedViewRequest
+  ): Promise<TodoSavedViewResponse> {
+    return this.http.patch<TodoSavedViewResponse>(
+      `${this.basePath}/_saved_views/${id}`,
+      {
+        body: JSON.stringify(request),
+      }
+    );
+  }
+
+  /**
+   * Deletes a saved view (owner only).
+   *
+   * @param id - ID of the view
+   * @returns Promise resolving to deletion confirmation
+   *
+   * @example
+   * ```typescript
+   * await client.deleteSavedView('view-1');
+   * ```
+   */
+  async deleteSavedView(id: string): Promise<DeleteTodoSavedViewResponse> {
+    return this.http.delete<DeleteTodoSavedViewResponse>(
+      `${this.basePath}/_saved_views/${id}`
+    );
+  }
+
   /**
    * Fetches TODO statistics.
    *
@@ -231,6 +860,53 @@ export class TodosClient {
     });
   }
 
+  /**
+   * Builds the download URL of the OSCAL POA&M document of a compliance framework.
+   *
+   * @param params - Compliance framework whose open TODOs become POA&M items
+   * @returns URL, including the base path, that serves the document as an attachment
+   *
+   * @example
+   * ```typescript
+   * const url = client.getOscalExportUrl({ complianceFramework: 'PCI-DSS' });
+   * window.location.assign(url);
+   * ```
+   */
+  getOscalExportUrl(params: TodoOscalExportQueryParams): string {
+    const search = new URLSearchParams({ complianceFramework: params.complianceFramework });
+    const path = this.http.basePath.prepend(`${this.basePath}/_analytics/oscal`);
+    return `${path}?${search.toString()}`;
+  }
+
+  /**
+   * Builds the download URL of a compliance report.
+   *
+   * @param params - Report format, compliance framework, creation date range and trend interval
+   * @returns URL, including the base path, that serves the report as an attachment
+   *
+   * @example
+   * ```typescript
+   * const url = client.getReportUrl({ format: 'markdown', complianceFramework: 'HIPAA' });
+   * window.location.assign(url);
+   * ```
+   */
+  getReportUrl(params?: TodoReportQueryParams): string {
+    const query = buildQueryParams((builder) => {
+      builder
+        .addIfDefined("format", params?.format)
+        .addIfDefined("complianceFramework", params?.complianceFramework)
+        .addIfDefined("createdAfter", params?.createdAfter)
+        .addIfDefined("createdBefore", params?.createdBefore)
+        .addIfDefined("timeInterval", params?.timeInterval);
+    });
+
+    const search = new URLSearchParams();
+    Object.entries(query).forEach(([key, value]) => search.append(key, String(value)));
+    const queryString = search.toString();
+    const path = this.http.basePath.prepend(`${this.basePath}/_analytics/report`);
+    return queryString ? `${path}?${queryString}` : path;
+  }
+
   /**
    * Fetches autocomplete suggestions for tags and compliance frameworks.
    *
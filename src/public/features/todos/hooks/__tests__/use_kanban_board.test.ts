@@ -1,7 +1,15 @@
 
 import { renderHook, act } from '@testing-library/react-hooks';
-import { useKanbanBoard, DropResult } from '../use_kanban_board';
-import { Todo } from '../../../../../common/todo/todo.types';
+import {
+  useKanbanBoard,
+  DropResult,
+  KanbanColumnData,
+  KanbanSwimlane,
+} from '../use_kanban_board';
+import {
+  Todo,
+  DEFAULT_TODO_STATUS_TRANSITIONS,
+} from '../../../../../common/todo/todo.types';
 
 describe('useKanbanBoard', () => {
   const mockTodos: Todo[] = [
@@ -299,7 +307,7 @@ describe('useKanbanBoard', () => {
         await result.current.actions.handleDragEnd(dropResult);
       });
 
-      expect(mockUpdateTodo).toHaveBeenCalledWith('1', { status: 'in_progress' });
+      expect(mockUpdateTodo).toHaveBeenCalledWith('1', { status: 'in_progress', rank: 'i' });
       expect(mockUpdateTodo).toHaveBeenCalledTimes(1);
     });
 
@@ -329,11 +337,11 @@ describe('useKanbanBoard', () => {
         await result.current.actions.handleDragEnd(dropResult);
       });
 
-      expect(mockUpdateTodo).toHaveBeenCalledWith('1', { status: 'done' });
+      expect(mockUpdateTodo).toHaveBeenCalledWith('1', { status: 'done', rank: 'i' });
       expect(mockUpdateTodo).toHaveBeenCalledTimes(1);
     });
 
-    it('should call updateTodo when dragging from planned to error', async () => {
+    it('should ask for a reason before dragging from planned to error', async () => {
       mockUpdateTodo.mockResolvedValue({ id: '1', status: 'error' });
 
       const { result } = renderHook(() =>
@@ -359,8 +367,66 @@ describe('useKanbanBoard', () => {
         await result.current.actions.handleDragEnd(dropResult);
       });
 
-      expect(mockUpdateTodo).toHaveBeenCalledWith('1', { status: 'error' });
+      expect(mockUpdateTodo).not.toHaveBeenCalled();
+      expect(result.current.data.reasonPrompt).toEqual({
+        todoTitle: 'Planned Task 1',
+        statusTitle: 'Error',
+        reason: '',
+      });
+
+      // A blank reason is not enough
+      await act(async () => {
+        result.current.actions.setReason('   ');
+      });
+      await act(async () => {
+        await result.current.actions.confirmReason();
+      });
+      expect(mockUpdateTodo).not.toHaveBeenCalled();
+
+      await act(async () => {
+        result.current.actions.setReason(' Scanner outage ');
+      });
+      await act(async () => {
+        await result.current.actions.confirmReason();
+      });
+
+      expect(mockUpdateTodo).toHaveBeenCalledWith('1', {
+        status: 'error',
+        rank: 'i',
+        statusReason: 'Scanner outage',
+      });
       expect(mockUpdateTodo).toHaveBeenCalledTimes(1);
+      expect(result.current.data.reasonPrompt).toBeNull();
+    });
+
+    it('should leave the card in place when the reason is cancelled', async () => {
+      const { result } = renderHook(() =>
+        useKanbanBoard({
+          todos: mockTodos,
+          loading: false,
+          error: null,
+          updateTodo: mockUpdateTodo,
+          onEdit: mockOnEdit,
+          onDelete: mockOnDelete,
+        })
+      );
+
+      await act(async () => {
+        await result.current.actions.handleDragEnd({
+          draggableId: '1',
+          type: 'DEFAULT',
+          source: { droppableId: 'planned', index: 0 },
+          destination: { droppableId: 'error', index: 0 },
+          reason: 'DROP',
+        });
+      });
+      act(() => {
+        result.current.actions.cancelReason();
+      });
+
+      expect(result.current.data.reasonPrompt).toBeNull();
+      expect(mockUpdateTodo).not.toHaveBeenCalled();
+      expect(result.current.data.columns[3].todos.map((todo) => todo.id)).toEqual(['4']);
     });
 
     it('should call updateTodo when dragging from in_progress to done', async () => {
@@ -397,11 +463,11 @@ describe('useKanbanBoard', () => {
         await result.current.actions.handleDragEnd(dropResult);
       });
 
-      expect(mockUpdateTodo).toHaveBeenCalledWith('2', { status: 'done' });
+      expect(mockUpdateTodo).toHaveBeenCalledWith('2', { status: 'done', rank: 'i' });
       expect(mockUpdateTodo).toHaveBeenCalledTimes(1);
     });
 
-    it('should call updateTodo when dragging from in_progress to error', async () => {
+    it('should not ask for a reason when the workflow does not require one', async () => {
       mockUpdateTodo.mockResolvedValue({ id: '2', status: 'error' });
 
       const todosWithInProgress: Todo[] = [
@@ -420,6 +486,7 @@ describe('useKanbanBoard', () => {
           updateTodo: mockUpdateTodo,
           onEdit: mockOnEdit,
           onDelete: mockOnDelete,
+          statusTransitions: { ...DEFAULT_TODO_STATUS_TRANSITIONS, requireReason: [] },
         })
       );
 
@@ -435,7 +502,7 @@ describe('useKanbanBoard', () => {
         await result.current.actions.handleDragEnd(dropResult);
       });
 
-      expect(mockUpdateTodo).toHaveBeenCalledWith('2', { status: 'error' });
+      expect(mockUpdateTodo).toHaveBeenCalledWith('2', { status: 'error', rank: 'i' });
       expect(mockUpdateTodo).toHaveBeenCalledTimes(1);
     });
 
@@ -465,7 +532,7 @@ describe('useKanbanBoard', () => {
         await result.current.actions.handleDragEnd(dropResult);
       });
 
-      expect(mockUpdateTodo).toHaveBeenCalledWith('4', { status: 'planned' });
+      expect(mockUpdateTodo).toHaveBeenCalledWith('4', { status: 'planned', rank: 'i' });
       expect(mockUpdateTodo).toHaveBeenCalledTimes(1);
     });
 
@@ -495,11 +562,11 @@ describe('useKanbanBoard', () => {
         await result.current.actions.handleDragEnd(dropResult);
       });
 
-      expect(mockUpdateTodo).toHaveBeenCalledWith('3', { status: 'in_progress' });
+      expect(mockUpdateTodo).toHaveBeenCalledWith('3', { status: 'in_progress', rank: 'i' });
       expect(mockUpdateTodo).toHaveBeenCalledTimes(1);
     });
 
-    it('should not call updateTodo if dropped in same column', async () => {
+    it('should not call updateTodo if dropped below an unranked card that cannot be ranked', async () => {
       const { result } = renderHook(() =>
         useKanbanBoard({
           todos: mockTodos,
@@ -588,6 +655,79 @@ describe('useKanbanBoard', () => {
       consoleErrorSpy.mockRestore();
     });
 
+    it('should move the card to the destination column while the update is pending', async () => {
+      let resolveUpdate: (todo: Todo | null) => void = () => undefined;
+      mockUpdateTodo.mockReturnValue(
+        new Promise<Todo | null>((resolve) => {
+          resolveUpdate = resolve;
+        })
+      );
+
+      const { result } = renderHook(() =>
+        useKanbanBoard({
+          todos: mockTodos,
+          loading: false,
+          error: null,
+          updateTodo: mockUpdateTodo,
+          onEdit: mockOnEdit,
+          onDelete: mockOnDelete,
+        })
+      );
+
+      const dropResult: DropResult = {
+        draggableId: '1',
+        type: 'DEFAULT',
+        source: { droppableId: 'planned', index: 0 },
+        destination: { droppableId: 'in_progress', index: 0 },
+        reason: 'DROP',
+      };
+
+      let pending: Promise<void> = Promise.resolve();
+      act(() => {
+        pending = result.current.actions.handleDragEnd(dropResult);
+      });
+
+      const inProgressColumn = result.current.data.columns.find((c) => c.status === 'in_progress');
+      expect(inProgressColumn?.todos.map((t) => t.id)).toEqual(['1']);
+
+      await act(async () => {
+        resolveUpdate({ ...mockTodos[0], status: 'in_progress' });
+        await pending;
+      });
+    });
+
+    it('should snap the card back when the update is rejected', async () => {
+      mockUpdateTodo.mockResolvedValue(null);
+
+      const { result } = renderHook(() =>
+        useKanbanBoard({
+          todos: mockTodos,
+          loading: false,
+          error: null,
+          updateTodo: mockUpdateTodo,
+          onEdit: mockOnEdit,
+          onDelete: mockOnDelete,
+        })
+      );
+
+      const dropResult: DropResult = {
+        draggableId: '1',
+        type: 'DEFAULT',
+        source: { droppableId: 'planned', index: 0 },
+        destination: { droppableId: 'done', index: 0 },
+        reason: 'DROP',
+      };
+
+      await act(async () => {
+        await result.current.actions.handleDragEnd(dropResult);
+      });
+
+      const plannedColumn = result.current.data.columns.find((c) => c.status === 'planned');
+      const doneColumn = result.current.data.columns.find((c) => c.status === 'done');
+      expect(plannedColumn?.todos.map((t) => t.id)).toEqual(['1', '2']);
+      expect(doneColumn?.todos.map((t) => t.id)).toEqual(['3']);
+    });
+
     it('should reset isDragging state after drop', async () => {
       mockUpdateTodo.mockResolvedValue({ id: '1', status: 'done' });
 
@@ -618,6 +758,332 @@ describe('useKanbanBoard', () => {
     });
   });
 
+  describe('Manual Order', () => {
+    const rankedTodos: Todo[] = [
+      { ...mockTodos[0], id: 'a', rank: 'm' },
+      { ...mockTodos[0], id: 'b' },
+      { ...mockTodos[0], id: 'c', rank: 'c' },
+      { ...mockTodos[0], id: 'd', rank: 'r' },
+    ];
+
+    const mockRankTodos = jest.fn();
+
+    const renderRanked = (todos: Todo[] = rankedTodos, onRanksDense?: () => void) =>
+      renderHook(() =>
+        useKanbanBoard({
+          todos,
+          loading: false,
+          error: null,
+          updateTodo: mockUpdateTodo,
+          onEdit: mockOnEdit,
+          onDelete: mockOnDelete,
+          onRanksDense,
+          rankTodos: mockRankTodos,
+        })
+      );
+
+    const plannedIds = (result: { current: ReturnType<typeof useKanbanBoard> }) =>
+      result.current.data.columns[0].todos.map((todo) => todo.id);
+
+    const reorder = (todoId: string, from: number, to: number): DropResult => ({
+      draggableId: todoId,
+      type: 'DEFAULT',
+      source: { droppableId: 'planned', index: from },
+      destination: { droppableId: 'planned', index: to },
+      reason: 'DROP',
+    });
+
+    it('should sort cards by rank with unranked cards last', () => {
+      const { result } = renderRanked();
+
+      expect(plannedIds(result)).toEqual(['c', 'a', 'd', 'b']);
+    });
+
+    it('should rank a card between its new neighbors', async () => {
+      mockUpdateTodo.mockResolvedValue(rankedTodos[3]);
+      const { result } = renderRanked();
+
+      await act(async () => {
+        await result.current.actions.handleDragEnd(reorder('d', 2, 1));
+      });
+
+      const [, changes] = mockUpdateTodo.mock.calls[0];
+      expect(changes.rank > 'c' && changes.rank < 'm').toBe(true);
+      expect(plannedIds(result)).toEqual(['c', 'd', 'a', 'b']);
+    });
+
+    it('should rank a card dropped first before the first card', async () => {
+      mockUpdateTodo.mockResolvedValue(rankedTodos[1]);
+      const { result } = renderRanked();
+
+      await act(async () => {
+        await result.current.actions.handleDragEnd(reorder('b', 3, 0));
+      });
+
+      const [, changes] = mockUpdateTodo.mock.calls[0];
+      expect(changes.rank < 'c').toBe(true);
+      expect(plannedIds(result)).toEqual(['b', 'c', 'a', 'd']);
+    });
+
+    it('should rank the unranked cards above a card dropped below them', async () => {
+      mockRankTodos.mockResolvedValue(true);
+      mockUpdateTodo.mockResolvedValue(rankedTodos[0]);
+      const { result } = renderRanked();
+
+      await act(async () => {
+        await result.current.actions.handleDragEnd(reorder('a', 1, 3));
+      });
+
+      const [ranks] = mockRankTodos.mock.calls[0];
+      expect(Object.keys(ranks)).toEqual(['b']);
+      expect(ranks.b > 'r').toBe(true);
+      const [, changes] = mockUpdateTodo.mock.calls[0];
+      expect(changes.rank > ranks.b).toBe(true);
+      expect(plannedIds(result)).toEqual(['c', 'd', 'b', 'a']);
+    });
+
+    it('should rank a card dropped between two unranked cards', async () => {
+      const todos: Todo[] = [
+        { ...mockTodos[0], id: 'a', rank: 'c' },
+        { ...mockTodos[0], id: 'x' },
+        { ...mockTodos[0], id: 'y' },
+        { ...mockTodos[0], id: 'z' },
+      ];
+      mockRankTodos.mockResolvedValue(true);
+      mockUpdateTodo.mockResolvedValue(todos[0]);
+      const { result } = renderRanked(todos);
+
+      await act(async () => {
+        await result.current.actions.handleDragEnd(reorder('a', 0, 2));
+      });
+
+      const [ranks] = mockRankTodos.mock.calls[0];
+      expect(Object.keys(ranks)).toEqual(['x', 'y']);
+      expect(ranks.x < ranks.y).toBe(true);
+      const [id, changes] = mockUpdateTodo.mock.calls[0];
+      expect(id).toBe('a');
+      expect(changes.rank > ranks.y).toBe(true);
+      expect(plannedIds(result)).toEqual(['x', 'y', 'a', 'z']);
+    });
+
+    it('should snap back when the unranked cards cannot be ranked', async () => {
+      mockRankTodos.mockResolvedValue(false);
+      const { result } = renderRanked();
+
+      await act(async () => {
+        await result.current.actions.handleDragEnd(reorder('a', 1, 3));
+      });
+
+      expect(mockUpdateTodo).not.toHaveBeenCalled();
+      expect(plannedIds(result)).toEqual(['c', 'a', 'd', 'b']);
+    });
+
+    it('should ask for a rebalance when a rank gets too long', async () => {
+      const onRanksDense = jest.fn();
+      const denseTodos: Todo[] = [
+        { ...mockTodos[0], id: 'a', rank: 'hzzzzzzzzzzzzzzz' },
+        { ...mockTodos[0], id: 'b', rank: 'i' },
+        { ...mockTodos[0], id: 'c', rank: 'j' },
+      ];
+      mockUpdateTodo.mockResolvedValue(denseTodos[2]);
+      const { result } = renderRanked(denseTodos, onRanksDense);
+
+      await act(async () => {
+        await result.current.actions.handleDragEnd(reorder('c', 2, 1));
+      });
+
+      expect(onRanksDense).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not ask for a rebalance when the update is rejected', async () => {
+      const onRanksDense = jest.fn();
+      const denseTodos: Todo[] = [
+        { ...mockTodos[0], id: 'a', rank: 'hzzzzzzzzzzzzzzz' },
+        { ...mockTodos[0], id: 'b', rank: 'i' },
+        { ...mockTodos[0], id: 'c', rank: 'j' },
+      ];
+      mockUpdateTodo.mockResolvedValue(null);
+      const { result } = renderRanked(denseTodos, onRanksDense);
+
+      await act(async () => {
+        await result.current.actions.handleDragEnd(reorder('c', 2, 1));
+      });
+
+      expect(onRanksDense).not.toHaveBeenCalled();
+      expect(plannedIds(result)).toEqual(['a', 'b', 'c']);
+    });
+  });
+
+  describe('WIP Limits', () => {
+    const wipLimits = {
+      enforce: false,
+      global: { planned: 1, done: 1 },
+      perAssignee: { bob: { planned: 2 } },
+    };
+
+    const renderWithLimits = (todos: Todo[], swimlane: KanbanSwimlane = 'none') =>
+      renderHook(() =>
+        useKanbanBoard({
+          todos,
+          loading: false,
+          error: null,
+          updateTodo: mockUpdateTodo,
+          onEdit: mockOnEdit,
+          onDelete: mockOnDelete,
+          initialSwimlane: swimlane,
+          wipLimits,
+        })
+      );
+
+    it('should have no limits by default', () => {
+      const { result } = renderHook(() =>
+        useKanbanBoard({
+          todos: mockTodos,
+          loading: false,
+          error: null,
+          updateTodo: mockUpdateTodo,
+          onEdit: mockOnEdit,
+          onDelete: mockOnDelete,
+        })
+      );
+
+      result.current.data.columns.forEach((column) => {
+        expect(column).toMatchObject({ limit: null, isOverLimit: false });
+      });
+    });
+
+    it('should flag columns over their global limit', () => {
+      const { result } = renderWithLimits(mockTodos);
+
+      const [planned, inProgress, done] = result.current.data.columns;
+      expect(planned).toMatchObject({ count: 2, limit: 1, isOverLimit: true });
+      expect(inProgress).toMatchObject({ limit: null, isOverLimit: false });
+      expect(done).toMatchObject({ count: 1, limit: 1, isOverLimit: false });
+    });
+
+    it('should apply per-assignee limits to assignee lanes only', () => {
+      const todos = [
+        { ...mockTodos[0], assignee: 'bob' },
+        { ...mockTodos[1], assignee: 'bob' },
+        { ...mockTodos[2], assignee: 'alice' },
+        mockTodos[3],
+      ];
+      const { result } = renderWithLimits(todos, 'assignee');
+
+      const columnsOf = (value: string | null) =>
+        result.current.data.lanes.find((lane) => lane.value === value)!.columns;
+      expect(columnsOf('bob')[0]).toMatchObject({ count: 2, limit: 2, isOverLimit: false });
+      expect(columnsOf('alice').every((column) => column.limit === null)).toBe(true);
+      expect(columnsOf(null).every((column) => column.limit === null)).toBe(true);
+    });
+
+    it('should not apply limits to other swimlanes', () => {
+      const { result } = renderWithLimits(mockTodos, 'priority');
+
+      result.current.data.lanes.forEach((lane) => {
+        expect(lane.columns.every((column) => column.limit === null)).toBe(true);
+      });
+    });
+  });
+
+  describe('Load More', () => {
+    const mockOnLoadMore = jest.fn();
+
+    const renderPartial = (swimlane: KanbanSwimlane = 'none') =>
+      renderHook(() =>
+        useKanbanBoard({
+          todos: mockTodos,
+          loading: false,
+          error: null,
+          updateTodo: mockUpdateTodo,
+          onEdit: mockOnEdit,
+          onDelete: mockOnDelete,
+          initialSwimlane: swimlane,
+          totals: { planned: 30, done: 1, error: 1 },
+          loadingMore: ['planned'],
+          onLoadMore: mockOnLoadMore,
+        })
+      );
+
+    it('should count the todos not loaded yet in the column totals', () => {
+      const { result } = renderPartial();
+
+      const [planned, inProgress, done] = result.current.data.columns;
+      expect(planned).toMatchObject({
+        count: 2,
+        total: 30,
+        hasMore: true,
+        isLoadingMore: true,
+      });
+      expect(inProgress).toMatchObject({ count: 0, total: 0, hasMore: false });
+      expect(done).toMatchObject({ count: 1, total: 1, hasMore: false });
+      expect(result.current.data.unloadedCount).toBe(28);
+      expect(result.current.uiState.isLoadingMore).toBe(true);
+    });
+
+    it('should check work-in-progress limits against the totals', () => {
+      const { result } = renderHook(() =>
+        useKanbanBoard({
+          todos: mockTodos,
+          loading: false,
+          error: null,
+          updateTodo: mockUpdateTodo,
+          onEdit: mockOnEdit,
+          onDelete: mockOnDelete,
+          totals: { planned: 30 },
+          onLoadMore: mockOnLoadMore,
+          wipLimits: { enforce: false, global: { planned: 10 }, perAssignee: {} },
+        })
+      );
+
+      expect(result.current.data.columns[0]).toMatchObject({ total: 30, isOverLimit: true });
+    });
+
+    it('should load more of one column, or of every column with more', () => {
+      const { result } = renderPartial();
+
+      act(() => {
+        result.current.actions.handleLoadMore('planned');
+        result.current.actions.handleLoadMore('done');
+      });
+      expect(mockOnLoadMore).toHaveBeenCalledTimes(1);
+      expect(mockOnLoadMore).toHaveBeenCalledWith('planned');
+
+      mockOnLoadMore.mockClear();
+      act(() => {
+        result.current.actions.handleLoadMore();
+      });
+      expect(mockOnLoadMore.mock.calls).toEqual([['planned']]);
+    });
+
+    it('should only count loaded todos in lanes', () => {
+      const { result } = renderPartial('priority');
+
+      const high = result.current.data.lanes.find((lane) => lane.value === 'high')!;
+      expect(high.columns[0]).toMatchObject({ count: 1, total: 1, hasMore: false });
+      expect(result.current.data.unloadedCount).toBe(28);
+    });
+
+    it('should keep totals in step with optimistic moves', async () => {
+      mockUpdateTodo.mockReturnValue(new Promise(() => {}));
+      const { result } = renderPartial();
+
+      act(() => {
+        void result.current.actions.handleDragEnd({
+          draggableId: '1',
+          type: 'DEFAULT',
+          source: { droppableId: 'planned', index: 0 },
+          destination: { droppableId: 'in_progress', index: 0 },
+          reason: 'DROP',
+        });
+      });
+
+      const [planned, inProgress] = result.current.data.columns;
+      expect(planned).toMatchObject({ count: 1, total: 29 });
+      expect(inProgress).toMatchObject({ count: 1, total: 1 });
+    });
+  });
+
   describe('Action Handlers', () => {
     it('should call onEdit when handleEdit is called', () => {
       const { result } = renderHook(() =>
@@ -721,4 +1187,163 @@ describe('useKanbanBoard', () => {
       expect(result.current.uiState.hasError).toBe(false);
     });
   });
+
+  describe('Swimlanes', () => {
+    const laneTodos: Todo[] = [
+      { ...mockTodos[0], assignee: 'bob', complianceFrameworks: ['PCI-DSS', 'HIPAA'] },
+      { ...mockTodos[1], assignee: 'alice' },
+      { ...mockTodos[2], assignee: 'bob' },
+      mockTodos[3],
+    ];
+
+    const renderLanes = (swimlane: KanbanSwimlane) =>
+      renderHook(() =>
+        useKanbanBoard({
+          todos: laneTodos,
+          loading: false,
+          error: null,
+          updateTodo: mockUpdateTodo,
+          onEdit: mockOnEdit,
+          onDelete: mockOnDelete,
+          initialSwimlane: swimlane,
+        })
+      );
+
+    const laneColumn = (
+      result: { current: ReturnType<typeof useKanbanBoard> },
+      value: string | null,
+      status: string
+    ) =>
+      result.current.data.lanes
+        .find((lane) => lane.value === value)
+        ?.columns.find((column) => column.status === status);
+
+    const drop = (
+      from: KanbanColumnData | undefined,
+      to: KanbanColumnData | undefined,
+      todoId: string
+    ): DropResult => ({
+      draggableId: `${from?.draggableIdPrefix}${todoId}`,
+      type: 'DEFAULT',
+      source: { droppableId: from?.droppableId ?? '', index: 0 },
+      destination: { droppableId: to?.droppableId ?? '', index: 0 },
+      reason: 'DROP',
+    });
+
+    it('should have no lanes by default', () => {
+      const { result } = renderLanes('none');
+
+      expect(result.current.data.lanes).toEqual([]);
+      expect(result.current.data.columns).toHaveLength(4);
+    });
+
+    it('should split the board into a lane per assignee, unassigned last', () => {
+      const { result } = renderLanes('assignee');
+
+      expect(result.current.data.columns).toEqual([]);
+      expect(result.current.data.lanes.map((lane) => [lane.title, lane.count])).toEqual([
+        ['alice', 1],
+        ['bob', 2],
+        ['Unassigned', 1],
+      ]);
+      expect(laneColumn(result, 'bob', 'done')?.todos.map((todo) => todo.id)).toEqual(['3']);
+    });
+
+    it('should show every priority lane, highest first, even when empty', () => {
+      const { result } = renderLanes('priority');
+
+      expect(result.current.data.lanes.map((lane) => lane.value)).toEqual([
+        'critical',
+        'high',
+        'medium',
+        'low',
+      ]);
+    });
+
+    it('should show a TODO in the lane of each of its frameworks with unique draggable IDs', () => {
+      const { result } = renderLanes('complianceFramework');
+
+      const hipaa = laneColumn(result, 'HIPAA', 'planned');
+      const pci = laneColumn(result, 'PCI-DSS', 'planned');
+      expect(hipaa?.todos.map((todo) => todo.id)).toEqual(['1']);
+      expect(pci?.todos.map((todo) => todo.id)).toEqual(['1']);
+      expect(hipaa?.draggableIdPrefix).not.toBe(pci?.draggableIdPrefix);
+      expect(laneColumn(result, null, 'planned')?.todos.map((todo) => todo.id)).toEqual(['2']);
+    });
+
+    it('should update the swimlane field and the status when dropped in another lane', async () => {
+      mockUpdateTodo.mockResolvedValue(laneTodos[1]);
+      const { result } = renderLanes('assignee');
+
+      const from = laneColumn(result, 'alice', 'planned');
+      const to = laneColumn(result, 'bob', 'in_progress');
+
+      await act(async () => {
+        await result.current.actions.handleDragEnd(drop(from, to, '2'));
+      });
+
+      expect(mockUpdateTodo).toHaveBeenCalledWith('2', { status: 'in_progress', assignee: 'bob', rank: 'i' });
+      expect(laneColumn(result, 'bob', 'in_progress')?.todos.map((todo) => todo.id)).toEqual(['2']);
+    });
+
+    it('should clear the assignee when dropped in the unassigned lane', async () => {
+      mockUpdateTodo.mockResolvedValue(laneTodos[1]);
+      const { result } = renderLanes('assignee');
+
+      const from = laneColumn(result, 'alice', 'planned');
+      const to = laneColumn(result, null, 'planned');
+
+      await act(async () => {
+        await result.current.actions.handleDragEnd(drop(from, to, '2'));
+      });
+
+      expect(mockUpdateTodo).toHaveBeenCalledWith('2', { assignee: '', rank: 'i' });
+    });
+
+    it('should replace only the framework of the lane the card was dragged from', async () => {
+      mockUpdateTodo.mockResolvedValue(laneTodos[0]);
+      const { result } = renderLanes('complianceFramework');
+
+      const from = laneColumn(result, 'PCI-DSS', 'planned');
+      const to = laneColumn(result, 'HIPAA', 'planned');
+
+      await act(async () => {
+        await result.current.actions.handleDragEnd(drop(from, to, '1'));
+      });
+
+      expect(mockUpdateTodo).toHaveBeenCalledWith('1', { complianceFrameworks: ['HIPAA'], rank: 'i' });
+    });
+
+    it('should snap the card back to its lane when the update is rejected', async () => {
+      mockUpdateTodo.mockResolvedValue(null);
+      const { result } = renderLanes('priority');
+
+      const from = laneColumn(result, 'high', 'planned');
+      const to = laneColumn(result, 'low', 'planned');
+
+      await act(async () => {
+        await result.current.actions.handleDragEnd(drop(from, to, '1'));
+      });
+
+      expect(mockUpdateTodo).toHaveBeenCalledWith('1', { priority: 'low', rank: 'i' });
+      expect(laneColumn(result, 'high', 'planned')?.todos.map((todo) => todo.id)).toEqual(['1']);
+      expect(laneColumn(result, 'low', 'planned')?.todos).toHaveLength(0);
+    });
+
+    it('should collapse and expand lanes, expanding all when the swimlane changes', () => {
+      const { result } = renderLanes('assignee');
+
+      act(() => {
+        result.current.actions.toggleLane(null);
+      });
+      const collapsed = result.current.data.lanes.map((lane) => lane.isCollapsed);
+      expect(collapsed).toEqual([false, false, true]);
+
+      act(() => {
+        result.current.actions.setSwimlane('severity');
+      });
+      expect(result.current.uiState.swimlane).toBe('severity');
+      expect(result.current.data.lanes.every((lane) => !lane.isCollapsed)).toBe(true);
+    });
+  });
 });
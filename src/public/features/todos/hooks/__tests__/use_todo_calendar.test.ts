@@ -0,0 +1,198 @@
+import { renderHook, act } from '@testing-library/react-hooks';
+import moment from 'moment';
+import { useTodoCalendar, CalendarDayData } from '../use_todo_calendar';
+import { DropResult } from '../use_kanban_board';
+import { Todo } from '../../../../../common/todo/todo.types';
+
+describe('useTodoCalendar', () => {
+  const makeTodo = (id: string, dueDate: string | undefined, extra: Partial<Todo> = {}): Todo => ({
+    id,
+    title: `Task ${id}`,
+    description: '',
+    status: 'planned',
+    tags: [],
+    priority: 'medium',
+    severity: 'low',
+    complianceFrameworks: [],
+    createdAt: '2025-01-01T00:00:00.000Z',
+    updatedAt: '2025-01-01T00:00:00.000Z',
+    completedAt: null,
+    dueDate,
+    ...extra,
+  });
+
+  // Local times, so day placement does not depend on the time zone running the tests
+  const local = (value: string) => moment(value).toISOString();
+
+  const mockUpdateTodo = jest.fn();
+  const mockOnRangeChange = jest.fn();
+  const mockOnOpen = jest.fn();
+
+  const render = (todos: Todo[], initialMode: 'month' | 'week' = 'month') =>
+    renderHook(() =>
+      useTodoCalendar({
+        todos,
+        error: null,
+        updateTodo: mockUpdateTodo,
+        onRangeChange: mockOnRangeChange,
+        onOpen: mockOnOpen,
+        initialMode,
+        initialDate: new Date(2025, 2, 12),
+      })
+    );
+
+  const drop = (todoId: string, from: string, to: string | null): DropResult => ({
+    draggableId: todoId,
+    type: 'DEFAULT',
+    source: { index: 0, droppableId: from },
+    destination: to ? { index: 0, droppableId: to } : null,
+    reason: 'DROP',
+  });
+
+  type HookResult = { current: ReturnType<typeof useTodoCalendar> };
+  const allDays = (result: HookResult) =>
+    ([] as CalendarDayData[]).concat(...result.current.data.weeks);
+  const findDay = (result: HookResult, key: string) =>
+    allDays(result).find((day) => day.key === key);
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('Date Window', () => {
+    it('should cover whole weeks around the month and report the window', () => {
+      const { result } = render([]);
+      const days = allDays(result);
+
+      expect(days.length % 7).toBe(0);
+      expect(result.current.data.weeks.every((week) => week.length === 7)).toBe(true);
+      expect(days[0].key <= '2025-03-01').toBe(true);
+      expect(days[days.length - 1].key >= '2025-03-31').toBe(true);
+      expect(findDay(result, '2025-03-12')?.isOutsideMonth).toBe(false);
+      expect(mockOnRangeChange).toHaveBeenCalledWith({
+        start: moment(days[0].key).startOf('day').toISOString(),
+        end: moment(days[days.length - 1].key).endOf('day').toISOString(),
+      });
+    });
+
+    it('should show a single week in week mode', () => {
+      const { result } = render([], 'week');
+
+      expect(result.current.data.weeks).toHaveLength(1);
+      expect(result.current.data.weeks[0].map((day) => day.key)).toContain('2025-03-12');
+    });
+
+    it('should move by a month and report the new window', () => {
+      const { result } = render([]);
+
+      act(() => {
+        result.current.actions.goToNext();
+      });
+
+      expect(findDay(result, '2025-04-15')?.isOutsideMonth).toBe(false);
+      expect(mockOnRangeChange).toHaveBeenCalledTimes(2);
+
+      act(() => {
+        result.current.actions.goToPrevious();
+        result.current.actions.goToPrevious();
+      });
+
+      expect(findDay(result, '2025-02-15')?.isOutsideMonth).toBe(false);
+    });
+
+    it('should switch between month and week', () => {
+      const { result } = render([]);
+
+      act(() => {
+        result.current.actions.setMode('week');
+      });
+
+      expect(result.current.uiState.mode).toBe('week');
+      expect(result.current.data.weeks).toHaveLength(1);
+    });
+  });
+
+  describe('Placement', () => {
+    it('should place TODOs on their due day in due time order', () => {
+      const todos = [
+        makeTodo('1', local('2025-03-10T15:00:00'), { priority: 'critical' }),
+        makeTodo('2', local('2025-03-10T09:00:00'), { priority: 'low' }),
+        makeTodo('3', local('2025-03-20T12:00:00')),
+        makeTodo('4', undefined),
+      ];
+      const { result } = render(todos);
+
+      const entries = findDay(result, '2025-03-10')?.entries ?? [];
+      expect(entries.map((entry) => entry.todo.id)).toEqual(['2', '1']);
+      expect(entries.map((entry) => entry.color)).toEqual(['default', 'danger']);
+      expect(findDay(result, '2025-03-20')?.entries).toHaveLength(1);
+      expect(
+        allDays(result).some((day) => day.entries.some((entry) => entry.todo.id === '4'))
+      ).toBe(false);
+    });
+
+    it('should flag open TODOs past their due date as overdue', () => {
+      const todos = [
+        makeTodo('1', local('2025-03-10T09:00:00')),
+        makeTodo('2', local('2025-03-10T10:00:00'), { status: 'done' }),
+      ];
+      const { result } = render(todos);
+
+      const entries = findDay(result, '2025-03-10')?.entries ?? [];
+      expect(entries.map((entry) => entry.isOverdue)).toEqual([true, false]);
+    });
+  });
+
+  describe('Rescheduling', () => {
+    it('should move the TODO to the drop day, keeping the time of day', async () => {
+      const todos = [makeTodo('1', local('2025-03-10T15:30:00'))];
+      mockUpdateTodo.mockResolvedValue(todos[0]);
+      const { result } = render(todos);
+
+      await act(async () => {
+        await result.current.actions.handleDragEnd(drop('1', '2025-03-10', '2025-03-14'));
+      });
+
+      expect(mockUpdateTodo).toHaveBeenCalledWith('1', {
+        dueDate: local('2025-03-14T15:30:00'),
+      });
+      expect(findDay(result, '2025-03-14')?.entries).toHaveLength(1);
+      expect(findDay(result, '2025-03-10')?.entries).toHaveLength(0);
+    });
+
+    it('should snap the TODO back when the update is rejected', async () => {
+      const todos = [makeTodo('1', local('2025-03-10T15:30:00'))];
+      mockUpdateTodo.mockResolvedValue(null);
+      const { result } = render(todos);
+
+      await act(async () => {
+        await result.current.actions.handleDragEnd(drop('1', '2025-03-10', '2025-03-14'));
+      });
+
+      expect(findDay(result, '2025-03-10')?.entries).toHaveLength(1);
+      expect(findDay(result, '2025-03-14')?.entries).toHaveLength(0);
+    });
+
+    it('should not update when dropped on the same day or outside the calendar', async () => {
+      const { result } = render([makeTodo('1', local('2025-03-10T15:30:00'))]);
+
+      await act(async () => {
+        await result.current.actions.handleDragEnd(drop('1', '2025-03-10', '2025-03-10'));
+        await result.current.actions.handleDragEnd(drop('1', '2025-03-10', null));
+      });
+
+      expect(mockUpdateTodo).not.toHaveBeenCalled();
+    });
+  });
+
+  it('should delegate opening a TODO to the parent', () => {
+    const todo = makeTodo('1', local('2025-03-10T15:30:00'));
+    const { result } = render([todo]);
+
+    act(() => {
+      result.current.actions.handleOpen(todo);
+    });
+
+    expect(mockOnOpen).toHaveBeenCalledWith(todo);
+  });
+});
@@ -0,0 +1,107 @@
+import { renderHook, act } from '@testing-library/react-hooks';
+import { useTodoFilters } from '../use_todo_filters';
+
+describe('useTodoFilters', () => {
+  const mockOnFiltersChange = jest.fn();
+
+  const render = (searchText = '') =>
+    renderHook(() =>
+      useTodoFilters({
+        searchText,
+        selectedStatuses: ['planned'],
+        onFiltersChange: mockOnFiltersChange,
+      })
+    );
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('search query', () => {
+    it('should report a valid query', () => {
+      const { result } = render();
+
+      act(() => {
+        result.current.actions.handleSearchChange('priority:critical -assignee:bob firewall');
+      });
+
+      expect(result.current.data.queryError).toBeNull();
+      expect(mockOnFiltersChange).toHaveBeenCalledWith(
+        expect.objectContaining({
+          searchText: 'priority:critical -assignee:bob firewall',
+          status: ['planned'],
+        })
+      );
+    });
+
+    it('should split an invalid query around the error and not report it', () => {
+      const { result } = render();
+
+      act(() => {
+        result.current.actions.handleSearchChange('firewall priority:urgent now');
+      });
+
+      expect(mockOnFiltersChange).not.toHaveBeenCalled();
+      expect(result.current.data.localSearchText).toBe('firewall priority:urgent now');
+      expect(result.current.data.queryError).toEqual({
+        message: expect.stringContaining("Invalid priority 'urgent'"),
+        before: 'firewall ',
+        text: 'priority:urgent',
+        after: ' now',
+      });
+    });
+
+    it('should keep the last valid query when another filter changes', () => {
+      const { result } = render('firewall');
+
+      act(() => {
+        result.current.actions.handleSearchChange('firewall status:');
+      });
+      act(() => {
+        result.current.actions.handleStatusChange([{ label: 'Done', key: 'done', checked: 'on' }]);
+      });
+
+      expect(mockOnFiltersChange).toHaveBeenCalledTimes(1);
+      expect(mockOnFiltersChange).toHaveBeenCalledWith(
+        expect.objectContaining({ searchText: 'firewall', status: ['done'] })
+      );
+    });
+
+    it('should suggest fields and values for the last word', () => {
+      const { result } = render();
+
+      act(() => {
+        result.current.actions.handleSearchChange('sev');
+      });
+
+      expect(result.current.uiState.isSuggestionsOpen).toBe(true);
+      expect(result.current.data.querySuggestions.map((s) => s.label)).toEqual(['severity:']);
+
+      act(() => {
+        result.current.actions.applyQuerySuggestion(result.current.data.querySuggestions[0]);
+      });
+
+      expect(result.current.data.localSearchText).toBe('severity:');
+      expect(result.current.data.querySuggestions.map((s) => s.label)).toEqual([
+        'severity:info',
+        'severity:low',
+        'severity:medium',
+        'severity:high',
+        'severity:critical',
+      ]);
+    });
+
+    it('should close the suggestions', () => {
+      const { result } = render();
+
+      act(() => {
+        result.current.actions.handleSearchChange('stat');
+      });
+      act(() => {
+        result.current.actions.closeSuggestions();
+      });
+
+      expect(result.current.uiState.isSuggestionsOpen).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,259 @@
+import { renderHook, act } from '@testing-library/react-hooks';
+import moment from 'moment';
+import { useTodoGantt, GanttDragEdge, GanttRowData } from '../use_todo_gantt';
+import { Todo } from '../../../../../common/todo/todo.types';
+
+describe('useTodoGantt', () => {
+  const makeTodo = (id: string, extra: Partial<Todo> = {}): Todo => ({
+    id,
+    title: `Task ${id}`,
+    description: '',
+    status: 'planned',
+    tags: [],
+    priority: 'medium',
+    severity: 'low',
+    complianceFrameworks: [],
+    createdAt: '2025-01-01T00:00:00.000Z',
+    updatedAt: '2025-01-01T00:00:00.000Z',
+    completedAt: null,
+    ...extra,
+  });
+
+  // Local times, so positions do not depend on the time zone running the tests
+  const local = (value: string) => moment(value).toISOString();
+
+  // A TODO running from the start of one local day to the start of another
+  const scheduled = (id: string, start: string, due: string, extra: Partial<Todo> = {}) =>
+    makeTodo(id, { startDate: local(start), dueDate: local(due), ...extra });
+
+  const mockUpdateTodo = jest.fn();
+  const mockOnRangeChange = jest.fn();
+  const mockOnOpen = jest.fn();
+
+  const render = (todos: Todo[]) =>
+    renderHook(() =>
+      useTodoGantt({
+        todos,
+        error: null,
+        updateTodo: mockUpdateTodo,
+        onRangeChange: mockOnRangeChange,
+        onOpen: mockOnOpen,
+        initialDate: new Date(2025, 3, 15),
+      })
+    );
+
+  type HookResult = { current: ReturnType<typeof useTodoGantt> };
+  const allRows = (result: HookResult) =>
+    ([] as GanttRowData[]).concat(...result.current.data.groups.map((group) => [...group.rows]));
+  const findRow = (result: HookResult, id: string) =>
+    allRows(result).find((row) => row.todo.id === id);
+
+  // April 2025 has 30 days, so with a 300px track each day is 10px wide
+  const dragBy = async (result: HookResult, id: string, edge: GanttDragEdge, days: number) => {
+    act(() => {
+      result.current.actions.beginDrag(id, edge, 100, 300);
+    });
+    act(() => {
+      result.current.actions.moveDrag(100 + days * 10);
+    });
+    await act(async () => {
+      await result.current.actions.endDrag();
+    });
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('Date Window', () => {
+    it('should cover the month and report the window', () => {
+      const { result } = render([]);
+
+      expect(result.current.data.title).toBe('April 2025');
+      expect(mockOnRangeChange).toHaveBeenCalledWith({
+        start: local('2025-04-01T00:00:00'),
+        end: moment('2025-04-30').endOf('day').toISOString(),
+      });
+    });
+
+    it('should move by a quarter in quarter scale', () => {
+      const { result } = render([]);
+
+      act(() => {
+        result.current.actions.setScale('quarter');
+      });
+      act(() => {
+        result.current.actions.goToNext();
+      });
+
+      expect(result.current.data.range).toEqual({
+        start: local('2025-07-01T00:00:00'),
+        end: moment('2025-09-30').endOf('day').toISOString(),
+      });
+      expect(result.current.data.ticks.map((tick) => tick.label)).toEqual([
+        'July',
+        'August',
+        'September',
+      ]);
+    });
+  });
+
+  describe('Bars', () => {
+    it('should draw bars from start to due date, clipped to the window', () => {
+      const todos = [
+        scheduled('1', '2025-04-01', '2025-04-16'),
+        scheduled('2', '2025-03-20', '2025-04-04'),
+        makeTodo('3', { dueDate: local('2025-04-10T00:00:00') }),
+        scheduled('4', '2025-05-02', '2025-05-20'),
+        makeTodo('5'),
+      ];
+      const { result } = render(todos);
+
+      expect(allRows(result).map((row) => row.todo.id)).toEqual(['2', '1', '3']);
+      expect(findRow(result, '1')?.left).toBe(0);
+      expect(findRow(result, '1')?.width).toBeCloseTo(50, 0);
+      expect(findRow(result, '2')).toMatchObject({ left: 0, clippedStart: true });
+      expect(findRow(result, '3')).toMatchObject({ isMilestone: true, width: 0 });
+    });
+
+    it('should mark completion and lateness from completedAt', () => {
+      const todos = [
+        scheduled('1', '2025-04-01', '2025-04-10', {
+          status: 'done',
+          completedAt: local('2025-04-12T00:00:00'),
+        }),
+        scheduled('2', '2025-04-01', '2025-04-10'),
+      ];
+      const { result } = render(todos);
+
+      const done = findRow(result, '1')!;
+      expect(done.completedOffset).toBeGreaterThan(done.left + done.width);
+      expect(done).toMatchObject({ completedLate: true, isOverdue: false, color: 'success' });
+      expect(findRow(result, '2')).toMatchObject({ completedOffset: null, isOverdue: true });
+    });
+
+    it('should flag TODOs starting before an open blocker is due', () => {
+      const blockers = [{ id: '1', title: 'Task 1', status: 'planned' as const }];
+      const todos = [
+        scheduled('1', '2025-04-01', '2025-04-10'),
+        scheduled('2', '2025-04-05', '2025-04-20', { blockers }),
+        scheduled('3', '2025-04-12', '2025-04-20', { blockers }),
+      ];
+      const { result } = render(todos);
+
+      expect(findRow(result, '2')?.startsBeforeBlocker).toBe(true);
+      expect(findRow(result, '3')?.startsBeforeBlocker).toBe(false);
+      expect(findRow(result, '3')?.openBlockers).toHaveLength(1);
+    });
+  });
+
+  describe('Grouping', () => {
+    const todos = [
+      scheduled('1', '2025-04-01', '2025-04-10', {
+        assignee: 'bob',
+        complianceFrameworks: ['PCI-DSS', 'HIPAA'],
+      }),
+      scheduled('2', '2025-04-01', '2025-04-11'),
+      scheduled('3', '2025-04-01', '2025-04-12', { assignee: 'alice' }),
+    ];
+
+    it('should group by assignee with unassigned TODOs last', () => {
+      const { result } = render(todos);
+
+      const labels = result.current.data.groups.map((group) => group.label);
+      expect(labels).toEqual(['alice', 'bob', null]);
+    });
+
+    it('should list a TODO under each of its frameworks', () => {
+      const { result } = render(todos);
+
+      act(() => {
+        result.current.actions.setGroupBy('complianceFramework');
+      });
+
+      const groups = result.current.data.groups.map((group) => [
+        group.label,
+        group.rows.map((row) => row.todo.id),
+      ]);
+      expect(groups).toEqual([
+        ['HIPAA', ['1']],
+        ['PCI-DSS', ['1']],
+        [null, ['2', '3']],
+      ]);
+    });
+  });
+
+  describe('Rescheduling', () => {
+    const todo = makeTodo('1', {
+      startDate: local('2025-04-07T09:00:00'),
+      dueDate: local('2025-04-10T17:00:00'),
+    });
+
+    it('should move both dates when the bar is dragged', async () => {
+      mockUpdateTodo.mockResolvedValue(todo);
+      const { result } = render([todo]);
+
+      await dragBy(result, '1', 'move', 3);
+
+      expect(mockUpdateTodo).toHaveBeenCalledWith('1', {
+        startDate: local('2025-04-10T09:00:00'),
+        dueDate: local('2025-04-13T17:00:00'),
+      });
+      expect(findRow(result, '1')?.todo.dueDate).toBe(local('2025-04-13T17:00:00'));
+    });
+
+    it('should stop the due date at the start when the end is dragged past it', async () => {
+      mockUpdateTodo.mockResolvedValue(todo);
+      const { result } = render([todo]);
+
+      await dragBy(result, '1', 'end', -10);
+
+      expect(mockUpdateTodo).toHaveBeenCalledWith('1', {
+        startDate: local('2025-04-07T09:00:00'),
+        dueDate: local('2025-04-07T09:00:00'),
+      });
+    });
+
+    it('should give a milestone a start date when its start is dragged', async () => {
+      const milestone = makeTodo('2', { dueDate: local('2025-04-10T17:00:00') });
+      mockUpdateTodo.mockResolvedValue(milestone);
+      const { result } = render([milestone]);
+
+      await dragBy(result, '2', 'start', -2);
+
+      expect(mockUpdateTodo).toHaveBeenCalledWith('2', {
+        startDate: local('2025-04-08T17:00:00'),
+        dueDate: local('2025-04-10T17:00:00'),
+      });
+    });
+
+    it('should snap the bar back when the update is rejected', async () => {
+      mockUpdateTodo.mockResolvedValue(null);
+      const { result } = render([todo]);
+
+      await dragBy(result, '1', 'move', 3);
+
+      expect(findRow(result, '1')?.todo.dueDate).toBe(todo.dueDate);
+      expect(result.current.uiState.draggingId).toBeNull();
+    });
+
+    it('should not update when the bar is released where it started', async () => {
+      const { result } = render([todo]);
+
+      await dragBy(result, '1', 'move', 0);
+
+      expect(mockUpdateTodo).not.toHaveBeenCalled();
+    });
+  });
+
+  it('should delegate opening a TODO to the parent', () => {
+    const todo = makeTodo('1', { dueDate: local('2025-04-10T17:00:00') });
+    const { result } = render([todo]);
+
+    act(() => {
+      result.current.actions.handleOpen(todo);
+    });
+
+    expect(mockOnOpen).toHaveBeenCalledWith(todo);
+  });
+});
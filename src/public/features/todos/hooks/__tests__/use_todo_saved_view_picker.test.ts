@@ -0,0 +1,163 @@
+import { renderHook, act } from '@testing-library/react-hooks';
+import { useTodoSavedViewPicker } from '../use_todo_saved_view_picker';
+import { TodoSavedView } from '../../../../../common/todo/todo.saved_views';
+
+describe('useTodoSavedViewPicker', () => {
+  const makeView = (id: string, name: string, extra: Partial<TodoSavedView> = {}): TodoSavedView => ({
+    id,
+    name,
+    owner: 'alice',
+    shared: false,
+    filters: {},
+    sortField: 'createdAt',
+    sortDirection: 'desc',
+    tab: 'table',
+    createdAt: '2025-01-01T00:00:00.000Z',
+    updatedAt: '2025-01-01T00:00:00.000Z',
+    ...extra,
+  });
+
+  const morningView = makeView('view-1', 'My critical overdue', {
+    filters: { severity: ['critical'], isOverdue: true },
+  });
+  const teamView = makeView('view-2', 'Team board', { owner: 'bob', shared: true, tab: 'kanban' });
+
+  const mockOnApply = jest.fn();
+  const mockOnSave = jest.fn();
+  const mockOnDelete = jest.fn();
+
+  const render = (views: TodoSavedView[], username: string | null = 'alice') =>
+    renderHook(() =>
+      useTodoSavedViewPicker({
+        views,
+        username,
+        onApply: mockOnApply,
+        onSave: mockOnSave,
+        onDelete: mockOnDelete,
+      })
+    );
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockOnSave.mockResolvedValue(true);
+    mockOnDelete.mockResolvedValue(true);
+  });
+
+  describe('Views', () => {
+    it('should split own views from views shared by others', () => {
+      const { result } = render([morningView, teamView]);
+
+      expect(result.current.data.ownViews).toEqual([morningView]);
+      expect(result.current.data.sharedViews).toEqual([teamView]);
+    });
+
+    it('should treat every view as shared while the user is unknown', () => {
+      const { result } = render([morningView, teamView], null);
+
+      expect(result.current.data.ownViews).toEqual([]);
+      expect(result.current.data.sharedViews).toHaveLength(2);
+    });
+
+    it('should apply a view and close the picker', () => {
+      const { result } = render([morningView, teamView]);
+
+      act(() => {
+        result.current.actions.togglePicker();
+      });
+      expect(result.current.uiState.isOpen).toBe(true);
+
+      act(() => {
+        result.current.actions.applyView(teamView);
+      });
+
+      expect(mockOnApply).toHaveBeenCalledWith(teamView);
+      expect(result.current.uiState.isOpen).toBe(false);
+    });
+  });
+
+  describe('Saving', () => {
+    it('should not save without a name', async () => {
+      const { result } = render([]);
+
+      act(() => {
+        result.current.actions.setName('   ');
+      });
+      expect(result.current.uiState.canSave).toBe(false);
+
+      await act(async () => {
+        await result.current.actions.saveView();
+      });
+
+      expect(mockOnSave).not.toHaveBeenCalled();
+    });
+
+    it('should save a new view and reset the form', async () => {
+      const { result } = render([morningView]);
+
+      act(() => {
+        result.current.actions.setName(' HIPAA ');
+        result.current.actions.setShared(true);
+      });
+      expect(result.current.data.existingView).toBeNull();
+
+      await act(async () => {
+        await result.current.actions.saveView();
+      });
+
+      expect(mockOnSave).toHaveBeenCalledWith('HIPAA', true, undefined);
+      expect(result.current.uiState.name).toBe('');
+      expect(result.current.uiState.shared).toBe(false);
+    });
+
+    it('should replace an own view with the same name, ignoring case', async () => {
+      const { result } = render([morningView]);
+
+      act(() => {
+        result.current.actions.setName('my CRITICAL overdue');
+      });
+      expect(result.current.data.existingView).toEqual(morningView);
+
+      await act(async () => {
+        await result.current.actions.saveView();
+      });
+
+      expect(mockOnSave).toHaveBeenCalledWith('my CRITICAL overdue', false, 'view-1');
+    });
+
+    it('should not replace a view shared by another user', () => {
+      const { result } = render([teamView]);
+
+      act(() => {
+        result.current.actions.setName('Team board');
+      });
+
+      expect(result.current.data.existingView).toBeNull();
+    });
+
+    it('should keep the form when saving fails', async () => {
+      mockOnSave.mockResolvedValue(false);
+      const { result } = render([]);
+
+      act(() => {
+        result.current.actions.setName('HIPAA');
+      });
+      await act(async () => {
+        await result.current.actions.saveView();
+      });
+
+      expect(result.current.uiState.name).toBe('HIPAA');
+    });
+  });
+
+  describe('Deleting', () => {
+    it('should delete a view by ID', async () => {
+      const { result } = render([morningView]);
+
+      await act(async () => {
+        await result.current.actions.deleteView('view-1');
+      });
+
+      expect(mockOnDelete).toHaveBeenCalledWith('view-1');
+    });
+  });
+});
@@ -0,0 +1,92 @@
+import { useState, useCallback } from 'react';
+import { i18n } from '@osd/i18n';
+import { TodosClient } from '../api/todos.client';
+import { BulkTodoAction, BulkTodosResponse } from '../../../../common/todo/todo.dtos';
+import { NotificationsStart } from '../../../../../src/core/public';
+
+interface UseBulkTodosOptions {
+  client: TodosClient;
+  notifications: NotificationsStart;
+  onSuccess?: (response: BulkTodosResponse) => void;
+}
+
+interface UseBulkTodosReturn {
+  runBulk: (actions: BulkTodoAction[]) => Promise<BulkTodosResponse | null>;
+  loading: boolean;
+  error: Error | null;
+}
+
+export const useBulkTodos = ({
+  client,
+  notifications,
+  onSuccess,
+}: UseBulkTodosOptions): UseBulkTodosReturn => {
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<Error | null>(null);
+
+  const runBulk = useCallback(
+    async (actions: BulkTodoAction[]): Promise<BulkTodosResponse | null> => {
+      if (actions.length === 0) {
+        return null;
+      }
+
+      setLoading(true);
+      setError(null);
+
+      try {
+        const response = await client.bulk({ actions });
+        const { succeeded, failed, total } = response.summary;
+
+        if (failed === 0) {
+          notifications.toasts.addSuccess({
+            title: i18n.translate('customPlugin.toast.bulk.title', {
+              defaultMessage: 'Bulk Action Applied',
+            }),
+            text: i18n.translate('customPlugin.toast.bulk.text', {
+              defaultMessage: 'Successfully applied to {count, plural, one {# TODO} other {# TODOs}}',
+              values: { count: succeeded },
+            }),
+          });
+        } else {
+          // Show the first failure reason; the rest usually share it
+          const firstError = response.results.find((result) => !result.success)?.error;
+          notifications.toasts.addWarning({
+            title: i18n.translate('customPlugin.toast.bulk.partialTitle', {
+              defaultMessage: 'Bulk Action Partially Applied',
+            }),
+            text: i18n.translate('customPlugin.toast.bulk.partialText', {
+              defaultMessage: '{failed} of {total} actions failed. {reason}',
+              values: { failed, total, reason: firstError?.message ?? '' },
+            }),
+          });
+        }
+
+        if (onSuccess && succeeded > 0) {
+          onSuccess(response);
+        }
+
+        return response;
+      } catch (err) {
+        const errorInstance = err instanceof Error ? err : new Error('Failed to apply bulk action');
+        setError(errorInstance);
+
+        notifications.toasts.addError(errorInstance, {
+          title: i18n.translate('customPlugin.toast.error.bulkFailed', {
+            defaultMessage: 'Failed to Apply Bulk Action',
+          }),
+        });
+
+        return null;
+      } finally {
+        setLoading(false);
+      }
+    },
+    [client, notifications, onSuccess]
+  );
+
+  return {
+    runBulk,
+    loading,
+    error,
+  };
+};
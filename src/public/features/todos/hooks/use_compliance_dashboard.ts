@@ -5,9 +5,14 @@ import { AnalyticsStats } from '../../../../common/todo/todo.types';
 interface UseComplianceDashboardParams {
   data: AnalyticsStats | null;
   onFrameworkChange?: (framework: string | undefined) => void;
+  onExportOscal?: (framework: string) => void;
 }
 
-export const useComplianceDashboard = ({ data, onFrameworkChange }: UseComplianceDashboardParams) => {
+export const useComplianceDashboard = ({
+  data,
+  onFrameworkChange,
+  onExportOscal,
+}: UseComplianceDashboardParams) => {
   const [selectedFramework, setSelectedFramework] = useState<string>('');
 
   const availableFrameworks = useMemo(() => {
@@ -41,13 +46,27 @@ export const useComplianceDashboard = ({ data, onFrameworkChange }: UseComplianc
     [onFrameworkChange]
   );
 
+  // A POA&M needs at least one open TODO of the selected framework
+  const canExportOscal = useMemo(() => {
+    const coverage = data?.complianceCoverage.find((f) => f.framework === selectedFramework);
+    return !!coverage && coverage.total > coverage.byStatus.done;
+  }, [data, selectedFramework]);
+
+  const handleExportOscal = useCallback(() => {
+    if (onExportOscal && selectedFramework) {
+      onExportOscal(selectedFramework);
+    }
+  }, [onExportOscal, selectedFramework]);
+
   return {
     data: {
       selectedFramework,
       frameworkOptions,
+      canExportOscal,
     },
     actions: {
       handleFrameworkChange,
+      handleExportOscal,
     },
   };
 };
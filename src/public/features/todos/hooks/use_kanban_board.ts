@@ -1,12 +1,78 @@
 
-import { useMemo, useCallback, useState } from 'react';
+import { useMemo, useCallback, useState, useEffect } from 'react';
 import { i18n } from '@osd/i18n';
 import {
   Todo,
   TodoStatus,
+  TodoPriority,
+  TodoSeverity,
   TODO_STATUS_VALUES,
   TODO_STATUS_COLORS,
+  TODO_PRIORITY_VALUES,
+  TODO_PRIORITY_LABELS,
+  TODO_SEVERITY_VALUES,
+  TODO_SEVERITY_LABELS,
+  TodoStatusTransitionRules,
+  DEFAULT_TODO_STATUS_TRANSITIONS,
 } from '../../../../common/todo/todo.types';
+import { UpdateTodoRequest } from '../../../../common/todo/todo.dtos';
+import { TODO_RANK_REBALANCE_LENGTH, rankBetween } from '../../../../common/todo/todo.rank';
+import {
+  TodoWipLimits,
+  DEFAULT_TODO_WIP_LIMITS,
+  getWipLimit,
+} from '../../../../common/todo/todo.wip_limits';
+
+/**
+ * Field the board can be split into swimlanes by, or `none` for a single row of columns
+ */
+export type KanbanSwimlane =
+  | 'none'
+  | 'assignee'
+  | 'priority'
+  | 'severity'
+  | 'complianceFramework'
+  | 'tag';
+
+/**
+ * Swimlane fields in the order offered to the user
+ */
+export const KANBAN_SWIMLANES: readonly KanbanSwimlane[] = [
+  'none',
+  'assignee',
+  'priority',
+  'severity',
+  'complianceFramework',
+  'tag',
+];
+
+/**
+ * Changes made to a card by dropping it: its status, with the reason when the
+ * status requires one, its rank in the column, and the swimlane field when it changes lanes
+ */
+export type KanbanCardChanges = Pick<
+  UpdateTodoRequest,
+  | 'status'
+  | 'statusReason'
+  | 'assignee'
+  | 'priority'
+  | 'severity'
+  | 'complianceFrameworks'
+  | 'tags'
+  | 'rank'
+>;
+
+/**
+ * Card dropped in a column whose status requires a reason, waiting for the user to give one
+ */
+export interface KanbanReasonPrompt {
+  /** Title of the dropped card */
+  readonly todoTitle: string;
+  /** Title of the column the card was dropped in */
+  readonly statusTitle: string;
+  /** Reason typed so far */
+  readonly reason: string;
+}
 
 /**
  * Represents a single kanban column with its metadata and todos
@@ -20,10 +86,39 @@ export interface KanbanColumnData {
   readonly color: string;
   /** Unique ID for drag-drop library */
   readonly droppableId: string;
-  /** Todos to display in this column */
+  /**
+   * Prefix of the draggable IDs of this column's cards, so a TODO shown in
+   * several lanes (e.g. one per tag) has a unique draggable ID in each
+   */
+  readonly draggableIdPrefix: string;
+  /** Todos to display in this column, ranked ones first in rank order */
   readonly todos: readonly Todo[];
   /** Count of todos in this column */
   readonly count: number;
+  /** Count of todos with this status matching the filters, including those not loaded yet */
+  readonly total: number;
+  /** Whether more todos of this column can be loaded */
+  readonly hasMore: boolean;
+  /** Whether more todos of this column are being loaded */
+  readonly isLoadingMore: boolean;
+  /** Work-in-progress limit of this column, or null if it has none */
+  readonly limit: number | null;
+  /** Whether the column holds more todos than its limit */
+  readonly isOverLimit: boolean;
+}
+
+/**
+ * Represents a swimlane: the status columns of the TODOs sharing one value of the swimlane field
+ */
+export interface KanbanLaneData {
+  /** Swimlane field value, or null for TODOs without one (e.g. unassigned) */
+  readonly value: string | null;
+  /** Display title for the lane header */
+  readonly title: string;
+  /** Number of TODOs in this lane */
+  readonly count: number;
+  readonly isCollapsed: boolean;
+  readonly columns: readonly KanbanColumnData[];
 }
 
 /**
@@ -53,12 +148,42 @@ export interface UseKanbanBoardOptions {
   readonly loading: boolean;
   /** Error state from parent */
   readonly error: Error | null;
-  /** Function to update a todo's status */
-  readonly updateTodo: (id: string, data: { status: TodoStatus }) => Promise<Todo | null>;
+  /** Function to update a dropped todo; resolves to null when the update is rejected */
+  readonly updateTodo: (id: string, data: KanbanCardChanges) => Promise<Todo | null>;
   /** Callback when edit is clicked */
   readonly onEdit: (todo: Todo) => void;
   /** Callback when delete is clicked */
   readonly onDelete: (todoId: string) => void;
+  /** Callback when a linked TODO (e.g. a blocker) is clicked */
+  readonly onOpenTodo?: (todoId: string) => void;
+  /** Callback when a dropped card's rank gets long enough that the ranks should be rebalanced */
+  readonly onRanksDense?: () => void;
+  /**
+   * Function to give unranked cards ranks, keyed by ID, before a card is dropped below them;
+   * resolves to false when they could not all be ranked. Without it, such drops snap back.
+   */
+  readonly rankTodos?: (ranks: Readonly<Record<string, string>>) => Promise<boolean>;
+  /** Swimlane field shown first; defaults to `none` */
+  readonly initialSwimlane?: KanbanSwimlane;
+  /**
+   * Work-in-progress limits; global limits apply to the columns of a board without
+   * swimlanes, per-assignee limits to the columns of assignee lanes
+   */
+  readonly wipLimits?: TodoWipLimits;
+  /**
+   * Status workflow; a card dropped in a column whose status requires a reason
+   * is only moved once the user gives one
+   */
+  readonly statusTransitions?: TodoStatusTransitionRules;
+  /**
+   * Count of todos of each status matching the filters, when `todos` holds only the
+   * first ones of each column; defaults to the loaded todos
+   */
+  readonly totals?: Readonly<Partial<Record<TodoStatus, number>>>;
+  /** Statuses whose next todos are being loaded */
+  readonly loadingMore?: readonly TodoStatus[];
+  /** Callback to load the next todos of a column */
+  readonly onLoadMore?: (status: TodoStatus) => void;
 }
 
 /**
@@ -67,29 +192,231 @@ export interface UseKanbanBoardOptions {
 export interface UseKanbanBoardReturn {
   /** Pre-computed data for UI */
   readonly data: {
+    /** Status columns of all TODOs, shown when the board has no swimlanes */
     readonly columns: readonly KanbanColumnData[];
+    /** Swimlanes, empty when the board has no swimlanes */
+    readonly lanes: readonly KanbanLaneData[];
+    /** Titles of the todos on the board, keyed by ID, for labelling subtasks */
+    readonly parentTitles: Readonly<Record<string, string>>;
+    /** Count of todos matching the filters that are not loaded yet, in all columns */
+    readonly unloadedCount: number;
+    /** Dropped card waiting for a reason, or null when none is asked for */
+    readonly reasonPrompt: KanbanReasonPrompt | null;
   };
   /** UI state flags */
   readonly uiState: {
+    readonly swimlane: KanbanSwimlane;
     readonly isDragging: boolean;
     readonly hasError: boolean;
     readonly isEmpty: boolean;
+    /** Whether more todos of any column are being loaded */
+    readonly isLoadingMore: boolean;
   };
   /** User action handlers */
   readonly actions: {
+    readonly setSwimlane: (swimlane: KanbanSwimlane) => void;
+    /** Collapses or expands the lane of a swimlane field value */
+    readonly toggleLane: (value: string | null) => void;
     readonly handleDragStart: () => void;
     readonly handleDragUpdate: () => void;
     readonly handleDragEnd: (result: DropResult) => Promise<void>;
     readonly handleEdit: (todo: Todo) => void;
     readonly handleDelete: (todoId: string) => void;
+    readonly handleOpenTodo: (todoId: string) => void;
+    /** Loads the next todos of a column, or of every column with more when none is given */
+    readonly handleLoadMore: (status?: TodoStatus) => void;
+    readonly setReason: (reason: string) => void;
+    /** Moves the card waiting for a reason, with the reason typed */
+    readonly confirmReason: () => Promise<void>;
+    /** Leaves the card waiting for a reason where it was */
+    readonly cancelReason: () => void;
   };
 }
 
+/**
+ * Where a droppable sits on the board
+ */
+interface DroppableLocation {
+  readonly status: TodoStatus;
+  /** Swimlane field value of the lane, null for the lane of TODOs without one */
+  readonly lane: string | null;
+  readonly draggableIdPrefix: string;
+  /** Cards of the column, in display order */
+  readonly todos: readonly Todo[];
+}
+
+const statusTitle = (status: TodoStatus): string =>
+  i18n.translate(`customPlugin.status.${status}`, {
+    defaultMessage: status.charAt(0).toUpperCase() + status.slice(1).replace('_', ' '),
+  });
+
+/**
+ * Orders cards by rank; unranked cards come last, in the order they were loaded
+ */
+const sortByRank = (todos: readonly Todo[]): Todo[] => {
+  const ranked = todos.filter((todo) => todo.rank);
+  ranked.sort((a, b) => (a.rank! < b.rank! ? -1 : a.rank! > b.rank! ? 1 : 0));
+  return [...ranked, ...todos.filter((todo) => !todo.rank)];
+};
+
+/**
+ * Builds the status columns of a set of todos
+ *
+ * @param idPrefix - Prefix making the droppable and draggable IDs unique across lanes
+ * @param limitOf - Work-in-progress limit of a status, or null if it has none
+ * @param unloaded - Count of todos of each status not loaded yet; omitted in lanes,
+ *   where it is not known which lane they belong to
+ * @param loadingMore - Statuses whose next todos are being loaded
+ */
+const buildColumns = (
+  todos: readonly Todo[],
+  idPrefix: string,
+  limitOf: (status: TodoStatus) => number | null,
+  unloaded: Partial<Record<TodoStatus, number>> = {},
+  loadingMore: readonly TodoStatus[] = []
+): KanbanColumnData[] =>
+  TODO_STATUS_VALUES.map((status) => {
+    const columnTodos = sortByRank(todos.filter((todo) => todo.status === status));
+    const limit = limitOf(status);
+    const hidden = unloaded[status] ?? 0;
+    const total = columnTodos.length + hidden;
+    return {
+      status,
+      title: statusTitle(status),
+      color: TODO_STATUS_COLORS[status],
+      droppableId: `${idPrefix}${status}`,
+      draggableIdPrefix: idPrefix,
+      todos: columnTodos,
+      count: columnTodos.length,
+      total,
+      hasMore: hidden > 0,
+      isLoadingMore: loadingMore.includes(status),
+      limit,
+      isOverLimit: limit !== null && total > limit,
+    };
+  });
+
+const noLimit = (): null => null;
+
+/**
+ * Values of a todo's swimlane field; empty when it has none.
+ * Compliance frameworks and tags can have several, putting the todo in several lanes.
+ */
+const laneValuesOf = (todo: Todo, swimlane: KanbanSwimlane): readonly string[] => {
+  switch (swimlane) {
+    case 'assignee':
+      return todo.assignee ? [todo.assignee] : [];
+    case 'priority':
+      return [todo.priority];
+    case 'severity':
+      return [todo.severity];
+    case 'complianceFramework':
+      return todo.complianceFrameworks;
+    case 'tag':
+      return todo.tags;
+    default:
+      return [];
+  }
+};
+
+/**
+ * Replaces one value of a multi-valued field; moving to no value clears the field
+ */
+const replaceValue = (
+  values: readonly string[],
+  from: string | null,
+  to: string | null
+): string[] => {
+  if (to === null) {
+    return [];
+  }
+  const next =
+    from === null ? [...values, to] : values.map((value) => (value === from ? to : value));
+  return next.filter((value, index) => next.indexOf(value) === index);
+};
+
+/**
+ * Changes moving a todo from one lane to another
+ */
+const laneChanges = (
+  todo: Todo,
+  swimlane: KanbanSwimlane,
+  from: string | null,
+  to: string | null
+): KanbanCardChanges => {
+  switch (swimlane) {
+    case 'assignee':
+      // An empty assignee clears it
+      return { assignee: to ?? '' };
+    case 'priority':
+      return { priority: to as TodoPriority };
+    case 'severity':
+      return { severity: to as TodoSeverity };
+    case 'complianceFramework':
+      return { complianceFrameworks: replaceValue(todo.complianceFrameworks, from, to) };
+    case 'tag':
+      return { tags: replaceValue(todo.tags, from, to) };
+    default:
+      return {};
+  }
+};
+
+/**
+ * Ranks placing a card at a position of a column.
+ * Unranked cards have no rank to place the card next to, so the unranked cards above
+ * the drop point are ranked too, in their current order after the last ranked card.
+ *
+ * @param neighbors - Cards of the destination column without the dropped card
+ * @param index - Position of the card among `neighbors`
+ * @returns Rank of the dropped card, and the new ranks of the unranked cards above it by ID
+ */
+const rankAt = (
+  neighbors: readonly Todo[],
+  index: number
+): { rank: string; neighborRanks: Record<string, string> } => {
+  const neighborRanks: Record<string, string> = {};
+  let before = index > 0 ? neighbors[index - 1].rank ?? null : null;
+  const firstUnranked = neighbors.findIndex((todo) => !todo.rank);
+  if (firstUnranked !== -1 && firstUnranked < index) {
+    before = firstUnranked > 0 ? neighbors[firstUnranked - 1].rank! : null;
+    neighbors.slice(firstUnranked, index).forEach((todo) => {
+      before = rankBetween(before, null);
+      neighborRanks[todo.id] = before;
+    });
+  }
+  const after = index < neighbors.length ? neighbors[index].rank ?? null : null;
+  return { rank: rankBetween(before, after), neighborRanks };
+};
+
+const laneTitle = (swimlane: KanbanSwimlane, value: string | null): string => {
+  if (swimlane === 'priority') {
+    return TODO_PRIORITY_LABELS[value as TodoPriority];
+  }
+  if (swimlane === 'severity') {
+    return TODO_SEVERITY_LABELS[value as TodoSeverity];
+  }
+  if (value !== null) {
+    return value;
+  }
+  switch (swimlane) {
+    case 'assignee':
+      return i18n.translate('customPlugin.kanban.lane.unassigned', {
+        defaultMessage: 'Unassigned',
+      });
+    case 'complianceFramework':
+      return i18n.translate('customPlugin.kanban.lane.noFramework', {
+        defaultMessage: 'No framework',
+      });
+    default:
+      return i18n.translate('customPlugin.kanban.lane.noTags', { defaultMessage: 'No tags' });
+  }
+};
+
 /**
  * Custom hook for kanban board business logic
  *
  * Following PROJECT RULE #11:
- * - Encapsulates all business logic (grouping, drag-drop handling)
+ * - Encapsulates all business logic (grouping, swimlanes, drag-drop handling)
  * - Returns UI-friendly contract: { data, uiState, actions }
  * - Component remains purely presentational
  *
@@ -103,47 +430,173 @@ export const useKanbanBoard = ({
   updateTodo,
   onEdit,
   onDelete,
+  onOpenTodo,
+  onRanksDense,
+  rankTodos,
+  initialSwimlane = 'none',
+  wipLimits = DEFAULT_TODO_WIP_LIMITS,
+  statusTransitions = DEFAULT_TODO_STATUS_TRANSITIONS,
+  totals,
+  loadingMore,
+  onLoadMore,
 }: UseKanbanBoardOptions): UseKanbanBoardReturn => {
   // Track drag state for UI feedback
   const [isDragging, setIsDragging] = useState(false);
+  const [swimlane, setSwimlaneState] = useState<KanbanSwimlane>(initialSwimlane);
+  // Swimlane field values of the collapsed lanes, '' for the lane of TODOs without one
+  const [collapsedLanes, setCollapsedLanes] = useState<readonly string[]>([]);
+  // Optimistic changes for cards dropped while their update is in flight
+  const [pendingMoves, setPendingMoves] = useState<Record<string, Partial<Todo>>>({});
+  // Drop waiting for the reason its status change requires
+  const [reasonDrop, setReasonDrop] = useState<{
+    readonly todo: Todo;
+    readonly changes: KanbanCardChanges;
+    readonly neighborRanks: Record<string, string>;
+  } | null>(null);
+  const [reason, setReason] = useState('');
+
+  // Fresh data from the server supersedes any optimistic moves
+  useEffect(() => {
+    setPendingMoves((prev) => (Object.keys(prev).length === 0 ? prev : {}));
+  }, [todos]);
 
   /**
-   * Group todos by status
-   * Memoized to prevent unnecessary re-computation
+   * Todos with their optimistic changes applied
    */
-  const groupedTodos = useMemo(() => {
-    const groups: Record<TodoStatus, Todo[]> = {
-      planned: [],
-      in_progress: [],
-      done: [],
-      error: [],
-    };
+  const boardTodos = useMemo(
+    () =>
+      todos.map((todo) => (pendingMoves[todo.id] ? { ...todo, ...pendingMoves[todo.id] } : todo)),
+    [todos, pendingMoves]
+  );
 
-    todos.forEach((todo) => {
-      if (groups[todo.status]) {
-        groups[todo.status].push(todo);
+  /**
+   * Count the todos of each status that are not loaded yet.
+   * Compared with the todos as loaded, so a card moved optimistically also moves in the totals.
+   */
+  const unloaded = useMemo(() => {
+    const counts: Partial<Record<TodoStatus, number>> = {};
+    if (!totals || !onLoadMore) {
+      return counts;
+    }
+    TODO_STATUS_VALUES.forEach((status) => {
+      const loaded = todos.filter((todo) => todo.status === status).length;
+      const hidden = (totals[status] ?? 0) - loaded;
+      if (hidden > 0) {
+        counts[status] = hidden;
       }
     });
+    return counts;
+  }, [todos, totals, onLoadMore]);
 
-    return groups;
-  }, [todos]);
+  const unloadedCount = useMemo(
+    () => Object.values(unloaded).reduce((sum: number, count) => sum + (count ?? 0), 0),
+    [unloaded]
+  );
 
   /**
    * Calculate column metadata
    * Memoized to prevent unnecessary re-computation
    */
-  const columns = useMemo((): readonly KanbanColumnData[] => {
-    return TODO_STATUS_VALUES.map((status) => ({
-      status,
-      title: i18n.translate(`customPlugin.status.${status}`, {
-        defaultMessage: status.charAt(0).toUpperCase() + status.slice(1).replace('_', ' '),
-      }),
-      color: TODO_STATUS_COLORS[status],
-      droppableId: status,
-      todos: groupedTodos[status],
-      count: groupedTodos[status].length,
-    }));
-  }, [groupedTodos]);
+  const columns = useMemo(
+    (): readonly KanbanColumnData[] =>
+      swimlane === 'none'
+        ? buildColumns(
+            boardTodos,
+            '',
+            (status) => getWipLimit(wipLimits, status),
+            unloaded,
+            loadingMore
+          )
+        : [],
+    [boardTodos, swimlane, wipLimits, unloaded, loadingMore]
+  );
+
+  /**
+   * Split todos into lanes by the swimlane field.
+   * Priority and severity lanes are always shown, so cards can be dropped on empty ones;
+   * other lanes are the values in use, then the TODOs without one.
+   */
+  const lanes = useMemo((): readonly KanbanLaneData[] => {
+    if (swimlane === 'none') {
+      return [];
+    }
+
+    let values: Array<string | null>;
+    if (swimlane === 'priority') {
+      values = [...TODO_PRIORITY_VALUES].reverse();
+    } else if (swimlane === 'severity') {
+      values = [...TODO_SEVERITY_VALUES].reverse();
+    } else {
+      const inUse = new Set<string>();
+      boardTodos.forEach((todo) =>
+        laneValuesOf(todo, swimlane).forEach((value) => inUse.add(value))
+      );
+      values = Array.from(inUse).sort((a, b) => a.localeCompare(b));
+      if (boardTodos.some((todo) => laneValuesOf(todo, swimlane).length === 0)) {
+        values.push(null);
+      }
+    }
+
+    return values.map((value, index) => {
+      const laneTodos = boardTodos.filter((todo) => {
+        const todoValues = laneValuesOf(todo, swimlane);
+        return value === null ? todoValues.length === 0 : todoValues.includes(value);
+      });
+      // Only assignee lanes have limits, and not the lane of unassigned TODOs
+      const limitOf =
+        swimlane === 'assignee' && value !== null
+          ? (status: TodoStatus) => getWipLimit(wipLimits, status, value)
+          : noLimit;
+      return {
+        value,
+        title: laneTitle(swimlane, value),
+        count: laneTodos.length,
+        isCollapsed: collapsedLanes.includes(value ?? ''),
+        columns: buildColumns(laneTodos, `lane-${index}:`, limitOf),
+      };
+    });
+  }, [boardTodos, swimlane, collapsedLanes, wipLimits]);
+
+  /**
+   * Look up droppable IDs, to tell the status and lane a card was dragged from and to
+   */
+  const droppables = useMemo(() => {
+    const locations: Record<string, DroppableLocation> = {};
+    columns.forEach((column) => {
+      locations[column.droppableId] = {
+        status: column.status,
+        lane: null,
+        draggableIdPrefix: column.draggableIdPrefix,
+        todos: column.todos,
+      };
+    });
+    lanes.forEach((lane) =>
+      lane.columns.forEach((column) => {
+        locations[column.droppableId] = {
+          status: column.status,
+          lane: lane.value,
+          draggableIdPrefix: column.draggableIdPrefix,
+          todos: column.todos,
+        };
+      })
+    );
+    return locations;
+  }, [columns, lanes]);
+
+  /**
+   * Switch the swimlane field; lanes start expanded
+   */
+  const setSwimlane = useCallback((next: KanbanSwimlane) => {
+    setSwimlaneState(next);
+    setCollapsedLanes([]);
+  }, []);
+
+  const toggleLane = useCallback((value: string | null) => {
+    const key = value ?? '';
+    setCollapsedLanes((prev) =>
+      prev.includes(key) ? prev.filter((lane) => lane !== key) : [...prev, key]
+    );
+  }, []);
 
   /**
    * Handle drag start event
@@ -161,9 +614,63 @@ export const useKanbanBoard = ({
     // Optional: Add visual feedback during drag
   }, []);
 
+  /**
+   * Moves a card optimistically and snaps it back if the server rejects
+   * the change (e.g. a status transition not allowed by the workflow).
+   * The unranked cards it is dropped below are ranked first.
+   */
+  const moveCard = useCallback(
+    async (todoId: string, changes: KanbanCardChanges, neighborRanks: Record<string, string>) => {
+      const { rank, statusReason: _statusReason, ...fields } = changes;
+      const optimistic: Partial<Todo> = {
+        ...fields,
+        ...(rank !== undefined && { rank: rank ?? undefined }),
+      };
+      const rankedIds = Object.keys(neighborRanks);
+      setPendingMoves((prev) => {
+        const next = { ...prev, [todoId]: { ...prev[todoId], ...optimistic } };
+        rankedIds.forEach((id) => {
+          next[id] = { ...next[id], rank: neighborRanks[id] };
+        });
+        return next;
+      });
+
+      let ranked = rankedIds.length === 0;
+      let updated: Todo | null = null;
+      try {
+        ranked = ranked || (rankTodos !== undefined && (await rankTodos(neighborRanks)));
+        // Call API to update the card
+        // Note: updateTodo hook already handles:
+        // - Loading state
+        // - Success toast notification
+        // - Error toast explaining why the change was rejected
+        // - Refresh callback (refetches todos, stats, analytics)
+        updated = ranked ? await updateTodo(todoId, changes) : null;
+      } catch (err) {
+        console.error('[Kanban] Failed to update todo status:', err);
+      }
+
+      if (!updated) {
+        // Snap the card back to its original column, and the cards above it if they kept no rank
+        setPendingMoves((prev) => {
+          const { [todoId]: _rejected, ...rest } = prev;
+          if (!ranked) {
+            rankedIds.forEach((id) => delete rest[id]);
+          }
+          return rest;
+        });
+      } else if (rank && rank.length >= TODO_RANK_REBALANCE_LENGTH) {
+        onRanksDense?.();
+      }
+    },
+    [updateTodo, rankTodos, onRanksDense]
+  );
+
   /**
    * Handle drag end event from EuiDragDropContext
-   * Validates drop target and updates todo status
+   * The card gets a rank between its new neighbors, so its position is kept;
+   * dropping in another lane also changes the swimlane field.
+   * A card dropped in a column whose status requires a reason waits for one.
    */
   const handleDragEnd = useCallback(
     async (result: DropResult) => {
@@ -174,29 +681,80 @@ export const useKanbanBoard = ({
         return;
       }
 
-      const sourceStatus = result.source.droppableId as TodoStatus;
-      const destStatus = result.destination.droppableId as TodoStatus;
+      const source = droppables[result.source.droppableId];
+      const destination = droppables[result.destination.droppableId];
+      if (!source || !destination) {
+        return;
+      }
 
-      // Dropped in same column, no status change
-      if (sourceStatus === destStatus) {
+      // Dropped where it was picked up, no change
+      if (
+        result.source.droppableId === result.destination.droppableId &&
+        result.source.index === result.destination.index
+      ) {
         return;
       }
 
-      const todoId = result.draggableId;
+      const statusChanged = source.status !== destination.status;
+      const laneChanged = source.lane !== destination.lane;
 
-      try {
-        // Call API to update status
-        // Note: updateTodo hook already handles:
-        // - Loading state
-        // - Success toast notification
-        // - Refresh callback (refetches todos, stats, analytics)
-        await updateTodo(todoId, { status: destStatus });
-      } catch (err) {
-        // Error already handled by updateTodo hook (shows error toast)
-        console.error('Failed to update todo status:', err);
+      const todoId = result.draggableId.slice(source.draggableIdPrefix.length);
+      const todo = boardTodos.find((item) => item.id === todoId);
+      if (!todo) {
+        return;
       }
+
+      const { rank, neighborRanks } = rankAt(
+        destination.todos.filter((item) => item.id !== todoId),
+        result.destination.index
+      );
+      const changes: KanbanCardChanges = {
+        ...(statusChanged && { status: destination.status }),
+        ...(laneChanged && laneChanges(todo, swimlane, source.lane, destination.lane)),
+        rank,
+      };
+
+      if (
+        statusChanged &&
+        statusTransitions.enabled &&
+        statusTransitions.requireReason.includes(destination.status)
+      ) {
+        setReason('');
+        setReasonDrop({ todo, changes, neighborRanks });
+        return;
+      }
+
+      await moveCard(todoId, changes, neighborRanks);
     },
-    [updateTodo]
+    [droppables, boardTodos, swimlane, statusTransitions, moveCard]
+  );
+
+  const confirmReason = useCallback(async () => {
+    if (!reasonDrop || !reason.trim()) {
+      return;
+    }
+    setReasonDrop(null);
+    await moveCard(
+      reasonDrop.todo.id,
+      { ...reasonDrop.changes, statusReason: reason.trim() },
+      reasonDrop.neighborRanks
+    );
+  }, [reasonDrop, reason, moveCard]);
+
+  const cancelReason = useCallback(() => {
+    setReasonDrop(null);
+  }, []);
+
+  const reasonPrompt = useMemo(
+    (): KanbanReasonPrompt | null =>
+      reasonDrop && reasonDrop.changes.status
+        ? {
+            todoTitle: reasonDrop.todo.title,
+            statusTitle: statusTitle(reasonDrop.changes.status),
+            reason,
+          }
+        : null,
+    [reasonDrop, reason]
   );
 
   /**
@@ -221,25 +779,73 @@ export const useKanbanBoard = ({
     [onDelete]
   );
 
+  /**
+   * Handle click on a linked TODO
+   * Delegates to parent-provided callback when one is given
+   */
+  const handleOpenTodo = useCallback(
+    (todoId: string) => {
+      onOpenTodo?.(todoId);
+    },
+    [onOpenTodo]
+  );
+
+  const handleLoadMore = useCallback(
+    (status?: TodoStatus) => {
+      const statuses = status ? [status] : TODO_STATUS_VALUES;
+      statuses
+        .filter((item) => (unloaded[item] ?? 0) > 0)
+        .forEach((item) => onLoadMore?.(item));
+    },
+    [unloaded, onLoadMore]
+  );
+
+  /**
+   * Look up parent titles for subtask cards
+   * Parents outside the current result set are left out
+   */
+  const parentTitles = useMemo(
+    () =>
+      todos.reduce<Record<string, string>>((titles, todo) => {
+        titles[todo.id] = todo.title;
+        return titles;
+      }, {}),
+    [todos]
+  );
+
   // Calculate UI state flags
   const isEmpty = useMemo(() => todos.length === 0, [todos.length]);
   const hasError = useMemo(() => error !== null, [error]);
+  const isLoadingMore = (loadingMore?.length ?? 0) > 0;
 
   return {
     data: {
       columns,
+      lanes,
+      parentTitles,
+      unloadedCount,
+      reasonPrompt,
     },
     uiState: {
+      swimlane,
       isDragging,
       hasError,
       isEmpty,
+      isLoadingMore,
     },
     actions: {
+      setSwimlane,
+      toggleLane,
       handleDragStart,
       handleDragUpdate,
       handleDragEnd,
       handleEdit,
       handleDelete,
+      handleOpenTodo,
+      handleLoadMore,
+      setReason,
+      confirmReason,
+      cancelReason,
     },
   };
 };
@@ -0,0 +1,141 @@
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import { i18n } from '@osd/i18n';
+import { TodosClient } from '../api/todos.client';
+import { GetTodoBoardQueryParams, TodoBoardColumn } from '../../../../common/todo/todo.dtos';
+import { Todo, TodoStatus } from '../../../../common/todo/todo.types';
+import { DEFAULT_BOARD_COLUMN_SIZE, MAX_PAGE_SIZE } from '../../../../common/constants';
+import { NotificationsStart } from '../../../../../src/core/public';
+
+interface UseTodoBoardOptions {
+  client: TodosClient;
+  notifications: NotificationsStart;
+  /** Board filters; changing them reloads every column from the top */
+  params: GetTodoBoardQueryParams;
+  autoFetch?: boolean;
+}
+
+interface UseTodoBoardReturn {
+  /** Loaded TODOs of every column, column by column */
+  todos: Todo[];
+  /** Number of TODOs of each status matching the filters, loaded or not */
+  totals: Partial<Record<TodoStatus, number>>;
+  loading: boolean;
+  /** Statuses whose next TODOs are being loaded */
+  loadingMore: TodoStatus[];
+  error: Error | null;
+  refresh: () => Promise<void>;
+  /** Loads the next TODOs of a column, below the ones already loaded */
+  loadMore: (status: TodoStatus) => Promise<void>;
+}
+
+export const useTodoBoard = ({
+  client,
+  notifications,
+  params,
+  autoFetch = true,
+}: UseTodoBoardOptions): UseTodoBoardReturn => {
+  const [columns, setColumns] = useState<TodoBoardColumn[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [loadingMore, setLoadingMore] = useState<TodoStatus[]>([]);
+  const [error, setError] = useState<Error | null>(null);
+  // Most TODOs loaded in one column; a refresh reloads as many, up to a full page
+  const loadedSizeRef = useRef(DEFAULT_BOARD_COLUMN_SIZE);
+
+  // New filters start every column from the top again
+  useEffect(() => {
+    loadedSizeRef.current = DEFAULT_BOARD_COLUMN_SIZE;
+  }, [params]);
+
+  const fetchBoard = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await client.getBoard({
+        ...params,
+        columnSize: Math.min(MAX_PAGE_SIZE, loadedSizeRef.current),
+      });
+      setColumns(response.columns);
+    } catch (err) {
+      setError(err instanceof Error ? err : new Error('Failed to fetch the board'));
+      setColumns([]);
+    } finally {
+      setLoading(false);
+    }
+  }, [client, params]);
+
+  useEffect(() => {
+    if (autoFetch) {
+      fetchBoard();
+    }
+  }, [fetchBoard, autoFetch]);
+
+  const loadMore = useCallback(
+    async (status: TodoStatus) => {
+      const column = columns.find((item) => item.status === status);
+      if (!column || column.todos.length >= column.total || loadingMore.includes(status)) {
+        return;
+      }
+      setLoadingMore((prev) => [...prev, status]);
+      try {
+        const response = await client.getBoard({
+          ...params,
+          status,
+          offset: column.todos.length,
+        });
+        const [more] = response.columns;
+        if (more) {
+          loadedSizeRef.current = Math.max(
+            loadedSizeRef.current,
+            column.todos.length + more.todos.length
+          );
+          setColumns((prev) =>
+            prev.map((item) => {
+              if (item.status !== status) {
+                return item;
+              }
+              // Skip TODOs that moved up into the loaded part since it was loaded
+              const loadedIds = new Set(item.todos.map((todo) => todo.id));
+              const added = more.todos.filter((todo) => !loadedIds.has(todo.id));
+              return { ...item, todos: [...item.todos, ...added], total: more.total };
+            })
+          );
+        }
+      } catch (err) {
+        notifications.toasts.addError(
+          err instanceof Error ? err : new Error('Failed to load more TODOs'),
+          {
+            title: i18n.translate('customPlugin.kanban.loadMore.error', {
+              defaultMessage: 'Failed to Load More TODOs',
+            }),
+          }
+        );
+      } finally {
+        setLoadingMore((prev) => prev.filter((item) => item !== status));
+      }
+    },
+    [client, notifications, params, columns, loadingMore]
+  );
+
+  const todos = useMemo(
+    () => ([] as Todo[]).concat(...columns.map((column) => column.todos)),
+    [columns]
+  );
+
+  const totals = useMemo(() => {
+    const result: Partial<Record<TodoStatus, number>> = {};
+    columns.forEach((column) => {
+      result[column.status] = column.total;
+    });
+    return result;
+  }, [columns]);
+
+  return {
+    todos,
+    totals,
+    loading,
+    loadingMore,
+    error,
+    refresh: fetchBoard,
+    loadMore,
+  };
+};
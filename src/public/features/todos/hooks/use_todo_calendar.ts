@@ -0,0 +1,309 @@
+import { useMemo, useCallback, useState, useEffect } from 'react';
+import moment from 'moment';
+import { Todo, TODO_PRIORITY_COLORS } from '../../../../common/todo/todo.types';
+import { isOverdue } from '../../../utils/date-formatters';
+import { DropResult } from './use_kanban_board';
+
+/**
+ * Span of time shown by the calendar at once
+ */
+export type CalendarMode = 'month' | 'week';
+
+/**
+ * Visible date window of the calendar, as ISO 8601 strings (both inclusive)
+ */
+export interface CalendarRange {
+  readonly start: string;
+  readonly end: string;
+}
+
+/**
+ * A TODO placed on a calendar day, with its pre-computed display attributes
+ */
+export interface CalendarEntryData {
+  readonly todo: Todo;
+  /** EUI badge color of the TODO's priority */
+  readonly color: string;
+  /** Whether the TODO is still open and past its due date */
+  readonly isOverdue: boolean;
+}
+
+/**
+ * Represents a single day cell of the calendar grid
+ */
+export interface CalendarDayData {
+  /** Local date in `YYYY-MM-DD` form, also used as the droppable ID */
+  readonly key: string;
+  /** Day of the month shown in the cell header */
+  readonly dayOfMonth: number;
+  readonly isToday: boolean;
+  /** Whether the day belongs to the previous or next month (month mode only) */
+  readonly isOutsideMonth: boolean;
+  /** TODOs due on this day, by due time */
+  readonly entries: readonly CalendarEntryData[];
+}
+
+/**
+ * Parameters for useTodoCalendar hook
+ */
+export interface UseTodoCalendarOptions {
+  /** TODOs due in the visible window */
+  readonly todos: readonly Todo[];
+  /** Error state from parent */
+  readonly error: Error | null;
+  /** Function to update a todo's due date; resolves to null when the update is rejected */
+  readonly updateTodo: (id: string, data: { dueDate: string }) => Promise<Todo | null>;
+  /** Called with the visible window whenever it changes, so the parent can fetch its TODOs */
+  readonly onRangeChange: (range: CalendarRange) => void;
+  /** Callback when a TODO is clicked */
+  readonly onOpen: (todo: Todo) => void;
+  /** Mode shown first; defaults to `month` */
+  readonly initialMode?: CalendarMode;
+  /** Date shown first; defaults to today */
+  readonly initialDate?: Date;
+}
+
+/**
+ * Return type for useTodoCalendar hook
+ */
+export interface UseTodoCalendarReturn {
+  /** Pre-computed data for UI */
+  readonly data: {
+    /** Month or week shown, e.g. "March 2025" */
+    readonly title: string;
+    /** Short weekday names, starting with the locale's first day of the week */
+    readonly weekdays: readonly string[];
+    /** Day cells, one array per week */
+    readonly weeks: ReadonlyArray<readonly CalendarDayData[]>;
+    readonly range: CalendarRange;
+  };
+  /** UI state flags */
+  readonly uiState: {
+    readonly mode: CalendarMode;
+    readonly isDragging: boolean;
+    readonly hasError: boolean;
+  };
+  /** User action handlers */
+  readonly actions: {
+    readonly setMode: (mode: CalendarMode) => void;
+    readonly goToPrevious: () => void;
+    readonly goToNext: () => void;
+    readonly goToToday: () => void;
+    readonly handleDragStart: () => void;
+    readonly handleDragEnd: (result: DropResult) => Promise<void>;
+    readonly handleOpen: (todo: Todo) => void;
+  };
+}
+
+const DAY_KEY_FORMAT = 'YYYY-MM-DD';
+
+/**
+ * Moves a due date to another day, keeping its local time of day
+ */
+const rescheduleDueDate = (dueDate: string, dayKey: string): string => {
+  const current = moment(dueDate);
+  return moment(dayKey, DAY_KEY_FORMAT)
+    .hours(current.hours())
+    .minutes(current.minutes())
+    .seconds(current.seconds())
+    .milliseconds(current.milliseconds())
+    .toISOString();
+};
+
+/**
+ * Custom hook for TODO calendar business logic
+ *
+ * Following PROJECT RULE #11:
+ * - Encapsulates all business logic (date window, day grid, drag-to-reschedule)
+ * - Returns UI-friendly contract: { data, uiState, actions }
+ * - Component remains purely presentational
+ *
+ * @param options - Hook configuration options
+ * @returns Calendar data, state, and actions
+ */
+export const useTodoCalendar = ({
+  todos,
+  error,
+  updateTodo,
+  onRangeChange,
+  onOpen,
+  initialMode = 'month',
+  initialDate,
+}: UseTodoCalendarOptions): UseTodoCalendarReturn => {
+  const [mode, setMode] = useState<CalendarMode>(initialMode);
+  // Any date inside the month or week shown
+  const [anchor, setAnchor] = useState(() => moment(initialDate).startOf('day'));
+  const [isDragging, setIsDragging] = useState(false);
+  // Optimistic due dates for TODOs dropped while their update is in flight
+  const [pendingMoves, setPendingMoves] = useState<Record<string, string>>({});
+
+  // Fresh data from the server supersedes any optimistic moves
+  useEffect(() => {
+    setPendingMoves((prev) => (Object.keys(prev).length === 0 ? prev : {}));
+  }, [todos]);
+
+  /**
+   * Visible window: whole weeks covering the anchor's month or week
+   */
+  const { start, end } = useMemo(() => {
+    const unit = mode === 'month' ? 'month' : 'week';
+    return {
+      start: anchor.clone().startOf(unit).startOf('week'),
+      end: anchor.clone().endOf(unit).endOf('week'),
+    };
+  }, [anchor, mode]);
+
+  const range = useMemo(
+    (): CalendarRange => ({ start: start.toISOString(), end: end.toISOString() }),
+    [start, end]
+  );
+
+  useEffect(() => {
+    onRangeChange(range);
+  }, [range, onRangeChange]);
+
+  /**
+   * Group todos by local due day
+   * Memoized to prevent unnecessary re-computation
+   */
+  const entriesByDay = useMemo(() => {
+    const now = new Date();
+    const groups: Record<string, CalendarEntryData[]> = {};
+    todos
+      .map((todo) => {
+        const dueDate = pendingMoves[todo.id] ?? todo.dueDate;
+        return dueDate ? { ...todo, dueDate } : null;
+      })
+      .filter((todo): todo is Todo & { dueDate: string } => todo !== null)
+      .sort((a, b) => a.dueDate.localeCompare(b.dueDate))
+      .forEach((todo) => {
+        const key = moment(todo.dueDate).format(DAY_KEY_FORMAT);
+        (groups[key] = groups[key] || []).push({
+          todo,
+          color: TODO_PRIORITY_COLORS[todo.priority],
+          isOverdue: todo.status !== 'done' && isOverdue(todo.dueDate, now),
+        });
+      });
+    return groups;
+  }, [todos, pendingMoves]);
+
+  /**
+   * Build the day grid of the visible window
+   */
+  const weeks = useMemo(() => {
+    const today = moment().format(DAY_KEY_FORMAT);
+    const result: CalendarDayData[][] = [];
+    for (const day = start.clone(); day.isBefore(end); day.add(1, 'day')) {
+      if (day.weekday() === 0) {
+        result.push([]);
+      }
+      const key = day.format(DAY_KEY_FORMAT);
+      result[result.length - 1].push({
+        key,
+        dayOfMonth: day.date(),
+        isToday: key === today,
+        isOutsideMonth: mode === 'month' && day.month() !== anchor.month(),
+        entries: entriesByDay[key] || [],
+      });
+    }
+    return result;
+  }, [start, end, anchor, mode, entriesByDay]);
+
+  const title = useMemo(
+    () =>
+      mode === 'month'
+        ? anchor.format('MMMM YYYY')
+        : `${start.format('ll')} – ${end.format('ll')}`,
+    [anchor, mode, start, end]
+  );
+
+  const weekdays = useMemo(() => moment.weekdaysShort(true), []);
+
+  const goToPrevious = useCallback(() => {
+    setAnchor((prev) => prev.clone().subtract(1, mode === 'month' ? 'month' : 'week'));
+  }, [mode]);
+
+  const goToNext = useCallback(() => {
+    setAnchor((prev) => prev.clone().add(1, mode === 'month' ? 'month' : 'week'));
+  }, [mode]);
+
+  const goToToday = useCallback(() => {
+    setAnchor(moment().startOf('day'));
+  }, []);
+
+  const handleDragStart = useCallback(() => {
+    setIsDragging(true);
+  }, []);
+
+  /**
+   * Handle drag end event from EuiDragDropContext
+   * Moves the TODO to the day it was dropped on, keeping its time of day,
+   * and snaps it back if the server rejects the new due date
+   */
+  const handleDragEnd = useCallback(
+    async (result: DropResult) => {
+      setIsDragging(false);
+
+      const destinationDay = result.destination?.droppableId;
+      if (!destinationDay || destinationDay === result.source.droppableId) {
+        return;
+      }
+
+      const todoId = result.draggableId;
+      const todo = todos.find((item) => item.id === todoId);
+      if (!todo || !todo.dueDate) {
+        return;
+      }
+
+      const dueDate = rescheduleDueDate(pendingMoves[todoId] ?? todo.dueDate, destinationDay);
+      setPendingMoves((prev) => ({ ...prev, [todoId]: dueDate }));
+
+      let updated: Todo | null = null;
+      try {
+        // updateTodo shows the success or error toast and refreshes the TODOs
+        updated = await updateTodo(todoId, { dueDate });
+      } catch (err) {
+        console.error('[Calendar] Failed to reschedule todo:', err);
+      }
+
+      if (!updated) {
+        // Snap the TODO back to its original day
+        setPendingMoves((prev) => {
+          const { [todoId]: _rejected, ...rest } = prev;
+          return rest;
+        });
+      }
+    },
+    [todos, pendingMoves, updateTodo]
+  );
+
+  const handleOpen = useCallback(
+    (todo: Todo) => {
+      onOpen(todo);
+    },
+    [onOpen]
+  );
+
+  return {
+    data: {
+      title,
+      weekdays,
+      weeks,
+      range,
+    },
+    uiState: {
+      mode,
+      isDragging,
+      hasError: error !== null,
+    },
+    actions: {
+      setMode,
+      goToPrevious,
+      goToNext,
+      goToToday,
+      handleDragStart,
+      handleDragEnd,
+      handleOpen,
+    },
+  };
+};
@@ -0,0 +1,141 @@
+import { useState, useEffect, useCallback } from 'react';
+import { TodoComment } from '../../../../common/todo/todo.comments';
+import { TodosClient } from '../api/todos.client';
+
+const COMMENTS_PAGE_SIZE = 100;
+
+interface UseTodoCommentsOptions {
+  readonly client: TodosClient;
+  /** ID of the TODO whose comments to load, or null to load nothing */
+  readonly todoId: string | null;
+  /** Called after a comment is added or deleted, so comment counts can be refreshed */
+  readonly onChange?: () => void;
+}
+
+interface UseTodoCommentsReturn {
+  readonly comments: readonly TodoComment[];
+  readonly totalComments: number;
+  readonly loading: boolean;
+  readonly saving: boolean;
+  readonly error: Error | null;
+  /** Adds a comment; resolves to false when it was rejected */
+  readonly addComment: (body: string) => Promise<boolean>;
+  /** Edits a comment; resolves to false when it was rejected */
+  readonly updateComment: (commentId: string, body: string) => Promise<boolean>;
+  /** Deletes a comment; resolves to false when it was rejected */
+  readonly deleteComment: (commentId: string) => Promise<boolean>;
+  readonly refresh: () => void;
+}
+
+export const useTodoComments = (options: UseTodoCommentsOptions): UseTodoCommentsReturn => {
+  const { client, todoId, onChange } = options;
+
+  const [comments, setComments] = useState<readonly TodoComment[]>([]);
+  const [totalComments, setTotalComments] = useState<number>(0);
+  const [loading, setLoading] = useState<boolean>(false);
+  const [saving, setSaving] = useState<boolean>(false);
+  const [error, setError] = useState<Error | null>(null);
+  const [refreshCounter, setRefreshCounter] = useState<number>(0);
+
+  useEffect(() => {
+    if (!todoId) {
+      setComments([]);
+      setTotalComments(0);
+      return;
+    }
+
+    let cancelled = false;
+    const fetchComments = async () => {
+      setLoading(true);
+      setError(null);
+
+      try {
+        const response = await client.listComments(todoId, { pageSize: COMMENTS_PAGE_SIZE });
+        if (!cancelled) {
+          setComments(response.comments);
+          setTotalComments(response.pagination.totalItems);
+        }
+      } catch (err) {
+        if (!cancelled) {
+          const errorMessage = err instanceof Error ? err : new Error('Failed to fetch comments');
+          setError(errorMessage);
+        }
+      } finally {
+        if (!cancelled) {
+          setLoading(false);
+        }
+      }
+    };
+
+    void fetchComments();
+    return () => {
+      cancelled = true;
+    };
+  }, [client, todoId, refreshCounter]);
+
+  const refresh = useCallback(() => {
+    setRefreshCounter((prev) => prev + 1);
+  }, []);
+
+  // Runs a comment mutation, surfacing its error and reloading the thread when it succeeds
+  const mutate = useCallback(
+    async (operation: () => Promise<unknown>, fallbackMessage: string, notify: boolean) => {
+      setSaving(true);
+      setError(null);
+      try {
+        await operation();
+        refresh();
+        if (notify && onChange) {
+          onChange();
+        }
+        return true;
+      } catch (err) {
+        setError(err instanceof Error ? err : new Error(fallbackMessage));
+        return false;
+      } finally {
+        setSaving(false);
+      }
+    },
+    [refresh, onChange]
+  );
+
+  const addComment = useCallback(
+    (body: string) =>
+      todoId
+        ? mutate(() => client.addComment(todoId, { body }), 'Failed to add comment', true)
+        : Promise.resolve(false),
+    [client, todoId, mutate]
+  );
+
+  const updateComment = useCallback(
+    (commentId: string, body: string) =>
+      todoId
+        ? mutate(
+            () => client.updateComment(todoId, commentId, { body }),
+            'Failed to edit comment',
+            false
+          )
+        : Promise.resolve(false),
+    [client, todoId, mutate]
+  );
+
+  const deleteComment = useCallback(
+    (commentId: string) =>
+      todoId
+        ? mutate(() => client.deleteComment(todoId, commentId), 'Failed to delete comment', true)
+        : Promise.resolve(false),
+    [client, todoId, mutate]
+  );
+
+  return {
+    comments,
+    totalComments,
+    loading,
+    saving,
+    error,
+    addComment,
+    updateComment,
+    deleteComment,
+    refresh,
+  };
+};
@@ -0,0 +1,48 @@
+import { useState, useEffect } from 'react';
+import { TodoCustomFieldDefinition } from '../../../../common/todo/todo.custom_fields';
+import { TodosClient } from '../api/todos.client';
+
+interface UseTodoCustomFieldsOptions {
+  readonly client: TodosClient;
+}
+
+interface UseTodoCustomFieldsReturn {
+  readonly fields: readonly TodoCustomFieldDefinition[];
+  readonly loading: boolean;
+  readonly error: Error | null;
+}
+
+export const useTodoCustomFields = (
+  options: UseTodoCustomFieldsOptions
+): UseTodoCustomFieldsReturn => {
+  const { client } = options;
+
+  const [fields, setFields] = useState<readonly TodoCustomFieldDefinition[]>([]);
+  const [loading, setLoading] = useState<boolean>(true);
+  const [error, setError] = useState<Error | null>(null);
+
+  useEffect(() => {
+    const fetchCustomFields = async () => {
+      setLoading(true);
+      setError(null);
+
+      try {
+        const response = await client.listCustomFields();
+        setFields(response.fields);
+      } catch (err) {
+        const errorMessage = err instanceof Error ? err : new Error('Failed to fetch custom fields');
+        setError(errorMessage);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    void fetchCustomFields();
+  }, [client]);
+
+  return {
+    fields,
+    loading,
+    error,
+  };
+};
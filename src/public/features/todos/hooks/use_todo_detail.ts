@@ -0,0 +1,258 @@
+import { useMemo, useState, useCallback } from 'react';
+import { i18n } from '@osd/i18n';
+import { Todo } from '../../../../common/todo/todo.types';
+import { diffTodos, TodoDiffableField } from '../../../../common/todo/todo.diff';
+import { TodoHistoryAction } from '../../../../common/todo/todo.history';
+import { TodosClient } from '../api/todos.client';
+import { getTodoFieldLabel, formatTodoFieldValue } from '../../../utils/todo-field-formatters';
+import { formatRelativeTime, formatDate } from '../../../utils/date-formatters';
+import { useTodoHistory } from './use_todo_history';
+import { useTodoComments } from './use_todo_comments';
+
+interface UseTodoDetailParams {
+  client: TodosClient;
+  todo: Todo;
+  /** Called after a comment is added or deleted */
+  onCommentsChange?: () => void;
+}
+
+/**
+ * A single field change, formatted for display
+ */
+export interface TodoHistoryItemChange {
+  readonly field: TodoDiffableField;
+  readonly label: string;
+  readonly oldValue: string;
+  readonly newValue: string;
+}
+
+/**
+ * A history entry, formatted for display in the timeline
+ */
+export interface TodoHistoryItem {
+  readonly id: string;
+  readonly action: TodoHistoryAction;
+  readonly actionLabel: string;
+  readonly actor: string;
+  readonly timestamp: string;
+  readonly relativeTime: string;
+  readonly changes: readonly TodoHistoryItemChange[];
+}
+
+/**
+ * A comment, formatted for display in the comments panel
+ */
+export interface TodoCommentItem {
+  readonly id: string;
+  readonly author: string;
+  /** Comment text (Markdown) */
+  readonly body: string;
+  readonly timestamp: string;
+  readonly relativeTime: string;
+  /** Relative time of the last edit, or null if the comment was never edited */
+  readonly editedRelativeTime: string | null;
+}
+
+/**
+ * A labelled TODO property shown in the detail flyout
+ */
+export interface TodoDetailItem {
+  readonly title: string;
+  readonly description: string;
+}
+
+const DETAIL_FIELDS: readonly TodoDiffableField[] = [
+  'assignee',
+  'startDate',
+  'dueDate',
+  'recurrence',
+  'tags',
+  'complianceFrameworks',
+  'statusReason',
+];
+
+const getActionLabel = (action: TodoHistoryAction): string => {
+  switch (action) {
+    case 'create':
+      return i18n.translate('customPlugin.detail.history.action.create', {
+        defaultMessage: 'created the task',
+      });
+    case 'update':
+      return i18n.translate('customPlugin.detail.history.action.update', {
+        defaultMessage: 'updated the task',
+      });
+    case 'delete':
+      return i18n.translate('customPlugin.detail.history.action.delete', {
+        defaultMessage: 'deleted the task',
+      });
+  }
+};
+
+/**
+ * Custom hook for the TODO detail flyout.
+ *
+ * Following PROJECT RULE #11:
+ * - Loads the change history of the TODO and formats it for display
+ * - Loads the comment thread and manages the new/edited comment drafts
+ * - Keeps TodoDetailFlyout purely presentational
+ */
+export const useTodoDetail = ({ client, todo, onCommentsChange }: UseTodoDetailParams) => {
+  const { entries, totalEntries, loading, error, refresh } = useTodoHistory({
+    client,
+    todoId: todo.id,
+    refreshKey: todo.updatedAt,
+  });
+  const comments = useTodoComments({ client, todoId: todo.id, onChange: onCommentsChange });
+
+  const [commentDraft, setCommentDraft] = useState('');
+  const [editingCommentId, setEditingCommentId] = useState<string | null>(null);
+  const [editDraft, setEditDraft] = useState('');
+
+  const detailItems = useMemo((): TodoDetailItem[] => {
+    // Diffing against nothing yields every set field with its normalized value
+    const values = new Map(diffTodos(null, todo).map((change) => [change.field, change.newValue]));
+    const items: TodoDetailItem[] = DETAIL_FIELDS.map((field) => ({
+      title: getTodoFieldLabel(field),
+      description: formatTodoFieldValue(field, values.get(field) ?? null),
+    }));
+    items.push(
+      {
+        title: i18n.translate('customPlugin.table.column.created', { defaultMessage: 'Created' }),
+        description: formatDate(todo.createdAt),
+      },
+      {
+        title: i18n.translate('customPlugin.table.column.updated', { defaultMessage: 'Updated' }),
+        description: formatDate(todo.updatedAt),
+      }
+    );
+    if (todo.completedAt) {
+      items.push({
+        title: i18n.translate('customPlugin.table.column.completed', {
+          defaultMessage: 'Completed',
+        }),
+        description: formatDate(todo.completedAt),
+      });
+    }
+    if (todo.finding) {
+      const { tool, ruleId, location, lastSeenAt } = todo.finding;
+      items.push(
+        {
+          title: i18n.translate('customPlugin.detail.finding', { defaultMessage: 'Finding' }),
+          description: [tool, ruleId, location].filter(Boolean).join(' · '),
+        },
+        {
+          title: i18n.translate('customPlugin.detail.findingLastSeen', {
+            defaultMessage: 'Last reported',
+          }),
+          description: formatDate(lastSeenAt),
+        }
+      );
+    }
+    return items;
+  }, [todo]);
+
+  const historyItems = useMemo(
+    (): TodoHistoryItem[] =>
+      entries.map((entry) => ({
+        id: entry.id,
+        action: entry.action,
+        actionLabel: getActionLabel(entry.action),
+        actor: entry.actor,
+        timestamp: entry.timestamp,
+        relativeTime: formatRelativeTime(entry.timestamp),
+        changes: entry.changes.map((change) => ({
+          field: change.field,
+          label: getTodoFieldLabel(change.field),
+          oldValue: formatTodoFieldValue(change.field, change.oldValue),
+          newValue: formatTodoFieldValue(change.field, change.newValue),
+        })),
+      })),
+    [entries]
+  );
+
+  const commentItems = useMemo(
+    (): TodoCommentItem[] =>
+      comments.comments.map((comment) => ({
+        id: comment.id,
+        author: comment.author,
+        body: comment.body,
+        timestamp: comment.createdAt,
+        relativeTime: formatRelativeTime(comment.createdAt),
+        editedRelativeTime: comment.updatedAt ? formatRelativeTime(comment.updatedAt) : null,
+      })),
+    [comments.comments]
+  );
+
+  const { addComment, updateComment, deleteComment } = comments;
+
+  const submitComment = useCallback(async () => {
+    if (!commentDraft.trim()) {
+      return;
+    }
+    if (await addComment(commentDraft)) {
+      setCommentDraft('');
+    }
+  }, [commentDraft, addComment]);
+
+  const startEditComment = useCallback(
+    (commentId: string) => {
+      const comment = comments.comments.find((candidate) => candidate.id === commentId);
+      setEditingCommentId(commentId);
+      setEditDraft(comment?.body ?? '');
+    },
+    [comments.comments]
+  );
+
+  const cancelEditComment = useCallback(() => {
+    setEditingCommentId(null);
+    setEditDraft('');
+  }, []);
+
+  const saveEditComment = useCallback(async () => {
+    if (!editingCommentId || !editDraft.trim()) {
+      return;
+    }
+    if (await updateComment(editingCommentId, editDraft)) {
+      setEditingCommentId(null);
+      setEditDraft('');
+    }
+  }, [editingCommentId, editDraft, updateComment]);
+
+  const handleDeleteComment = useCallback(
+    async (commentId: string) => {
+      await deleteComment(commentId);
+    },
+    [deleteComment]
+  );
+
+  return {
+    data: {
+      detailItems,
+      historyItems,
+      totalEntries,
+      commentItems,
+      totalComments: comments.totalComments,
+    },
+    uiState: {
+      historyLoading: loading,
+      historyError: error,
+      commentsLoading: comments.loading,
+      commentsSaving: comments.saving,
+      commentsError: comments.error,
+      commentDraft,
+      editingCommentId,
+      editDraft,
+    },
+    actions: {
+      refreshHistory: refresh,
+      refreshComments: comments.refresh,
+      setCommentDraft,
+      submitComment,
+      startEditComment,
+      cancelEditComment,
+      setEditDraft,
+      saveEditComment,
+      deleteComment: handleDeleteComment,
+    },
+  };
+};
@@ -1,4 +1,4 @@
-import { useState, useCallback, useMemo } from 'react';
+import { useState, useCallback, useMemo, useEffect } from 'react';
 import { EuiSelectableOption } from '@elastic/eui';
 import {
   TodoStatus,
@@ -11,8 +11,55 @@ import {
   TODO_SEVERITY_VALUES,
   TODO_SEVERITY_LABELS,
 } from '../../../../common/todo/todo.types';
+import {
+  TodoSavedViewFilters,
+  TODO_SAVED_VIEW_DATE_FILTERS,
+} from '../../../../common/todo/todo.saved_views';
+import {
+  TodoQueryCompletion,
+  parseTodoQuery,
+  getTodoQueryCompletions,
+} from '../../../../common/todo/todo.query';
 import { DateRangeFilters } from '../ui/TodoFilters';
 
+/**
+ * Filters reported by the filter bar whenever one of them changes
+ */
+export interface TodoFiltersChange {
+  searchText?: string;
+  status?: TodoStatus[];
+  tags?: string[];
+  priority?: TodoPriority[];
+  severity?: TodoSeverity[];
+  isOverdue?: boolean;
+  dateFilters?: DateRangeFilters;
+}
+
+/**
+ * Converts the filters of a saved view to a filter bar change, so applying the
+ * view replaces every filter, including the ones the view leaves empty.
+ *
+ * @param filters - Filters stored in the saved view
+ * @returns Filter change to pass to onFiltersChange
+ */
+export const savedViewToFiltersChange = (filters: TodoSavedViewFilters): TodoFiltersChange => {
+  const dateFilters: DateRangeFilters = {};
+  TODO_SAVED_VIEW_DATE_FILTERS.forEach((field) => {
+    if (filters[field]) {
+      dateFilters[field] = filters[field];
+    }
+  });
+  return {
+    searchText: filters.searchText || '',
+    status: [...(filters.status || [])],
+    tags: [...(filters.tags || [])],
+    priority: [...(filters.priority || [])],
+    severity: [...(filters.severity || [])],
+    isOverdue: filters.isOverdue === true,
+    dateFilters,
+  };
+};
+
 interface UseTodoFiltersParams {
   searchText?: string;
   selectedStatuses?: TodoStatus[];
@@ -21,15 +68,17 @@ interface UseTodoFiltersParams {
   selectedSeverities?: TodoSeverity[];
   showOverdueOnly?: boolean;
   dateFilters?: DateRangeFilters;
-  onFiltersChange: (filters: {
-    searchText?: string;
-    status?: TodoStatus[];
-    tags?: string[];
-    priority?: TodoPriority[];
-    severity?: TodoSeverity[];
-    isOverdue?: boolean;
-    dateFilters?: DateRangeFilters;
-  }) => void;
+  onFiltersChange: (filters: TodoFiltersChange) => void;
+}
+
+/**
+ * Syntax error of the search query, with the query split around the offending part
+ */
+export interface TodoSearchQueryError {
+  message: string;
+  before: string;
+  text: string;
+  after: string;
 }
 
 export const useTodoFilters = ({
@@ -46,12 +95,46 @@ export const useTodoFilters = ({
   const [isStatusPopoverOpen, setIsStatusPopoverOpen] = useState(false);
   const [isPriorityPopoverOpen, setIsPriorityPopoverOpen] = useState(false);
   const [isSeverityPopoverOpen, setIsSeverityPopoverOpen] = useState(false);
+  const [isSuggestionsOpen, setIsSuggestionsOpen] = useState(false);
 
   // Local states for controlled inputs
   const [localSearchText, setLocalSearchText] = useState(searchText);
   const [localTags, setLocalTags] = useState(selectedTags.join(', '));
   const [localShowOverdueOnly, setLocalShowOverdueOnly] = useState(showOverdueOnly);
 
+  // Filters can also change from outside the bar, e.g. when a saved view is applied
+  const tagsText = selectedTags.join(', ');
+  useEffect(() => {
+    setLocalSearchText(searchText);
+  }, [searchText]);
+  useEffect(() => {
+    setLocalTags(tagsText);
+  }, [tagsText]);
+  useEffect(() => {
+    setLocalShowOverdueOnly(showOverdueOnly);
+  }, [showOverdueOnly]);
+
+  // The search text is a query such as `priority:critical -assignee:bob firewall`
+  const queryError: TodoSearchQueryError | null = useMemo(() => {
+    const [error] = parseTodoQuery(localSearchText).errors;
+    if (!error) {
+      return null;
+    }
+    return {
+      message: error.message,
+      before: localSearchText.slice(0, error.start),
+      text: localSearchText.slice(error.start, error.end),
+      after: localSearchText.slice(error.end),
+    };
+  }, [localSearchText]);
+
+  const querySuggestions = useMemo(() => getTodoQueryCompletions(localSearchText), [
+    localSearchText,
+  ]);
+
+  // While the query has an error, the other filters keep the last valid query
+  const validSearchText = queryError ? searchText : localSearchText;
+
   // Build selectable options
   const statusOptions: EuiSelectableOption[] = useMemo(
     () =>
@@ -87,6 +170,10 @@ export const useTodoFilters = ({
   const handleSearchChange = useCallback(
     (value: string) => {
       setLocalSearchText(value);
+      setIsSuggestionsOpen(true);
+      if (parseTodoQuery(value).errors.length > 0) {
+        return;
+      }
       onFiltersChange({
         searchText: value,
         status: selectedStatuses,
@@ -114,7 +201,7 @@ export const useTodoFilters = ({
         .filter((option) => option.checked === 'on')
         .map((option) => option.key as TodoStatus);
       onFiltersChange({
-        searchText: localSearchText,
+        searchText: validSearchText,
         status: newStatuses,
         tags: selectedTags,
         priority: selectedPriorities,
@@ -125,7 +212,7 @@ export const useTodoFilters = ({
     },
     [
       onFiltersChange,
-      localSearchText,
+      validSearchText,
       selectedTags,
       selectedPriorities,
       selectedSeverities,
@@ -140,7 +227,7 @@ export const useTodoFilters = ({
         .filter((option) => option.checked === 'on')
         .map((option) => option.key as TodoPriority);
       onFiltersChange({
-        searchText: localSearchText,
+        searchText: validSearchText,
         status: selectedStatuses,
         tags: selectedTags,
         priority: newPriorities,
@@ -151,7 +238,7 @@ export const useTodoFilters = ({
     },
     [
       onFiltersChange,
-      localSearchText,
+      validSearchText,
       selectedStatuses,
       selectedTags,
       selectedSeverities,
@@ -166,7 +253,7 @@ export const useTodoFilters = ({
         .filter((option) => option.checked === 'on')
         .map((option) => option.key as TodoSeverity);
       onFiltersChange({
-        searchText: localSearchText,
+        searchText: validSearchText,
         status: selectedStatuses,
         tags: selectedTags,
         priority: selectedPriorities,
@@ -177,7 +264,7 @@ export const useTodoFilters = ({
     },
     [
       onFiltersChange,
-      localSearchText,
+      validSearchText,
       selectedStatuses,
       selectedTags,
       selectedPriorities,
@@ -192,7 +279,7 @@ export const useTodoFilters = ({
       .map((tag) => tag.trim())
       .filter((tag) => tag.length > 0);
     onFiltersChange({
-      searchText: localSearchText,
+      searchText: validSearchText,
       status: selectedStatuses,
       tags,
       priority: selectedPriorities,
@@ -203,7 +290,7 @@ export const useTodoFilters = ({
   }, [
     localTags,
     onFiltersChange,
-    localSearchText,
+    validSearchText,
     selectedStatuses,
     selectedPriorities,
     selectedSeverities,
@@ -216,7 +303,7 @@ export const useTodoFilters = ({
       const checked = e.target.checked;
       setLocalShowOverdueOnly(checked);
       onFiltersChange({
-        searchText: localSearchText,
+        searchText: validSearchText,
         status: selectedStatuses,
         tags: selectedTags,
         priority: selectedPriorities,
@@ -227,7 +314,7 @@ export const useTodoFilters = ({
     },
     [
       onFiltersChange,
-      localSearchText,
+      validSearchText,
       selectedStatuses,
       selectedTags,
       selectedPriorities,
@@ -236,6 +323,17 @@ export const useTodoFilters = ({
     ]
   );
 
+  const applyQuerySuggestion = useCallback(
+    (completion: TodoQueryCompletion) => {
+      handleSearchChange(completion.query);
+    },
+    [handleSearchChange]
+  );
+
+  const closeSuggestions = useCallback(() => {
+    setIsSuggestionsOpen(false);
+  }, []);
+
   const handleClearAll = useCallback(() => {
     setLocalSearchText('');
     setLocalTags('');
@@ -270,11 +368,14 @@ export const useTodoFilters = ({
       localTags,
       localShowOverdueOnly,
       activeFiltersCount,
+      queryError,
+      querySuggestions,
     },
     uiState: {
       isStatusPopoverOpen,
       isPriorityPopoverOpen,
       isSeverityPopoverOpen,
+      isSuggestionsOpen,
     },
     actions: {
       setIsStatusPopoverOpen,
@@ -282,6 +383,8 @@ export const useTodoFilters = ({
       setIsSeverityPopoverOpen,
       setLocalTags,
       handleSearchChange,
+      applyQuerySuggestion,
+      closeSuggestions,
       handleStatusChange,
       handlePriorityChange,
       handleSeverityChange,
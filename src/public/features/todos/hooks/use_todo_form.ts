@@ -14,28 +14,147 @@ import {
   TODO_SEVERITY_LABELS,
   MAX_COMPLIANCE_FRAMEWORKS,
   MAX_COMPLIANCE_FRAMEWORK_LENGTH,
+  MAX_STATUS_REASON_LENGTH,
 } from '../../../../common/todo/todo.types';
 import { CreateTodoRequest, UpdateTodoRequest } from '../../../../common/todo/todo.dtos';
+import { diffTodos, TodoDiffableField } from '../../../../common/todo/todo.diff';
+import {
+  TodoRecurrenceFrequency,
+  TODO_RECURRENCE_FREQUENCY_VALUES,
+  MAX_TODO_RECURRENCE_INTERVAL,
+  parseRecurrenceRule,
+  formatRecurrenceRule,
+} from '../../../../common/todo/todo.recurrence';
+import {
+  TodoCustomFieldDefinition,
+  TodoCustomFieldValue,
+  MAX_CUSTOM_FIELD_TEXT_LENGTH,
+} from '../../../../common/todo/todo.custom_fields';
+import { getTodoFieldLabel, formatTodoFieldValue } from '../../../utils/todo-field-formatters';
 import { TodosClient } from '../api/todos.client';
 import { useTodoSuggestions } from './use_todo_suggestions';
+import { useTodoParentOptions } from './use_todo_parent_options';
 
 interface FormErrors {
   title?: string;
   description?: string;
   tags?: string;
+  startDate?: string;
   dueDate?: string;
   complianceFrameworks?: string;
+  statusReason?: string;
+  recurrenceInterval?: string;
+  /** Errors of custom fields, keyed by field key */
+  custom?: Record<string, string>;
 }
 
+/**
+ * Form value of a custom field: a boolean for `boolean` fields, a string otherwise
+ */
+type CustomFieldFormValue = string | boolean;
+
 interface UseTodoFormParams {
   todo?: Todo | null;
+  /** Latest server copy when the last update was rejected as stale */
+  conflict?: Todo | null;
   onSubmit: (data: CreateTodoRequest | UpdateTodoRequest) => Promise<void>;
   client: TodosClient;
+  /** Parent preselected when creating a subtask */
+  parent?: Todo | null;
+  /** Deployment-defined custom fields to edit */
+  customFields?: readonly TodoCustomFieldDefinition[];
+}
+
+/**
+ * A field that changed on the server since the form was opened
+ */
+export interface ConflictChange {
+  readonly field: TodoDiffableField;
+  readonly label: string;
+  readonly openedValue: string;
+  readonly currentValue: string;
 }
 
-export const useTodoForm = ({ todo, onSubmit, client }: UseTodoFormParams) => {
+const toParentOption = (todo: Todo): EuiComboBoxOptionOption<string> => ({
+  label: todo.title,
+  value: todo.id,
+});
+
+const RECURRENCE_FREQUENCY_LABELS: Record<TodoRecurrenceFrequency, string> = {
+  daily: i18n.translate('customPlugin.form.recurrence.daily', { defaultMessage: 'Daily' }),
+  weekly: i18n.translate('customPlugin.form.recurrence.weekly', { defaultMessage: 'Weekly' }),
+  monthly: i18n.translate('customPlugin.form.recurrence.monthly', { defaultMessage: 'Monthly' }),
+  yearly: i18n.translate('customPlugin.form.recurrence.yearly', { defaultMessage: 'Yearly' }),
+};
+
+// An empty frequency means the TODO does not repeat
+const toRecurrenceFrequency = (todo?: Todo | null): TodoRecurrenceFrequency | '' =>
+  (todo?.recurrence && parseRecurrenceRule(todo.recurrence)?.frequency) || '';
+
+const toRecurrenceInterval = (todo?: Todo | null): number =>
+  (todo?.recurrence && parseRecurrenceRule(todo.recurrence)?.interval) || 1;
+
+// Blockers come back from the server with their titles, so no lookup is needed
+const toBlockerOptions = (todo?: Todo | null): Array<EuiComboBoxOptionOption<string>> =>
+  (todo?.blockers || []).map((blocker) => ({ label: blocker.title, value: blocker.id }));
+
+const toCustomFormValue = (
+  field: TodoCustomFieldDefinition,
+  value: TodoCustomFieldValue | undefined
+): CustomFieldFormValue => {
+  if (field.type === 'boolean') {
+    return value === true;
+  }
+  if (value === undefined) {
+    return '';
+  }
+  return field.type === 'date' ? String(value).substring(0, 10) : String(value);
+};
+
+// An empty form value clears the field
+const toCustomStoredValue = (
+  field: TodoCustomFieldDefinition,
+  value: CustomFieldFormValue
+): TodoCustomFieldValue | null => {
+  if (typeof value === 'boolean') {
+    return value;
+  }
+  const trimmed = value.trim();
+  if (!trimmed) {
+    return null;
+  }
+  switch (field.type) {
+    case 'number':
+      return Number(trimmed);
+    case 'date':
+      return new Date(trimmed).toISOString();
+    default:
+      return trimmed;
+  }
+};
+
+export const useTodoForm = ({
+  todo,
+  conflict,
+  onSubmit,
+  client,
+  parent,
+  customFields = [],
+}: UseTodoFormParams) => {
   const isEditMode = !!todo;
   const { tags: suggestedTags, complianceFrameworks: suggestedFrameworks } = useTodoSuggestions({ client });
+  const [parentSearchText, setParentSearchText] = useState('');
+  const { options: parentOptions, loading: parentOptionsLoading } = useTodoParentOptions({
+    client,
+    searchText: parentSearchText,
+    excludeId: todo?.id,
+  });
+  const [blockerSearchText, setBlockerSearchText] = useState('');
+  const { options: blockerOptions, loading: blockerOptionsLoading } = useTodoParentOptions({
+    client,
+    searchText: blockerSearchText,
+    excludeId: todo?.id,
+  });
 
   // Form state
   const [title, setTitle] = useState(todo?.title || '');
@@ -47,14 +166,37 @@ export const useTodoForm = ({ todo, onSubmit, client }: UseTodoFormParams) => {
   );
   const [priority, setPriority] = useState<TodoPriority>(todo?.priority || 'medium');
   const [severity, setSeverity] = useState<TodoSeverity>(todo?.severity || 'low');
+  const [startDate, setStartDate] = useState(
+    todo?.startDate ? todo.startDate.substring(0, 10) : ''
+  );
   const [dueDate, setDueDate] = useState(
     todo?.dueDate ? todo.dueDate.substring(0, 10) : ''
   );
   const [selectedComplianceFrameworks, setSelectedComplianceFrameworks] = useState<
     EuiComboBoxOptionOption[]
   >((todo?.complianceFrameworks || []).map((framework) => ({ label: framework })));
+  const [statusReason, setStatusReason] = useState('');
+  const [selectedParent, setSelectedParent] = useState<Array<EuiComboBoxOptionOption<string>>>(
+    parent ? [toParentOption(parent)] : []
+  );
+  const [selectedBlockers, setSelectedBlockers] = useState<Array<EuiComboBoxOptionOption<string>>>(
+    toBlockerOptions(todo)
+  );
+  const [recurrenceFrequency, setRecurrenceFrequency] = useState<TodoRecurrenceFrequency | ''>(
+    toRecurrenceFrequency(todo)
+  );
+  const [recurrenceInterval, setRecurrenceInterval] = useState<number>(
+    toRecurrenceInterval(todo)
+  );
+  // Only custom fields edited in this form; the others keep the TODO's values
+  const [editedCustomValues, setEditedCustomValues] = useState<
+    Record<string, CustomFieldFormValue>
+  >({});
   const [errors, setErrors] = useState<FormErrors>({});
 
+  // A reason can only accompany a status change on an existing TODO
+  const isStatusChanged = isEditMode && status !== todo?.status;
+
   // Sync form state when todo prop changes
   useEffect(() => {
     if (todo) {
@@ -65,13 +207,71 @@ export const useTodoForm = ({ todo, onSubmit, client }: UseTodoFormParams) => {
       setSelectedTags((todo.tags || []).map((tag) => ({ label: tag })));
       setPriority(todo.priority || 'medium');
       setSeverity(todo.severity || 'low');
+      setStartDate(todo.startDate ? todo.startDate.substring(0, 10) : '');
       setDueDate(todo.dueDate ? todo.dueDate.substring(0, 10) : '');
       setSelectedComplianceFrameworks(
         (todo.complianceFrameworks || []).map((framework) => ({ label: framework }))
       );
+      setStatusReason('');
+      setSelectedBlockers(toBlockerOptions(todo));
+      setRecurrenceFrequency(toRecurrenceFrequency(todo));
+      setRecurrenceInterval(toRecurrenceInterval(todo));
+      setEditedCustomValues({});
     }
   }, [todo]);
 
+  const customValues = useMemo(
+    (): Record<string, CustomFieldFormValue> =>
+      Object.fromEntries(
+        customFields.map((field) => [
+          field.key,
+          editedCustomValues[field.key] ?? toCustomFormValue(field, todo?.custom?.[field.key]),
+        ])
+      ),
+    [customFields, editedCustomValues, todo]
+  );
+
+  // Only the parent ID is stored on the TODO, so its title is looked up for the picker
+  useEffect(() => {
+    const parentId = todo?.parentId;
+    if (!parentId) {
+      setSelectedParent(parent ? [toParentOption(parent)] : []);
+      return;
+    }
+
+    let cancelled = false;
+    const fetchParent = async () => {
+      try {
+        const response = await client.getById(parentId);
+        if (!cancelled) {
+          setSelectedParent([toParentOption(response.todo)]);
+        }
+      } catch {
+        if (!cancelled) {
+          setSelectedParent([{ label: parentId, value: parentId }]);
+        }
+      }
+    };
+
+    void fetchParent();
+    return () => {
+      cancelled = true;
+    };
+  }, [todo?.parentId, parent, client]);
+
+  // Fields changed by someone else since this form was opened
+  const conflictChanges = useMemo((): ConflictChange[] => {
+    if (!todo || !conflict) {
+      return [];
+    }
+    return diffTodos(todo, conflict).map((change) => ({
+      field: change.field,
+      label: getTodoFieldLabel(change.field),
+      openedValue: formatTodoFieldValue(change.field, change.oldValue),
+      currentValue: formatTodoFieldValue(change.field, change.newValue),
+    }));
+  }, [todo, conflict]);
+
   // Select options
   const statusOptions = useMemo(
     () =>
@@ -100,6 +300,22 @@ export const useTodoForm = ({ todo, onSubmit, client }: UseTodoFormParams) => {
     []
   );
 
+  const recurrenceOptions = useMemo(
+    () => [
+      {
+        value: '',
+        text: i18n.translate('customPlugin.form.recurrence.none', {
+          defaultMessage: 'Does not repeat',
+        }),
+      },
+      ...TODO_RECURRENCE_FREQUENCY_VALUES.map((frequency) => ({
+        value: frequency,
+        text: RECURRENCE_FREQUENCY_LABELS[frequency],
+      })),
+    ],
+    []
+  );
+
   // Validation
   const validate = useCallback((): boolean => {
     const newErrors: FormErrors = {};
@@ -135,6 +351,19 @@ export const useTodoForm = ({ todo, onSubmit, client }: UseTodoFormParams) => {
       }
     }
 
+    if (startDate) {
+      const startDateObj = new Date(startDate);
+      if (isNaN(startDateObj.getTime())) {
+        newErrors.startDate = i18n.translate('customPlugin.form.error.invalidDate', {
+          defaultMessage: 'Invalid date format',
+        });
+      } else if (dueDate && startDateObj > new Date(dueDate)) {
+        newErrors.startDate = i18n.translate('customPlugin.form.error.startAfterDue', {
+          defaultMessage: 'Start date must not be after the due date',
+        });
+      }
+    }
+
     if (selectedComplianceFrameworks.length > MAX_COMPLIANCE_FRAMEWORKS) {
       newErrors.complianceFrameworks = i18n.translate('customPlugin.form.error.tooManyFrameworks', {
         defaultMessage: 'Maximum {max} compliance frameworks allowed',
@@ -152,9 +381,75 @@ export const useTodoForm = ({ todo, onSubmit, client }: UseTodoFormParams) => {
       });
     }
 
+    if (isStatusChanged && statusReason.length > MAX_STATUS_REASON_LENGTH) {
+      newErrors.statusReason = i18n.translate('customPlugin.form.error.statusReasonTooLong', {
+        defaultMessage: 'Reason must be {max} characters or less',
+        values: { max: MAX_STATUS_REASON_LENGTH },
+      });
+    }
+
+    if (
+      recurrenceFrequency &&
+      (!Number.isInteger(recurrenceInterval) ||
+        recurrenceInterval < 1 ||
+        recurrenceInterval > MAX_TODO_RECURRENCE_INTERVAL)
+    ) {
+      newErrors.recurrenceInterval = i18n.translate('customPlugin.form.error.invalidInterval', {
+        defaultMessage: 'Interval must be a whole number between 1 and {max}',
+        values: { max: MAX_TODO_RECURRENCE_INTERVAL },
+      });
+    }
+
+    const customErrors: Record<string, string> = {};
+    customFields.forEach((field) => {
+      const value = customValues[field.key];
+      if (typeof value !== 'string') {
+        return;
+      }
+      const trimmed = value.trim();
+      if (!trimmed) {
+        if (field.required) {
+          customErrors[field.key] = i18n.translate('customPlugin.form.error.customFieldRequired', {
+            defaultMessage: '{label} is required',
+            values: { label: field.label },
+          });
+        }
+      } else if (field.type === 'number' && !Number.isFinite(Number(trimmed))) {
+        customErrors[field.key] = i18n.translate('customPlugin.form.error.customFieldNumber', {
+          defaultMessage: '{label} must be a number',
+          values: { label: field.label },
+        });
+      } else if (field.type === 'date' && isNaN(new Date(trimmed).getTime())) {
+        customErrors[field.key] = i18n.translate('customPlugin.form.error.invalidDate', {
+          defaultMessage: 'Invalid date format',
+        });
+      } else if (field.type === 'text' && trimmed.length > MAX_CUSTOM_FIELD_TEXT_LENGTH) {
+        customErrors[field.key] = i18n.translate('customPlugin.form.error.customFieldTooLong', {
+          defaultMessage: '{label} must be {max} characters or less',
+          values: { label: field.label, max: MAX_CUSTOM_FIELD_TEXT_LENGTH },
+        });
+      }
+    });
+    if (Object.keys(customErrors).length > 0) {
+      newErrors.custom = customErrors;
+    }
+
     setErrors(newErrors);
     return Object.keys(newErrors).length === 0;
-  }, [title, description, selectedTags, dueDate, selectedComplianceFrameworks]);
+  }, [
+    title,
+    description,
+    selectedTags,
+    startDate,
+    dueDate,
+    selectedComplianceFrameworks,
+    isStatusChanged,
+    statusReason,
+    recurrenceFrequency,
+    recurrenceInterval,
+    customFields,
+    customValues,
+  ]);
 
   // Form submission
   const handleSubmit = useCallback(
@@ -167,18 +462,30 @@ export const useTodoForm = ({ todo, onSubmit, client }: UseTodoFormParams) => {
 
       const tags = selectedTags.map((tag) => tag.label);
       const complianceFrameworks = selectedComplianceFrameworks.map((framework) => framework.label);
+      const startDateISO = startDate ? new Date(startDate).toISOString() : undefined;
       const dueDateISO = dueDate ? new Date(dueDate).toISOString() : undefined;
+      const parentId = selectedParent[0]?.value;
+      const blockedBy = selectedBlockers.map((blocker) => blocker.value as string);
+      const recurrence = recurrenceFrequency
+        ? formatRecurrenceRule({ frequency: recurrenceFrequency, interval: recurrenceInterval })
+        : undefined;
 
       if (isEditMode) {
         const updateData: UpdateTodoRequest = {};
         if (title !== todo.title) updateData.title = title;
         if (description !== (todo.description || '')) updateData.description = description;
         if (status !== todo.status) updateData.status = status;
+        if (isStatusChanged && statusReason.trim()) updateData.statusReason = statusReason.trim();
         if (assignee !== (todo.assignee || '')) updateData.assignee = assignee;
         if (JSON.stringify(tags) !== JSON.stringify(todo.tags)) updateData.tags = tags;
         if (priority !== todo.priority) updateData.priority = priority;
         if (severity !== todo.severity) updateData.severity = severity;
 
+        const existingStartDate = todo.startDate ? todo.startDate.substring(0, 10) : '';
+        if (startDate !== existingStartDate) {
+          updateData.startDate = startDateISO || null;
+        }
+
         const existingDueDate = todo.dueDate ? todo.dueDate.substring(0, 10) : '';
         if (dueDate !== existingDueDate) {
           updateData.dueDate = dueDateISO || null;
@@ -190,6 +497,34 @@ export const useTodoForm = ({ todo, onSubmit, client }: UseTodoFormParams) => {
           updateData.complianceFrameworks = complianceFrameworks;
         }
 
+        if ((parentId ?? '') !== (todo.parentId ?? '')) {
+          updateData.parentId = parentId ?? null;
+        }
+
+        if (JSON.stringify(blockedBy) !== JSON.stringify(todo.blockedBy || [])) {
+          updateData.blockedBy = blockedBy;
+        }
+
+        if ((recurrence ?? '') !== (todo.recurrence ?? '')) {
+          updateData.recurrence = recurrence ?? null;
+        }
+
+        // Only edited custom fields are sent; null clears a value
+        const customUpdates: Record<string, TodoCustomFieldValue | null> = {};
+        customFields
+          .filter((field) => field.key in editedCustomValues)
+          .forEach((field) => {
+            const existing = todo.custom?.[field.key];
+            const value = toCustomStoredValue(field, customValues[field.key]);
+            const unchanged =
+              value === (existing ?? null) || (value === false && existing === undefined);
+            if (!unchanged) customUpdates[field.key] = value;
+          });
+        if (Object.keys(customUpdates).length > 0) updateData.custom = customUpdates;
+
+        // Lets the server reject the edit if someone else changed the TODO meanwhile
+        if (todo.version) updateData.version = todo.version;
+
         await onSubmit(updateData);
       } else {
         const createData: CreateTodoRequest = {
@@ -202,10 +537,22 @@ export const useTodoForm = ({ todo, onSubmit, client }: UseTodoFormParams) => {
         if (assignee) createData.assignee = assignee;
         if (priority !== 'medium') createData.priority = priority;
         if (severity !== 'low') createData.severity = severity;
+        if (startDateISO) createData.startDate = startDateISO;
         if (dueDateISO) createData.dueDate = dueDateISO;
         if (complianceFrameworks.length > 0) {
           createData.complianceFrameworks = complianceFrameworks;
         }
+        if (parentId) createData.parentId = parentId;
+        if (blockedBy.length > 0) createData.blockedBy = blockedBy;
+        if (recurrence) createData.recurrence = recurrence;
+
+        const custom: Record<string, TodoCustomFieldValue> = {};
+        customFields.forEach((field) => {
+          const value = toCustomStoredValue(field, customValues[field.key]);
+          // An unchecked switch only counts as a value when the field is required
+          if (value !== null && (value !== false || field.required)) custom[field.key] = value;
+        });
+        if (Object.keys(custom).length > 0) createData.custom = custom;
 
         await onSubmit(createData);
       }
@@ -220,8 +567,18 @@ export const useTodoForm = ({ todo, onSubmit, client }: UseTodoFormParams) => {
       selectedTags,
       priority,
       severity,
+      startDate,
       dueDate,
       selectedComplianceFrameworks,
+      isStatusChanged,
+      statusReason,
+      selectedParent,
+      selectedBlockers,
+      recurrenceFrequency,
+      recurrenceInterval,
+      customFields,
+      customValues,
+      editedCustomValues,
       todo,
       onSubmit,
     ]
@@ -237,6 +594,10 @@ export const useTodoForm = ({ todo, onSubmit, client }: UseTodoFormParams) => {
     setSelectedComplianceFrameworks((prev) => [...prev, newOption]);
   }, []);
 
+  const setCustomValue = useCallback((key: string, value: CustomFieldFormValue) => {
+    setEditedCustomValues((prev) => ({ ...prev, [key]: value }));
+  }, []);
+
   return {
     data: {
       isEditMode,
@@ -245,6 +606,12 @@ export const useTodoForm = ({ todo, onSubmit, client }: UseTodoFormParams) => {
       statusOptions,
       priorityOptions,
       severityOptions,
+      recurrenceOptions,
+      conflictChanges,
+      parentOptions,
+      parentOptionsLoading,
+      blockerOptions,
+      blockerOptionsLoading,
     },
     formState: {
       title,
@@ -254,8 +621,16 @@ export const useTodoForm = ({ todo, onSubmit, client }: UseTodoFormParams) => {
       selectedTags,
       priority,
       severity,
+      startDate,
       dueDate,
       selectedComplianceFrameworks,
+      statusReason,
+      selectedParent,
+      selectedBlockers,
+      recurrenceFrequency,
+      recurrenceInterval,
+      customValues,
+      isStatusChanged,
       errors,
     },
     actions: {
@@ -266,10 +641,19 @@ export const useTodoForm = ({ todo, onSubmit, client }: UseTodoFormParams) => {
       setSelectedTags,
       setPriority,
       setSeverity,
+      setStartDate,
       setDueDate,
       setSelectedComplianceFrameworks,
+      setStatusReason,
+      setSelectedParent,
+      setParentSearchText,
+      setSelectedBlockers,
+      setBlockerSearchText,
+      setRecurrenceFrequency,
+      setRecurrenceInterval,
       onCreateTag,
       onCreateComplianceFramework,
+      setCustomValue,
       handleSubmit,
     },
   };
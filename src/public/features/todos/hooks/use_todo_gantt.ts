@@ -0,0 +1,496 @@
+import { useMemo, useCallback, useState, useEffect } from 'react';
+import moment from 'moment';
+import { Todo, TodoBlocker, TODO_STATUS_COLORS } from '../../../../common/todo/todo.types';
+import { isOverdue } from '../../../utils/date-formatters';
+
+/**
+ * Span of time shown by the timeline at once
+ */
+export type GanttScale = 'month' | 'quarter';
+
+/**
+ * Field the timeline rows are grouped by
+ */
+export type GanttGroupBy = 'assignee' | 'complianceFramework';
+
+/**
+ * Part of a bar being dragged: the whole bar, or one of its ends
+ */
+export type GanttDragEdge = 'move' | 'start' | 'end';
+
+/**
+ * Visible date window of the timeline, as ISO 8601 strings (both inclusive)
+ */
+export interface GanttRange {
+  readonly start: string;
+  readonly end: string;
+}
+
+/**
+ * A label along the top of the timeline
+ */
+export interface GanttTickData {
+  readonly key: string;
+  readonly label: string;
+  /** Position from the left edge of the window, in percent */
+  readonly offset: number;
+}
+
+/**
+ * A TODO drawn as a bar on the timeline, with its pre-computed display attributes
+ */
+export interface GanttRowData {
+  readonly todo: Todo;
+  /** Position of the bar's start from the left edge of the window, in percent */
+  readonly left: number;
+  /** Width of the bar, in percent of the window; 0 for a milestone */
+  readonly width: number;
+  /** Whether the TODO has no start date and is drawn as a marker on its due date */
+  readonly isMilestone: boolean;
+  /** Whether the bar continues before the window */
+  readonly clippedStart: boolean;
+  /** Whether the bar continues after the window */
+  readonly clippedEnd: boolean;
+  /** EUI color of the TODO's status */
+  readonly color: string;
+  /** Whether the TODO is still open and past its due date */
+  readonly isOverdue: boolean;
+  /** Position of the completion marker, in percent; null when not completed inside the window */
+  readonly completedOffset: number | null;
+  /** Whether the TODO was completed after its due date */
+  readonly completedLate: boolean;
+  /** Blockers that are still open */
+  readonly openBlockers: readonly TodoBlocker[];
+  /** Whether the TODO starts before one of its open blockers on the timeline is due */
+  readonly startsBeforeBlocker: boolean;
+}
+
+/**
+ * Rows of one assignee or compliance framework
+ */
+export interface GanttGroupData {
+  readonly key: string;
+  /** Assignee or framework name; null for TODOs without one */
+  readonly label: string | null;
+  readonly rows: readonly GanttRowData[];
+}
+
+/**
+ * Parameters for useTodoGantt hook
+ */
+export interface UseTodoGanttOptions {
+  /** TODOs due in or after the visible window */
+  readonly todos: readonly Todo[];
+  /** Error state from parent */
+  readonly error: Error | null;
+  /** Function to update a todo's dates; resolves to null when the update is rejected */
+  readonly updateTodo: (
+    id: string,
+    data: { startDate?: string; dueDate: string }
+  ) => Promise<Todo | null>;
+  /** Called with the visible window whenever it changes, so the parent can fetch its TODOs */
+  readonly onRangeChange: (range: GanttRange) => void;
+  /** Callback when a TODO is clicked */
+  readonly onOpen: (todo: Todo) => void;
+  /** Scale shown first; defaults to `month` */
+  readonly initialScale?: GanttScale;
+  /** Grouping shown first; defaults to `assignee` */
+  readonly initialGroupBy?: GanttGroupBy;
+  /** Date shown first; defaults to today */
+  readonly initialDate?: Date;
+}
+
+/**
+ * Return type for useTodoGantt hook
+ */
+export interface UseTodoGanttReturn {
+  /** Pre-computed data for UI */
+  readonly data: {
+    /** Month or quarter shown, e.g. "March 2025" */
+    readonly title: string;
+    readonly ticks: readonly GanttTickData[];
+    readonly groups: readonly GanttGroupData[];
+    /** Position of the today line, in percent; null when today is outside the window */
+    readonly todayOffset: number | null;
+    readonly range: GanttRange;
+  };
+  /** UI state flags */
+  readonly uiState: {
+    readonly scale: GanttScale;
+    readonly groupBy: GanttGroupBy;
+    /** ID of the TODO whose bar is being dragged */
+    readonly draggingId: string | null;
+    readonly hasError: boolean;
+  };
+  /** User action handlers */
+  readonly actions: {
+    readonly setScale: (scale: GanttScale) => void;
+    readonly setGroupBy: (groupBy: GanttGroupBy) => void;
+    readonly goToPrevious: () => void;
+    readonly goToNext: () => void;
+    readonly goToToday: () => void;
+    readonly beginDrag: (
+      todoId: string,
+      edge: GanttDragEdge,
+      clientX: number,
+      trackWidth: number
+    ) => void;
+    readonly moveDrag: (clientX: number) => void;
+    readonly endDrag: () => Promise<void>;
+    readonly handleOpen: (todo: Todo) => void;
+  };
+}
+
+interface ScheduledDates {
+  readonly startDate?: string;
+  readonly dueDate: string;
+}
+
+interface DragState {
+  readonly todoId: string;
+  readonly edge: GanttDragEdge;
+  readonly originX: number;
+  readonly trackWidth: number;
+  /** Whole days the pointer has moved since the drag started */
+  readonly deltaDays: number;
+}
+
+/**
+ * Shifts the dragged part of a schedule by whole days, keeping the times of day.
+ * A start dragged past the due date (or the reverse) stops at the other end.
+ */
+const shiftSchedule = (
+  dates: ScheduledDates,
+  edge: GanttDragEdge,
+  days: number
+): ScheduledDates => {
+  const shift = (date: string) => moment(date).add(days, 'days').toISOString();
+
+  if (edge === 'move') {
+    return {
+      startDate: dates.startDate ? shift(dates.startDate) : undefined,
+      dueDate: shift(dates.dueDate),
+    };
+  }
+  if (edge === 'start') {
+    const startDate = shift(dates.startDate ?? dates.dueDate);
+    return {
+      startDate: startDate > dates.dueDate ? dates.dueDate : startDate,
+      dueDate: dates.dueDate,
+    };
+  }
+  const dueDate = shift(dates.dueDate);
+  return {
+    startDate: dates.startDate,
+    dueDate: dates.startDate && dueDate < dates.startDate ? dates.startDate : dueDate,
+  };
+};
+
+/**
+ * Custom hook for TODO timeline business logic
+ *
+ * Following PROJECT RULE #11:
+ * - Encapsulates all business logic (date window, grouping, bar geometry, drag-to-reschedule)
+ * - Returns UI-friendly contract: { data, uiState, actions }
+ * - Component remains purely presentational
+ *
+ * @param options - Hook configuration options
+ * @returns Timeline data, state, and actions
+ */
+export const useTodoGantt = ({
+  todos,
+  error,
+  updateTodo,
+  onRangeChange,
+  onOpen,
+  initialScale = 'month',
+  initialGroupBy = 'assignee',
+  initialDate,
+}: UseTodoGanttOptions): UseTodoGanttReturn => {
+  const [scale, setScale] = useState<GanttScale>(initialScale);
+  const [groupBy, setGroupBy] = useState<GanttGroupBy>(initialGroupBy);
+  // Any date inside the month or quarter shown
+  const [anchor, setAnchor] = useState(() => moment(initialDate).startOf('day'));
+  const [drag, setDrag] = useState<DragState | null>(null);
+  // Optimistic dates for TODOs dropped while their update is in flight
+  const [pendingMoves, setPendingMoves] = useState<Record<string, ScheduledDates>>({});
+
+  // Fresh data from the server supersedes any optimistic moves
+  useEffect(() => {
+    setPendingMoves((prev) => (Object.keys(prev).length === 0 ? prev : {}));
+  }, [todos]);
+
+  const { start, end } = useMemo(
+    () => ({
+      start: anchor.clone().startOf(scale),
+      end: anchor.clone().endOf(scale),
+    }),
+    [anchor, scale]
+  );
+
+  const range = useMemo(
+    (): GanttRange => ({ start: start.toISOString(), end: end.toISOString() }),
+    [start, end]
+  );
+
+  useEffect(() => {
+    onRangeChange(range);
+  }, [range, onRangeChange]);
+
+  const spanDays = useMemo(() => end.diff(start, 'days') + 1, [start, end]);
+
+  /**
+   * Converts a date to its position in the window, in percent
+   */
+  const toOffset = useCallback(
+    (date: string) => (moment(date).diff(start) / end.diff(start)) * 100,
+    [start, end]
+  );
+
+  /**
+   * Current dates of every TODO on the timeline, including optimistic and in-progress moves
+   */
+  const schedules = useMemo(() => {
+    const result: Record<string, ScheduledDates> = {};
+    todos.forEach((todo) => {
+      const dates = pendingMoves[todo.id] ?? (todo.dueDate ? todo : null);
+      if (dates && dates.dueDate) {
+        result[todo.id] = { startDate: dates.startDate, dueDate: dates.dueDate };
+      }
+    });
+    if (drag && result[drag.todoId] && drag.deltaDays !== 0) {
+      result[drag.todoId] = shiftSchedule(result[drag.todoId], drag.edge, drag.deltaDays);
+    }
+    return result;
+  }, [todos, pendingMoves, drag]);
+
+  /**
+   * Bars of the TODOs overlapping the window, grouped and ordered by start
+   */
+  const groups = useMemo(() => {
+    const now = new Date();
+    const windowStart = start.toISOString();
+    const windowEnd = end.toISOString();
+    const byKey: Record<string, GanttRowData[]> = {};
+
+    todos
+      .filter((todo) => schedules[todo.id])
+      .map((todo) => {
+        const dates = schedules[todo.id];
+        return { todo, dates, barStart: dates.startDate ?? dates.dueDate };
+      })
+      .filter(({ dates, barStart }) => dates.dueDate >= windowStart && barStart <= windowEnd)
+      .sort(
+        (a, b) =>
+          a.barStart.localeCompare(b.barStart) || a.dates.dueDate.localeCompare(b.dates.dueDate)
+      )
+      .forEach(({ todo, dates, barStart }) => {
+        const left = Math.max(0, toOffset(barStart));
+        const right = Math.min(100, toOffset(dates.dueDate));
+        const openBlockers = (todo.blockers ?? []).filter((blocker) => blocker.status !== 'done');
+        const completedOffset =
+          todo.completedAt && todo.completedAt >= windowStart && todo.completedAt <= windowEnd
+            ? toOffset(todo.completedAt)
+            : null;
+
+        const row: GanttRowData = {
+          todo: { ...todo, startDate: dates.startDate, dueDate: dates.dueDate },
+          left,
+          width: right - left,
+          isMilestone: !dates.startDate,
+          clippedStart: barStart < windowStart,
+          clippedEnd: dates.dueDate > windowEnd,
+          color: TODO_STATUS_COLORS[todo.status],
+          isOverdue: todo.status !== 'done' && isOverdue(dates.dueDate, now),
+          completedOffset,
+          completedLate: !!todo.completedAt && todo.completedAt > dates.dueDate,
+          openBlockers,
+          startsBeforeBlocker: openBlockers.some(
+            (blocker) => !!schedules[blocker.id] && barStart < schedules[blocker.id].dueDate
+          ),
+        };
+
+        const labels =
+          groupBy === 'assignee'
+            ? [todo.assignee || '']
+            : todo.complianceFrameworks.length > 0
+            ? todo.complianceFrameworks
+            : [''];
+        labels.forEach((label) => {
+          (byKey[label] = byKey[label] || []).push(row);
+        });
+      });
+
+    // Named groups alphabetically, TODOs without an assignee or framework last
+    return Object.keys(byKey)
+      .sort((a, b) => (a === '' ? 1 : b === '' ? -1 : a.localeCompare(b)))
+      .map(
+        (key): GanttGroupData => ({
+          key: key || '__none__',
+          label: key || null,
+          rows: byKey[key],
+        })
+      );
+  }, [todos, schedules, start, end, groupBy, toOffset]);
+
+  /**
+   * Week starts along a month, month starts along a quarter
+   */
+  const ticks = useMemo(() => {
+    const result: GanttTickData[] = [];
+    const step = scale === 'month' ? 'week' : 'month';
+    for (const tick = start.clone().startOf(step); tick.isBefore(end); tick.add(1, step)) {
+      if (!tick.isBefore(start)) {
+        result.push({
+          key: tick.format('YYYY-MM-DD'),
+          label: tick.format(scale === 'month' ? 'D MMM' : 'MMMM'),
+          offset: toOffset(tick.toISOString()),
+        });
+      }
+    }
+    return result;
+  }, [start, end, scale, toOffset]);
+
+  const todayOffset = useMemo(() => {
+    const now = moment();
+    return now.isBefore(start) || now.isAfter(end) ? null : toOffset(now.toISOString());
+  }, [start, end, toOffset]);
+
+  const title = useMemo(
+    () =>
+      scale === 'month'
+        ? anchor.format('MMMM YYYY')
+        : `${start.format('MMM')} – ${end.format('MMM YYYY')}`,
+    [anchor, scale, start, end]
+  );
+
+  const goToPrevious = useCallback(() => {
+    setAnchor((prev) => prev.clone().subtract(1, scale));
+  }, [scale]);
+
+  const goToNext = useCallback(() => {
+    setAnchor((prev) => prev.clone().add(1, scale));
+  }, [scale]);
+
+  const goToToday = useCallback(() => {
+    setAnchor(moment().startOf('day'));
+  }, []);
+
+  /**
+   * Start dragging a bar or one of its ends
+   *
+   * @param trackWidth - Width in pixels of the row track, used to convert pointer movement to days
+   */
+  const beginDrag = useCallback(
+    (todoId: string, edge: GanttDragEdge, clientX: number, trackWidth: number) => {
+      if (trackWidth > 0) {
+        setDrag({ todoId, edge, originX: clientX, trackWidth, deltaDays: 0 });
+      }
+    },
+    []
+  );
+
+  const moveDrag = useCallback(
+    (clientX: number) => {
+      setDrag((prev) => {
+        if (!prev) {
+          return prev;
+        }
+        const deltaDays = Math.round(((clientX - prev.originX) / prev.trackWidth) * spanDays);
+        return deltaDays === prev.deltaDays ? prev : { ...prev, deltaDays };
+      });
+    },
+    [spanDays]
+  );
+
+  /**
+   * Finish dragging: reschedule the TODO to the dates shown,
+   * and snap it back if the server rejects them
+   */
+  const endDrag = useCallback(async () => {
+    if (!drag) {
+      return;
+    }
+    setDrag(null);
+
+    const todo = todos.find((item) => item.id === drag.todoId);
+    if (!todo || !todo.dueDate || drag.deltaDays === 0) {
+      return;
+    }
+
+    const current = pendingMoves[todo.id] ?? { startDate: todo.startDate, dueDate: todo.dueDate };
+    const next = shiftSchedule(current, drag.edge, drag.deltaDays);
+    if (next.startDate === current.startDate && next.dueDate === current.dueDate) {
+      return;
+    }
+    setPendingMoves((prev) => ({ ...prev, [todo.id]: next }));
+
+    let updated: Todo | null = null;
+    try {
+      // updateTodo shows the success or error toast and refreshes the TODOs
+      updated = await updateTodo(todo.id, next);
+    } catch (err) {
+      console.error('[Gantt] Failed to reschedule todo:', err);
+    }
+
+    if (!updated) {
+      // Snap the bar back to its original dates
+      setPendingMoves((prev) => {
+        const { [todo.id]: _rejected, ...rest } = prev;
+        return rest;
+      });
+    }
+  }, [drag, todos, pendingMoves, updateTodo]);
+
+  // Follow the pointer anywhere on the page while a bar is dragged
+  const isDragging = drag !== null;
+  useEffect(() => {
+    if (!isDragging) {
+      return;
+    }
+    const handleMouseMove = (event: MouseEvent) => moveDrag(event.clientX);
+    const handleMouseUp = () => {
+      endDrag();
+    };
+    window.addEventListener('mousemove', handleMouseMove);
+    window.addEventListener('mouseup', handleMouseUp);
+    return () => {
+      window.removeEventListener('mousemove', handleMouseMove);
+      window.removeEventListener('mouseup', handleMouseUp);
+    };
+  }, [isDragging, moveDrag, endDrag]);
+
+  const handleOpen = useCallback(
+    (todo: Todo) => {
+      onOpen(todo);
+    },
+    [onOpen]
+  );
+
+  return {
+    data: {
+      title,
+      ticks,
+      groups,
+      todayOffset,
+      range,
+    },
+    uiState: {
+      scale,
+      groupBy,
+      draggingId: drag ? drag.todoId : null,
+      hasError: error !== null,
+    },
+    actions: {
+      setScale,
+      setGroupBy,
+      goToPrevious,
+      goToNext,
+      goToToday,
+      beginDrag,
+      moveDrag,
+      endDrag,
+      handleOpen,
+    },
+  };
+};
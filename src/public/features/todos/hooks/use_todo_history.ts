@@ -0,0 +1,79 @@
+import { useState, useEffect, useCallback } from 'react';
+import { TodoHistoryEntry } from '../../../../common/todo/todo.history';
+import { TodosClient } from '../api/todos.client';
+
+const HISTORY_PAGE_SIZE = 50;
+
+interface UseTodoHistoryOptions {
+  readonly client: TodosClient;
+  /** ID of the TODO whose history to load, or null to load nothing */
+  readonly todoId: string | null;
+  /** Changes whenever the TODO is modified, so the history is refetched */
+  readonly refreshKey?: string;
+}
+
+interface UseTodoHistoryReturn {
+  readonly entries: readonly TodoHistoryEntry[];
+  readonly totalEntries: number;
+  readonly loading: boolean;
+  readonly error: Error | null;
+  readonly refresh: () => void;
+}
+
+export const useTodoHistory = (options: UseTodoHistoryOptions): UseTodoHistoryReturn => {
+  const { client, todoId, refreshKey } = options;
+
+  const [entries, setEntries] = useState<readonly TodoHistoryEntry[]>([]);
+  const [totalEntries, setTotalEntries] = useState<number>(0);
+  const [loading, setLoading] = useState<boolean>(false);
+  const [error, setError] = useState<Error | null>(null);
+  const [refreshCounter, setRefreshCounter] = useState<number>(0);
+
+  useEffect(() => {
+    if (!todoId) {
+      setEntries([]);
+      setTotalEntries(0);
+      return;
+    }
+
+    let cancelled = false;
+    const fetchHistory = async () => {
+      setLoading(true);
+      setError(null);
+
+      try {
+        const response = await client.getHistory(todoId, { pageSize: HISTORY_PAGE_SIZE });
+        if (!cancelled) {
+          setEntries(response.entries);
+          setTotalEntries(response.pagination.totalItems);
+        }
+      } catch (err) {
+        if (!cancelled) {
+          const errorMessage = err instanceof Error ? err : new Error('Failed to fetch history');
+          setError(errorMessage);
+        }
+      } finally {
+        if (!cancelled) {
+          setLoading(false);
+        }
+      }
+    };
+
+    void fetchHistory();
+    return () => {
+      cancelled = true;
+    };
+  }, [client, todoId, refreshKey, refreshCounter]);
+
+  const refresh = useCallback(() => {
+    setRefreshCounter((prev) => prev + 1);
+  }, []);
+
+  return {
+    entries,
+    totalEntries,
+    loading,
+    error,
+    refresh,
+  };
+};
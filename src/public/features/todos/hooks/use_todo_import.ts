@@ -0,0 +1,262 @@
+import { useState, useCallback, useMemo } from 'react';
+import { i18n } from '@osd/i18n';
+import { NotificationsStart } from '../../../../../src/core/public';
+import { TodosClient } from '../api/todos.client';
+import { ImportTodosResponse, CreateTodoRequest } from '../../../../common/todo/todo.dtos';
+import { TodoImportFormat, TODO_IMPORT_FIELDS } from '../../../../common/todo/todo.import';
+import { TodoCustomFieldDefinition } from '../../../../common/todo/todo.custom_fields';
+import { getTodoFieldLabel } from '../../../utils/todo-field-formatters';
+
+interface UseTodoImportParams {
+  client: TodosClient;
+  notifications: NotificationsStart;
+  customFields: readonly TodoCustomFieldDefinition[];
+  /** Called after TODOs were created */
+  onImported?: (response: ImportTodosResponse) => void;
+}
+
+/**
+ * Step of the import wizard
+ * - `select`: no file chosen yet
+ * - `review`: the file was validated in a dry run; mapping can be changed
+ * - `done`: the valid rows were imported
+ */
+export type TodoImportStep = 'select' | 'review' | 'done';
+
+/**
+ * A field an imported column can be mapped to
+ */
+export interface TodoImportTargetOption {
+  readonly value: string;
+  readonly text: string;
+}
+
+/**
+ * A rejected row, formatted for the error table
+ */
+export interface TodoImportErrorItem {
+  readonly row: number;
+  readonly line: number;
+  readonly field: string;
+  readonly message: string;
+}
+
+const detectFormat = (fileName: string): TodoImportFormat =>
+  fileName.toLowerCase().endsWith('.csv') ? 'csv' : 'json';
+
+/**
+ * Custom hook for the import wizard.
+ *
+ * Reads the chosen file, validates it with a dry run whenever the file, format or
+ * column mapping changes, and imports the valid rows on confirmation.
+ *
+ * @param params - Client, notifications, custom fields and import callback
+ * @returns Wizard data, UI state and actions
+ */
+export const useTodoImport = ({
+  client,
+  notifications,
+  customFields,
+  onImported,
+}: UseTodoImportParams) => {
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [content, setContent] = useState<string>('');
+  const [format, setFormatState] = useState<TodoImportFormat>('csv');
+  const [columns, setColumns] = useState<string[]>([]);
+  const [mapping, setMapping] = useState<Record<string, string>>({});
+  const [result, setResult] = useState<ImportTodosResponse | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<Error | null>(null);
+
+  const validate = useCallback(
+    async (
+      nextContent: string,
+      nextFormat: TodoImportFormat,
+      nextMapping?: Record<string, string>
+    ) => {
+      setLoading(true);
+      setError(null);
+      try {
+        const response = await client.importTodos({
+          format: nextFormat,
+          content: nextContent,
+          ...(nextMapping && { mapping: nextMapping }),
+          dryRun: true,
+        });
+        setResult(response);
+        setColumns(response.columns);
+        setMapping(response.mapping);
+      } catch (err) {
+        // Keep the columns and mapping so that an invalid mapping can be corrected
+        setResult(null);
+        setError(err instanceof Error ? err : new Error('Failed to read the import file'));
+      } finally {
+        setLoading(false);
+      }
+    },
+    [client]
+  );
+
+  const selectFile = useCallback(
+    async (file: File | null) => {
+      setResult(null);
+      setError(null);
+      setColumns([]);
+      setMapping({});
+      if (!file) {
+        setFileName(null);
+        setContent('');
+        return;
+      }
+      const text = await file.text();
+      const detected = detectFormat(file.name);
+      setFileName(file.name);
+      setContent(text);
+      setFormatState(detected);
+      await validate(text, detected);
+    },
+    [validate]
+  );
+
+  const setFormat = useCallback(
+    async (nextFormat: TodoImportFormat) => {
+      setFormatState(nextFormat);
+      setColumns([]);
+      setMapping({});
+      if (content) {
+        await validate(content, nextFormat);
+      }
+    },
+    [content, validate]
+  );
+
+  // Mapping a column to a field another column already uses moves the field to this column
+  const setColumnTarget = useCallback(
+    async (column: string, target: string) => {
+      const nextMapping: Record<string, string> = {};
+      Object.entries(mapping).forEach(([key, value]) => {
+        if (key !== column && value !== target) {
+          nextMapping[key] = value;
+        }
+      });
+      if (target) {
+        nextMapping[column] = target;
+      }
+      setMapping(nextMapping);
+      await validate(content, format, nextMapping);
+    },
+    [mapping, content, format, validate]
+  );
+
+  const runImport = useCallback(async () => {
+    if (!result || !result.dryRun) {
+      return;
+    }
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await client.importTodos({
+        format,
+        content,
+        mapping,
+        dryRun: false,
+      });
+      setResult(response);
+      const rejected = response.total - response.imported;
+      if (rejected === 0) {
+        notifications.toasts.addSuccess({
+          title: i18n.translate('customPlugin.toast.import.title', {
+            defaultMessage: 'TODOs Imported',
+          }),
+          text: i18n.translate('customPlugin.toast.import.text', {
+            defaultMessage: 'Created {count, plural, one {# TODO} other {# TODOs}}',
+            values: { count: response.imported },
+          }),
+        });
+      } else {
+        notifications.toasts.addWarning({
+          title: i18n.translate('customPlugin.toast.import.partialTitle', {
+            defaultMessage: 'TODOs Partially Imported',
+          }),
+          text: i18n.translate('customPlugin.toast.import.partialText', {
+            defaultMessage: 'Created {imported} of {total} rows. {rejected} rows were rejected.',
+            values: { imported: response.imported, total: response.total, rejected },
+          }),
+        });
+      }
+      if (onImported && response.imported > 0) {
+        onImported(response);
+      }
+    } catch (err) {
+      const errorInstance = err instanceof Error ? err : new Error('Failed to import TODOs');
+      setError(errorInstance);
+      notifications.toasts.addError(errorInstance, {
+        title: i18n.translate('customPlugin.toast.error.importFailed', {
+          defaultMessage: 'Failed to Import TODOs',
+        }),
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [client, notifications, onImported, result, format, content, mapping]);
+
+  const targetOptions = useMemo<TodoImportTargetOption[]>(
+    () => [
+      {
+        value: '',
+        text: i18n.translate('customPlugin.import.mapping.ignore', {
+          defaultMessage: 'Do not import',
+        }),
+      },
+      ...TODO_IMPORT_FIELDS.map((field) => ({ value: field, text: getTodoFieldLabel(field) })),
+      ...customFields.map((field) => ({ value: `custom.${field.key}`, text: field.label })),
+    ],
+    [customFields]
+  );
+
+  const errorItems = useMemo<TodoImportErrorItem[]>(
+    () =>
+      (result?.errors ?? []).map(({ row, line, error: rowError }) => {
+        const field = rowError.details?.field;
+        return {
+          row,
+          line,
+          field: typeof field === 'string' ? field : '',
+          message: rowError.message,
+        };
+      }),
+    [result]
+  );
+
+  const previewItems: readonly CreateTodoRequest[] = result?.preview ?? [];
+  let step: TodoImportStep = 'select';
+  if (result && !result.dryRun) {
+    step = 'done';
+  } else if (columns.length > 0) {
+    step = 'review';
+  }
+
+  return {
+    data: {
+      fileName,
+      format,
+      result,
+      columns,
+      mapping,
+      targetOptions,
+      errorItems,
+      previewItems,
+    },
+    uiState: {
+      step,
+      loading,
+      error,
+    },
+    actions: {
+      selectFile,
+      setFormat,
+      setColumnTarget,
+      runImport,
+    },
+  };
+};
@@ -0,0 +1,73 @@
+import { useState, useEffect } from 'react';
+import { EuiComboBoxOptionOption } from '@elastic/eui';
+import { TodosClient } from '../api/todos.client';
+
+const PARENT_OPTIONS_PAGE_SIZE = 20;
+
+interface UseTodoParentOptionsOptions {
+  readonly client: TodosClient;
+  /** Text typed into the parent picker */
+  readonly searchText: string;
+  /** ID of the TODO being edited, which cannot be its own parent */
+  readonly excludeId?: string;
+}
+
+interface UseTodoParentOptionsReturn {
+  readonly options: ReadonlyArray<EuiComboBoxOptionOption<string>>;
+  readonly loading: boolean;
+}
+
+/**
+ * Searches TODOs by title to offer as parents in the TODO form.
+ */
+export const useTodoParentOptions = (
+  options: UseTodoParentOptionsOptions
+): UseTodoParentOptionsReturn => {
+  const { client, searchText, excludeId } = options;
+
+  const [parentOptions, setParentOptions] = useState<
+    ReadonlyArray<EuiComboBoxOptionOption<string>>
+  >([]);
+  const [loading, setLoading] = useState<boolean>(false);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const fetchOptions = async () => {
+      setLoading(true);
+
+      try {
+        const response = await client.list({
+          searchText: searchText || undefined,
+          pageSize: PARENT_OPTIONS_PAGE_SIZE,
+        });
+        if (!cancelled) {
+          setParentOptions(
+            response.todos
+              .filter((todo) => todo.id !== excludeId)
+              .map((todo) => ({ label: todo.title, value: todo.id }))
+          );
+        }
+      } catch {
+        if (!cancelled) {
+          setParentOptions([]);
+        }
+      } finally {
+        if (!cancelled) {
+          setLoading(false);
+        }
+      }
+    };
+
+    void fetchOptions();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [client, searchText, excludeId]);
+
+  return {
+    options: parentOptions,
+    loading,
+  };
+};
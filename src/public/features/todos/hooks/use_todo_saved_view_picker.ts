@@ -0,0 +1,120 @@
+import { useState, useCallback, useMemo } from 'react';
+import { TodoSavedView } from '../../../../common/todo/todo.saved_views';
+
+interface UseTodoSavedViewPickerParams {
+  /** The user's own views and the views shared by others */
+  views: readonly TodoSavedView[];
+  /** Username of the current user, or null while unknown */
+  username: string | null;
+  /** Applies the filters, sort and tab of a view to the page */
+  onApply: (view: TodoSavedView) => void;
+  /**
+   * Saves the current filters, sort and tab under a name, replacing the
+   * view with `replaceId` when given. Resolves to false when it failed.
+   */
+  onSave: (name: string, shared: boolean, replaceId?: string) => Promise<boolean>;
+  /** Deletes a view. Resolves to false when it failed. */
+  onDelete: (id: string) => Promise<boolean>;
+}
+
+/**
+ * Custom hook for the saved view picker business logic
+ *
+ * Splits the views into the user's own views and the views shared by others,
+ * and holds the "save current view" form. Saving under the name of one of the
+ * user's own views replaces it instead of creating a duplicate.
+ *
+ * Following PROJECT RULE #11:
+ * - Encapsulates all business logic (grouping, name matching, saving)
+ * - Returns UI-friendly contract: { data, uiState, actions }
+ * - Component remains purely presentational
+ *
+ * @param params - Hook configuration options
+ * @returns Saved view picker data, state, and actions
+ */
+export const useTodoSavedViewPicker = ({
+  views,
+  username,
+  onApply,
+  onSave,
+  onDelete,
+}: UseTodoSavedViewPickerParams) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [name, setName] = useState('');
+  const [shared, setShared] = useState(false);
+
+  const ownViews = useMemo(
+    () => views.filter((view) => username !== null && view.owner === username),
+    [views, username]
+  );
+
+  const sharedViews = useMemo(
+    () => views.filter((view) => username === null || view.owner !== username),
+    [views, username]
+  );
+
+  // The user's own view already using the typed name, which saving replaces
+  const existingView = useMemo(() => {
+    const normalized = name.trim().toLowerCase();
+    return ownViews.find((view) => view.name.toLowerCase() === normalized) || null;
+  }, [ownViews, name]);
+
+  const canSave = name.trim().length > 0;
+
+  const togglePicker = useCallback(() => {
+    setIsOpen((prev) => !prev);
+  }, []);
+
+  const closePicker = useCallback(() => {
+    setIsOpen(false);
+  }, []);
+
+  const applyView = useCallback(
+    (view: TodoSavedView) => {
+      onApply(view);
+      setIsOpen(false);
+    },
+    [onApply]
+  );
+
+  const saveView = useCallback(async () => {
+    if (!canSave) {
+      return;
+    }
+    const saved = await onSave(name.trim(), shared, existingView ? existingView.id : undefined);
+    if (saved) {
+      setName('');
+      setShared(false);
+    }
+  }, [canSave, onSave, name, shared, existingView]);
+
+  const deleteView = useCallback(
+    async (id: string) => {
+      await onDelete(id);
+    },
+    [onDelete]
+  );
+
+  return {
+    data: {
+      ownViews,
+      sharedViews,
+      existingView,
+    },
+    uiState: {
+      isOpen,
+      name,
+      shared,
+      canSave,
+    },
+    actions: {
+      togglePicker,
+      closePicker,
+      setName,
+      setShared,
+      applyView,
+      saveView,
+      deleteView,
+    },
+  };
+};
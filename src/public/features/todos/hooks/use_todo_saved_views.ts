@@ -0,0 +1,173 @@
+import { useState, useEffect, useCallback } from 'react';
+import { i18n } from '@osd/i18n';
+import { TodoSavedView } from '../../../../common/todo/todo.saved_views';
+import {
+  CreateTodoSavedViewRequest,
+  UpdateTodoSavedViewRequest,
+} from '../../../../common/todo/todo.dtos';
+import { TodosClient } from '../api/todos.client';
+import { NotificationsStart } from '../../../../../src/core/public';
+
+interface UseTodoSavedViewsOptions {
+  readonly client: TodosClient;
+  readonly notifications: NotificationsStart;
+}
+
+interface UseTodoSavedViewsReturn {
+  /** The user's own views and the views shared by others, by name */
+  readonly views: readonly TodoSavedView[];
+  /** Username of the current user, to tell their own views apart */
+  readonly username: string | null;
+  readonly loading: boolean;
+  readonly saving: boolean;
+  readonly error: Error | null;
+  /** Saves a new view; resolves to the stored view, or null when it was rejected */
+  readonly createView: (request: CreateTodoSavedViewRequest) => Promise<TodoSavedView | null>;
+  /** Changes a view; resolves to the updated view, or null when it was rejected */
+  readonly updateView: (
+    id: string,
+    request: UpdateTodoSavedViewRequest
+  ) => Promise<TodoSavedView | null>;
+  /** Deletes a view; resolves to false when it was rejected */
+  readonly deleteView: (id: string) => Promise<boolean>;
+  readonly refresh: () => void;
+}
+
+export const useTodoSavedViews = (options: UseTodoSavedViewsOptions): UseTodoSavedViewsReturn => {
+  const { client, notifications } = options;
+
+  const [views, setViews] = useState<readonly TodoSavedView[]>([]);
+  const [username, setUsername] = useState<string | null>(null);
+  const [loading, setLoading] = useState<boolean>(true);
+  const [saving, setSaving] = useState<boolean>(false);
+  const [error, setError] = useState<Error | null>(null);
+  const [refreshCounter, setRefreshCounter] = useState<number>(0);
+
+  useEffect(() => {
+    let cancelled = false;
+    const fetchSavedViews = async () => {
+      setLoading(true);
+      setError(null);
+
+      try {
+        const response = await client.listSavedViews();
+        if (!cancelled) {
+          setViews(response.views);
+          setUsername(response.username);
+        }
+      } catch (err) {
+        if (!cancelled) {
+          const errorMessage = err instanceof Error ? err : new Error('Failed to fetch saved views');
+          setError(errorMessage);
+        }
+      } finally {
+        if (!cancelled) {
+          setLoading(false);
+        }
+      }
+    };
+
+    void fetchSavedViews();
+    return () => {
+      cancelled = true;
+    };
+  }, [client, refreshCounter]);
+
+  const refresh = useCallback(() => {
+    setRefreshCounter((prev) => prev + 1);
+  }, []);
+
+  // Runs a view mutation, showing its error as a toast and reloading the views when it succeeds
+  const mutate = useCallback(
+    async <T>(operation: () => Promise<T>, errorTitle: string): Promise<T | null> => {
+      setSaving(true);
+      try {
+        const result = await operation();
+        refresh();
+        return result;
+      } catch (err) {
+        notifications.toasts.addError(err instanceof Error ? err : new Error(errorTitle), {
+          title: errorTitle,
+        });
+        return null;
+      } finally {
+        setSaving(false);
+      }
+    },
+    [notifications, refresh]
+  );
+
+  const notifySaved = useCallback(
+    (view: TodoSavedView) => {
+      notifications.toasts.addSuccess({
+        title: i18n.translate('customPlugin.savedViews.toast.saved.title', {
+          defaultMessage: 'View Saved',
+        }),
+        text: i18n.translate('customPlugin.savedViews.toast.saved.text', {
+          defaultMessage: 'Successfully saved "{name}"',
+          values: { name: view.name },
+        }),
+      });
+    },
+    [notifications]
+  );
+
+  const createView = useCallback(
+    async (request: CreateTodoSavedViewRequest) => {
+      const response = await mutate(
+        () => client.createSavedView(request),
+        i18n.translate('customPlugin.savedViews.error.save', {
+          defaultMessage: 'Failed to Save View',
+        })
+      );
+      if (!response) {
+        return null;
+      }
+      notifySaved(response.view);
+      return response.view;
+    },
+    [client, mutate, notifySaved]
+  );
+
+  const updateView = useCallback(
+    async (id: string, request: UpdateTodoSavedViewRequest) => {
+      const response = await mutate(
+        () => client.updateSavedView(id, request),
+        i18n.translate('customPlugin.savedViews.error.save', {
+          defaultMessage: 'Failed to Save View',
+        })
+      );
+      if (!response) {
+        return null;
+      }
+      notifySaved(response.view);
+      return response.view;
+    },
+    [client, mutate, notifySaved]
+  );
+
+  const deleteView = useCallback(
+    async (id: string) => {
+      const response = await mutate(
+        () => client.deleteSavedView(id),
+        i18n.translate('customPlugin.savedViews.error.delete', {
+          defaultMessage: 'Failed to Delete View',
+        })
+      );
+      return response !== null;
+    },
+    [client, mutate]
+  );
+
+  return {
+    views,
+    username,
+    loading,
+    saving,
+    error,
+    createView,
+    updateView,
+    deleteView,
+    refresh,
+  };
+};
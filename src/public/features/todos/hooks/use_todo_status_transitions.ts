@@ -0,0 +1,52 @@
+import { useState, useEffect } from 'react';
+import {
+  TodoStatusTransitionRules,
+  DEFAULT_TODO_STATUS_TRANSITIONS,
+} from '../../../../common/todo/todo.types';
+import { TodosClient } from '../api/todos.client';
+
+interface UseTodoStatusTransitionsOptions {
+  readonly client: TodosClient;
+}
+
+interface UseTodoStatusTransitionsReturn {
+  readonly rules: TodoStatusTransitionRules;
+  readonly loading: boolean;
+  readonly error: Error | null;
+}
+
+export const useTodoStatusTransitions = (
+  options: UseTodoStatusTransitionsOptions
+): UseTodoStatusTransitionsReturn => {
+  const { client } = options;
+
+  const [rules, setRules] = useState<TodoStatusTransitionRules>(DEFAULT_TODO_STATUS_TRANSITIONS);
+  const [loading, setLoading] = useState<boolean>(true);
+  const [error, setError] = useState<Error | null>(null);
+
+  useEffect(() => {
+    const fetchStatusTransitions = async () => {
+      setLoading(true);
+      setError(null);
+
+      try {
+        const response = await client.getStatusTransitions();
+        setRules(response.rules);
+      } catch (err) {
+        const errorMessage =
+          err instanceof Error ? err : new Error('Failed to fetch status transitions');
+        setError(errorMessage);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    void fetchStatusTransitions();
+  }, [client]);
+
+  return {
+    rules,
+    loading,
+    error,
+  };
+};
@@ -0,0 +1,66 @@
+import { useEffect, useRef } from 'react';
+import { useHistory, useLocation } from 'react-router-dom';
+import {
+  TodosUrlState,
+  readTodosUrlState,
+  writeTodosUrlState,
+} from '../../../utils/todo-url-state';
+
+interface UseTodoUrlStateOptions {
+  /** Current filters, sort, page and tab of the page, first read with readTodosUrlState */
+  readonly state: TodosUrlState;
+  /** Restores the page state when the user moves through the browser history */
+  readonly onNavigate: (state: TodosUrlState) => void;
+}
+
+/**
+ * Keeps the filters, sort, page and tab of the TODO page in the app URL, so
+ * filtered results can be shared as a link and the back button restores them.
+ * The page starts from the state read from the URL it was opened with.
+ *
+ * @remarks
+ * Each change adds a browser history entry, except changes of the search text
+ * alone, which replace the current entry so typing does not add one per key.
+ */
+export const useTodoUrlState = (options: UseTodoUrlStateOptions): void => {
+  const { state, onNavigate } = options;
+  const history = useHistory();
+  const location = useLocation();
+
+  // Query string written for the current state, to tell our own navigation from the user's
+  const writtenSearchRef = useRef(writeTodosUrlState(location.search, state));
+  const writtenStateRef = useRef(state);
+  // Latest query string, whose parameters of other apps are kept when writing
+  const locationSearchRef = useRef(location.search);
+  locationSearchRef.current = location.search;
+
+  useEffect(() => {
+    const search = writeTodosUrlState(locationSearchRef.current, state);
+    if (search === writtenSearchRef.current) {
+      return;
+    }
+    const previous = writtenStateRef.current;
+    const onlySearchTextChanged =
+      previous.searchText !== state.searchText &&
+      writeTodosUrlState('', { ...state, searchText: previous.searchText }) ===
+        writeTodosUrlState('', previous);
+    writtenSearchRef.current = search;
+    writtenStateRef.current = state;
+    if (onlySearchTextChanged) {
+      history.replace({ search });
+    } else {
+      history.push({ search });
+    }
+  }, [state, history]);
+
+  useEffect(() => {
+    const urlState = readTodosUrlState(location.search);
+    const search = writeTodosUrlState(location.search, urlState);
+    if (search === writtenSearchRef.current) {
+      return;
+    }
+    writtenSearchRef.current = search;
+    writtenStateRef.current = urlState;
+    onNavigate(urlState);
+  }, [location.search, onNavigate]);
+};
@@ -0,0 +1,49 @@
+import { useState, useEffect } from 'react';
+import {
+  TodoWipLimits,
+  DEFAULT_TODO_WIP_LIMITS,
+} from '../../../../common/todo/todo.wip_limits';
+import { TodosClient } from '../api/todos.client';
+
+interface UseTodoWipLimitsOptions {
+  readonly client: TodosClient;
+}
+
+interface UseTodoWipLimitsReturn {
+  readonly limits: TodoWipLimits;
+  readonly loading: boolean;
+  readonly error: Error | null;
+}
+
+export const useTodoWipLimits = (options: UseTodoWipLimitsOptions): UseTodoWipLimitsReturn => {
+  const { client } = options;
+
+  const [limits, setLimits] = useState<TodoWipLimits>(DEFAULT_TODO_WIP_LIMITS);
+  const [loading, setLoading] = useState<boolean>(true);
+  const [error, setError] = useState<Error | null>(null);
+
+  useEffect(() => {
+    const fetchWipLimits = async () => {
+      setLoading(true);
+      setError(null);
+
+      try {
+        const response = await client.getWipLimits();
+        setLimits(response.limits);
+      } catch (err) {
+        const errorMessage = err instanceof Error ? err : new Error('Failed to fetch WIP limits');
+        setError(errorMessage);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    void fetchWipLimits();
+  }, [client]);
+
+  return {
+    limits,
+    loading,
+    error,
+  };
+};
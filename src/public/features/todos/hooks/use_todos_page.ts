@@ -1,15 +1,40 @@
-import { useState, useCallback, useMemo, useEffect } from 'react';
+import { useState, useCallback, useMemo, useEffect, useRef } from 'react';
+import { useLocation } from 'react-router-dom';
+import { i18n } from '@osd/i18n';
 import { HttpSetup, NotificationsStart } from '../../../../../src/core/public';
 import { TodosClient } from '../api/todos.client';
 import { useTodos } from './use_todos';
 import { useCreateTodo } from './use_create_todo';
 import { useUpdateTodo } from './use_update_todo';
 import { useDeleteTodo } from './use_delete_todo';
+import { useBulkTodos } from './use_bulk_todos';
 import { useTodoStats } from './use_todo_stats';
 import { useTodoAnalytics } from './use_todo_analytics';
+import { useTodoCustomFields } from './use_todo_custom_fields';
+import { useTodoWipLimits } from './use_todo_wip_limits';
+import { useTodoStatusTransitions } from './use_todo_status_transitions';
+import { useTodoBoard } from './use_todo_board';
+import { useTodoSavedViews } from './use_todo_saved_views';
+import { savedViewToFiltersChange } from './use_todo_filters';
+import { useTodoUrlState } from './use_todo_url_state';
+import { CalendarRange } from './use_todo_calendar';
+import { GanttRange } from './use_todo_gantt';
 import { Todo, TodoStatus, TodoPriority, TodoSeverity, TodoSortField } from '../../../../common/todo/todo.types';
-import { CreateTodoRequest, UpdateTodoRequest } from '../../../../common/todo/todo.dtos';
+import {
+  CreateTodoRequest,
+  UpdateTodoRequest,
+  BulkTodoAction,
+} from '../../../../common/todo/todo.dtos';
+import { TodoExportFormat } from '../../../../common/todo/todo.export';
+import { TodoReportFormat } from '../../../../common/todo/todo.report';
+import {
+  TodoSavedView,
+  TodoSavedViewFilters,
+  TodoViewTab,
+} from '../../../../common/todo/todo.saved_views';
+import { MAX_PAGE_SIZE, MAX_BULK_ACTIONS } from '../../../../common/constants';
 import { DateRangeFilters } from '../ui/TodoFilters';
+import { TodosUrlState, readTodosUrlState } from '../../../utils/todo-url-state';
 import moment from 'moment';
 
 interface UseTodosPageParams {
@@ -21,29 +46,87 @@ interface UseTodosPageParams {
   };
 }
 
+// Downloads through a temporary link, so the server's attachment file name is used
+const downloadFile = (url: string) => {
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = '';
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+};
+
 export const useTodosPage = ({ http, notifications, dateRange }: UseTodosPageParams) => {
   const client = useMemo(() => new TodosClient(http), [http]);
 
+  // Filters, sort, page and tab the page was opened with, e.g. from a shared link
+  const location = useLocation();
+  const [initialUrlState] = useState(() => readTodosUrlState(location.search));
+
   // UI State
-  const [selectedTab, setSelectedTab] = useState<'table' | 'analytics' | 'kanban'>('table');
+  const [selectedTab, setSelectedTab] = useState<TodoViewTab>(initialUrlState.tab);
   const [isFormOpen, setIsFormOpen] = useState(false);
   const [todoToEdit, setTodoToEdit] = useState<Todo | null>(null);
+  const [todoToView, setTodoToView] = useState<Todo | null>(null);
+  const [parentForNewTodo, setParentForNewTodo] = useState<Todo | null>(null);
+  const [isImportOpen, setIsImportOpen] = useState(false);
   const [complianceFrameworkFilter, setComplianceFrameworkFilter] = useState<string | undefined>(undefined);
 
   // Filter State
-  const [searchText, setSearchText] = useState<string>('');
-  const [selectedStatuses, setSelectedStatuses] = useState<TodoStatus[]>([]);
-  const [selectedTags, setSelectedTags] = useState<string[]>([]);
-  const [selectedPriorities, setSelectedPriorities] = useState<TodoPriority[]>([]);
-  const [selectedSeverities, setSelectedSeverities] = useState<TodoSeverity[]>([]);
-  const [showOverdueOnly, setShowOverdueOnly] = useState<boolean>(false);
-  const [dateFilters, setDateFilters] = useState<DateRangeFilters>({});
+  const [searchText, setSearchText] = useState<string>(initialUrlState.searchText);
+  const [selectedStatuses, setSelectedStatuses] = useState<TodoStatus[]>(initialUrlState.statuses);
+  const [selectedTags, setSelectedTags] = useState<string[]>(initialUrlState.tags);
+  const [selectedPriorities, setSelectedPriorities] = useState<TodoPriority[]>(initialUrlState.priorities);
+  const [selectedSeverities, setSelectedSeverities] = useState<TodoSeverity[]>(initialUrlState.severities);
+  const [showOverdueOnly, setShowOverdueOnly] = useState<boolean>(initialUrlState.showOverdueOnly);
+  const [dateFilters, setDateFilters] = useState<DateRangeFilters>(initialUrlState.dateFilters);
 
   // Pagination and Sorting State
-  const [currentPage, setCurrentPage] = useState(1);
-  const [pageSize, setPageSize] = useState(20);
-  const [sortField, setSortField] = useState<TodoSortField>('createdAt');
-  const [sortDirection, setSortDirection] = useState<'asc' | 'desc'>('desc');
+  const [currentPage, setCurrentPage] = useState(initialUrlState.page);
+  const [pageSize, setPageSize] = useState(initialUrlState.pageSize);
+  const [sortField, setSortField] = useState<TodoSortField>(initialUrlState.sortField);
+  const [sortDirection, setSortDirection] = useState<'asc' | 'desc'>(initialUrlState.sortDirection);
+
+  // Date window shown by the calendar tab, once it has been opened
+  const [calendarRange, setCalendarRange] = useState<CalendarRange | null>(null);
+  // Date window shown by the timeline tab, once it has been opened
+  const [ganttRange, setGanttRange] = useState<GanttRange | null>(null);
+
+  // Keep the state in the URL, and restore it when the user goes back or forward
+  const urlState = useMemo<TodosUrlState>(
+    () => ({
+      searchText: searchText || '',
+      statuses: selectedStatuses,
+      tags: selectedTags,
+      priorities: selectedPriorities,
+      severities: selectedSeverities,
+      showOverdueOnly,
+      dateFilters,
+      sortField,
+      sortDirection,
+      page: currentPage,
+      pageSize,
+      tab: selectedTab,
+    }),
+    [searchText, selectedStatuses, selectedTags, selectedPriorities, selectedSeverities, showOverdueOnly, dateFilters, sortField, sortDirection, currentPage, pageSize, selectedTab]
+  );
+
+  const handleUrlNavigate = useCallback((state: TodosUrlState) => {
+    setSearchText(state.searchText);
+    setSelectedStatuses(state.statuses);
+    setSelectedTags(state.tags);
+    setSelectedPriorities(state.priorities);
+    setSelectedSeverities(state.severities);
+    setShowOverdueOnly(state.showOverdueOnly);
+    setDateFilters(state.dateFilters);
+    setSortField(state.sortField);
+    setSortDirection(state.sortDirection);
+    setCurrentPage(state.page);
+    setPageSize(state.pageSize);
+    setSelectedTab(state.tab);
+  }, []);
+
+  useTodoUrlState({ state: urlState, onNavigate: handleUrlNavigate });
 
   // Convert dateRange from TopNavMenu to createdAfter/createdBefore filters
   useEffect(() => {
@@ -91,6 +174,106 @@ export const useTodosPage = ({ http, notifications, dateRange }: UseTodosPagePar
     initialParams: queryParams,
   });
 
+  // The calendar loads every TODO due in its window, within the due date filters if any
+  const calendarQueryParams = useMemo(() => {
+    const { page: _page, pageSize: _pageSize, sortField: _sortField, ...filters } = queryParams;
+    const dueDateAfter = [calendarRange?.start, dateFilters.dueDateAfter]
+      .filter((date): date is string => !!date)
+      .map((date) => moment(date));
+    const dueDateBefore = [calendarRange?.end, dateFilters.dueDateBefore]
+      .filter((date): date is string => !!date)
+      .map((date) => moment(date));
+    return {
+      ...filters,
+      pageSize: MAX_PAGE_SIZE,
+      sortField: 'dueDate' as const,
+      sortDirection: 'asc' as const,
+      dueDateAfter: dueDateAfter.length > 0 ? moment.max(dueDateAfter).toISOString() : undefined,
+      dueDateBefore: dueDateBefore.length > 0 ? moment.min(dueDateBefore).toISOString() : undefined,
+    };
+  }, [queryParams, calendarRange, dateFilters]);
+
+  const {
+    todos: calendarTodos,
+    pagination: calendarPagination,
+    loading: calendarLoading,
+    error: calendarError,
+    refresh: refreshCalendarTodos,
+  } = useTodos({
+    client,
+    initialParams: calendarQueryParams,
+    autoFetch: selectedTab === 'calendar' && calendarRange !== null,
+  });
+
+  // The timeline loads the TODOs due from the start of its window, soonest first;
+  // TODOs starting after the window are left out when drawn
+  const ganttQueryParams = useMemo(() => {
+    const { page: _page, pageSize: _pageSize, sortField: _sortField, ...filters } = queryParams;
+    const dueDateAfter = [ganttRange?.start, dateFilters.dueDateAfter]
+      .filter((date): date is string => !!date)
+      .map((date) => moment(date));
+    return {
+      ...filters,
+      pageSize: MAX_PAGE_SIZE,
+      sortField: 'dueDate' as const,
+      sortDirection: 'asc' as const,
+      dueDateAfter: dueDateAfter.length > 0 ? moment.max(dueDateAfter).toISOString() : undefined,
+    };
+  }, [queryParams, ganttRange, dateFilters]);
+
+  const {
+    todos: ganttTodos,
+    pagination: ganttPagination,
+    loading: ganttLoading,
+    error: ganttError,
+    refresh: refreshGanttTodos,
+  } = useTodos({
+    client,
+    initialParams: ganttQueryParams,
+    autoFetch: selectedTab === 'gantt' && ganttRange !== null,
+  });
+
+  // The Kanban board loads the first TODOs of each status, in its own order
+  const boardQueryParams = useMemo(() => {
+    const { page: _page, pageSize: _pageSize, sortField: _sortField, sortDirection: _sortDirection, ...filters } = queryParams;
+    return filters;
+  }, [queryParams]);
+
+  const {
+    todos: boardTodos,
+    totals: boardTotals,
+    loading: boardLoading,
+    loadingMore: boardLoadingMore,
+    error: boardError,
+    refresh: refreshBoard,
+    loadMore: handleBoardLoadMore,
+  } = useTodoBoard({
+    client,
+    notifications,
+    params: boardQueryParams,
+    autoFetch: selectedTab === 'kanban',
+  });
+
+  // TODOs left unloaded are only missing from the window when the last one loaded is due inside it
+  const ganttTruncated = useMemo(() => {
+    if (!ganttPagination || !ganttRange || ganttPagination.totalItems <= ganttTodos.length) {
+      return false;
+    }
+    const lastDueDate = ganttTodos.length > 0 ? ganttTodos[ganttTodos.length - 1].dueDate : undefined;
+    return !!lastDueDate && lastDueDate <= ganttRange.end;
+  }, [ganttPagination, ganttRange, ganttTodos]);
+
+  // The board, calendar and timeline refetch whenever they are opened, so they only need refreshing while shown
+  const refreshTabViews = useCallback(() => {
+    if (selectedTab === 'kanban') {
+      refreshBoard();
+    } else if (selectedTab === 'calendar') {
+      refreshCalendarTodos();
+    } else if (selectedTab === 'gantt') {
+      refreshGanttTodos();
+    }
+  }, [selectedTab, refreshBoard, refreshCalendarTodos, refreshGanttTodos]);
+
   const { stats, loading: statsLoading, error: statsError, refresh: refreshStats } = useTodoStats({
     client,
   });
@@ -105,6 +288,18 @@ export const useTodosPage = ({ http, notifications, dateRange }: UseTodosPagePar
     filters: analyticsFilters,
   });
 
+  const { fields: customFields } = useTodoCustomFields({ client });
+  const { limits: wipLimits } = useTodoWipLimits({ client });
+  const { rules: statusTransitions } = useTodoStatusTransitions({ client });
+  const {
+    views: savedViews,
+    username,
+    saving: savedViewSaving,
+    createView,
+    updateView,
+    deleteView: handleDeleteSavedView,
+  } = useTodoSavedViews({ client, notifications });
+
   // CRUD hooks
   const { createTodo, loading: createLoading } = useCreateTodo({
     client,
@@ -112,28 +307,51 @@ export const useTodosPage = ({ http, notifications, dateRange }: UseTodosPagePar
     onSuccess: () => {
       setIsFormOpen(false);
       refresh();
+      refreshTabViews();
       refreshStats();
       refreshAnalytics();
     },
   });
 
-  const { updateTodo, loading: updateLoading } = useUpdateTodo({
+  const {
+    updateTodo,
+    loading: updateLoading,
+    conflict: updateConflict,
+    clearConflict,
+  } = useUpdateTodo({
     client,
     notifications,
-    onSuccess: () => {
+    onSuccess: (updatedTodo) => {
       setIsFormOpen(false);
       setTodoToEdit(null);
+      setTodoToView((prev) => (prev && prev.id === updatedTodo.id ? updatedTodo : prev));
       refresh();
+      refreshTabViews();
       refreshStats();
       refreshAnalytics();
     },
   });
 
   const { deleteTodo } = useDeleteTodo({
+    client,
+    notifications,
+    onSuccess: (id) => {
+      setTodoToView((prev) => (prev && prev.id === id ? null : prev));
+      refresh();
+      refreshTabViews();
+      refreshStats();
+      refreshAnalytics();
+    },
+  });
+
+  const { runBulk: handleBulkAction, loading: bulkLoading } = useBulkTodos({
     client,
     notifications,
     onSuccess: () => {
+      // The detail flyout may show a TODO that was just changed or removed
+      setTodoToView(null);
       refresh();
+      refreshTabViews();
       refreshStats();
       refreshAnalytics();
     },
@@ -162,6 +380,49 @@ export const useTodosPage = ({ http, notifications, dateRange }: UseTodosPagePar
     []
   );
 
+  // Replaces the filters, sort and tab with the ones stored in a saved view
+  const handleApplySavedView = useCallback(
+    (view: TodoSavedView) => {
+      handleFiltersChange(savedViewToFiltersChange(view.filters));
+      setSortField(view.sortField);
+      setSortDirection(view.sortDirection);
+      setSelectedTab(view.tab);
+    },
+    [handleFiltersChange]
+  );
+
+  // Saves the current filters, sort and tab, replacing one of the user's views when asked
+  const handleSaveView = useCallback(
+    async (name: string, shared: boolean, replaceId?: string) => {
+      const filters: TodoSavedViewFilters = {
+        searchText,
+        status: selectedStatuses,
+        tags: selectedTags,
+        priority: selectedPriorities,
+        severity: selectedSeverities,
+        isOverdue: showOverdueOnly,
+        ...dateFilters,
+      };
+      const request = { name, shared, filters, sortField, sortDirection, tab: selectedTab };
+      const view = replaceId ? await updateView(replaceId, request) : await createView(request);
+      return view !== null;
+    },
+    [
+      searchText,
+      selectedStatuses,
+      selectedTags,
+      selectedPriorities,
+      selectedSeverities,
+      showOverdueOnly,
+      dateFilters,
+      sortField,
+      sortDirection,
+      selectedTab,
+      createView,
+      updateView,
+    ]
+  );
+
   const handleTableChange = useCallback(
     (page: number, newPageSize: number, newSortField?: TodoSortField, newSortDirection?: 'asc' | 'desc') => {
       setCurrentPage(page);
@@ -174,6 +435,13 @@ export const useTodosPage = ({ http, notifications, dateRange }: UseTodosPagePar
 
   const handleCreateClick = useCallback(() => {
     setTodoToEdit(null);
+    setParentForNewTodo(null);
+    setIsFormOpen(true);
+  }, []);
+
+  const handleAddSubtaskClick = useCallback((parent: Todo) => {
+    setTodoToEdit(null);
+    setParentForNewTodo(parent);
     setIsFormOpen(true);
   }, []);
 
@@ -182,14 +450,44 @@ export const useTodosPage = ({ http, notifications, dateRange }: UseTodosPagePar
     setIsFormOpen(true);
   }, []);
 
+  const handleViewClick = useCallback((todo: Todo) => {
+    setTodoToView(todo);
+  }, []);
+
+  // Open a TODO that may not be on the current page, e.g. a blocker linked from a card
+  const handleOpenTodoById = useCallback(
+    async (id: string) => {
+      try {
+        const response = await client.getById(id);
+        setTodoToView(response.todo);
+      } catch (err) {
+        notifications.toasts.addError(err instanceof Error ? err : new Error('Failed to load TODO'), {
+          title: i18n.translate('customPlugin.toast.error.loadFailed', {
+            defaultMessage: 'Failed to Load TODO',
+          }),
+        });
+      }
+    },
+    [client, notifications]
+  );
+
+  const handleDetailClose = useCallback(() => {
+    setTodoToView(null);
+  }, []);
+
   const handleFormClose = useCallback(() => {
     setIsFormOpen(false);
     setTodoToEdit(null);
-  }, []);
+    clearConflict();
+  }, [clearConflict]);
+
+  // Last update submitted from the form, kept so it can be re-sent after a conflict
+  const lastUpdateRef = useRef<UpdateTodoRequest | null>(null);
 
   const handleFormSubmit = useCallback(
     async (data: CreateTodoRequest | UpdateTodoRequest) => {
       if (todoToEdit) {
+        lastUpdateRef.current = data as UpdateTodoRequest;
         await updateTodo(todoToEdit.id, data as UpdateTodoRequest);
       } else {
         await createTodo(data as CreateTodoRequest);
@@ -198,6 +496,110 @@ export const useTodosPage = ({ http, notifications, dateRange }: UseTodosPagePar
     [todoToEdit, updateTodo, createTodo]
   );
 
+  // Discard local edits and continue editing the latest server copy
+  const handleConflictReload = useCallback(() => {
+    if (updateConflict) {
+      setTodoToEdit(updateConflict);
+      clearConflict();
+    }
+  }, [updateConflict, clearConflict]);
+
+  // Re-send the rejected edits against the latest version
+  const handleConflictOverwrite = useCallback(async () => {
+    if (todoToEdit && updateConflict && lastUpdateRef.current) {
+      await updateTodo(todoToEdit.id, {
+        ...lastUpdateRef.current,
+        version: updateConflict.version,
+      });
+    }
+  }, [todoToEdit, updateConflict, updateTodo]);
+
+  // Download every TODO the current filters match, in the table's sort order
+  const handleExport = useCallback(
+    (format: TodoExportFormat) => {
+      const { page: _page, pageSize: _pageSize, ...filters } = queryParams;
+      downloadFile(client.getExportUrl({ ...filters, format }));
+    },
+    [client, queryParams]
+  );
+
+  const handleOscalExport = useCallback(
+    (complianceFramework: string) => {
+      downloadFile(client.getOscalExportUrl({ complianceFramework }));
+    },
+    [client]
+  );
+
+  const handleGenerateReport = useCallback(
+    (format: TodoReportFormat) => {
+      downloadFile(
+        client.getReportUrl({
+          format,
+          complianceFramework: complianceFrameworkFilter,
+          createdAfter: dateFilters.createdAfter,
+          createdBefore: dateFilters.createdBefore,
+        })
+      );
+    },
+    [client, complianceFrameworkFilter, dateFilters]
+  );
+
+  const handleImportClick = useCallback(() => {
+    setIsImportOpen(true);
+  }, []);
+
+  const handleImportClose = useCallback(() => {
+    setIsImportOpen(false);
+  }, []);
+
+  const handleImported = useCallback(() => {
+    refresh();
+    refreshTabViews();
+    refreshStats();
+    refreshAnalytics();
+  }, [refresh, refreshTabViews, refreshStats, refreshAnalytics]);
+
+  // Respaces the Kanban ranks in the background; the board keeps working with long ranks meanwhile
+  const handleRanksDense = useCallback(async () => {
+    try {
+      await client.rebalanceRanks();
+      refreshBoard();
+    } catch (err) {
+      console.error('[Kanban] Failed to rebalance ranks:', err);
+    }
+  }, [client, refreshBoard]);
+
+  // Rank unranked board cards so that a card can be dropped below them
+  const handleRankTodos = useCallback(
+    async (ranks: Readonly<Record<string, string>>): Promise<boolean> => {
+      const actions: BulkTodoAction[] = Object.entries(ranks).map(([id, rank]) => ({
+        action: 'update',
+        id,
+        changes: { rank },
+      }));
+      try {
+        for (let start = 0; start < actions.length; start += MAX_BULK_ACTIONS) {
+          const response = await client.bulk({
+            actions: actions.slice(start, start + MAX_BULK_ACTIONS),
+          });
+          const failure = response.results.find((result) => !result.success);
+          if (failure) {
+            throw new Error(failure.error?.message ?? 'Failed to rank TODO');
+          }
+        }
+        return true;
+      } catch (err) {
+        notifications.toasts.addError(err instanceof Error ? err : new Error('Failed to rank TODOs'), {
+          title: i18n.translate('customPlugin.toast.error.rankFailed', {
+            defaultMessage: 'Failed to Move Card',
+          }),
+        });
+        return false;
+      }
+    },
+    [client, notifications]
+  );
+
   const handleFrameworkFilterChange = useCallback((framework: string | undefined) => {
     setComplianceFrameworkFilter(framework);
   }, []);
@@ -209,6 +611,17 @@ export const useTodosPage = ({ http, notifications, dateRange }: UseTodosPagePar
       pagination,
       stats,
       analytics,
+      customFields,
+      wipLimits,
+      statusTransitions,
+      boardTodos,
+      boardTotals,
+      calendarTodos,
+      calendarTotal: calendarPagination ? calendarPagination.totalItems : 0,
+      ganttTodos,
+      ganttTruncated,
+      savedViews,
+      username,
       client,
     },
     // UI State
@@ -216,14 +629,27 @@ export const useTodosPage = ({ http, notifications, dateRange }: UseTodosPagePar
       selectedTab,
       isFormOpen,
       todoToEdit,
+      todoToView,
+      parentForNewTodo,
+      isImportOpen,
       loading,
       error,
+      boardLoading,
+      boardLoadingMore,
+      boardError,
+      calendarLoading,
+      calendarError,
+      ganttLoading,
+      ganttError,
       statsLoading,
       statsError,
       analyticsLoading,
       analyticsError,
       createLoading,
       updateLoading,
+      updateConflict,
+      bulkLoading,
+      savedViewSaving,
       searchText,
       selectedStatuses,
       selectedTags,
@@ -238,14 +664,36 @@ export const useTodosPage = ({ http, notifications, dateRange }: UseTodosPagePar
     actions: {
       setSelectedTab,
       handleFiltersChange,
+      handleApplySavedView,
+      handleSaveView,
+      handleDeleteSavedView,
       handleTableChange,
       handleCreateClick,
+      handleAddSubtaskClick,
       handleEditClick,
+      handleViewClick,
+      handleOpenTodoById,
+      handleDetailClose,
       handleFormClose,
       handleFormSubmit,
+      handleConflictReload,
+      handleConflictOverwrite,
       updateTodo,
       deleteTodo,
+      handleBulkAction,
+      handleExport,
+      handleOscalExport,
+      handleGenerateReport,
+      handleImportClick,
+      handleImportClose,
+      handleImported,
       refreshAnalytics,
+      refreshTodos: refresh,
+      handleCalendarRangeChange: setCalendarRange,
+      handleGanttRangeChange: setGanttRange,
+      handleRanksDense,
+      handleRankTodos,
+      handleBoardLoadMore,
       handleFrameworkFilterChange,
     },
   };
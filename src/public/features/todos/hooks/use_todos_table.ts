@@ -1,24 +1,70 @@
-import { useState, useCallback } from 'react';
+import { useState, useCallback, useMemo } from 'react';
 import { CriteriaWithPagination } from '@elastic/eui';
-import { Todo, TodoSortField } from '../../../../common/todo/todo.types';
-import { PaginationMeta } from '../../../../common/todo/todo.dtos';
+import { Todo, TodoStatus, TodoSortField } from '../../../../common/todo/todo.types';
+import { BulkTodoAction, BulkTodosResponse, PaginationMeta } from '../../../../common/todo/todo.dtos';
 
 interface UseTodosTableParams {
+  todos: Todo[];
   pagination: PaginationMeta | null;
   sortField: TodoSortField;
   sortDirection: 'asc' | 'desc';
   onDelete: (id: string) => void;
   onTableChange: (page: number, pageSize: number, sortField?: TodoSortField, sortDirection?: 'asc' | 'desc') => void;
+  onBulkAction?: (actions: BulkTodoAction[]) => Promise<BulkTodosResponse | null>;
 }
 
+/**
+ * Orders a page of TODOs so that subtasks follow their parent, keeping the
+ * current sort order among siblings. Subtasks whose parent is not on the
+ * page are shown at the top level.
+ */
+const nestTodos = (todos: Todo[]): { items: Todo[]; depthById: Record<string, number> } => {
+  const idsOnPage = new Set(todos.map((todo) => todo.id));
+  const childrenByParent = new Map<string, Todo[]>();
+  const roots: Todo[] = [];
+
+  todos.forEach((todo) => {
+    if (todo.parentId && todo.parentId !== todo.id && idsOnPage.has(todo.parentId)) {
+      childrenByParent.set(todo.parentId, [...(childrenByParent.get(todo.parentId) ?? []), todo]);
+    } else {
+      roots.push(todo);
+    }
+  });
+
+  const items: Todo[] = [];
+  const depthById: Record<string, number> = {};
+  const visit = (todo: Todo, depth: number) => {
+    if (todo.id in depthById) {
+      return;
+    }
+    items.push(todo);
+    depthById[todo.id] = depth;
+    (childrenByParent.get(todo.id) ?? []).forEach((child) => visit(child, depth + 1));
+  };
+  roots.forEach((todo) => visit(todo, 0));
+  // Rows caught in a parent cycle are never reached from a root
+  todos.forEach((todo) => visit(todo, 0));
+
+  return { items, depthById };
+};
+
 export const useTodosTable = ({
+  todos,
   pagination,
   sortField,
   sortDirection,
   onDelete,
   onTableChange,
+  onBulkAction,
 }: UseTodosTableParams) => {
   const [todoToDelete, setTodoToDelete] = useState<Todo | null>(null);
+  const [selectedTodos, setSelectedTodos] = useState<Todo[]>([]);
+  // Bumped to remount the table, which is the only way to clear EuiBasicTable's selection
+  const [selectionKey, setSelectionKey] = useState(0);
+  const [bulkTag, setBulkTag] = useState('');
+  const [isBulkDeleteConfirmOpen, setIsBulkDeleteConfirmOpen] = useState(false);
+
+  const { items: tableItems, depthById } = useMemo(() => nestTodos(todos), [todos]);
 
   const handleDeleteClick = useCallback((todo: Todo) => {
     setTodoToDelete(todo);
@@ -35,6 +81,93 @@ export const useTodosTable = ({
     setTodoToDelete(null);
   }, []);
 
+  const handleSelectionChange = useCallback((items: Todo[]) => {
+    setSelectedTodos(items);
+  }, []);
+
+  const clearSelection = useCallback(() => {
+    setSelectedTodos([]);
+    setSelectionKey((key) => key + 1);
+  }, []);
+
+  const runBulkAction = useCallback(
+    async (bulkActions: BulkTodoAction[]) => {
+      if (!onBulkAction || bulkActions.length === 0) {
+        return;
+      }
+
+      const response = await onBulkAction(bulkActions);
+      if (response && response.summary.succeeded > 0) {
+        clearSelection();
+      }
+    },
+    [onBulkAction, clearSelection]
+  );
+
+  const handleBulkStatusChange = useCallback(
+    async (status: TodoStatus) => {
+      await runBulkAction(
+        selectedTodos
+          .filter((todo) => todo.status !== status)
+          .map((todo) => ({
+            action: 'update' as const,
+            id: todo.id,
+            changes: { status, version: todo.version },
+          }))
+      );
+    },
+    [selectedTodos, runBulkAction]
+  );
+
+  const handleBulkAddTag = useCallback(async () => {
+    const tag = bulkTag.trim();
+    if (!tag) {
+      return;
+    }
+
+    await runBulkAction(
+      selectedTodos
+        .filter((todo) => !todo.tags.includes(tag))
+        .map((todo) => ({
+          action: 'update' as const,
+          id: todo.id,
+          changes: { tags: [...todo.tags, tag], version: todo.version },
+        }))
+    );
+    setBulkTag('');
+  }, [bulkTag, selectedTodos, runBulkAction]);
+
+  const handleBulkRemoveTag = useCallback(async () => {
+    const tag = bulkTag.trim();
+    if (!tag) {
+      return;
+    }
+
+    await runBulkAction(
+      selectedTodos
+        .filter((todo) => todo.tags.includes(tag))
+        .map((todo) => ({
+          action: 'update' as const,
+          id: todo.id,
+          changes: { tags: todo.tags.filter((existing) => existing !== tag), version: todo.version },
+        }))
+    );
+    setBulkTag('');
+  }, [bulkTag, selectedTodos, runBulkAction]);
+
+  const handleBulkDeleteClick = useCallback(() => {
+    setIsBulkDeleteConfirmOpen(true);
+  }, []);
+
+  const handleBulkDeleteConfirm = useCallback(async () => {
+    setIsBulkDeleteConfirmOpen(false);
+    await runBulkAction(selectedTodos.map((todo) => ({ action: 'delete' as const, id: todo.id })));
+  }, [selectedTodos, runBulkAction]);
+
+  const handleBulkDeleteCancel = useCallback(() => {
+    setIsBulkDeleteConfirmOpen(false);
+  }, []);
+
   const handleTableChange = useCallback(
     ({ page, sort }: CriteriaWithPagination<Todo>) => {
       const pageIndex = page?.index ?? 0;
@@ -65,15 +198,30 @@ export const useTodosTable = ({
 
   return {
     data: {
+      tableItems,
+      depthById,
       todoToDelete,
       paginationConfig,
       sortingConfig,
+      selectedTodos,
+      selectionKey,
+      bulkTag,
+      isBulkDeleteConfirmOpen,
     },
     actions: {
       handleDeleteClick,
       handleDeleteConfirm,
       handleDeleteCancel,
       handleTableChange,
+      handleSelectionChange,
+      clearSelection,
+      setBulkTag,
+      handleBulkStatusChange,
+      handleBulkAddTag,
+      handleBulkRemoveTag,
+      handleBulkDeleteClick,
+      handleBulkDeleteConfirm,
+      handleBulkDeleteCancel,
     },
   };
 };
@@ -15,6 +15,15 @@ interface UseUpdateTodoReturn {
   updateTodo: (id: string, request: UpdateTodoRequest) => Promise<Todo | null>;
   loading: boolean;
   error: Error | null;
+  /** Latest server copy of a TODO whose update was rejected as stale (HTTP 409), if any */
+  conflict: Todo | null;
+  clearConflict: () => void;
+}
+
+interface ApiErrorBody {
+  statusCode?: number;
+  message?: string;
+  details?: { current?: Todo };
 }
 
 export const useUpdateTodo = ({
@@ -24,11 +33,17 @@ export const useUpdateTodo = ({
 }: UseUpdateTodoOptions): UseUpdateTodoReturn => {
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<Error | null>(null);
+  const [conflict, setConflict] = useState<Todo | null>(null);
+
+  const clearConflict = useCallback(() => {
+    setConflict(null);
+  }, []);
 
   const updateTodo = useCallback(
     async (id: string, request: UpdateTodoRequest): Promise<Todo | null> => {
       setLoading(true);
       setError(null);
+      setConflict(null);
 
       try {
         const response = await client.update(id, request);
@@ -53,10 +68,22 @@ export const useUpdateTodo = ({
         const errorInstance = err instanceof Error ? err : new Error('Failed to update TODO');
         setError(errorInstance);
 
+        const errorBody = (err as { body?: ApiErrorBody })?.body;
+
+        // Stale version: hand the current server copy to the caller instead of a toast
+        if (errorBody?.statusCode === 409 && errorBody.details?.current) {
+          setConflict(errorBody.details.current);
+          return null;
+        }
+
+        // Business rule violations (HTTP 422) carry an explanation in the response body
+        const serverMessage = errorBody?.message;
+
         notifications.toasts.addError(errorInstance, {
           title: i18n.translate('customPlugin.toast.error.updateFailed', {
             defaultMessage: 'Failed to Update TODO',
           }),
+          ...(serverMessage && { toastMessage: serverMessage }),
         });
 
         return null;
@@ -71,5 +98,7 @@ export const useUpdateTodo = ({
     updateTodo,
     loading,
     error,
+    conflict,
+    clearConflict,
   };
 };
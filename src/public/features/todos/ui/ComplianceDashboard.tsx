@@ -11,6 +11,7 @@ import {
   EuiButton,
   EuiPanel,
   EuiText,
+  EuiToolTip,
 } from '@elastic/eui';
 import { FormattedMessage } from '@osd/i18n/react';
 import { AnalyticsStats } from '../../../../common/todo/todo.types';
@@ -26,6 +27,7 @@ interface ComplianceDashboardProps {
   readonly error: Error | null;
   readonly onRefresh: () => void;
   readonly onFrameworkChange?: (framework: string | undefined) => void;
+  readonly onExportOscal?: (framework: string) => void;
 }
 
 export const ComplianceDashboard: React.FC<ComplianceDashboardProps> = ({
@@ -34,10 +36,15 @@ export const ComplianceDashboard: React.FC<ComplianceDashboardProps> = ({
   error,
   onRefresh,
   onFrameworkChange,
+  onExportOscal,
 }) => {
-  const { data: hookData, actions } = useComplianceDashboard({ data, onFrameworkChange });
-  const { selectedFramework, frameworkOptions } = hookData;
-  const { handleFrameworkChange } = actions;
+  const { data: hookData, actions } = useComplianceDashboard({
+    data,
+    onFrameworkChange,
+    onExportOscal,
+  });
+  const { selectedFramework, frameworkOptions, canExportOscal } = hookData;
+  const { handleFrameworkChange, handleExportOscal } = actions;
   if (loading) {
     return (
       <EuiFlexGroup justifyContent="center" alignItems="center" style={{ minHeight: '400px' }}>
@@ -145,6 +152,33 @@ export const ComplianceDashboard: React.FC<ComplianceDashboardProps> = ({
             <FormattedMessage id="customPlugin.actions.button.refresh" defaultMessage="Refresh" />
           </EuiButton>
         </EuiFlexItem>
+        {onExportOscal && (
+          <EuiFlexItem grow={false}>
+            <EuiToolTip
+              content={
+                canExportOscal ? undefined : (
+                  <FormattedMessage
+                    id="customPlugin.compliance.oscal.disabled"
+                    defaultMessage="Select a framework with open tasks to download its POA&M"
+                  />
+                )
+              }
+            >
+              <EuiButton
+                onClick={handleExportOscal}
+                iconType="download"
+                size="s"
+                isDisabled={!canExportOscal}
+                data-test-subj="complianceOscalExport"
+              >
+                <FormattedMessage
+                  id="customPlugin.compliance.oscal.download"
+                  defaultMessage="Download POA&M (OSCAL)"
+                />
+              </EuiButton>
+            </EuiToolTip>
+          </EuiFlexItem>
+        )}
         <EuiFlexItem>
           <EuiPanel paddingSize="s" color="subdued">
             <EuiText size="s">
@@ -1,14 +1,36 @@
-import React, { useCallback } from "react";
+import React from "react";
 import {
+  EuiAccordion,
+  EuiButton,
+  EuiCallOut,
+  EuiConfirmModal,
   EuiFlexGroup,
   EuiFlexItem,
+  EuiFormRow,
   EuiLoadingSpinner,
   EuiDragDropContext,
+  EuiSelect,
   EuiSpacer,
+  EuiTextArea,
+  EuiTitle,
 } from "@elastic/eui";
-import { Todo, TodoStatus } from "../../../../common/todo/todo.types";
-import { useKanbanBoard } from "../hooks/use_kanban_board";
+import { i18n } from "@osd/i18n";
+import { FormattedMessage } from "@osd/i18n/react";
+import {
+  Todo,
+  TodoStatus,
+  TodoStatusTransitionRules,
+  MAX_STATUS_REASON_LENGTH,
+} from "../../../../common/todo/todo.types";
+import { TodoWipLimits } from "../../../../common/todo/todo.wip_limits";
+import {
+  KanbanCardChanges,
+  KanbanSwimlane,
+  KANBAN_SWIMLANES,
+  useKanbanBoard,
+} from "../hooks/use_kanban_board";
 import { KanbanColumn } from "./components/KanbanColumn";
+import { KanbanColumnTitle } from "./components/KanbanColumnTitle";
 
 /**
  * Props for KanbanBoard component
@@ -20,17 +42,63 @@ export interface KanbanBoardProps {
   readonly loading: boolean;
   /** Error state from parent */
   readonly error: Error | null;
-  /** Function to update a todo's status */
-  readonly onStatusChange: (
+  /**
+   * Function to update a dropped todo's status and rank, and its swimlane field when it
+   * changes lanes; resolves to null when the update is rejected
+   */
+  readonly onMove: (
     todoId: string,
-    status: TodoStatus
-  ) => Promise<void>;
+    changes: KanbanCardChanges
+  ) => Promise<Todo | null>;
   /** Callback when edit is clicked */
   readonly onEdit: (todo: Todo) => void;
   /** Callback when delete is clicked */
   readonly onDelete: (todoId: string) => void;
+  /** Callback when a blocking TODO is clicked */
+  readonly onOpenTodo?: (todoId: string) => void;
+  /** Callback when the card ranks should be rebalanced */
+  readonly onRanksDense?: () => void;
+  /** Function to rank unranked cards before a card is dropped below them */
+  readonly onRankTodos?: (ranks: Readonly<Record<string, string>>) => Promise<boolean>;
+  /** Work-in-progress limits of the columns */
+  readonly wipLimits?: TodoWipLimits;
+  /** Status workflow, to ask for a reason when a card is dropped in a column that requires one */
+  readonly statusTransitions?: TodoStatusTransitionRules;
+  /** Count of todos of each status matching the filters, when only the first ones are loaded */
+  readonly totals?: Readonly<Partial<Record<TodoStatus, number>>>;
+  /** Statuses whose next todos are being loaded */
+  readonly loadingMore?: readonly TodoStatus[];
+  /** Callback to load the next todos of a column */
+  readonly onLoadMore?: (status: TodoStatus) => void;
 }
 
+const SWIMLANE_LABELS: Record<KanbanSwimlane, string> = {
+  none: i18n.translate("customPlugin.kanban.swimlane.none", {
+    defaultMessage: "None",
+  }),
+  assignee: i18n.translate("customPlugin.kanban.swimlane.assignee", {
+    defaultMessage: "Assignee",
+  }),
+  priority: i18n.translate("customPlugin.kanban.swimlane.priority", {
+    defaultMessage: "Priority",
+  }),
+  severity: i18n.translate("customPlugin.kanban.swimlane.severity", {
+    defaultMessage: "Severity",
+  }),
+  complianceFramework: i18n.translate(
+    "customPlugin.kanban.swimlane.complianceFramework",
+    { defaultMessage: "Compliance framework" }
+  ),
+  tag: i18n.translate("customPlugin.kanban.swimlane.tag", {
+    defaultMessage: "Tag",
+  }),
+};
+
+const SWIMLANE_OPTIONS = KANBAN_SWIMLANES.map((swimlane) => ({
+  value: swimlane,
+  text: SWIMLANE_LABELS[swimlane],
+}));
+
 /**
  * KanbanBoard Component
  *
@@ -40,7 +108,10 @@ export interface KanbanBoardProps {
  *
  * Features:
  * - 4-column layout (Planned → In Progress → Done → Error)
- * - Drag-and-drop status transitions
+ * - Optional swimlanes by assignee, priority, severity, framework or tag, each collapsible
+ * - Drag-and-drop status transitions, and lane changes that update the swimlane field
+ * - Manual card order within a column, kept across reloads
+ * - Reason prompt for drops in a column whose status requires one
  * - Loading state
  * - Responsive layout
  *
@@ -51,26 +122,33 @@ export const KanbanBoard: React.FC<KanbanBoardProps> = ({
   todos,
   loading,
   error,
-  onStatusChange,
+  onMove,
   onEdit,
   onDelete,
+  onOpenTodo,
+  onRanksDense,
+  onRankTodos,
+  wipLimits,
+  statusTransitions,
+  totals,
+  loadingMore,
+  onLoadMore,
 }) => {
-  // Wrapper to match the expected signature for useKanbanBoard
-  const handleStatusUpdate = useCallback(
-    async (id: string, data: { status: TodoStatus }) => {
-      await onStatusChange(id, data.status);
-      return null;
-    },
-    [onStatusChange]
-  );
-
-  const { data, actions } = useKanbanBoard({
+  const { data, uiState, actions } = useKanbanBoard({
     todos,
     loading,
     error,
-    updateTodo: handleStatusUpdate,
+    updateTodo: onMove,
     onEdit,
     onDelete,
+    onOpenTodo,
+    onRanksDense,
+    rankTodos: onRankTodos,
+    wipLimits,
+    statusTransitions,
+    totals,
+    loadingMore,
+    onLoadMore,
   });
 
   // Show loading spinner while data is being fetched
@@ -86,27 +164,176 @@ export const KanbanBoard: React.FC<KanbanBoardProps> = ({
     <>
       <EuiSpacer size="m" />
 
+      <EuiFormRow
+        label={i18n.translate("customPlugin.kanban.swimlane.label", {
+          defaultMessage: "Swimlanes",
+        })}
+        display="columnCompressed"
+      >
+        <EuiSelect
+          compressed
+          options={SWIMLANE_OPTIONS}
+          value={uiState.swimlane}
+          onChange={(e) => actions.setSwimlane(e.target.value as KanbanSwimlane)}
+          data-test-subj="kanbanSwimlaneSelect"
+        />
+      </EuiFormRow>
+
+      <EuiSpacer size="m" />
+
       <EuiDragDropContext
         onDragStart={actions.handleDragStart}
         onDragUpdate={actions.handleDragUpdate}
         onDragEnd={actions.handleDragEnd}
       >
-        <EuiFlexGroup gutterSize="m" alignItems="flexStart" wrap={false}>
-          {data.columns.map((column) => (
-            <EuiFlexItem key={column.status} style={{ minWidth: "320px" }}>
-              <KanbanColumn
-                status={column.status}
-                title={column.title}
-                color={column.color}
-                todos={column.todos}
-                droppableId={column.droppableId}
-                onEdit={actions.handleEdit}
-                onDelete={actions.handleDelete}
-              />
-            </EuiFlexItem>
-          ))}
-        </EuiFlexGroup>
+        {uiState.swimlane === "none" ? (
+          <EuiFlexGroup gutterSize="m" alignItems="flexStart" wrap={false}>
+            {data.columns.map((column) => (
+              <EuiFlexItem key={column.status} style={{ minWidth: "320px" }}>
+                <KanbanColumn
+                  status={column.status}
+                  title={column.title}
+                  color={column.color}
+                  todos={column.todos}
+                  total={column.total}
+                  hasMore={column.hasMore}
+                  isLoadingMore={column.isLoadingMore}
+                  limit={column.limit}
+                  isOverLimit={column.isOverLimit}
+                  droppableId={column.droppableId}
+                  parentTitles={data.parentTitles}
+                  onEdit={actions.handleEdit}
+                  onDelete={actions.handleDelete}
+                  onOpenTodo={actions.handleOpenTodo}
+                  onLoadMore={() => actions.handleLoadMore(column.status)}
+                />
+              </EuiFlexItem>
+            ))}
+          </EuiFlexGroup>
+        ) : (
+          <>
+            {data.unloadedCount > 0 && (
+              <>
+                <EuiCallOut
+                  size="s"
+                  iconType="iInCircle"
+                  title={
+                    <FormattedMessage
+                      id="customPlugin.kanban.lane.unloaded"
+                      defaultMessage="{count} matching TODOs are not loaded yet, so lane counts may be incomplete."
+                      values={{ count: data.unloadedCount }}
+                    />
+                  }
+                >
+                  <EuiButton
+                    size="s"
+                    onClick={() => actions.handleLoadMore()}
+                    isLoading={uiState.isLoadingMore}
+                    data-test-subj="kanbanLoadMoreLanes"
+                  >
+                    <FormattedMessage
+                      id="customPlugin.kanban.lane.loadMore"
+                      defaultMessage="Load more"
+                    />
+                  </EuiButton>
+                </EuiCallOut>
+                <EuiSpacer size="m" />
+              </>
+            )}
+            {data.lanes.map((lane) => (
+              <EuiAccordion
+                key={lane.value ?? ""}
+                id={`kanbanLane-${lane.value ?? ""}`}
+                buttonContent={
+                  <EuiTitle size="xs">
+                    <h3>
+                      {lane.title} ({lane.count})
+                    </h3>
+                  </EuiTitle>
+                }
+                forceState={lane.isCollapsed ? "closed" : "open"}
+                onToggle={() => actions.toggleLane(lane.value)}
+                paddingSize="s"
+                data-test-subj={`kanbanLane-${lane.value ?? ""}`}
+              >
+                <EuiFlexGroup gutterSize="m" alignItems="flexStart" wrap={false}>
+                  {lane.columns.map((column) => (
+                    <EuiFlexItem key={column.status} style={{ minWidth: "320px" }}>
+                      <KanbanColumnTitle
+                        title={column.title}
+                        count={column.count}
+                        limit={column.limit}
+                        isOverLimit={column.isOverLimit}
+                        compact
+                      />
+                      <EuiSpacer size="xs" />
+                      <KanbanColumn
+                        status={column.status}
+                        title={column.title}
+                        color={column.color}
+                        todos={column.todos}
+                        droppableId={column.droppableId}
+                        draggableIdPrefix={column.draggableIdPrefix}
+                        compact
+                        parentTitles={data.parentTitles}
+                        onEdit={actions.handleEdit}
+                        onDelete={actions.handleDelete}
+                        onOpenTodo={actions.handleOpenTodo}
+                      />
+                    </EuiFlexItem>
+                  ))}
+                </EuiFlexGroup>
+              </EuiAccordion>
+            ))}
+          </>
+        )}
       </EuiDragDropContext>
+
+      {data.reasonPrompt && (
+        <EuiConfirmModal
+          title={
+            <FormattedMessage
+              id="customPlugin.kanban.reason.title"
+              defaultMessage="Move to {status}"
+              values={{ status: data.reasonPrompt.statusTitle }}
+            />
+          }
+          onCancel={actions.cancelReason}
+          onConfirm={actions.confirmReason}
+          cancelButtonText={i18n.translate("customPlugin.kanban.reason.cancel", {
+            defaultMessage: "Cancel",
+          })}
+          confirmButtonText={i18n.translate("customPlugin.kanban.reason.confirm", {
+            defaultMessage: "Move",
+          })}
+          confirmButtonDisabled={!data.reasonPrompt.reason.trim()}
+          data-test-subj="kanbanReasonModal"
+        >
+          <EuiFormRow
+            fullWidth
+            label={
+              <FormattedMessage
+                id="customPlugin.kanban.reason.label"
+                defaultMessage="Why is {title} moving to {status}?"
+                values={{
+                  title: <strong>{data.reasonPrompt.todoTitle}</strong>,
+                  status: data.reasonPrompt.statusTitle,
+                }}
+              />
+            }
+          >
+            <EuiTextArea
+              fullWidth
+              autoFocus
+              rows={3}
+              maxLength={MAX_STATUS_REASON_LENGTH}
+              value={data.reasonPrompt.reason}
+              onChange={(e) => actions.setReason(e.target.value)}
+              data-test-subj="kanbanReasonInput"
+            />
+          </EuiFormRow>
+        </EuiConfirmModal>
+      )}
     </>
   );
 };
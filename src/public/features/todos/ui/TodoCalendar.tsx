@@ -0,0 +1,177 @@
+import React, { useCallback } from 'react';
+import {
+  EuiFlexGroup,
+  EuiFlexItem,
+  EuiButtonEmpty,
+  EuiButtonIcon,
+  EuiButtonGroup,
+  EuiDragDropContext,
+  EuiLoadingSpinner,
+  EuiSpacer,
+  EuiText,
+  EuiTitle,
+} from '@elastic/eui';
+import { FormattedMessage } from '@osd/i18n/react';
+import { i18n } from '@osd/i18n';
+import { Todo } from '../../../../common/todo/todo.types';
+import { CalendarMode, CalendarRange, useTodoCalendar } from '../hooks/use_todo_calendar';
+import { CalendarDayCell } from './components/CalendarDayCell';
+
+/**
+ * Props for TodoCalendar component
+ */
+export interface TodoCalendarProps {
+  /** TODOs due in the visible window */
+  readonly todos: readonly Todo[];
+  /** Loading state from parent */
+  readonly loading: boolean;
+  /** Error state from parent */
+  readonly error: Error | null;
+  /** Function to change a todo's due date; resolves to null when the update is rejected */
+  readonly onDueDateChange: (todoId: string, dueDate: string) => Promise<Todo | null>;
+  /** Callback when the visible date window changes */
+  readonly onRangeChange: (range: CalendarRange) => void;
+  /** Callback when a TODO is clicked */
+  readonly onView: (todo: Todo) => void;
+}
+
+const MODE_OPTIONS: Array<{ id: CalendarMode; label: string }> = [
+  {
+    id: 'month',
+    label: i18n.translate('customPlugin.calendar.mode.month', { defaultMessage: 'Month' }),
+  },
+  {
+    id: 'week',
+    label: i18n.translate('customPlugin.calendar.mode.week', { defaultMessage: 'Week' }),
+  },
+];
+
+// Seven equal columns, one per weekday
+const WEEK_GRID_STYLE: React.CSSProperties = {
+  display: 'grid',
+  gridTemplateColumns: 'repeat(7, minmax(0, 1fr))',
+  gap: 4,
+};
+
+/**
+ * TodoCalendar Component
+ *
+ * Month or week calendar placing TODOs on their due date.
+ * Presentational component that delegates business logic to useTodoCalendar hook.
+ * Following PROJECT RULE #11.
+ *
+ * Features:
+ * - Month and week views with previous/next/today navigation
+ * - TODOs colored by priority, overdue TODOs highlighted
+ * - Drag-and-drop rescheduling that keeps the time of day
+ *
+ * @param props - Component props
+ * @returns React component rendering the calendar
+ */
+export const TodoCalendar: React.FC<TodoCalendarProps> = ({
+  todos,
+  loading,
+  error,
+  onDueDateChange,
+  onRangeChange,
+  onView,
+}) => {
+  // Wrapper to match the expected signature for useTodoCalendar
+  const handleDueDateUpdate = useCallback(
+    (id: string, data: { dueDate: string }) => onDueDateChange(id, data.dueDate),
+    [onDueDateChange]
+  );
+
+  const { data, uiState, actions } = useTodoCalendar({
+    todos,
+    error,
+    updateTodo: handleDueDateUpdate,
+    onRangeChange,
+    onOpen: onView,
+  });
+
+  const cellHeight = uiState.mode === 'week' ? 400 : 120;
+
+  return (
+    <>
+      <EuiSpacer size="m" />
+
+      <EuiFlexGroup alignItems="center" gutterSize="s" responsive={false}>
+        <EuiFlexItem grow={false}>
+          <EuiButtonIcon
+            iconType="arrowLeft"
+            aria-label={i18n.translate('customPlugin.calendar.previous', {
+              defaultMessage: 'Previous',
+            })}
+            onClick={actions.goToPrevious}
+          />
+        </EuiFlexItem>
+        <EuiFlexItem grow={false}>
+          <EuiButtonIcon
+            iconType="arrowRight"
+            aria-label={i18n.translate('customPlugin.calendar.next', {
+              defaultMessage: 'Next',
+            })}
+            onClick={actions.goToNext}
+          />
+        </EuiFlexItem>
+        <EuiFlexItem grow={false}>
+          <EuiButtonEmpty size="s" onClick={actions.goToToday}>
+            <FormattedMessage id="customPlugin.calendar.today" defaultMessage="Today" />
+          </EuiButtonEmpty>
+        </EuiFlexItem>
+        <EuiFlexItem>
+          <EuiTitle size="s">
+            <h3>{data.title}</h3>
+          </EuiTitle>
+        </EuiFlexItem>
+        {loading && (
+          <EuiFlexItem grow={false}>
+            <EuiLoadingSpinner size="m" />
+          </EuiFlexItem>
+        )}
+        <EuiFlexItem grow={false}>
+          <EuiButtonGroup
+            legend={i18n.translate('customPlugin.calendar.mode.legend', {
+              defaultMessage: 'Calendar view',
+            })}
+            options={MODE_OPTIONS}
+            idSelected={uiState.mode}
+            onChange={(id) => actions.setMode(id as CalendarMode)}
+            buttonSize="compressed"
+          />
+        </EuiFlexItem>
+      </EuiFlexGroup>
+
+      <EuiSpacer size="m" />
+
+      <div style={WEEK_GRID_STYLE}>
+        {data.weekdays.map((weekday) => (
+          <EuiText key={weekday} size="xs" color="subdued" textAlign="center">
+            <strong>{weekday}</strong>
+          </EuiText>
+        ))}
+      </div>
+
+      <EuiSpacer size="xs" />
+
+      <EuiDragDropContext
+        onDragStart={actions.handleDragStart}
+        onDragEnd={actions.handleDragEnd}
+      >
+        {data.weeks.map((week) => (
+          <div key={week[0].key} style={{ ...WEEK_GRID_STYLE, marginBottom: 4 }}>
+            {week.map((day) => (
+              <CalendarDayCell
+                key={day.key}
+                day={day}
+                minHeight={cellHeight}
+                onOpen={actions.handleOpen}
+              />
+            ))}
+          </div>
+        ))}
+      </EuiDragDropContext>
+    </>
+  );
+};
@@ -0,0 +1,200 @@
+import React from 'react';
+import {
+  EuiFlyout,
+  EuiFlyoutHeader,
+  EuiFlyoutBody,
+  EuiFlyoutFooter,
+  EuiTitle,
+  EuiText,
+  EuiBadge,
+  EuiDescriptionList,
+  EuiFlexGroup,
+  EuiFlexItem,
+  EuiButton,
+  EuiButtonEmpty,
+  EuiButtonIcon,
+  EuiSpacer,
+  EuiHorizontalRule,
+} from '@elastic/eui';
+import { FormattedMessage } from '@osd/i18n/react';
+import { i18n } from '@osd/i18n';
+import {
+  Todo,
+  TODO_STATUS_COLORS,
+  TODO_STATUS_LABELS,
+  TODO_PRIORITY_COLORS,
+  TODO_PRIORITY_LABELS,
+  TODO_SEVERITY_COLORS,
+  TODO_SEVERITY_LABELS,
+} from '../../../../common/todo/todo.types';
+import { TodosClient } from '../api/todos.client';
+import { useTodoDetail } from '../hooks/use_todo_detail';
+import { TodoHistoryTimeline } from './components/TodoHistoryTimeline';
+import { TodoCommentsPanel } from './components/TodoCommentsPanel';
+
+interface TodoDetailFlyoutProps {
+  todo: Todo;
+  client: TodosClient;
+  onClose: () => void;
+  onEdit: (todo: Todo) => void;
+  onCommentsChange?: () => void;
+}
+
+export const TodoDetailFlyout: React.FC<TodoDetailFlyoutProps> = ({
+  todo,
+  client,
+  onClose,
+  onEdit,
+  onCommentsChange,
+}) => {
+  const { data, uiState, actions } = useTodoDetail({ client, todo, onCommentsChange });
+
+  const { detailItems, historyItems, totalEntries, commentItems, totalComments } = data;
+  const {
+    historyLoading,
+    historyError,
+    commentsLoading,
+    commentsSaving,
+    commentsError,
+    commentDraft,
+    editingCommentId,
+    editDraft,
+  } = uiState;
+  const {
+    refreshHistory,
+    refreshComments,
+    setCommentDraft,
+    submitComment,
+    startEditComment,
+    cancelEditComment,
+    setEditDraft,
+    saveEditComment,
+    deleteComment,
+  } = actions;
+
+  return (
+    <EuiFlyout onClose={onClose} size="m" ownFocus aria-labelledby="todoDetailFlyoutTitle">
+      <EuiFlyoutHeader hasBorder>
+        <EuiTitle size="m">
+          <h2 id="todoDetailFlyoutTitle">{todo.title}</h2>
+        </EuiTitle>
+        <EuiSpacer size="s" />
+        <EuiFlexGroup gutterSize="s" responsive={false} wrap>
+          <EuiFlexItem grow={false}>
+            <EuiBadge color={TODO_STATUS_COLORS[todo.status]}>
+              {TODO_STATUS_LABELS[todo.status]}
+            </EuiBadge>
+          </EuiFlexItem>
+          <EuiFlexItem grow={false}>
+            <EuiBadge color={TODO_PRIORITY_COLORS[todo.priority]}>
+              {TODO_PRIORITY_LABELS[todo.priority]}
+            </EuiBadge>
+          </EuiFlexItem>
+          <EuiFlexItem grow={false}>
+            <EuiBadge color={TODO_SEVERITY_COLORS[todo.severity]}>
+              {TODO_SEVERITY_LABELS[todo.severity]}
+            </EuiBadge>
+          </EuiFlexItem>
+        </EuiFlexGroup>
+      </EuiFlyoutHeader>
+
+      <EuiFlyoutBody>
+        {todo.description && (
+          <>
+            <EuiText size="s">
+              <p>{todo.description}</p>
+            </EuiText>
+            <EuiSpacer size="m" />
+          </>
+        )}
+        <EuiDescriptionList type="column" compressed listItems={detailItems} />
+
+        <EuiHorizontalRule />
+
+        <EuiFlexGroup alignItems="center" justifyContent="spaceBetween" responsive={false}>
+          <EuiFlexItem grow={false}>
+            <EuiTitle size="s">
+              <h3>
+                <FormattedMessage
+                  id="customPlugin.detail.comments.title"
+                  defaultMessage="Comments ({count})"
+                  values={{ count: totalComments }}
+                />
+              </h3>
+            </EuiTitle>
+          </EuiFlexItem>
+          <EuiFlexItem grow={false}>
+            <EuiButtonIcon
+              iconType="refresh"
+              onClick={refreshComments}
+              isDisabled={commentsLoading}
+              aria-label={i18n.translate('customPlugin.detail.comments.refresh', {
+                defaultMessage: 'Refresh comments',
+              })}
+            />
+          </EuiFlexItem>
+        </EuiFlexGroup>
+        <EuiSpacer size="m" />
+        <TodoCommentsPanel
+          items={commentItems}
+          loading={commentsLoading}
+          saving={commentsSaving}
+          error={commentsError}
+          draft={commentDraft}
+          editingId={editingCommentId}
+          editDraft={editDraft}
+          onDraftChange={setCommentDraft}
+          onSubmit={submitComment}
+          onStartEdit={startEditComment}
+          onEditDraftChange={setEditDraft}
+          onSaveEdit={saveEditComment}
+          onCancelEdit={cancelEditComment}
+          onDelete={deleteComment}
+        />
+
+        <EuiHorizontalRule />
+
+        <EuiFlexGroup alignItems="center" justifyContent="spaceBetween" responsive={false}>
+          <EuiFlexItem grow={false}>
+            <EuiTitle size="s">
+              <h3>
+                <FormattedMessage
+                  id="customPlugin.detail.history.title"
+                  defaultMessage="History ({count})"
+                  values={{ count: totalEntries }}
+                />
+              </h3>
+            </EuiTitle>
+          </EuiFlexItem>
+          <EuiFlexItem grow={false}>
+            <EuiButtonIcon
+              iconType="refresh"
+              onClick={refreshHistory}
+              isDisabled={historyLoading}
+              aria-label={i18n.translate('customPlugin.detail.history.refresh', {
+                defaultMessage: 'Refresh history',
+              })}
+            />
+          </EuiFlexItem>
+        </EuiFlexGroup>
+        <EuiSpacer size="m" />
+        <TodoHistoryTimeline items={historyItems} loading={historyLoading} error={historyError} />
+      </EuiFlyoutBody>
+
+      <EuiFlyoutFooter>
+        <EuiFlexGroup justifyContent="spaceBetween">
+          <EuiFlexItem grow={false}>
+            <EuiButtonEmpty onClick={onClose} flush="left">
+              <FormattedMessage id="customPlugin.detail.button.close" defaultMessage="Close" />
+            </EuiButtonEmpty>
+          </EuiFlexItem>
+          <EuiFlexItem grow={false}>
+            <EuiButton onClick={() => onEdit(todo)} iconType="pencil" fill>
+              <FormattedMessage id="customPlugin.actions.button.edit" defaultMessage="Edit" />
+            </EuiButton>
+          </EuiFlexItem>
+        </EuiFlexGroup>
+      </EuiFlyoutFooter>
+    </EuiFlyout>
+  );
+};
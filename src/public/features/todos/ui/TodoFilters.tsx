@@ -1,6 +1,11 @@
-import React from 'react';
+import React, { useRef } from 'react';
 import {
   EuiFieldSearch,
+  EuiFormRow,
+  EuiInputPopover,
+  EuiListGroup,
+  EuiListGroupItem,
+  EuiText,
   EuiFlexGroup,
   EuiFlexItem,
   EuiFilterGroup,
@@ -78,9 +83,16 @@ export const TodoFilters: React.FC<TodoFiltersProps> = ({
     localTags,
     localShowOverdueOnly,
     activeFiltersCount,
+    queryError,
+    querySuggestions,
   } = hookData;
 
-  const { isStatusPopoverOpen, isPriorityPopoverOpen, isSeverityPopoverOpen } = uiState;
+  const {
+    isStatusPopoverOpen,
+    isPriorityPopoverOpen,
+    isSeverityPopoverOpen,
+    isSuggestionsOpen,
+  } = uiState;
 
   const {
     setIsStatusPopoverOpen,
@@ -88,6 +100,8 @@ export const TodoFilters: React.FC<TodoFiltersProps> = ({
     setIsSeverityPopoverOpen,
     setLocalTags,
     handleSearchChange,
+    applyQuerySuggestion,
+    closeSuggestions,
     handleStatusChange,
     handlePriorityChange,
     handleSeverityChange,
@@ -96,6 +110,8 @@ export const TodoFilters: React.FC<TodoFiltersProps> = ({
     handleClearAll,
   } = actions;
 
+  const searchInputRef = useRef<HTMLInputElement | null>(null);
+
   const statusButton = (
     <EuiFilterButton
       iconType="arrowDown"
@@ -139,15 +155,69 @@ export const TodoFilters: React.FC<TodoFiltersProps> = ({
     <>
       <EuiFlexGroup gutterSize="s" alignItems="center" wrap>
         <EuiFlexItem grow={true} style={{ minWidth: 300 }}>
-          <EuiFieldSearch
-            placeholder={i18n.translate('customPlugin.filters.placeholder.search', {
-              defaultMessage: 'Search TODOs...',
-            })}
-            value={localSearchText}
-            onChange={(e) => handleSearchChange(e.target.value)}
-            isClearable
+          <EuiFormRow
             fullWidth
-          />
+            isInvalid={queryError !== null}
+            error={
+              queryError && (
+                <span data-test-subj="todoSearchQueryError">
+                  {queryError.message}
+                  {': '}
+                  <code>
+                    {queryError.before}
+                    <mark>{queryError.text}</mark>
+                    {queryError.after}
+                  </code>
+                </span>
+              )
+            }
+          >
+            <EuiInputPopover
+              fullWidth
+              isOpen={isSuggestionsOpen && querySuggestions.length > 0}
+              closePopover={closeSuggestions}
+              panelPaddingSize="none"
+              input={
+                <EuiFieldSearch
+                  placeholder={i18n.translate('customPlugin.filters.placeholder.search', {
+                    defaultMessage: 'Search TODOs...',
+                  })}
+                  value={localSearchText}
+                  onChange={(e) => handleSearchChange(e.target.value)}
+                  inputRef={(input) => {
+                    searchInputRef.current = input;
+                  }}
+                  isInvalid={queryError !== null}
+                  isClearable
+                  fullWidth
+                />
+              }
+            >
+              <EuiListGroup
+                flush
+                maxWidth={false}
+                aria-label={i18n.translate('customPlugin.filters.search.suggestions', {
+                  defaultMessage: 'Search suggestions',
+                })}
+              >
+                {querySuggestions.map((completion) => (
+                  <EuiListGroupItem
+                    key={completion.label}
+                    size="s"
+                    label={
+                      <EuiText size="s">
+                        <code>{completion.label}</code> {completion.description}
+                      </EuiText>
+                    }
+                    onClick={() => {
+                      applyQuerySuggestion(completion);
+                      searchInputRef.current?.focus();
+                    }}
+                  />
+                ))}
+              </EuiListGroup>
+            </EuiInputPopover>
+          </EuiFormRow>
         </EuiFlexItem>
 
         <EuiFlexItem grow={false}>
@@ -10,6 +10,7 @@ import {
   EuiFieldText,
   EuiTextArea,
   EuiSelect,
+  EuiFieldNumber,
   EuiComboBox,
   EuiFlexGroup,
   EuiFlexItem,
@@ -25,9 +26,16 @@ import {
   TodoSeverity,
   MAX_COMPLIANCE_FRAMEWORKS,
 } from '../../../../common/todo/todo.types';
+import {
+  TodoRecurrenceFrequency,
+  MAX_TODO_RECURRENCE_INTERVAL,
+} from '../../../../common/todo/todo.recurrence';
 import { CreateTodoRequest, UpdateTodoRequest } from '../../../../common/todo/todo.dtos';
+import { TodoCustomFieldDefinition } from '../../../../common/todo/todo.custom_fields';
 import { TodosClient } from '../api/todos.client';
 import { useTodoForm } from '../hooks/use_todo_form';
+import { TodoConflictCallOut } from './components/TodoConflictCallOut';
+import { TodoCustomFieldInput } from './components/TodoCustomFieldInput';
 
 interface TodoFormProps {
   todo?: Todo | null;
@@ -35,12 +43,51 @@ interface TodoFormProps {
   onSubmit: (data: CreateTodoRequest | UpdateTodoRequest) => Promise<void>;
   onClose: () => void;
   client: TodosClient;
+  /** Latest server copy when the last update was rejected as stale */
+  conflict?: Todo | null;
+  onConflictReload?: () => void;
+  onConflictOverwrite?: () => void;
+  /** Parent preselected when creating a subtask */
+  parent?: Todo | null;
+  /** Deployment-defined custom fields, shown after the built-in fields */
+  customFields?: readonly TodoCustomFieldDefinition[];
 }
 
-export const TodoForm: React.FC<TodoFormProps> = ({ todo, loading = false, onSubmit, onClose, client }) => {
-  const { data: hookData, formState, actions } = useTodoForm({ todo, onSubmit, client });
+export const TodoForm: React.FC<TodoFormProps> = ({
+  todo,
+  loading = false,
+  onSubmit,
+  onClose,
+  client,
+  conflict = null,
+  onConflictReload = () => {},
+  onConflictOverwrite = () => {},
+  parent = null,
+  customFields = [],
+}) => {
+  const { data: hookData, formState, actions } = useTodoForm({
+    todo,
+    conflict,
+    onSubmit,
+    client,
+    parent,
+    customFields,
+  });
 
-  const { isEditMode, suggestedTags, suggestedFrameworks, statusOptions, priorityOptions, severityOptions } = hookData;
+  const {
+    isEditMode,
+    suggestedTags,
+    suggestedFrameworks,
+    statusOptions,
+    priorityOptions,
+    severityOptions,
+    recurrenceOptions,
+    conflictChanges,
+    parentOptions,
+    parentOptionsLoading,
+    blockerOptions,
+    blockerOptionsLoading,
+  } = hookData;
 
   const {
     title,
@@ -50,8 +97,16 @@ export const TodoForm: React.FC<TodoFormProps> = ({ todo, loading = false, onSub
     selectedTags,
     priority,
     severity,
+    startDate,
     dueDate,
     selectedComplianceFrameworks,
+    statusReason,
+    selectedParent,
+    selectedBlockers,
+    recurrenceFrequency,
+    recurrenceInterval,
+    customValues,
+    isStatusChanged,
     errors,
   } = formState;
 
@@ -63,10 +118,19 @@ export const TodoForm: React.FC<TodoFormProps> = ({ todo, loading = false, onSub
     setSelectedTags,
     setPriority,
     setSeverity,
+    setStartDate,
     setDueDate,
     setSelectedComplianceFrameworks,
+    setStatusReason,
+    setSelectedParent,
+    setParentSearchText,
+    setSelectedBlockers,
+    setBlockerSearchText,
+    setRecurrenceFrequency,
+    setRecurrenceInterval,
     onCreateTag,
     onCreateComplianceFramework,
+    setCustomValue,
     handleSubmit,
   } = actions;
 
@@ -85,6 +149,14 @@ export const TodoForm: React.FC<TodoFormProps> = ({ todo, loading = false, onSub
       </EuiFlyoutHeader>
 
       <EuiFlyoutBody>
+        {conflict && (
+          <TodoConflictCallOut
+            changes={conflictChanges}
+            loading={loading}
+            onReload={onConflictReload}
+            onOverwrite={onConflictOverwrite}
+          />
+        )}
         <EuiForm component="form" onSubmit={handleSubmit}>
           <EuiFormRow
             label={
@@ -137,6 +209,59 @@ export const TodoForm: React.FC<TodoFormProps> = ({ todo, loading = false, onSub
             />
           </EuiFormRow>
 
+          <EuiFormRow
+            label={
+              <FormattedMessage id="customPlugin.form.field.parentId" defaultMessage="Parent TODO" />
+            }
+            fullWidth
+            helpText={
+              <FormattedMessage
+                id="customPlugin.form.help.parentOptional"
+                defaultMessage="Optional. Makes this TODO a subtask of the selected TODO."
+              />
+            }
+          >
+            <EuiComboBox
+              placeholder={i18n.translate('customPlugin.form.placeholder.parent', {
+                defaultMessage: 'Search TODOs by title',
+              })}
+              singleSelection={{ asPlainText: true }}
+              async
+              isLoading={parentOptionsLoading}
+              options={[...parentOptions]}
+              selectedOptions={selectedParent}
+              onChange={setSelectedParent}
+              onSearchChange={setParentSearchText}
+              fullWidth
+            />
+          </EuiFormRow>
+
+          <EuiFormRow
+            label={
+              <FormattedMessage id="customPlugin.form.field.blockedBy" defaultMessage="Blocked By" />
+            }
+            fullWidth
+            helpText={
+              <FormattedMessage
+                id="customPlugin.form.help.blockedByOptional"
+                defaultMessage="Optional. This TODO cannot start or finish until these TODOs are done."
+              />
+            }
+          >
+            <EuiComboBox
+              placeholder={i18n.translate('customPlugin.form.placeholder.blockedBy', {
+                defaultMessage: 'Search TODOs by title',
+              })}
+              async
+              isLoading={blockerOptionsLoading}
+              options={[...blockerOptions]}
+              selectedOptions={selectedBlockers}
+              onChange={setSelectedBlockers}
+              onSearchChange={setBlockerSearchText}
+              fullWidth
+            />
+          </EuiFormRow>
+
           <EuiFormRow
             label={
               <FormattedMessage id="customPlugin.form.field.status" defaultMessage="Status" />
@@ -152,6 +277,35 @@ export const TodoForm: React.FC<TodoFormProps> = ({ todo, loading = false, onSub
             />
           </EuiFormRow>
 
+          {isStatusChanged && (
+            <EuiFormRow
+              label={
+                <FormattedMessage
+                  id="customPlugin.form.field.statusReason"
+                  defaultMessage="Reason for status change"
+                />
+              }
+              isInvalid={!!errors.statusReason}
+              error={errors.statusReason}
+              fullWidth
+              helpText={
+                <FormattedMessage
+                  id="customPlugin.form.help.statusReason"
+                  defaultMessage="Required for some status changes, such as moving a task to Error."
+                />
+              }
+            >
+              <EuiTextArea
+                name="statusReason"
+                value={statusReason}
+                onChange={(e) => setStatusReason(e.target.value)}
+                isInvalid={!!errors.statusReason}
+                fullWidth
+                rows={2}
+              />
+            </EuiFormRow>
+          )}
+
           <EuiFormRow
             label={<FormattedMessage id="customPlugin.form.field.tags" defaultMessage="Tags" />}
             isInvalid={!!errors.tags}
@@ -242,6 +396,30 @@ export const TodoForm: React.FC<TodoFormProps> = ({ todo, loading = false, onSub
             />
           </EuiFormRow>
 
+          <EuiFormRow
+            label={
+              <FormattedMessage id="customPlugin.form.field.startDate" defaultMessage="Start Date" />
+            }
+            isInvalid={!!errors.startDate}
+            error={errors.startDate}
+            fullWidth
+            helpText={
+              <FormattedMessage
+                id="customPlugin.form.help.startDateOptional"
+                defaultMessage="Optional. Planned start of work, shown on the timeline."
+              />
+            }
+          >
+            <EuiFieldText
+              name="startDate"
+              type="date"
+              value={startDate}
+              onChange={(e) => setStartDate(e.target.value)}
+              isInvalid={!!errors.startDate}
+              fullWidth
+            />
+          </EuiFormRow>
+
           <EuiFormRow
             label={
               <FormattedMessage id="customPlugin.form.field.dueDate" defaultMessage="Due Date" />
@@ -266,6 +444,51 @@ export const TodoForm: React.FC<TodoFormProps> = ({ todo, loading = false, onSub
             />
           </EuiFormRow>
 
+          <EuiFormRow
+            label={
+              <FormattedMessage id="customPlugin.form.field.recurrence" defaultMessage="Repeats" />
+            }
+            isInvalid={!!errors.recurrenceInterval}
+            error={errors.recurrenceInterval}
+            fullWidth
+            helpText={
+              <FormattedMessage
+                id="customPlugin.form.help.recurrence"
+                defaultMessage="Optional. When this TODO is done, the next occurrence is created with a new due date."
+              />
+            }
+          >
+            <EuiFlexGroup gutterSize="s" responsive={false}>
+              <EuiFlexItem>
+                <EuiSelect
+                  name="recurrenceFrequency"
+                  value={recurrenceFrequency}
+                  onChange={(e) =>
+                    setRecurrenceFrequency(e.target.value as TodoRecurrenceFrequency | '')
+                  }
+                  options={recurrenceOptions}
+                  fullWidth
+                />
+              </EuiFlexItem>
+              <EuiFlexItem>
+                <EuiFieldNumber
+                  name="recurrenceInterval"
+                  prepend={i18n.translate('customPlugin.form.recurrence.every', {
+                    defaultMessage: 'Every',
+                  })}
+                  min={1}
+                  max={MAX_TODO_RECURRENCE_INTERVAL}
+                  step={1}
+                  value={recurrenceInterval}
+                  onChange={(e) => setRecurrenceInterval(Number(e.target.value))}
+                  disabled={!recurrenceFrequency}
+                  isInvalid={!!errors.recurrenceInterval}
+                  fullWidth
+                />
+              </EuiFlexItem>
+            </EuiFlexGroup>
+          </EuiFormRow>
+
           <EuiFormRow
             label={
               <FormattedMessage
@@ -296,6 +519,16 @@ export const TodoForm: React.FC<TodoFormProps> = ({ todo, loading = false, onSub
               fullWidth
             />
           </EuiFormRow>
+
+          {customFields.map((field) => (
+            <TodoCustomFieldInput
+              key={field.key}
+              field={field}
+              value={customValues[field.key]}
+              error={errors.custom?.[field.key]}
+              onChange={setCustomValue}
+            />
+          ))}
         </EuiForm>
       </EuiFlyoutBody>
 
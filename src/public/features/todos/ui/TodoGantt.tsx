@@ -0,0 +1,230 @@
+import React, { useCallback } from 'react';
+import {
+  EuiFlexGroup,
+  EuiFlexItem,
+  EuiButtonEmpty,
+  EuiButtonIcon,
+  EuiButtonGroup,
+  EuiEmptyPrompt,
+  EuiHorizontalRule,
+  EuiLoadingSpinner,
+  EuiSpacer,
+  EuiText,
+  EuiTitle,
+} from '@elastic/eui';
+import { FormattedMessage } from '@osd/i18n/react';
+import { i18n } from '@osd/i18n';
+import { Todo } from '../../../../common/todo/todo.types';
+import { GanttGroupBy, GanttRange, GanttScale, useTodoGantt } from '../hooks/use_todo_gantt';
+import { GanttRow } from './components/GanttRow';
+
+/**
+ * Props for TodoGantt component
+ */
+export interface TodoGanttProps {
+  /** TODOs due in or after the visible window */
+  readonly todos: readonly Todo[];
+  /** Loading state from parent */
+  readonly loading: boolean;
+  /** Error state from parent */
+  readonly error: Error | null;
+  /** Function to change a todo's dates; resolves to null when the update is rejected */
+  readonly onScheduleChange: (
+    todoId: string,
+    dates: { startDate?: string; dueDate: string }
+  ) => Promise<Todo | null>;
+  /** Callback when the visible date window changes */
+  readonly onRangeChange: (range: GanttRange) => void;
+  /** Callback when a TODO is clicked */
+  readonly onView: (todo: Todo) => void;
+}
+
+const SCALE_OPTIONS: Array<{ id: GanttScale; label: string }> = [
+  {
+    id: 'month',
+    label: i18n.translate('customPlugin.gantt.scale.month', { defaultMessage: 'Month' }),
+  },
+  {
+    id: 'quarter',
+    label: i18n.translate('customPlugin.gantt.scale.quarter', { defaultMessage: 'Quarter' }),
+  },
+];
+
+const GROUP_BY_OPTIONS: Array<{ id: GanttGroupBy; label: string }> = [
+  {
+    id: 'assignee',
+    label: i18n.translate('customPlugin.gantt.groupBy.assignee', { defaultMessage: 'Assignee' }),
+  },
+  {
+    id: 'complianceFramework',
+    label: i18n.translate('customPlugin.gantt.groupBy.complianceFramework', {
+      defaultMessage: 'Framework',
+    }),
+  },
+];
+
+/**
+ * TodoGantt Component
+ *
+ * Timeline drawing each TODO as a bar from its start date to its due date.
+ * Presentational component that delegates business logic to useTodoGantt hook.
+ * Following PROJECT RULE #11.
+ *
+ * Features:
+ * - Month and quarter windows with previous/next/today navigation
+ * - Rows grouped by assignee or compliance framework
+ * - Today line and completion markers
+ * - Drag bars to move them, or their ends to change the start or due date
+ *
+ * @param props - Component props
+ * @returns React component rendering the timeline
+ */
+export const TodoGantt: React.FC<TodoGanttProps> = ({
+  todos,
+  loading,
+  error,
+  onScheduleChange,
+  onRangeChange,
+  onView,
+}) => {
+  const { data, uiState, actions } = useTodoGantt({
+    todos,
+    error,
+    updateTodo: onScheduleChange,
+    onRangeChange,
+    onOpen: onView,
+  });
+
+  const groupLabel = useCallback(
+    (label: string | null) => {
+      if (label !== null) {
+        return label;
+      }
+      return uiState.groupBy === 'assignee'
+        ? i18n.translate('customPlugin.gantt.unassigned', { defaultMessage: 'Unassigned' })
+        : i18n.translate('customPlugin.gantt.noFramework', { defaultMessage: 'No framework' });
+    },
+    [uiState.groupBy]
+  );
+
+  return (
+    <>
+      <EuiSpacer size="m" />
+
+      <EuiFlexGroup alignItems="center" gutterSize="s" responsive={false}>
+        <EuiFlexItem grow={false}>
+          <EuiButtonIcon
+            iconType="arrowLeft"
+            aria-label={i18n.translate('customPlugin.gantt.previous', {
+              defaultMessage: 'Previous',
+            })}
+            onClick={actions.goToPrevious}
+          />
+        </EuiFlexItem>
+        <EuiFlexItem grow={false}>
+          <EuiButtonIcon
+            iconType="arrowRight"
+            aria-label={i18n.translate('customPlugin.gantt.next', {
+              defaultMessage: 'Next',
+            })}
+            onClick={actions.goToNext}
+          />
+        </EuiFlexItem>
+        <EuiFlexItem grow={false}>
+          <EuiButtonEmpty size="s" onClick={actions.goToToday}>
+            <FormattedMessage id="customPlugin.gantt.today" defaultMessage="Today" />
+          </EuiButtonEmpty>
+        </EuiFlexItem>
+        <EuiFlexItem>
+          <EuiTitle size="s">
+            <h3>{data.title}</h3>
+          </EuiTitle>
+        </EuiFlexItem>
+        {loading && (
+          <EuiFlexItem grow={false}>
+            <EuiLoadingSpinner size="m" />
+          </EuiFlexItem>
+        )}
+        <EuiFlexItem grow={false}>
+          <EuiButtonGroup
+            legend={i18n.translate('customPlugin.gantt.groupBy.legend', {
+              defaultMessage: 'Group rows by',
+            })}
+            options={GROUP_BY_OPTIONS}
+            idSelected={uiState.groupBy}
+            onChange={(id) => actions.setGroupBy(id as GanttGroupBy)}
+            buttonSize="compressed"
+          />
+        </EuiFlexItem>
+        <EuiFlexItem grow={false}>
+          <EuiButtonGroup
+            legend={i18n.translate('customPlugin.gantt.scale.legend', {
+              defaultMessage: 'Timeline span',
+            })}
+            options={SCALE_OPTIONS}
+            idSelected={uiState.scale}
+            onChange={(id) => actions.setScale(id as GanttScale)}
+            buttonSize="compressed"
+          />
+        </EuiFlexItem>
+      </EuiFlexGroup>
+
+      <EuiSpacer size="m" />
+
+      <EuiFlexGroup gutterSize="s" responsive={false}>
+        <EuiFlexItem style={{ flexBasis: '25%', flexGrow: 0 }} />
+        <EuiFlexItem style={{ minWidth: 0 }}>
+          <div style={{ position: 'relative', height: 20 }}>
+            {data.ticks.map((tick) => (
+              <EuiText
+                key={tick.key}
+                size="xs"
+                color="subdued"
+                style={{ position: 'absolute', left: `${tick.offset}%`, whiteSpace: 'nowrap' }}
+              >
+                {tick.label}
+              </EuiText>
+            ))}
+          </div>
+        </EuiFlexItem>
+      </EuiFlexGroup>
+
+      <EuiHorizontalRule margin="xs" />
+
+      {data.groups.length === 0 && !loading ? (
+        <EuiEmptyPrompt
+          iconType="visGantt"
+          body={
+            <p>
+              <FormattedMessage
+                id="customPlugin.gantt.empty"
+                defaultMessage="No TODOs are scheduled in this period."
+              />
+            </p>
+          }
+        />
+      ) : (
+        data.groups.map((group) => (
+          <div key={group.key} data-test-subj={`ganttGroup-${group.key}`}>
+            <EuiSpacer size="s" />
+            <EuiTitle size="xxs">
+              <h4>
+                {groupLabel(group.label)} ({group.rows.length})
+              </h4>
+            </EuiTitle>
+            {group.rows.map((row) => (
+              <GanttRow
+                key={row.todo.id}
+                row={row}
+                todayOffset={data.todayOffset}
+                isDragging={uiState.draggingId === row.todo.id}
+                onDragStart={actions.beginDrag}
+                onOpen={actions.handleOpen}
+              />
+            ))}
+          </div>
+        ))
+      )}
+    </>
+  );
+};
@@ -0,0 +1,297 @@
+import React from 'react';
+import {
+  EuiFlyout,
+  EuiFlyoutHeader,
+  EuiFlyoutBody,
+  EuiFlyoutFooter,
+  EuiTitle,
+  EuiText,
+  EuiFlexGroup,
+  EuiFlexItem,
+  EuiButton,
+  EuiButtonEmpty,
+  EuiSpacer,
+  EuiFormRow,
+  EuiFilePicker,
+  EuiSelect,
+  EuiCallOut,
+  EuiBasicTable,
+  EuiInMemoryTable,
+} from '@elastic/eui';
+import { FormattedMessage } from '@osd/i18n/react';
+import { i18n } from '@osd/i18n';
+import { NotificationsStart } from '../../../../../src/core/public';
+import { CreateTodoRequest, ImportTodosResponse } from '../../../../common/todo/todo.dtos';
+import { TodoImportFormat } from '../../../../common/todo/todo.import';
+import { TodoCustomFieldDefinition } from '../../../../common/todo/todo.custom_fields';
+import { TodosClient } from '../api/todos.client';
+import { useTodoImport } from '../hooks/use_todo_import';
+
+interface TodoImportFlyoutProps {
+  client: TodosClient;
+  notifications: NotificationsStart;
+  customFields: readonly TodoCustomFieldDefinition[];
+  onClose: () => void;
+  onImported?: (response: ImportTodosResponse) => void;
+}
+
+const ERROR_TABLE_PAGE_SIZE = 10;
+
+export const TodoImportFlyout: React.FC<TodoImportFlyoutProps> = ({
+  client,
+  notifications,
+  customFields,
+  onClose,
+  onImported,
+}) => {
+  const { data, uiState, actions } = useTodoImport({
+    client,
+    notifications,
+    customFields,
+    onImported,
+  });
+
+  const { format, result, columns, mapping, targetOptions, errorItems, previewItems } = data;
+  const { step, loading, error } = uiState;
+  const { selectFile, setFormat, setColumnTarget, runImport } = actions;
+
+  const formatOptions = [
+    {
+      value: 'csv',
+      text: i18n.translate('customPlugin.import.format.csv', { defaultMessage: 'CSV' }),
+    },
+    {
+      value: 'json',
+      text: i18n.translate('customPlugin.import.format.json', {
+        defaultMessage: 'JSON or NDJSON',
+      }),
+    },
+  ];
+
+  const previewColumns = [
+    {
+      field: 'title',
+      name: i18n.translate('customPlugin.import.preview.title', { defaultMessage: 'Title' }),
+      truncateText: true,
+    },
+    {
+      field: 'status',
+      name: i18n.translate('customPlugin.import.preview.status', { defaultMessage: 'Status' }),
+    },
+    {
+      field: 'priority',
+      name: i18n.translate('customPlugin.import.preview.priority', { defaultMessage: 'Priority' }),
+    },
+    {
+      field: 'assignee',
+      name: i18n.translate('customPlugin.import.preview.assignee', { defaultMessage: 'Assignee' }),
+    },
+    {
+      field: 'tags',
+      name: i18n.translate('customPlugin.import.preview.tags', { defaultMessage: 'Tags' }),
+      render: (tags?: string[]) => (tags || []).join(', '),
+    },
+  ];
+
+  const errorColumns = [
+    {
+      field: 'line',
+      name: i18n.translate('customPlugin.import.errors.line', { defaultMessage: 'Line' }),
+      width: '70px',
+      sortable: true,
+    },
+    {
+      field: 'field',
+      name: i18n.translate('customPlugin.import.errors.field', { defaultMessage: 'Field' }),
+      width: '140px',
+    },
+    {
+      field: 'message',
+      name: i18n.translate('customPlugin.import.errors.message', { defaultMessage: 'Problem' }),
+    },
+  ];
+
+  return (
+    <EuiFlyout onClose={onClose} size="m" ownFocus aria-labelledby="todoImportFlyoutTitle">
+      <EuiFlyoutHeader hasBorder>
+        <EuiTitle size="m">
+          <h2 id="todoImportFlyoutTitle">
+            <FormattedMessage id="customPlugin.import.title" defaultMessage="Import TODOs" />
+          </h2>
+        </EuiTitle>
+        <EuiSpacer size="s" />
+        <EuiText size="s" color="subdued">
+          <p>
+            <FormattedMessage
+              id="customPlugin.import.description"
+              defaultMessage="Create TODOs from a CSV or JSON file. Rows are checked before anything is created."
+            />
+          </p>
+        </EuiText>
+      </EuiFlyoutHeader>
+
+      <EuiFlyoutBody>
+        <EuiFlexGroup gutterSize="m">
+          <EuiFlexItem>
+            <EuiFormRow
+              label={i18n.translate('customPlugin.import.file', { defaultMessage: 'File' })}
+              fullWidth
+            >
+              <EuiFilePicker
+                accept=".csv,.json,.ndjson"
+                onChange={(files) => selectFile(files && files.length > 0 ? files[0] : null)}
+                isLoading={loading}
+                display="default"
+                fullWidth
+              />
+            </EuiFormRow>
+          </EuiFlexItem>
+          <EuiFlexItem grow={false}>
+            <EuiFormRow
+              label={i18n.translate('customPlugin.import.format', { defaultMessage: 'Format' })}
+            >
+              <EuiSelect
+                options={formatOptions}
+                value={format}
+                onChange={(e) => setFormat(e.target.value as TodoImportFormat)}
+                disabled={loading}
+              />
+            </EuiFormRow>
+          </EuiFlexItem>
+        </EuiFlexGroup>
+
+        {error && (
+          <>
+            <EuiSpacer size="m" />
+            <EuiCallOut
+              title={i18n.translate('customPlugin.import.error', {
+                defaultMessage: 'The file cannot be imported',
+              })}
+              color="danger"
+              iconType="alert"
+            >
+              <p>{error.message}</p>
+            </EuiCallOut>
+          </>
+        )}
+
+        {step !== 'select' && (
+          <>
+            <EuiSpacer size="l" />
+            <EuiTitle size="xs">
+              <h3>
+                <FormattedMessage id="customPlugin.import.mapping.title" defaultMessage="Columns" />
+              </h3>
+            </EuiTitle>
+            <EuiSpacer size="s" />
+            {columns.map((column) => (
+              <EuiFormRow key={column} label={column} display="columnCompressed" fullWidth>
+                <EuiSelect
+                  options={targetOptions}
+                  value={mapping[column] || ''}
+                  onChange={(e) => setColumnTarget(column, e.target.value)}
+                  disabled={loading || step === 'done'}
+                  compressed
+                  fullWidth
+                />
+              </EuiFormRow>
+            ))}
+          </>
+        )}
+
+        {result && (
+          <>
+            <EuiSpacer size="l" />
+            <EuiCallOut
+              title={
+                result.dryRun
+                  ? i18n.translate('customPlugin.import.summary.dryRun', {
+                      defaultMessage: '{valid} of {total} rows are ready to import',
+                      values: { valid: result.valid, total: result.total },
+                    })
+                  : i18n.translate('customPlugin.import.summary.done', {
+                      defaultMessage: 'Created {imported} of {total} rows',
+                      values: { imported: result.imported, total: result.total },
+                    })
+              }
+              color={errorItems.length > 0 ? 'warning' : 'success'}
+              iconType={errorItems.length > 0 ? 'alert' : 'check'}
+            />
+
+            {result.dryRun && previewItems.length > 0 && (
+              <>
+                <EuiSpacer size="m" />
+                <EuiTitle size="xs">
+                  <h3>
+                    <FormattedMessage
+                      id="customPlugin.import.preview.heading"
+                      defaultMessage="Preview"
+                    />
+                  </h3>
+                </EuiTitle>
+                <EuiSpacer size="s" />
+                <EuiBasicTable<CreateTodoRequest>
+                  items={[...previewItems]}
+                  columns={previewColumns}
+                  tableLayout="auto"
+                />
+              </>
+            )}
+
+            {errorItems.length > 0 && (
+              <>
+                <EuiSpacer size="m" />
+                <EuiTitle size="xs">
+                  <h3>
+                    <FormattedMessage
+                      id="customPlugin.import.errors.heading"
+                      defaultMessage="Rejected rows"
+                    />
+                  </h3>
+                </EuiTitle>
+                <EuiSpacer size="s" />
+                <EuiInMemoryTable
+                  items={[...errorItems]}
+                  columns={errorColumns}
+                  pagination={{ initialPageSize: ERROR_TABLE_PAGE_SIZE, hidePerPageOptions: true }}
+                  sorting
+                />
+              </>
+            )}
+          </>
+        )}
+      </EuiFlyoutBody>
+
+      <EuiFlyoutFooter>
+        <EuiFlexGroup justifyContent="spaceBetween">
+          <EuiFlexItem grow={false}>
+            <EuiButtonEmpty onClick={onClose} flush="left">
+              {step === 'done' ? (
+                <FormattedMessage id="customPlugin.import.close" defaultMessage="Close" />
+              ) : (
+                <FormattedMessage id="customPlugin.import.cancel" defaultMessage="Cancel" />
+              )}
+            </EuiButtonEmpty>
+          </EuiFlexItem>
+          {step !== 'done' && (
+            <EuiFlexItem grow={false}>
+              <EuiButton
+                fill
+                onClick={runImport}
+                isLoading={loading}
+                isDisabled={!result || result.valid === 0}
+                data-test-subj="todoImportSubmit"
+              >
+                <FormattedMessage
+                  id="customPlugin.import.submit"
+                  defaultMessage="Import {count, plural, one {# TODO} other {# TODOs}}"
+                  values={{ count: result ? result.valid : 0 }}
+                />
+              </EuiButton>
+            </EuiFlexItem>
+          )}
+        </EuiFlexGroup>
+      </EuiFlyoutFooter>
+    </EuiFlyout>
+  );
+};
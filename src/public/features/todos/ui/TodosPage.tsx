@@ -8,15 +8,23 @@ import {
   EuiButton,
   EuiTabbedContent,
   EuiTabbedContentTab,
+  EuiFlexGroup,
+  EuiFlexItem,
 } from '@elastic/eui';
 import { FormattedMessage } from '@osd/i18n/react';
 import { HttpSetup, NotificationsStart } from '../../../../../src/core/public';
 import { TodoForm } from './TodoForm';
+import { TodoDetailFlyout } from './TodoDetailFlyout';
+import { TodoImportFlyout } from './TodoImportFlyout';
 import { TableTab } from './tabs/TableTab';
 import { KanbanTab } from './tabs/KanbanTab';
+import { CalendarTab } from './tabs/CalendarTab';
+import { GanttTab } from './tabs/GanttTab';
 import { AnalyticsTab } from './tabs/AnalyticsTab';
+import { TodoSavedViewPicker } from './components/TodoSavedViewPicker';
 import { LanguageSelector } from '../../../components/language-selector';
 import { useTodosPage } from '../hooks/use_todos_page';
+import { TodoViewTab } from '../../../../common/todo/todo.saved_views';
 
 interface TodosPageProps {
   http: HttpSetup;
@@ -30,20 +38,50 @@ interface TodosPageProps {
 export const TodosPage: React.FC<TodosPageProps> = ({ http, notifications, dateRange }) => {
   const { data, uiState, actions } = useTodosPage({ http, notifications, dateRange });
 
-  const { todos, pagination, stats, analytics, client } = data;
+  const {
+    todos,
+    pagination,
+    stats,
+    analytics,
+    customFields,
+    wipLimits,
+    statusTransitions,
+    boardTodos,
+    boardTotals,
+    calendarTodos,
+    calendarTotal,
+    ganttTodos,
+    ganttTruncated,
+    savedViews,
+    username,
+    client,
+  } = data;
 
   const {
     selectedTab,
     isFormOpen,
     todoToEdit,
+    todoToView,
+    parentForNewTodo,
+    isImportOpen,
     loading,
     error,
+    boardLoading,
+    boardLoadingMore,
+    boardError,
+    calendarLoading,
+    calendarError,
+    ganttLoading,
+    ganttError,
     statsLoading,
     statsError,
     analyticsLoading,
     analyticsError,
     createLoading,
     updateLoading,
+    updateConflict,
+    bulkLoading,
+    savedViewSaving,
     searchText,
     selectedStatuses,
     selectedTags,
@@ -58,15 +96,37 @@ export const TodosPage: React.FC<TodosPageProps> = ({ http, notifications, dateR
   const {
     setSelectedTab,
     handleFiltersChange,
+    handleApplySavedView,
+    handleSaveView,
+    handleDeleteSavedView,
     handleTableChange,
     handleCreateClick,
+    handleAddSubtaskClick,
     handleEditClick,
+    handleViewClick,
+    handleOpenTodoById,
+    handleDetailClose,
     handleFormClose,
     handleFormSubmit,
+    handleConflictReload,
+    handleConflictOverwrite,
     updateTodo,
     deleteTodo,
+    handleBulkAction,
+    handleExport,
+    handleOscalExport,
+    handleGenerateReport,
+    handleImportClick,
+    handleImportClose,
+    handleImported,
     refreshAnalytics,
     handleFrameworkFilterChange,
+    refreshTodos,
+    handleCalendarRangeChange,
+    handleGanttRangeChange,
+    handleRanksDense,
+    handleRankTodos,
+    handleBoardLoadMore,
   } = actions;
   const tabs: EuiTabbedContentTab[] = [
     {
@@ -80,6 +140,7 @@ export const TodosPage: React.FC<TodosPageProps> = ({ http, notifications, dateR
           error={error}
           sortField={sortField}
           sortDirection={sortDirection}
+          customFields={customFields}
           filters={{
             searchText,
             selectedStatuses,
@@ -90,10 +151,15 @@ export const TodosPage: React.FC<TodosPageProps> = ({ http, notifications, dateR
             dateFilters,
           }}
           onCreateClick={handleCreateClick}
+          onView={handleViewClick}
           onEdit={handleEditClick}
+          onAddSubtask={handleAddSubtaskClick}
           onDelete={deleteTodo}
           onTableChange={handleTableChange}
           onFiltersChange={handleFiltersChange}
+          onBulkAction={handleBulkAction}
+          bulkLoading={bulkLoading}
+          onExport={handleExport}
         />
       ),
     },
@@ -102,9 +168,11 @@ export const TodosPage: React.FC<TodosPageProps> = ({ http, notifications, dateR
       name: <FormattedMessage id="customPlugin.tabs.kanban" defaultMessage="Kanban Board" />,
       content: (
         <KanbanTab
-          todos={todos}
-          loading={loading}
-          error={error}
+          todos={boardTodos}
+          totals={boardTotals}
+          loadingMore={boardLoadingMore}
+          loading={boardLoading}
+          error={boardError}
           filters={{
             searchText,
             selectedStatuses,
@@ -115,12 +183,66 @@ export const TodosPage: React.FC<TodosPageProps> = ({ http, notifications, dateR
             dateFilters,
           }}
           onCreateClick={handleCreateClick}
-          onStatusChange={async (todoId, status) => {
-            await updateTodo(todoId, { status });
-          }}
+          onMove={updateTodo}
           onEdit={handleEditClick}
           onDelete={deleteTodo}
           onFiltersChange={handleFiltersChange}
+          onOpenTodo={handleOpenTodoById}
+          onRanksDense={handleRanksDense}
+          onRankTodos={handleRankTodos}
+          wipLimits={wipLimits}
+          statusTransitions={statusTransitions}
+          onLoadMore={handleBoardLoadMore}
+        />
+      ),
+    },
+    {
+      id: 'calendar',
+      name: <FormattedMessage id="customPlugin.tabs.calendar" defaultMessage="Calendar" />,
+      content: (
+        <CalendarTab
+          todos={calendarTodos}
+          totalCount={calendarTotal}
+          loading={calendarLoading}
+          error={calendarError}
+          filters={{
+            searchText,
+            selectedStatuses,
+            selectedTags,
+            selectedPriorities,
+            selectedSeverities,
+            showOverdueOnly,
+            dateFilters,
+          }}
+          onDueDateChange={(todoId, dueDate) => updateTodo(todoId, { dueDate })}
+          onRangeChange={handleCalendarRangeChange}
+          onView={handleViewClick}
+          onFiltersChange={handleFiltersChange}
+        />
+      ),
+    },
+    {
+      id: 'gantt',
+      name: <FormattedMessage id="customPlugin.tabs.gantt" defaultMessage="Timeline" />,
+      content: (
+        <GanttTab
+          todos={ganttTodos}
+          truncated={ganttTruncated}
+          loading={ganttLoading}
+          error={ganttError}
+          filters={{
+            searchText,
+            selectedStatuses,
+            selectedTags,
+            selectedPriorities,
+            selectedSeverities,
+            showOverdueOnly,
+            dateFilters,
+          }}
+          onScheduleChange={updateTodo}
+          onRangeChange={handleGanttRangeChange}
+          onView={handleViewClick}
+          onFiltersChange={handleFiltersChange}
         />
       ),
     },
@@ -137,6 +259,8 @@ export const TodosPage: React.FC<TodosPageProps> = ({ http, notifications, dateR
           analyticsError={analyticsError}
           onRefresh={refreshAnalytics}
           onFrameworkFilterChange={handleFrameworkFilterChange}
+          onExportOscal={handleOscalExport}
+          onGenerateReport={handleGenerateReport}
         />
       ),
     },
@@ -156,6 +280,9 @@ export const TodosPage: React.FC<TodosPageProps> = ({ http, notifications, dateR
           }
           rightSideItems={[
             <LanguageSelector key="language-selector" />,
+            <EuiButton key="import-button" onClick={handleImportClick} iconType="importAction">
+              <FormattedMessage id="customPlugin.actions.button.import" defaultMessage="Import" />
+            </EuiButton>,
             <EuiButton key="create-button" onClick={handleCreateClick} fill iconType="plusInCircle">
               <FormattedMessage
                 id="customPlugin.actions.button.createTodo"
@@ -166,14 +293,44 @@ export const TodosPage: React.FC<TodosPageProps> = ({ http, notifications, dateR
         />
         <EuiPageContent>
           <EuiPageContentBody>
+            <EuiFlexGroup justifyContent="flexEnd" gutterSize="s" responsive={false}>
+              <EuiFlexItem grow={false}>
+                <TodoSavedViewPicker
+                  views={savedViews}
+                  username={username}
+                  saving={savedViewSaving}
+                  onApply={handleApplySavedView}
+                  onSave={handleSaveView}
+                  onDelete={handleDeleteSavedView}
+                />
+              </EuiFlexItem>
+            </EuiFlexGroup>
             <EuiTabbedContent
               tabs={tabs}
               selectedTab={tabs.find((tab) => tab.id === selectedTab)}
-              onTabClick={(tab) => setSelectedTab(tab.id as 'table' | 'analytics' | 'kanban')}
+              onTabClick={(tab) => setSelectedTab(tab.id as TodoViewTab)}
             />
           </EuiPageContentBody>
         </EuiPageContent>
       </EuiPageBody>
+      {todoToView && !isFormOpen && (
+        <TodoDetailFlyout
+          todo={todoToView}
+          client={client}
+          onClose={handleDetailClose}
+          onEdit={handleEditClick}
+          onCommentsChange={refreshTodos}
+        />
+      )}
+      {isImportOpen && (
+        <TodoImportFlyout
+          client={client}
+          notifications={notifications}
+          customFields={customFields}
+          onClose={handleImportClose}
+          onImported={handleImported}
+        />
+      )}
       {isFormOpen && (
         <TodoForm
           todo={todoToEdit}
@@ -181,6 +338,11 @@ export const TodosPage: React.FC<TodosPageProps> = ({ http, notifications, dateR
           onSubmit={handleFormSubmit}
           onClose={handleFormClose}
           client={client}
+          customFields={customFields}
+          parent={parentForNewTodo}
+          conflict={updateConflict}
+          onConflictReload={handleConflictReload}
+          onConflictOverwrite={handleConflictOverwrite}
         />
       )}
     </EuiPage>
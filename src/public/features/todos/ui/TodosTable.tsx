@@ -7,13 +7,23 @@ import {
   EuiFlexItem,
   EuiText,
   EuiConfirmModal,
+  EuiSpacer,
+  EuiIcon,
 } from '@elastic/eui';
 import { FormattedMessage } from '@osd/i18n/react';
 import { i18n } from '@osd/i18n';
 import { Todo, TODO_STATUS_COLORS, TODO_STATUS_LABELS, TodoSortField } from '../../../../common/todo/todo.types';
-import { PaginationMeta } from '../../../../common/todo/todo.dtos';
+import { BulkTodoAction, BulkTodosResponse, PaginationMeta } from '../../../../common/todo/todo.dtos';
+import {
+  TodoCustomFieldDefinition,
+  TodoCustomFieldValue,
+} from '../../../../common/todo/todo.custom_fields';
 import { useTodosTable } from '../hooks/use_todos_table';
+import { TodosBulkActionBar } from './components/TodosBulkActionBar';
+import { TodoSubtaskProgress } from './components/TodoSubtaskProgress';
+import { TodoCommentCount } from './components/TodoCommentCount';
 import { formatRelativeTime, formatDate, isOverdue } from '../../../utils/date-formatters';
+import { formatRecurrence, formatCustomFieldValue } from '../../../utils/todo-field-formatters';
 
 interface TodosTableProps {
   todos: Todo[];
@@ -21,9 +31,15 @@ interface TodosTableProps {
   loading: boolean;
   sortField?: TodoSortField;
   sortDirection?: 'asc' | 'desc';
+  /** Custom fields shown as extra columns, after the built-in ones */
+  customFields?: readonly TodoCustomFieldDefinition[];
+  onView: (todo: Todo) => void;
   onEdit: (todo: Todo) => void;
+  onAddSubtask?: (parent: Todo) => void;
   onDelete: (id: string) => void;
   onTableChange: (page: number, pageSize: number, sortField?: TodoSortField, sortDirection?: 'asc' | 'desc') => void;
+  onBulkAction?: (actions: BulkTodoAction[]) => Promise<BulkTodosResponse | null>;
+  bulkLoading?: boolean;
 }
 
 export const TodosTable: React.FC<TodosTableProps> = ({
@@ -32,20 +48,51 @@ export const TodosTable: React.FC<TodosTableProps> = ({
   loading,
   sortField = 'createdAt',
   sortDirection = 'desc',
+  customFields = [],
+  onView,
   onEdit,
+  onAddSubtask,
   onDelete,
   onTableChange,
+  onBulkAction,
+  bulkLoading = false,
 }) => {
   const { data: hookData, actions } = useTodosTable({
+    todos,
     pagination,
     sortField,
     sortDirection,
     onDelete,
     onTableChange,
+    onBulkAction,
   });
 
-  const { todoToDelete, paginationConfig, sortingConfig } = hookData;
-  const { handleDeleteClick, handleDeleteConfirm, handleDeleteCancel, handleTableChange } = actions;
+  const {
+    tableItems,
+    depthById,
+    todoToDelete,
+    paginationConfig,
+    sortingConfig,
+    selectedTodos,
+    selectionKey,
+    bulkTag,
+    isBulkDeleteConfirmOpen,
+  } = hookData;
+  const {
+    handleDeleteClick,
+    handleDeleteConfirm,
+    handleDeleteCancel,
+    handleTableChange,
+    handleSelectionChange,
+    clearSelection,
+    setBulkTag,
+    handleBulkStatusChange,
+    handleBulkAddTag,
+    handleBulkRemoveTag,
+    handleBulkDeleteClick,
+    handleBulkDeleteConfirm,
+    handleBulkDeleteCancel,
+  } = actions;
 
   const columns: Array<EuiBasicTableColumn<Todo>> = [
     {
@@ -55,15 +102,45 @@ export const TodosTable: React.FC<TodosTableProps> = ({
       truncateText: true,
       width: '25%',
       render: (title: string, todo: Todo) => (
-        <EuiText size="s">
-          <strong>{title}</strong>
-          {todo.description && (
-            <>
-              <br />
-              <span style={{ color: '#69707D' }}>{todo.description}</span>
-            </>
-          )}
-        </EuiText>
+        <div style={{ paddingLeft: (depthById[todo.id] ?? 0) * 16, width: '100%' }}>
+          <EuiText size="s">
+            {todo.parentId && (
+              <EuiIcon
+                type="nested"
+                size="s"
+                color="subdued"
+                style={{ marginRight: 4 }}
+                aria-label={i18n.translate('customPlugin.table.subtaskIcon', {
+                  defaultMessage: 'Subtask',
+                })}
+              />
+            )}
+            <strong>{title}</strong>
+            {todo.recurrence && (
+              <EuiIcon
+                type="refresh"
+                size="s"
+                color="subdued"
+                style={{ marginLeft: 4 }}
+                title={formatRecurrence(todo.recurrence)}
+                aria-label={formatRecurrence(todo.recurrence)}
+              />
+            )}
+            {!!todo.commentCount && (
+              <>
+                {' '}
+                <TodoCommentCount count={todo.commentCount} />
+              </>
+            )}
+            {todo.description && (
+              <>
+                <br />
+                <span style={{ color: '#69707D' }}>{todo.description}</span>
+              </>
+            )}
+          </EuiText>
+          {todo.childProgress && <TodoSubtaskProgress progress={todo.childProgress} />}
+        </div>
       ),
     },
     {
@@ -155,10 +232,32 @@ export const TodosTable: React.FC<TodosTableProps> = ({
         );
       },
     },
+    ...customFields.map(
+      (customField): EuiBasicTableColumn<Todo> => ({
+        field: `custom.${customField.key}`,
+        name: customField.label,
+        sortable: true,
+        truncateText: true,
+        render: (value: TodoCustomFieldValue | undefined) => (
+          <EuiText size="s" color={value === undefined ? 'subdued' : 'default'}>
+            {formatCustomFieldValue(customField, value)}
+          </EuiText>
+        ),
+      })
+    ),
     {
       name: i18n.translate('customPlugin.table.column.actions', { defaultMessage: 'Actions' }),
       width: '100px',
       actions: [
+        {
+          name: i18n.translate('customPlugin.actions.button.view', { defaultMessage: 'View details' }),
+          description: i18n.translate('customPlugin.actions.description.view', {
+            defaultMessage: 'View details and history of this TODO',
+          }),
+          icon: 'inspect',
+          type: 'icon',
+          onClick: onView,
+        },
         {
           name: i18n.translate('customPlugin.actions.button.edit', { defaultMessage: 'Edit' }),
           description: i18n.translate('customPlugin.actions.description.edit', {
@@ -168,6 +267,21 @@ export const TodosTable: React.FC<TodosTableProps> = ({
           type: 'icon',
           onClick: onEdit,
         },
+        ...(onAddSubtask
+          ? [
+              {
+                name: i18n.translate('customPlugin.actions.button.addSubtask', {
+                  defaultMessage: 'Add subtask',
+                }),
+                description: i18n.translate('customPlugin.actions.description.addSubtask', {
+                  defaultMessage: 'Create a subtask of this TODO',
+                }),
+                icon: 'listAdd',
+                type: 'icon' as const,
+                onClick: onAddSubtask,
+              },
+            ]
+          : []),
         {
           name: i18n.translate('customPlugin.actions.button.delete', { defaultMessage: 'Delete' }),
           description: i18n.translate('customPlugin.actions.description.delete', {
@@ -184,11 +298,31 @@ export const TodosTable: React.FC<TodosTableProps> = ({
 
   return (
     <>
+      {onBulkAction && selectedTodos.length > 0 && (
+        <>
+          <TodosBulkActionBar
+            selectedCount={selectedTodos.length}
+            loading={bulkLoading}
+            tag={bulkTag}
+            onTagChange={setBulkTag}
+            onStatusChange={handleBulkStatusChange}
+            onAddTag={handleBulkAddTag}
+            onRemoveTag={handleBulkRemoveTag}
+            onDelete={handleBulkDeleteClick}
+            onClearSelection={clearSelection}
+          />
+          <EuiSpacer size="s" />
+        </>
+      )}
+
       <EuiBasicTable
-        items={todos}
+        key={selectionKey}
+        items={tableItems}
+        itemId="id"
         columns={columns}
         pagination={paginationConfig}
         sorting={sortingConfig}
+        selection={onBulkAction ? { onSelectionChange: handleSelectionChange } : undefined}
         loading={loading}
         onChange={handleTableChange}
         rowHeader="title"
@@ -228,6 +362,35 @@ export const TodosTable: React.FC<TodosTableProps> = ({
           </p>
         </EuiConfirmModal>
       )}
+
+      {isBulkDeleteConfirmOpen && (
+        <EuiConfirmModal
+          title={
+            <FormattedMessage
+              id="customPlugin.modal.bulkDelete.title"
+              defaultMessage="Delete {count, plural, one {# TODO} other {# TODOs}}"
+              values={{ count: selectedTodos.length }}
+            />
+          }
+          onCancel={handleBulkDeleteCancel}
+          onConfirm={handleBulkDeleteConfirm}
+          cancelButtonText={i18n.translate('customPlugin.modal.delete.cancel', {
+            defaultMessage: 'Cancel',
+          })}
+          confirmButtonText={i18n.translate('customPlugin.modal.delete.confirm', {
+            defaultMessage: 'Delete',
+          })}
+          buttonColor="danger"
+          defaultFocusedButton="confirm"
+        >
+          <p>
+            <FormattedMessage
+              id="customPlugin.modal.delete.warning"
+              defaultMessage="This action cannot be undone."
+            />
+          </p>
+        </EuiConfirmModal>
+      )}
     </>
   );
 };
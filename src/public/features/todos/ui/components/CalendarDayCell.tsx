@@ -0,0 +1,109 @@
+import React from 'react';
+import {
+  EuiPanel,
+  EuiText,
+  EuiBadge,
+  EuiIcon,
+  EuiToolTip,
+  EuiDraggable,
+  EuiDroppable,
+  EuiFlexGroup,
+  EuiFlexItem,
+} from '@elastic/eui';
+import { i18n } from '@osd/i18n';
+import moment from 'moment';
+import { Todo } from '../../../../../common/todo/todo.types';
+import { CalendarDayData } from '../../hooks/use_todo_calendar';
+
+/**
+ * Props for CalendarDayCell component
+ */
+export interface CalendarDayCellProps {
+  /** Day to display, with the TODOs due on it */
+  readonly day: CalendarDayData;
+  /** Minimum height of the cell; week view uses taller cells */
+  readonly minHeight: number;
+  /** Callback when a TODO is clicked */
+  readonly onOpen: (todo: Todo) => void;
+}
+
+/**
+ * CalendarDayCell Component
+ *
+ * Displays one day of the TODO calendar as a droppable area for TODOs.
+ * Pure presentational component following PROJECT RULE #11.
+ *
+ * Features:
+ * - Day number, emphasized for today and subdued outside the month shown
+ * - TODOs by due time, colored by priority
+ * - Overdue highlighting
+ * - Drag a TODO to another day to reschedule it
+ *
+ * @param props - Component props
+ * @returns React component rendering a calendar day
+ */
+export const CalendarDayCell: React.FC<CalendarDayCellProps> = ({ day, minHeight, onOpen }) => {
+  return (
+    <EuiPanel
+      paddingSize="xs"
+      hasShadow={false}
+      hasBorder
+      color={day.isOutsideMonth ? 'subdued' : 'plain'}
+      style={{ minHeight: `${minHeight}px`, display: 'flex', flexDirection: 'column' }}
+      data-test-subj={`calendarDay-${day.key}`}
+    >
+      <EuiText
+        size="xs"
+        color={day.isOutsideMonth ? 'subdued' : 'default'}
+        textAlign="right"
+      >
+        {day.isToday ? <strong>{day.dayOfMonth}</strong> : day.dayOfMonth}
+      </EuiText>
+
+      <EuiDroppable droppableId={day.key} spacing="none" style={{ flexGrow: 1 }}>
+        {day.entries.map((entry, index) => (
+          <EuiDraggable
+            key={entry.todo.id}
+            draggableId={entry.todo.id}
+            index={index}
+            spacing="none"
+            hasInteractiveChildren={true}
+          >
+            <EuiToolTip
+              position="top"
+              content={`${moment(entry.todo.dueDate).format('LT')} · ${entry.todo.title}`}
+            >
+              <EuiFlexGroup gutterSize="xs" alignItems="center" responsive={false}>
+                {entry.isOverdue && (
+                  <EuiFlexItem grow={false}>
+                    <EuiIcon
+                      type="clock"
+                      color="danger"
+                      aria-label={i18n.translate('customPlugin.calendar.overdue', {
+                        defaultMessage: 'Overdue',
+                      })}
+                    />
+                  </EuiFlexItem>
+                )}
+                <EuiFlexItem style={{ minWidth: 0 }}>
+                  <EuiBadge
+                    color={entry.color}
+                    onClick={() => onOpen(entry.todo)}
+                    onClickAriaLabel={i18n.translate('customPlugin.calendar.openTodo', {
+                      defaultMessage: 'Open {title}',
+                      values: { title: entry.todo.title },
+                    })}
+                    style={{ maxWidth: '100%' }}
+                    data-test-subj={`calendarEntry-${entry.todo.id}`}
+                  >
+                    {entry.todo.title}
+                  </EuiBadge>
+                </EuiFlexItem>
+              </EuiFlexGroup>
+            </EuiToolTip>
+          </EuiDraggable>
+        ))}
+      </EuiDroppable>
+    </EuiPanel>
+  );
+};
@@ -0,0 +1,85 @@
+import React, { useState } from 'react';
+import { EuiButton, EuiContextMenuItem, EuiContextMenuPanel, EuiPopover } from '@elastic/eui';
+import { FormattedMessage } from '@osd/i18n/react';
+import { i18n } from '@osd/i18n';
+import { TodoReportFormat } from '../../../../../common/todo/todo.report';
+
+/**
+ * Props for ComplianceReportButton component
+ */
+export interface ComplianceReportButtonProps {
+  /** Whether the report is unavailable, e.g. while analytics are loading */
+  readonly disabled?: boolean;
+  /** Callback to download the report in a format */
+  readonly onGenerateReport: (format: TodoReportFormat) => void;
+}
+
+/**
+ * ComplianceReportButton Component
+ *
+ * "Generate report" button with a menu of report formats. The report covers the
+ * selected compliance framework and the date range of the page.
+ *
+ * Following PROJECT RULE #11:
+ * - Purely presentational (props in, JSX out)
+ * - Only trivial useState for the menu
+ * - The download is started by useTodosPage
+ *
+ * @param props - Component props
+ * @returns React component rendering the report button and format menu
+ */
+export const ComplianceReportButton: React.FC<ComplianceReportButtonProps> = ({
+  disabled,
+  onGenerateReport,
+}) => {
+  const [isOpen, setIsOpen] = useState(false);
+
+  const formats: Array<{ format: TodoReportFormat; label: string }> = [
+    {
+      format: 'html',
+      label: i18n.translate('customPlugin.report.html', { defaultMessage: 'HTML (printable)' }),
+    },
+    {
+      format: 'markdown',
+      label: i18n.translate('customPlugin.report.markdown', { defaultMessage: 'Markdown' }),
+    },
+  ];
+
+  const button = (
+    <EuiButton
+      iconType="document"
+      iconSide="left"
+      size="s"
+      onClick={() => setIsOpen(!isOpen)}
+      isDisabled={disabled}
+      data-test-subj="complianceReportButton"
+    >
+      <FormattedMessage id="customPlugin.report.button" defaultMessage="Generate report" />
+    </EuiButton>
+  );
+
+  return (
+    <EuiPopover
+      button={button}
+      isOpen={isOpen}
+      closePopover={() => setIsOpen(false)}
+      panelPaddingSize="none"
+      anchorPosition="downRight"
+    >
+      <EuiContextMenuPanel
+        items={formats.map(({ format, label }) => (
+          <EuiContextMenuItem
+            key={format}
+            icon="document"
+            onClick={() => {
+              setIsOpen(false);
+              onGenerateReport(format);
+            }}
+          >
+            {label}
+          </EuiContextMenuItem>
+        ))}
+      />
+    </EuiPopover>
+  );
+};
@@ -0,0 +1,235 @@
+import React from 'react';
+import { EuiFlexGroup, EuiFlexItem, EuiIcon, EuiLink, EuiToolTip } from '@elastic/eui';
+import { i18n } from '@osd/i18n';
+import moment from 'moment';
+import { Todo } from '../../../../../common/todo/todo.types';
+import { CHART_COLORS, mapStatusColorToHex } from '../../../../constants/theme';
+import { GanttDragEdge, GanttRowData } from '../../hooks/use_todo_gantt';
+
+/**
+ * Props for GanttRow component
+ */
+export interface GanttRowProps {
+  /** Bar to display */
+  readonly row: GanttRowData;
+  /** Position of the today line, in percent; null when today is outside the window */
+  readonly todayOffset: number | null;
+  /** Whether this bar is being dragged */
+  readonly isDragging: boolean;
+  /** Callback when the bar or one of its ends is pressed */
+  readonly onDragStart: (
+    todoId: string,
+    edge: GanttDragEdge,
+    clientX: number,
+    trackWidth: number
+  ) => void;
+  /** Callback when the TODO title is clicked */
+  readonly onOpen: (todo: Todo) => void;
+}
+
+const ROW_HEIGHT = 28;
+const BAR_HEIGHT = 16;
+const HANDLE_WIDTH = 6;
+
+const formatDate = (date?: string) => (date ? moment(date).format('ll') : '');
+
+/**
+ * GanttRow Component
+ *
+ * Displays one TODO of the timeline: its title and a bar from start to due date.
+ * Pure presentational component following PROJECT RULE #11.
+ *
+ * Features:
+ * - Bar colored by status, outlined in red when overdue
+ * - Diamond marker for TODOs without a start date
+ * - Completion marker at the completion date
+ * - Drag the bar to move it, or its ends to change the start or due date
+ * - Open blockers, flagged when the TODO starts before a blocker is due
+ *
+ * @param props - Component props
+ * @returns React component rendering a timeline row
+ */
+export const GanttRow: React.FC<GanttRowProps> = ({
+  row,
+  todayOffset,
+  isDragging,
+  onDragStart,
+  onOpen,
+}) => {
+  const { todo } = row;
+  const barColor = mapStatusColorToHex(row.color);
+
+  const handleMouseDown = (edge: GanttDragEdge) => (event: React.MouseEvent<HTMLElement>) => {
+    if (event.button !== 0) {
+      return;
+    }
+    event.preventDefault();
+    event.stopPropagation();
+    const track = (event.currentTarget as HTMLElement).closest('[data-gantt-track]');
+    onDragStart(todo.id, edge, event.clientX, track ? track.getBoundingClientRect().width : 0);
+  };
+
+  const tooltip = todo.startDate
+    ? `${formatDate(todo.startDate)} – ${formatDate(todo.dueDate)}`
+    : formatDate(todo.dueDate);
+
+  return (
+    <EuiFlexGroup
+      gutterSize="s"
+      alignItems="center"
+      responsive={false}
+      style={{ minHeight: ROW_HEIGHT }}
+      data-test-subj={`ganttRow-${todo.id}`}
+    >
+      <EuiFlexItem style={{ flexBasis: '25%', flexGrow: 0, minWidth: 0 }}>
+        <EuiFlexGroup gutterSize="xs" alignItems="center" responsive={false}>
+          {row.isOverdue && (
+            <EuiFlexItem grow={false}>
+              <EuiIcon
+                type="clock"
+                color="danger"
+                aria-label={i18n.translate('customPlugin.gantt.overdue', {
+                  defaultMessage: 'Overdue',
+                })}
+              />
+            </EuiFlexItem>
+          )}
+          {row.openBlockers.length > 0 && (
+            <EuiFlexItem grow={false}>
+              <EuiToolTip
+                position="top"
+                title={
+                  row.startsBeforeBlocker
+                    ? i18n.translate('customPlugin.gantt.startsBeforeBlocker', {
+                        defaultMessage: 'Starts before a blocker is due',
+                      })
+                    : i18n.translate('customPlugin.gantt.blockedBy', {
+                        defaultMessage: 'Blocked by',
+                      })
+                }
+                content={row.openBlockers.map((blocker) => blocker.title).join(', ')}
+              >
+                <EuiIcon
+                  type="link"
+                  color={row.startsBeforeBlocker ? 'danger' : 'subdued'}
+                  data-test-subj={`ganttBlockers-${todo.id}`}
+                />
+              </EuiToolTip>
+            </EuiFlexItem>
+          )}
+          <EuiFlexItem style={{ minWidth: 0 }}>
+            <EuiLink
+              onClick={() => onOpen(todo)}
+              className="eui-textTruncate"
+              data-test-subj={`ganttTitle-${todo.id}`}
+            >
+              {todo.title}
+            </EuiLink>
+          </EuiFlexItem>
+        </EuiFlexGroup>
+      </EuiFlexItem>
+
+      <EuiFlexItem style={{ minWidth: 0 }}>
+        <div data-gantt-track style={{ position: 'relative', height: ROW_HEIGHT }}>
+          {todayOffset !== null && (
+            <div
+              style={{
+                position: 'absolute',
+                left: `${todayOffset}%`,
+                top: 0,
+                bottom: 0,
+                borderLeft: `1px dashed ${CHART_COLORS.danger}`,
+              }}
+            />
+          )}
+
+          <EuiToolTip position="top" content={tooltip}>
+            {row.isMilestone ? (
+              <div
+                onMouseDown={handleMouseDown('move')}
+                style={{
+                  position: 'absolute',
+                  left: `calc(${row.left}% - ${BAR_HEIGHT / 2}px)`,
+                  top: (ROW_HEIGHT - BAR_HEIGHT) / 2,
+                  width: BAR_HEIGHT,
+                  height: BAR_HEIGHT,
+                  cursor: isDragging ? 'grabbing' : 'grab',
+                }}
+                data-test-subj={`ganttBar-${todo.id}`}
+              >
+                <EuiIcon type="dot" size="l" color={row.isOverdue ? 'danger' : barColor} />
+              </div>
+            ) : (
+              <div
+                onMouseDown={handleMouseDown('move')}
+                style={{
+                  position: 'absolute',
+                  left: `${row.left}%`,
+                  width: `${row.width}%`,
+                  minWidth: HANDLE_WIDTH * 2,
+                  top: (ROW_HEIGHT - BAR_HEIGHT) / 2,
+                  height: BAR_HEIGHT,
+                  background: barColor,
+                  opacity: isDragging ? 0.7 : 1,
+                  border: row.isOverdue ? `2px solid ${CHART_COLORS.danger}` : undefined,
+                  borderRadius: row.clippedStart || row.clippedEnd ? 0 : 4,
+                  cursor: isDragging ? 'grabbing' : 'grab',
+                }}
+                data-test-subj={`ganttBar-${todo.id}`}
+              >
+                {!row.clippedStart && (
+                  <div
+                    onMouseDown={handleMouseDown('start')}
+                    style={{
+                      position: 'absolute',
+                      left: 0,
+                      top: 0,
+                      bottom: 0,
+                      width: HANDLE_WIDTH,
+                      cursor: 'ew-resize',
+                    }}
+                  />
+                )}
+                {!row.clippedEnd && (
+                  <div
+                    onMouseDown={handleMouseDown('end')}
+                    style={{
+                      position: 'absolute',
+                      right: 0,
+                      top: 0,
+                      bottom: 0,
+                      width: HANDLE_WIDTH,
+                      cursor: 'ew-resize',
+                    }}
+                  />
+                )}
+              </div>
+            )}
+          </EuiToolTip>
+
+          {row.completedOffset !== null && (
+            <EuiToolTip
+              position="bottom"
+              content={i18n.translate('customPlugin.gantt.completedOn', {
+                defaultMessage: 'Completed {date}',
+                values: { date: formatDate(todo.completedAt ?? undefined) },
+              })}
+            >
+              <div
+                style={{
+                  position: 'absolute',
+                  left: `calc(${row.completedOffset}% - 1px)`,
+                  top: 0,
+                  bottom: 0,
+                  width: 3,
+                  background: row.completedLate ? CHART_COLORS.warning : CHART_COLORS.success,
+                }}
+                data-test-subj={`ganttCompleted-${todo.id}`}
+              />
+            </EuiToolTip>
+          )}
+        </div>
+      </EuiFlexItem>
+    </EuiFlexGroup>
+  );
+};
@@ -11,6 +11,7 @@ import {
   EuiIcon,
   EuiSpacer,
   EuiToolTip,
+  EuiLink,
 } from '@elastic/eui';
 import { FormattedMessage } from '@osd/i18n/react';
 import { i18n } from '@osd/i18n';
@@ -22,6 +23,8 @@ import {
   TODO_SEVERITY_LABELS,
   TODO_SEVERITY_COLORS,
 } from '../../../../../common/todo/todo.types';
+import { TodoSubtaskProgress } from './TodoSubtaskProgress';
+import { TodoCommentCount } from './TodoCommentCount';
 
 /**
  * Props for KanbanCard component
@@ -31,10 +34,14 @@ export interface KanbanCardProps {
   readonly todo: Todo;
   /** Index for drag-drop ordering */
   readonly index: number;
+  /** Title of the parent TODO when this card is a subtask */
+  readonly parentTitle?: string;
   /** Callback when edit button is clicked */
   readonly onEdit: (todo: Todo) => void;
   /** Callback when delete button is clicked */
   readonly onDelete: (todoId: string) => void;
+  /** Callback when a blocking TODO is clicked */
+  readonly onBlockerClick?: (todoId: string) => void;
   /** Drag handle props from EuiDraggable */
   readonly dragHandleProps?: any;
 }
@@ -48,6 +55,8 @@ export interface KanbanCardProps {
  * Features:
  * - Drag handle icon for reordering
  * - Title and description with truncation
+ * - Parent label for subtasks and progress for parents
+ * - Blocked badge with links to the blocking TODOs
  * - Priority and severity badges
  * - Tag display (first 3, with "+N" for extras)
  * - Assignee indicator
@@ -60,8 +69,10 @@ export interface KanbanCardProps {
 export const KanbanCard: React.FC<KanbanCardProps> = ({
   todo,
   index,
+  parentTitle,
   onEdit,
   onDelete,
+  onBlockerClick,
   dragHandleProps,
 }) => {
   /**
@@ -115,6 +126,22 @@ export const KanbanCard: React.FC<KanbanCardProps> = ({
 
         {/* Card Content */}
         <EuiFlexItem>
+          {/* Parent */}
+          {todo.parentId && (
+            <EuiText size="xs" color="subdued">
+              <EuiIcon type="nested" size="s" style={{ marginRight: 4 }} />
+              {parentTitle ? (
+                <FormattedMessage
+                  id="customPlugin.kanban.card.subtaskOf"
+                  defaultMessage="Subtask of {title}"
+                  values={{ title: parentTitle }}
+                />
+              ) : (
+                <FormattedMessage id="customPlugin.kanban.card.subtask" defaultMessage="Subtask" />
+              )}
+            </EuiText>
+          )}
+
           {/* Title */}
           <EuiTitle size="xxs">
             <h4
@@ -151,10 +178,61 @@ export const KanbanCard: React.FC<KanbanCardProps> = ({
             </>
           )}
 
+          {/* Blockers */}
+          {todo.blockers && todo.blockers.length > 0 && (
+            <>
+              <EuiText size="xs" color="subdued">
+                <FormattedMessage
+                  id="customPlugin.kanban.card.blockedBy"
+                  defaultMessage="Blocked by:"
+                />{' '}
+                {todo.blockers.map((blocker, blockerIndex) => (
+                  <React.Fragment key={blocker.id}>
+                    {blockerIndex > 0 && ', '}
+                    <EuiLink
+                      onClick={() => onBlockerClick?.(blocker.id)}
+                      color={blocker.status === 'done' ? 'subdued' : 'primary'}
+                      style={
+                        blocker.status === 'done' ? { textDecoration: 'line-through' } : undefined
+                      }
+                    >
+                      {blocker.title}
+                    </EuiLink>
+                  </React.Fragment>
+                ))}
+              </EuiText>
+              <EuiSpacer size="xs" />
+            </>
+          )}
+
+          {/* Subtask Progress */}
+          {todo.childProgress && (
+            <>
+              <TodoSubtaskProgress progress={todo.childProgress} />
+              <EuiSpacer size="xs" />
+            </>
+          )}
+
           <EuiSpacer size="xs" />
 
           {/* Badges Row */}
           <EuiFlexGroup gutterSize="xs" wrap responsive={false}>
+            {/* Blocked Badge */}
+            {todo.isBlocked && (
+              <EuiFlexItem grow={false}>
+                <EuiBadge color="danger" iconType="lock">
+                  <FormattedMessage id="customPlugin.kanban.card.blocked" defaultMessage="Blocked" />
+                </EuiBadge>
+              </EuiFlexItem>
+            )}
+
+            {/* Comment Count */}
+            {!!todo.commentCount && (
+              <EuiFlexItem grow={false}>
+                <TodoCommentCount count={todo.commentCount} />
+              </EuiFlexItem>
+            )}
+
             {/* Priority Badge */}
             <EuiFlexItem grow={false}>
               <EuiBadge color={TODO_PRIORITY_COLORS[todo.priority]}>
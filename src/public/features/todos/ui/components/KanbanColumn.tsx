@@ -2,8 +2,8 @@
 import React from 'react';
 import {
   EuiPanel,
-  EuiTitle,
   EuiSpacer,
+  EuiButtonEmpty,
   EuiEmptyPrompt,
   EuiDraggable,
   EuiDroppable,
@@ -11,6 +11,7 @@ import {
 import { FormattedMessage } from '@osd/i18n/react';
 import { Todo, TodoStatus } from '../../../../../common/todo/todo.types';
 import { KanbanCard } from './KanbanCard';
+import { KanbanColumnTitle } from './KanbanColumnTitle';
 
 /**
  * Props for KanbanColumn component
@@ -24,12 +25,32 @@ export interface KanbanColumnProps {
   readonly color: string;
   /** Todos to display in this column */
   readonly todos: readonly Todo[];
+  /** Count of todos in this column including those not loaded yet; defaults to the loaded ones */
+  readonly total?: number;
+  /** Whether more todos of this column can be loaded */
+  readonly hasMore?: boolean;
+  /** Whether more todos of this column are being loaded */
+  readonly isLoadingMore?: boolean;
+  /** Work-in-progress limit of this column, or null if it has none */
+  readonly limit?: number | null;
+  /** Whether the column holds more todos than its limit */
+  readonly isOverLimit?: boolean;
   /** Unique ID for drag-drop library */
   readonly droppableId: string;
+  /** Prefix of the draggable IDs of the cards, unique per swimlane */
+  readonly draggableIdPrefix?: string;
+  /** Whether the column is a cell of a swimlane, shown without header or empty state */
+  readonly compact?: boolean;
+  /** Titles of the todos on the board, keyed by ID, for labelling subtasks */
+  readonly parentTitles: Readonly<Record<string, string>>;
   /** Callback when edit is clicked on a card */
   readonly onEdit: (todo: Todo) => void;
   /** Callback when delete is clicked on a card */
   readonly onDelete: (todoId: string) => void;
+  /** Callback when a blocking TODO is clicked on a card */
+  readonly onOpenTodo?: (todoId: string) => void;
+  /** Callback when more todos of this column are requested */
+  readonly onLoadMore?: () => void;
 }
 
 /**
@@ -39,9 +60,11 @@ export interface KanbanColumnProps {
  * Pure presentational component following PROJECT RULE #11.
  *
  * Features:
- * - Column header with title and count
+ * - Column header with title and count, and work-in-progress limit if any
  * - Droppable area for todo cards
+ * - "Load more" button when the column has more todos than are loaded
  * - Empty state when no todos
+ * - Compact variant for swimlane cells
  * - Color accent for visual distinction
  *
  * @param props - Component props
@@ -52,67 +75,84 @@ export const KanbanColumn: React.FC<KanbanColumnProps> = ({
   title,
   color,
   todos,
+  total,
+  hasMore = false,
+  isLoadingMore = false,
+  limit = null,
+  isOverLimit = false,
   droppableId,
+  draggableIdPrefix = '',
+  compact = false,
+  parentTitles,
   onEdit,
   onDelete,
+  onOpenTodo,
+  onLoadMore,
 }) => {
+  const count = total ?? todos.length;
+
   return (
     <EuiPanel
-      paddingSize="m"
+      paddingSize={compact ? 's' : 'm'}
       hasShadow={false}
       hasBorder
       style={{
-        minHeight: '500px',
+        minHeight: compact ? '140px' : '500px',
         display: 'flex',
         flexDirection: 'column',
       }}
     >
       {/* Column Header */}
-      <EuiTitle size="xs">
-        <h3>
-          {title} ({todos.length})
-        </h3>
-      </EuiTitle>
+      {!compact && (
+        <>
+          <KanbanColumnTitle
+            title={title}
+            count={count}
+            limit={limit}
+            isOverLimit={isOverLimit}
+          />
 
-      <EuiSpacer size="m" />
+          <EuiSpacer size="m" />
+        </>
+      )}
 
-      {/* Droppable Area */}
-      {todos.length === 0 ? (
-        // Empty State
-        <EuiEmptyPrompt
-          iconType="visTable"
-          title={
-            <h4>
-              <FormattedMessage
-                id="customPlugin.kanban.column.empty.title"
-                defaultMessage="No {status} tasks"
-                values={{ status: title.toLowerCase() }}
-              />
-            </h4>
-          }
-          body={
-            <p>
-              <FormattedMessage
-                id="customPlugin.kanban.column.empty.body"
-                defaultMessage="Drag tasks here or create new ones"
-              />
-            </p>
-          }
-          titleSize="xs"
-        />
-      ) : (
-        <EuiDroppable
-          droppableId={droppableId}
-          spacing="m"
-          style={{
-            flexGrow: 1,
-            minHeight: '400px',
-          }}
-        >
-          {todos.map((todo, index) => (
+      {/* Droppable Area, also when empty so cards can be dropped on it */}
+      <EuiDroppable
+        droppableId={droppableId}
+        spacing="m"
+        style={{
+          flexGrow: 1,
+          minHeight: compact ? '120px' : '400px',
+        }}
+      >
+        {todos.length === 0 && !compact ? (
+          // Empty State
+          <EuiEmptyPrompt
+            iconType="visTable"
+            title={
+              <h4>
+                <FormattedMessage
+                  id="customPlugin.kanban.column.empty.title"
+                  defaultMessage="No {status} tasks"
+                  values={{ status: title.toLowerCase() }}
+                />
+              </h4>
+            }
+            body={
+              <p>
+                <FormattedMessage
+                  id="customPlugin.kanban.column.empty.body"
+                  defaultMessage="Drag tasks here or create new ones"
+                />
+              </p>
+            }
+            titleSize="xs"
+          />
+        ) : (
+          todos.map((todo, index) => (
             <EuiDraggable
               key={todo.id}
-              draggableId={todo.id}
+              draggableId={`${draggableIdPrefix}${todo.id}`}
               index={index}
               customDragHandle={true}
               hasInteractiveChildren={true}
@@ -121,14 +161,31 @@ export const KanbanColumn: React.FC<KanbanColumnProps> = ({
                 <KanbanCard
                   todo={todo}
                   index={index}
+                  parentTitle={todo.parentId ? parentTitles[todo.parentId] : undefined}
                   onEdit={onEdit}
                   onDelete={onDelete}
+                  onBlockerClick={onOpenTodo}
                   dragHandleProps={provided.dragHandleProps}
                 />
               )}
             </EuiDraggable>
-          ))}
-        </EuiDroppable>
+          ))
+        )}
+      </EuiDroppable>
+
+      {hasMore && !compact && (
+        <EuiButtonEmpty
+          size="s"
+          onClick={onLoadMore}
+          isLoading={isLoadingMore}
+          data-test-subj={`kanbanLoadMore-${status}`}
+        >
+          <FormattedMessage
+            id="customPlugin.kanban.column.loadMore"
+            defaultMessage="Load more ({remaining} not shown)"
+            values={{ remaining: count - todos.length }}
+          />
+        </EuiButtonEmpty>
       )}
     </EuiPanel>
   );
@@ -0,0 +1,73 @@
+import React from 'react';
+import { EuiTitle, EuiTextColor, EuiToolTip } from '@elastic/eui';
+import { FormattedMessage } from '@osd/i18n/react';
+
+/**
+ * Props for KanbanColumnTitle component
+ */
+export interface KanbanColumnTitleProps {
+  /** Display title of the column */
+  readonly title: string;
+  /** Count of todos in the column */
+  readonly count: number;
+  /** Work-in-progress limit of the column, or null if it has none */
+  readonly limit: number | null;
+  /** Whether the column holds more todos than its limit */
+  readonly isOverLimit: boolean;
+  /** Header of a swimlane cell, shown smaller */
+  readonly compact?: boolean;
+}
+
+/**
+ * KanbanColumnTitle Component
+ *
+ * Displays a kanban column's title with its count, and its work-in-progress limit
+ * as "count / limit" in the warning color when the column is over it.
+ * Pure presentational component following PROJECT RULE #11.
+ *
+ * @param props - Component props
+ * @returns React component rendering a kanban column title
+ */
+export const KanbanColumnTitle: React.FC<KanbanColumnTitleProps> = ({
+  title,
+  count,
+  limit,
+  isOverLimit,
+  compact = false,
+}) => {
+  const counter =
+    limit === null ? (
+      `(${count})`
+    ) : (
+      <EuiToolTip
+        content={
+          <FormattedMessage
+            id="customPlugin.kanban.column.wipLimit"
+            defaultMessage="Work-in-progress limit: {limit}"
+            values={{ limit }}
+          />
+        }
+      >
+        <EuiTextColor
+          color={isOverLimit ? 'warning' : 'default'}
+          data-test-subj={isOverLimit ? 'kanbanColumnOverLimit' : 'kanbanColumnLimit'}
+        >
+          ({count} / {limit})
+        </EuiTextColor>
+      </EuiToolTip>
+    );
+
+  return compact ? (
+    <EuiTitle size="xxs">
+      <h4>
+        {title} {counter}
+      </h4>
+    </EuiTitle>
+  ) : (
+    <EuiTitle size="xs">
+      <h3>
+        {title} {counter}
+      </h3>
+    </EuiTitle>
+  );
+};
@@ -0,0 +1,45 @@
+import React from 'react';
+import { EuiIcon, EuiText } from '@elastic/eui';
+import { i18n } from '@osd/i18n';
+
+/**
+ * Props for TodoCommentCount component
+ */
+export interface TodoCommentCountProps {
+  /** Number of comments on the TODO */
+  readonly count: number;
+}
+
+/**
+ * TodoCommentCount Component
+ *
+ * Comment icon with the number of comments on a TODO.
+ * Shared by the table and Kanban views; renders nothing when there are no comments.
+ *
+ * Following PROJECT RULE #11:
+ * - Purely presentational (props in, JSX out)
+ * - Count is computed on the server
+ *
+ * @param props - Component props
+ * @returns React component rendering the comment count
+ */
+export const TodoCommentCount: React.FC<TodoCommentCountProps> = ({ count }) => {
+  if (count <= 0) {
+    return null;
+  }
+
+  return (
+    <EuiText
+      size="xs"
+      color="subdued"
+      style={{ display: 'inline-flex', alignItems: 'center', gap: 4 }}
+      title={i18n.translate('customPlugin.comments.count', {
+        defaultMessage: '{count, plural, one {# comment} other {# comments}}',
+        values: { count },
+      })}
+    >
+      <EuiIcon type="editorComment" size="s" />
+      <span>{count}</span>
+    </EuiText>
+  );
+};
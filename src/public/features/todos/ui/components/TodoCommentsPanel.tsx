@@ -0,0 +1,227 @@
+import React from 'react';
+import {
+  EuiCommentList,
+  EuiAvatar,
+  EuiButton,
+  EuiButtonEmpty,
+  EuiButtonIcon,
+  EuiCallOut,
+  EuiFlexGroup,
+  EuiFlexItem,
+  EuiFormRow,
+  EuiLoadingSpinner,
+  EuiMarkdownFormat,
+  EuiSpacer,
+  EuiText,
+  EuiTextArea,
+  EuiToolTip,
+} from '@elastic/eui';
+import { FormattedMessage } from '@osd/i18n/react';
+import { i18n } from '@osd/i18n';
+import { TodoCommentItem } from '../../hooks/use_todo_detail';
+
+/**
+ * Props for TodoCommentsPanel component
+ */
+export interface TodoCommentsPanelProps {
+  /** Comments, oldest first */
+  readonly items: readonly TodoCommentItem[];
+  /** Whether the comments are loading */
+  readonly loading: boolean;
+  /** Whether a comment is being saved or deleted */
+  readonly saving: boolean;
+  /** Error raised while loading or changing comments */
+  readonly error: Error | null;
+  /** Text of the new comment */
+  readonly draft: string;
+  /** ID of the comment being edited, or null */
+  readonly editingId: string | null;
+  /** Text of the comment being edited */
+  readonly editDraft: string;
+  /** Callback when the new comment text changes */
+  readonly onDraftChange: (value: string) => void;
+  /** Callback when the new comment is submitted */
+  readonly onSubmit: () => void;
+  /** Callback when edit is clicked on a comment */
+  readonly onStartEdit: (commentId: string) => void;
+  /** Callback when the edited text changes */
+  readonly onEditDraftChange: (value: string) => void;
+  /** Callback when the edited comment is saved */
+  readonly onSaveEdit: () => void;
+  /** Callback when editing is cancelled */
+  readonly onCancelEdit: () => void;
+  /** Callback when delete is clicked on a comment */
+  readonly onDelete: (commentId: string) => void;
+}
+
+/**
+ * TodoCommentsPanel Component
+ *
+ * Renders the discussion thread of a TODO with Markdown formatting,
+ * inline editing, and a box for adding a new comment.
+ * Pure presentational component following PROJECT RULE #11.
+ *
+ * @param props - Component props
+ * @returns React component rendering the comments panel
+ */
+export const TodoCommentsPanel: React.FC<TodoCommentsPanelProps> = ({
+  items,
+  loading,
+  saving,
+  error,
+  draft,
+  editingId,
+  editDraft,
+  onDraftChange,
+  onSubmit,
+  onStartEdit,
+  onEditDraftChange,
+  onSaveEdit,
+  onCancelEdit,
+  onDelete,
+}) => {
+  const comments = items.map((item) => ({
+    username: item.author,
+    event: item.editedRelativeTime ? (
+      <FormattedMessage
+        id="customPlugin.detail.comments.edited"
+        defaultMessage="commented (edited {time})"
+        values={{ time: item.editedRelativeTime }}
+      />
+    ) : (
+      <FormattedMessage id="customPlugin.detail.comments.commented" defaultMessage="commented" />
+    ),
+    timestamp: (
+      <EuiToolTip content={item.timestamp}>
+        <span>{item.relativeTime}</span>
+      </EuiToolTip>
+    ),
+    timelineIcon: <EuiAvatar name={item.author} size="m" />,
+    actions:
+      editingId === item.id ? undefined : (
+        <>
+          <EuiButtonIcon
+            iconType="pencil"
+            onClick={() => onStartEdit(item.id)}
+            isDisabled={saving}
+            aria-label={i18n.translate('customPlugin.detail.comments.edit', {
+              defaultMessage: 'Edit comment',
+            })}
+          />
+          <EuiButtonIcon
+            iconType="trash"
+            color="danger"
+            onClick={() => onDelete(item.id)}
+            isDisabled={saving}
+            aria-label={i18n.translate('customPlugin.detail.comments.delete', {
+              defaultMessage: 'Delete comment',
+            })}
+          />
+        </>
+      ),
+    children:
+      editingId === item.id ? (
+        <>
+          <EuiTextArea
+            value={editDraft}
+            onChange={(e) => onEditDraftChange(e.target.value)}
+            fullWidth
+            rows={4}
+          />
+          <EuiSpacer size="s" />
+          <EuiFlexGroup gutterSize="s" justifyContent="flexEnd" responsive={false}>
+            <EuiFlexItem grow={false}>
+              <EuiButtonEmpty size="s" onClick={onCancelEdit}>
+                <FormattedMessage id="customPlugin.actions.button.cancel" defaultMessage="Cancel" />
+              </EuiButtonEmpty>
+            </EuiFlexItem>
+            <EuiFlexItem grow={false}>
+              <EuiButton
+                size="s"
+                onClick={onSaveEdit}
+                isLoading={saving}
+                isDisabled={!editDraft.trim()}
+              >
+                <FormattedMessage id="customPlugin.detail.comments.save" defaultMessage="Save" />
+              </EuiButton>
+            </EuiFlexItem>
+          </EuiFlexGroup>
+        </>
+      ) : (
+        <EuiMarkdownFormat textSize="s">{item.body}</EuiMarkdownFormat>
+      ),
+  }));
+
+  return (
+    <>
+      {error && (
+        <>
+          <EuiCallOut
+            title={
+              <FormattedMessage
+                id="customPlugin.detail.comments.error"
+                defaultMessage="Comment request failed"
+              />
+            }
+            color="danger"
+            iconType="alert"
+            size="s"
+          >
+            <p>{error.message}</p>
+          </EuiCallOut>
+          <EuiSpacer size="s" />
+        </>
+      )}
+
+      {loading && items.length === 0 ? (
+        <EuiLoadingSpinner size="l" />
+      ) : items.length === 0 ? (
+        <EuiText size="s" color="subdued">
+          <p>
+            <FormattedMessage
+              id="customPlugin.detail.comments.empty"
+              defaultMessage="No comments yet. Start the discussion below."
+            />
+          </p>
+        </EuiText>
+      ) : (
+        <EuiCommentList comments={comments} data-test-subj="todoCommentsList" />
+      )}
+
+      <EuiSpacer size="m" />
+      <EuiFormRow
+        fullWidth
+        helpText={
+          <FormattedMessage
+            id="customPlugin.detail.comments.markdownHelp"
+            defaultMessage="Markdown is supported."
+          />
+        }
+      >
+        <EuiTextArea
+          placeholder={i18n.translate('customPlugin.detail.comments.placeholder', {
+            defaultMessage: 'Add a comment…',
+          })}
+          value={draft}
+          onChange={(e) => onDraftChange(e.target.value)}
+          fullWidth
+          rows={3}
+        />
+      </EuiFormRow>
+      <EuiSpacer size="s" />
+      <EuiFlexGroup justifyContent="flexEnd" responsive={false}>
+        <EuiFlexItem grow={false}>
+          <EuiButton
+            size="s"
+            iconType="editorComment"
+            onClick={onSubmit}
+            isLoading={saving}
+            isDisabled={!draft.trim()}
+          >
+            <FormattedMessage id="customPlugin.detail.comments.submit" defaultMessage="Comment" />
+          </EuiButton>
+        </EuiFlexItem>
+      </EuiFlexGroup>
+    </>
+  );
+};
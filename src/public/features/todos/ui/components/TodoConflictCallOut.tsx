@@ -0,0 +1,114 @@
+import React from 'react';
+import {
+  EuiCallOut,
+  EuiBasicTable,
+  EuiBasicTableColumn,
+  EuiButton,
+  EuiButtonEmpty,
+  EuiFlexGroup,
+  EuiFlexItem,
+  EuiSpacer,
+} from '@elastic/eui';
+import { FormattedMessage } from '@osd/i18n/react';
+import { i18n } from '@osd/i18n';
+import { ConflictChange } from '../../hooks/use_todo_form';
+
+/**
+ * Props for TodoConflictCallOut component
+ */
+export interface TodoConflictCallOutProps {
+  /** Fields that changed on the server since the form was opened */
+  readonly changes: readonly ConflictChange[];
+  /** Whether an overwrite request is in flight */
+  readonly loading: boolean;
+  /** Callback to discard local edits and load the latest version */
+  readonly onReload: () => void;
+  /** Callback to re-submit local edits over the latest version */
+  readonly onOverwrite: () => void;
+}
+
+/**
+ * TodoConflictCallOut Component
+ *
+ * Warns that the TODO being edited was changed by someone else, lists the
+ * changed fields and lets the user reload the latest version or overwrite it.
+ *
+ * Following PROJECT RULE #11:
+ * - Purely presentational (props in, JSX out)
+ * - Diff is computed by useTodoForm
+ *
+ * @param props - Component props
+ * @returns React component rendering the conflict warning
+ */
+export const TodoConflictCallOut: React.FC<TodoConflictCallOutProps> = ({
+  changes,
+  loading,
+  onReload,
+  onOverwrite,
+}) => {
+  const columns: Array<EuiBasicTableColumn<ConflictChange>> = [
+    {
+      field: 'label',
+      name: i18n.translate('customPlugin.form.conflict.column.field', {
+        defaultMessage: 'Field',
+      }),
+    },
+    {
+      field: 'openedValue',
+      name: i18n.translate('customPlugin.form.conflict.column.opened', {
+        defaultMessage: 'When you opened it',
+      }),
+    },
+    {
+      field: 'currentValue',
+      name: i18n.translate('customPlugin.form.conflict.column.current', {
+        defaultMessage: 'Current',
+      }),
+    },
+  ];
+
+  return (
+    <>
+      <EuiCallOut
+        title={
+          <FormattedMessage
+            id="customPlugin.form.conflict.title"
+            defaultMessage="This task changed since you opened it"
+          />
+        }
+        color="warning"
+        iconType="alert"
+      >
+        <p>
+          <FormattedMessage
+            id="customPlugin.form.conflict.body"
+            defaultMessage="Reload to continue from the latest version, or overwrite it with your changes."
+          />
+        </p>
+        {changes.length > 0 && (
+          <EuiBasicTable items={[...changes]} columns={columns} tableLayout="auto" compressed />
+        )}
+        <EuiSpacer size="s" />
+        <EuiFlexGroup gutterSize="s" responsive={false}>
+          <EuiFlexItem grow={false}>
+            <EuiButtonEmpty size="s" iconType="refresh" onClick={onReload} disabled={loading}>
+              <FormattedMessage
+                id="customPlugin.form.conflict.reload"
+                defaultMessage="Reload latest"
+              />
+            </EuiButtonEmpty>
+          </EuiFlexItem>
+          <EuiFlexItem grow={false}>
+            <EuiButton size="s" color="warning" onClick={onOverwrite} isLoading={loading}>
+              <FormattedMessage
+                id="customPlugin.form.conflict.overwrite"
+                defaultMessage="Overwrite with my changes"
+              />
+            </EuiButton>
+          </EuiFlexItem>
+        </EuiFlexGroup>
+      </EuiCallOut>
+      <EuiSpacer size="m" />
+    </>
+  );
+};
@@ -0,0 +1,125 @@
+import React from 'react';
+import { EuiFormRow, EuiFieldText, EuiFieldNumber, EuiSelect, EuiSwitch } from '@elastic/eui';
+import { i18n } from '@osd/i18n';
+import { TodoCustomFieldDefinition } from '../../../../../common/todo/todo.custom_fields';
+
+/**
+ * Props for TodoCustomFieldInput component
+ */
+export interface TodoCustomFieldInputProps {
+  /** Definition of the field to edit */
+  readonly field: TodoCustomFieldDefinition;
+  /** Current form value: a boolean for `boolean` fields, a string otherwise */
+  readonly value: string | boolean;
+  /** Validation error, if any */
+  readonly error?: string;
+  /** Callback when the value changes */
+  readonly onChange: (key: string, value: string | boolean) => void;
+}
+
+/**
+ * TodoCustomFieldInput Component
+ *
+ * Form row for one deployment-defined custom field. The control depends on the
+ * field type: text box, number box, date picker, option list or switch.
+ *
+ * Following PROJECT RULE #11:
+ * - Purely presentational (props in, JSX out)
+ * - Conversion to and from stored values is done by useTodoForm
+ *
+ * @param props - Component props
+ * @returns React component rendering the custom field row
+ */
+export const TodoCustomFieldInput: React.FC<TodoCustomFieldInputProps> = ({
+  field,
+  value,
+  error,
+  onChange,
+}) => {
+  const name = `custom.${field.key}`;
+  const stringValue = typeof value === 'string' ? value : '';
+
+  const renderControl = () => {
+    switch (field.type) {
+      case 'boolean':
+        return (
+          <EuiSwitch
+            name={name}
+            label={field.label}
+            showLabel={false}
+            checked={value === true}
+            onChange={(e) => onChange(field.key, e.target.checked)}
+          />
+        );
+      case 'number':
+        return (
+          <EuiFieldNumber
+            name={name}
+            value={stringValue}
+            onChange={(e) => onChange(field.key, e.target.value)}
+            isInvalid={!!error}
+            fullWidth
+          />
+        );
+      case 'date':
+        return (
+          <EuiFieldText
+            name={name}
+            type="date"
+            value={stringValue}
+            onChange={(e) => onChange(field.key, e.target.value)}
+            isInvalid={!!error}
+            fullWidth
+          />
+        );
+      case 'enum':
+        return (
+          <EuiSelect
+            name={name}
+            value={stringValue}
+            onChange={(e) => onChange(field.key, e.target.value)}
+            options={[
+              {
+                value: '',
+                text: i18n.translate('customPlugin.form.customField.noValue', {
+                  defaultMessage: 'None',
+                }),
+              },
+              ...(field.options || []).map((option) => ({ value: option, text: option })),
+            ]}
+            isInvalid={!!error}
+            fullWidth
+          />
+        );
+      default:
+        return (
+          <EuiFieldText
+            name={name}
+            value={stringValue}
+            onChange={(e) => onChange(field.key, e.target.value)}
+            isInvalid={!!error}
+            fullWidth
+          />
+        );
+    }
+  };
+
+  const requiredText = i18n.translate('customPlugin.form.customField.required', {
+    defaultMessage: 'Required.',
+  });
+  const helpText = field.required
+    ? [requiredText, field.description].filter(Boolean).join(' ')
+    : field.description;
+
+  return (
+    <EuiFormRow
+      label={field.label}
+      isInvalid={!!error}
+      error={error}
+      fullWidth
+      helpText={helpText}
+    >
+      {renderControl()}
+    </EuiFormRow>
+  );
+};
@@ -0,0 +1,120 @@
+import React from 'react';
+import {
+  EuiCommentList,
+  EuiAvatar,
+  EuiBasicTable,
+  EuiBasicTableColumn,
+  EuiCallOut,
+  EuiLoadingSpinner,
+  EuiText,
+  EuiToolTip,
+} from '@elastic/eui';
+import { FormattedMessage } from '@osd/i18n/react';
+import { i18n } from '@osd/i18n';
+import { TodoHistoryItem, TodoHistoryItemChange } from '../../hooks/use_todo_detail';
+
+/**
+ * Props for TodoHistoryTimeline component
+ */
+export interface TodoHistoryTimelineProps {
+  /** History entries, newest first */
+  readonly items: readonly TodoHistoryItem[];
+  /** Whether the history is loading */
+  readonly loading: boolean;
+  /** Error raised while loading the history */
+  readonly error: Error | null;
+}
+
+const ACTION_ICONS: Record<TodoHistoryItem['action'], string> = {
+  create: 'plusInCircle',
+  update: 'pencil',
+  delete: 'trash',
+};
+
+/**
+ * TodoHistoryTimeline Component
+ *
+ * Renders the change history of a TODO as a timeline: who made each change,
+ * when, and the old and new value of every changed field.
+ * Pure presentational component following PROJECT RULE #11.
+ *
+ * @param props - Component props
+ * @returns React component rendering the history timeline
+ */
+export const TodoHistoryTimeline: React.FC<TodoHistoryTimelineProps> = ({
+  items,
+  loading,
+  error,
+}) => {
+  const columns: Array<EuiBasicTableColumn<TodoHistoryItemChange>> = [
+    {
+      field: 'label',
+      name: i18n.translate('customPlugin.detail.history.column.field', {
+        defaultMessage: 'Field',
+      }),
+    },
+    {
+      field: 'oldValue',
+      name: i18n.translate('customPlugin.detail.history.column.oldValue', {
+        defaultMessage: 'Old value',
+      }),
+    },
+    {
+      field: 'newValue',
+      name: i18n.translate('customPlugin.detail.history.column.newValue', {
+        defaultMessage: 'New value',
+      }),
+    },
+  ];
+
+  if (loading && items.length === 0) {
+    return <EuiLoadingSpinner size="l" />;
+  }
+
+  if (error) {
+    return (
+      <EuiCallOut
+        title={
+          <FormattedMessage
+            id="customPlugin.detail.history.error"
+            defaultMessage="Failed to load history"
+          />
+        }
+        color="danger"
+        iconType="alert"
+      >
+        <p>{error.message}</p>
+      </EuiCallOut>
+    );
+  }
+
+  if (items.length === 0) {
+    return (
+      <EuiText size="s" color="subdued">
+        <p>
+          <FormattedMessage
+            id="customPlugin.detail.history.empty"
+            defaultMessage="No changes have been recorded for this task yet."
+          />
+        </p>
+      </EuiText>
+    );
+  }
+
+  const comments = items.map((item) => ({
+    username: item.actor,
+    event: item.actionLabel,
+    timestamp: (
+      <EuiToolTip content={item.timestamp}>
+        <span>{item.relativeTime}</span>
+      </EuiToolTip>
+    ),
+    timelineIcon: <EuiAvatar name={item.action} iconType={ACTION_ICONS[item.action]} size="m" color="subdued" />,
+    children:
+      item.changes.length > 0 ? (
+        <EuiBasicTable items={[...item.changes]} columns={columns} tableLayout="auto" compressed />
+      ) : undefined,
+  }));
+
+  return <EuiCommentList comments={comments} data-test-subj="todoHistoryTimeline" />;
+};
@@ -0,0 +1,226 @@
+import React from 'react';
+import {
+  EuiButton,
+  EuiFieldText,
+  EuiFlexGroup,
+  EuiFlexItem,
+  EuiFormRow,
+  EuiHorizontalRule,
+  EuiListGroup,
+  EuiListGroupItem,
+  EuiPopover,
+  EuiPopoverTitle,
+  EuiSwitch,
+  EuiText,
+  EuiTitle,
+} from '@elastic/eui';
+import { FormattedMessage } from '@osd/i18n/react';
+import { i18n } from '@osd/i18n';
+import { TodoSavedView } from '../../../../../common/todo/todo.saved_views';
+import { useTodoSavedViewPicker } from '../../hooks/use_todo_saved_view_picker';
+
+/**
+ * Props for TodoSavedViewPicker component
+ */
+export interface TodoSavedViewPickerProps {
+  /** The user's own views and the views shared by others */
+  readonly views: readonly TodoSavedView[];
+  /** Username of the current user, or null while unknown */
+  readonly username: string | null;
+  /** Whether a view is being saved or deleted */
+  readonly saving: boolean;
+  /** Callback to apply the filters, sort and tab of a view */
+  readonly onApply: (view: TodoSavedView) => void;
+  /** Callback to save the current view, replacing the view with `replaceId` when given */
+  readonly onSave: (name: string, shared: boolean, replaceId?: string) => Promise<boolean>;
+  /** Callback to delete a view */
+  readonly onDelete: (id: string) => Promise<boolean>;
+}
+
+/**
+ * TodoSavedViewPicker Component
+ *
+ * "Saved views" button opening a list of the user's views and the views shared
+ * by others, with a form to save the current filters, sort and tab.
+ *
+ * Following PROJECT RULE #11:
+ * - Purely presentational (props in, JSX out)
+ * - Business logic delegated to useTodoSavedViewPicker hook
+ * - Views are loaded and stored by useTodosPage
+ *
+ * @param props - Component props
+ * @returns React component rendering the saved view picker
+ */
+export const TodoSavedViewPicker: React.FC<TodoSavedViewPickerProps> = ({
+  views,
+  username,
+  saving,
+  onApply,
+  onSave,
+  onDelete,
+}) => {
+  const { data, uiState, actions } = useTodoSavedViewPicker({
+    views,
+    username,
+    onApply,
+    onSave,
+    onDelete,
+  });
+
+  const { ownViews, sharedViews, existingView } = data;
+  const { isOpen, name, shared, canSave } = uiState;
+
+  const renderViews = (items: readonly TodoSavedView[], canDelete: boolean) => (
+    <EuiListGroup flush maxWidth={false} gutterSize="none">
+      {items.map((view) => (
+        <EuiListGroupItem
+          key={view.id}
+          label={view.name}
+          size="s"
+          iconType={view.shared ? 'users' : 'lock'}
+          title={
+            canDelete
+              ? view.name
+              : i18n.translate('customPlugin.savedViews.sharedBy', {
+                  defaultMessage: '{name} (shared by {owner})',
+                  values: { name: view.name, owner: view.owner },
+                })
+          }
+          onClick={() => actions.applyView(view)}
+          extraAction={
+            canDelete
+              ? {
+                  iconType: 'trash',
+                  color: 'danger',
+                  alwaysShow: false,
+                  isDisabled: saving,
+                  onClick: () => actions.deleteView(view.id),
+                  'aria-label': i18n.translate('customPlugin.savedViews.delete', {
+                    defaultMessage: 'Delete view {name}',
+                    values: { name: view.name },
+                  }),
+                }
+              : undefined
+          }
+          data-test-subj={`todoSavedView-${view.id}`}
+        />
+      ))}
+    </EuiListGroup>
+  );
+
+  const button = (
+    <EuiButton
+      iconType="arrowDown"
+      iconSide="right"
+      onClick={actions.togglePicker}
+      data-test-subj="todoSavedViewsButton"
+    >
+      <FormattedMessage id="customPlugin.savedViews.button" defaultMessage="Saved views" />
+    </EuiButton>
+  );
+
+  return (
+    <EuiPopover
+      button={button}
+      isOpen={isOpen}
+      closePopover={actions.closePicker}
+      anchorPosition="downLeft"
+      panelStyle={{ width: 360 }}
+    >
+      <EuiPopoverTitle>
+        <FormattedMessage id="customPlugin.savedViews.title" defaultMessage="Saved views" />
+      </EuiPopoverTitle>
+      {ownViews.length === 0 && sharedViews.length === 0 && (
+        <EuiText size="s" color="subdued">
+          <p>
+            <FormattedMessage
+              id="customPlugin.savedViews.empty"
+              defaultMessage="No saved views yet. Save the current filters to get back to them in one click."
+            />
+          </p>
+        </EuiText>
+      )}
+      {ownViews.length > 0 && (
+        <>
+          <EuiTitle size="xxs">
+            <h4>
+              <FormattedMessage id="customPlugin.savedViews.mine" defaultMessage="My views" />
+            </h4>
+          </EuiTitle>
+          {renderViews(ownViews, true)}
+        </>
+      )}
+      {sharedViews.length > 0 && (
+        <>
+          <EuiTitle size="xxs">
+            <h4>
+              <FormattedMessage
+                id="customPlugin.savedViews.shared"
+                defaultMessage="Shared with me"
+              />
+            </h4>
+          </EuiTitle>
+          {renderViews(sharedViews, false)}
+        </>
+      )}
+      <EuiHorizontalRule margin="s" />
+      <EuiFormRow
+        label={i18n.translate('customPlugin.savedViews.name', {
+          defaultMessage: 'Save current view as',
+        })}
+        helpText={
+          existingView
+            ? i18n.translate('customPlugin.savedViews.replaceHelp', {
+                defaultMessage: 'Replaces your view with this name.',
+              })
+            : undefined
+        }
+        fullWidth
+      >
+        <EuiFieldText
+          value={name}
+          onChange={(e) => actions.setName(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') {
+              void actions.saveView();
+            }
+          }}
+          placeholder={i18n.translate('customPlugin.savedViews.namePlaceholder', {
+            defaultMessage: 'e.g. My critical overdue tasks',
+          })}
+          fullWidth
+          compressed
+          data-test-subj="todoSavedViewName"
+        />
+      </EuiFormRow>
+      <EuiFlexGroup gutterSize="s" alignItems="center" justifyContent="spaceBetween" responsive={false}>
+        <EuiFlexItem grow={false}>
+          <EuiSwitch
+            label={i18n.translate('customPlugin.savedViews.shareSwitch', {
+              defaultMessage: 'Share with everyone',
+            })}
+            checked={shared}
+            onChange={(e) => actions.setShared(e.target.checked)}
+            compressed
+          />
+        </EuiFlexItem>
+        <EuiFlexItem grow={false}>
+          <EuiButton
+            size="s"
+            fill
+            onClick={() => void actions.saveView()}
+            isDisabled={!canSave}
+            isLoading={saving}
+            data-test-subj="todoSavedViewSave"
+          >
+            {existingView ? (
+              <FormattedMessage id="customPlugin.savedViews.update" defaultMessage="Update" />
+            ) : (
+              <FormattedMessage id="customPlugin.savedViews.save" defaultMessage="Save" />
+            )}
+          </EuiButton>
+        </EuiFlexItem>
+      </EuiFlexGroup>
+    </EuiPopover>
+  );
+};
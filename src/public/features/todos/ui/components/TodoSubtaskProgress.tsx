@@ -0,0 +1,49 @@
+import React from 'react';
+import { EuiFlexGroup, EuiFlexItem, EuiProgress, EuiText } from '@elastic/eui';
+import { FormattedMessage } from '@osd/i18n/react';
+import { TodoChildProgress } from '../../../../../common/todo/todo.types';
+
+/**
+ * Props for TodoSubtaskProgress component
+ */
+export interface TodoSubtaskProgressProps {
+  /** Roll-up of the TODO's direct subtasks */
+  readonly progress: TodoChildProgress;
+}
+
+/**
+ * TodoSubtaskProgress Component
+ *
+ * Compact progress bar showing how many subtasks of a parent TODO are done.
+ * Shared by the table and Kanban views.
+ *
+ * Following PROJECT RULE #11:
+ * - Purely presentational (props in, JSX out)
+ * - Progress is computed on the server
+ *
+ * @param props - Component props
+ * @returns React component rendering the subtask progress
+ */
+export const TodoSubtaskProgress: React.FC<TodoSubtaskProgressProps> = ({ progress }) => {
+  return (
+    <EuiFlexGroup gutterSize="s" alignItems="center" responsive={false}>
+      <EuiFlexItem>
+        <EuiProgress
+          value={progress.done}
+          max={progress.total}
+          size="xs"
+          color={progress.percent === 100 ? 'success' : 'primary'}
+        />
+      </EuiFlexItem>
+      <EuiFlexItem grow={false}>
+        <EuiText size="xs" color="subdued">
+          <FormattedMessage
+            id="customPlugin.subtasks.progress"
+            defaultMessage="{done}/{total} subtasks"
+            values={{ done: progress.done, total: progress.total }}
+          />
+        </EuiText>
+      </EuiFlexItem>
+    </EuiFlexGroup>
+  );
+};
@@ -0,0 +1,161 @@
+import React from 'react';
+import {
+  EuiButton,
+  EuiButtonEmpty,
+  EuiFieldText,
+  EuiFlexGroup,
+  EuiFlexItem,
+  EuiPanel,
+  EuiSelect,
+  EuiText,
+} from '@elastic/eui';
+import { FormattedMessage } from '@osd/i18n/react';
+import { i18n } from '@osd/i18n';
+import {
+  TodoStatus,
+  TODO_STATUS_LABELS,
+  TODO_STATUS_VALUES,
+} from '../../../../../common/todo/todo.types';
+
+/**
+ * Props for TodosBulkActionBar component
+ */
+export interface TodosBulkActionBarProps {
+  /** Number of selected TODOs */
+  readonly selectedCount: number;
+  /** Whether a bulk request is in flight */
+  readonly loading: boolean;
+  /** Current value of the tag input */
+  readonly tag: string;
+  /** Callback when the tag input changes */
+  readonly onTagChange: (tag: string) => void;
+  /** Callback to move every selected TODO to a status */
+  readonly onStatusChange: (status: TodoStatus) => void;
+  /** Callback to add the entered tag to every selected TODO */
+  readonly onAddTag: () => void;
+  /** Callback to remove the entered tag from every selected TODO */
+  readonly onRemoveTag: () => void;
+  /** Callback to delete every selected TODO */
+  readonly onDelete: () => void;
+  /** Callback to clear the selection */
+  readonly onClearSelection: () => void;
+}
+
+/**
+ * TodosBulkActionBar Component
+ *
+ * Toolbar shown above the TODO table while rows are selected. Offers status
+ * changes, tag edits and deletion for the whole selection at once.
+ *
+ * Following PROJECT RULE #11:
+ * - Purely presentational (props in, JSX out)
+ * - Bulk actions are built by useTodosTable
+ *
+ * @param props - Component props
+ * @returns React component rendering the bulk action toolbar
+ */
+export const TodosBulkActionBar: React.FC<TodosBulkActionBarProps> = ({
+  selectedCount,
+  loading,
+  tag,
+  onTagChange,
+  onStatusChange,
+  onAddTag,
+  onRemoveTag,
+  onDelete,
+  onClearSelection,
+}) => {
+  const statusOptions = [
+    {
+      value: '',
+      text: i18n.translate('customPlugin.bulk.statusPlaceholder', {
+        defaultMessage: 'Set status…',
+      }),
+    },
+    ...TODO_STATUS_VALUES.map((status) => ({ value: status, text: TODO_STATUS_LABELS[status] })),
+  ];
+
+  return (
+    <EuiPanel paddingSize="s" hasShadow={false} hasBorder>
+      <EuiFlexGroup alignItems="center" gutterSize="s" wrap responsive={false}>
+        <EuiFlexItem grow={false}>
+          <EuiText size="s">
+            <strong>
+              <FormattedMessage
+                id="customPlugin.bulk.selectedCount"
+                defaultMessage="{count, plural, one {# TODO selected} other {# TODOs selected}}"
+                values={{ count: selectedCount }}
+              />
+            </strong>
+          </EuiText>
+        </EuiFlexItem>
+        <EuiFlexItem grow={false}>
+          <EuiSelect
+            compressed
+            options={statusOptions}
+            value=""
+            disabled={loading}
+            onChange={(e) => {
+              if (e.target.value) {
+                onStatusChange(e.target.value as TodoStatus);
+              }
+            }}
+            aria-label={i18n.translate('customPlugin.bulk.statusAriaLabel', {
+              defaultMessage: 'Set status for selected TODOs',
+            })}
+          />
+        </EuiFlexItem>
+        <EuiFlexItem grow={false}>
+          <EuiFieldText
+            compressed
+            value={tag}
+            disabled={loading}
+            onChange={(e) => onTagChange(e.target.value)}
+            placeholder={i18n.translate('customPlugin.bulk.tagPlaceholder', {
+              defaultMessage: 'Tag',
+            })}
+            aria-label={i18n.translate('customPlugin.bulk.tagAriaLabel', {
+              defaultMessage: 'Tag to add or remove',
+            })}
+          />
+        </EuiFlexItem>
+        <EuiFlexItem grow={false}>
+          <EuiButtonEmpty
+            size="s"
+            iconType="plusInCircle"
+            onClick={onAddTag}
+            isDisabled={loading || !tag.trim()}
+          >
+            <FormattedMessage id="customPlugin.bulk.addTag" defaultMessage="Add tag" />
+          </EuiButtonEmpty>
+        </EuiFlexItem>
+        <EuiFlexItem grow={false}>
+          <EuiButtonEmpty
+            size="s"
+            iconType="minusInCircle"
+            onClick={onRemoveTag}
+            isDisabled={loading || !tag.trim()}
+          >
+            <FormattedMessage id="customPlugin.bulk.removeTag" defaultMessage="Remove tag" />
+          </EuiButtonEmpty>
+        </EuiFlexItem>
+        <EuiFlexItem grow={false}>
+          <EuiButton
+            size="s"
+            color="danger"
+            iconType="trash"
+            onClick={onDelete}
+            isLoading={loading}
+          >
+            <FormattedMessage id="customPlugin.bulk.delete" defaultMessage="Delete selected" />
+          </EuiButton>
+        </EuiFlexItem>
+        <EuiFlexItem grow={false}>
+          <EuiButtonEmpty size="s" onClick={onClearSelection} isDisabled={loading}>
+            <FormattedMessage id="customPlugin.bulk.clearSelection" defaultMessage="Clear selection" />
+          </EuiButtonEmpty>
+        </EuiFlexItem>
+      </EuiFlexGroup>
+    </EuiPanel>
+  );
+};
@@ -0,0 +1,85 @@
+import React, { useState } from 'react';
+import { EuiButton, EuiContextMenuItem, EuiContextMenuPanel, EuiPopover } from '@elastic/eui';
+import { FormattedMessage } from '@osd/i18n/react';
+import { i18n } from '@osd/i18n';
+import { TodoExportFormat } from '../../../../../common/todo/todo.export';
+
+/**
+ * Props for TodosExportButton component
+ */
+export interface TodosExportButtonProps {
+  /** Whether the export is unavailable, e.g. while the list is loading */
+  readonly disabled?: boolean;
+  /** Callback to download the filtered TODOs in a format */
+  readonly onExport: (format: TodoExportFormat) => void;
+}
+
+/**
+ * TodosExportButton Component
+ *
+ * "Export" button with a menu of file formats. The export contains every TODO
+ * matching the current filters, not only the visible page.
+ *
+ * Following PROJECT RULE #11:
+ * - Purely presentational (props in, JSX out)
+ * - Only trivial useState for the menu
+ * - The download is started by useTodosPage
+ *
+ * @param props - Component props
+ * @returns React component rendering the export button and format menu
+ */
+export const TodosExportButton: React.FC<TodosExportButtonProps> = ({ disabled, onExport }) => {
+  const [isOpen, setIsOpen] = useState(false);
+
+  const formats: Array<{ format: TodoExportFormat; label: string }> = [
+    {
+      format: 'csv',
+      label: i18n.translate('customPlugin.export.csv', { defaultMessage: 'CSV' }),
+    },
+    {
+      format: 'ndjson',
+      label: i18n.translate('customPlugin.export.ndjson', { defaultMessage: 'NDJSON' }),
+    },
+    {
+      format: 'json',
+      label: i18n.translate('customPlugin.export.json', { defaultMessage: 'JSON' }),
+    },
+  ];
+
+  const button = (
+    <EuiButton
+      iconType="exportAction"
+      iconSide="left"
+      onClick={() => setIsOpen(!isOpen)}
+      isDisabled={disabled}
+      data-test-subj="todosExportButton"
+    >
+      <FormattedMessage id="customPlugin.export.button" defaultMessage="Export" />
+    </EuiButton>
+  );
+
+  return (
+    <EuiPopover
+      button={button}
+      isOpen={isOpen}
+      closePopover={() => setIsOpen(false)}
+      panelPaddingSize="none"
+      anchorPosition="downRight"
+    >
+      <EuiContextMenuPanel
+        items={formats.map(({ format, label }) => (
+          <EuiContextMenuItem
+            key={format}
+            icon="document"
+            onClick={() => {
+              setIsOpen(false);
+              onExport(format);
+            }}
+          >
+            {label}
+          </EuiContextMenuItem>
+        ))}
+      />
+    </EuiPopover>
+  );
+};
@@ -1,9 +1,11 @@
 import React from 'react';
-import { EuiSpacer, EuiTitle, EuiText } from '@elastic/eui';
+import { EuiSpacer, EuiTitle, EuiText, EuiFlexGroup, EuiFlexItem } from '@elastic/eui';
 import { FormattedMessage } from '@osd/i18n/react';
 import { TodoStats, AnalyticsStats } from '../../../../../common/todo/todo.types';
 import { TodosStatsDashboard } from '../TodosStatsDashboard';
+import { TodoReportFormat } from '../../../../../common/todo/todo.report';
 import { ComplianceDashboard } from '../ComplianceDashboard';
+import { ComplianceReportButton } from '../components/ComplianceReportButton';
 
 /**
  * Props for AnalyticsTab component
@@ -25,6 +27,10 @@ export interface AnalyticsTabProps {
   readonly onRefresh: () => Promise<void>;
   /** Callback when framework filter changes */
   readonly onFrameworkFilterChange: (frameworks: string[]) => void;
+  /** Callback to download the OSCAL POA&M of a compliance framework */
+  readonly onExportOscal: (framework: string) => void;
+  /** Callback to download a compliance report of the selected framework and date range */
+  readonly onGenerateReport: (format: TodoReportFormat) => void;
 }
 
 /**
@@ -44,6 +50,8 @@ export const AnalyticsTab: React.FC<AnalyticsTabProps> = ({
   analyticsError,
   onRefresh,
   onFrameworkFilterChange,
+  onExportOscal,
+  onGenerateReport,
 }) => {
   return (
     <>
@@ -73,14 +81,24 @@ export const AnalyticsTab: React.FC<AnalyticsTabProps> = ({
       <EuiSpacer size="xl" />
       <EuiSpacer size="xl" />
       <div>
-        <EuiTitle size="m">
-          <h2>
-            <FormattedMessage
-              id="customPlugin.analytics.section.compliance"
-              defaultMessage="Compliance & Security Analytics"
+        <EuiFlexGroup justifyContent="spaceBetween" alignItems="center" responsive={false}>
+          <EuiFlexItem grow={false}>
+            <EuiTitle size="m">
+              <h2>
+                <FormattedMessage
+                  id="customPlugin.analytics.section.compliance"
+                  defaultMessage="Compliance & Security Analytics"
+                />
+              </h2>
+            </EuiTitle>
+          </EuiFlexItem>
+          <EuiFlexItem grow={false}>
+            <ComplianceReportButton
+              disabled={analyticsLoading}
+              onGenerateReport={onGenerateReport}
             />
-          </h2>
-        </EuiTitle>
+          </EuiFlexItem>
+        </EuiFlexGroup>
         <EuiSpacer size="s" />
         <EuiText size="s" color="subdued">
           <p>
@@ -97,6 +115,7 @@ export const AnalyticsTab: React.FC<AnalyticsTabProps> = ({
           error={analyticsError}
           onRefresh={onRefresh}
           onFrameworkChange={onFrameworkFilterChange}
+          onExportOscal={onExportOscal}
         />
       </div>
 
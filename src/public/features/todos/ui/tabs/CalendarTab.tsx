@@ -0,0 +1,116 @@
+import React from 'react';
+import { EuiSpacer, EuiCallOut } from '@elastic/eui';
+import { FormattedMessage } from '@osd/i18n/react';
+import { Todo } from '../../../../../common/todo/todo.types';
+import { TodoFilters, FiltersState } from '../TodoFilters';
+import { TodoCalendar } from '../TodoCalendar';
+import { CalendarRange } from '../../hooks/use_todo_calendar';
+
+/**
+ * Props for CalendarTab component
+ */
+export interface CalendarTabProps {
+  /** TODOs due in the visible date window */
+  readonly todos: readonly Todo[];
+  /** Number of TODOs due in the window, which may exceed the TODOs loaded */
+  readonly totalCount: number;
+  /** Loading state */
+  readonly loading: boolean;
+  /** Error state */
+  readonly error: Error | null;
+  /** Filter values */
+  readonly filters: FiltersState;
+  /** Callback when a TODO is dropped on another day; resolves to null when rejected */
+  readonly onDueDateChange: (todoId: string, dueDate: string) => Promise<Todo | null>;
+  /** Callback when the visible date window changes */
+  readonly onRangeChange: (range: CalendarRange) => void;
+  /** Callback when a TODO is clicked */
+  readonly onView: (todo: Todo) => void;
+  /** Callback when filters change */
+  readonly onFiltersChange: (filters: FiltersState) => void;
+}
+
+/**
+ * CalendarTab Component
+ *
+ * Displays TODO items on a month or week calendar by due date.
+ * Pure presentational component extracted from TodosPage for better maintainability.
+ *
+ * Following PROJECT RULE #11:
+ * - Purely presentational (props in, JSX out)
+ * - No business logic or side effects
+ * - All state and actions passed via props
+ * - Uses EUI components for consistency
+ *
+ * @param props - Component props
+ * @returns React component rendering the Calendar tab content
+ */
+export const CalendarTab: React.FC<CalendarTabProps> = ({
+  todos,
+  totalCount,
+  loading,
+  error,
+  filters,
+  onDueDateChange,
+  onRangeChange,
+  onView,
+  onFiltersChange,
+}) => {
+  return (
+    <>
+      <EuiSpacer size="m" />
+      <TodoFilters
+        searchText={filters.searchText}
+        selectedStatuses={filters.selectedStatuses}
+        selectedTags={filters.selectedTags}
+        selectedPriorities={filters.selectedPriorities}
+        selectedSeverities={filters.selectedSeverities}
+        showOverdueOnly={filters.showOverdueOnly}
+        dateFilters={filters.dateFilters}
+        onFiltersChange={onFiltersChange}
+      />
+      {error && (
+        <>
+          <EuiSpacer size="m" />
+          <EuiCallOut
+            title={
+              <FormattedMessage
+                id="customPlugin.error.loadingTodos"
+                defaultMessage="Error Loading TODOs"
+              />
+            }
+            color="danger"
+            iconType="alert"
+          >
+            <p>{error.message}</p>
+          </EuiCallOut>
+        </>
+      )}
+      {!error && totalCount > todos.length && (
+        <>
+          <EuiSpacer size="m" />
+          <EuiCallOut
+            title={
+              <FormattedMessage
+                id="customPlugin.calendar.truncated"
+                defaultMessage="Showing the first {shown} of {total} TODOs due in this period. Narrow the filters to see the rest."
+                values={{ shown: todos.length, total: totalCount }}
+              />
+            }
+            color="warning"
+            iconType="iInCircle"
+            size="s"
+          />
+        </>
+      )}
+      <TodoCalendar
+        todos={todos}
+        loading={loading}
+        error={error}
+        onDueDateChange={onDueDateChange}
+        onRangeChange={onRangeChange}
+        onView={onView}
+      />
+    </>
+  );
+};
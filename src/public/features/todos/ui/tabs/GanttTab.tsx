@@ -0,0 +1,119 @@
+import React from 'react';
+import { EuiSpacer, EuiCallOut } from '@elastic/eui';
+import { FormattedMessage } from '@osd/i18n/react';
+import { Todo } from '../../../../../common/todo/todo.types';
+import { TodoFilters, FiltersState } from '../TodoFilters';
+import { TodoGantt } from '../TodoGantt';
+import { GanttRange } from '../../hooks/use_todo_gantt';
+
+/**
+ * Props for GanttTab component
+ */
+export interface GanttTabProps {
+  /** TODOs due in or after the visible date window */
+  readonly todos: readonly Todo[];
+  /** Whether some TODOs of the window were not loaded */
+  readonly truncated: boolean;
+  /** Loading state */
+  readonly loading: boolean;
+  /** Error state */
+  readonly error: Error | null;
+  /** Filter values */
+  readonly filters: FiltersState;
+  /** Callback when a bar is moved or resized; resolves to null when rejected */
+  readonly onScheduleChange: (
+    todoId: string,
+    dates: { startDate?: string; dueDate: string }
+  ) => Promise<Todo | null>;
+  /** Callback when the visible date window changes */
+  readonly onRangeChange: (range: GanttRange) => void;
+  /** Callback when a TODO is clicked */
+  readonly onView: (todo: Todo) => void;
+  /** Callback when filters change */
+  readonly onFiltersChange: (filters: FiltersState) => void;
+}
+
+/**
+ * GanttTab Component
+ *
+ * Displays TODO items on a timeline from their start date to their due date.
+ * Pure presentational component extracted from TodosPage for better maintainability.
+ *
+ * Following PROJECT RULE #11:
+ * - Purely presentational (props in, JSX out)
+ * - No business logic or side effects
+ * - All state and actions passed via props
+ * - Uses EUI components for consistency
+ *
+ * @param props - Component props
+ * @returns React component rendering the Timeline tab content
+ */
+export const GanttTab: React.FC<GanttTabProps> = ({
+  todos,
+  truncated,
+  loading,
+  error,
+  filters,
+  onScheduleChange,
+  onRangeChange,
+  onView,
+  onFiltersChange,
+}) => {
+  return (
+    <>
+      <EuiSpacer size="m" />
+      <TodoFilters
+        searchText={filters.searchText}
+        selectedStatuses={filters.selectedStatuses}
+        selectedTags={filters.selectedTags}
+        selectedPriorities={filters.selectedPriorities}
+        selectedSeverities={filters.selectedSeverities}
+        showOverdueOnly={filters.showOverdueOnly}
+        dateFilters={filters.dateFilters}
+        onFiltersChange={onFiltersChange}
+      />
+      {error && (
+        <>
+          <EuiSpacer size="m" />
+          <EuiCallOut
+            title={
+              <FormattedMessage
+                id="customPlugin.error.loadingTodos"
+                defaultMessage="Error Loading TODOs"
+              />
+            }
+            color="danger"
+            iconType="alert"
+          >
+            <p>{error.message}</p>
+          </EuiCallOut>
+        </>
+      )}
+      {!error && truncated && (
+        <>
+          <EuiSpacer size="m" />
+          <EuiCallOut
+            title={
+              <FormattedMessage
+                id="customPlugin.gantt.truncated"
+                defaultMessage="Showing the first {shown} TODOs due in this period. Narrow the filters to see the rest."
+                values={{ shown: todos.length }}
+              />
+            }
+            color="warning"
+            iconType="iInCircle"
+            size="s"
+          />
+        </>
+      )}
+      <TodoGantt
+        todos={todos}
+        loading={loading}
+        error={error}
+        onScheduleChange={onScheduleChange}
+        onRangeChange={onRangeChange}
+        onView={onView}
+      />
+    </>
+  );
+};
@@ -5,13 +5,20 @@ import { Todo, TodoStatus } from '../../../../common/todo/todo.types';
 import { TodoFilters, FiltersState } from '../TodoFilters';
 import { KanbanBoard } from '../KanbanBoard';
 import { TodosEmptyState } from '../components/TodosEmptyState';
+import { KanbanCardChanges } from '../../hooks/use_kanban_board';
+import { TodoWipLimits } from '../../../../../common/todo/todo.wip_limits';
+import { TodoStatusTransitionRules } from '../../../../../common/todo/todo.types';
 
 /**
  * Props for KanbanTab component
  */
 export interface KanbanTabProps {
-  /** Array of TODO items to display */
+  /** First TODO items of each status to display */
   readonly todos: readonly Todo[];
+  /** Count of TODOs of each status matching the filters, loaded or not */
+  readonly totals?: Readonly<Partial<Record<TodoStatus, number>>>;
+  /** Statuses whose next TODOs are being loaded */
+  readonly loadingMore?: readonly TodoStatus[];
   /** Loading state */
   readonly loading: boolean;
   /** Error state */
@@ -20,20 +27,33 @@ export interface KanbanTabProps {
   readonly filters: FiltersState;
   /** Callback when create button is clicked */
   readonly onCreateClick: () => void;
-  /** Callback when status is changed via drag-and-drop */
-  readonly onStatusChange: (todoId: string, status: TodoStatus) => Promise<void>;
+  /** Callback when a card is moved via drag-and-drop; resolves to null when rejected */
+  readonly onMove: (todoId: string, changes: KanbanCardChanges) => Promise<Todo | null>;
   /** Callback when edit is triggered */
   readonly onEdit: (todo: Todo) => void;
   /** Callback when delete is triggered */
   readonly onDelete: (id: string) => Promise<void>;
   /** Callback when filters change */
   readonly onFiltersChange: (filters: FiltersState) => void;
+  /** Callback when a blocking TODO is clicked */
+  readonly onOpenTodo?: (todoId: string) => void;
+  /** Callback when the card ranks should be rebalanced */
+  readonly onRanksDense?: () => void;
+  /** Function to rank unranked cards before a card is dropped below them */
+  readonly onRankTodos?: (ranks: Readonly<Record<string, string>>) => Promise<boolean>;
+  /** Work-in-progress limits of the columns */
+  readonly wipLimits?: TodoWipLimits;
+  /** Status workflow, to ask for a reason when a card is dropped in a column that requires one */
+  readonly statusTransitions?: TodoStatusTransitionRules;
+  /** Callback to load the next TODOs of a column */
+  readonly onLoadMore?: (status: TodoStatus) => void;
 }
 
 /**
  * KanbanTab Component
  *
- * Displays TODO items in a Kanban board format with drag-and-drop status changes.
+ * Displays TODO items in a Kanban board format with drag-and-drop status changes,
+ * optionally split into swimlanes.
  * Pure presentational component extracted from TodosPage for better maintainability.
  *
  * Following PROJECT RULE #11:
@@ -47,14 +67,22 @@ export interface KanbanTabProps {
  */
 export const KanbanTab: React.FC<KanbanTabProps> = ({
   todos,
+  totals,
+  loadingMore,
   loading,
   error,
   filters,
   onCreateClick,
-  onStatusChange,
+  onMove,
   onEdit,
   onDelete,
   onFiltersChange,
+  onOpenTodo,
+  onRanksDense,
+  onRankTodos,
+  wipLimits,
+  statusTransitions,
+  onLoadMore,
 }) => {
   return (
     <>
@@ -89,9 +117,17 @@ export const KanbanTab: React.FC<KanbanTabProps> = ({
           todos={todos}
           loading={loading}
           error={error}
-          onStatusChange={onStatusChange}
+          onMove={onMove}
           onEdit={onEdit}
           onDelete={onDelete}
+          onOpenTodo={onOpenTodo}
+          onRanksDense={onRanksDense}
+          onRankTodos={onRankTodos}
+          wipLimits={wipLimits}
+          statusTransitions={statusTransitions}
+          totals={totals}
+          loadingMore={loadingMore}
+          onLoadMore={onLoadMore}
         />
       )}
     </>
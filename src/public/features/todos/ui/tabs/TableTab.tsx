@@ -1,10 +1,14 @@
 import React from 'react';
-import { EuiSpacer, EuiCallOut } from '@elastic/eui';
+import { EuiSpacer, EuiCallOut, EuiFlexGroup, EuiFlexItem } from '@elastic/eui';
 import { FormattedMessage } from '@osd/i18n/react';
 import { Todo, PaginationData } from '../../../../common/todo/todo.types';
+import { TodoCustomFieldDefinition } from '../../../../../common/todo/todo.custom_fields';
+import { BulkTodoAction, BulkTodosResponse } from '../../../../../common/todo/todo.dtos';
+import { TodoExportFormat } from '../../../../../common/todo/todo.export';
 import { TodoFilters, FiltersState } from '../TodoFilters';
 import { TodosTable } from '../TodosTable';
 import { TodosEmptyState } from '../components/TodosEmptyState';
+import { TodosExportButton } from '../components/TodosExportButton';
 
 /**
  * Props for TableTab component
@@ -22,18 +26,30 @@ export interface TableTabProps {
   readonly sortField: string;
   /** Current sort direction */
   readonly sortDirection: 'asc' | 'desc';
+  /** Custom fields shown as extra columns */
+  readonly customFields: readonly TodoCustomFieldDefinition[];
   /** Filter values */
   readonly filters: FiltersState;
   /** Callback when create button is clicked */
   readonly onCreateClick: () => void;
+  /** Callback when the detail view is opened */
+  readonly onView: (todo: Todo) => void;
   /** Callback when edit is triggered */
   readonly onEdit: (todo: Todo) => void;
+  /** Callback to create a subtask of a TODO */
+  readonly onAddSubtask: (parent: Todo) => void;
   /** Callback when delete is triggered */
   readonly onDelete: (id: string) => Promise<void>;
   /** Callback when table state changes (pagination, sort) */
   readonly onTableChange: (criteria: any) => void;
   /** Callback when filters change */
   readonly onFiltersChange: (filters: FiltersState) => void;
+  /** Callback to apply an action to the selected TODOs */
+  readonly onBulkAction: (actions: BulkTodoAction[]) => Promise<BulkTodosResponse | null>;
+  /** Whether a bulk action is in flight */
+  readonly bulkLoading: boolean;
+  /** Callback to download every TODO matching the filters */
+  readonly onExport: (format: TodoExportFormat) => void;
 }
 
 /**
@@ -58,26 +74,39 @@ export const TableTab: React.FC<TableTabProps> = ({
   error,
   sortField,
   sortDirection,
+  customFields,
   filters,
   onCreateClick,
+  onView,
   onEdit,
+  onAddSubtask,
   onDelete,
   onTableChange,
   onFiltersChange,
+  onBulkAction,
+  bulkLoading,
+  onExport,
 }) => {
   return (
     <>
       <EuiSpacer size="m" />
-      <TodoFilters
-        searchText={filters.searchText}
-        selectedStatuses={filters.selectedStatuses}
-        selectedTags={filters.selectedTags}
-        selectedPriorities={filters.selectedPriorities}
-        selectedSeverities={filters.selectedSeverities}
-        showOverdueOnly={filters.showOverdueOnly}
-        dateFilters={filters.dateFilters}
-        onFiltersChange={onFiltersChange}
-      />
+      <EuiFlexGroup gutterSize="s" alignItems="flexStart" responsive={false}>
+        <EuiFlexItem>
+          <TodoFilters
+            searchText={filters.searchText}
+            selectedStatuses={filters.selectedStatuses}
+            selectedTags={filters.selectedTags}
+            selectedPriorities={filters.selectedPriorities}
+            selectedSeverities={filters.selectedSeverities}
+            showOverdueOnly={filters.showOverdueOnly}
+            dateFilters={filters.dateFilters}
+            onFiltersChange={onFiltersChange}
+          />
+        </EuiFlexItem>
+        <EuiFlexItem grow={false}>
+          <TodosExportButton disabled={loading || !!error} onExport={onExport} />
+        </EuiFlexItem>
+      </EuiFlexGroup>
       {error ? (
         <EuiCallOut
           title={
@@ -100,9 +129,14 @@ export const TableTab: React.FC<TableTabProps> = ({
           loading={loading}
           sortField={sortField}
           sortDirection={sortDirection}
+          customFields={customFields}
+          onView={onView}
           onEdit={onEdit}
+          onAddSubtask={onAddSubtask}
           onDelete={onDelete}
           onTableChange={onTableChange}
+          onBulkAction={onBulkAction}
+          bulkLoading={bulkLoading}
         />
       )}
     </>
@@ -0,0 +1,92 @@
+import {
+  DEFAULT_TODOS_URL_STATE,
+  TodosUrlState,
+  readTodosUrlState,
+  writeTodosUrlState,
+} from '../todo-url-state';
+
+describe('todo-url-state', () => {
+  const filteredState: TodosUrlState = {
+    searchText: 'firewall rules',
+    statuses: ['planned', 'error'],
+    tags: ['hipaa', 'network'],
+    priorities: ['critical'],
+    severities: ['high', 'critical'],
+    showOverdueOnly: true,
+    dateFilters: {
+      dueDateAfter: '2025-01-01T00:00:00.000Z',
+      dueDateBefore: '2025-03-31T23:59:59.999Z',
+    },
+    sortField: 'dueDate',
+    sortDirection: 'asc',
+    page: 3,
+    pageSize: 50,
+    tab: 'kanban',
+  };
+
+  describe('readTodosUrlState', () => {
+    it('should return the defaults for an empty query string', () => {
+      expect(readTodosUrlState('')).toEqual(DEFAULT_TODOS_URL_STATE);
+    });
+
+    it('should read every parameter', () => {
+      const state = readTodosUrlState(
+        '?q=firewall+rules&status=planned,error&tags=hipaa,network&priority=critical' +
+          '&severity=high,critical&overdue=true&dueDateAfter=2025-01-01T00:00:00.000Z' +
+          '&dueDateBefore=2025-03-31T23:59:59.999Z&sort=dueDate&dir=asc&page=3&pageSize=50&tab=kanban'
+      );
+
+      expect(state).toEqual(filteredState);
+    });
+
+    it('should drop unknown values and fall back to the defaults', () => {
+      const state = readTodosUrlState(
+        '?status=planned,blocked&priority=urgent&createdAfter=yesterday' +
+          '&sort=owner&dir=up&page=0&pageSize=500&tab=board&overdue=yes'
+      );
+
+      expect(state).toEqual({ ...DEFAULT_TODOS_URL_STATE, statuses: ['planned'] });
+    });
+
+    it('should accept sorting by a custom field', () => {
+      expect(readTodosUrlState('sort=custom.ticket_id').sortField).toBe('custom.ticket_id');
+      expect(readTodosUrlState('sort=custom.Ticket').sortField).toBe('createdAt');
+    });
+
+    it('should trim and skip empty tags', () => {
+      expect(readTodosUrlState('tags=hipaa,%20,%20pci%20').tags).toEqual(['hipaa', 'pci']);
+    });
+  });
+
+  describe('writeTodosUrlState', () => {
+    it('should leave out default values', () => {
+      expect(writeTodosUrlState('', DEFAULT_TODOS_URL_STATE)).toBe('');
+      expect(writeTodosUrlState('', { ...DEFAULT_TODOS_URL_STATE, tags: ['hipaa'], page: 2 })).toBe(
+        'tags=hipaa&page=2'
+      );
+    });
+
+    it('should round-trip through readTodosUrlState', () => {
+      expect(readTodosUrlState(writeTodosUrlState('', filteredState))).toEqual(filteredState);
+    });
+
+    it('should keep parameters of other apps', () => {
+      const search = writeTodosUrlState('?_g=(time:(from:now-7d))&tab=gantt', {
+        ...DEFAULT_TODOS_URL_STATE,
+        showOverdueOnly: true,
+      });
+
+      expect(new URLSearchParams(search).get('_g')).toBe('(time:(from:now-7d))');
+      expect(readTodosUrlState(search)).toEqual({
+        ...DEFAULT_TODOS_URL_STATE,
+        showOverdueOnly: true,
+      });
+    });
+
+    it('should clear parameters of filters that were removed', () => {
+      const search = writeTodosUrlState('status=done&q=backup', DEFAULT_TODOS_URL_STATE);
+
+      expect(search).toBe('');
+    });
+  });
+});
@@ -0,0 +1,171 @@
+import { i18n } from '@osd/i18n';
+import {
+  TodoStatus,
+  TodoPriority,
+  TodoSeverity,
+  TODO_STATUS_LABELS,
+  TODO_PRIORITY_LABELS,
+  TODO_SEVERITY_LABELS,
+} from '../../common/todo/todo.types';
+import { TodoDiffableField, TodoFieldValue } from '../../common/todo/todo.diff';
+import { parseRecurrenceRule } from '../../common/todo/todo.recurrence';
+import {
+  TodoCustomFieldDefinition,
+  TodoCustomFieldValue,
+} from '../../common/todo/todo.custom_fields';
+import { formatDate } from './date-formatters';
+
+/**
+ * Returns the localized label of a TODO field, as shown in the TODO form.
+ *
+ * @param field - Field name
+ * @returns Localized field label
+ *
+ * @example
+ * getTodoFieldLabel('dueDate') // "Due Date"
+ */
+export const getTodoFieldLabel = (field: TodoDiffableField): string => {
+  switch (field) {
+    case 'title':
+      return i18n.translate('customPlugin.form.field.title', { defaultMessage: 'Title' });
+    case 'description':
+      return i18n.translate('customPlugin.form.field.description', {
+        defaultMessage: 'Description',
+      });
+    case 'status':
+      return i18n.translate('customPlugin.form.field.status', { defaultMessage: 'Status' });
+    case 'statusReason':
+      return i18n.translate('customPlugin.form.field.statusReason', {
+        defaultMessage: 'Reason for status change',
+      });
+    case 'tags':
+      return i18n.translate('customPlugin.form.field.tags', { defaultMessage: 'Tags' });
+    case 'assignee':
+      return i18n.translate('customPlugin.form.field.assignee', { defaultMessage: 'Assignee' });
+    case 'priority':
+      return i18n.translate('customPlugin.form.field.priority', { defaultMessage: 'Priority' });
+    case 'severity':
+      return i18n.translate('customPlugin.form.field.severity', { defaultMessage: 'Severity' });
+    case 'startDate':
+      return i18n.translate('customPlugin.form.field.startDate', { defaultMessage: 'Start Date' });
+    case 'dueDate':
+      return i18n.translate('customPlugin.form.field.dueDate', { defaultMessage: 'Due Date' });
+    case 'complianceFrameworks':
+      return i18n.translate('customPlugin.form.field.complianceFrameworks', {
+        defaultMessage: 'Compliance Frameworks',
+      });
+    case 'parentId':
+      return i18n.translate('customPlugin.form.field.parentId', { defaultMessage: 'Parent TODO' });
+    case 'blockedBy':
+      return i18n.translate('customPlugin.form.field.blockedBy', { defaultMessage: 'Blocked By' });
+    case 'recurrence':
+      return i18n.translate('customPlugin.form.field.recurrence', { defaultMessage: 'Repeats' });
+  }
+};
+
+/**
+ * Describes a recurrence rule in words.
+ *
+ * @param rule - Recurrence rule in the supported RRULE subset
+ * @returns Localized description, or the rule itself if it cannot be parsed
+ *
+ * @example
+ * formatRecurrence('FREQ=MONTHLY;INTERVAL=3') // "Every 3 months"
+ * formatRecurrence('FREQ=YEARLY') // "Yearly"
+ */
+export const formatRecurrence = (rule: string): string => {
+  const parsed = parseRecurrenceRule(rule);
+  if (!parsed) {
+    return rule;
+  }
+  const values = { interval: parsed.interval };
+  switch (parsed.frequency) {
+    case 'daily':
+      return i18n.translate('customPlugin.recurrence.daily', {
+        defaultMessage: '{interval, plural, one {Daily} other {Every # days}}',
+        values,
+      });
+    case 'weekly':
+      return i18n.translate('customPlugin.recurrence.weekly', {
+        defaultMessage: '{interval, plural, one {Weekly} other {Every # weeks}}',
+        values,
+      });
+    case 'monthly':
+      return i18n.translate('customPlugin.recurrence.monthly', {
+        defaultMessage: '{interval, plural, one {Monthly} other {Every # months}}',
+        values,
+      });
+    case 'yearly':
+      return i18n.translate('customPlugin.recurrence.yearly', {
+        defaultMessage: '{interval, plural, one {Yearly} other {Every # years}}',
+        values,
+      });
+  }
+};
+
+/**
+ * Formats a TODO field value for display in diffs and history.
+ *
+ * @param field - Field name
+ * @param value - Field value (null when not set)
+ * @returns Display string, or an em dash when the value is not set
+ *
+ * @example
+ * formatTodoFieldValue('status', 'in_progress') // "In Progress"
+ * formatTodoFieldValue('tags', ['network', 'pci']) // "network, pci"
+ */
+export const formatTodoFieldValue = (field: TodoDiffableField, value: TodoFieldValue): string => {
+  if (value === null) {
+    return '—';
+  }
+  if (Array.isArray(value)) {
+    return value.join(', ');
+  }
+  switch (field) {
+    case 'status':
+      return TODO_STATUS_LABELS[value as TodoStatus] ?? value;
+    case 'priority':
+      return TODO_PRIORITY_LABELS[value as TodoPriority] ?? value;
+    case 'severity':
+      return TODO_SEVERITY_LABELS[value as TodoSeverity] ?? value;
+    case 'startDate':
+    case 'dueDate':
+      return (value as string).substring(0, 10);
+    case 'recurrence':
+      return formatRecurrence(value as string);
+    default:
+      return value as string;
+  }
+};
+
+/**
+ * Formats a custom field value for display in the TODO table.
+ *
+ * @param field - Definition of the custom field
+ * @param value - Stored value, or undefined when the TODO has none
+ * @returns Display string, or a dash when the value is not set
+ *
+ * @example
+ * formatCustomFieldValue({ type: 'boolean', ... }, true) // "Yes"
+ * formatCustomFieldValue({ type: 'date', ... }, '2024-01-15T00:00:00.000Z') // "Jan 15, 2024"
+ */
+export const formatCustomFieldValue = (
+  field: TodoCustomFieldDefinition,
+  value: TodoCustomFieldValue | undefined
+): string => {
+  if (value === undefined || value === '') {
+    return '-';
+  }
+  switch (field.type) {
+    case 'boolean':
+      return value
+        ? i18n.translate('customPlugin.customField.yes', { defaultMessage: 'Yes' })
+        : i18n.translate('customPlugin.customField.no', { defaultMessage: 'No' });
+    case 'date':
+      return formatDate(String(value));
+    case 'number':
+      return typeof value === 'number' ? value.toLocaleString() : String(value);
+    default:
+      return String(value);
+  }
+};
@@ -0,0 +1,194 @@
+import {
+  TodoStatus,
+  TodoPriority,
+  TodoSeverity,
+  TodoSortField,
+  SortDirection,
+  TODO_STATUS_VALUES,
+  TODO_PRIORITY_VALUES,
+  TODO_SEVERITY_VALUES,
+} from '../../common/todo/todo.types';
+import {
+  TodoViewTab,
+  TODO_VIEW_TAB_VALUES,
+  TODO_SAVED_VIEW_DATE_FILTERS,
+} from '../../common/todo/todo.saved_views';
+import { CUSTOM_FIELD_KEY_PATTERN } from '../../common/todo/todo.custom_fields';
+import { DEFAULT_PAGE_SIZE, MAX_PAGE_SIZE } from '../../common/constants';
+
+/**
+ * Date filter of the TODO page, e.g. `dueDateBefore`.
+ */
+type TodoDateFilterField = typeof TODO_SAVED_VIEW_DATE_FILTERS[number];
+
+/**
+ * Filters, sort, page and tab of the TODO page, as kept in the app URL.
+ */
+export interface TodosUrlState {
+  readonly searchText: string;
+  readonly statuses: TodoStatus[];
+  readonly tags: string[];
+  readonly priorities: TodoPriority[];
+  readonly severities: TodoSeverity[];
+  readonly showOverdueOnly: boolean;
+  readonly dateFilters: Partial<Record<TodoDateFilterField, string>>;
+  readonly sortField: TodoSortField;
+  readonly sortDirection: SortDirection;
+  readonly page: number;
+  readonly pageSize: number;
+  readonly tab: TodoViewTab;
+}
+
+/**
+ * State of a TODO page opened without query parameters.
+ */
+export const DEFAULT_TODOS_URL_STATE: TodosUrlState = {
+  searchText: '',
+  statuses: [],
+  tags: [],
+  priorities: [],
+  severities: [],
+  showOverdueOnly: false,
+  dateFilters: {},
+  sortField: 'createdAt',
+  sortDirection: 'desc',
+  page: 1,
+  pageSize: DEFAULT_PAGE_SIZE,
+  tab: 'table',
+};
+
+const BUILT_IN_SORT_FIELDS: readonly TodoSortField[] = [
+  'createdAt',
+  'updatedAt',
+  'completedAt',
+  'title',
+  'status',
+  'priority',
+  'severity',
+  'dueDate',
+  'rank',
+];
+
+/**
+ * Query parameters written by {@link writeTodosUrlState}. Other parameters of the
+ * URL, such as the global state of OpenSearch Dashboards, are kept as they are.
+ */
+const URL_KEYS = {
+  searchText: 'q',
+  statuses: 'status',
+  tags: 'tags',
+  priorities: 'priority',
+  severities: 'severity',
+  showOverdueOnly: 'overdue',
+  sortField: 'sort',
+  sortDirection: 'dir',
+  page: 'page',
+  pageSize: 'pageSize',
+  tab: 'tab',
+} as const;
+
+const readList = (params: URLSearchParams, key: string): string[] =>
+  (params.get(key) || '')
+    .split(',')
+    .map((value) => value.trim())
+    .filter((value) => value.length > 0);
+
+const readEnumList = <T extends string>(
+  params: URLSearchParams,
+  key: string,
+  allowed: readonly T[]
+): T[] => readList(params, key).filter((value): value is T => allowed.includes(value as T));
+
+const readInteger = (params: URLSearchParams, key: string, min: number, max: number) => {
+  const value = Number(params.get(key));
+  return Number.isInteger(value) && value >= min && value <= max ? value : undefined;
+};
+
+const isSortField = (value: string): value is TodoSortField =>
+  BUILT_IN_SORT_FIELDS.includes(value as TodoSortField) ||
+  (value.startsWith('custom.') && CUSTOM_FIELD_KEY_PATTERN.test(value.slice('custom.'.length)));
+
+/**
+ * Reads the state of the TODO page from the query string of the app URL.
+ * Missing or invalid parameters fall back to {@link DEFAULT_TODOS_URL_STATE},
+ * so a hand-edited or outdated link still opens the page.
+ *
+ * @param search - Query string, with or without the leading `?`
+ * @returns Page state
+ *
+ * @example
+ * readTodosUrlState('?status=planned,error&overdue=true&tab=kanban')
+ * // { ...DEFAULT_TODOS_URL_STATE, statuses: ['planned', 'error'], showOverdueOnly: true, tab: 'kanban' }
+ */
+export const readTodosUrlState = (search: string): TodosUrlState => {
+  const params = new URLSearchParams(search);
+  const defaults = DEFAULT_TODOS_URL_STATE;
+
+  const dateFilters: Partial<Record<TodoDateFilterField, string>> = {};
+  TODO_SAVED_VIEW_DATE_FILTERS.forEach((field) => {
+    const value = params.get(field);
+    if (value && !isNaN(Date.parse(value))) {
+      dateFilters[field] = value;
+    }
+  });
+
+  const sortField = params.get(URL_KEYS.sortField) || '';
+  const sortDirection = params.get(URL_KEYS.sortDirection);
+  const tab = params.get(URL_KEYS.tab) as TodoViewTab;
+
+  return {
+    searchText: params.get(URL_KEYS.searchText) || defaults.searchText,
+    statuses: readEnumList(params, URL_KEYS.statuses, TODO_STATUS_VALUES),
+    tags: readList(params, URL_KEYS.tags),
+    priorities: readEnumList(params, URL_KEYS.priorities, TODO_PRIORITY_VALUES),
+    severities: readEnumList(params, URL_KEYS.severities, TODO_SEVERITY_VALUES),
+    showOverdueOnly: params.get(URL_KEYS.showOverdueOnly) === 'true',
+    dateFilters,
+    sortField: isSortField(sortField) ? sortField : defaults.sortField,
+    sortDirection:
+      sortDirection === 'asc' || sortDirection === 'desc' ? sortDirection : defaults.sortDirection,
+    page: readInteger(params, URL_KEYS.page, 1, Number.MAX_SAFE_INTEGER) || defaults.page,
+    pageSize: readInteger(params, URL_KEYS.pageSize, 1, MAX_PAGE_SIZE) || defaults.pageSize,
+    tab: TODO_VIEW_TAB_VALUES.includes(tab) ? tab : defaults.tab,
+  };
+};
+
+/**
+ * Writes the state of the TODO page into a query string. Values equal to the
+ * defaults are left out to keep shared links short.
+ *
+ * @param search - Current query string, whose other parameters are kept
+ * @param state - Page state
+ * @returns Query string without the leading `?`, empty when nothing is set
+ *
+ * @example
+ * writeTodosUrlState('', { ...DEFAULT_TODOS_URL_STATE, tags: ['hipaa'], page: 2 })
+ * // 'tags=hipaa&page=2'
+ */
+export const writeTodosUrlState = (search: string, state: TodosUrlState): string => {
+  const params = new URLSearchParams(search);
+  const defaults = DEFAULT_TODOS_URL_STATE;
+  const set = (key: string, value: string | undefined) => {
+    if (value) {
+      params.set(key, value);
+    } else {
+      params.delete(key);
+    }
+  };
+  const differs = <T>(value: T, defaultValue: T) => (value !== defaultValue ? String(value) : undefined);
+
+  set(URL_KEYS.searchText, state.searchText.trim() ? state.searchText : undefined);
+  set(URL_KEYS.statuses, state.statuses.join(','));
+  set(URL_KEYS.tags, state.tags.join(','));
+  set(URL_KEYS.priorities, state.priorities.join(','));
+  set(URL_KEYS.severities, state.severities.join(','));
+  set(URL_KEYS.showOverdueOnly, state.showOverdueOnly ? 'true' : undefined);
+  TODO_SAVED_VIEW_DATE_FILTERS.forEach((field) => set(field, state.dateFilters[field]));
+  set(URL_KEYS.sortField, differs(state.sortField, defaults.sortField));
+  set(URL_KEYS.sortDirection, differs(state.sortDirection, defaults.sortDirection));
+  set(URL_KEYS.page, differs(state.page, defaults.page));
+  set(URL_KEYS.pageSize, differs(state.pageSize, defaults.pageSize));
+  set(URL_KEYS.tab, differs(state.tab, defaults.tab));
+
+  return params.toString();
+};
@@ -1,7 +1,7 @@
 import { TodoAnalyticsService } from '../services/todo_analytics.service';
 import { TodosRepository, TodoOpenSearchClient } from '../repositories';
-import { ValidationError } from '../errors';
-import { AnalyticsStats, TodoStatus, TodoPriority, TodoSeverity } from '../../common';
+import { BusinessRuleError, ValidationError } from '../errors';
+import { AnalyticsStats, Todo, TodoStatus, TodoPriority, TodoSeverity } from '../../common';
 jest.mock('../repositories/todos.repository');
 const mockLogger = {
   debug: jest.fn(),
@@ -584,4 +584,116 @@ describe('TodoAnalyticsService', () => {
       expect(result2.computedAt).toBeTruthy();
     });
   });
+  describe('exportOscal', () => {
+    const todo: Todo = {
+      id: 'todo-1',
+      title: 'Rotate cardholder data keys',
+      status: 'in_progress',
+      tags: [],
+      assignee: 'alice',
+      priority: 'high',
+      severity: 'critical',
+      dueDate: '2024-02-01T00:00:00.000Z',
+      complianceFrameworks: ['PCI-DSS'],
+      createdAt: '2024-01-15T10:00:00.000Z',
+      updatedAt: '2024-01-15T10:00:00.000Z',
+      completedAt: null,
+    };
+    async function* batches(...lists: Todo[][]) {
+      for (const list of lists) {
+        yield list;
+      }
+    }
+    it('should turn the open TODOs of the framework into POA&M items', async () => {
+      mockRepository.getAnalytics.mockResolvedValue(sampleAnalyticsResult);
+      mockRepository.scan.mockReturnValue(batches([todo]));
+      const document = await service.exportOscal(mockClient, { complianceFramework: 'PCI-DSS' });
+      expect(mockRepository.getAnalytics).toHaveBeenCalledWith(mockClient, {
+        complianceFramework: 'PCI-DSS',
+      });
+      expect(mockRepository.scan).toHaveBeenCalledWith(mockClient, {
+        complianceFrameworks: ['PCI-DSS'],
+        status: ['planned', 'in_progress', 'error'],
+        sortField: 'dueDate',
+        sortDirection: 'asc',
+      });
+      const poam = document['plan-of-action-and-milestones'];
+      expect(poam.metadata.props).toEqual(
+        expect.arrayContaining([
+          expect.objectContaining({ name: 'total-todos', value: '30' }),
+          expect.objectContaining({ name: 'open-todos', value: '15' }),
+        ])
+      );
+      expect(poam['poam-items']).toHaveLength(1);
+      expect(poam.risks[0]).toMatchObject({ status: 'remediating', deadline: todo.dueDate });
+    });
+    it('should reject a framework without open TODOs', async () => {
+      mockRepository.getAnalytics.mockResolvedValue(sampleAnalyticsResult);
+      await expect(
+        service.exportOscal(mockClient, { complianceFramework: 'HIPAA' })
+      ).rejects.toThrow(BusinessRuleError);
+      expect(mockRepository.scan).not.toHaveBeenCalled();
+    });
+    it('should require a framework', async () => {
+      await expect(
+        service.exportOscal(mockClient, { complianceFramework: '' })
+      ).rejects.toThrow(ValidationError);
+      expect(mockRepository.getAnalytics).not.toHaveBeenCalled();
+    });
+  });
+  describe('getReport', () => {
+    const sampleStatsResult = {
+      total: 100,
+      aggregations: {
+        by_status: { buckets: [{ key: 'done', doc_count: 40 }] },
+        top_tags: { buckets: [] },
+        completed_over_time: { buckets: [] },
+        top_assignees: { buckets: [] },
+        unassigned: { doc_count: 10 },
+      },
+    };
+    it('should limit analytics and statistics to the framework and date range', async () => {
+      mockRepository.getAnalytics.mockResolvedValue(sampleAnalyticsResult);
+      mockRepository.getStats.mockResolvedValue(sampleStatsResult as any);
+      const report = await service.getReport(mockClient, {
+        format: 'markdown',
+        complianceFramework: 'PCI-DSS',
+        createdAfter: '2024-01-01T00:00:00.000Z',
+        createdBefore: '2024-01-31T23:59:59.999Z',
+      });
+      const filters = {
+        complianceFramework: 'PCI-DSS',
+        createdAfter: '2024-01-01T00:00:00.000Z',
+        createdBefore: '2024-01-31T23:59:59.999Z',
+      };
+      expect(mockRepository.getAnalytics).toHaveBeenCalledWith(mockClient, filters);
+      expect(mockRepository.getStats).toHaveBeenCalledWith(
+        mockClient,
+        expect.objectContaining({ ...filters, timeInterval: 'week' })
+      );
+      expect(report.format).toBe('markdown');
+      expect(report.content).toContain('Framework: PCI-DSS');
+    });
+    it('should default to HTML', async () => {
+      mockRepository.getAnalytics.mockResolvedValue(sampleAnalyticsResult);
+      mockRepository.getStats.mockResolvedValue(sampleStatsResult as any);
+      const report = await service.getReport(mockClient, {});
+      expect(report.format).toBe('html');
+      expect(report.content).toContain('<!DOCTYPE html>');
+    });
+    it('should reject an inverted date range', async () => {
+      await expect(
+        service.getReport(mockClient, {
+          createdAfter: '2024-02-01T00:00:00.000Z',
+          createdBefore: '2024-01-01T00:00:00.000Z',
+        })
+      ).rejects.toThrow(ValidationError);
+      expect(mockRepository.getAnalytics).not.toHaveBeenCalled();
+    });
+    it('should reject an invalid date', async () => {
+      await expect(service.getReport(mockClient, { createdAfter: 'last month' })).rejects.toThrow(
+        ValidationError
+      );
+    });
+  });
 });
@@ -0,0 +1,105 @@
+import { TodoAuditRepository } from '../repositories/todo_audit.repository';
+import { TodoOpenSearchClient } from '../repositories/todos.repository';
+import { IndexManager } from '../repositories/index_manager';
+import { TodoAuditMapper } from '../mappers';
+import { IndexError } from '../errors';
+
+const mockLogger = {
+  debug: jest.fn(),
+  info: jest.fn(),
+  warn: jest.fn(),
+  error: jest.fn(),
+  trace: jest.fn(),
+  fatal: jest.fn(),
+  get: jest.fn().mockReturnThis(),
+};
+
+describe('TodoAuditRepository', () => {
+  let repository: TodoAuditRepository;
+  let mockClient: jest.Mocked<TodoOpenSearchClient>;
+  let mockIndexManager: jest.Mocked<IndexManager>;
+
+  const document = TodoAuditMapper.toDocument(
+    'todo-1',
+    'update',
+    'alice',
+    [{ field: 'severity', oldValue: 'low', newValue: 'critical' }],
+    '2024-01-15T12:00:00.000Z'
+  );
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    mockIndexManager = {
+      ensureIndex: jest.fn().mockResolvedValue(undefined),
+    } as any;
+
+    mockClient = {
+      index: jest.fn(),
+      search: jest.fn(),
+    } as any;
+
+    repository = new TodoAuditRepository(mockLogger as any, mockIndexManager, 'test-audit-index');
+  });
+
+  describe('append', () => {
+    it('should index the audit document and return the history entry', async () => {
+      mockClient.index.mockResolvedValue({ body: { _id: 'entry-1' } });
+
+      const entry = await repository.append(mockClient, document);
+
+      expect(mockIndexManager.ensureIndex).toHaveBeenCalledWith(mockClient);
+      expect(mockClient.index).toHaveBeenCalledWith({
+        index: 'test-audit-index',
+        body: document,
+      });
+      expect(entry).toEqual({
+        id: 'entry-1',
+        todoId: 'todo-1',
+        action: 'update',
+        actor: 'alice',
+        timestamp: '2024-01-15T12:00:00.000Z',
+        changes: [{ field: 'severity', oldValue: 'low', newValue: 'critical' }],
+      });
+    });
+
+    it('should throw IndexError when indexing fails', async () => {
+      mockClient.index.mockRejectedValue(new Error('cluster unavailable'));
+
+      await expect(repository.append(mockClient, document)).rejects.toThrow(IndexError);
+    });
+  });
+
+  describe('listByTodoId', () => {
+    it('should query entries for the TODO newest first', async () => {
+      mockClient.search.mockResolvedValue({
+        body: {
+          hits: {
+            total: { value: 1 },
+            hits: [{ _id: 'entry-1', _source: document }],
+          },
+        },
+      });
+
+      const result = await repository.listByTodoId(mockClient, 'todo-1', 2, 10);
+
+      expect(mockClient.search).toHaveBeenCalledWith({
+        index: 'test-audit-index',
+        body: {
+          query: { term: { todo_id: 'todo-1' } },
+          sort: [{ timestamp: { order: 'desc' } }],
+          from: 10,
+          size: 10,
+        },
+      });
+      expect(result.total).toBe(1);
+      expect(result.entries[0].actor).toBe('alice');
+    });
+
+    it('should throw IndexError when the search fails', async () => {
+      mockClient.search.mockRejectedValue(new Error('cluster unavailable'));
+
+      await expect(repository.listByTodoId(mockClient, 'todo-1')).rejects.toThrow(IndexError);
+    });
+  });
+});
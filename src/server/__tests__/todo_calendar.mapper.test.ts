@@ -0,0 +1,102 @@
+import { TodoCalendarMapper } from '../mappers/todo_calendar.mapper';
+import { Todo } from '../../common';
+describe('TodoCalendarMapper', () => {
+  const now = '2024-03-01T12:00:00.000Z';
+  const todo: Todo = {
+    id: 'todo-1',
+    title: 'Rotate keys; then, restart',
+    description: 'First line\nSecond line',
+    status: 'in_progress',
+    tags: ['security', 'ops,infra'],
+    assignee: 'alice',
+    priority: 'critical',
+    severity: 'high',
+    dueDate: '2024-03-15T17:30:00.000Z',
+    complianceFrameworks: ['PCI-DSS'],
+    createdAt: '2024-01-15T10:00:00.000Z',
+    updatedAt: '2024-02-01T08:00:00.000Z',
+    completedAt: null,
+  };
+  async function* batches(...lists: Todo[][]) {
+    for (const list of lists) {
+      yield list;
+    }
+  }
+  const read = async (chunks: AsyncIterable<string>) => {
+    let text = '';
+    for await (const chunk of chunks) {
+      text += chunk;
+    }
+    return text;
+  };
+  describe('serialize', () => {
+    it('should wrap the entries in a calendar with CRLF line endings', async () => {
+      const text = await read(TodoCalendarMapper.serialize(batches([todo], [todo]), now));
+      const lines = text.split('\r\n');
+      expect(lines.slice(0, 6)).toEqual([
+        'BEGIN:VCALENDAR',
+        'VERSION:2.0',
+        'PRODID:-//OpenSearch Dashboards//TODO Plugin//EN',
+        'CALSCALE:GREGORIAN',
+        'METHOD:PUBLISH',
+        'X-WR-CALNAME:TODOs',
+      ]);
+      expect(lines.filter((line) => line === 'BEGIN:VTODO')).toHaveLength(2);
+      expect(text.endsWith('END:VCALENDAR\r\n')).toBe(true);
+      expect(text).not.toMatch(/[^\r]\n/);
+    });
+    it('should skip TODOs without a due date', async () => {
+      const text = await read(
+        TodoCalendarMapper.serialize(batches([{ ...todo, dueDate: undefined }]), now)
+      );
+      expect(text).not.toContain('BEGIN:VTODO');
+    });
+  });
+  describe('toVTodo', () => {
+    it('should map the TODO fields to VTODO properties', () => {
+      expect(TodoCalendarMapper.toVTodo(todo, now)).toEqual([
+        'BEGIN:VTODO',
+        'UID:todo-1@customPlugin',
+        'DTSTAMP:20240301T120000Z',
+        'CREATED:20240115T100000Z',
+        'LAST-MODIFIED:20240201T080000Z',
+        'SUMMARY:Rotate keys\\; then\\, restart',
+        'DESCRIPTION:First line\\nSecond line\\n\\n' +
+          'Assignee: alice\\nSeverity: high\\nCompliance: PCI-DSS',
+        'DUE:20240315T173000Z',
+        'PRIORITY:1',
+        'STATUS:IN-PROCESS',
+        'CATEGORIES:security,ops\\,infra',
+        'END:VTODO',
+      ]);
+    });
+    it.each([
+      ['planned', 'NEEDS-ACTION'],
+      ['error', 'NEEDS-ACTION'],
+      ['done', 'COMPLETED'],
+    ] as const)('should map the %s status to %s', (status, expected) => {
+      expect(TodoCalendarMapper.toVTodo({ ...todo, status }, now)).toContain(`STATUS:${expected}`);
+    });
+    it('should record when a done TODO was completed', () => {
+      const lines = TodoCalendarMapper.toVTodo(
+        { ...todo, status: 'done', completedAt: '2024-03-10T09:00:00.000Z' },
+        now
+      );
+      expect(lines).toContain('COMPLETED:20240310T090000Z');
+    });
+  });
+  describe('foldLine', () => {
+    it('should leave short lines alone', () => {
+      expect(TodoCalendarMapper.foldLine('SUMMARY:Short')).toBe('SUMMARY:Short');
+    });
+    it('should fold long lines at 75 octets without splitting characters', () => {
+      const line = `SUMMARY:${'é'.repeat(80)}`;
+      const folded = TodoCalendarMapper.foldLine(line);
+      const parts = folded.split('\r\n');
+      expect(parts.length).toBeGreaterThan(1);
+      parts.forEach((part) => expect(Buffer.byteLength(part)).toBeLessThanOrEqual(75));
+      expect(parts.slice(1).every((part) => part.startsWith(' '))).toBe(true);
+      expect(parts.map((part, i) => (i === 0 ? part : part.slice(1))).join('')).toBe(line);
+    });
+  });
+});
@@ -0,0 +1,198 @@
+import { TodoCommentsRepository } from '../repositories/todo_comments.repository';
+import { TodoOpenSearchClient } from '../repositories/todos.repository';
+import { IndexManager } from '../repositories/index_manager';
+import { TodoCommentsMapper } from '../mappers';
+import { IndexError, NotFoundError } from '../errors';
+
+const mockLogger = {
+  debug: jest.fn(),
+  info: jest.fn(),
+  warn: jest.fn(),
+  error: jest.fn(),
+  trace: jest.fn(),
+  fatal: jest.fn(),
+  get: jest.fn().mockReturnThis(),
+};
+
+describe('TodoCommentsRepository', () => {
+  let repository: TodoCommentsRepository;
+  let mockClient: jest.Mocked<TodoOpenSearchClient>;
+  let mockIndexManager: jest.Mocked<IndexManager>;
+
+  const document = TodoCommentsMapper.toDocument(
+    'todo-1',
+    'alice',
+    '  Patched on **staging**  ',
+    '2024-01-15T12:00:00.000Z'
+  );
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    mockIndexManager = {
+      ensureIndex: jest.fn().mockResolvedValue(undefined),
+    } as any;
+
+    mockClient = {
+      index: jest.fn(),
+      search: jest.fn(),
+      update: jest.fn(),
+      delete: jest.fn(),
+      deleteByQuery: jest.fn(),
+    } as any;
+
+    repository = new TodoCommentsRepository(
+      mockLogger as any,
+      mockIndexManager,
+      'test-comments-index'
+    );
+  });
+
+  describe('create', () => {
+    it('should index the comment document and return the comment', async () => {
+      mockClient.index.mockResolvedValue({ body: { _id: 'comment-1' } });
+
+      const comment = await repository.create(mockClient, document);
+
+      expect(mockIndexManager.ensureIndex).toHaveBeenCalledWith(mockClient);
+      expect(mockClient.index).toHaveBeenCalledWith({
+        index: 'test-comments-index',
+        body: document,
+        refresh: 'wait_for',
+      });
+      expect(comment).toEqual({
+        id: 'comment-1',
+        todoId: 'todo-1',
+        author: 'alice',
+        body: 'Patched on **staging**',
+        createdAt: '2024-01-15T12:00:00.000Z',
+        updatedAt: null,
+      });
+    });
+
+    it('should throw IndexError when indexing fails', async () => {
+      mockClient.index.mockRejectedValue(new Error('cluster unavailable'));
+
+      await expect(repository.create(mockClient, document)).rejects.toThrow(IndexError);
+    });
+  });
+
+  describe('getById', () => {
+    it('should only find the comment within its TODO', async () => {
+      mockClient.search.mockResolvedValue({
+        body: { hits: { total: { value: 1 }, hits: [{ _id: 'comment-1', _source: document }] } },
+      });
+
+      const comment = await repository.getById(mockClient, 'todo-1', 'comment-1');
+
+      expect(comment.id).toBe('comment-1');
+      expect(mockClient.search.mock.calls[0][0].body.query).toEqual({
+        bool: {
+          filter: [{ ids: { values: ['comment-1'] } }, { term: { todo_id: 'todo-1' } }],
+        },
+      });
+    });
+
+    it('should throw NotFoundError when the TODO has no such comment', async () => {
+      mockClient.search.mockResolvedValue({
+        body: { hits: { total: { value: 0 }, hits: [] } },
+      });
+
+      await expect(repository.getById(mockClient, 'todo-2', 'comment-1')).rejects.toThrow(
+        NotFoundError
+      );
+    });
+  });
+
+  describe('listByTodoId', () => {
+    it('should query comments for the TODO oldest first', async () => {
+      mockClient.search.mockResolvedValue({
+        body: {
+          hits: {
+            total: { value: 1 },
+            hits: [{ _id: 'comment-1', _source: document }],
+          },
+        },
+      });
+
+      const result = await repository.listByTodoId(mockClient, 'todo-1', 2, 10);
+
+      expect(mockClient.search).toHaveBeenCalledWith({
+        index: 'test-comments-index',
+        body: {
+          query: { term: { todo_id: 'todo-1' } },
+          sort: [{ created_at: { order: 'asc' } }],
+          from: 10,
+          size: 10,
+        },
+      });
+      expect(result.total).toBe(1);
+      expect(result.comments[0].author).toBe('alice');
+    });
+
+    it('should throw IndexError when the search fails', async () => {
+      mockClient.search.mockRejectedValue(new Error('cluster unavailable'));
+
+      await expect(repository.listByTodoId(mockClient, 'todo-1')).rejects.toThrow(IndexError);
+    });
+  });
+
+  describe('update', () => {
+    it('should replace the body and record the edit timestamp', async () => {
+      mockClient.update.mockResolvedValue({ body: { result: 'updated' } });
+
+      await repository.update(mockClient, 'comment-1', 'Edited', '2024-01-16T08:00:00.000Z');
+
+      expect(mockClient.update).toHaveBeenCalledWith({
+        index: 'test-comments-index',
+        id: 'comment-1',
+        body: { doc: { body: 'Edited', updated_at: '2024-01-16T08:00:00.000Z' } },
+        refresh: 'wait_for',
+      });
+    });
+  });
+
+  describe('deleteByTodoId', () => {
+    it('should delete every comment of the TODO', async () => {
+      mockClient.deleteByQuery.mockResolvedValue({ body: { deleted: 3 } });
+
+      const deleted = await repository.deleteByTodoId(mockClient, 'todo-1');
+
+      expect(deleted).toBe(3);
+      expect(mockClient.deleteByQuery).toHaveBeenCalledWith(
+        expect.objectContaining({
+          index: 'test-comments-index',
+          body: { query: { term: { todo_id: 'todo-1' } } },
+        })
+      );
+    });
+  });
+
+  describe('countByTodoIds', () => {
+    it('should count comments per TODO', async () => {
+      mockClient.search.mockResolvedValue({
+        body: {
+          aggregations: {
+            by_todo: { buckets: [{ key: 'todo-1', doc_count: 4 }] },
+          },
+        },
+      });
+
+      const counts = await repository.countByTodoIds(mockClient, ['todo-1', 'todo-2']);
+
+      expect(counts.get('todo-1')).toBe(4);
+      expect(counts.has('todo-2')).toBe(false);
+      expect(mockClient.search.mock.calls[0][0].body).toMatchObject({
+        size: 0,
+        query: { terms: { todo_id: ['todo-1', 'todo-2'] } },
+      });
+    });
+
+    it('should not query OpenSearch when no TODO IDs are given', async () => {
+      const counts = await repository.countByTodoIds(mockClient, []);
+
+      expect(counts.size).toBe(0);
+      expect(mockClient.search).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,176 @@
+import { TodoCommentsService } from '../services/todo_comments.service';
+import {
+  TodosRepository,
+  TodoCommentsRepository,
+  TodoOpenSearchClient,
+} from '../repositories';
+import { ValidationError, NotFoundError, BusinessRuleError } from '../errors';
+import { Todo, TodoComment, UNKNOWN_ACTOR } from '../../common';
+jest.mock('../repositories/todos.repository');
+jest.mock('../repositories/todo_comments.repository');
+const mockLogger = {
+  debug: jest.fn(),
+  info: jest.fn(),
+  warn: jest.fn(),
+  error: jest.fn(),
+  trace: jest.fn(),
+  fatal: jest.fn(),
+  get: jest.fn().mockReturnThis(),
+};
+const mockClient = {} as TodoOpenSearchClient;
+describe('TodoCommentsService', () => {
+  let service: TodoCommentsService;
+  let mockTodosRepository: jest.Mocked<TodosRepository>;
+  let mockCommentsRepository: jest.Mocked<TodoCommentsRepository>;
+  const sampleTodo: Todo = {
+    id: 'todo-1',
+    title: 'Patch OpenSSL',
+    status: 'planned',
+    tags: [],
+    priority: 'medium',
+    severity: 'low',
+    complianceFrameworks: [],
+    createdAt: '2024-01-15T10:00:00.000Z',
+    updatedAt: '2024-01-15T10:00:00.000Z',
+    completedAt: null,
+  };
+  const sampleComment: TodoComment = {
+    id: 'comment-1',
+    todoId: 'todo-1',
+    author: 'alice',
+    body: 'Waiting on the vendor',
+    createdAt: '2024-01-15T12:00:00.000Z',
+    updatedAt: null,
+  };
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockTodosRepository = new TodosRepository(
+      mockLogger as any,
+      {} as any
+    ) as jest.Mocked<TodosRepository>;
+    mockCommentsRepository = new TodoCommentsRepository(
+      mockLogger as any,
+      {} as any
+    ) as jest.Mocked<TodoCommentsRepository>;
+    mockTodosRepository.getById.mockResolvedValue(sampleTodo);
+    mockCommentsRepository.getById.mockResolvedValue(sampleComment);
+    service = new TodoCommentsService(
+      mockLogger as any,
+      mockTodosRepository,
+      mockCommentsRepository
+    );
+  });
+  describe('list', () => {
+    it('should return paginated comments of an existing TODO', async () => {
+      mockCommentsRepository.listByTodoId.mockResolvedValue({
+        comments: [sampleComment],
+        total: 21,
+      });
+      const result = await service.list(mockClient, 'todo-1', { page: 1, pageSize: 20 });
+      expect(mockCommentsRepository.listByTodoId).toHaveBeenCalledWith(mockClient, 'todo-1', 1, 20);
+      expect(result.todoId).toBe('todo-1');
+      expect(result.comments).toEqual([sampleComment]);
+      expect(result.pagination).toMatchObject({ totalItems: 21, totalPages: 2, hasNextPage: true });
+    });
+    it('should throw NotFoundError if the TODO does not exist', async () => {
+      mockTodosRepository.getById.mockRejectedValue(new NotFoundError('Todo', 'missing'));
+      await expect(service.list(mockClient, 'missing')).rejects.toThrow(NotFoundError);
+      expect(mockCommentsRepository.listByTodoId).not.toHaveBeenCalled();
+    });
+  });
+  describe('create', () => {
+    it('should store the comment with the author', async () => {
+      mockCommentsRepository.create.mockResolvedValue(sampleComment);
+      await service.create(mockClient, 'todo-1', { body: ' Waiting on the vendor ' }, 'alice');
+      expect(mockCommentsRepository.create).toHaveBeenCalledWith(
+        mockClient,
+        expect.objectContaining({
+          todo_id: 'todo-1',
+          author: 'alice',
+          body: 'Waiting on the vendor',
+          updated_at: null,
+        })
+      );
+    });
+    it('should throw ValidationError for an empty body', async () => {
+      await expect(service.create(mockClient, 'todo-1', { body: '   ' })).rejects.toThrow(
+        ValidationError
+      );
+      expect(mockCommentsRepository.create).not.toHaveBeenCalled();
+    });
+    it('should throw ValidationError for a body that is too long', async () => {
+      await expect(
+        service.create(mockClient, 'todo-1', { body: 'a'.repeat(10001) })
+      ).rejects.toThrow(ValidationError);
+    });
+    it('should throw NotFoundError if the TODO does not exist', async () => {
+      mockTodosRepository.getById.mockRejectedValue(new NotFoundError('Todo', 'missing'));
+      await expect(service.create(mockClient, 'missing', { body: 'Hello' })).rejects.toThrow(
+        NotFoundError
+      );
+      expect(mockCommentsRepository.create).not.toHaveBeenCalled();
+    });
+  });
+  describe('update', () => {
+    it('should let the author edit the comment and set the edit timestamp', async () => {
+      const result = await service.update(
+        mockClient,
+        'todo-1',
+        'comment-1',
+        { body: 'Vendor replied' },
+        'alice'
+      );
+      expect(mockCommentsRepository.update).toHaveBeenCalledWith(
+        mockClient,
+        'comment-1',
+        'Vendor replied',
+        expect.any(String)
+      );
+      expect(result.body).toBe('Vendor replied');
+      expect(result.updatedAt).not.toBeNull();
+      expect(result.createdAt).toBe(sampleComment.createdAt);
+    });
+    it('should throw BusinessRuleError when another user edits the comment', async () => {
+      await expect(
+        service.update(mockClient, 'todo-1', 'comment-1', { body: 'Hijacked' }, 'bob')
+      ).rejects.toThrow(BusinessRuleError);
+      expect(mockCommentsRepository.update).not.toHaveBeenCalled();
+    });
+  });
+  describe('delete', () => {
+    it('should let the author delete the comment', async () => {
+      mockCommentsRepository.delete.mockResolvedValue(true);
+      await expect(service.delete(mockClient, 'todo-1', 'comment-1', 'alice')).resolves.toBe(true);
+    });
+    it('should throw BusinessRuleError when another user deletes the comment', async () => {
+      await expect(service.delete(mockClient, 'todo-1', 'comment-1', 'bob')).rejects.toThrow(
+        BusinessRuleError
+      );
+      expect(mockCommentsRepository.delete).not.toHaveBeenCalled();
+    });
+    it('should throw BusinessRuleError when the user cannot be determined', async () => {
+      mockCommentsRepository.getById.mockResolvedValue({ ...sampleComment, author: UNKNOWN_ACTOR });
+      await expect(
+        service.delete(mockClient, 'todo-1', 'comment-1', UNKNOWN_ACTOR)
+      ).rejects.toThrow(BusinessRuleError);
+      expect(mockCommentsRepository.delete).not.toHaveBeenCalled();
+    });
+    it('should allow deletion by anyone when security is disabled', async () => {
+      service = new TodoCommentsService(
+        mockLogger as any,
+        mockTodosRepository,
+        mockCommentsRepository,
+        false
+      );
+      mockCommentsRepository.delete.mockResolvedValue(true);
+      await service.delete(mockClient, 'todo-1', 'comment-1', UNKNOWN_ACTOR);
+      expect(mockCommentsRepository.delete).toHaveBeenCalledWith(mockClient, 'comment-1');
+    });
+    it('should throw NotFoundError for a comment of another TODO', async () => {
+      mockCommentsRepository.getById.mockRejectedValue(new NotFoundError('Comment', 'comment-1'));
+      await expect(service.delete(mockClient, 'todo-2', 'comment-1', 'alice')).rejects.toThrow(
+        NotFoundError
+      );
+    });
+  });
+});
@@ -0,0 +1,182 @@
+import { TodoCustomFieldsService } from '../services/todo_custom_fields.service';
+import { TodoCustomFieldsRepository, TodoOpenSearchClient } from '../repositories';
+import { ValidationError, ForbiddenError, BusinessRuleError } from '../errors';
+import { TodoCustomFieldDefinition, MAX_TODO_CUSTOM_FIELDS, UNKNOWN_ACTOR } from '../../common';
+jest.mock('../repositories/todo_custom_fields.repository');
+const mockLogger = {
+  debug: jest.fn(),
+  info: jest.fn(),
+  warn: jest.fn(),
+  error: jest.fn(),
+  trace: jest.fn(),
+  fatal: jest.fn(),
+  get: jest.fn().mockReturnThis(),
+};
+const mockClient = {} as TodoOpenSearchClient;
+describe('TodoCustomFieldsService', () => {
+  let service: TodoCustomFieldsService;
+  let mockRepository: jest.Mocked<TodoCustomFieldsRepository>;
+  const admin = { username: 'alice', roles: ['all_access'] };
+  const analyst = { username: 'bob', roles: ['readall'] };
+  const environmentField: TodoCustomFieldDefinition = {
+    key: 'environment',
+    label: 'Environment',
+    type: 'enum',
+    options: ['production', 'staging'],
+    required: false,
+    createdAt: '2024-01-10T09:00:00.000Z',
+    updatedAt: '2024-01-10T09:00:00.000Z',
+  };
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockRepository = new TodoCustomFieldsRepository(
+      mockLogger as any,
+      {} as any
+    ) as jest.Mocked<TodoCustomFieldsRepository>;
+    mockRepository.list.mockResolvedValue([]);
+    mockRepository.getByKey.mockResolvedValue(environmentField);
+    mockRepository.create.mockImplementation(async (_client, key, document) => ({
+      key,
+      label: document.label,
+      type: document.type,
+      options: document.options,
+      required: document.required,
+      createdAt: document.created_at,
+      updatedAt: document.updated_at,
+    }));
+    service = new TodoCustomFieldsService(mockLogger as any, mockRepository);
+  });
+  describe('create', () => {
+    it('should store a normalized definition under its key', async () => {
+      const field = await service.create(
+        mockClient,
+        { key: 'ticket', label: '  Ticket  ', type: 'text', required: true },
+        admin
+      );
+      expect(mockRepository.create).toHaveBeenCalledWith(
+        mockClient,
+        'ticket',
+        expect.objectContaining({ label: 'Ticket', type: 'text', options: [], required: true })
+      );
+      expect(field.key).toBe('ticket');
+    });
+    it('should deduplicate and trim enum options', async () => {
+      await service.create(
+        mockClient,
+        { key: 'environment', label: 'Environment', type: 'enum', options: [' prod ', 'prod', 'dev'] },
+        admin
+      );
+      expect(mockRepository.create).toHaveBeenCalledWith(
+        mockClient,
+        'environment',
+        expect.objectContaining({ options: ['prod', 'dev'] })
+      );
+    });
+    it('should reject users without an admin role', async () => {
+      await expect(
+        service.create(mockClient, { key: 'ticket', label: 'Ticket', type: 'text' }, analyst)
+      ).rejects.toThrow(ForbiddenError);
+      expect(mockRepository.create).not.toHaveBeenCalled();
+    });
+    it('should accept backend roles configured as admin roles', async () => {
+      service = new TodoCustomFieldsService(mockLogger as any, mockRepository, ['todo_admin']);
+      await service.create(
+        mockClient,
+        { key: 'ticket', label: 'Ticket', type: 'text' },
+        { username: 'carol', roles: ['todo_admin'] }
+      );
+      expect(mockRepository.create).toHaveBeenCalled();
+    });
+    it('should reject a user whose lookup failed', async () => {
+      await expect(
+        service.create(
+          mockClient,
+          { key: 'ticket', label: 'Ticket', type: 'text' },
+          { username: UNKNOWN_ACTOR, roles: [] }
+        )
+      ).rejects.toThrow(ForbiddenError);
+      expect(mockRepository.create).not.toHaveBeenCalled();
+    });
+    it('should allow anyone when security is disabled', async () => {
+      service = new TodoCustomFieldsService(mockLogger as any, mockRepository, ['todo_admin'], false);
+      await service.create(
+        mockClient,
+        { key: 'ticket', label: 'Ticket', type: 'text' },
+        { username: UNKNOWN_ACTOR, roles: [] }
+      );
+      expect(mockRepository.create).toHaveBeenCalled();
+    });
+    it.each([
+      ['an invalid key', { key: 'Ticket-ID', label: 'Ticket', type: 'text' }],
+      ['an empty label', { key: 'ticket', label: ' ', type: 'text' }],
+      ['an unknown type', { key: 'ticket', label: 'Ticket', type: 'url' }],
+      ['an enum without options', { key: 'env', label: 'Env', type: 'enum', options: [] }],
+      ['options on a text field', { key: 'ticket', label: 'Ticket', type: 'text', options: ['a'] }],
+    ])('should reject %s', async (_name, request) => {
+      await expect(service.create(mockClient, request as any, admin)).rejects.toThrow(
+        ValidationError
+      );
+      expect(mockRepository.create).not.toHaveBeenCalled();
+    });
+    it('should reject a new field once the maximum is reached', async () => {
+      mockRepository.list.mockResolvedValue(
+        Array.from({ length: MAX_TODO_CUSTOM_FIELDS }, (_, i) => ({
+          ...environmentField,
+          key: `field_${i}`,
+        }))
+      );
+      await expect(
+        service.create(mockClient, { key: 'ticket', label: 'Ticket', type: 'text' }, admin)
+      ).rejects.toThrow(BusinessRuleError);
+    });
+  });
+  describe('update', () => {
+    it('should merge the changes into the existing definition', async () => {
+      const field = await service.update(
+        mockClient,
+        'environment',
+        { label: 'Deployment environment', options: ['production', 'staging', 'dev'] },
+        admin
+      );
+      expect(mockRepository.update).toHaveBeenCalledWith(
+        mockClient,
+        'environment',
+        expect.objectContaining({
+          label: 'Deployment environment',
+          options: ['production', 'staging', 'dev'],
+        })
+      );
+      expect(field).toMatchObject({
+        key: 'environment',
+        type: 'enum',
+        label: 'Deployment environment',
+        required: false,
+      });
+    });
+    it('should validate options against the stored type', async () => {
+      mockRepository.getByKey.mockResolvedValue({ ...environmentField, type: 'number', options: undefined });
+      await expect(
+        service.update(mockClient, 'environment', { options: ['a'] }, admin)
+      ).rejects.toThrow(ValidationError);
+      expect(mockRepository.update).not.toHaveBeenCalled();
+    });
+    it('should reject users without an admin role', async () => {
+      await expect(
+        service.update(mockClient, 'environment', { required: true }, analyst)
+      ).rejects.toThrow(ForbiddenError);
+    });
+  });
+  describe('delete', () => {
+    it('should delete the definition', async () => {
+      mockRepository.delete.mockResolvedValue(true);
+      await expect(service.delete(mockClient, 'environment', admin)).resolves.toBe(true);
+      expect(mockRepository.delete).toHaveBeenCalledWith(mockClient, 'environment');
+    });
+    it('should reject users without an admin role', async () => {
+      await expect(service.delete(mockClient, 'environment', analyst)).rejects.toThrow(
+        ForbiddenError
+      );
+      expect(mockRepository.delete).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,104 @@
+import { TodoExportMapper } from '../mappers/todo_export.mapper';
+import { Todo } from '../../common';
+describe('TodoExportMapper', () => {
+  const todo: Todo = {
+    id: 'todo-1',
+    title: 'Patch "log4j", urgently',
+    description: 'First line\nSecond line',
+    status: 'planned',
+    tags: ['security', 'java'],
+    priority: 'high',
+    severity: 'critical',
+    complianceFrameworks: ['PCI-DSS'],
+    createdAt: '2024-01-15T10:00:00.000Z',
+    updatedAt: '2024-01-15T10:00:00.000Z',
+    completedAt: null,
+    custom: { ticket: 'SEC-42', cost: 1200 },
+  };
+  async function* batches(...lists: Todo[][]) {
+    for (const list of lists) {
+      yield list;
+    }
+  }
+  const read = async (chunks: AsyncIterable<string>) => {
+    let text = '';
+    for await (const chunk of chunks) {
+      text += chunk;
+    }
+    return text;
+  };
+  describe('escapeCsvField', () => {
+    it.each([
+      ['plain', 'plain'],
+      ['a,b', '"a,b"'],
+      ['say "hi"', '"say ""hi"""'],
+      ['line\nbreak', '"line\nbreak"'],
+      ['carriage\rreturn', '"carriage\rreturn"'],
+      ['', ''],
+      ['=HYPERLINK("http://x")', '"\'=HYPERLINK(""http://x"")"'],
+      ['+1', "'+1"],
+      ['-cmd', "'-cmd"],
+      ['@SUM(A1)', "'@SUM(A1)"],
+      ['\tindented', "'\tindented"],
+      ['\rreturn', '"\'\rreturn"'],
+      ['-12.5', '-12.5'],
+    ])('should escape %j as %j', (field, expected) => {
+      expect(TodoExportMapper.escapeCsvField(field)).toBe(expected);
+    });
+  });
+  describe('getColumnValue', () => {
+    it('should read built-in and custom columns', () => {
+      expect(TodoExportMapper.getColumnValue(todo, 'title')).toBe(todo.title);
+      expect(TodoExportMapper.getColumnValue(todo, 'custom.cost')).toBe(1200);
+    });
+    it('should return null for missing values', () => {
+      expect(TodoExportMapper.getColumnValue(todo, 'assignee')).toBeNull();
+      expect(TodoExportMapper.getColumnValue(todo, 'completedAt')).toBeNull();
+      expect(TodoExportMapper.getColumnValue(todo, 'custom.environment')).toBeNull();
+    });
+  });
+  describe('serialize', () => {
+    const columns = ['id', 'title', 'description', 'tags', 'assignee', 'custom.ticket'];
+    it('should write RFC 4180 CSV with a header row and CRLF line endings', async () => {
+      const text = await read(TodoExportMapper.serialize(batches([todo]), 'csv', columns));
+      expect(text).toBe(
+        'id,title,description,tags,assignee,custom.ticket\r\n' +
+          'todo-1,"Patch ""log4j"", urgently","First line\nSecond line",security; java,,SEC-42\r\n'
+      );
+    });
+    it('should write only the header for an empty CSV export', async () => {
+      const text = await read(TodoExportMapper.serialize(batches(), 'csv', ['id', 'title']));
+      expect(text).toBe('id,title\r\n');
+    });
+    it('should write one JSON object per line for NDJSON', async () => {
+      const text = await read(
+        TodoExportMapper.serialize(batches([todo], [{ ...todo, id: 'todo-2' }]), 'ndjson', [
+          'id',
+          'tags',
+          'custom.ticket',
+        ])
+      );
+      const lines = text.trimEnd().split('\n');
+      expect(lines.map((line) => JSON.parse(line))).toEqual([
+        { id: 'todo-1', tags: ['security', 'java'], custom: { ticket: 'SEC-42' } },
+        { id: 'todo-2', tags: ['security', 'java'], custom: { ticket: 'SEC-42' } },
+      ]);
+    });
+    it('should write a JSON array across batches', async () => {
+      const text = await read(
+        TodoExportMapper.serialize(batches([todo], [{ ...todo, id: 'todo-2' }]), 'json', [
+          'id',
+          'assignee',
+        ])
+      );
+      expect(JSON.parse(text)).toEqual([
+        { id: 'todo-1', assignee: null },
+        { id: 'todo-2', assignee: null },
+      ]);
+    });
+    it('should write an empty JSON array when nothing matches', async () => {
+      const text = await read(TodoExportMapper.serialize(batches(), 'json', ['id']));
+      expect(JSON.parse(text)).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,108 @@
+import { TodoImportMapper } from '../mappers/todo_import.mapper';
+import { TodoCustomFieldDefinition } from '../../common';
+describe('TodoImportMapper', () => {
+  const definition = (
+    key: string,
+    type: TodoCustomFieldDefinition['type'],
+    extra: Partial<TodoCustomFieldDefinition> = {}
+  ): TodoCustomFieldDefinition => ({
+    key,
+    label: key,
+    type,
+    required: false,
+    createdAt: '2024-01-10T09:00:00.000Z',
+    updatedAt: '2024-01-10T09:00:00.000Z',
+    ...extra,
+  });
+  describe('parseCsv', () => {
+    it('should read the header and rows with their line numbers', () => {
+      const table = TodoImportMapper.parseCsv(
+        'Title,Owner\r\nRotate keys,alice\r\n\r\n"Patch ""log4j"", now","bob"\r\n'
+      );
+      expect(table.columns).toEqual(['Title', 'Owner']);
+      expect(table.rows).toEqual([
+        { row: 1, line: 2, values: { Title: 'Rotate keys', Owner: 'alice' } },
+        { row: 2, line: 4, values: { Title: 'Patch "log4j", now', Owner: 'bob' } },
+      ]);
+    });
+    it('should keep line breaks in quoted fields and count them', () => {
+      const table = TodoImportMapper.parseCsv('title,description\n"A","one\ntwo"\nB,three');
+      expect(table.rows[0].values.description).toBe('one\ntwo');
+      expect(table.rows[1]).toMatchObject({ row: 2, line: 4, values: { title: 'B' } });
+    });
+    it('should leave missing trailing fields empty', () => {
+      const table = TodoImportMapper.parseCsv('title,assignee\nOnly title');
+      expect(table.rows[0].values).toEqual({ title: 'Only title', assignee: '' });
+    });
+    it('should reject an unterminated quoted field', () => {
+      expect(() => TodoImportMapper.parseCsv('title\nok\n"broken\n')).toThrow(
+        'Line 3: quoted field is not terminated'
+      );
+    });
+  });
+  describe('parseJson', () => {
+    it('should read an array and report the line each object starts on', () => {
+      const table = TodoImportMapper.parseJson(
+        '[\n  {"title": "A", "custom": {"ticket": "SEC-1"}},\n  {\n    "title": "B, \\"quoted\\""\n  }\n]'
+      );
+      expect(table.columns).toEqual(['title', 'custom.ticket']);
+      expect(table.rows).toEqual([
+        { row: 1, line: 2, values: { title: 'A', 'custom.ticket': 'SEC-1' } },
+        { row: 2, line: 3, values: { title: 'B, "quoted"' } },
+      ]);
+    });
+    it('should read NDJSON', () => {
+      const table = TodoImportMapper.parseJson('{"title":"A"}\n\n{"title":"B"}\n');
+      expect(table.rows.map((row) => row.line)).toEqual([1, 3]);
+    });
+    it('should reject malformed JSON and rows that are not objects', () => {
+      expect(() => TodoImportMapper.parseJson('{"title":"A"}\n{oops}')).toThrow(/^Line 2/);
+      expect(() => TodoImportMapper.parseJson('[{"title":"A"}, 42]')).toThrow(
+        'Line 1: expected an object'
+      );
+    });
+  });
+  describe('toCreateRequest', () => {
+    const customFields = [
+      definition('cost', 'number'),
+      definition('pci_scope', 'boolean'),
+      definition('environment', 'enum', { options: ['Production', 'Staging'] }),
+    ];
+    it('should convert mapped cells and skip empty ones', () => {
+      const request = TodoImportMapper.toCreateRequest(
+        {
+          Summary: '  Rotate keys ',
+          State: 'In Progress',
+          Labels: 'security; java,,',
+          Due: '2024-03-01',
+          Owner: '',
+          Ignored: 'x',
+        },
+        { Summary: 'title', State: 'status', Labels: 'tags', Due: 'dueDate', Owner: 'assignee' },
+        []
+      );
+      expect(request).toEqual({
+        title: 'Rotate keys',
+        status: 'in_progress',
+        tags: ['security', 'java'],
+        dueDate: '2024-03-01T00:00:00.000Z',
+      });
+    });
+    it('should convert custom values to the field type', () => {
+      const request = TodoImportMapper.toCreateRequest(
+        { title: 'A', cost: '1200.5', pci: 'Yes', env: 'production' },
+        { title: 'title', cost: 'custom.cost', pci: 'custom.pci_scope', env: 'custom.environment' },
+        customFields
+      );
+      expect(request.custom).toEqual({ cost: 1200.5, pci_scope: true, environment: 'Production' });
+    });
+    it('should pass through values that cannot be converted', () => {
+      const request = TodoImportMapper.toCreateRequest(
+        { title: 'A', cost: 'lots', due: 'soon' },
+        { title: 'title', cost: 'custom.cost', due: 'dueDate' },
+        customFields
+      );
+      expect(request).toMatchObject({ dueDate: 'soon', custom: { cost: 'lots' } });
+    });
+  });
+});
@@ -0,0 +1,126 @@
+import { TodoOscalMapper } from '../mappers/todo_oscal.mapper';
+import { ComplianceCoverageStats, Todo, OSCAL_TODO_NAMESPACE } from '../../common';
+describe('TodoOscalMapper', () => {
+  const now = '2024-03-01T12:00:00.000Z';
+  const coverage: ComplianceCoverageStats = {
+    framework: 'PCI-DSS',
+    total: 10,
+    byStatus: { planned: 3, in_progress: 2, done: 4, error: 1 },
+    completionRate: 40,
+  };
+  const todo: Todo = {
+    id: 'todo-1',
+    title: 'Rotate cardholder data keys',
+    description: 'Keys have not been rotated this year',
+    status: 'planned',
+    tags: [],
+    assignee: 'alice',
+    priority: 'high',
+    severity: 'critical',
+    dueDate: '2024-04-01T00:00:00.000Z',
+    complianceFrameworks: ['PCI-DSS'],
+    createdAt: '2024-01-15T10:00:00.000Z',
+    updatedAt: '2024-01-15T10:00:00.000Z',
+    completedAt: null,
+  };
+  const other: Todo = {
+    ...todo,
+    id: 'todo-2',
+    title: 'Review firewall rules',
+    description: undefined,
+    status: 'error',
+    statusReason: 'Change window missed',
+    assignee: undefined,
+    dueDate: undefined,
+  };
+  const UUID = /^[0-9a-f]{8}-[0-9a-f]{4}-5[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/;
+  describe('toPoamDocument', () => {
+    it('should describe the framework and its coverage in the metadata', () => {
+      const { metadata } = TodoOscalMapper.toPoamDocument(coverage, [todo], now)[
+        'plan-of-action-and-milestones'
+      ];
+      expect(metadata).toMatchObject({
+        title: 'Plan of Action and Milestones: PCI-DSS',
+        'last-modified': now,
+        'oscal-version': '1.1.2',
+      });
+      expect(metadata.props).toEqual([
+        { name: 'compliance-framework', value: 'PCI-DSS', ns: OSCAL_TODO_NAMESPACE },
+        { name: 'total-todos', value: '10', ns: OSCAL_TODO_NAMESPACE },
+        { name: 'open-todos', value: '6', ns: OSCAL_TODO_NAMESPACE },
+        { name: 'completion-rate', value: '40', ns: OSCAL_TODO_NAMESPACE },
+      ]);
+      expect(metadata.parties).toEqual([
+        { uuid: expect.stringMatching(UUID), type: 'person', name: 'alice' },
+      ]);
+    });
+    it('should link each POA&M item to the risk of the same TODO', () => {
+      const poam = TodoOscalMapper.toPoamDocument(coverage, [todo, other], now)[
+        'plan-of-action-and-milestones'
+      ];
+      expect(poam.risks).toHaveLength(2);
+      expect(poam['poam-items'].map((item) => item['related-risks'][0]['risk-uuid'])).toEqual(
+        poam.risks.map((risk) => risk.uuid)
+      );
+    });
+    it('should keep item UUIDs stable between exports and change the document UUID', () => {
+      const first = TodoOscalMapper.toPoamDocument(coverage, [todo], now)[
+        'plan-of-action-and-milestones'
+      ];
+      const second = TodoOscalMapper.toPoamDocument(coverage, [todo], now)[
+        'plan-of-action-and-milestones'
+      ];
+      expect(first['poam-items'][0].uuid).toMatch(UUID);
+      expect(second['poam-items'][0].uuid).toBe(first['poam-items'][0].uuid);
+      expect(second['system-id'].id).toBe(first['system-id'].id);
+      expect(second.uuid).not.toBe(first.uuid);
+    });
+    it('should leave out parties when no TODO is assigned', () => {
+      const { metadata } = TodoOscalMapper.toPoamDocument(coverage, [other], now)[
+        'plan-of-action-and-milestones'
+      ];
+      expect(metadata).not.toHaveProperty('parties');
+    });
+  });
+  describe('toRisk', () => {
+    it('should carry the severity, status and due date of the TODO', () => {
+      expect(TodoOscalMapper.toRisk(todo)).toMatchObject({
+        title: 'Rotate cardholder data keys',
+        description: 'Keys have not been rotated this year',
+        statement: 'Keys have not been rotated this year',
+        status: 'open',
+        deadline: '2024-04-01T00:00:00.000Z',
+        props: [
+          { name: 'severity', value: 'critical' },
+          { name: 'priority', value: 'high' },
+        ],
+      });
+    });
+    it('should report a TODO in error as under investigation', () => {
+      const risk = TodoOscalMapper.toRisk(other);
+      expect(risk).toMatchObject({
+        description: 'Review firewall rules',
+        statement: 'Change window missed',
+        status: 'investigating',
+      });
+      expect(risk).not.toHaveProperty('deadline');
+    });
+  });
+  describe('toPoamItem', () => {
+    it('should list the status, severity, assignee and due date', () => {
+      expect(TodoOscalMapper.toPoamItem(todo).props.map(({ name, value }) => [name, value]))
+        .toEqual([
+          ['todo-id', 'todo-1'],
+          ['status', 'planned'],
+          ['severity', 'critical'],
+          ['priority', 'high'],
+          ['assignee', 'alice'],
+          ['due-date', '2024-04-01T00:00:00.000Z'],
+        ]);
+    });
+    it('should leave out the assignee and due date when the TODO has none', () => {
+      const names = TodoOscalMapper.toPoamItem(other).props.map(({ name }) => name);
+      expect(names).toEqual(['todo-id', 'status', 'severity', 'priority']);
+    });
+  });
+});
@@ -0,0 +1,141 @@
+import {
+  parseTodoQuery,
+  getTodoQueryDateRange,
+  getTodoQueryCompletions,
+} from '../../common/todo/todo.query';
+
+describe('todo.query', () => {
+  describe('parseTodoQuery', () => {
+    it('should parse field clauses, negations and free text', () => {
+      const query = parseTodoQuery(
+        'status:in_progress priority:critical tag:network -assignee:bob due<2026-11-01 firewall'
+      );
+
+      expect(query.errors).toEqual([]);
+      expect(query.clauses).toEqual([
+        { field: 'status', operator: ':', value: 'in_progress', negated: false },
+        { field: 'priority', operator: ':', value: 'critical', negated: false },
+        { field: 'tag', operator: ':', value: 'network', negated: false },
+        { field: 'assignee', operator: ':', value: 'bob', negated: true },
+        { field: 'due', operator: '<', value: '2026-11-01', negated: false },
+      ]);
+      expect(query.terms).toEqual([{ text: 'firewall', negated: false, phrase: false }]);
+    });
+
+    it('should read quoted values and phrases', () => {
+      const query = parseTodoQuery('assignee:"Ana Lopez" -"legacy vpn" "http://intranet"');
+
+      expect(query.errors).toEqual([]);
+      expect(query.clauses).toEqual([
+        { field: 'assignee', operator: ':', value: 'Ana Lopez', negated: false },
+      ]);
+      expect(query.terms).toEqual([
+        { text: 'legacy vpn', negated: true, phrase: true },
+        { text: 'http://intranet', negated: false, phrase: true },
+      ]);
+    });
+
+    it('should keep words with an unknown field name as free text', () => {
+      const query = parseTodoQuery('http://intranet/login CVE:2024-1234 -owner:bob 10:30');
+
+      expect(query.errors).toEqual([]);
+      expect(query.clauses).toEqual([]);
+      expect(query.terms).toEqual([
+        { text: 'http://intranet/login', negated: false, phrase: false },
+        { text: 'CVE:2024-1234', negated: false, phrase: false },
+        { text: 'owner:bob', negated: true, phrase: false },
+        { text: '10:30', negated: false, phrase: false },
+      ]);
+    });
+
+    it('should lowercase values of fixed lists', () => {
+      const query = parseTodoQuery('Status:DONE overdue:TRUE');
+
+      expect(query.clauses).toEqual([
+        { field: 'status', operator: ':', value: 'done', negated: false },
+        { field: 'overdue', operator: ':', value: 'true', negated: false },
+      ]);
+    });
+
+    it('should keep words ending with a colon and lone dashes as free text', () => {
+      const query = parseTodoQuery('Note: rotate keys - now');
+
+      expect(query.errors).toEqual([]);
+      expect(query.terms.map((term) => term.text)).toEqual(['Note:', 'rotate', 'keys', '-', 'now']);
+    });
+
+    it('should report errors with their position', () => {
+      const input = 'priority:urgent due>soon status<done tag:';
+      const query = parseTodoQuery(input);
+
+      expect(query.clauses).toEqual([]);
+      expect(
+        query.errors.map((error) => [error.message, input.slice(error.start, error.end)])
+      ).toEqual([
+        [expect.stringContaining("Invalid priority 'urgent'"), 'priority:urgent'],
+        ["Invalid date 'soon' for 'due'. Use YYYY-MM-DD", 'due>soon'],
+        ["'status' cannot be compared with '<'. Use 'status:'", 'status<done'],
+        ["Missing value for 'tag'", 'tag:'],
+      ]);
+    });
+
+    it('should reject impossible dates and unclosed quotes', () => {
+      expect(parseTodoQuery('due:2026-02-30').errors).toHaveLength(1);
+      expect(parseTodoQuery('created>=2026-02-01T08:00:00Z').errors).toEqual([]);
+      expect(parseTodoQuery('firewall "legacy vpn').errors).toEqual([
+        { message: 'Missing closing quote', start: 9, end: 20 },
+      ]);
+    });
+  });
+
+  describe('getTodoQueryDateRange', () => {
+    const range = (operator: ':' | '<' | '<=' | '>' | '>=', value: string) =>
+      getTodoQueryDateRange({ field: 'due', operator, value, negated: false });
+
+    it('should treat a date as the whole day', () => {
+      expect(range(':', '2026-11-01')).toEqual({
+        gte: '2026-11-01T00:00:00.000Z',
+        lt: '2026-11-02T00:00:00.000Z',
+      });
+      expect(range('<', '2026-11-01')).toEqual({ lt: '2026-11-01T00:00:00.000Z' });
+      expect(range('<=', '2026-11-01')).toEqual({ lt: '2026-11-02T00:00:00.000Z' });
+      expect(range('>', '2026-11-01')).toEqual({ gte: '2026-11-02T00:00:00.000Z' });
+      expect(range('>=', '2026-11-01')).toEqual({ gte: '2026-11-01T00:00:00.000Z' });
+    });
+
+    it('should compare timestamps exactly', () => {
+      expect(range('<=', '2026-11-01T12:00:00Z')).toEqual({ lte: '2026-11-01T12:00:00.000Z' });
+      expect(range('>', '2026-11-01T12:00:00Z')).toEqual({ gt: '2026-11-01T12:00:00.000Z' });
+    });
+  });
+
+  describe('getTodoQueryCompletions', () => {
+    it('should suggest fields for the last word', () => {
+      expect(getTodoQueryCompletions('firewall -pri')).toEqual([
+        { label: 'priority:', description: 'Priority', query: 'firewall -priority:' },
+      ]);
+      expect(getTodoQueryCompletions('c').map((completion) => completion.label)).toEqual([
+        'created:',
+        'completed:',
+      ]);
+    });
+
+    it('should suggest values of fixed lists', () => {
+      expect(getTodoQueryCompletions('status:in')).toEqual([
+        { label: 'status:in_progress', description: 'Status', query: 'status:in_progress ' },
+      ]);
+      expect(getTodoQueryCompletions('overdue:').map((completion) => completion.label)).toEqual([
+        'overdue:true',
+        'overdue:false',
+      ]);
+    });
+
+    it('should not suggest anything for free text, keywords or complete words', () => {
+      expect(getTodoQueryCompletions('')).toEqual([]);
+      expect(getTodoQueryCompletions('firewall ')).toEqual([]);
+      expect(getTodoQueryCompletions('assignee:b')).toEqual([]);
+      expect(getTodoQueryCompletions('status:done')).toEqual([]);
+      expect(getTodoQueryCompletions('"stat')).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,122 @@
+import { TodoReportMapper, TodoReportData } from '../mappers/todo_report.mapper';
+describe('TodoReportMapper', () => {
+  const data: TodoReportData = {
+    generatedAt: '2024-03-01T12:00:00.000Z',
+    complianceFramework: 'PCI-DSS',
+    createdAfter: '2024-02-01T00:00:00.000Z',
+    createdBefore: '2024-02-29T23:59:59.999Z',
+    timeInterval: 'week',
+    analytics: {
+      computedAt: '2024-03-01T12:00:00.000Z',
+      totalTasks: 12,
+      complianceCoverage: [
+        {
+          framework: 'PCI-DSS',
+          total: 12,
+          byStatus: { planned: 4, in_progress: 3, done: 4, error: 1 },
+          completionRate: 33.33,
+        },
+        {
+          framework: 'Team <A> | B',
+          total: 2,
+          byStatus: { planned: 2, in_progress: 0, done: 0, error: 0 },
+          completionRate: 0,
+        },
+      ],
+      overdueTasks: {
+        total: 3,
+        byPriority: { low: 0, medium: 1, high: 0, critical: 2 },
+        bySeverity: { info: 0, low: 0, medium: 1, high: 2, critical: 0 },
+      },
+      priorityDistribution: [],
+      severityDistribution: [],
+      prioritySeverityMatrix: [
+        { priority: 'critical', severity: 'high', count: 2, percentage: 16.67 },
+        { priority: 'low', severity: 'info', count: 5, percentage: 41.67 },
+      ],
+    },
+    stats: {
+      total: 12,
+      byStatus: { planned: 4, in_progress: 3, done: 4, error: 1 },
+      topTags: [],
+      completedOverTime: [
+        { date: '2024-02-05T00:00:00.000Z', count: 1 },
+        { date: '2024-02-12T00:00:00.000Z', count: 0 },
+        { date: '2024-02-19T00:00:00.000Z', count: 3 },
+      ],
+      topAssignees: [],
+      unassignedCount: 2,
+    },
+  };
+  describe('render as Markdown', () => {
+    const markdown = TodoReportMapper.render(data, 'markdown');
+    it('should describe the framework and period', () => {
+      expect(markdown).toContain('# Compliance Status Report\n');
+      expect(markdown).toContain('Framework: PCI-DSS  \n');
+      expect(markdown).toContain('TODOs created: 2024-02-01 to 2024-02-29  \n');
+    });
+    it('should render the coverage as a table with right-aligned numbers', () => {
+      expect(markdown).toContain(
+        [
+          '| Framework | Total | Planned | In progress | Done | Error | Completion |',
+          '| --- | ---: | ---: | ---: | ---: | ---: | ---: |',
+          '| PCI-DSS | 12 | 4 | 3 | 4 | 1 | 33.33% |',
+        ].join('\n')
+      );
+    });
+    it('should escape table separators and HTML in values', () => {
+      expect(markdown).toContain('| Team &lt;A> \\| B | 2 |');
+    });
+    it('should show overdue TODOs by priority and severity', () => {
+      expect(markdown).toContain('3 open TODOs are past their due date.');
+      expect(markdown).toContain('| Critical | 2 | 0 |');
+      expect(markdown).toContain('| Info | - | 0 |');
+    });
+    it('should fill the priority-severity matrix', () => {
+      expect(markdown).toContain('| Priority | Critical | High | Medium | Low | Info |');
+      expect(markdown).toContain('| Critical | 0 | 2 | 0 | 0 | 0 |');
+      expect(markdown).toContain('| Low | 0 | 0 | 0 | 0 | 5 |');
+    });
+    it('should list the completion trend per interval', () => {
+      expect(markdown).toContain('TODOs completed per week.');
+      expect(markdown).toContain('| 2024-02-19 | 3 |');
+    });
+  });
+  describe('render as HTML', () => {
+    const html = TodoReportMapper.render(data, 'html');
+    it('should produce a self-contained document', () => {
+      expect(html.startsWith('<!DOCTYPE html>')).toBe(true);
+      expect(html).toContain('<style>');
+      expect(html).not.toMatch(/<script|<link|src=/);
+    });
+    it('should escape values', () => {
+      expect(html).toContain('<td>Team &lt;A&gt; | B</td>');
+      expect(html).not.toContain('<A>');
+    });
+    it('should right-align numeric columns', () => {
+      expect(html).toContain('<td>PCI-DSS</td><td class="num">12</td>');
+    });
+  });
+  describe('render without data', () => {
+    const empty: TodoReportData = {
+      ...data,
+      complianceFramework: undefined,
+      createdAfter: undefined,
+      createdBefore: undefined,
+      analytics: {
+        ...data.analytics,
+        complianceCoverage: [],
+        overdueTasks: { ...data.analytics.overdueTasks, total: 0 },
+      },
+      stats: { ...data.stats, completedOverTime: [{ date: '2024-02-05T00:00:00.000Z', count: 0 }] },
+    };
+    const markdown = TodoReportMapper.render(empty, 'markdown');
+    it('should explain empty sections instead of rendering empty tables', () => {
+      expect(markdown).toContain('Framework: All frameworks  \n');
+      expect(markdown).toContain('TODOs created: All time  \n');
+      expect(markdown).toContain('No TODOs are linked to a compliance framework.');
+      expect(markdown).toContain('No TODOs were completed in this period.');
+      expect(markdown).not.toContain('| Level |');
+    });
+  });
+});
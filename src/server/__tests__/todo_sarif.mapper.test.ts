@@ -0,0 +1,152 @@
+import { TodoSarifMapper } from '../mappers/todo_sarif.mapper';
+describe('TodoSarifMapper', () => {
+  const log = (runs: unknown[]) => JSON.stringify({ version: '2.1.0', runs });
+  const run = (results: unknown[] | undefined, extra: Record<string, unknown> = {}) => ({
+    tool: {
+      driver: {
+        name: 'CodeQL',
+        semanticVersion: '2.15.0',
+        rules: [
+          {
+            id: 'js/sql-injection',
+            shortDescription: { text: 'Database query built from user-controlled sources' },
+            helpUri: 'https://codeql.github.com/js/sql-injection',
+            defaultConfiguration: { level: 'error' },
+            messageStrings: { default: { text: 'Query depends on {0}.' } },
+            properties: { tags: ['Security', 'external/cwe/cwe-089', 'security'] },
+          },
+        ],
+      },
+    },
+    invocations: [{ endTimeUtc: '2024-03-01T12:00:00Z' }],
+    ...(results && { results }),
+    ...extra,
+  });
+  const result = (extra: Record<string, unknown> = {}) => ({
+    ruleId: 'js/sql-injection',
+    ruleIndex: 0,
+    message: { text: 'This query depends on a user-provided value.\nSee the data flow.' },
+    locations: [
+      {
+        physicalLocation: {
+          artifactLocation: { uri: 'src/db.js' },
+          region: { startLine: 42, snippet: { text: 'db.query(sql)' } },
+        },
+      },
+    ],
+    ...extra,
+  });
+  describe('parse', () => {
+    it('should read the tool, run time and findings of each run', () => {
+      const [parsed] = TodoSarifMapper.parse(
+        log([run([result()], { automationDetails: { id: 'backend/' } })])
+      );
+      expect(parsed).toMatchObject({
+        tool: 'CodeQL',
+        toolVersion: '2.15.0',
+        category: 'backend/',
+        time: '2024-03-01T12:00:00.000Z',
+        complete: true,
+      });
+      expect(parsed.findings).toEqual([
+        expect.objectContaining({
+          result: 0,
+          ruleId: 'js/sql-injection',
+          level: 'error',
+          location: 'src/db.js:42',
+          ruleDescription: 'Database query built from user-controlled sources',
+          tags: ['security', 'external/cwe/cwe-089'],
+        }),
+      ]);
+    });
+    it('should skip passing and suppressed results', () => {
+      const [parsed] = TodoSarifMapper.parse(
+        log([
+          run([
+            result({ kind: 'pass' }),
+            result({ suppressions: [{ kind: 'inSource' }] }),
+            result({ suppressions: [{ kind: 'external', status: 'rejected' }] }),
+          ]),
+        ])
+      );
+      expect(parsed.findings.map((finding) => finding.result)).toEqual([2]);
+    });
+    it('should fill in rule message strings and default the level to warning', () => {
+      const [parsed] = TodoSarifMapper.parse(
+        log([
+          run([
+            result({ ruleId: 'js/other', ruleIndex: undefined, message: { text: 'Plain' } }),
+            result({ message: { id: 'default', arguments: ['req.query'] } }),
+          ]),
+        ])
+      );
+      expect(parsed.findings[0].level).toBe('warning');
+      expect(parsed.findings[1]).toMatchObject({
+        level: 'error',
+        message: 'Query depends on req.query.',
+      });
+    });
+    it('should keep the fingerprint stable when the line moves', () => {
+      const moved = result();
+      (moved.locations[0].physicalLocation.region as { startLine: number }).startLine = 50;
+      const [first] = TodoSarifMapper.parse(log([run([result()])]));
+      const [second] = TodoSarifMapper.parse(log([run([moved])]));
+      expect(first.findings[0].fingerprint).toMatch(/^[0-9a-f]{64}$/);
+      expect(second.findings[0].fingerprint).toBe(first.findings[0].fingerprint);
+    });
+    it('should prefer the fingerprints reported by the tool', () => {
+      const [parsed] = TodoSarifMapper.parse(
+        log([
+          run([
+            result({ partialFingerprints: { primaryLocationLineHash: 'abc:1' } }),
+            result({
+              message: { text: 'Other message' },
+              partialFingerprints: { primaryLocationLineHash: 'abc:1' },
+            }),
+          ]),
+        ])
+      );
+      expect(parsed.findings[1].fingerprint).toBe(parsed.findings[0].fingerprint);
+    });
+    it('should mark a run without results as incomplete', () => {
+      const [parsed] = TodoSarifMapper.parse(log([run(undefined)]));
+      expect(parsed).toMatchObject({ complete: false, findings: [] });
+    });
+    it.each([
+      ['malformed JSON', '{"version": "2.1.0"'],
+      ['another SARIF version', JSON.stringify({ version: '2.0.0', runs: [] })],
+      ['a log without runs', JSON.stringify({ version: '2.1.0' })],
+      ['a run without a tool name', log([{ tool: { driver: {} }, results: [] }])],
+    ])('should reject %s', (_name, content) => {
+      expect(() => TodoSarifMapper.parse(content)).toThrow(SyntaxError);
+    });
+  });
+  describe('toCreateRequest', () => {
+    it('should put the rule and location in the title and description', () => {
+      const [parsed] = TodoSarifMapper.parse(log([run([result()])]));
+      const request = TodoSarifMapper.toCreateRequest(parsed.findings[0], parsed);
+      expect(request).toEqual({
+        title: 'js/sql-injection: This query depends on a user-provided value.',
+        description: [
+          'This query depends on a user-provided value.\nSee the data flow.',
+          [
+            'Rule: js/sql-injection - Database query built from user-controlled sources',
+            'Location: src/db.js:42',
+            'Tool: CodeQL 2.15.0',
+            'Help: https://codeql.github.com/js/sql-injection',
+          ].join('\n'),
+        ].join('\n\n'),
+        severity: 'high',
+        tags: ['security', 'external/cwe/cwe-089'],
+      });
+    });
+    it('should shorten a long title to 256 characters', () => {
+      const [parsed] = TodoSarifMapper.parse(
+        log([run([result({ message: { text: 'x'.repeat(300) } })])])
+      );
+      const request = TodoSarifMapper.toCreateRequest(parsed.findings[0], parsed);
+      expect(request.title).toHaveLength(256);
+      expect(request.title.endsWith('…')).toBe(true);
+    });
+  });
+});
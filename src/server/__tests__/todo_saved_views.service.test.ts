@@ -0,0 +1,219 @@
+import { TodoSavedViewsService } from '../services/todo_saved_views.service';
+import { TodoSavedViewsRepository, TodoOpenSearchClient } from '../repositories';
+import {
+  ValidationError,
+  BusinessRuleError,
+  ConflictError,
+  ForbiddenError,
+  NotFoundError,
+} from '../errors';
+import { TodoSavedView, MAX_TODO_SAVED_VIEWS, UNKNOWN_ACTOR } from '../../common';
+jest.mock('../repositories/todo_saved_views.repository');
+const mockLogger = {
+  debug: jest.fn(),
+  info: jest.fn(),
+  warn: jest.fn(),
+  error: jest.fn(),
+  trace: jest.fn(),
+  fatal: jest.fn(),
+  get: jest.fn().mockReturnThis(),
+};
+const mockClient = {} as TodoOpenSearchClient;
+describe('TodoSavedViewsService', () => {
+  let service: TodoSavedViewsService;
+  let mockRepository: jest.Mocked<TodoSavedViewsRepository>;
+  const morningView: TodoSavedView = {
+    id: 'view-1',
+    name: 'My critical overdue',
+    owner: 'alice',
+    shared: false,
+    filters: { severity: ['critical'], isOverdue: true },
+    sortField: 'dueDate',
+    sortDirection: 'asc',
+    tab: 'table',
+    createdAt: '2024-01-10T09:00:00.000Z',
+    updatedAt: '2024-01-10T09:00:00.000Z',
+  };
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockRepository = new TodoSavedViewsRepository(
+      mockLogger as any,
+      {} as any
+    ) as jest.Mocked<TodoSavedViewsRepository>;
+    mockRepository.list.mockResolvedValue([]);
+    mockRepository.getById.mockResolvedValue(morningView);
+    mockRepository.create.mockImplementation(async (_client, document) => ({
+      id: 'view-2',
+      name: document.name,
+      owner: document.owner,
+      shared: document.shared,
+      filters: document.filters,
+      sortField: document.sort_field,
+      sortDirection: document.sort_direction,
+      tab: document.tab,
+      createdAt: document.created_at,
+      updatedAt: document.updated_at,
+    }));
+    service = new TodoSavedViewsService(mockLogger as any, mockRepository);
+  });
+  describe('list', () => {
+    it('should list the views visible to the user', async () => {
+      mockRepository.list.mockResolvedValue([morningView]);
+      await expect(service.list(mockClient, 'alice')).resolves.toEqual([morningView]);
+      expect(mockRepository.list).toHaveBeenCalledWith(mockClient, 'alice');
+    });
+    it('should list only shared views when the user cannot be determined', async () => {
+      const sharedView = { ...morningView, id: 'view-2', owner: 'bob', shared: true };
+      mockRepository.list.mockResolvedValue([
+        { ...morningView, owner: UNKNOWN_ACTOR },
+        sharedView,
+      ]);
+      await expect(service.list(mockClient, UNKNOWN_ACTOR)).resolves.toEqual([sharedView]);
+    });
+    it('should list all views of the unknown user when security is disabled', async () => {
+      service = new TodoSavedViewsService(mockLogger as any, mockRepository, false);
+      const ownView = { ...morningView, owner: UNKNOWN_ACTOR };
+      mockRepository.list.mockResolvedValue([ownView]);
+      await expect(service.list(mockClient, UNKNOWN_ACTOR)).resolves.toEqual([ownView]);
+    });
+  });
+  describe('create', () => {
+    it('should store a normalized view for its owner', async () => {
+      const view = await service.create(
+        mockClient,
+        {
+          name: '  HIPAA  ',
+          filters: { searchText: ' ', tags: [' hipaa ', 'hipaa'], status: [], isOverdue: false },
+          tab: 'kanban',
+        },
+        'alice'
+      );
+      expect(mockRepository.create).toHaveBeenCalledWith(
+        mockClient,
+        expect.objectContaining({
+          name: 'HIPAA',
+          owner: 'alice',
+          shared: false,
+          filters: { tags: ['hipaa'] },
+          sort_field: 'createdAt',
+          sort_direction: 'desc',
+          tab: 'kanban',
+        })
+      );
+      expect(view).toMatchObject({ id: 'view-2', name: 'HIPAA', owner: 'alice' });
+    });
+    it('should throw ForbiddenError when the user cannot be determined', async () => {
+      await expect(
+        service.create(mockClient, { name: 'HIPAA' }, UNKNOWN_ACTOR)
+      ).rejects.toThrow(ForbiddenError);
+      expect(mockRepository.create).not.toHaveBeenCalled();
+    });
+    it('should save views of the unknown user when security is disabled', async () => {
+      service = new TodoSavedViewsService(mockLogger as any, mockRepository, false);
+      await expect(
+        service.create(mockClient, { name: 'HIPAA' }, UNKNOWN_ACTOR)
+      ).resolves.toMatchObject({ owner: UNKNOWN_ACTOR });
+    });
+    it('should reject a name the user already uses, ignoring case', async () => {
+      mockRepository.list.mockResolvedValue([morningView]);
+      await expect(
+        service.create(mockClient, { name: 'my CRITICAL overdue' }, 'alice')
+      ).rejects.toThrow(ConflictError);
+      expect(mockRepository.list).toHaveBeenCalledWith(mockClient, 'alice', false);
+      expect(mockRepository.create).not.toHaveBeenCalled();
+    });
+    it('should reject a new view once the maximum is reached', async () => {
+      mockRepository.list.mockResolvedValue(
+        Array.from({ length: MAX_TODO_SAVED_VIEWS }, (_, i) => ({
+          ...morningView,
+          id: `view-${i}`,
+          name: `View ${i}`,
+        }))
+      );
+      await expect(service.create(mockClient, { name: 'One more' }, 'alice')).rejects.toThrow(
+        BusinessRuleError
+      );
+    });
+    it.each([
+      ['an empty name', { name: ' ' }],
+      ['an unknown status', { name: 'View', filters: { status: ['blocked'] } }],
+      ['an invalid date', { name: 'View', filters: { dueDateBefore: 'next week' } }],
+      ['an unknown tab', { name: 'View', tab: 'board' }],
+    ])('should reject %s', async (_name, request) => {
+      await expect(service.create(mockClient, request as any, 'alice')).rejects.toThrow(
+        ValidationError
+      );
+      expect(mockRepository.create).not.toHaveBeenCalled();
+    });
+  });
+  describe('update', () => {
+    it('should merge the changes into the existing view', async () => {
+      const view = await service.update(
+        mockClient,
+        'view-1',
+        { shared: true, filters: { severity: ['critical', 'high'] } },
+        'alice'
+      );
+      expect(mockRepository.update).toHaveBeenCalledWith(
+        mockClient,
+        'view-1',
+        expect.objectContaining({ shared: true, filters: { severity: ['critical', 'high'] } })
+      );
+      expect(view).toMatchObject({
+        name: 'My critical overdue',
+        shared: true,
+        filters: { severity: ['critical', 'high'] },
+        sortField: 'dueDate',
+      });
+    });
+    it('should allow keeping the name of the view being changed', async () => {
+      mockRepository.list.mockResolvedValue([morningView]);
+      await service.update(mockClient, 'view-1', { name: 'My Critical Overdue' }, 'alice');
+      expect(mockRepository.update).toHaveBeenCalled();
+    });
+    it('should reject changes to a view shared by another user', async () => {
+      mockRepository.getById.mockResolvedValue({ ...morningView, shared: true });
+      await expect(
+        service.update(mockClient, 'view-1', { name: 'Mine now' }, 'bob')
+      ).rejects.toThrow(ForbiddenError);
+      expect(mockRepository.update).not.toHaveBeenCalled();
+    });
+    it('should throw ForbiddenError when the user cannot be determined', async () => {
+      mockRepository.getById.mockResolvedValue({ ...morningView, owner: UNKNOWN_ACTOR });
+      await expect(
+        service.update(mockClient, 'view-1', { shared: true }, UNKNOWN_ACTOR)
+      ).rejects.toThrow(ForbiddenError);
+      expect(mockRepository.update).not.toHaveBeenCalled();
+    });
+    it('should not reveal private views of other users', async () => {
+      await expect(
+        service.update(mockClient, 'view-1', { shared: true }, 'bob')
+      ).rejects.toThrow(NotFoundError);
+    });
+  });
+  describe('delete', () => {
+    it('should delete the view of its owner', async () => {
+      mockRepository.delete.mockResolvedValue(true);
+      await expect(service.delete(mockClient, 'view-1', 'alice')).resolves.toBe(true);
+      expect(mockRepository.delete).toHaveBeenCalledWith(mockClient, 'view-1');
+    });
+    it('should reject deleting a view shared by another user', async () => {
+      mockRepository.getById.mockResolvedValue({ ...morningView, shared: true });
+      await expect(service.delete(mockClient, 'view-1', 'bob')).rejects.toThrow(ForbiddenError);
+      expect(mockRepository.delete).not.toHaveBeenCalled();
+    });
+    it('should throw ForbiddenError when the user cannot be determined', async () => {
+      mockRepository.getById.mockResolvedValue({ ...morningView, owner: UNKNOWN_ACTOR });
+      await expect(service.delete(mockClient, 'view-1', UNKNOWN_ACTOR)).rejects.toThrow(
+        ForbiddenError
+      );
+      expect(mockRepository.delete).not.toHaveBeenCalled();
+    });
+    it('should let the unknown user delete their views when security is disabled', async () => {
+      service = new TodoSavedViewsService(mockLogger as any, mockRepository, false);
+      mockRepository.getById.mockResolvedValue({ ...morningView, owner: UNKNOWN_ACTOR });
+      mockRepository.delete.mockResolvedValue(true);
+      await expect(service.delete(mockClient, 'view-1', UNKNOWN_ACTOR)).resolves.toBe(true);
+    });
+  });
+});
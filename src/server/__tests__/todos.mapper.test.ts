@@ -83,6 +83,57 @@ describe('TodosMapper', () => {
       const result = TodosMapper.fromOpenSearchHit(hit);
       expect(result.tags).toEqual([]);
     });
+    it('should derive a version token from _seq_no and _primary_term', () => {
+      const hit: OpenSearchHit<TodoDocument> = {
+        _id: 'test-789',
+        _seq_no: 12,
+        _primary_term: 3,
+        _source: {
+          title: 'Test',
+          status: 'planned',
+          tags: [],
+          priority: 'medium',
+          severity: 'low',
+          due_date: null,
+          compliance_framework: [],
+          created_at: '2024-01-15T10:00:00.000Z',
+          updated_at: '2024-01-15T10:00:00.000Z',
+          completed_at: null,
+        },
+      };
+      const result = TodosMapper.fromOpenSearchHit(hit);
+      expect(result.version).toBeDefined();
+      expect(TodosMapper.decodeVersion(result.version!)).toEqual({ seqNo: 12, primaryTerm: 3 });
+    });
+    it('should leave version undefined when sequence information is missing', () => {
+      const hit: OpenSearchHit<TodoDocument> = {
+        _id: 'test-789',
+        _source: {
+          title: 'Test',
+          status: 'planned',
+          tags: [],
+          priority: 'medium',
+          severity: 'low',
+          due_date: null,
+          compliance_framework: [],
+          created_at: '2024-01-15T10:00:00.000Z',
+          updated_at: '2024-01-15T10:00:00.000Z',
+          completed_at: null,
+        },
+      };
+      expect(TodosMapper.fromOpenSearchHit(hit).version).toBeUndefined();
+    });
+  });
+  describe('decodeVersion', () => {
+    it('should round-trip an encoded version', () => {
+      const version = TodosMapper.encodeVersion(0, 1)!;
+      expect(TodosMapper.decodeVersion(version)).toEqual({ seqNo: 0, primaryTerm: 1 });
+    });
+    it('should return null for malformed tokens', () => {
+      expect(TodosMapper.decodeVersion('not-a-version')).toBeNull();
+      expect(TodosMapper.decodeVersion(Buffer.from('[1]').toString('base64'))).toBeNull();
+      expect(TodosMapper.decodeVersion(Buffer.from('["a",1]').toString('base64'))).toBeNull();
+    });
   });
   describe('fromOpenSearchHits', () => {
     it('should map multiple hits to Todo entities', () => {
@@ -384,6 +435,32 @@ describe('TodosMapper', () => {
       expect(result).toEqual(['PCI-DSS', 'pci-dss']);
     });
   });
+  describe('custom values', () => {
+    it('should trim text values and clear empty ones', () => {
+      const result = TodosMapper.normalizeCustomValues({
+        ticket: '  SEC-42  ',
+        notes: '   ',
+        cost: 0,
+        pci_scope: false,
+        environment: null,
+      });
+      expect(result).toEqual({
+        ticket: 'SEC-42',
+        notes: null,
+        cost: 0,
+        pci_scope: false,
+        environment: null,
+      });
+    });
+    it('should drop cleared values when reading a document', () => {
+      const result = TodosMapper.toCustomValues({ ticket: 'SEC-42', cost: null, pci_scope: false });
+      expect(result).toEqual({ ticket: 'SEC-42', pci_scope: false });
+    });
+    it('should return undefined when no custom value is set', () => {
+      expect(TodosMapper.toCustomValues({ cost: null })).toBeUndefined();
+      expect(TodosMapper.toCustomValues(undefined)).toBeUndefined();
+    });
+  });
   describe('toTodoStats', () => {
     it('should map aggregations to TodoStats', () => {
       const aggregations: OpenSearchStatsAggregations = {
@@ -1,7 +1,8 @@
 import { TodosRepository, TodoOpenSearchClient, TodoSearchParams } from '../repositories/todos.repository';
 import { IndexManager } from '../repositories/index_manager';
 import { Todo } from '../../common/todo/todo.types';
-import { NotFoundError, IndexError } from '../errors';
+import { NotFoundError, IndexError, ConflictError } from '../errors';
+import { TodosMapper } from '../mappers';
 
 const mockLogger = {
   debug: jest.fn(),
@@ -35,6 +36,9 @@ describe('TodosRepository', () => {
       update: jest.fn(),
       delete: jest.fn(),
       search: jest.fn(),
+      mget: jest.fn(),
+      bulk: jest.fn(),
+      updateByQuery: jest.fn(),
     } as any;
 
     repository = new TodosRepository(mockLogger as any, mockIndexManager, 'test-index');
@@ -519,6 +523,587 @@ describe('TodosRepository', () => {
     });
   });
 
+  describe('update with optimistic concurrency', () => {
+    it('should pass if_seq_no and if_primary_term when a version is given', async () => {
+      mockClient.update.mockResolvedValue({
+        body: { result: 'updated', _seq_no: 6, _primary_term: 1 },
+      } as any);
+
+      const version = await repository.update(
+        mockClient,
+        'todo-1',
+        { title: 'New' },
+        TodosMapper.encodeVersion(5, 1)
+      );
+
+      expect(mockClient.update).toHaveBeenCalledWith(
+        expect.objectContaining({ id: 'todo-1', if_seq_no: 5, if_primary_term: 1 })
+      );
+      expect(version).toBe(TodosMapper.encodeVersion(6, 1));
+    });
+
+    it('should not send concurrency parameters without a version', async () => {
+      mockClient.update.mockResolvedValue({ body: { result: 'updated' } } as any);
+
+      await repository.update(mockClient, 'todo-1', { title: 'New' });
+
+      const params = mockClient.update.mock.calls[0][0];
+      expect(params).not.toHaveProperty('if_seq_no');
+      expect(params).not.toHaveProperty('if_primary_term');
+    });
+
+    it('should throw ConflictError on a version conflict', async () => {
+      mockClient.update.mockRejectedValue({
+        meta: { statusCode: 409 },
+        body: { error: { type: 'version_conflict_engine_exception' } },
+      });
+
+      await expect(
+        repository.update(mockClient, 'todo-1', { title: 'New' }, TodosMapper.encodeVersion(5, 1))
+      ).rejects.toThrow(ConflictError);
+    });
+
+    it('should request sequence numbers when searching', async () => {
+      mockClient.search.mockResolvedValue({
+        body: { hits: { hits: [], total: { value: 0 } } },
+      } as any);
+
+      await repository.search(mockClient, {});
+
+      expect(mockClient.search).toHaveBeenCalledWith(
+        expect.objectContaining({
+          body: expect.objectContaining({ seq_no_primary_term: true }),
+        })
+      );
+    });
+  });
+
+  describe('bulk operations', () => {
+    const document = {
+      title: 'Bulk TODO',
+      status: 'planned' as const,
+      tags: [],
+      priority: 'medium' as const,
+      severity: 'low' as const,
+      due_date: null,
+      compliance_framework: [],
+      created_at: MOCK_NOW.toISOString(),
+      updated_at: MOCK_NOW.toISOString(),
+      completed_at: null,
+    };
+
+    it('should return found TODOs keyed by id from getByIds', async () => {
+      mockClient.mget.mockResolvedValue({
+        body: {
+          docs: [
+            { _id: 'todo-1', found: true, _source: document, _seq_no: 1, _primary_term: 1 },
+            { _id: 'todo-2', found: false },
+          ],
+        },
+      } as any);
+
+      const todos = await repository.getByIds(mockClient, ['todo-1', 'todo-2']);
+
+      expect(mockClient.mget).toHaveBeenCalledWith({
+        index: 'test-index',
+        body: { ids: ['todo-1', 'todo-2'] },
+      });
+      expect([...todos.keys()]).toEqual(['todo-1']);
+      expect(todos.get('todo-1')?.version).toBe(TodosMapper.encodeVersion(1, 1));
+    });
+
+    it('should build a _bulk body for create, update and delete operations', async () => {
+      mockClient.bulk.mockResolvedValue({
+        body: {
+          errors: false,
+          items: [
+            { index: { _id: 'new-id', status: 201, _seq_no: 0, _primary_term: 1 } },
+            { update: { _id: 'todo-1', status: 200, _seq_no: 6, _primary_term: 1 } },
+            { delete: { _id: 'todo-2', status: 200 } },
+          ],
+        },
+      } as any);
+
+      const results = await repository.bulk(mockClient, [
+        { type: 'create', document },
+        {
+          type: 'update',
+          id: 'todo-1',
+          document: { title: 'Renamed' },
+          expectedVersion: TodosMapper.encodeVersion(5, 1),
+        },
+        { type: 'delete', id: 'todo-2' },
+      ]);
+
+      expect(mockClient.bulk).toHaveBeenCalledWith({
+        refresh: 'wait_for',
+        body: [
+          { index: { _index: 'test-index' } },
+          document,
+          { update: { _index: 'test-index', _id: 'todo-1', if_seq_no: 5, if_primary_term: 1 } },
+          { doc: { title: 'Renamed' } },
+          { delete: { _index: 'test-index', _id: 'todo-2' } },
+        ],
+      });
+      expect(results).toEqual([
+        { success: true, id: 'new-id', version: TodosMapper.encodeVersion(0, 1) },
+        { success: true, id: 'todo-1', version: TodosMapper.encodeVersion(6, 1) },
+        { success: true, id: 'todo-2', version: undefined },
+      ]);
+    });
+
+    it('should map failed bulk items to application errors', async () => {
+      mockClient.bulk.mockResolvedValue({
+        body: {
+          errors: true,
+          items: [
+            {
+              update: {
+                _id: 'todo-1',
+                status: 409,
+                error: { type: 'version_conflict_engine_exception' },
+              },
+            },
+            { delete: { _id: 'todo-2', status: 404, result: 'not_found' } },
+            {
+              update: {
+                _id: 'todo-3',
+                status: 400,
+                error: { type: 'mapper_parsing_exception', reason: 'failed to parse' },
+              },
+            },
+          ],
+        },
+      } as any);
+
+      const results = await repository.bulk(mockClient, [
+        { type: 'update', id: 'todo-1', document: { title: 'A' } },
+        { type: 'delete', id: 'todo-2' },
+        { type: 'update', id: 'todo-3', document: { title: 'C' } },
+      ]);
+
+      expect(results.map((result) => result.success)).toEqual([false, false, false]);
+      expect((results[0] as any).error).toBeInstanceOf(ConflictError);
+      expect((results[1] as any).error).toBeInstanceOf(NotFoundError);
+      expect((results[2] as any).error).toBeInstanceOf(IndexError);
+      expect((results[2] as any).error.message).toContain('failed to parse');
+    });
+
+    it('should throw IndexError when the bulk request fails', async () => {
+      mockClient.bulk.mockRejectedValue(new Error('cluster unavailable'));
+
+      await expect(repository.bulk(mockClient, [{ type: 'delete', id: 'todo-1' }])).rejects.toThrow(
+        IndexError
+      );
+    });
+  });
+
+  describe('update by query', () => {
+    it('should count matching TODOs with exact totals', async () => {
+      mockClient.search.mockResolvedValue({
+        body: { hits: { total: { value: 12345, relation: 'eq' }, hits: [] } },
+      } as any);
+
+      const count = await repository.count(mockClient, { tags: ['network'] });
+
+      expect(count).toBe(12345);
+      const searchCall = mockClient.search.mock.calls[0][0];
+      expect(searchCall.body).toMatchObject({
+        size: 0,
+        track_total_hits: true,
+        query: { bool: { filter: [{ term: { tags: 'network' } }] } },
+      });
+    });
+
+    it('should run a painless script with the patch document over the search query', async () => {
+      mockClient.updateByQuery.mockResolvedValue({
+        body: { total: 3, updated: 2, version_conflicts: 1, failures: [] },
+      } as any);
+      const document = { assignee: 'alice', updated_at: MOCK_NOW.toISOString() };
+
+      const result = await repository.updateByQuery(mockClient, { assignee: 'bob' }, document);
+
+      expect(result).toEqual({ total: 3, updated: 2, versionConflicts: 1, failures: 0 });
+      const call = mockClient.updateByQuery.mock.calls[0][0];
+      expect(call).toMatchObject({
+        index: 'test-index',
+        refresh: true,
+        conflicts: 'proceed',
+        body: {
+          query: { bool: { filter: [{ term: { assignee: 'bob' } }] } },
+          script: { lang: 'painless', params: { doc: document } },
+        },
+      });
+    });
+
+    it('should throw IndexError when update by query fails', async () => {
+      mockClient.updateByQuery.mockRejectedValue(new Error('script error'));
+
+      await expect(repository.updateByQuery(mockClient, {}, { priority: 'high' })).rejects.toThrow(
+        IndexError
+      );
+    });
+  });
+
+  describe('subtasks', () => {
+    it('should filter search results by parent ID', async () => {
+      mockClient.search.mockResolvedValue({
+        body: { hits: { hits: [], total: { value: 0 } } },
+      } as any);
+
+      await repository.search(mockClient, { parentId: 'parent-1' });
+
+      const searchCall = mockClient.search.mock.calls[0][0];
+      expect(searchCall.body.query.bool.filter).toContainEqual({
+        term: { parent_id: 'parent-1' },
+      });
+    });
+
+    it('should count total and done subtasks per parent', async () => {
+      mockClient.search.mockResolvedValue({
+        body: {
+          aggregations: {
+            by_parent: {
+              buckets: [
+                { key: 'parent-1', doc_count: 3, done: { doc_count: 2 } },
+                { key: 'parent-2', doc_count: 1, done: { doc_count: 0 } },
+              ],
+            },
+          },
+        },
+      } as any);
+
+      const counts = await repository.getChildCounts(mockClient, ['parent-1', 'parent-2', 'leaf']);
+
+      expect(counts.get('parent-1')).toEqual({ total: 3, done: 2 });
+      expect(counts.get('parent-2')).toEqual({ total: 1, done: 0 });
+      expect(counts.has('leaf')).toBe(false);
+      const searchCall = mockClient.search.mock.calls[0][0];
+      expect(searchCall.body).toMatchObject({
+        size: 0,
+        query: { terms: { parent_id: ['parent-1', 'parent-2', 'leaf'] } },
+      });
+    });
+
+    it('should not query OpenSearch when no parent IDs are given', async () => {
+      const counts = await repository.getChildCounts(mockClient, []);
+
+      expect(counts.size).toBe(0);
+      expect(mockClient.search).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('blockers', () => {
+    it('should find referenced blockers that are not done', async () => {
+      mockClient.search
+        .mockResolvedValueOnce({
+          body: {
+            aggregations: { blockers: { buckets: [{ key: 'blocker-1' }, { key: 'blocker-2' }] } },
+          },
+        } as any)
+        .mockResolvedValueOnce({
+          body: { hits: { hits: [{ _id: 'blocker-2' }], total: { value: 1 } } },
+        } as any);
+
+      const openIds = await repository.getOpenBlockerIds(mockClient);
+
+      expect(openIds).toEqual(['blocker-2']);
+      const openCall = mockClient.search.mock.calls[1][0];
+      expect(openCall.body.query.bool).toEqual({
+        filter: [{ ids: { values: ['blocker-1', 'blocker-2'] } }],
+        must_not: [{ term: { status: 'done' } }],
+      });
+    });
+
+    it('should skip the second query when nothing is blocked', async () => {
+      mockClient.search.mockResolvedValue({
+        body: { aggregations: { blockers: { buckets: [] } } },
+      } as any);
+
+      const openIds = await repository.getOpenBlockerIds(mockClient);
+
+      expect(openIds).toEqual([]);
+      expect(mockClient.search).toHaveBeenCalledTimes(1);
+    });
+
+    it('should filter blocked and unblocked TODOs by their open blockers', async () => {
+      mockClient.search.mockResolvedValue({
+        body: { hits: { hits: [], total: { value: 0 } } },
+      } as any);
+
+      await repository.search(mockClient, { isBlocked: true, openBlockerIds: ['blocker-1'] });
+      await repository.search(mockClient, { isBlocked: false, openBlockerIds: ['blocker-1'] });
+
+      const blockedQuery = mockClient.search.mock.calls[0][0].body.query.bool;
+      const unblockedQuery = mockClient.search.mock.calls[1][0].body.query.bool;
+      expect(blockedQuery.filter).toContainEqual({ terms: { blocked_by: ['blocker-1'] } });
+      expect(unblockedQuery.must_not).toContainEqual({ terms: { blocked_by: ['blocker-1'] } });
+    });
+  });
+
+  describe('custom fields', () => {
+    beforeEach(() => {
+      mockClient.search.mockResolvedValue({
+        body: { hits: { hits: [], total: { value: 0 } } },
+      } as any);
+    });
+
+    it('should filter custom fields by exact value and range', async () => {
+      await repository.search(mockClient, {
+        customFilters: [
+          { key: 'environment', operator: 'eq', value: 'production' },
+          { key: 'cost', operator: 'gte', value: 1000 },
+          { key: 'cost', operator: 'lte', value: 5000 },
+        ],
+      });
+
+      const query = mockClient.search.mock.calls[0][0].body.query.bool;
+      expect(query.filter).toEqual([
+        { term: { 'custom.environment': 'production' } },
+        { range: { 'custom.cost': { gte: 1000 } } },
+        { range: { 'custom.cost': { lte: 5000 } } },
+      ]);
+    });
+
+    it('should sort by a custom field with missing values last', async () => {
+      await repository.search(mockClient, { sortField: 'custom.cost', sortDirection: 'asc' });
+
+      expect(mockClient.search.mock.calls[0][0].body.sort).toEqual([
+        { 'custom.cost': { order: 'asc', missing: '_last', unmapped_type: 'keyword' } },
+      ]);
+    });
+
+    it('should sort by rank with unranked TODOs last', async () => {
+      await repository.search(mockClient, { sortField: 'rank', sortDirection: 'asc' });
+
+      expect(mockClient.search.mock.calls[0][0].body.sort).toEqual([
+        { rank: { order: 'asc', missing: '_last' } },
+      ]);
+    });
+  });
+
+  describe('search query', () => {
+    beforeEach(() => {
+      mockClient.search.mockResolvedValue({
+        body: { hits: { hits: [], total: { value: 0 } } },
+      } as any);
+    });
+
+    it('should filter by the field clauses of the query', async () => {
+      await repository.search(mockClient, {
+        queryClauses: [
+          { field: 'status', operator: ':', value: 'planned', negated: false },
+          { field: 'status', operator: ':', value: 'in_progress', negated: false },
+          { field: 'priority', operator: ':', value: 'critical', negated: false },
+          { field: 'tag', operator: ':', value: 'Network', negated: false },
+          { field: 'tag', operator: ':', value: 'pci', negated: false },
+          { field: 'due', operator: '<', value: '2026-11-01', negated: false },
+        ],
+      });
+
+      const query = mockClient.search.mock.calls[0][0].body.query.bool;
+      expect(query.filter).toEqual([
+        { term: { tags: 'network' } },
+        { term: { tags: 'pci' } },
+        { range: { due_date: { lt: '2026-11-01T00:00:00.000Z' } } },
+        { terms: { status: ['planned', 'in_progress'] } },
+        { term: { priority: 'critical' } },
+      ]);
+    });
+
+    it('should match quoted phrases as phrases', async () => {
+      await repository.search(mockClient, {
+        searchText: 'firewall',
+        phrases: ['change window'],
+      });
+
+      const query = mockClient.search.mock.calls[0][0].body.query.bool;
+      expect(query.must).toEqual([
+        expect.objectContaining({ multi_match: expect.objectContaining({ query: 'firewall' }) }),
+        {
+          multi_match: {
+            query: 'change window',
+            fields: ['title^2', 'description'],
+            type: 'phrase',
+          },
+        },
+      ]);
+    });
+
+    it('should exclude negated clauses and text', async () => {
+      await repository.search(mockClient, {
+        searchText: 'firewall',
+        excludedText: ['legacy vpn'],
+        queryClauses: [
+          { field: 'assignee', operator: ':', value: 'bob', negated: true },
+          { field: 'completed', operator: ':', value: '2026-10-01', negated: true },
+        ],
+      });
+
+      const query = mockClient.search.mock.calls[0][0].body.query.bool;
+      expect(query.must_not).toEqual([
+        { multi_match: { query: 'legacy vpn', fields: ['title', 'description'], type: 'phrase' } },
+        { term: { assignee: 'bob' } },
+        {
+          range: {
+            completed_at: { gte: '2026-10-01T00:00:00.000Z', lt: '2026-10-02T00:00:00.000Z' },
+          },
+        },
+      ]);
+    });
+
+    it('should include or exclude overdue TODOs', async () => {
+      await repository.search(mockClient, {
+        queryClauses: [{ field: 'overdue', operator: ':', value: 'false', negated: false }],
+      });
+
+      const query = mockClient.search.mock.calls[0][0].body.query.bool;
+      expect(query.filter).toBeUndefined();
+      expect(query.must_not).toEqual([
+        {
+          bool: {
+            must: [{ range: { due_date: { lt: 'now' } } }, { exists: { field: 'due_date' } }],
+            must_not: [{ term: { status: 'done' } }],
+          },
+        },
+      ]);
+    });
+  });
+
+  describe('scan', () => {
+    const hit = (id: string, sort: unknown[]) => ({
+      _id: id,
+      _source: {
+        title: `TODO ${id}`,
+        status: 'planned',
+        tags: [],
+        priority: 'medium',
+        severity: 'low',
+        due_date: null,
+        compliance_framework: [],
+        created_at: '2024-01-15T10:00:00.000Z',
+        updated_at: '2024-01-15T10:00:00.000Z',
+        completed_at: null,
+      },
+      sort,
+    });
+
+    const collect = async (batches: AsyncIterable<Todo[]>) => {
+      const result: Todo[][] = [];
+      for await (const batch of batches) {
+        result.push(batch);
+      }
+      return result;
+    };
+
+    it('should page through every match with search_after', async () => {
+      mockClient.search
+        .mockResolvedValueOnce({
+          body: { hits: { hits: [hit('a', [1, 'a']), hit('b', [2, 'b'])], total: { value: 3 } } },
+        } as any)
+        .mockResolvedValueOnce({
+          body: { hits: { hits: [hit('c', [3, 'c'])], total: { value: 3 } } },
+        } as any);
+
+      const batches = await collect(
+        repository.scan(mockClient, { status: ['planned'], sortField: 'createdAt' }, 2)
+      );
+
+      expect(batches.map((batch) => batch.map((todo) => todo.id))).toEqual([['a', 'b'], ['c']]);
+      expect(mockClient.search).toHaveBeenCalledTimes(2);
+      const firstBody = mockClient.search.mock.calls[0][0].body;
+      expect(firstBody.size).toBe(2);
+      expect(firstBody.search_after).toBeUndefined();
+      expect(firstBody.seq_no_primary_term).toBe(true);
+      expect(firstBody.sort).toEqual([
+        { created_at: { order: 'desc' } },
+        { _id: { order: 'asc' } },
+      ]);
+      expect(firstBody.query.bool.filter).toContainEqual({ term: { status: 'planned' } });
+      expect(mockClient.search.mock.calls[1][0].body.search_after).toEqual([2, 'b']);
+    });
+
+    it('should stop after an empty batch', async () => {
+      mockClient.search
+        .mockResolvedValueOnce({
+          body: { hits: { hits: [hit('a', [1, 'a']), hit('b', [2, 'b'])], total: { value: 2 } } },
+        } as any)
+        .mockResolvedValueOnce({
+          body: { hits: { hits: [], total: { value: 2 } } },
+        } as any);
+
+      const batches = await collect(repository.scan(mockClient, {}, 2));
+
+      expect(batches).toHaveLength(1);
+      expect(mockClient.search).toHaveBeenCalledTimes(2);
+    });
+
+    it('should throw IndexError when a batch cannot be read', async () => {
+      mockClient.search.mockRejectedValue(new Error('Connection failed'));
+
+      await expect(collect(repository.scan(mockClient, {}))).rejects.toThrow(IndexError);
+    });
+  });
+
+  describe('searchByStatus', () => {
+    const hits = (ids: string[], total: number) => ({
+      body: {
+        hits: {
+          hits: ids.map((id) => ({
+            _id: id,
+            _source: {
+              title: `TODO ${id}`,
+              status: 'planned',
+              tags: [],
+              priority: 'medium',
+              severity: 'low',
+              compliance_framework: [],
+              created_at: '2024-01-15T10:00:00.000Z',
+              updated_at: '2024-01-15T10:00:00.000Z',
+              completed_at: null,
+            },
+          })),
+          total: { value: total },
+        },
+      },
+    });
+
+    it('should run one search per status in board order', async () => {
+      mockClient.search
+        .mockResolvedValueOnce(hits(['a', 'b'], 25) as any)
+        .mockResolvedValueOnce(hits([], 0) as any);
+
+      const results = await repository.searchByStatus(
+        mockClient,
+        { tags: ['pci'], status: 'error', sortField: 'title' },
+        ['planned', 'done'],
+        20,
+        2
+      );
+
+      expect(results.map((result) => result.total)).toEqual([25, 0]);
+      expect(results[0].todos.map((todo) => todo.id)).toEqual(['a', 'b']);
+      const [first, second] = mockClient.search.mock.calls.map((call) => call[0].body);
+      expect(first).toMatchObject({ from: 20, size: 2, track_total_hits: true });
+      expect(first.sort).toEqual([
+        { rank: { order: 'asc', missing: '_last' } },
+        { created_at: { order: 'desc' } },
+        { _id: { order: 'asc' } },
+      ]);
+      expect(first.query.bool.filter).toContainEqual({ term: { status: 'planned' } });
+      expect(first.query.bool.filter).toContainEqual({ term: { tags: 'pci' } });
+      expect(second.query.bool.filter).toContainEqual({ term: { status: 'done' } });
+    });
+
+    it('should throw IndexError when a search fails', async () => {
+      mockClient.search.mockRejectedValue(new Error('Connection failed'));
+
+      await expect(
+        repository.searchByStatus(mockClient, {}, ['planned'], 0, 20)
+      ).rejects.toThrow(IndexError);
+    });
+  });
+
   describe('pagination with date filters', () => {
     it('should apply pagination with date filters', async () => {
       const searchParams: TodoSearchParams = {
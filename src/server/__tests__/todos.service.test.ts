@@ -1,8 +1,31 @@
 import { TodosService } from '../services/todos.service';
-import { TodosRepository, TodoOpenSearchClient } from '../repositories';
-import { ValidationError, NotFoundError } from '../errors';
-import { Todo, CreateTodoRequest, UpdateTodoRequest } from '../../common';
+import {
+  TodosRepository,
+  TodoAuditRepository,
+  TodoCommentsRepository,
+  TodoCustomFieldsRepository,
+  TodoOpenSearchClient,
+} from '../repositories';
+import {
+  ValidationError,
+  NotFoundError,
+  BusinessRuleError,
+  IndexError,
+  ConflictError,
+} from '../errors';
+import { TodosMapper, TodoSarifMapper } from '../mappers';
+import {
+  Todo,
+  CreateTodoRequest,
+  UpdateTodoRequest,
+  TodoCustomFieldDefinition,
+  TODO_EXPORT_COLUMNS,
+  MAX_BULK_ACTIONS,
+} from '../../common';
 jest.mock('../repositories/todos.repository');
+jest.mock('../repositories/todo_audit.repository');
+jest.mock('../repositories/todo_comments.repository');
+jest.mock('../repositories/todo_custom_fields.repository');
 const mockLogger = {
   debug: jest.fn(),
   info: jest.fn(),
@@ -36,6 +59,15 @@ describe('TodosService', () => {
       mockLogger as any,
       {} as any
     ) as jest.Mocked<TodosRepository>;
+    mockRepository.getChildCounts.mockResolvedValue(new Map());
+    mockRepository.getByIds.mockResolvedValue(new Map());
+    mockRepository.getOpenBlockerIds.mockResolvedValue([]);
+    mockRepository.updateByQuery.mockResolvedValue({
+      total: 0,
+      updated: 0,
+      versionConflicts: 0,
+      failures: 0,
+    });
     service = new TodosService(mockLogger as any, mockRepository);
   });
   describe('create', () => {
@@ -270,6 +302,36 @@ describe('TodosService', () => {
         expect(mockRepository.create).not.toHaveBeenCalled();
       });
     });
+    describe('Start Date Validation', () => {
+      it('should store the start date with the due date', async () => {
+        mockRepository.create.mockResolvedValue(sampleTodo);
+        await service.create(mockClient, {
+          title: 'Test TODO',
+          startDate: '2025-12-01T09:00:00.000Z',
+          dueDate: '2025-12-31T23:59:59.000Z',
+        });
+        expect(mockRepository.create.mock.calls[0][1]).toMatchObject({
+          start_date: '2025-12-01T09:00:00.000Z',
+          due_date: '2025-12-31T23:59:59.000Z',
+        });
+      });
+      it('should throw ValidationError for invalid start date format', async () => {
+        await expect(
+          service.create(mockClient, { title: 'Test', startDate: '2025-12-01' })
+        ).rejects.toThrow(ValidationError);
+        expect(mockRepository.create).not.toHaveBeenCalled();
+      });
+      it('should throw ValidationError when the start date is after the due date', async () => {
+        await expect(
+          service.create(mockClient, {
+            title: 'Test',
+            startDate: '2026-01-02T00:00:00.000Z',
+            dueDate: '2026-01-01T00:00:00.000Z',
+          })
+        ).rejects.toThrow('startDate must not be after dueDate');
+        expect(mockRepository.create).not.toHaveBeenCalled();
+      });
+    });
     describe('Compliance Frameworks Validation', () => {
       it('should create TODO with compliance frameworks', async () => {
         const request: CreateTodoRequest = {
@@ -432,6 +494,37 @@ describe('TodosService', () => {
         })
       );
     });
+    it('should split a search query into text, phrases, excluded text and field clauses', async () => {
+      mockRepository.search.mockResolvedValue({
+        todos: [],
+        total: 0,
+      });
+      await service.list(mockClient, {
+        searchText:
+          'priority:critical firewall -assignee:bob -"legacy vpn" "change window" rules',
+      });
+      expect(mockRepository.search).toHaveBeenCalledWith(
+        mockClient,
+        expect.objectContaining({
+          searchText: 'firewall rules',
+          phrases: ['change window'],
+          excludedText: ['legacy vpn'],
+          queryClauses: [
+            { field: 'priority', operator: ':', value: 'critical', negated: false },
+            { field: 'assignee', operator: ':', value: 'bob', negated: true },
+          ],
+        })
+      );
+    });
+    it('should throw ValidationError for a search query with a syntax error', async () => {
+      await expect(
+        service.list(mockClient, { searchText: 'firewall status:blocked' })
+      ).rejects.toMatchObject({
+        name: 'ValidationError',
+        details: { field: 'searchText', start: 9, end: 23 },
+      });
+      expect(mockRepository.search).not.toHaveBeenCalled();
+    });
     it('should apply sorting options', async () => {
       mockRepository.search.mockResolvedValue({
         todos: [],
@@ -577,10 +670,76 @@ describe('TodosService', () => {
       });
     });
   });
+  describe('board', () => {
+    const result = (todos: Todo[], total: number) => ({ todos, total });
+    it('should load every status column with its total', async () => {
+      mockRepository.searchByStatus.mockResolvedValue([
+        result([sampleTodo], 30),
+        result([], 0),
+        result([{ ...sampleTodo, id: 'done-1', status: 'done' }], 1),
+        result([], 0),
+      ]);
+      const board = await service.board(mockClient, { tags: ['test'] });
+      expect(mockRepository.searchByStatus).toHaveBeenCalledWith(
+        mockClient,
+        expect.objectContaining({ tags: ['test'] }),
+        ['planned', 'in_progress', 'done', 'error'],
+        0,
+        20
+      );
+      expect(board.columns.map((column) => [column.status, column.total])).toEqual([
+        ['planned', 30],
+        ['in_progress', 0],
+        ['done', 1],
+        ['error', 0],
+      ]);
+      expect(board.columns[2].todos.map((todo) => todo.id)).toEqual(['done-1']);
+    });
+    it('should load more of the filtered columns only', async () => {
+      mockRepository.searchByStatus.mockResolvedValue([result([sampleTodo], 30)]);
+      const board = await service.board(mockClient, {
+        status: 'planned',
+        offset: 20,
+        columnSize: 10,
+      });
+      expect(mockRepository.searchByStatus).toHaveBeenCalledWith(
+        mockClient,
+        expect.anything(),
+        ['planned'],
+        20,
+        10
+      );
+      expect(board.columns).toHaveLength(1);
+    });
+    it('should clamp the column size and offset', async () => {
+      mockRepository.searchByStatus.mockResolvedValue([]);
+      await service.board(mockClient, { status: [], offset: 50000, columnSize: 500 });
+      expect(mockRepository.searchByStatus).toHaveBeenCalledWith(
+        mockClient,
+        expect.anything(),
+        ['planned', 'in_progress', 'done', 'error'],
+        9900,
+        100
+      );
+    });
+    it('should enrich the TODOs of every column', async () => {
+      mockRepository.searchByStatus.mockResolvedValue([
+        result([sampleTodo], 1),
+        result([{ ...sampleTodo, id: 'child-parent', status: 'in_progress' }], 1),
+      ]);
+      mockRepository.getChildCounts.mockResolvedValue(
+        new Map([['child-parent', { total: 2, done: 1 }]])
+      );
+      const board = await service.board(mockClient, { status: ['planned', 'in_progress'] });
+      expect(mockRepository.getChildCounts).toHaveBeenCalledTimes(1);
+      expect(board.columns[0].todos[0].childProgress).toBeUndefined();
+      expect(board.columns[1].todos[0].childProgress).toMatchObject({ total: 2, done: 1 });
+    });
+  });
   describe('update', () => {
     it('should update TODO title', async () => {
       mockRepository.getById.mockResolvedValue(sampleTodo);
-      mockRepository.update.mockResolvedValue(true);
+      mockRepository.update.mockResolvedValue(undefined);
       const result = await service.update(mockClient, 'test-id-123', {
         title: 'Updated Title',
       });
@@ -588,31 +747,280 @@ describe('TodosService', () => {
       expect(mockRepository.update).toHaveBeenCalled();
     });
     it('should update TODO status to done and set completedAt', async () => {
-      mockRepository.getById.mockResolvedValue(sampleTodo);
-      mockRepository.update.mockResolvedValue(true);
+      mockRepository.getById.mockResolvedValue({ ...sampleTodo, status: 'in_progress' });
+      mockRepository.update.mockResolvedValue(undefined);
       const result = await service.update(mockClient, 'test-id-123', {
         status: 'done',
       });
       expect(result.status).toBe('done');
       expect(result.completedAt).not.toBeNull();
     });
-    it('should clear completedAt when status changes from done to planned', async () => {
+    it('should clear completedAt when status changes from done to in_progress', async () => {
       const completedTodo: Todo = {
         ...sampleTodo,
         status: 'done',
         completedAt: '2024-01-15T12:00:00.000Z',
       };
       mockRepository.getById.mockResolvedValue(completedTodo);
-      mockRepository.update.mockResolvedValue(true);
+      mockRepository.update.mockResolvedValue(undefined);
       const result = await service.update(mockClient, 'test-id-123', {
-        status: 'planned',
+        status: 'in_progress',
       });
-      expect(result.status).toBe('planned');
+      expect(result.status).toBe('in_progress');
       expect(result.completedAt).toBeNull();
     });
+    describe('Optimistic Concurrency', () => {
+      const currentVersion = TodosMapper.encodeVersion(4, 1)!;
+      const staleVersion = TodosMapper.encodeVersion(3, 1)!;
+      it('should apply the update when the version matches', async () => {
+        mockRepository.getById.mockResolvedValue({ ...sampleTodo, version: currentVersion });
+        mockRepository.update.mockResolvedValue(TodosMapper.encodeVersion(5, 1));
+        const result = await service.update(mockClient, 'test-id-123', {
+          title: 'Updated Title',
+          version: currentVersion,
+        });
+        expect(mockRepository.update).toHaveBeenCalledWith(
+          mockClient,
+          'test-id-123',
+          expect.objectContaining({ title: 'Updated Title' }),
+          currentVersion
+        );
+        expect(result.version).toBe(TodosMapper.encodeVersion(5, 1));
+      });
+      it('should throw ConflictError with the current TODO when the version is stale', async () => {
+        const current = { ...sampleTodo, title: 'Changed by someone else', version: currentVersion };
+        mockRepository.getById.mockResolvedValue(current);
+        await expect(
+          service.update(mockClient, 'test-id-123', { title: 'Mine', version: staleVersion })
+        ).rejects.toMatchObject({
+          statusCode: 409,
+          details: { expectedVersion: staleVersion, currentVersion, current },
+        });
+        expect(mockRepository.update).not.toHaveBeenCalled();
+      });
+      it('should throw ValidationError for a malformed version', async () => {
+        mockRepository.getById.mockResolvedValue({ ...sampleTodo, version: currentVersion });
+        await expect(
+          service.update(mockClient, 'test-id-123', { title: 'Mine', version: 'garbage' })
+        ).rejects.toThrow(ValidationError);
+      });
+      it('should reject a version-only update', async () => {
+        await expect(
+          service.update(mockClient, 'test-id-123', { version: currentVersion })
+        ).rejects.toThrow(ValidationError);
+      });
+    });
+    describe('Status Transitions', () => {
+      it('should reject a transition not allowed by the workflow', async () => {
+        mockRepository.getById.mockResolvedValue(sampleTodo);
+        await expect(
+          service.update(mockClient, 'test-id-123', { status: 'done' })
+        ).rejects.toThrow(BusinessRuleError);
+        expect(mockRepository.update).not.toHaveBeenCalled();
+      });
+      it('should only allow reopening a done TODO to in_progress', async () => {
+        mockRepository.getById.mockResolvedValue({
+          ...sampleTodo,
+          status: 'done',
+          completedAt: '2024-01-15T12:00:00.000Z',
+        });
+        await expect(
+          service.update(mockClient, 'test-id-123', { status: 'planned' })
+        ).rejects.toMatchObject({
+          statusCode: 422,
+          details: { currentStatus: 'done', requestedStatus: 'planned', allowedStatuses: ['in_progress'] },
+        });
+      });
+      it('should require a reason when moving to error', async () => {
+        mockRepository.getById.mockResolvedValue(sampleTodo);
+        await expect(
+          service.update(mockClient, 'test-id-123', { status: 'error', statusReason: '  ' })
+        ).rejects.toMatchObject({ details: { field: 'statusReason' } });
+        expect(mockRepository.update).not.toHaveBeenCalled();
+      });
+      it('should store the reason when moving to error', async () => {
+        mockRepository.getById.mockResolvedValue(sampleTodo);
+        mockRepository.update.mockResolvedValue(undefined);
+        const result = await service.update(mockClient, 'test-id-123', {
+          status: 'error',
+          statusReason: 'Vendor patch failed to install',
+        });
+        expect(result.status).toBe('error');
+        expect(result.statusReason).toBe('Vendor patch failed to install');
+        expect(mockRepository.update).toHaveBeenCalledWith(
+          mockClient,
+          'test-id-123',
+          expect.objectContaining({ status: 'error', status_reason: 'Vendor patch failed to install' }),
+          undefined
+        );
+      });
+      it('should not validate the transition when the status is unchanged', async () => {
+        mockRepository.getById.mockResolvedValue(sampleTodo);
+        mockRepository.update.mockResolvedValue(undefined);
+        const result = await service.update(mockClient, 'test-id-123', { status: 'planned' });
+        expect(result.status).toBe('planned');
+      });
+      it('should use the configured transition graph', async () => {
+        const permissive = new TodosService(mockLogger as any, mockRepository, {
+          enabled: true,
+          allowed: { planned: ['done'], in_progress: [], done: [], error: [] },
+          requireReason: [],
+        });
+        mockRepository.getById.mockResolvedValue(sampleTodo);
+        mockRepository.update.mockResolvedValue(undefined);
+        const result = await permissive.update(mockClient, 'test-id-123', { status: 'done' });
+        expect(result.status).toBe('done');
+        await expect(
+          permissive.update(mockClient, 'test-id-123', { status: 'in_progress' })
+        ).rejects.toThrow(BusinessRuleError);
+      });
+      it('should allow any transition when enforcement is disabled', async () => {
+        const unrestricted = new TodosService(mockLogger as any, mockRepository, {
+          enabled: false,
+          allowed: { planned: [], in_progress: [], done: [], error: [] },
+          requireReason: ['error'],
+        });
+        mockRepository.getById.mockResolvedValue(sampleTodo);
+        mockRepository.update.mockResolvedValue(undefined);
+        const result = await unrestricted.update(mockClient, 'test-id-123', { status: 'error' });
+        expect(result.status).toBe('error');
+      });
+    });
+    describe('WIP Limits', () => {
+      const limited = (enforce: boolean) =>
+        new TodosService(
+          mockLogger as any,
+          mockRepository,
+          undefined,
+          undefined,
+          undefined,
+          undefined,
+          { enforce, global: { in_progress: 2 }, perAssignee: { user1: { in_progress: 1 } } }
+        );
+      beforeEach(() => {
+        mockRepository.getById.mockResolvedValue(sampleTodo);
+        mockRepository.update.mockResolvedValue(undefined);
+      });
+      it('should not check limits that are not enforced', async () => {
+        const result = await limited(false).update(mockClient, 'test-id-123', {
+          status: 'in_progress',
+        });
+        expect(result.status).toBe('in_progress');
+        expect(mockRepository.count).not.toHaveBeenCalled();
+      });
+      it('should reject moving a TODO into a column at its limit', async () => {
+        mockRepository.count.mockResolvedValueOnce(2);
+        await expect(
+          limited(true).update(mockClient, 'test-id-123', { status: 'in_progress' })
+        ).rejects.toMatchObject({
+          statusCode: 422,
+          details: { field: 'status', requestedStatus: 'in_progress', limit: 2, count: 2 },
+        });
+        expect(mockRepository.count).toHaveBeenCalledWith(mockClient, { status: 'in_progress' });
+        expect(mockRepository.update).not.toHaveBeenCalled();
+      });
+      it('should reject moving a TODO when its assignee is at their limit', async () => {
+        mockRepository.count.mockResolvedValueOnce(1).mockResolvedValueOnce(1);
+        await expect(
+          limited(true).update(mockClient, 'test-id-123', { status: 'in_progress' })
+        ).rejects.toMatchObject({ details: { assignee: 'user1', limit: 1, count: 1 } });
+        expect(mockRepository.count).toHaveBeenLastCalledWith(mockClient, {
+          status: 'in_progress',
+          assignee: 'user1',
+        });
+      });
+      it('should check the new assignee when a TODO is reassigned', async () => {
+        mockRepository.getById.mockResolvedValue({
+          ...sampleTodo,
+          status: 'in_progress',
+          assignee: 'user2',
+        });
+        mockRepository.count.mockResolvedValueOnce(1);
+        await expect(
+          limited(true).update(mockClient, 'test-id-123', { assignee: 'user1' })
+        ).rejects.toThrow(BusinessRuleError);
+        expect(mockRepository.count).toHaveBeenCalledTimes(1);
+      });
+      it('should allow moves under the limits', async () => {
+        mockRepository.count.mockResolvedValueOnce(1).mockResolvedValueOnce(0);
+        const result = await limited(true).update(mockClient, 'test-id-123', {
+          status: 'in_progress',
+        });
+        expect(result.status).toBe('in_progress');
+      });
+      it('should not check limits when the status and assignee are unchanged', async () => {
+        await limited(true).update(mockClient, 'test-id-123', { title: 'Renamed' });
+        expect(mockRepository.count).not.toHaveBeenCalled();
+      });
+      it('should count the moves of earlier bulk actions toward the limit', async () => {
+        const todos = ['a', 'b', 'c'].map((id) => ({ ...sampleTodo, id, assignee: undefined }));
+        mockRepository.getByIds.mockResolvedValue(new Map(todos.map((todo) => [todo.id, todo])));
+        mockRepository.count.mockResolvedValue(1);
+        mockRepository.bulk.mockResolvedValue([{ success: true, id: 'a' }]);
+        const result = await limited(true).bulk(mockClient, {
+          actions: todos.map((todo) => ({
+            action: 'update' as const,
+            id: todo.id,
+            changes: { status: 'in_progress' as const },
+          })),
+        });
+        expect(result.results.map((item) => item.success)).toEqual([true, false, false]);
+        expect(result.results[1].error).toMatchObject({
+          statusCode: 422,
+          details: { requestedStatus: 'in_progress', limit: 2, count: 2 },
+        });
+        expect(mockRepository.bulk).toHaveBeenCalledWith(mockClient, [
+          expect.objectContaining({ type: 'update', id: 'a' }),
+        ]);
+      });
+      it('should not count bulk actions rejected for another reason', async () => {
+        const todos = [
+          { ...sampleTodo, id: 'a', assignee: undefined },
+          { ...sampleTodo, id: 'b', assignee: undefined },
+        ];
+        mockRepository.getByIds.mockResolvedValue(new Map(todos.map((todo) => [todo.id, todo])));
+        mockRepository.count.mockResolvedValue(1);
+        mockRepository.bulk.mockResolvedValue([{ success: true, id: 'b' }]);
+        const result = await limited(true).bulk(mockClient, {
+          actions: [
+            { action: 'update', id: 'a', changes: { status: 'in_progress', title: '' } },
+            { action: 'update', id: 'b', changes: { status: 'in_progress' } },
+          ],
+        });
+        expect(result.results[0].error?.error).toBe('VALIDATION_ERROR');
+        expect(result.results[1].success).toBe(true);
+      });
+      it('should reject updates by query that move TODOs into a limited column', async () => {
+        await expect(
+          limited(true).updateByQuery(mockClient, { patch: { status: 'in_progress' } })
+        ).rejects.toMatchObject({
+          statusCode: 422,
+          details: { field: 'status', requestedStatus: 'in_progress' },
+        });
+        await expect(
+          limited(true).updateByQuery(mockClient, { patch: { assignee: 'user1' } })
+        ).rejects.toMatchObject({ details: { field: 'assignee', assignee: 'user1' } });
+        expect(mockRepository.count).not.toHaveBeenCalled();
+      });
+      it('should allow updates by query that reach no enforced limit', async () => {
+        mockRepository.count.mockResolvedValue(0);
+        await expect(
+          limited(true).updateByQuery(mockClient, {
+            patch: { status: 'done', assignee: 'user2' },
+            dryRun: true,
+          })
+        ).resolves.toMatchObject({ dryRun: true });
+        await expect(
+          limited(false).updateByQuery(mockClient, {
+            patch: { status: 'in_progress' },
+            dryRun: true,
+          })
+        ).resolves.toMatchObject({ dryRun: true });
+      });
+    });
     it('should update multiple fields at once', async () => {
       mockRepository.getById.mockResolvedValue(sampleTodo);
-      mockRepository.update.mockResolvedValue(true);
+      mockRepository.update.mockResolvedValue(undefined);
       const result = await service.update(mockClient, 'test-id-123', {
         title: 'New Title',
         description: 'New Description',
@@ -656,7 +1064,7 @@ describe('TodosService', () => {
     describe('Update Priority', () => {
       it('should update TODO priority', async () => {
         mockRepository.getById.mockResolvedValue(sampleTodo);
-        mockRepository.update.mockResolvedValue(true);
+        mockRepository.update.mockResolvedValue(undefined);
         const result = await service.update(mockClient, 'test-id-123', {
           priority: 'critical',
         });
@@ -674,7 +1082,7 @@ describe('TodosService', () => {
     describe('Update Severity', () => {
       it('should update TODO severity', async () => {
         mockRepository.getById.mockResolvedValue(sampleTodo);
-        mockRepository.update.mockResolvedValue(true);
+        mockRepository.update.mockResolvedValue(undefined);
         const result = await service.update(mockClient, 'test-id-123', {
           severity: 'critical',
         });
@@ -692,7 +1100,7 @@ describe('TodosService', () => {
     describe('Update Due Date', () => {
       it('should update TODO due date', async () => {
         mockRepository.getById.mockResolvedValue(sampleTodo);
-        mockRepository.update.mockResolvedValue(true);
+        mockRepository.update.mockResolvedValue(undefined);
         const result = await service.update(mockClient, 'test-id-123', {
           dueDate: '2026-01-15T12:00:00.000Z',
         });
@@ -705,7 +1113,7 @@ describe('TodosService', () => {
           dueDate: '2025-12-31T23:59:59.000Z',
         };
         mockRepository.getById.mockResolvedValue(todoWithDueDate);
-        mockRepository.update.mockResolvedValue(true);
+        mockRepository.update.mockResolvedValue(undefined);
         const result = await service.update(mockClient, 'test-id-123', {
           dueDate: null,
         });
@@ -719,10 +1127,64 @@ describe('TodosService', () => {
         expect(mockRepository.update).not.toHaveBeenCalled();
       });
     });
+    describe('Update Start Date', () => {
+      const scheduledTodo: Todo = {
+        ...sampleTodo,
+        startDate: '2026-01-05T09:00:00.000Z',
+        dueDate: '2026-01-15T17:00:00.000Z',
+      };
+      it('should move the start and due dates together', async () => {
+        mockRepository.getById.mockResolvedValue(scheduledTodo);
+        mockRepository.update.mockResolvedValue(undefined);
+        const result = await service.update(mockClient, 'test-id-123', {
+          startDate: '2026-01-12T09:00:00.000Z',
+          dueDate: '2026-01-22T17:00:00.000Z',
+        });
+        expect(result.startDate).toBe('2026-01-12T09:00:00.000Z');
+        expect(result.dueDate).toBe('2026-01-22T17:00:00.000Z');
+      });
+      it('should clear the start date when set to null', async () => {
+        mockRepository.getById.mockResolvedValue(scheduledTodo);
+        mockRepository.update.mockResolvedValue(undefined);
+        const result = await service.update(mockClient, 'test-id-123', { startDate: null });
+        expect(result.startDate).toBeUndefined();
+        expect(mockRepository.update.mock.calls[0][2]).toMatchObject({ start_date: null });
+      });
+      it('should throw ValidationError when the new due date is before the start date', async () => {
+        mockRepository.getById.mockResolvedValue(scheduledTodo);
+        await expect(
+          service.update(mockClient, 'test-id-123', { dueDate: '2026-01-01T00:00:00.000Z' })
+        ).rejects.toThrow(ValidationError);
+        await expect(
+          service.update(mockClient, 'test-id-123', { startDate: '2026-02-01T00:00:00.000Z' })
+        ).rejects.toThrow(ValidationError);
+        expect(mockRepository.update).not.toHaveBeenCalled();
+      });
+    });
+    describe('Update Rank', () => {
+      it('should set and clear the rank', async () => {
+        mockRepository.getById.mockResolvedValue({ ...sampleTodo, rank: 'i' });
+        mockRepository.update.mockResolvedValue(undefined);
+        const moved = await service.update(mockClient, 'test-id-123', { rank: 'b' });
+        expect(moved.rank).toBe('b');
+        const cleared = await service.update(mockClient, 'test-id-123', { rank: null });
+        expect(cleared.rank).toBeUndefined();
+        expect(mockRepository.update.mock.calls[1][2]).toMatchObject({ rank: null });
+      });
+      it('should throw ValidationError for an invalid rank', async () => {
+        mockRepository.getById.mockResolvedValue(sampleTodo);
+        for (const rank of ['', 'a0', 'AB', 'a-b']) {
+          await expect(service.update(mockClient, 'test-id-123', { rank })).rejects.toThrow(
+            ValidationError
+          );
+        }
+        expect(mockRepository.update).not.toHaveBeenCalled();
+      });
+    });
     describe('Update Compliance Frameworks', () => {
       it('should update compliance frameworks', async () => {
         mockRepository.getById.mockResolvedValue(sampleTodo);
-        mockRepository.update.mockResolvedValue(true);
+        mockRepository.update.mockResolvedValue(undefined);
         const result = await service.update(mockClient, 'test-id-123', {
           complianceFrameworks: ['SOC2', 'GDPR'],
         });
@@ -751,7 +1213,7 @@ describe('TodosService', () => {
     describe('Update Multiple Analytics Fields', () => {
       it('should update multiple analytics fields at once', async () => {
         mockRepository.getById.mockResolvedValue(sampleTodo);
-        mockRepository.update.mockResolvedValue(true);
+        mockRepository.update.mockResolvedValue(undefined);
         const result = await service.update(mockClient, 'test-id-123', {
           priority: 'high',
           severity: 'critical',
@@ -781,4 +1243,1232 @@ describe('TodosService', () => {
       await expect(service.delete(mockClient, 'nonexistent')).rejects.toThrow(NotFoundError);
     });
   });
+  describe('bulk', () => {
+    const otherTodo: Todo = { ...sampleTodo, id: 'test-id-456', title: 'Other TODO' };
+    beforeEach(() => {
+      mockRepository.getByIds.mockResolvedValue(
+        new Map([
+          [sampleTodo.id, sampleTodo],
+          [otherTodo.id, otherTodo],
+        ])
+      );
+    });
+    it('should apply create, update and delete actions in one bulk request', async () => {
+      mockRepository.bulk.mockResolvedValue([
+        { success: true, id: 'new-id', version: 'v1' },
+        { success: true, id: 'test-id-123', version: 'v2' },
+        { success: true, id: 'test-id-456' },
+      ]);
+      const result = await service.bulk(mockClient, {
+        actions: [
+          { action: 'create', todo: { title: 'Created in bulk' } },
+          { action: 'update', id: 'test-id-123', changes: { status: 'in_progress' } },
+          { action: 'delete', id: 'test-id-456' },
+        ],
+      });
+      expect(mockRepository.getByIds).toHaveBeenCalledWith(mockClient, [
+        'test-id-123',
+        'test-id-456',
+      ]);
+      const operations = mockRepository.bulk.mock.calls[0][1];
+      expect(operations.map((operation) => operation.type)).toEqual(['create', 'update', 'delete']);
+      expect(result.summary).toEqual({ total: 3, succeeded: 3, failed: 0 });
+      expect(result.results[0].todo?.title).toBe('Created in bulk');
+      expect(result.results[1].todo?.status).toBe('in_progress');
+      expect(result.results[2]).toEqual({
+        index: 2,
+        action: 'delete',
+        id: 'test-id-456',
+        success: true,
+      });
+    });
+    it('should report invalid actions without sending them to the repository', async () => {
+      mockRepository.bulk.mockResolvedValue([{ success: true, id: 'test-id-456' }]);
+      const result = await service.bulk(mockClient, {
+        actions: [
+          { action: 'create', todo: { title: '' } },
+          { action: 'update', id: 'test-id-123', changes: { status: 'done', version: 'garbage' } },
+          { action: 'update', id: 'test-id-456', changes: { priority: 'high' } },
+          { action: 'delete', id: 'missing-id' },
+        ],
+      });
+      expect(mockRepository.bulk.mock.calls[0][1]).toHaveLength(1);
+      expect(result.summary).toEqual({ total: 4, succeeded: 1, failed: 3 });
+      expect(result.results[0].error?.error).toBe('VALIDATION_ERROR');
+      expect(result.results[1].error?.statusCode).toBe(400);
+      expect(result.results[2].success).toBe(true);
+      expect(result.results[3].error?.error).toBe('NOT_FOUND');
+    });
+    it('should apply status transition rules to each update', async () => {
+      mockRepository.bulk.mockResolvedValue([]);
+      const result = await service.bulk(mockClient, {
+        actions: [{ action: 'update', id: 'test-id-123', changes: { status: 'done' } }],
+      });
+      expect(mockRepository.bulk).not.toHaveBeenCalled();
+      expect(result.results[0].error?.statusCode).toBe(422);
+    });
+    it('should reject a second action on the same TODO', async () => {
+      mockRepository.bulk.mockResolvedValue([{ success: true, id: 'test-id-123' }]);
+      const result = await service.bulk(mockClient, {
+        actions: [
+          { action: 'update', id: 'test-id-123', changes: { priority: 'high' } },
+          { action: 'delete', id: 'test-id-123' },
+        ],
+      });
+      expect(result.results[0].success).toBe(true);
+      expect(result.results[1].error?.error).toBe('VALIDATION_ERROR');
+    });
+    it('should report item failures returned by the repository', async () => {
+      mockRepository.bulk.mockResolvedValue([
+        {
+          success: false,
+          id: 'test-id-123',
+          error: new ConflictError("Todo 'test-id-123' was modified by another request"),
+        },
+      ]);
+      const result = await service.bulk(mockClient, {
+        actions: [{ action: 'update', id: 'test-id-123', changes: { priority: 'high' } }],
+      });
+      expect(result.results[0]).toMatchObject({
+        index: 0,
+        action: 'update',
+        id: 'test-id-123',
+        success: false,
+        error: { statusCode: 409, error: 'CONFLICT' },
+      });
+    });
+    it('should throw ValidationError for an empty bulk request', async () => {
+      await expect(service.bulk(mockClient, { actions: [] })).rejects.toThrow(ValidationError);
+      expect(mockRepository.bulk).not.toHaveBeenCalled();
+    });
+    it('should throw ValidationError when exceeding the maximum number of actions', async () => {
+      const actions = Array.from({ length: 101 }, () => ({
+        action: 'delete' as const,
+        id: 'test-id-123',
+      }));
+      await expect(service.bulk(mockClient, { actions })).rejects.toThrow(ValidationError);
+    });
+  });
+  describe('updateByQuery', () => {
+    const filters = { complianceFrameworks: ['PCI-DSS'], tags: ['network'] };
+    it('should only count matching TODOs in a dry run', async () => {
+      mockRepository.count.mockResolvedValue(5);
+      const result = await service.updateByQuery(mockClient, {
+        filters,
+        patch: { assignee: 'alice' },
+        dryRun: true,
+      });
+      expect(result).toEqual({
+        dryRun: true,
+        matched: 5,
+        skipped: 0,
+        updated: 0,
+        versionConflicts: 0,
+        failed: 0,
+      });
+      expect(mockRepository.count).toHaveBeenCalledWith(mockClient, expect.objectContaining(filters));
+      expect(mockRepository.scan).not.toHaveBeenCalled();
+      expect(mockRepository.bulk).not.toHaveBeenCalled();
+    });
+    it('should apply the patch to every matching TODO at the version it was read', async () => {
+      const todos = ['a', 'b', 'c'].map((id) => ({ ...sampleTodo, id, version: `v-${id}` }));
+      mockRepository.count.mockResolvedValue(3);
+      mockRepository.scan.mockImplementation(async function* () {
+        yield todos;
+      });
+      mockRepository.bulk.mockResolvedValue([
+        { success: true, id: 'a', version: 'v2-a' },
+        { success: false, id: 'b', error: new ConflictError("Todo 'b' was modified") },
+        { success: true, id: 'c', version: 'v2-c' },
+      ]);
+      const result = await service.updateByQuery(
+        mockClient,
+        { filters, patch: { assignee: 'alice', priority: 'high' } },
+        'bob'
+      );
+      expect(result).toMatchObject({ dryRun: false, matched: 3, updated: 2, versionConflicts: 1 });
+      expect(mockRepository.scan).toHaveBeenCalledWith(
+        mockClient,
+        expect.objectContaining(filters),
+        MAX_BULK_ACTIONS
+      );
+      expect(mockRepository.bulk.mock.calls[0][1][0]).toEqual({
+        type: 'update',
+        id: 'a',
+        document: expect.objectContaining({
+          assignee: 'alice',
+          priority: 'high',
+          updated_at: expect.any(String),
+        }),
+        expectedVersion: 'v-a',
+      });
+      expect(mockLogger.info).toHaveBeenCalledWith(expect.stringContaining("by 'bob'"));
+    });
+    it('should skip TODOs whose status cannot move to the patched status', async () => {
+      mockRepository.count.mockResolvedValueOnce(10).mockResolvedValueOnce(4);
+      mockRepository.scan.mockImplementation(async function* () {
+        yield [{ ...sampleTodo, status: 'in_progress' as const }];
+      });
+      mockRepository.bulk.mockResolvedValue([{ success: true, id: 'test-id-123' }]);
+      const result = await service.updateByQuery(mockClient, { filters, patch: { status: 'done' } });
+      expect(result).toMatchObject({ matched: 10, skipped: 6, updated: 1 });
+      expect(mockRepository.scan).toHaveBeenCalledWith(
+        mockClient,
+        expect.objectContaining({ status: ['in_progress', 'done'] }),
+        MAX_BULK_ACTIONS
+      );
+      expect(mockRepository.bulk.mock.calls[0][1][0].document).toMatchObject({
+        status: 'done',
+        status_reason: null,
+        completed_at: expect.any(String),
+      });
+    });
+    it('should not update anything when no filtered status can move to the patched status', async () => {
+      mockRepository.count.mockResolvedValue(7);
+      const result = await service.updateByQuery(mockClient, {
+        filters: { status: ['planned'] },
+        patch: { status: 'done' },
+      });
+      expect(result).toMatchObject({ matched: 7, skipped: 7, updated: 0 });
+      expect(mockRepository.count).toHaveBeenCalledTimes(1);
+      expect(mockRepository.scan).not.toHaveBeenCalled();
+    });
+    it('should throw ValidationError for an empty patch', async () => {
+      await expect(
+        service.updateByQuery(mockClient, { filters, patch: { statusReason: 'no fields' } })
+      ).rejects.toThrow(ValidationError);
+      expect(mockRepository.count).not.toHaveBeenCalled();
+    });
+    it('should require a reason when the patch moves TODOs to error', async () => {
+      await expect(
+        service.updateByQuery(mockClient, { filters, patch: { status: 'error' } })
+      ).rejects.toThrow(BusinessRuleError);
+      expect(mockRepository.count).not.toHaveBeenCalled();
+    });
+  });
+  describe('rebalanceRanks', () => {
+    it('should give ranked TODOs evenly spaced ranks in the same order', async () => {
+      const todos = ['zzzzz1', 'zzzzz2', 'zzzzz3'].map((rank, index) => ({
+        ...sampleTodo,
+        id: `todo-${index}`,
+        rank,
+      }));
+      mockRepository.scan.mockImplementation(async function* () {
+        yield [...todos, { ...sampleTodo, id: 'unranked' }];
+      });
+      mockRepository.bulk.mockResolvedValue(
+        todos.map((todo) => ({ success: true as const, id: todo.id }))
+      );
+      const result = await service.rebalanceRanks(mockClient);
+      expect(result).toEqual({ rebalanced: 3, failed: 0 });
+      expect(mockRepository.scan).toHaveBeenCalledWith(mockClient, {
+        sortField: 'rank',
+        sortDirection: 'asc',
+      });
+      const operations = mockRepository.bulk.mock.calls[0][1] as any[];
+      const ranks = operations.map((operation) => operation.document.rank);
+      expect(operations.map((operation) => operation.id)).toEqual(['todo-0', 'todo-1', 'todo-2']);
+      expect(operations[0].document).toEqual({ rank: ranks[0] });
+      expect([...ranks].sort()).toEqual(ranks);
+      ranks.forEach((rank) => expect(rank.length).toBeLessThanOrEqual(2));
+    });
+    it('should not write anything when no TODO is ranked', async () => {
+      mockRepository.scan.mockImplementation(async function* () {
+        yield [sampleTodo];
+      });
+      const result = await service.rebalanceRanks(mockClient);
+      expect(result).toEqual({ rebalanced: 0, failed: 0 });
+      expect(mockRepository.bulk).not.toHaveBeenCalled();
+    });
+  });
+  describe('Subtasks', () => {
+    const parentTodo: Todo = { ...sampleTodo, id: 'parent-1' };
+    it('should create a subtask under an existing parent', async () => {
+      mockRepository.getById.mockResolvedValue(parentTodo);
+      mockRepository.create.mockResolvedValue({ ...sampleTodo, parentId: 'parent-1' });
+      await service.create(mockClient, { title: 'Child', parentId: 'parent-1' });
+      expect(mockRepository.getById).toHaveBeenCalledWith(mockClient, 'parent-1');
+      expect(mockRepository.create.mock.calls[0][1].parent_id).toBe('parent-1');
+    });
+    it('should throw ValidationError if the parent does not exist', async () => {
+      mockRepository.getById.mockRejectedValue(new NotFoundError('Todo', 'missing'));
+      await expect(
+        service.create(mockClient, { title: 'Child', parentId: 'missing' })
+      ).rejects.toThrow(ValidationError);
+      expect(mockRepository.create).not.toHaveBeenCalled();
+    });
+    it('should reject a TODO as its own parent', async () => {
+      mockRepository.getById.mockResolvedValue(sampleTodo);
+      await expect(
+        service.update(mockClient, 'test-id-123', { parentId: 'test-id-123' })
+      ).rejects.toThrow(BusinessRuleError);
+    });
+    it('should reject moving a TODO under one of its own subtasks', async () => {
+      mockRepository.getById.mockImplementation(async (_client, id) => {
+        if (id === 'child-1') {
+          return { ...sampleTodo, id: 'child-1', parentId: 'test-id-123' };
+        }
+        return sampleTodo;
+      });
+      await expect(
+        service.update(mockClient, 'test-id-123', { parentId: 'child-1' })
+      ).rejects.toThrow(BusinessRuleError);
+      expect(mockRepository.update).not.toHaveBeenCalled();
+    });
+    it('should reject nesting deeper than the maximum depth', async () => {
+      mockRepository.getById.mockImplementation(async (_client, id) => {
+        const level = Number(id.replace('level-', ''));
+        return {
+          ...sampleTodo,
+          id,
+          parentId: level > 1 ? `level-${level - 1}` : undefined,
+        };
+      });
+      await expect(
+        service.create(mockClient, { title: 'Too deep', parentId: 'level-5' })
+      ).rejects.toThrow(BusinessRuleError);
+      mockRepository.create.mockResolvedValue(sampleTodo);
+      await expect(
+        service.create(mockClient, { title: 'Deep enough', parentId: 'level-4' })
+      ).resolves.toEqual(sampleTodo);
+    });
+    it('should clear the parent when parentId is null', async () => {
+      mockRepository.getById.mockResolvedValue({ ...sampleTodo, parentId: 'parent-1' });
+      mockRepository.update.mockResolvedValue(undefined);
+      const result = await service.update(mockClient, 'test-id-123', { parentId: null });
+      expect(mockRepository.update.mock.calls[0][2].parent_id).toBeNull();
+      expect(result.parentId).toBeUndefined();
+    });
+    it('should attach subtask progress to listed parents', async () => {
+      mockRepository.search.mockResolvedValue({ todos: [sampleTodo, parentTodo], total: 2 });
+      mockRepository.getChildCounts.mockResolvedValue(
+        new Map([['parent-1', { total: 4, done: 1 }]])
+      );
+      const result = await service.list(mockClient, {});
+      expect(result.todos[0].childProgress).toBeUndefined();
+      expect(result.todos[1].childProgress).toEqual({ total: 4, done: 1, percent: 25 });
+    });
+    it('should list the subtasks of a TODO with their progress', async () => {
+      mockRepository.getById.mockResolvedValue(parentTodo);
+      mockRepository.search.mockResolvedValue({
+        todos: [{ ...sampleTodo, parentId: 'parent-1' }],
+        total: 1,
+      });
+      mockRepository.getChildCounts.mockResolvedValue(
+        new Map([['parent-1', { total: 2, done: 2 }]])
+      );
+      const result = await service.getChildren(mockClient, 'parent-1');
+      expect(mockRepository.search.mock.calls[0][1].parentId).toBe('parent-1');
+      expect(result.parentId).toBe('parent-1');
+      expect(result.todos).toHaveLength(1);
+      expect(result.progress).toEqual({ total: 2, done: 2, percent: 100 });
+    });
+    it('should throw NotFoundError when listing subtasks of a missing TODO', async () => {
+      mockRepository.getById.mockRejectedValue(new NotFoundError('Todo', 'missing'));
+      await expect(service.getChildren(mockClient, 'missing')).rejects.toThrow(NotFoundError);
+    });
+    it('should detach subtasks when their parent is deleted', async () => {
+      mockRepository.getById.mockResolvedValue(parentTodo);
+      mockRepository.delete.mockResolvedValue(true);
+      await service.delete(mockClient, 'parent-1');
+      expect(mockRepository.updateByQuery).toHaveBeenCalledWith(
+        mockClient,
+        { parentId: 'parent-1' },
+        expect.objectContaining({ parent_id: null })
+      );
+    });
+  });
+  describe('Blockers', () => {
+    const blocker: Todo = { ...sampleTodo, id: 'blocker-1', title: 'Blocker', status: 'in_progress' };
+    const doneBlocker: Todo = { ...blocker, status: 'done' };
+    it('should throw ValidationError if a blocking TODO does not exist', async () => {
+      await expect(
+        service.create(mockClient, { title: 'Blocked', blockedBy: ['missing'] })
+      ).rejects.toThrow(ValidationError);
+      expect(mockRepository.create).not.toHaveBeenCalled();
+    });
+    it('should reject a TODO blocking itself', async () => {
+      mockRepository.getById.mockResolvedValue(sampleTodo);
+      await expect(
+        service.update(mockClient, 'test-id-123', { blockedBy: ['test-id-123'] })
+      ).rejects.toThrow(BusinessRuleError);
+    });
+    it('should reject blockers that are waiting on the TODO', async () => {
+      mockRepository.getById.mockResolvedValue(sampleTodo);
+      mockRepository.getByIds.mockImplementation(async (_client, ids) => {
+        const todos: Record<string, Todo> = {
+          'blocker-1': { ...blocker, blockedBy: ['blocker-2'] },
+          'blocker-2': { ...blocker, id: 'blocker-2', blockedBy: ['test-id-123'] },
+        };
+        return new Map(ids.filter((id) => todos[id]).map((id) => [id, todos[id]]));
+      });
+      await expect(
+        service.update(mockClient, 'test-id-123', { blockedBy: ['blocker-1'] })
+      ).rejects.toThrow(BusinessRuleError);
+      expect(mockRepository.update).not.toHaveBeenCalled();
+    });
+    it('should not re-check blockers that are already stored', async () => {
+      mockRepository.getById.mockResolvedValue({ ...sampleTodo, blockedBy: ['deleted-1'] });
+      mockRepository.update.mockResolvedValue(undefined);
+      await service.update(mockClient, 'test-id-123', { blockedBy: ['deleted-1'] });
+      expect(mockRepository.update).toHaveBeenCalled();
+    });
+    it('should throw BusinessRuleError when starting a TODO with open blockers', async () => {
+      mockRepository.getById.mockResolvedValue({ ...sampleTodo, blockedBy: ['blocker-1'] });
+      mockRepository.getByIds.mockResolvedValue(new Map([['blocker-1', blocker]]));
+      await expect(
+        service.update(mockClient, 'test-id-123', { status: 'in_progress' })
+      ).rejects.toThrow(BusinessRuleError);
+      expect(mockRepository.update).not.toHaveBeenCalled();
+    });
+    it('should allow starting a TODO once its blockers are done', async () => {
+      mockRepository.getById.mockResolvedValue({ ...sampleTodo, blockedBy: ['blocker-1'] });
+      mockRepository.getByIds.mockResolvedValue(new Map([['blocker-1', doneBlocker]]));
+      mockRepository.update.mockResolvedValue(undefined);
+      const result = await service.update(mockClient, 'test-id-123', { status: 'in_progress' });
+      expect(result.status).toBe('in_progress');
+      expect(result.isBlocked).toBe(false);
+    });
+    it('should throw BusinessRuleError when creating a started TODO with open blockers', async () => {
+      mockRepository.getByIds.mockResolvedValue(new Map([['blocker-1', blocker]]));
+      await expect(
+        service.create(mockClient, { title: 'Blocked', status: 'in_progress', blockedBy: ['blocker-1'] })
+      ).rejects.toThrow(BusinessRuleError);
+      expect(mockRepository.create).not.toHaveBeenCalled();
+    });
+    it('should attach blocker state to listed TODOs', async () => {
+      mockRepository.search.mockResolvedValue({
+        todos: [sampleTodo, { ...sampleTodo, id: 'blocked-1', blockedBy: ['blocker-1'] }],
+        total: 2,
+      });
+      mockRepository.getByIds.mockResolvedValue(new Map([['blocker-1', blocker]]));
+      const result = await service.list(mockClient, {});
+      expect(result.todos[0].isBlocked).toBeUndefined();
+      expect(result.todos[1].isBlocked).toBe(true);
+      expect(result.todos[1].blockers).toEqual([
+        { id: 'blocker-1', title: 'Blocker', status: 'in_progress' },
+      ]);
+    });
+    it('should resolve open blockers for the isBlocked filter', async () => {
+      mockRepository.search.mockResolvedValue({ todos: [], total: 0 });
+      mockRepository.getOpenBlockerIds.mockResolvedValue(['blocker-1']);
+      await service.list(mockClient, { isBlocked: true });
+      expect(mockRepository.search.mock.calls[0][1]).toMatchObject({
+        isBlocked: true,
+        openBlockerIds: ['blocker-1'],
+      });
+    });
+    it('should skip blocked TODOs when update by query starts them', async () => {
+      mockRepository.count.mockResolvedValueOnce(5).mockResolvedValueOnce(3);
+      mockRepository.getOpenBlockerIds.mockResolvedValue(['blocker-1']);
+      mockRepository.scan.mockImplementation(async function* () {});
+      const result = await service.updateByQuery(mockClient, {
+        filters: { status: ['planned'] },
+        patch: { status: 'in_progress' },
+      });
+      expect(result).toMatchObject({ matched: 5, skipped: 2 });
+      expect(mockRepository.scan).toHaveBeenCalledWith(
+        mockClient,
+        expect.objectContaining({ isBlocked: false, openBlockerIds: ['blocker-1'] }),
+        MAX_BULK_ACTIONS
+      );
+    });
+  });
+  describe('History', () => {
+    let mockAuditRepository: jest.Mocked<TodoAuditRepository>;
+    beforeEach(() => {
+      mockAuditRepository = new TodoAuditRepository(
+        mockLogger as any,
+        {} as any
+      ) as jest.Mocked<TodoAuditRepository>;
+      service = new TodosService(mockLogger as any, mockRepository, undefined, mockAuditRepository);
+    });
+    it('should record a create entry with all set fields', async () => {
+      mockRepository.create.mockResolvedValue(sampleTodo);
+      await service.create(mockClient, { title: 'Test TODO' }, 'alice');
+      expect(mockAuditRepository.append).toHaveBeenCalledTimes(1);
+      const document = mockAuditRepository.append.mock.calls[0][1];
+      expect(document.todo_id).toBe('test-id-123');
+      expect(document.action).toBe('create');
+      expect(document.actor).toBe('alice');
+      expect(document.changes).toContainEqual({
+        field: 'title',
+        old_value: null,
+        new_value: 'Test TODO',
+      });
+    });
+    it('should record only the changed fields on update', async () => {
+      mockRepository.getById.mockResolvedValue(sampleTodo);
+      mockRepository.update.mockResolvedValue(undefined);
+      await service.update(mockClient, 'test-id-123', { severity: 'critical' }, 'bob');
+      const document = mockAuditRepository.append.mock.calls[0][1];
+      expect(document.action).toBe('update');
+      expect(document.actor).toBe('bob');
+      expect(document.changes).toEqual([
+        { field: 'severity', old_value: 'low', new_value: 'critical' },
+      ]);
+    });
+    it('should not record an update that changes no fields', async () => {
+      mockRepository.getById.mockResolvedValue(sampleTodo);
+      mockRepository.update.mockResolvedValue(undefined);
+      await service.update(mockClient, 'test-id-123', { title: 'Test TODO' });
+      expect(mockAuditRepository.append).not.toHaveBeenCalled();
+    });
+    it('should record an update entry for each TODO updated by query', async () => {
+      mockRepository.count.mockResolvedValue(1);
+      mockRepository.scan.mockImplementation(async function* () {
+        yield [sampleTodo];
+      });
+      mockRepository.bulk.mockResolvedValue([{ success: true, id: 'test-id-123' }]);
+      await service.updateByQuery(
+        mockClient,
+        { filters: { tags: ['test'] }, patch: { assignee: 'alice' } },
+        'bob'
+      );
+      const document = mockAuditRepository.append.mock.calls[0][1];
+      expect(document).toMatchObject({ todo_id: 'test-id-123', action: 'update', actor: 'bob' });
+      expect(document.changes).toEqual([
+        { field: 'assignee', old_value: 'user1', new_value: 'alice' },
+      ]);
+    });
+    it('should record the removed values on delete', async () => {
+      mockRepository.getById.mockResolvedValue(sampleTodo);
+      mockRepository.delete.mockResolvedValue(true);
+      await service.delete(mockClient, 'test-id-123', 'carol');
+      const document = mockAuditRepository.append.mock.calls[0][1];
+      expect(document.action).toBe('delete');
+      expect(document.changes).toContainEqual({
+        field: 'assignee',
+        old_value: 'user1',
+        new_value: null,
+      });
+    });
+    it('should default the actor to unknown', async () => {
+      mockRepository.create.mockResolvedValue(sampleTodo);
+      await service.create(mockClient, { title: 'Test TODO' });
+      expect(mockAuditRepository.append.mock.calls[0][1].actor).toBe('unknown');
+    });
+    it('should not fail the operation when recording history fails', async () => {
+      mockRepository.create.mockResolvedValue(sampleTodo);
+      mockAuditRepository.append.mockRejectedValue(new IndexError('audit index unavailable'));
+      const result = await service.create(mockClient, { title: 'Test TODO' }, 'alice');
+      expect(result).toEqual(sampleTodo);
+      expect(mockLogger.error).toHaveBeenCalled();
+    });
+    it('should return paginated history entries', async () => {
+      mockAuditRepository.listByTodoId.mockResolvedValue({
+        entries: [
+          {
+            id: 'entry-1',
+            todoId: 'test-id-123',
+            action: 'update',
+            actor: 'bob',
+            timestamp: '2024-01-16T10:00:00.000Z',
+            changes: [{ field: 'severity', oldValue: 'low', newValue: 'critical' }],
+          },
+        ],
+        total: 21,
+      });
+      const result = await service.getHistory(mockClient, 'test-id-123', { page: 1, pageSize: 20 });
+      expect(mockAuditRepository.listByTodoId).toHaveBeenCalledWith(
+        mockClient,
+        'test-id-123',
+        1,
+        20
+      );
+      expect(result.todoId).toBe('test-id-123');
+      expect(result.entries).toHaveLength(1);
+      expect(result.pagination.totalPages).toBe(2);
+      expect(result.pagination.hasNextPage).toBe(true);
+    });
+    it('should throw ValidationError if history ID is empty', async () => {
+      await expect(service.getHistory(mockClient, '')).rejects.toThrow(ValidationError);
+      expect(mockAuditRepository.listByTodoId).not.toHaveBeenCalled();
+    });
+  });
+  describe('Comments', () => {
+    let mockCommentsRepository: jest.Mocked<TodoCommentsRepository>;
+    beforeEach(() => {
+      mockCommentsRepository = new TodoCommentsRepository(
+        mockLogger as any,
+        {} as any
+      ) as jest.Mocked<TodoCommentsRepository>;
+      mockCommentsRepository.countByTodoIds.mockResolvedValue(new Map([['test-id-123', 3]]));
+      service = new TodosService(
+        mockLogger as any,
+        mockRepository,
+        undefined,
+        undefined,
+        mockCommentsRepository
+      );
+    });
+    it('should attach comment counts to listed TODOs', async () => {
+      mockRepository.search.mockResolvedValue({
+        todos: [sampleTodo, { ...sampleTodo, id: 'quiet-1' }],
+        total: 2,
+      });
+      const result = await service.list(mockClient, {});
+      expect(result.todos[0].commentCount).toBe(3);
+      expect(result.todos[1].commentCount).toBe(0);
+    });
+    it('should attach the comment count to a single TODO', async () => {
+      mockRepository.getById.mockResolvedValue(sampleTodo);
+      const result = await service.getById(mockClient, 'test-id-123');
+      expect(result.commentCount).toBe(3);
+    });
+    it('should delete the comments of a deleted TODO', async () => {
+      mockRepository.delete.mockResolvedValue(true);
+      mockCommentsRepository.deleteByTodoId.mockResolvedValue(3);
+      await service.delete(mockClient, 'test-id-123');
+      expect(mockCommentsRepository.deleteByTodoId).toHaveBeenCalledWith(mockClient, 'test-id-123');
+    });
+    it('should not fail the delete when the comments cannot be removed', async () => {
+      mockRepository.delete.mockResolvedValue(true);
+      mockCommentsRepository.deleteByTodoId.mockRejectedValue(new IndexError('unavailable'));
+      await expect(service.delete(mockClient, 'test-id-123')).resolves.toBe(true);
+      expect(mockLogger.error).toHaveBeenCalled();
+    });
+  });
+  describe('Recurrence', () => {
+    const recurringTodo: Todo = {
+      ...sampleTodo,
+      status: 'in_progress',
+      dueDate: '2024-01-31T00:00:00.000Z',
+      recurrence: 'FREQ=MONTHLY',
+    };
+    beforeEach(() => {
+      mockRepository.getById.mockResolvedValue(recurringTodo);
+      mockRepository.update.mockResolvedValue('v2');
+      mockRepository.create.mockImplementation(async (_client, document) =>
+        TodosMapper.fromOpenSearchHit({ _id: 'next-id', _source: document })
+      );
+    });
+    it('should throw ValidationError for an unsupported recurrence rule', async () => {
+      await expect(
+        service.create(mockClient, { title: 'Rotate keys', recurrence: 'FREQ=MONTHLY;BYDAY=MO' })
+      ).rejects.toThrow(ValidationError);
+      await expect(
+        service.create(mockClient, { title: 'Rotate keys', recurrence: 'FREQ=HOURLY' })
+      ).rejects.toThrow(ValidationError);
+      expect(mockRepository.create).not.toHaveBeenCalled();
+    });
+    it('should store the recurrence rule in canonical form', async () => {
+      await service.create(mockClient, {
+        title: 'Access review',
+        recurrence: 'rrule:freq=monthly;interval=3',
+      });
+      expect(mockRepository.create.mock.calls[0][1].recurrence).toBe('FREQ=MONTHLY;INTERVAL=3');
+    });
+    it('should create the next occurrence when a recurring TODO is completed', async () => {
+      const result = await service.update(mockClient, 'test-id-123', { status: 'done' });
+      const nextDocument = mockRepository.create.mock.calls[0][1];
+      expect(nextDocument).toMatchObject({
+        title: 'Test TODO',
+        status: 'planned',
+        tags: ['test', 'sample'],
+        recurrence: 'FREQ=MONTHLY',
+        series_id: 'test-id-123',
+        completed_at: null,
+      });
+      // January 31 + 1 month lands on the last day of February
+      expect(nextDocument.due_date).toBe('2024-02-29T00:00:00.000Z');
+      expect(mockRepository.update).toHaveBeenLastCalledWith(mockClient, 'test-id-123', {
+        next_occurrence_id: 'next-id',
+      });
+      expect(result.nextOccurrenceId).toBe('next-id');
+      expect(result.version).toBe('v2');
+    });
+    it('should keep the series ID of a generated occurrence', async () => {
+      mockRepository.getById.mockResolvedValue({
+        ...recurringTodo,
+        id: 'second-id',
+        seriesId: 'first-id',
+        recurrence: 'FREQ=WEEKLY;INTERVAL=2',
+      });
+      await service.update(mockClient, 'second-id', { status: 'done' });
+      expect(mockRepository.create.mock.calls[0][1]).toMatchObject({
+        series_id: 'first-id',
+        due_date: '2024-02-14T00:00:00.000Z',
+      });
+    });
+    it('should keep the lead time of the start date in the next occurrence', async () => {
+      mockRepository.getById.mockResolvedValue({
+        ...recurringTodo,
+        startDate: '2024-01-24T00:00:00.000Z',
+      });
+      await service.update(mockClient, 'test-id-123', { status: 'done' });
+      expect(mockRepository.create.mock.calls[0][1]).toMatchObject({
+        start_date: '2024-02-22T00:00:00.000Z',
+        due_date: '2024-02-29T00:00:00.000Z',
+      });
+    });
+    it('should only create the next occurrence once', async () => {
+      mockRepository.getById.mockResolvedValue({ ...recurringTodo, nextOccurrenceId: 'next-id' });
+      await service.update(mockClient, 'test-id-123', { status: 'done' });
+      expect(mockRepository.create).not.toHaveBeenCalled();
+    });
+    it('should not create an occurrence for other updates', async () => {
+      await service.update(mockClient, 'test-id-123', { priority: 'high' });
+      mockRepository.getById.mockResolvedValue({ ...recurringTodo, recurrence: undefined });
+      await service.update(mockClient, 'test-id-123', { status: 'done' });
+      expect(mockRepository.create).not.toHaveBeenCalled();
+    });
+    it('should not fail the update when the next occurrence cannot be created', async () => {
+      mockRepository.create.mockRejectedValue(new IndexError('unavailable'));
+      const result = await service.update(mockClient, 'test-id-123', { status: 'done' });
+      expect(result.status).toBe('done');
+      expect(result.nextOccurrenceId).toBeUndefined();
+      expect(mockLogger.error).toHaveBeenCalled();
+    });
+    it('should create the next occurrence for bulk updates', async () => {
+      mockRepository.getByIds.mockResolvedValue(new Map([[recurringTodo.id, recurringTodo]]));
+      mockRepository.bulk.mockResolvedValue([{ success: true, id: 'test-id-123', version: 'v1' }]);
+      const result = await service.bulk(mockClient, {
+        actions: [{ action: 'update', id: 'test-id-123', changes: { status: 'done' } }],
+      });
+      expect(mockRepository.create).toHaveBeenCalledTimes(1);
+      expect(result.results[0].todo?.nextOccurrenceId).toBe('next-id');
+    });
+    it('should create the next occurrence for updates by query', async () => {
+      mockRepository.count.mockResolvedValue(1);
+      mockRepository.scan.mockImplementation(async function* () {
+        yield [recurringTodo];
+      });
+      mockRepository.bulk.mockResolvedValue([{ success: true, id: 'test-id-123', version: 'v1' }]);
+      await service.updateByQuery(mockClient, {
+        filters: { status: ['in_progress'] },
+        patch: { status: 'done' },
+      });
+      expect(mockRepository.create).toHaveBeenCalledTimes(1);
+      expect(mockRepository.update).toHaveBeenLastCalledWith(mockClient, 'test-id-123', {
+        next_occurrence_id: 'next-id',
+      });
+    });
+  });
+  describe('Custom fields', () => {
+    let mockCustomFieldsRepository: jest.Mocked<TodoCustomFieldsRepository>;
+    const definition = (
+      key: string,
+      type: TodoCustomFieldDefinition['type'],
+      extra: Partial<TodoCustomFieldDefinition> = {}
+    ): TodoCustomFieldDefinition => ({
+      key,
+      label: key,
+      type,
+      required: false,
+      createdAt: '2024-01-10T09:00:00.000Z',
+      updatedAt: '2024-01-10T09:00:00.000Z',
+      ...extra,
+    });
+    const customFields = [
+      definition('ticket', 'text'),
+      definition('cost', 'number'),
+      definition('audit_date', 'date'),
+      definition('environment', 'enum', { options: ['production', 'staging'], required: true }),
+      definition('pci_scope', 'boolean'),
+    ];
+    beforeEach(() => {
+      mockCustomFieldsRepository = new TodoCustomFieldsRepository(
+        mockLogger as any,
+        {} as any
+      ) as jest.Mocked<TodoCustomFieldsRepository>;
+      mockCustomFieldsRepository.list.mockResolvedValue(customFields);
+      mockRepository.create.mockImplementation(async (_client, document) =>
+        TodosMapper.fromOpenSearchHit({ _id: 'new-id', _source: document })
+      );
+      mockRepository.getById.mockResolvedValue(sampleTodo);
+      mockRepository.update.mockResolvedValue('v2');
+      mockRepository.search.mockResolvedValue({ todos: [], total: 0 });
+      service = new TodosService(
+        mockLogger as any,
+        mockRepository,
+        undefined,
+        undefined,
+        undefined,
+        mockCustomFieldsRepository
+      );
+    });
+    it('should store valid custom values with trimmed text', async () => {
+      const result = await service.create(mockClient, {
+        title: 'Rotate certificates',
+        custom: {
+          ticket: '  SEC-42 ',
+          cost: 1200.5,
+          audit_date: '2024-03-01T00:00:00.000Z',
+          environment: 'production',
+          pci_scope: false,
+        },
+      });
+      expect(mockRepository.create.mock.calls[0][1].custom).toEqual({
+        ticket: 'SEC-42',
+        cost: 1200.5,
+        audit_date: '2024-03-01T00:00:00.000Z',
+        environment: 'production',
+        pci_scope: false,
+      });
+      expect(result.custom?.ticket).toBe('SEC-42');
+    });
+    it.each([
+      ['an unknown field', { environment: 'production', asset: 'srv-1' }],
+      ['a missing required field', { ticket: 'SEC-42' }],
+      ['a number given as text', { environment: 'production', cost: '100' }],
+      ['a date that is not ISO 8601', { environment: 'production', audit_date: '03/01/2024' }],
+      ['a value outside the enum options', { environment: 'qa' }],
+      ['a boolean given as text', { environment: 'production', pci_scope: 'yes' }],
+    ])('should reject %s on create', async (_name, custom) => {
+      await expect(
+        service.create(mockClient, { title: 'Rotate certificates', custom: custom as any })
+      ).rejects.toThrow(ValidationError);
+      expect(mockRepository.create).not.toHaveBeenCalled();
+    });
+    it('should only check the changed custom values on update', async () => {
+      await service.update(mockClient, 'test-id-123', { custom: { ticket: 'SEC-43', cost: null } });
+      expect(mockRepository.update).toHaveBeenCalledWith(
+        mockClient,
+        'test-id-123',
+        expect.objectContaining({ custom: { ticket: 'SEC-43', cost: null } }),
+        undefined
+      );
+    });
+    it('should not allow clearing a required custom field', async () => {
+      await expect(
+        service.update(mockClient, 'test-id-123', { custom: { environment: null } })
+      ).rejects.toThrow(ValidationError);
+      expect(mockRepository.update).not.toHaveBeenCalled();
+    });
+    it('should not read the registry for updates without custom values', async () => {
+      await service.update(mockClient, 'test-id-123', { title: 'Renamed' });
+      expect(mockCustomFieldsRepository.list).not.toHaveBeenCalled();
+    });
+    it('should convert list filters to the fields\' types', async () => {
+      await service.list(mockClient, {
+        custom: ['cost>=1000', 'audit_date<=2024-06-30', 'pci_scope:true', 'ticket:SEC-1,SEC-2'],
+      });
+      expect(mockRepository.search.mock.calls[0][1].customFilters).toEqual([
+        { key: 'cost', operator: 'gte', value: 1000 },
+        { key: 'audit_date', operator: 'lte', value: '2024-06-30T00:00:00.000Z' },
+        { key: 'pci_scope', operator: 'eq', value: true },
+        { key: 'ticket', operator: 'eq', value: 'SEC-1,SEC-2' },
+      ]);
+    });
+    it.each([
+      ['a malformed expression', 'cost=1000'],
+      ['an unknown field', 'asset:srv-1'],
+      ['a non-numeric number', 'cost>=lots'],
+      ['a range on a boolean', 'pci_scope>=true'],
+    ])('should reject %s as a list filter', async (_name, expression) => {
+      await expect(service.list(mockClient, { custom: [expression] })).rejects.toThrow(
+        ValidationError
+      );
+      expect(mockRepository.search).not.toHaveBeenCalled();
+    });
+  });
+  describe('Export', () => {
+    let mockCustomFieldsRepository: jest.Mocked<TodoCustomFieldsRepository>;
+    const ticketField: TodoCustomFieldDefinition = {
+      key: 'ticket',
+      label: 'Ticket',
+      type: 'text',
+      required: false,
+      createdAt: '2024-01-10T09:00:00.000Z',
+      updatedAt: '2024-01-10T09:00:00.000Z',
+    };
+    const read = async (chunks: AsyncIterable<string>) => {
+      let text = '';
+      for await (const chunk of chunks) {
+        text += chunk;
+      }
+      return text;
+    };
+    beforeEach(() => {
+      mockCustomFieldsRepository = new TodoCustomFieldsRepository(
+        mockLogger as any,
+        {} as any
+      ) as jest.Mocked<TodoCustomFieldsRepository>;
+      mockCustomFieldsRepository.list.mockResolvedValue([ticketField]);
+      mockRepository.scan.mockImplementation(async function* () {
+        yield [{ ...sampleTodo, custom: { ticket: 'SEC-42' } }];
+      });
+      service = new TodosService(
+        mockLogger as any,
+        mockRepository,
+        undefined,
+        undefined,
+        undefined,
+        mockCustomFieldsRepository
+      );
+    });
+    it('should export every built-in column and custom field as CSV by default', async () => {
+      const result = await service.export(mockClient, { status: ['planned'] });
+      expect(result.format).toBe('csv');
+      expect(result.columns).toEqual([...TODO_EXPORT_COLUMNS, 'custom.ticket']);
+      const text = await read(result.chunks);
+      expect(text.split('\r\n')[0]).toBe(result.columns.join(','));
+      expect(mockRepository.scan).toHaveBeenCalledWith(
+        mockClient,
+        expect.objectContaining({ status: ['planned'] })
+      );
+    });
+    it('should export only the requested columns', async () => {
+      const result = await service.export(mockClient, {
+        format: 'ndjson',
+        columns: ['id', 'custom.ticket'],
+      });
+      expect(await read(result.chunks)).toBe(
+        '{"id":"test-id-123","custom":{"ticket":"SEC-42"}}\n'
+      );
+    });
+    it.each([
+      ['an unknown column', ['id', 'owner']],
+      ['an undefined custom field', ['id', 'custom.asset']],
+      ['no column', []],
+    ])('should reject %s before reading any TODO', async (_name, columns) => {
+      await expect(service.export(mockClient, { columns })).rejects.toThrow(ValidationError);
+      expect(mockRepository.scan).not.toHaveBeenCalled();
+    });
+    it('should reject an invalid custom field filter before reading any TODO', async () => {
+      await expect(service.export(mockClient, { custom: ['asset:srv-1'] })).rejects.toThrow(
+        ValidationError
+      );
+      expect(mockRepository.scan).not.toHaveBeenCalled();
+    });
+  });
+  describe('Calendar', () => {
+    const read = async (chunks: AsyncIterable<string>) => {
+      let text = '';
+      for await (const chunk of chunks) {
+        text += chunk;
+      }
+      return text;
+    };
+    beforeEach(() => {
+      mockRepository.scan.mockImplementation(async function* () {
+        yield [{ ...sampleTodo, dueDate: '2024-02-01T17:00:00.000Z' }];
+      });
+    });
+    it('should read the TODOs with a due date that match the filters, by due date', async () => {
+      const chunks = await service.calendar(mockClient, {
+        assignee: 'user1',
+        status: ['planned', 'in_progress'],
+      });
+      const text = await read(chunks);
+      expect(mockRepository.scan).toHaveBeenCalledWith(
+        mockClient,
+        expect.objectContaining({
+          assignee: 'user1',
+          status: ['planned', 'in_progress'],
+          hasDueDate: true,
+          sortField: 'dueDate',
+          sortDirection: 'asc',
+        })
+      );
+      expect(text.startsWith('BEGIN:VCALENDAR\r\n')).toBe(true);
+      expect(text).toContain('UID:test-id-123@customPlugin\r\n');
+      expect(text).toContain('DUE:20240201T170000Z\r\n');
+      expect(text.endsWith('END:VCALENDAR\r\n')).toBe(true);
+    });
+  });
+  describe('Import', () => {
+    const csv = [
+      'Summary,Owner,Priority,Labels',
+      'Rotate keys,alice,High,security; keys',
+      ',bob,low,',
+      'Patch servers,carol,urgent,',
+      'Review firewall,dave,medium,network',
+    ].join('\r\n');
+    beforeEach(() => {
+      mockRepository.bulk.mockImplementation(async (_client, operations) =>
+        operations.map((_operation, index) => ({ success: true as const, id: `new-${index}` }))
+      );
+    });
+    it('should validate every row in a dry run without creating anything', async () => {
+      const result = await service.importTodos(mockClient, {
+        format: 'csv',
+        content: csv,
+        mapping: { Summary: 'title', Owner: 'assignee', Priority: 'priority', Labels: 'tags' },
+        dryRun: true,
+      });
+      expect(result).toMatchObject({ dryRun: true, total: 4, valid: 2, imported: 0 });
+      expect(result.columns).toEqual(['Summary', 'Owner', 'Priority', 'Labels']);
+      expect(result.errors.map(({ row, line, error }) => [row, line, error.details?.field])).toEqual([
+        [2, 3, 'title'],
+        [3, 4, 'priority'],
+      ]);
+      expect(result.preview[0]).toEqual({
+        title: 'Rotate keys',
+        assignee: 'alice',
+        priority: 'high',
+        tags: ['security', 'keys'],
+      });
+      expect(mockRepository.bulk).not.toHaveBeenCalled();
+    });
+    it('should create the valid rows and report the rejected ones', async () => {
+      mockRepository.bulk.mockResolvedValue([
+        { success: true, id: 'new-1' },
+        { success: false, error: new IndexError('Failed to index TODO') },
+      ]);
+      const result = await service.importTodos(
+        mockClient,
+        {
+          format: 'csv',
+          content: csv,
+          mapping: { Summary: 'title', Owner: 'assignee', Priority: 'priority' },
+        },
+        'alice'
+      );
+      const operations = mockRepository.bulk.mock.calls[0][1];
+      expect(operations).toHaveLength(2);
+      expect(operations[0]).toMatchObject({
+        type: 'create',
+        document: { title: 'Rotate keys', assignee: 'alice', priority: 'high' },
+      });
+      expect(result).toMatchObject({ dryRun: false, valid: 2, imported: 1 });
+      expect(result.errors.map((error) => error.row)).toEqual([2, 3, 4]);
+    });
+    it('should map columns named after fields by default', async () => {
+      const result = await service.importTodos(mockClient, {
+        format: 'json',
+        content: '[{"Title": "Rotate keys", "id": "old-1", "tags": ["security"]}]',
+        dryRun: true,
+      });
+      expect(result.mapping).toEqual({ Title: 'title', tags: 'tags' });
+      expect(result.preview).toEqual([{ title: 'Rotate keys', tags: ['security'] }]);
+    });
+    it.each([
+      ['an empty file', { format: 'csv', content: '  ' }],
+      ['a malformed file', { format: 'json', content: '[{"title": "A"' }],
+      ['no column mapped to title', { format: 'csv', content: 'Owner\nalice' }],
+      ['an unknown target field', { format: 'csv', content: 'Summary\nA', mapping: { Summary: 'name' } }],
+      ['a column missing from the file', { format: 'csv', content: 'title\nA', mapping: { Name: 'title' } }],
+    ])('should reject %s', async (_name, request) => {
+      await expect(service.importTodos(mockClient, request as any)).rejects.toThrow(ValidationError);
+      expect(mockRepository.bulk).not.toHaveBeenCalled();
+    });
+  });
+  describe('SARIF import', () => {
+    const sarif = (results: unknown[] | undefined, endTimeUtc = '2024-03-01T12:00:00Z') =>
+      JSON.stringify({
+        version: '2.1.0',
+        runs: [
+          {
+            tool: {
+              driver: {
+                name: 'CodeQL',
+                rules: [{ id: 'js/xss', properties: { tags: ['security'] } }],
+              },
+            },
+            invocations: [{ endTimeUtc }],
+            ...(results && { results }),
+          },
+        ],
+      });
+    const finding = (fingerprint: string, level = 'error') => ({
+      ruleId: 'js/xss',
+      level,
+      message: { text: `Cross-site scripting (${fingerprint})` },
+      locations: [
+        {
+          physicalLocation: { artifactLocation: { uri: 'src/app.js' }, region: { startLine: 7 } },
+        },
+      ],
+      partialFingerprints: { primaryLocationLineHash: fingerprint },
+    });
+    const fingerprintOf = async (key: string) => {
+      const { items } = await service.importSarif(mockClient, {
+        content: sarif([finding(key)]),
+        dryRun: true,
+      });
+      return items[0].fingerprint;
+    };
+    const tracked = (id: string, fingerprint: string, extra: Partial<Todo> = {}): Todo => ({
+      ...sampleTodo,
+      id,
+      title: 'js/xss: Cross-site scripting',
+      tags: ['security'],
+      severity: 'high',
+      finding: {
+        tool: 'CodeQL',
+        ruleId: 'js/xss',
+        fingerprint,
+        location: 'src/app.js:7',
+        lastSeenAt: '2024-02-01T12:00:00.000Z',
+      },
+      ...extra,
+    });
+    beforeEach(() => {
+      mockRepository.scan.mockImplementation(async function* () {});
+      mockRepository.bulk.mockImplementation(async (_client, operations) =>
+        operations.map((operation, index) => ({
+          success: true as const,
+          id: operation.type === 'create' ? `new-${index}` : operation.id,
+        }))
+      );
+    });
+    it('should create a TODO for each new finding at or above the minimum level', async () => {
+      const result = await service.importSarif(
+        mockClient,
+        {
+          content: sarif([finding('a'), finding('b', 'note'), finding('a')]),
+          minLevel: 'warning',
+        },
+        'scanner'
+      );
+      expect(mockRepository.scan).toHaveBeenCalledWith(mockClient, {
+        finding: { tool: 'CodeQL', category: undefined },
+      });
+      const operations = mockRepository.bulk.mock.calls[0][1];
+      expect(operations).toHaveLength(1);
+      expect(operations[0]).toMatchObject({
+        type: 'create',
+        document: {
+          title: 'js/xss: Cross-site scripting (a)',
+          severity: 'high',
+          tags: ['security'],
+          status: 'planned',
+          finding: {
+            tool: 'CodeQL',
+            rule_id: 'js/xss',
+            location: 'src/app.js:7',
+            last_seen_at: '2024-03-01T12:00:00.000Z',
+          },
+        },
+      });
+      expect(result.runs).toEqual([{ tool: 'CodeQL', findings: 3 }]);
+      expect(result.summary).toMatchObject({ create: 1, failed: 0 });
+      expect(result.items[0]).toMatchObject({ action: 'create', id: 'new-0', run: 0, result: 0 });
+    });
+    it('should update the TODO of a finding reported again instead of duplicating it', async () => {
+      const fingerprint = await fingerprintOf('a');
+      mockRepository.scan.mockImplementation(async function* () {
+        yield [tracked('todo-a', fingerprint, { severity: 'low', tags: ['triaged'] })];
+      });
+      const result = await service.importSarif(mockClient, { content: sarif([finding('a')]) });
+      const [operation] = mockRepository.bulk.mock.calls[0][1];
+      expect(operation).toMatchObject({
+        type: 'update',
+        id: 'todo-a',
+        document: {
+          severity: 'high',
+          tags: ['triaged', 'security'],
+          finding: { last_seen_at: '2024-03-01T12:00:00.000Z' },
+        },
+      });
+      expect(result.summary).toMatchObject({ create: 0, update: 1 });
+    });
+    it('should only record when an unchanged finding was last seen', async () => {
+      const [run] = TodoSarifMapper.parse(sarif([finding('a')]));
+      const request = TodoSarifMapper.toCreateRequest(run.findings[0], run);
+      mockRepository.scan.mockImplementation(async function* () {
+        yield [
+          tracked('todo-a', run.findings[0].fingerprint, {
+            title: request.title,
+            description: request.description,
+          }),
+        ];
+      });
+      const result = await service.importSarif(mockClient, { content: sarif([finding('a')]) });
+      expect(mockRepository.bulk.mock.calls[0][1]).toEqual([
+        {
+          type: 'update',
+          id: 'todo-a',
+          document: {
+            finding: expect.objectContaining({ last_seen_at: '2024-03-01T12:00:00.000Z' }),
+          },
+        },
+      ]);
+      expect(result.summary).toMatchObject({ update: 0, unchanged: 1 });
+    });
+    it('should close the TODOs of findings a newer run no longer reports', async () => {
+      const [fingerprintA, fingerprintB] = [await fingerprintOf('a'), await fingerprintOf('b')];
+      mockRepository.scan.mockImplementation(async function* () {
+        yield [
+          tracked('todo-a', fingerprintA),
+          tracked('todo-b', fingerprintB),
+          tracked('todo-c', 'newer', {
+            finding: {
+              ...tracked('x', '').finding!,
+              fingerprint: 'newer',
+              lastSeenAt: '2024-04-01T00:00:00.000Z',
+            },
+          }),
+          tracked('todo-d', 'already-done', { status: 'done' }),
+        ];
+      });
+      const result = await service.importSarif(
+        mockClient,
+        { content: sarif([finding('a')]) },
+        'scanner'
+      );
+      const operations = mockRepository.bulk.mock.calls[0][1];
+      expect(operations.map((operation) => operation.type === 'update' && operation.id)).toEqual([
+        'todo-a',
+        'todo-b',
+      ]);
+      expect(operations[1]).toMatchObject({
+        document: { status: 'done', status_reason: 'No longer reported by CodeQL' },
+      });
+      expect(result.items.map(({ action, id }) => [action, id])).toEqual([
+        ['update', 'todo-a'],
+        ['close', 'todo-b'],
+      ]);
+    });
+    it('should reopen the done TODO of a finding that is reported again', async () => {
+      const fingerprint = await fingerprintOf('a');
+      mockRepository.scan.mockImplementation(async function* () {
+        yield [
+          tracked('todo-a', fingerprint, {
+            status: 'done',
+            completedAt: '2024-02-02T00:00:00.000Z',
+          }),
+        ];
+      });
+      const result = await service.importSarif(mockClient, { content: sarif([finding('a')]) });
+      expect(mockRepository.bulk.mock.calls[0][1][0]).toMatchObject({
+        document: {
+          status: 'planned',
+          completed_at: null,
+          status_reason: 'Reported again by CodeQL',
+        },
+      });
+      expect(result.summary).toMatchObject({ reopen: 1 });
+    });
+    it('should leave TODOs alone for an older run or a run without results', async () => {
+      const fingerprint = await fingerprintOf('a');
+      mockRepository.scan.mockImplementation(async function* () {
+        yield [tracked('todo-a', fingerprint), tracked('todo-b', 'other')];
+      });
+      const older = await service.importSarif(mockClient, {
+        content: sarif([finding('a')], '2024-01-01T00:00:00Z'),
+      });
+      expect(older.items).toEqual([expect.objectContaining({ action: 'unchanged', id: 'todo-a' })]);
+      const incomplete = await service.importSarif(mockClient, { content: sarif(undefined) });
+      expect(incomplete.items).toEqual([]);
+      expect(mockRepository.bulk).not.toHaveBeenCalled();
+    });
+    it('should report findings that fail validation and apply the others', async () => {
+      const result = await service.importSarif(mockClient, {
+        content: sarif([{ ...finding('a'), ruleId: undefined }, finding('b')]),
+      });
+      expect(result.items[0].error).toMatchObject({ details: { field: 'ruleId' } });
+      expect(result.summary).toMatchObject({ create: 1, failed: 1 });
+      expect(mockRepository.bulk.mock.calls[0][1]).toHaveLength(1);
+    });
+    it('should plan the changes without writing in a dry run', async () => {
+      const result = await service.importSarif(mockClient, {
+        content: sarif([finding('a')]),
+        dryRun: true,
+      });
+      expect(result).toMatchObject({ dryRun: true, summary: { create: 1 } });
+      expect(result.items[0].id).toBeUndefined();
+      expect(mockRepository.bulk).not.toHaveBeenCalled();
+    });
+    it.each([
+      ['an empty log', ' '],
+      ['malformed JSON', '{"version"'],
+      ['another SARIF version', JSON.stringify({ version: '2.0.0', runs: [] })],
+    ])('should reject %s', async (_name, content) => {
+      await expect(service.importSarif(mockClient, { content })).rejects.toThrow(ValidationError);
+      expect(mockRepository.scan).not.toHaveBeenCalled();
+    });
+  });
 });
@@ -0,0 +1,77 @@
+import { schema, TypeOf } from '@osd/config-schema';
+import {
+  DEFAULT_CUSTOM_FIELD_ADMIN_ROLES,
+  DEFAULT_TODO_STATUS_TRANSITIONS,
+  DEFAULT_TODO_WIP_LIMITS,
+  TodoStatus,
+} from '../common';
+
+const todoStatusSchema = schema.oneOf([
+  schema.literal('planned'),
+  schema.literal('in_progress'),
+  schema.literal('done'),
+  schema.literal('error'),
+]);
+
+const allowedTransitionsSchema = (from: TodoStatus) =>
+  schema.arrayOf(todoStatusSchema, {
+    defaultValue: [...DEFAULT_TODO_STATUS_TRANSITIONS.allowed[from]],
+  });
+
+const wipLimitSchema = schema.maybe(schema.number({ min: 1 }));
+
+const wipLimitMapSchema = schema.object({
+  planned: wipLimitSchema,
+  in_progress: wipLimitSchema,
+  done: wipLimitSchema,
+  error: wipLimitSchema,
+});
+
+/**
+ * Server-side configuration for the plugin, read from `opensearch_dashboards.yml`
+ * under the `customPlugin` key.
+ *
+ * @example
+ * ```yaml
+ * customPlugin.statusTransitions.allowed.planned: ['in_progress', 'done', 'error']
+ * customPlugin.statusTransitions.requireReason: ['error', 'planned']
+ * customPlugin.wipLimits.enforce: true
+ * customPlugin.wipLimits.global.in_progress: 10
+ * customPlugin.wipLimits.perAssignee: { alice: { in_progress: 3 } }
+ * customPlugin.customFields.adminRoles: ['all_access', 'compliance_admin']
+ * customPlugin.security.enabled: false
+ * ```
+ *
+ * @remarks
+ * `security.enabled` must only be turned off on clusters without the security plugin:
+ * users are then never identified, so admin roles and comment authorship are not checked.
+ */
+export const configSchema = schema.object({
+  statusTransitions: schema.object({
+    enabled: schema.boolean({ defaultValue: DEFAULT_TODO_STATUS_TRANSITIONS.enabled }),
+    allowed: schema.object({
+      planned: allowedTransitionsSchema('planned'),
+      in_progress: allowedTransitionsSchema('in_progress'),
+      done: allowedTransitionsSchema('done'),
+      error: allowedTransitionsSchema('error'),
+    }),
+    requireReason: schema.arrayOf(todoStatusSchema, {
+      defaultValue: [...DEFAULT_TODO_STATUS_TRANSITIONS.requireReason],
+    }),
+  }),
+  wipLimits: schema.object({
+    enforce: schema.boolean({ defaultValue: DEFAULT_TODO_WIP_LIMITS.enforce }),
+    global: wipLimitMapSchema,
+    perAssignee: schema.recordOf(schema.string(), wipLimitMapSchema, { defaultValue: {} }),
+  }),
+  customFields: schema.object({
+    adminRoles: schema.arrayOf(schema.string(), {
+      defaultValue: [...DEFAULT_CUSTOM_FIELD_ADMIN_ROLES],
+    }),
+  }),
+  security: schema.object({
+    enabled: schema.boolean({ defaultValue: true }),
+  }),
+});
+
+export type CustomPluginConfigType = TypeOf<typeof configSchema>;
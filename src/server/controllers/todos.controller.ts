@@ -1,3 +1,4 @@
+import { Readable } from 'stream';
 import {
   OpenSearchDashboardsRequest,
   OpenSearchDashboardsResponseFactory,
@@ -7,9 +8,27 @@ import {
 import {
   CreateTodoRequest,
   UpdateTodoRequest,
+  BulkTodosRequest,
+  UpdateTodosByQueryRequest,
+  ImportTodosRequest,
+  ImportSarifRequest,
   ListTodosQueryParams,
+  ExportTodosQueryParams,
   TodoStatsQueryParams,
   TodoAnalyticsQueryParams,
+  TodoCalendarQueryParams,
+  GetTodoBoardQueryParams,
+  GetTodoBoardResponse,
+  TodoOscalExportQueryParams,
+  TodoReportQueryParams,
+  TodoHistoryQueryParams,
+  TodoCommentsQueryParams,
+  CreateTodoCommentRequest,
+  UpdateTodoCommentRequest,
+  CreateTodoCustomFieldRequest,
+  UpdateTodoCustomFieldRequest,
+  CreateTodoSavedViewRequest,
+  UpdateTodoSavedViewRequest,
   CreateTodoResponse,
   UpdateTodoResponse,
   GetTodoResponse,
@@ -18,11 +37,41 @@ import {
   TodoStatsResponse,
   TodoAnalyticsResponse,
   TodoSuggestionsResponse,
+  GetTodoHistoryResponse,
+  GetTodoChildrenResponse,
+  ListTodoCommentsResponse,
+  TodoCommentResponse,
+  DeleteTodoCommentResponse,
+  ListTodoCustomFieldsResponse,
+  TodoCustomFieldResponse,
+  DeleteTodoCustomFieldResponse,
+  ListTodoSavedViewsResponse,
+  TodoSavedViewResponse,
+  DeleteTodoSavedViewResponse,
+  BulkTodosResponse,
+  UpdateTodosByQueryResponse,
+  RebalanceTodoRanksResponse,
+  GetTodoWipLimitsResponse,
+  GetTodoStatusTransitionsResponse,
+  ImportTodosResponse,
+  ImportSarifResponse,
+  TODO_EXPORT_CONTENT_TYPES,
+  TODO_CALENDAR_CONTENT_TYPE,
+  OSCAL_CONTENT_TYPE,
+  TODO_REPORT_CONTENT_TYPES,
+  TODO_REPORT_FILE_EXTENSIONS,
 } from '../../common';
-import { TodosService, TodoStatsService, TodoAnalyticsService } from '../services';
+import {
+  TodosService,
+  TodoStatsService,
+  TodoAnalyticsService,
+  TodoCommentsService,
+  TodoCustomFieldsService,
+  TodoSavedViewsService,
+} from '../services';
 import { TodoOpenSearchClient } from '../repositories';
 import { mapErrorToHttpResponse } from '../errors';
-import { RequestParser } from '../utils';
+import { RequestParser, getCurrentUser, getCurrentUsername } from '../utils';
 
 /**
  * Controller layer for TODO HTTP request handling.
@@ -39,18 +88,27 @@ export class TodosController {
   private readonly todosService: TodosService;
   private readonly statsService: TodoStatsService;
   private readonly analyticsService: TodoAnalyticsService;
+  private readonly commentsService: TodoCommentsService;
+  private readonly customFieldsService: TodoCustomFieldsService;
+  private readonly savedViewsService: TodoSavedViewsService;
   private readonly requestParser: RequestParser;
 
   constructor(
     logger: Logger,
     todosService: TodosService,
     statsService: TodoStatsService,
-    analyticsService: TodoAnalyticsService
+    analyticsService: TodoAnalyticsService,
+    commentsService: TodoCommentsService,
+    customFieldsService: TodoCustomFieldsService,
+    savedViewsService: TodoSavedViewsService
   ) {
     this.logger = logger;
     this.todosService = todosService;
     this.statsService = statsService;
     this.analyticsService = analyticsService;
+    this.commentsService = commentsService;
+    this.customFieldsService = customFieldsService;
+    this.savedViewsService = savedViewsService;
     this.requestParser = new RequestParser(logger);
   }
 
@@ -77,6 +135,100 @@ export class TodosController {
     }
   }
 
+  /**
+   * Loads the status columns of the Kanban board.
+   *
+   * @param context - Request handler context with OpenSearch client
+   * @param request - HTTP request with filter, column size and offset query parameters
+   * @param response - Response factory for building HTTP responses
+   * @returns HTTP response with the TODOs and total of each column or error
+   */
+  async getBoard(
+    context: RequestHandlerContext,
+    request: OpenSearchDashboardsRequest<unknown, GetTodoBoardQueryParams>,
+    response: OpenSearchDashboardsResponseFactory
+  ) {
+    try {
+      const client = this.getOpenSearchClient(context);
+      const params = this.requestParser.parseBoardQueryParams(request.query);
+      const result: GetTodoBoardResponse = await this.todosService.board(client, params);
+      return response.ok({ body: result });
+    } catch (error) {
+      return mapErrorToHttpResponse(error, response, this.logger);
+    }
+  }
+
+  /**
+   * Exports every TODO matching the list filters as a file download.
+   *
+   * @param context - Request handler context with OpenSearch client
+   * @param request - HTTP request with filter, format and column query parameters
+   * @param response - Response factory for building HTTP responses
+   * @returns HTTP response streaming the export file, or error
+   *
+   * @remarks
+   * Invalid parameters are reported as a regular error response. Once streaming
+   * has started the status can no longer change, so a failure while reading
+   * later batches is logged and ends the stream early.
+   */
+  async exportTodos(
+    context: RequestHandlerContext,
+    request: OpenSearchDashboardsRequest<unknown, ExportTodosQueryParams>,
+    response: OpenSearchDashboardsResponseFactory
+  ) {
+    try {
+      const client = this.getOpenSearchClient(context);
+      const params = this.requestParser.parseExportQueryParams(request.query);
+      const result = await this.todosService.export(client, params);
+      const body = Readable.from(result.chunks);
+      body.on('error', (error) => this.logger.error(`TODO export failed: ${error.message}`));
+      const date = new Date().toISOString().slice(0, 10);
+      return response.ok({
+        body,
+        headers: {
+          'content-type': TODO_EXPORT_CONTENT_TYPES[result.format],
+          'content-disposition': `attachment; filename="todos-${date}.${result.format}"`,
+        },
+      });
+    } catch (error) {
+      return mapErrorToHttpResponse(error, response, this.logger);
+    }
+  }
+
+  /**
+   * Serves the iCalendar feed of the TODOs with a due date that match the list filters.
+   *
+   * @param context - Request handler context with OpenSearch client
+   * @param request - HTTP request with filter query parameters
+   * @param response - Response factory for building HTTP responses
+   * @returns HTTP response streaming the feed, or error
+   *
+   * @remarks
+   * As with {@link TodosController.exportTodos}, a failure after streaming has
+   * started is logged and ends the feed early.
+   */
+  async getCalendar(
+    context: RequestHandlerContext,
+    request: OpenSearchDashboardsRequest<unknown, TodoCalendarQueryParams>,
+    response: OpenSearchDashboardsResponseFactory
+  ) {
+    try {
+      const client = this.getOpenSearchClient(context);
+      const params = this.requestParser.parseCalendarQueryParams(request.query);
+      const body = Readable.from(await this.todosService.calendar(client, params));
+      body.on('error', (error) => this.logger.error(`TODO calendar failed: ${error.message}`));
+      return response.ok({
+        body,
+        headers: {
+          'content-type': TODO_CALENDAR_CONTENT_TYPE,
+          'content-disposition': 'inline; filename="todos.ics"',
+        },
+      });
+    } catch (error) {
+      return mapErrorToHttpResponse(error, response, this.logger);
+    }
+  }
+
   /**
    * Retrieves a single TODO item by ID.
    *
@@ -117,7 +269,8 @@ export class TodosController {
     try {
       const client = this.getOpenSearchClient(context);
       const createRequest = this.requestParser.parseCreateRequest(request.body);
-      const todo = await this.todosService.create(client, createRequest);
+      const actor = await getCurrentUsername(client, this.logger);
+      const todo = await this.todosService.create(client, createRequest, actor);
       const responseBody: CreateTodoResponse = { todo };
       return response.ok({ body: responseBody });
     } catch (error) {
@@ -129,7 +282,7 @@ export class TodosController {
    * Updates an existing TODO item.
    *
    * @param context - Request handler context with OpenSearch client
-   * @param request - HTTP request with TODO ID in path and update data in body
+   * @param request - HTTP request with TODO ID in path, update data in body and optional `If-Match` version
    * @param response - Response factory for building HTTP responses
    * @returns HTTP response with updated TODO or error
    */
@@ -141,8 +294,13 @@ export class TodosController {
     try {
       const client = this.getOpenSearchClient(context);
       const { id } = request.params;
-      const updateRequest = this.requestParser.parseUpdateRequest(request.body);
-      const todo = await this.todosService.update(client, id, updateRequest);
+      const ifMatch = this.requestParser.parseIfMatchHeader(request.headers);
+      const updateRequest = {
+        ...this.requestParser.parseUpdateRequest(request.body),
+        ...(ifMatch && { version: ifMatch }),
+      };
+      const actor = await getCurrentUsername(client, this.logger);
+      const todo = await this.todosService.update(client, id, updateRequest, actor);
       const responseBody: UpdateTodoResponse = { todo };
       return response.ok({ body: responseBody });
     } catch (error) {
@@ -166,7 +324,8 @@ export class TodosController {
     try {
       const client = this.getOpenSearchClient(context);
       const { id } = request.params;
-      await this.todosService.delete(client, id);
+      const actor = await getCurrentUsername(client, this.logger);
+      await this.todosService.delete(client, id, actor);
       const responseBody: DeleteTodoResponse = { id, deleted: true };
       return response.ok({ body: responseBody });
     } catch (error) {
@@ -174,6 +333,512 @@ export class TodosController {
     }
   }
 
+  /**
+   * Creates, updates and deletes several TODO items in one request.
+   *
+   * @param context - Request handler context with OpenSearch client
+   * @param request - HTTP request with the bulk actions in body
+   * @param response - Response factory for building HTTP responses
+   * @returns HTTP response with per-action results or error
+   */
+  async bulk(
+    context: RequestHandlerContext,
+    request: OpenSearchDashboardsRequest<unknown, unknown, BulkTodosRequest>,
+    response: OpenSearchDashboardsResponseFactory
+  ) {
+    try {
+      const client = this.getOpenSearchClient(context);
+      const bulkRequest = this.requestParser.parseBulkRequest(request.body);
+      const actor = await getCurrentUsername(client, this.logger);
+      const responseBody: BulkTodosResponse = await this.todosService.bulk(
+        client,
+        bulkRequest,
+        actor
+      );
+      return response.ok({ body: responseBody });
+    } catch (error) {
+      return mapErrorToHttpResponse(error, response, this.logger);
+    }
+  }
+
+  /**
+   * Creates TODO items from a CSV or JSON file, or validates them in a dry run.
+   *
+   * @param context - Request handler context with OpenSearch client
+   * @param request - HTTP request with file content, format, mapping and dry-run flag in body
+   * @param response - Response factory for building HTTP responses
+   * @returns HTTP response with import counts and per-row errors, or error
+   */
+  async importTodos(
+    context: RequestHandlerContext,
+    request: OpenSearchDashboardsRequest<unknown, unknown, ImportTodosRequest>,
+    response: OpenSearchDashboardsResponseFactory
+  ) {
+    try {
+      const client = this.getOpenSearchClient(context);
+      const importRequest = this.requestParser.parseImportRequest(request.body);
+      const actor = await getCurrentUsername(client, this.logger);
+      const responseBody: ImportTodosResponse = await this.todosService.importTodos(
+        client,
+        importRequest,
+        actor
+      );
+      return response.ok({ body: responseBody });
+    } catch (error) {
+      return mapErrorToHttpResponse(error, response, this.logger);
+    }
+  }
+
+  /**
+   * Creates, updates and closes TODOs from the findings of a SARIF log.
+   *
+   * @param context - Request handler context with OpenSearch client
+   * @param request - HTTP request with the SARIF log, lowest level and dry-run flag in body
+   * @param response - Response factory for building HTTP responses
+   * @returns HTTP response with the change made for every finding, or error
+   */
+  async importSarif(
+    context: RequestHandlerContext,
+    request: OpenSearchDashboardsRequest<unknown, unknown, ImportSarifRequest>,
+    response: OpenSearchDashboardsResponseFactory
+  ) {
+    try {
+      const client = this.getOpenSearchClient(context);
+      const importRequest = this.requestParser.parseImportSarifRequest(request.body);
+      const actor = await getCurrentUsername(client, this.logger);
+      const responseBody: ImportSarifResponse = await this.todosService.importSarif(
+        client,
+        importRequest,
+        actor
+      );
+      return response.ok({ body: responseBody });
+    } catch (error) {
+      return mapErrorToHttpResponse(error, response, this.logger);
+    }
+  }
+
+  /**
+   * Updates every TODO item matching a filter, or counts them in a dry run.
+   *
+   * @param context - Request handler context with OpenSearch client
+   * @param request - HTTP request with filters, patch and dry-run flag in body
+   * @param response - Response factory for building HTTP responses
+   * @returns HTTP response with match and update counts or error
+   */
+  async updateByQuery(
+    context: RequestHandlerContext,
+    request: OpenSearchDashboardsRequest<unknown, unknown, UpdateTodosByQueryRequest>,
+    response: OpenSearchDashboardsResponseFactory
+  ) {
+    try {
+      const client = this.getOpenSearchClient(context);
+      const updateRequest = this.requestParser.parseUpdateByQueryRequest(request.body);
+      const actor = await getCurrentUsername(client, this.logger);
+      const responseBody: UpdateTodosByQueryResponse = await this.todosService.updateByQuery(
+        client,
+        updateRequest,
+        actor
+      );
+      return response.ok({ body: responseBody });
+    } catch (error) {
+      return mapErrorToHttpResponse(error, response, this.logger);
+    }
+  }
+
+  /**
+   * Gives the ranked TODO items new, evenly spaced ranks in the same order.
+   *
+   * @param context - Request handler context with OpenSearch client
+   * @param request - HTTP request
+   * @param response - Response factory for building HTTP responses
+   * @returns HTTP response with the number of rebalanced TODOs or error
+   */
+  async rebalanceRanks(
+    context: RequestHandlerContext,
+    request: OpenSearchDashboardsRequest,
+    response: OpenSearchDashboardsResponseFactory
+  ) {
+    try {
+      const client = this.getOpenSearchClient(context);
+      const responseBody: RebalanceTodoRanksResponse = await this.todosService.rebalanceRanks(
+        client
+      );
+      return response.ok({ body: responseBody });
+    } catch (error) {
+      return mapErrorToHttpResponse(error, response, this.logger);
+    }
+  }
+
+  /**
+   * Retrieves the change history of a TODO item.
+   *
+   * @param context - Request handler context with OpenSearch client
+   * @param request - HTTP request with TODO ID in path and pagination query parameters
+   * @param response - Response factory for building HTTP responses
+   * @returns HTTP response with history entries or error
+   */
+  async getHistory(
+    context: RequestHandlerContext,
+    request: OpenSearchDashboardsRequest<{ id: string }, TodoHistoryQueryParams>,
+    response: OpenSearchDashboardsResponseFactory
+  ) {
+    try {
+      const client = this.getOpenSearchClient(context);
+      const { id } = request.params;
+      const params = this.requestParser.parseHistoryQueryParams(request.query);
+      const responseBody: GetTodoHistoryResponse = await this.todosService.getHistory(
+        client,
+        id,
+        params
+      );
+      return response.ok({ body: responseBody });
+    } catch (error) {
+      return mapErrorToHttpResponse(error, response, this.logger);
+    }
+  }
+
+  /**
+   * Lists the direct subtasks of a TODO item.
+   *
+   * @param context - Request handler context with OpenSearch client
+   * @param request - HTTP request with parent TODO ID in path and list query parameters
+   * @param response - Response factory for building HTTP responses
+   * @returns HTTP response with subtasks and roll-up progress or error
+   */
+  async getChildren(
+    context: RequestHandlerContext,
+    request: OpenSearchDashboardsRequest<{ id: string }, ListTodosQueryParams>,
+    response: OpenSearchDashboardsResponseFactory
+  ) {
+    try {
+      const client = this.getOpenSearchClient(context);
+      const { id } = request.params;
+      const params = this.requestParser.parseListQueryParams(request.query);
+      const responseBody: GetTodoChildrenResponse = await this.todosService.getChildren(
+        client,
+        id,
+        params
+      );
+      return response.ok({ body: responseBody });
+    } catch (error) {
+      return mapErrorToHttpResponse(error, response, this.logger);
+    }
+  }
+
+  /**
+   * Lists the comments of a TODO item, oldest first.
+   *
+   * @param context - Request handler context with OpenSearch client
+   * @param request - HTTP request with TODO ID in path and pagination query parameters
+   * @param response - Response factory for building HTTP responses
+   * @returns HTTP response with comments or error
+   */
+  async listComments(
+    context: RequestHandlerContext,
+    request: OpenSearchDashboardsRequest<{ id: string }, TodoCommentsQueryParams>,
+    response: OpenSearchDashboardsResponseFactory
+  ) {
+    try {
+      const client = this.getOpenSearchClient(context);
+      const { id } = request.params;
+      const params = this.requestParser.parseCommentsQueryParams(request.query);
+      const responseBody: ListTodoCommentsResponse = await this.commentsService.list(
+        client,
+        id,
+        params
+      );
+      return response.ok({ body: responseBody });
+    } catch (error) {
+      return mapErrorToHttpResponse(error, response, this.logger);
+    }
+  }
+
+  /**
+   * Adds a comment to a TODO item as the authenticated user.
+   *
+   * @param context - Request handler context with OpenSearch client
+   * @param request - HTTP request with TODO ID in path and comment in body
+   * @param response - Response factory for building HTTP responses
+   * @returns HTTP response with the stored comment or error
+   */
+  async createComment(
+    context: RequestHandlerContext,
+    request: OpenSearchDashboardsRequest<{ id: string }, unknown, CreateTodoCommentRequest>,
+    response: OpenSearchDashboardsResponseFactory
+  ) {
+    try {
+      const client = this.getOpenSearchClient(context);
+      const { id } = request.params;
+      const commentRequest = this.requestParser.parseCommentRequest(request.body);
+      const author = await getCurrentUsername(client, this.logger);
+      const comment = await this.commentsService.create(client, id, commentRequest, author);
+      const responseBody: TodoCommentResponse = { comment };
+      return response.ok({ body: responseBody });
+    } catch (error) {
+      return mapErrorToHttpResponse(error, response, this.logger);
+    }
+  }
+
+  /**
+   * Edits a comment on a TODO item.
+   *
+   * @param context - Request handler context with OpenSearch client
+   * @param request - HTTP request with TODO and comment IDs in path and new text in body
+   * @param response - Response factory for building HTTP responses
+   * @returns HTTP response with the edited comment or error
+   */
+  async updateComment(
+    context: RequestHandlerContext,
+    request: OpenSearchDashboardsRequest<
+      { id: string; commentId: string },
+      unknown,
+      UpdateTodoCommentRequest
+    >,
+    response: OpenSearchDashboardsResponseFactory
+  ) {
+    try {
+      const client = this.getOpenSearchClient(context);
+      const { id, commentId } = request.params;
+      const commentRequest = this.requestParser.parseCommentRequest(request.body);
+      const actor = await getCurrentUsername(client, this.logger);
+      const comment = await this.commentsService.update(
+        client,
+        id,
+        commentId,
+        commentRequest,
+        actor
+      );
+      const responseBody: TodoCommentResponse = { comment };
+      return response.ok({ body: responseBody });
+    } catch (error) {
+      return mapErrorToHttpResponse(error, response, this.logger);
+    }
+  }
+
+  /**
+   * Deletes a comment on a TODO item.
+   *
+   * @param context - Request handler context with OpenSearch client
+   * @param request - HTTP request with TODO and comment IDs in path
+   * @param response - Response factory for building HTTP responses
+   * @returns HTTP response confirming deletion or error
+   */
+  async deleteComment(
+    context: RequestHandlerContext,
+    request: OpenSearchDashboardsRequest<{ id: string; commentId: string }>,
+    response: OpenSearchDashboardsResponseFactory
+  ) {
+    try {
+      const client = this.getOpenSearchClient(context);
+      const { id, commentId } = request.params;
+      const actor = await getCurrentUsername(client, this.logger);
+      await this.commentsService.delete(client, id, commentId, actor);
+      const responseBody: DeleteTodoCommentResponse = { id: commentId, deleted: true };
+      return response.ok({ body: responseBody });
+    } catch (error) {
+      return mapErrorToHttpResponse(error, response, this.logger);
+    }
+  }
+
+  /**
+   * Lists the deployment's custom field definitions.
+   *
+   * @param context - Request handler context with OpenSearch client
+   * @param request - HTTP request
+   * @param response - Response factory for building HTTP responses
+   * @returns HTTP response with the field definitions or error
+   */
+  async listCustomFields(
+    context: RequestHandlerContext,
+    request: OpenSearchDashboardsRequest,
+    response: OpenSearchDashboardsResponseFactory
+  ) {
+    try {
+      const client = this.getOpenSearchClient(context);
+      const fields = await this.customFieldsService.list(client);
+      const responseBody: ListTodoCustomFieldsResponse = { fields };
+      return response.ok({ body: responseBody });
+    } catch (error) {
+      return mapErrorToHttpResponse(error, response, this.logger);
+    }
+  }
+
+  /**
+   * Defines a new custom field (admin roles only).
+   *
+   * @param context - Request handler context with OpenSearch client
+   * @param request - HTTP request with the field definition in body
+   * @param response - Response factory for building HTTP responses
+   * @returns HTTP response with the stored definition or error
+   */
+  async createCustomField(
+    context: RequestHandlerContext,
+    request: OpenSearchDashboardsRequest<unknown, unknown, CreateTodoCustomFieldRequest>,
+    response: OpenSearchDashboardsResponseFactory
+  ) {
+    try {
+      const client = this.getOpenSearchClient(context);
+      const fieldRequest = this.requestParser.parseCustomFieldCreateRequest(request.body);
+      const user = await getCurrentUser(client, this.logger);
+      const field = await this.customFieldsService.create(client, fieldRequest, user);
+      const responseBody: TodoCustomFieldResponse = { field };
+      return response.ok({ body: responseBody });
+    } catch (error) {
+      return mapErrorToHttpResponse(error, response, this.logger);
+    }
+  }
+
+  /**
+   * Changes a custom field definition (admin roles only).
+   *
+   * @param context - Request handler context with OpenSearch client
+   * @param request - HTTP request with the field key in path and changes in body
+   * @param response - Response factory for building HTTP responses
+   * @returns HTTP response with the updated definition or error
+   */
+  async updateCustomField(
+    context: RequestHandlerContext,
+    request: OpenSearchDashboardsRequest<{ key: string }, unknown, UpdateTodoCustomFieldRequest>,
+    response: OpenSearchDashboardsResponseFactory
+  ) {
+    try {
+      const client = this.getOpenSearchClient(context);
+      const { key } = request.params;
+      const fieldRequest = this.requestParser.parseCustomFieldUpdateRequest(request.body);
+      const user = await getCurrentUser(client, this.logger);
+      const field = await this.customFieldsService.update(client, key, fieldRequest, user);
+      const responseBody: TodoCustomFieldResponse = { field };
+      return response.ok({ body: responseBody });
+    } catch (error) {
+      return mapErrorToHttpResponse(error, response, this.logger);
+    }
+  }
+
+  /**
+   * Deletes a custom field definition (admin roles only).
+   *
+   * @param context - Request handler context with OpenSearch client
+   * @param request - HTTP request with the field key in path
+   * @param response - Response factory for building HTTP responses
+   * @returns HTTP response confirming deletion or error
+   */
+  async deleteCustomField(
+    context: RequestHandlerContext,
+    request: OpenSearchDashboardsRequest<{ key: string }>,
+    response: OpenSearchDashboardsResponseFactory
+  ) {
+    try {
+      const client = this.getOpenSearchClient(context);
+      const { key } = request.params;
+      const user = await getCurrentUser(client, this.logger);
+      await this.customFieldsService.delete(client, key, user);
+      const responseBody: DeleteTodoCustomFieldResponse = { key, deleted: true };
+      return response.ok({ body: responseBody });
+    } catch (error) {
+      return mapErrorToHttpResponse(error, response, this.logger);
+    }
+  }
+
+  /**
+   * Lists the authenticated user's saved views and the views shared by others.
+   *
+   * @param context - Request handler context with OpenSearch client
+   * @param request - HTTP request
+   * @param response - Response factory for building HTTP responses
+   * @returns HTTP response with the visible views or error
+   */
+  async listSavedViews(
+    context: RequestHandlerContext,
+    request: OpenSearchDashboardsRequest,
+    response: OpenSearchDashboardsResponseFactory
+  ) {
+    try {
+      const client = this.getOpenSearchClient(context);
+      const username = await getCurrentUsername(client, this.logger);
+      const views = await this.savedViewsService.list(client, username);
+      const responseBody: ListTodoSavedViewsResponse = { views, username };
+      return response.ok({ body: responseBody });
+    } catch (error) {
+      return mapErrorToHttpResponse(error, response, this.logger);
+    }
+  }
+
+  /**
+   * Saves a view for the authenticated user.
+   *
+   * @param context - Request handler context with OpenSearch client
+   * @param request - HTTP request with the view in body
+   * @param response - Response factory for building HTTP responses
+   * @returns HTTP response with the stored view or error
+   */
+  async createSavedView(
+    context: RequestHandlerContext,
+    request: OpenSearchDashboardsRequest<unknown, unknown, CreateTodoSavedViewRequest>,
+    response: OpenSearchDashboardsResponseFactory
+  ) {
+    try {
+      const client = this.getOpenSearchClient(context);
+      const viewRequest = this.requestParser.parseSavedViewCreateRequest(request.body);
+      const owner = await getCurrentUsername(client, this.logger);
+      const view = await this.savedViewsService.create(client, viewRequest, owner);
+      const responseBody: TodoSavedViewResponse = { view };
+      return response.ok({ body: responseBody });
+    } catch (error) {
+      return mapErrorToHttpResponse(error, response, this.logger);
+    }
+  }
+
+  /**
+   * Changes a saved view (owner only).
+   *
+   * @param context - Request handler context with OpenSearch client
+   * @param request - HTTP request with the view ID in path and changes in body
+   * @param response - Response factory for building HTTP responses
+   * @returns HTTP response with the updated view or error
+   */
+  async updateSavedView(
+    context: RequestHandlerContext,
+    request: OpenSearchDashboardsRequest<{ viewId: string }, unknown, UpdateTodoSavedViewRequest>,
+    response: OpenSearchDashboardsResponseFactory
+  ) {
+    try {
+      const client = this.getOpenSearchClient(context);
+      const { viewId } = request.params;
+      const viewRequest = this.requestParser.parseSavedViewUpdateRequest(request.body);
+      const actor = await getCurrentUsername(client, this.logger);
+      const view = await this.savedViewsService.update(client, viewId, viewRequest, actor);
+      const responseBody: TodoSavedViewResponse = { view };
+      return response.ok({ body: responseBody });
+    } catch (error) {
+      return mapErrorToHttpResponse(error, response, this.logger);
+    }
+  }
+
+  /**
+   * Deletes a saved view (owner only).
+   *
+   * @param context - Request handler context with OpenSearch client
+   * @param request - HTTP request with the view ID in path
+   * @param response - Response factory for building HTTP responses
+   * @returns HTTP response confirming deletion or error
+   */
+  async deleteSavedView(
+    context: RequestHandlerContext,
+    request: OpenSearchDashboardsRequest<{ viewId: string }>,
+    response: OpenSearchDashboardsResponseFactory
+  ) {
+    try {
+      const client = this.getOpenSearchClient(context);
+      const { viewId } = request.params;
+      const actor = await getCurrentUsername(client, this.logger);
+      await this.savedViewsService.delete(client, viewId, actor);
+      const responseBody: DeleteTodoSavedViewResponse = { id: viewId, deleted: true };
+      return response.ok({ body: responseBody });
+    } catch (error) {
+      return mapErrorToHttpResponse(error, response, this.logger);
+    }
+  }
+
   /**
    * Retrieves aggregated TODO statistics.
    *
@@ -222,6 +887,68 @@ export class TodosController {
     }
   }
 
+  /**
+   * Downloads the open TODOs of a compliance framework as an OSCAL POA&M document.
+   *
+   * @param context - Request handler context with OpenSearch client
+   * @param request - HTTP request with the compliance framework query parameter
+   * @param response - Response factory for building HTTP responses
+   * @returns HTTP response with the OSCAL document as an attachment, or error
+   */
+  async exportOscal(
+    context: RequestHandlerContext,
+    request: OpenSearchDashboardsRequest<unknown, TodoOscalExportQueryParams>,
+    response: OpenSearchDashboardsResponseFactory
+  ) {
+    try {
+      const client = this.getOpenSearchClient(context);
+      const params = this.requestParser.parseOscalExportQueryParams(request.query);
+      const document = await this.analyticsService.exportOscal(client, params);
+      const slug = params.complianceFramework.toLowerCase().replace(/[^a-z0-9]+/g, '-');
+      const date = new Date().toISOString().slice(0, 10);
+      return response.ok({
+        body: document,
+        headers: {
+          'content-type': OSCAL_CONTENT_TYPE,
+          'content-disposition': `attachment; filename="poam-${slug}-${date}.json"`,
+        },
+      });
+    } catch (error) {
+      return mapErrorToHttpResponse(error, response, this.logger);
+    }
+  }
+
+  /**
+   * Downloads a compliance report as a self-contained HTML or Markdown file.
+   *
+   * @param context - Request handler context with OpenSearch client
+   * @param request - HTTP request with format, framework and date range query parameters
+   * @param response - Response factory for building HTTP responses
+   * @returns HTTP response with the report as an attachment, or error
+   */
+  async getReport(
+    context: RequestHandlerContext,
+    request: OpenSearchDashboardsRequest<unknown, TodoReportQueryParams>,
+    response: OpenSearchDashboardsResponseFactory
+  ) {
+    try {
+      const client = this.getOpenSearchClient(context);
+      const params = this.requestParser.parseReportQueryParams(request.query);
+      const report = await this.analyticsService.getReport(client, params);
+      const date = new Date().toISOString().slice(0, 10);
+      const extension = TODO_REPORT_FILE_EXTENSIONS[report.format];
+      return response.ok({
+        body: report.content,
+        headers: {
+          'content-type': TODO_REPORT_CONTENT_TYPES[report.format],
+          'content-disposition': `attachment; filename="compliance-report-${date}.${extension}"`,
+        },
+      });
+    } catch (error) {
+      return mapErrorToHttpResponse(error, response, this.logger);
+    }
+  }
+
   /**
    * Retrieves suggestions for tags and compliance frameworks.
    *
@@ -248,6 +975,52 @@ export class TodosController {
     }
   }
 
+  /**
+   * Retrieves the work-in-progress limits of the Kanban columns.
+   *
+   * @param context - Request handler context with OpenSearch client
+   * @param request - HTTP request
+   * @param response - Response factory for building HTTP responses
+   * @returns HTTP response with the configured limits or error
+   */
+  async getWipLimits(
+    context: RequestHandlerContext,
+    request: OpenSearchDashboardsRequest,
+    response: OpenSearchDashboardsResponseFactory
+  ) {
+    try {
+      const responseBody: GetTodoWipLimitsResponse = {
+        limits: this.todosService.getWipLimits(),
+      };
+      return response.ok({ body: responseBody });
+    } catch (error) {
+      return mapErrorToHttpResponse(error, response, this.logger);
+    }
+  }
+
+  /**
+   * Retrieves the status workflow applied to TODO updates.
+   *
+   * @param context - Request handler context with OpenSearch client
+   * @param request - HTTP request
+   * @param response - Response factory for building HTTP responses
+   * @returns HTTP response with the configured workflow or error
+   */
+  async getStatusTransitions(
+    context: RequestHandlerContext,
+    request: OpenSearchDashboardsRequest,
+    response: OpenSearchDashboardsResponseFactory
+  ) {
+    try {
+      const responseBody: GetTodoStatusTransitionsResponse = {
+        rules: this.todosService.getStatusTransitions(),
+      };
+      return response.ok({ body: responseBody });
+    } catch (error) {
+      return mapErrorToHttpResponse(error, response, this.logger);
+    }
+  }
+
   /**
    * Extracts the request-scoped OpenSearch client from the request context.
    *
@@ -99,6 +99,29 @@ export class ValidationError extends AppError {
     super(message, details);
   }
 }
+/**
+ * Error thrown when the current user is not allowed to perform an operation.
+ * Maps to HTTP 403 status code.
+ *
+ * @example
+ * ```typescript
+ * throw new ForbiddenError('Only administrators can manage custom fields');
+ * ```
+ */
+export class ForbiddenError extends AppError {
+  readonly statusCode = 403;
+  readonly code = 'FORBIDDEN';
+
+  /**
+   * Creates a new forbidden error.
+   *
+   * @param message - Description of the denied operation
+   * @param details - Optional details about the denial
+   */
+  constructor(message: string, details?: Record<string, unknown>) {
+    super(message, details);
+  }
+}
 /**
  * Error thrown when a resource conflict occurs.
  * Maps to HTTP 409 status code.
@@ -1,5 +1,9 @@
-import { PluginInitializerContext } from '../../../src/core/server';
+import { PluginConfigDescriptor, PluginInitializerContext } from '../../../src/core/server';
 import { CustomPluginPlugin } from './plugin';
+import { configSchema, CustomPluginConfigType } from './config';
+export const config: PluginConfigDescriptor<CustomPluginConfigType> = {
+  schema: configSchema,
+};
 export function plugin(initializerContext: PluginInitializerContext) {
   return new CustomPluginPlugin(initializerContext);
 }
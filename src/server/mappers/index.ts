@@ -1 +1,11 @@
 export * from './todos.mapper';
+export * from './todo_audit.mapper';
+export * from './todo_comments.mapper';
+export * from './todo_custom_fields.mapper';
+export * from './todo_saved_views.mapper';
+export * from './todo_export.mapper';
+export * from './todo_import.mapper';
+export * from './todo_sarif.mapper';
+export * from './todo_oscal.mapper';
+export * from './todo_report.mapper';
+export * from './todo_calendar.mapper';
@@ -0,0 +1,103 @@
+import {
+  TodoHistoryAction,
+  TodoHistoryEntry,
+  TodoFieldChange,
+  TodoDiffableField,
+  TodoFieldValue,
+} from '../../common';
+import { OpenSearchHit } from './todos.mapper';
+/**
+ * Internal representation of a single field change in an audit document.
+ */
+export interface TodoAuditChangeDocument {
+  /** Name of the changed field (camelCase, as exposed by the API) */
+  field: TodoDiffableField;
+
+  /** Value before the change, or null if it was not set */
+  old_value: TodoFieldValue;
+
+  /** Value after the change, or null if it was cleared */
+  new_value: TodoFieldValue;
+}
+
+/**
+ * Internal representation of a TODO history entry in OpenSearch.
+ * Uses snake_case field names as per OpenSearch conventions.
+ */
+export interface TodoAuditDocument {
+  /** ID of the TODO the change applies to */
+  todo_id: string;
+
+  /** Kind of change */
+  action: TodoHistoryAction;
+
+  /** Username of the user who made the change */
+  actor: string;
+
+  /** Timestamp of the change in ISO 8601 format */
+  timestamp: string;
+
+  /** Field-level changes */
+  changes: TodoAuditChangeDocument[];
+}
+
+/**
+ * Mapper class for TODO history (audit trail) entries.
+ *
+ * @remarks
+ * Maps between {@link TodoAuditDocument} stored in the audit index and
+ * {@link TodoHistoryEntry} returned by the API.
+ */
+export class TodoAuditMapper {
+  /**
+   * Builds an audit document for a TODO change.
+   *
+   * @param todoId - ID of the changed TODO
+   * @param action - Kind of change
+   * @param actor - Username of the user who made the change
+   * @param changes - Field-level changes
+   * @param timestamp - Timestamp of the change in ISO 8601 format
+   * @returns OpenSearch document ready for indexing
+   */
+  static toDocument(
+    todoId: string,
+    action: TodoHistoryAction,
+    actor: string,
+    changes: readonly TodoFieldChange[],
+    timestamp: string
+  ): TodoAuditDocument {
+    return {
+      todo_id: todoId,
+      action,
+      actor,
+      timestamp,
+      changes: changes.map((change) => ({
+        field: change.field,
+        old_value: change.oldValue,
+        new_value: change.newValue,
+      })),
+    };
+  }
+
+  /**
+   * Converts an OpenSearch hit to a history entry.
+   *
+   * @param hit - The OpenSearch search hit
+   * @returns A TODO history entry
+   */
+  static fromOpenSearchHit(hit: OpenSearchHit<TodoAuditDocument>): TodoHistoryEntry {
+    const source = hit._source;
+    return {
+      id: hit._id,
+      todoId: source.todo_id,
+      action: source.action,
+      actor: source.actor,
+      timestamp: source.timestamp,
+      changes: (source.changes || []).map((change) => ({
+        field: change.field,
+        oldValue: change.old_value ?? null,
+        newValue: change.new_value ?? null,
+      })),
+    };
+  }
+}
@@ -0,0 +1,138 @@
+import {
+  Todo,
+  PLUGIN_ID,
+  TODO_CALENDAR_PRIORITY,
+  TODO_CALENDAR_PRODUCT_ID,
+  TODO_CALENDAR_STATUS,
+} from '../../common';
+
+// Content lines end with CRLF (RFC 5545, section 3.1)
+const CRLF = '\r\n';
+
+// Maximum length of a content line in octets, excluding the line break
+const MAX_LINE_OCTETS = 75;
+
+const CALENDAR_NAME = 'TODOs';
+
+/**
+ * Mapper class for the iCalendar feed of TODO due dates.
+ *
+ * @remarks
+ * Each TODO becomes a VTODO component whose UID is derived from the TODO ID, so a
+ * subscribed calendar updates existing entries instead of duplicating them. Text
+ * values are escaped and long lines are folded as RFC 5545 requires.
+ */
+export class TodoCalendarMapper {
+  /**
+   * Serializes batches of TODOs to an iCalendar feed, chunk by chunk.
+   *
+   * @param batches - Batches of TODOs with a due date, in order
+   * @param now - Time the feed is generated, used as the `DTSTAMP` of every entry
+   * @returns Async iterator over text chunks of the feed
+   */
+  static async *serialize(batches: AsyncIterable<Todo[]>, now: string): AsyncGenerator<string> {
+    yield TodoCalendarMapper.toLines([
+      'BEGIN:VCALENDAR',
+      'VERSION:2.0',
+      `PRODID:${TODO_CALENDAR_PRODUCT_ID}`,
+      'CALSCALE:GREGORIAN',
+      'METHOD:PUBLISH',
+      `X-WR-CALNAME:${CALENDAR_NAME}`,
+    ]);
+    for await (const todos of batches) {
+      yield todos
+        .filter((todo) => todo.dueDate)
+        .map((todo) => TodoCalendarMapper.toLines(TodoCalendarMapper.toVTodo(todo, now)))
+        .join('');
+    }
+    yield TodoCalendarMapper.toLines(['END:VCALENDAR']);
+  }
+
+  /**
+   * Builds the content lines of the VTODO component of a TODO, before folding.
+   *
+   * @param todo - TODO with a due date
+   * @param now - Time the feed is generated
+   * @returns Content lines from `BEGIN:VTODO` to `END:VTODO`
+   */
+  static toVTodo(todo: Todo, now: string): string[] {
+    const escape = TodoCalendarMapper.escapeText;
+    const toDateTime = TodoCalendarMapper.toDateTime;
+    const details = [
+      todo.assignee && `Assignee: ${todo.assignee}`,
+      `Severity: ${todo.severity}`,
+      todo.complianceFrameworks.length > 0 &&
+        `Compliance: ${todo.complianceFrameworks.join(', ')}`,
+    ].filter(Boolean);
+    const description = [todo.description, details.join('\n')].filter(Boolean).join('\n\n');
+
+    return [
+      'BEGIN:VTODO',
+      `UID:${todo.id}@${PLUGIN_ID}`,
+      `DTSTAMP:${toDateTime(now)}`,
+      `CREATED:${toDateTime(todo.createdAt)}`,
+      `LAST-MODIFIED:${toDateTime(todo.updatedAt)}`,
+      `SUMMARY:${escape(todo.title)}`,
+      `DESCRIPTION:${escape(description)}`,
+      ...(todo.dueDate ? [`DUE:${toDateTime(todo.dueDate)}`] : []),
+      `PRIORITY:${TODO_CALENDAR_PRIORITY[todo.priority]}`,
+      `STATUS:${TODO_CALENDAR_STATUS[todo.status]}`,
+      ...(todo.status === 'done' && todo.completedAt
+        ? [`COMPLETED:${toDateTime(todo.completedAt)}`]
+        : []),
+      ...(todo.tags.length > 0 ? [`CATEGORIES:${todo.tags.map(escape).join(',')}`] : []),
+      'END:VTODO',
+    ];
+  }
+
+  /**
+   * Escapes a TEXT value (RFC 5545, section 3.3.11).
+   *
+   * @param value - Text to escape
+   * @returns Escaped text on a single line
+   */
+  static escapeText(value: string): string {
+    return value.replace(/[\\;,]/g, (char) => `\\${char}`).replace(/\r\n|\r|\n/g, '\\n');
+  }
+
+  /**
+   * Folds a content line longer than 75 octets (RFC 5545, section 3.1).
+   *
+   * @param line - Content line without line break
+   * @returns The line, split with CRLF followed by a space, never inside a UTF-8 character
+   */
+  static foldLine(line: string): string {
+    const parts: string[] = [];
+    let current = '';
+    let octets = 0;
+    let limit = MAX_LINE_OCTETS;
+    for (const char of line) {
+      const size = Buffer.byteLength(char);
+      if (octets + size > limit) {
+        parts.push(current);
+        current = '';
+        octets = 0;
+        // The leading space of a continuation line counts towards its length
+        limit = MAX_LINE_OCTETS - 1;
+      }
+      current += char;
+      octets += size;
+    }
+    parts.push(current);
+    return parts.join(`${CRLF} `);
+  }
+
+  /**
+   * Formats an ISO 8601 date as a UTC DATE-TIME value, e.g. `20240301T120000Z`.
+   */
+  private static toDateTime(value: string): string {
+    return new Date(value)
+      .toISOString()
+      .replace(/[-:]/g, '')
+      .replace(/\.\d{3}/, '');
+  }
+
+  private static toLines(lines: string[]): string {
+    return lines.map((line) => `${TodoCalendarMapper.foldLine(line)}${CRLF}`).join('');
+  }
+}
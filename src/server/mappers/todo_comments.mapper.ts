@@ -0,0 +1,73 @@
+import { TodoComment } from '../../common';
+import { OpenSearchHit } from './todos.mapper';
+/**
+ * Internal representation of a TODO comment in OpenSearch.
+ * Uses snake_case field names as per OpenSearch conventions.
+ */
+export interface TodoCommentDocument {
+  /** ID of the TODO the comment belongs to */
+  todo_id: string;
+
+  /** Username of the user who wrote the comment */
+  author: string;
+
+  /** Comment text (Markdown) */
+  body: string;
+
+  /** Creation timestamp in ISO 8601 format */
+  created_at: string;
+
+  /** Timestamp of the last edit in ISO 8601 format, or null if never edited */
+  updated_at: string | null;
+}
+
+/**
+ * Mapper class for TODO comments.
+ *
+ * @remarks
+ * Maps between {@link TodoCommentDocument} stored in the comments index and
+ * {@link TodoComment} returned by the API.
+ */
+export class TodoCommentsMapper {
+  /**
+   * Builds a comment document for a new comment.
+   *
+   * @param todoId - ID of the commented TODO
+   * @param author - Username of the user who wrote the comment
+   * @param body - Comment text, already validated
+   * @param timestamp - Creation timestamp in ISO 8601 format
+   * @returns OpenSearch document ready for indexing
+   */
+  static toDocument(
+    todoId: string,
+    author: string,
+    body: string,
+    timestamp: string
+  ): TodoCommentDocument {
+    return {
+      todo_id: todoId,
+      author,
+      body: body.trim(),
+      created_at: timestamp,
+      updated_at: null,
+    };
+  }
+
+  /**
+   * Converts an OpenSearch hit to a comment.
+   *
+   * @param hit - The OpenSearch search hit
+   * @returns A TODO comment
+   */
+  static fromOpenSearchHit(hit: OpenSearchHit<TodoCommentDocument>): TodoComment {
+    const source = hit._source;
+    return {
+      id: hit._id,
+      todoId: source.todo_id,
+      author: source.author,
+      body: source.body,
+      createdAt: source.created_at,
+      updatedAt: source.updated_at ?? null,
+    };
+  }
+}
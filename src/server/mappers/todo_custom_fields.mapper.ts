@@ -0,0 +1,131 @@
+import {
+  TodoCustomFieldDefinition,
+  TodoCustomFieldType,
+  CreateTodoCustomFieldRequest,
+  UpdateTodoCustomFieldRequest,
+} from '../../common';
+import { OpenSearchHit } from './todos.mapper';
+/**
+ * Internal representation of a custom field definition in OpenSearch.
+ * The field key is the document ID.
+ */
+export interface TodoCustomFieldDocument {
+  /** Label shown in the form and table */
+  label: string;
+
+  /** Value type */
+  type: TodoCustomFieldType;
+
+  /** Optional help text, or null if none */
+  description?: string | null;
+
+  /** Allowed values of an `enum` field */
+  options?: string[];
+
+  /** Whether new TODOs must have a value for this field */
+  required: boolean;
+
+  /** Creation timestamp in ISO 8601 format */
+  created_at: string;
+
+  /** Last change timestamp in ISO 8601 format */
+  updated_at: string;
+}
+
+/**
+ * Mapper class for custom field definitions.
+ *
+ * @remarks
+ * Maps between {@link TodoCustomFieldDocument} stored in the custom fields index and
+ * {@link TodoCustomFieldDefinition} returned by the API.
+ */
+export class TodoCustomFieldsMapper {
+  /**
+   * Builds the document of a new custom field definition.
+   *
+   * @param request - The create request, already validated
+   * @param now - Current timestamp in ISO 8601 format
+   * @returns OpenSearch document ready for indexing
+   */
+  static toCreateDocument(
+    request: CreateTodoCustomFieldRequest,
+    now: string
+  ): TodoCustomFieldDocument {
+    return {
+      label: request.label.trim(),
+      type: request.type,
+      description: request.description?.trim() || null,
+      options:
+        request.type === 'enum' ? TodoCustomFieldsMapper.normalizeOptions(request.options) : [],
+      required: request.required === true,
+      created_at: now,
+      updated_at: now,
+    };
+  }
+
+  /**
+   * Converts an update request to a partial document.
+   *
+   * @param request - The update request, already validated
+   * @param now - Current timestamp in ISO 8601 format
+   * @returns Partial OpenSearch document containing only the fields to update
+   */
+  static toUpdateDocument(
+    request: UpdateTodoCustomFieldRequest,
+    now: string
+  ): Partial<TodoCustomFieldDocument> {
+    const updates: Partial<TodoCustomFieldDocument> = {
+      updated_at: now,
+    };
+    if (request.label !== undefined) {
+      updates.label = request.label.trim();
+    }
+    if (request.description !== undefined) {
+      updates.description = request.description?.trim() || null;
+    }
+    if (request.options !== undefined) {
+      updates.options = TodoCustomFieldsMapper.normalizeOptions(request.options);
+    }
+    if (request.required !== undefined) {
+      updates.required = request.required;
+    }
+    return updates;
+  }
+
+  /**
+   * Converts an OpenSearch hit to a custom field definition.
+   *
+   * @param hit - The OpenSearch search hit
+   * @returns A custom field definition
+   */
+  static fromOpenSearchHit(hit: OpenSearchHit<TodoCustomFieldDocument>): TodoCustomFieldDefinition {
+    const source = hit._source;
+    return {
+      key: hit._id,
+      label: source.label,
+      type: source.type,
+      description: source.description || undefined,
+      options: source.type === 'enum' ? source.options || [] : undefined,
+      required: source.required === true,
+      createdAt: source.created_at,
+      updatedAt: source.updated_at,
+    };
+  }
+
+  /**
+   * Normalizes the options of an `enum` field.
+   * - Trims whitespace
+   * - Removes empty strings
+   * - Removes duplicates
+   *
+   * @param options - Options to normalize
+   * @returns Normalized array of unique options, in their original order
+   */
+  static normalizeOptions(options?: readonly string[]): string[] {
+    if (!options || options.length === 0) {
+      return [];
+    }
+    const normalized = options.map((option) => option.trim()).filter((option) => option.length > 0);
+    return [...new Set(normalized)];
+  }
+}
@@ -0,0 +1,172 @@
+import {
+  Todo,
+  TodoCustomFieldValue,
+  TodoExportColumn,
+  TodoExportFormat,
+  TODO_EXPORT_LIST_SEPARATOR,
+} from '../../common';
+
+/**
+ * Value of one exported column: a scalar, a list, or null when the TODO has no value.
+ */
+export type TodoExportValue = string | number | boolean | readonly string[] | null;
+
+const CUSTOM_COLUMN_PREFIX = 'custom.';
+
+// Fields that need quoting in CSV (RFC 4180, section 2.6)
+const CSV_SPECIAL_CHARACTERS = /[",\r\n]/;
+
+// Leading characters that make spreadsheets read a field as a formula
+const CSV_FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+// Numbers, which stay numbers even with a leading minus sign
+const CSV_NUMBER = /^-?\d+(\.\d+)?$/;
+
+/**
+ * Mapper class for exporting TODOs to files.
+ *
+ * @remarks
+ * Columns are built-in TODO fields (see `TODO_EXPORT_COLUMNS`) or `custom.<key>` for
+ * custom field values. CSV output follows RFC 4180: CRLF line endings, a header row,
+ * and fields quoted when they contain a comma, a double quote or a line break.
+ */
+export class TodoExportMapper {
+  /**
+   * Serializes batches of TODOs to the requested format, chunk by chunk.
+   *
+   * @param batches - Batches of TODOs to export, in order
+   * @param format - Output format
+   * @param columns - Columns to export, in order
+   * @returns Async iterator over text chunks of the export file
+   */
+  static async *serialize(
+    batches: AsyncIterable<Todo[]>,
+    format: TodoExportFormat,
+    columns: readonly string[]
+  ): AsyncGenerator<string> {
+    if (format === 'csv') {
+      yield TodoExportMapper.toCsvLine(columns);
+      for await (const todos of batches) {
+        yield todos
+          .map((todo) =>
+            TodoExportMapper.toCsvLine(
+              columns.map((column) =>
+                TodoExportMapper.toCsvValue(TodoExportMapper.getColumnValue(todo, column))
+              )
+            )
+          )
+          .join('');
+      }
+      return;
+    }
+
+    if (format === 'ndjson') {
+      for await (const todos of batches) {
+        yield todos
+          .map((todo) => `${JSON.stringify(TodoExportMapper.toRecord(todo, columns))}\n`)
+          .join('');
+      }
+      return;
+    }
+
+    let first = true;
+    yield '[';
+    for await (const todos of batches) {
+      for (const todo of todos) {
+        yield `${first ? '' : ','}\n${JSON.stringify(TodoExportMapper.toRecord(todo, columns))}`;
+        first = false;
+      }
+    }
+    yield first ? ']\n' : '\n]\n';
+  }
+
+  /**
+   * Builds the JSON object exported for a TODO.
+   *
+   * @param todo - TODO to export
+   * @param columns - Columns to include
+   * @returns Object with the built-in columns as properties and custom columns under `custom`
+   *
+   * @example
+   * TodoExportMapper.toRecord(todo, ['id', 'status', 'custom.ticket'])
+   * // { id: 'abc', status: 'planned', custom: { ticket: 'SEC-42' } }
+   */
+  static toRecord(todo: Todo, columns: readonly string[]): Record<string, unknown> {
+    const record: Record<string, unknown> = {};
+    const custom: Record<string, TodoCustomFieldValue | null> = {};
+    for (const column of columns) {
+      const value = TodoExportMapper.getColumnValue(todo, column);
+      if (column.startsWith(CUSTOM_COLUMN_PREFIX)) {
+        custom[column.slice(CUSTOM_COLUMN_PREFIX.length)] = value as TodoCustomFieldValue | null;
+      } else {
+        record[column] = value;
+      }
+    }
+    if (Object.keys(custom).length > 0) {
+      record.custom = custom;
+    }
+    return record;
+  }
+
+  /**
+   * Reads the value of one column from a TODO.
+   *
+   * @param todo - TODO to read from
+   * @param column - Built-in column or `custom.<key>`
+   * @returns Column value, or null when the TODO has no value
+   */
+  static getColumnValue(todo: Todo, column: string): TodoExportValue {
+    if (column.startsWith(CUSTOM_COLUMN_PREFIX)) {
+      return todo.custom?.[column.slice(CUSTOM_COLUMN_PREFIX.length)] ?? null;
+    }
+    const value = todo[column as TodoExportColumn];
+    return value === undefined ? null : value;
+  }
+
+  /**
+   * Converts a column value to the text of a CSV field, before escaping.
+   *
+   * @param value - Column value
+   * @returns Field text; lists are joined with `TODO_EXPORT_LIST_SEPARATOR`
+   */
+  static toCsvValue(value: TodoExportValue): string {
+    if (value === null) {
+      return '';
+    }
+    if (Array.isArray(value)) {
+      return value.join(TODO_EXPORT_LIST_SEPARATOR);
+    }
+    return String(value);
+  }
+
+  /**
+   * Escapes a CSV field as described in RFC 4180.
+   *
+   * @param field - Field text
+   * @returns The field, quoted with inner double quotes doubled when needed
+   *
+   * @remarks
+   * A field starting with `=`, `+`, `-`, `@`, a tab or a carriage return is prefixed with `'`
+   * so that spreadsheets show it as text instead of running it as a formula. Numbers are
+   * left as they are.
+   *
+   * @example
+   * TodoExportMapper.escapeCsvField('Patch "log4j", urgently') // '"Patch ""log4j"", urgently"'
+   * TodoExportMapper.escapeCsvField('=1+1') // "'=1+1"
+   */
+  static escapeCsvField(field: string): string {
+    const text =
+      CSV_FORMULA_PREFIX.test(field) && !CSV_NUMBER.test(field) ? `'${field}` : field;
+    return CSV_SPECIAL_CHARACTERS.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  }
+
+  /**
+   * Builds one CSV record.
+   *
+   * @param fields - Field texts, in column order
+   * @returns The escaped record terminated by CRLF
+   */
+  static toCsvLine(fields: readonly string[]): string {
+    return `${fields.map((field) => TodoExportMapper.escapeCsvField(field)).join(',')}\r\n`;
+  }
+}
@@ -0,0 +1,392 @@
+import {
+  CreateTodoRequest,
+  TodoCustomFieldDefinition,
+  TodoCustomFieldValue,
+  TodoImportField,
+  TodoImportFormat,
+  TODO_IMPORT_LIST_FIELDS,
+  TODO_IMPORT_LIST_SEPARATOR_PATTERN,
+} from '../../common';
+
+/**
+ * A data row read from an import file.
+ */
+export interface TodoImportRow {
+  /** Position among the file's data rows (1-based) */
+  row: number;
+  /** Line of the file where the row starts (1-based) */
+  line: number;
+  /** Cell values keyed by column name */
+  values: Record<string, unknown>;
+}
+
+/**
+ * Content of an import file.
+ */
+export interface TodoImportTable {
+  /** Column names, in the order they first appear */
+  columns: string[];
+  /** Data rows, in file order */
+  rows: TodoImportRow[];
+}
+
+const CUSTOM_COLUMN_PREFIX = 'custom.';
+
+const TRUE_VALUES = ['true', 'yes', 'y', '1'];
+const FALSE_VALUES = ['false', 'no', 'n', '0'];
+
+/**
+ * Mapper class for importing TODOs from files.
+ *
+ * @remarks
+ * Reading a file never validates TODO fields: values are only converted to the
+ * types `CreateTodoRequest` expects, and values that cannot be converted are passed
+ * through unchanged so that validation reports them against the right field.
+ * Structural problems (an unterminated quoted CSV field, malformed JSON) are
+ * raised as `SyntaxError` with the line number in the message.
+ */
+export class TodoImportMapper {
+  /**
+   * Reads the rows of an import file.
+   *
+   * @param content - Text of the file
+   * @param format - Format of the file
+   * @returns Column names and data rows
+   * @throws {SyntaxError} If the file is not valid CSV or JSON
+   */
+  static parse(content: string, format: TodoImportFormat): TodoImportTable {
+    const text = content.replace(/^\uFEFF/, '');
+    return format === 'csv' ? TodoImportMapper.parseCsv(text) : TodoImportMapper.parseJson(text);
+  }
+
+  /**
+   * Reads a CSV file as described in RFC 4180. The first record holds the column names.
+   *
+   * @param content - Text of the file
+   * @returns Column names and data rows; blank lines are skipped
+   * @throws {SyntaxError} If a quoted field is not terminated
+   *
+   * @remarks
+   * CRLF, LF and CR line breaks are accepted. Records with fewer fields than the
+   * header leave the remaining columns empty; extra fields are ignored.
+   */
+  static parseCsv(content: string): TodoImportTable {
+    const records: Array<{ line: number; fields: string[] }> = [];
+    let fields: string[] = [];
+    let field = '';
+    let line = 1;
+    let recordLine = 1;
+    let quoted = false;
+    let quoteLine = 1;
+
+    const endRecord = () => {
+      fields.push(field);
+      if (fields.length > 1 || fields[0] !== '') {
+        records.push({ line: recordLine, fields });
+      }
+      fields = [];
+      field = '';
+    };
+
+    for (let i = 0; i < content.length; i++) {
+      const char = content[i];
+      if (quoted) {
+        if (char === '"' && content[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else if (char === '"') {
+          quoted = false;
+        } else {
+          if (char === '\n' || (char === '\r' && content[i + 1] !== '\n')) {
+            line++;
+          }
+          field += char;
+        }
+      } else if (char === '"' && field === '') {
+        quoted = true;
+        quoteLine = line;
+      } else if (char === ',') {
+        fields.push(field);
+        field = '';
+      } else if (char === '\r' || char === '\n') {
+        if (char === '\r' && content[i + 1] === '\n') {
+          i++;
+        }
+        endRecord();
+        line++;
+        recordLine = line;
+      } else {
+        field += char;
+      }
+    }
+    if (quoted) {
+      throw new SyntaxError(`Line ${quoteLine}: quoted field is not terminated`);
+    }
+    if (field !== '' || fields.length > 0) {
+      endRecord();
+    }
+
+    const [header, ...data] = records;
+    const columns = header ? header.fields.map((name) => name.trim()) : [];
+    return {
+      columns,
+      rows: data.map((record, index) => ({
+        row: index + 1,
+        line: record.line,
+        values: Object.fromEntries(
+          columns.map((column, position) => [column, record.fields[position] ?? ''])
+        ),
+      })),
+    };
+  }
+
+  /**
+   * Reads a JSON file: either an array of objects or one object per line (NDJSON).
+   * A nested `custom` object is read as `custom.<key>` columns, as written by the export.
+   *
+   * @param content - Text of the file
+   * @returns Column names and data rows
+   * @throws {SyntaxError} If the file is not valid JSON or a row is not an object
+   */
+  static parseJson(content: string): TodoImportTable {
+    const items: Array<{ line: number; value: unknown }> = [];
+    if (content.trimStart().startsWith('[')) {
+      let parsed: unknown;
+      try {
+        parsed = JSON.parse(content);
+      } catch (error) {
+        throw new SyntaxError(`Invalid JSON: ${(error as Error).message}`);
+      }
+      const lines = TodoImportMapper.findArrayElementLines(content);
+      (parsed as unknown[]).forEach((value, index) => items.push({ line: lines[index], value }));
+    } else {
+      content.split(/\r\n|\r|\n/).forEach((text, index) => {
+        if (text.trim() === '') {
+          return;
+        }
+        try {
+          items.push({ line: index + 1, value: JSON.parse(text) });
+        } catch (error) {
+          throw new SyntaxError(`Line ${index + 1}: invalid JSON: ${(error as Error).message}`);
+        }
+      });
+    }
+
+    const columns: string[] = [];
+    const rows = items.map(({ line, value }, index): TodoImportRow => {
+      if (!value || typeof value !== 'object' || Array.isArray(value)) {
+        throw new SyntaxError(`Line ${line}: expected an object`);
+      }
+      const values: Record<string, unknown> = {};
+      for (const [key, item] of Object.entries(value as Record<string, unknown>)) {
+        if (key === 'custom' && item && typeof item === 'object' && !Array.isArray(item)) {
+          for (const [customKey, customValue] of Object.entries(item as Record<string, unknown>)) {
+            values[`${CUSTOM_COLUMN_PREFIX}${customKey}`] = customValue;
+          }
+        } else {
+          values[key] = item;
+        }
+      }
+      Object.keys(values)
+        .filter((column) => !columns.includes(column))
+        .forEach((column) => columns.push(column));
+      return { row: index + 1, line, values };
+    });
+    return { columns, rows };
+  }
+
+  /**
+   * Builds the creation request for a row.
+   *
+   * @param values - Cell values keyed by column name
+   * @param mapping - Mapping from column name to import field or `custom.<key>`
+   * @param customFields - Defined custom fields, used to convert custom values
+   * @returns Creation request holding every non-empty mapped value
+   *
+   * @remarks
+   * - Status, priority and severity are lowercased, with spaces replaced by underscores
+   * - Dates are converted to ISO 8601 when `Date` can parse them
+   * - Lists may be arrays or text separated by `;` or `,`
+   * - Custom values are converted to the field's type: numbers, `true`/`false`/`yes`/`no`
+   *   for booleans, ISO 8601 for dates, and the option's spelling for enums
+   */
+  static toCreateRequest(
+    values: Readonly<Record<string, unknown>>,
+    mapping: Readonly<Record<string, string>>,
+    customFields: readonly TodoCustomFieldDefinition[]
+  ): CreateTodoRequest {
+    const request: Record<string, unknown> = {};
+    const custom: Record<string, TodoCustomFieldValue> = {};
+    for (const [column, target] of Object.entries(mapping)) {
+      const value = values[column];
+      if (target.startsWith(CUSTOM_COLUMN_PREFIX)) {
+        const definition = customFields.find(
+          (candidate) => candidate.key === target.slice(CUSTOM_COLUMN_PREFIX.length)
+        );
+        const converted = definition && TodoImportMapper.toCustomValue(definition, value);
+        if (definition && converted !== undefined) {
+          custom[definition.key] = converted;
+        }
+        continue;
+      }
+      const converted = TodoImportMapper.toFieldValue(target as TodoImportField, value);
+      if (converted !== undefined) {
+        request[target] = converted;
+      }
+    }
+    if (Object.keys(custom).length > 0) {
+      request.custom = custom;
+    }
+    return request as unknown as CreateTodoRequest;
+  }
+
+  /**
+   * Converts a cell to the value of a built-in field.
+   *
+   * @param field - Import field
+   * @param value - Cell value
+   * @returns Converted value, or undefined when the cell is empty
+   * @private
+   */
+  private static toFieldValue(
+    field: TodoImportField,
+    value: unknown
+  ): string | string[] | undefined {
+    if (TODO_IMPORT_LIST_FIELDS.includes(field)) {
+      const items = (Array.isArray(value)
+        ? value.map((item) => TodoImportMapper.toText(item))
+        : (TodoImportMapper.toText(value) || '').split(TODO_IMPORT_LIST_SEPARATOR_PATTERN)
+      )
+        .map((item) => (item || '').trim())
+        .filter((item) => item.length > 0);
+      return items.length > 0 ? items : undefined;
+    }
+    const text = TodoImportMapper.toText(value)?.trim();
+    if (!text) {
+      return undefined;
+    }
+    switch (field) {
+      case 'status':
+      case 'priority':
+      case 'severity':
+        return text.toLowerCase().replace(/\s+/g, '_');
+      case 'startDate':
+      case 'dueDate':
+        return TodoImportMapper.toIsoDate(text);
+      default:
+        return text;
+    }
+  }
+
+  /**
+   * Converts a cell to the value of a custom field.
+   *
+   * @param definition - Definition of the custom field
+   * @param value - Cell value
+   * @returns Converted value (the original text when it cannot be converted),
+   *   or undefined when the cell is empty
+   * @private
+   */
+  private static toCustomValue(
+    definition: TodoCustomFieldDefinition,
+    value: unknown
+  ): TodoCustomFieldValue | undefined {
+    if (typeof value === 'number' || typeof value === 'boolean') {
+      return definition.type === 'text' || definition.type === 'enum' ? String(value) : value;
+    }
+    const text = TodoImportMapper.toText(value)?.trim();
+    if (!text) {
+      return undefined;
+    }
+    switch (definition.type) {
+      case 'number': {
+        const number = Number(text);
+        return Number.isFinite(number) ? number : text;
+      }
+      case 'boolean':
+        if (TRUE_VALUES.includes(text.toLowerCase())) {
+          return true;
+        }
+        return FALSE_VALUES.includes(text.toLowerCase()) ? false : text;
+      case 'date':
+        return TodoImportMapper.toIsoDate(text);
+      case 'enum':
+        return (
+          (definition.options || []).find((option) => option.toLowerCase() === text.toLowerCase()) ??
+          text
+        );
+      default:
+        return text;
+    }
+  }
+
+  /**
+   * Converts a scalar cell to text.
+   *
+   * @param value - Cell value
+   * @returns Text of strings, numbers and booleans; undefined for anything else
+   * @private
+   */
+  private static toText(value: unknown): string | undefined {
+    if (typeof value === 'string') {
+      return value;
+    }
+    return typeof value === 'number' || typeof value === 'boolean' ? String(value) : undefined;
+  }
+
+  /**
+   * Converts a date to ISO 8601.
+   *
+   * @param text - Date in any format `Date` can parse
+   * @returns ISO 8601 timestamp, or the original text when it is not a date
+   * @private
+   */
+  private static toIsoDate(text: string): string {
+    const date = new Date(text);
+    return isNaN(date.getTime()) ? text : date.toISOString();
+  }
+
+  /**
+   * Finds the line on which each element of a top-level JSON array starts.
+   *
+   * @param content - Text of a valid JSON array
+   * @returns Line numbers (1-based), one per element
+   * @private
+   */
+  private static findArrayElementLines(content: string): number[] {
+    const lines: number[] = [];
+    let line = 1;
+    let depth = 0;
+    let inString = false;
+    let expectElement = false;
+    for (let i = 0; i < content.length; i++) {
+      const char = content[i];
+      if (char === '\n') {
+        line++;
+      }
+      if (inString) {
+        if (char === '\\') {
+          i++;
+        } else if (char === '"') {
+          inString = false;
+        }
+        continue;
+      }
+      if (depth === 1 && expectElement && !/\s/.test(char) && char !== ']') {
+        lines.push(line);
+        expectElement = false;
+      }
+      if (char === '"') {
+        inString = true;
+      } else if (char === '[' || char === '{') {
+        depth++;
+        expectElement = depth === 1;
+      } else if (char === ']' || char === '}') {
+        depth--;
+      } else if (char === ',' && depth === 1) {
+        expectElement = true;
+      }
+    }
+    return lines;
+  }
+}
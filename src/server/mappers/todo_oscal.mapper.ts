@@ -0,0 +1,207 @@
+import { createHash, randomUUID } from 'crypto';
+import {
+  ComplianceCoverageStats,
+  Todo,
+  OscalRiskStatus,
+  OSCAL_RISK_STATUS,
+  OSCAL_TODO_NAMESPACE,
+  OSCAL_VERSION,
+} from '../../common';
+
+/**
+ * A property of an OSCAL object; TODO-specific properties use `OSCAL_TODO_NAMESPACE`.
+ */
+export interface OscalProperty {
+  name: string;
+  value: string;
+  ns?: string;
+}
+
+/**
+ * A person responsible for POA&M items.
+ */
+export interface OscalParty {
+  uuid: string;
+  type: 'person';
+  name: string;
+}
+
+/**
+ * The risk behind a POA&M item.
+ */
+export interface OscalRisk {
+  uuid: string;
+  title: string;
+  description: string;
+  statement: string;
+  props: OscalProperty[];
+  status: OscalRiskStatus;
+  deadline?: string;
+}
+
+/**
+ * A POA&M item: one open TODO.
+ */
+export interface OscalPoamItem {
+  uuid: string;
+  title: string;
+  description: string;
+  props: OscalProperty[];
+  'related-risks': Array<{ 'risk-uuid': string }>;
+}
+
+/**
+ * An OSCAL plan-of-action-and-milestones document.
+ */
+export interface OscalPoamDocument {
+  'plan-of-action-and-milestones': {
+    uuid: string;
+    metadata: {
+      title: string;
+      'last-modified': string;
+      version: string;
+      'oscal-version': string;
+      props: OscalProperty[];
+      parties?: OscalParty[];
+    };
+    'system-id': { 'identifier-type': string; id: string };
+    risks: OscalRisk[];
+    'poam-items': OscalPoamItem[];
+  };
+}
+
+// Namespace of the name-based UUIDs of exported objects (RFC 4122, section 4.3)
+const OSCAL_UUID_NAMESPACE = '5f1d3a8e-2c47-4b9e-8d61-0a7c93e4b215';
+
+const RFC4122_IDENTIFIER_TYPE = 'http://ietf.org/rfc/rfc4122';
+
+/**
+ * Mapper class for exporting the TODOs of a compliance framework as an OSCAL
+ * plan of action and milestones (POA&M).
+ *
+ * @remarks
+ * Each TODO becomes a risk and a POA&M item pointing to it. Their UUIDs are derived
+ * from the TODO ID, so a GRC tool importing consecutive exports sees the same item
+ * again rather than a new one. The document UUID is new for every export, as OSCAL
+ * requires for each revision of a document.
+ */
+export class TodoOscalMapper {
+  /**
+   * Builds the POA&M document of a compliance framework.
+   *
+   * @param coverage - Coverage of the framework, for the document's summary properties
+   * @param todos - Open TODOs of the framework, in the order of the POA&M items
+   * @param now - Time of the export, as an ISO 8601 string
+   * @returns OSCAL POA&M document
+   */
+  static toPoamDocument(
+    coverage: ComplianceCoverageStats,
+    todos: readonly Todo[],
+    now: string
+  ): OscalPoamDocument {
+    const assignees = Array.from(
+      new Set(todos.map((todo) => todo.assignee).filter((name): name is string => !!name))
+    ).sort();
+    const open = coverage.total - coverage.byStatus.done;
+
+    return {
+      'plan-of-action-and-milestones': {
+        uuid: randomUUID(),
+        metadata: {
+          title: `Plan of Action and Milestones: ${coverage.framework}`,
+          'last-modified': now,
+          version: now,
+          'oscal-version': OSCAL_VERSION,
+          props: [
+            TodoOscalMapper.toProperty('compliance-framework', coverage.framework),
+            TodoOscalMapper.toProperty('total-todos', String(coverage.total)),
+            TodoOscalMapper.toProperty('open-todos', String(open)),
+            TodoOscalMapper.toProperty('completion-rate', String(coverage.completionRate)),
+          ],
+          ...(assignees.length > 0 && {
+            parties: assignees.map((name) => ({
+              uuid: TodoOscalMapper.toUuid(`party:${name}`),
+              type: 'person' as const,
+              name,
+            })),
+          }),
+        },
+        'system-id': {
+          'identifier-type': RFC4122_IDENTIFIER_TYPE,
+          id: TodoOscalMapper.toUuid(`framework:${coverage.framework}`),
+        },
+        risks: todos.map((todo) => TodoOscalMapper.toRisk(todo)),
+        'poam-items': todos.map((todo) => TodoOscalMapper.toPoamItem(todo)),
+      },
+    };
+  }
+
+  /**
+   * Builds the risk of a TODO.
+   *
+   * @param todo - TODO to export
+   * @returns OSCAL risk
+   */
+  static toRisk(todo: Todo): OscalRisk {
+    const description = todo.description || todo.title;
+    return {
+      uuid: TodoOscalMapper.toUuid(`risk:${todo.id}`),
+      title: todo.title,
+      description,
+      statement: todo.statusReason || description,
+      props: [
+        TodoOscalMapper.toProperty('severity', todo.severity),
+        TodoOscalMapper.toProperty('priority', todo.priority),
+      ],
+      status: OSCAL_RISK_STATUS[todo.status],
+      ...(todo.dueDate && { deadline: todo.dueDate }),
+    };
+  }
+
+  /**
+   * Builds the POA&M item of a TODO.
+   *
+   * @param todo - TODO to export
+   * @returns OSCAL POA&M item
+   */
+  static toPoamItem(todo: Todo): OscalPoamItem {
+    return {
+      uuid: TodoOscalMapper.toUuid(`poam-item:${todo.id}`),
+      title: todo.title,
+      description: todo.description || todo.title,
+      props: [
+        TodoOscalMapper.toProperty('todo-id', todo.id),
+        TodoOscalMapper.toProperty('status', todo.status),
+        TodoOscalMapper.toProperty('severity', todo.severity),
+        TodoOscalMapper.toProperty('priority', todo.priority),
+        ...(todo.assignee ? [TodoOscalMapper.toProperty('assignee', todo.assignee)] : []),
+        ...(todo.dueDate ? [TodoOscalMapper.toProperty('due-date', todo.dueDate)] : []),
+      ],
+      'related-risks': [{ 'risk-uuid': TodoOscalMapper.toUuid(`risk:${todo.id}`) }],
+    };
+  }
+
+  private static toProperty(name: string, value: string): OscalProperty {
+    return { name, value, ns: OSCAL_TODO_NAMESPACE };
+  }
+
+  /**
+   * Derives a name-based UUID (version 5) in the export's namespace.
+   */
+  private static toUuid(name: string): string {
+    const hash = createHash('sha1')
+      .update(Buffer.from(OSCAL_UUID_NAMESPACE.replace(/-/g, ''), 'hex'))
+      .update(name)
+      .digest();
+    hash[6] = (hash[6] & 0x0f) | 0x50;
+    hash[8] = (hash[8] & 0x3f) | 0x80;
+    const hex = hash.subarray(0, 16).toString('hex');
+    return [
+      hex.slice(0, 8),
+      hex.slice(8, 12),
+      hex.slice(12, 16),
+      hex.slice(16, 20),
+      hex.slice(20),
+    ].join('-');
+  }
+}
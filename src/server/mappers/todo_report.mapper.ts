@@ -0,0 +1,324 @@
+import {
+  AnalyticsStats,
+  TodoStats,
+  TodoStatsQueryParams,
+  TodoReportFormat,
+  TodoStatus,
+  TODO_PRIORITY_VALUES,
+  TODO_SEVERITY_VALUES,
+  TODO_STATUS_VALUES,
+} from '../../common';
+
+/**
+ * Everything a compliance report is generated from.
+ */
+export interface TodoReportData {
+  /** Time the report was generated, as an ISO 8601 string */
+  generatedAt: string;
+  /** Compliance framework the report is limited to */
+  complianceFramework?: string;
+  /** Start of the reported creation date range */
+  createdAfter?: string;
+  /** End of the reported creation date range */
+  createdBefore?: string;
+  /** Interval of the completion trend */
+  timeInterval: NonNullable<TodoStatsQueryParams['timeInterval']>;
+  analytics: AnalyticsStats;
+  stats: TodoStats;
+}
+
+/**
+ * A table of a report section; cells are plain text.
+ */
+interface ReportTable {
+  headers: string[];
+  rows: string[][];
+  /** Index of the first right-aligned (numeric) column */
+  numericFrom: number;
+}
+
+/**
+ * A section of a report, rendered the same way in every format.
+ */
+interface ReportSection {
+  title: string;
+  text?: string;
+  table?: ReportTable;
+}
+
+const STATUS_LABELS: Record<TodoStatus, string> = {
+  planned: 'Planned',
+  in_progress: 'In progress',
+  done: 'Done',
+  error: 'Error',
+};
+
+const REPORT_TITLE = 'Compliance Status Report';
+
+// Length of the date prefix shown for each completion trend interval
+const TREND_DATE_LENGTH: Record<TodoReportData['timeInterval'], number> = {
+  hour: 16,
+  day: 10,
+  week: 10,
+  month: 7,
+};
+
+const HTML_ESCAPES: Record<string, string> = {
+  '&': '&amp;',
+  '<': '&lt;',
+  '>': '&gt;',
+  '"': '&quot;',
+  "'": '&#39;',
+};
+
+const HTML_STYLE = [
+  'body{font-family:-apple-system,"Segoe UI",Helvetica,Arial,sans-serif;color:#1a1c21;',
+  'max-width:960px;margin:2rem auto;padding:0 1rem;line-height:1.5}',
+  'h1{font-size:1.75rem;margin-bottom:.25rem}h2{font-size:1.25rem;margin-top:2rem;',
+  'border-bottom:1px solid #d3dae6;padding-bottom:.25rem}',
+  '.meta{color:#69707d;margin:0}',
+  'table{border-collapse:collapse;width:100%;margin-top:.5rem}',
+  'th,td{border:1px solid #d3dae6;padding:.375rem .5rem;text-align:left}',
+  'th{background:#f5f7fa}td.num,th.num{text-align:right}',
+  '@media print{body{margin:0;max-width:none}h2{break-after:avoid}tr{break-inside:avoid}}',
+].join('');
+
+/**
+ * Mapper class for rendering compliance reports.
+ *
+ * @remarks
+ * The report combines framework coverage, overdue TODOs, the priority-severity
+ * matrix and the completion trend. HTML reports are single files with inline
+ * styles and no scripts or external resources, so they can be archived, mailed
+ * and printed as they are. All values are escaped for the target format.
+ */
+export class TodoReportMapper {
+  /**
+   * Renders a compliance report.
+   *
+   * @param data - Analytics and statistics to report
+   * @param format - Output format
+   * @returns The report document
+   */
+  static render(data: TodoReportData, format: TodoReportFormat): string {
+    const sections = TodoReportMapper.toSections(data);
+    const meta = TodoReportMapper.toMetaLines(data);
+    return format === 'markdown'
+      ? TodoReportMapper.toMarkdown(meta, sections)
+      : TodoReportMapper.toHtml(meta, sections);
+  }
+
+  /**
+   * Escapes text for HTML element content and attribute values.
+   *
+   * @param value - Text to escape
+   * @returns Escaped text
+   */
+  static escapeHtml(value: string): string {
+    return value.replace(/[&<>"']/g, (char) => HTML_ESCAPES[char]);
+  }
+
+  /**
+   * Escapes text for a Markdown table cell or paragraph.
+   *
+   * @param value - Text to escape
+   * @returns Escaped text on a single line
+   */
+  static escapeMarkdown(value: string): string {
+    return value
+      .replace(/\\/g, '\\\\')
+      .replace(/([|*_`[\]#])/g, '\\$1')
+      .replace(/</g, '&lt;')
+      .replace(/\r?\n/g, ' ');
+  }
+
+  private static toMetaLines(data: TodoReportData): string[] {
+    const from = data.createdAfter ? data.createdAfter.slice(0, 10) : null;
+    const to = data.createdBefore ? data.createdBefore.slice(0, 10) : null;
+    let period = 'All time';
+    if (from && to) {
+      period = `${from} to ${to}`;
+    } else if (from) {
+      period = `Since ${from}`;
+    } else if (to) {
+      period = `Until ${to}`;
+    }
+    return [
+      `Framework: ${data.complianceFramework || 'All frameworks'}`,
+      `TODOs created: ${period}`,
+      `Generated: ${data.generatedAt}`,
+    ];
+  }
+
+  private static toSections(data: TodoReportData): ReportSection[] {
+    const { analytics, stats } = data;
+    const severities = [...TODO_SEVERITY_VALUES].reverse();
+    const priorities = [...TODO_PRIORITY_VALUES].reverse();
+
+    const summary: ReportSection = {
+      title: 'Summary',
+      table: {
+        headers: ['Metric', 'TODOs'],
+        rows: [
+          ['Total', String(stats.total)],
+          ...TODO_STATUS_VALUES.map((status) => [
+            STATUS_LABELS[status],
+            String(stats.byStatus[status] ?? 0),
+          ]),
+          ['Overdue', String(analytics.overdueTasks.total)],
+          ['Unassigned', String(stats.unassignedCount)],
+        ],
+        numericFrom: 1,
+      },
+    };
+
+    const coverage: ReportSection =
+      analytics.complianceCoverage.length > 0
+        ? {
+            title: 'Framework Coverage',
+            table: {
+              headers: [
+                'Framework',
+                'Total',
+                ...TODO_STATUS_VALUES.map((status) => STATUS_LABELS[status]),
+                'Completion',
+              ],
+              rows: analytics.complianceCoverage.map((entry) => [
+                entry.framework,
+                String(entry.total),
+                ...TODO_STATUS_VALUES.map((status) => String(entry.byStatus[status] ?? 0)),
+                `${entry.completionRate}%`,
+              ]),
+              numericFrom: 1,
+            },
+          }
+        : {
+            title: 'Framework Coverage',
+            text: 'No TODOs are linked to a compliance framework.',
+          };
+
+    const { byPriority, bySeverity } = analytics.overdueTasks;
+    const overdue: ReportSection = {
+      title: 'Overdue TODOs',
+      text: `${analytics.overdueTasks.total} open TODOs are past their due date.`,
+      ...(analytics.overdueTasks.total > 0 && {
+        table: {
+          headers: ['Level', 'By priority', 'By severity'],
+          rows: severities.map((level) => [
+            TodoReportMapper.capitalize(level),
+            // `info` is a severity but not a priority
+            level === 'info' ? '-' : String(byPriority[level] ?? 0),
+            String(bySeverity[level] ?? 0),
+          ]),
+          numericFrom: 1,
+        },
+      }),
+    };
+
+    const matrix: ReportSection = {
+      title: 'Priority and Severity',
+      text: 'TODOs by priority (rows) and severity (columns).',
+      table: {
+        headers: ['Priority', ...severities.map(TodoReportMapper.capitalize)],
+        rows: priorities.map((priority) => [
+          TodoReportMapper.capitalize(priority),
+          ...severities.map((severity) => {
+            const cell = analytics.prioritySeverityMatrix.find(
+              (entry) => entry.priority === priority && entry.severity === severity
+            );
+            return String(cell ? cell.count : 0);
+          }),
+        ]),
+        numericFrom: 1,
+      },
+    };
+
+    const trend: ReportSection =
+      stats.completedOverTime.some((point) => point.count > 0)
+        ? {
+            title: 'Completion Trend',
+            text: `TODOs completed per ${data.timeInterval}.`,
+            table: {
+              headers: ['Period', 'Completed'],
+              rows: stats.completedOverTime.map((point) => [
+                point.date.slice(0, TREND_DATE_LENGTH[data.timeInterval]).replace('T', ' '),
+                String(point.count),
+              ]),
+              numericFrom: 1,
+            },
+          }
+        : { title: 'Completion Trend', text: 'No TODOs were completed in this period.' };
+
+    return [summary, coverage, overdue, matrix, trend];
+  }
+
+  private static toHtml(meta: string[], sections: ReportSection[]): string {
+    const escape = TodoReportMapper.escapeHtml;
+    const cell = (tag: 'th' | 'td', value: string, index: number, table: ReportTable) =>
+      index >= table.numericFrom
+        ? `<${tag} class="num">${escape(value)}</${tag}>`
+        : `<${tag}>${escape(value)}</${tag}>`;
+    const body = sections.map((section) => {
+      const parts = [`<h2>${escape(section.title)}</h2>`];
+      if (section.text) {
+        parts.push(`<p>${escape(section.text)}</p>`);
+      }
+      const table = section.table;
+      if (table) {
+        const headers = table.headers.map((value, i) => cell('th', value, i, table)).join('');
+        parts.push(
+          '<table>',
+          `<thead><tr>${headers}</tr></thead>`,
+          '<tbody>',
+          ...table.rows.map(
+            (row) => `<tr>${row.map((value, i) => cell('td', value, i, table)).join('')}</tr>`
+          ),
+          '</tbody>',
+          '</table>'
+        );
+      }
+      return parts.join('\n');
+    });
+    return [
+      '<!DOCTYPE html>',
+      '<html lang="en">',
+      '<head>',
+      '<meta charset="utf-8">',
+      `<title>${escape(REPORT_TITLE)}</title>`,
+      `<style>${HTML_STYLE}</style>`,
+      '</head>',
+      '<body>',
+      `<h1>${escape(REPORT_TITLE)}</h1>`,
+      ...meta.map((line) => `<p class="meta">${escape(line)}</p>`),
+      ...body,
+      '</body>',
+      '</html>',
+      '',
+    ].join('\n');
+  }
+
+  private static toMarkdown(meta: string[], sections: ReportSection[]): string {
+    const escape = TodoReportMapper.escapeMarkdown;
+    const row = (cells: string[]) => `| ${cells.map(escape).join(' | ')} |`;
+    const lines = [`# ${REPORT_TITLE}`, '', ...meta.map((line) => `${escape(line)}  `)];
+    for (const section of sections) {
+      lines.push('', `## ${escape(section.title)}`);
+      if (section.text) {
+        lines.push('', escape(section.text));
+      }
+      const table = section.table;
+      if (table) {
+        const alignments = table.headers.map((_header, i) =>
+          i >= table.numericFrom ? '---:' : '---'
+        );
+        lines.push('', row(table.headers), `| ${alignments.join(' | ')} |`, ...table.rows.map(row));
+      }
+    }
+    lines.push('');
+    return lines.join('\n');
+  }
+
+  private static capitalize(value: string): string {
+    return value.charAt(0).toUpperCase() + value.slice(1);
+  }
+}
@@ -0,0 +1,407 @@
+import { createHash } from 'crypto';
+import {
+  CreateTodoRequest,
+  SarifLevel,
+  TodoFinding,
+  SARIF_LEVEL_SEVERITY,
+  SARIF_LEVEL_VALUES,
+  SARIF_VERSION,
+} from '../../common';
+
+/**
+ * A failing, unsuppressed result of a SARIF run.
+ */
+export interface SarifFinding {
+  /** Index of the result in its run (0-based) */
+  result: number;
+  /** ID of the rule the result violates; empty when the log does not name one */
+  ruleId: string;
+  /** Level of the result, defaulted from the rule's configuration */
+  level: SarifLevel;
+  /** Stable fingerprint of the result */
+  fingerprint: string;
+  /** Primary location, e.g. `src/app.js:42` */
+  location?: string;
+  /** Message of the result */
+  message: string;
+  /** Short description of the rule */
+  ruleDescription?: string;
+  /** Link to the rule's documentation */
+  helpUri?: string;
+  /** Tags of the rule */
+  tags: string[];
+}
+
+/**
+ * A run of a SARIF log.
+ */
+export interface SarifRun {
+  /** Name of the tool */
+  tool: string;
+  /** Version of the tool */
+  toolVersion?: string;
+  /** Category of the analysis (`automationDetails.id`) */
+  category?: string;
+  /** ISO 8601 time the run ended, when the log records it */
+  time?: string;
+  /** Whether the run reports its results; when false, missing findings say nothing */
+  complete: boolean;
+  /** Findings of the run, in log order */
+  findings: SarifFinding[];
+}
+
+interface SarifMessage {
+  text?: string;
+  id?: string;
+  arguments?: string[];
+}
+
+interface SarifRule {
+  id?: string;
+  shortDescription?: SarifMessage;
+  helpUri?: string;
+  messageStrings?: Record<string, SarifMessage>;
+  defaultConfiguration?: { level?: string };
+  properties?: { tags?: unknown };
+}
+
+interface SarifResult {
+  ruleId?: string;
+  ruleIndex?: number;
+  rule?: { id?: string; index?: number };
+  kind?: string;
+  level?: string;
+  message?: SarifMessage;
+  locations?: Array<{
+    physicalLocation?: {
+      artifactLocation?: { uri?: string; index?: number };
+      region?: { startLine?: number; snippet?: { text?: string } };
+    };
+    logicalLocations?: Array<{ fullyQualifiedName?: string; name?: string }>;
+  }>;
+  fingerprints?: Record<string, string>;
+  partialFingerprints?: Record<string, string>;
+  suppressions?: Array<{ status?: string }>;
+}
+
+interface SarifRunObject {
+  tool?: {
+    driver?: { name?: string; version?: string; semanticVersion?: string; rules?: SarifRule[] };
+  };
+  automationDetails?: { id?: string };
+  invocations?: Array<{ startTimeUtc?: string; endTimeUtc?: string }>;
+  artifacts?: Array<{ location?: { uri?: string } }>;
+  results?: SarifResult[] | null;
+}
+
+const MAX_TITLE_LENGTH = 256;
+const MAX_DESCRIPTION_LENGTH = 4000;
+const MAX_TAGS = 20;
+const MAX_TAG_LENGTH = 50;
+const ELLIPSIS = '…';
+
+/**
+ * Mapper class for SARIF 2.1.0 logs.
+ *
+ * @remarks
+ * Only results of kind `fail` that are not suppressed are findings. The fingerprint of a
+ * finding is derived from the tool's `fingerprints` or `partialFingerprints` when present,
+ * otherwise from the rule, file, code snippet (or line) and message, so that the same
+ * finding gets the same fingerprint in every run. A malformed log is raised as `SyntaxError`.
+ */
+export class TodoSarifMapper {
+  /**
+   * Reads the runs of a SARIF log.
+   *
+   * @param content - Text of the log
+   * @returns Runs in log order
+   * @throws {SyntaxError} If the text is not JSON, not SARIF 2.1.0, or a run has no tool name
+   */
+  static parse(content: string): SarifRun[] {
+    let log: { version?: unknown; runs?: unknown };
+    try {
+      log = JSON.parse(content.replace(/^\uFEFF/, ''));
+    } catch (error) {
+      throw new SyntaxError(`Invalid JSON: ${(error as Error).message}`);
+    }
+    if (!log || typeof log !== 'object' || Array.isArray(log)) {
+      throw new SyntaxError('Expected a SARIF log object');
+    }
+    if (log.version !== SARIF_VERSION) {
+      throw new SyntaxError(
+        `Unsupported SARIF version: ${String(log.version)}; expected ${SARIF_VERSION}`
+      );
+    }
+    if (!Array.isArray(log.runs)) {
+      throw new SyntaxError('runs must be an array');
+    }
+    return (log.runs as SarifRunObject[]).map((run, index) => TodoSarifMapper.toRun(run, index));
+  }
+
+  /**
+   * Builds the creation request for a finding.
+   *
+   * @param finding - Finding of the run
+   * @param run - Run that reported the finding
+   * @returns Creation request with title, description, severity and rule tags
+   *
+   * @remarks
+   * The title is the rule ID and the first line of the message; the description holds the
+   * whole message, the rule, the location and the tool. Both are shortened to the TODO limits.
+   */
+  static toCreateRequest(finding: SarifFinding, run: SarifRun): CreateTodoRequest {
+    const summary = finding.message.split(/\r?\n/)[0].trim();
+    const title = summary
+      ? `${finding.ruleId}: ${summary}`
+      : `${finding.ruleId}${finding.location ? ` in ${finding.location}` : ''}`;
+    const details = [
+      `Rule: ${finding.ruleId}${finding.ruleDescription ? ` - ${finding.ruleDescription}` : ''}`,
+      ...(finding.location ? [`Location: ${finding.location}`] : []),
+      `Tool: ${run.tool}${run.toolVersion ? ` ${run.toolVersion}` : ''}`,
+      ...(finding.helpUri ? [`Help: ${finding.helpUri}`] : []),
+    ];
+    const description = [finding.message.trim(), details.join('\n')].filter(Boolean).join('\n\n');
+    return {
+      title: TodoSarifMapper.truncate(title.trim(), MAX_TITLE_LENGTH),
+      description: TodoSarifMapper.truncate(description, MAX_DESCRIPTION_LENGTH),
+      severity: SARIF_LEVEL_SEVERITY[finding.level],
+      ...(finding.tags.length > 0 && { tags: finding.tags }),
+    };
+  }
+
+  /**
+   * Builds the finding stored on the TODO of a finding.
+   *
+   * @param finding - Finding of the run
+   * @param run - Run that reported the finding
+   * @param seenAt - Time of the run in ISO 8601 format
+   * @returns Finding to store on the TODO
+   */
+  static toTodoFinding(finding: SarifFinding, run: SarifRun, seenAt: string): TodoFinding {
+    return {
+      tool: run.tool,
+      ...(run.category && { category: run.category }),
+      ruleId: finding.ruleId,
+      fingerprint: finding.fingerprint,
+      ...(finding.location && { location: finding.location }),
+      lastSeenAt: seenAt,
+    };
+  }
+
+  /**
+   * Reads a run of the log.
+   *
+   * @param run - Run object of the log
+   * @param index - Index of the run in the log
+   * @returns Run with its findings
+   * @throws {SyntaxError} If the run has no tool name
+   * @private
+   */
+  private static toRun(run: SarifRunObject, index: number): SarifRun {
+    const driver = run?.tool?.driver;
+    const tool = typeof driver?.name === 'string' ? driver.name.trim() : '';
+    if (!tool) {
+      throw new SyntaxError(`Run ${index}: tool.driver.name is missing`);
+    }
+    const rules = Array.isArray(driver?.rules) ? driver!.rules : [];
+    const results = Array.isArray(run.results) ? run.results : [];
+    const invocation = Array.isArray(run.invocations) ? run.invocations[0] : undefined;
+    const findings: SarifFinding[] = [];
+    results.forEach((result, position) => {
+      const finding = TodoSarifMapper.toFinding(result, position, rules, run);
+      if (finding) {
+        findings.push(finding);
+      }
+    });
+    return {
+      tool,
+      toolVersion: TodoSarifMapper.toText(driver?.semanticVersion ?? driver?.version),
+      category: TodoSarifMapper.toText(run.automationDetails?.id),
+      time: TodoSarifMapper.toIsoDate(invocation?.endTimeUtc ?? invocation?.startTimeUtc),
+      complete: Array.isArray(run.results),
+      findings,
+    };
+  }
+
+  /**
+   * Reads a result of a run.
+   *
+   * @param result - Result object of the run
+   * @param position - Index of the result in the run
+   * @param rules - Rules of the run's tool
+   * @param run - Run object of the log
+   * @returns Finding, or null when the result does not fail or is suppressed
+   * @private
+   */
+  private static toFinding(
+    result: SarifResult,
+    position: number,
+    rules: SarifRule[],
+    run: SarifRunObject
+  ): SarifFinding | null {
+    if (!result || typeof result !== 'object') {
+      return null;
+    }
+    if ((result.kind ?? 'fail') !== 'fail') {
+      return null;
+    }
+    const suppressed = (result.suppressions || []).some(
+      (suppression) => (suppression?.status ?? 'accepted') === 'accepted'
+    );
+    if (suppressed) {
+      return null;
+    }
+    const ruleIndex = result.rule?.index ?? result.ruleIndex;
+    const ruleId = TodoSarifMapper.toText(result.ruleId ?? result.rule?.id) ?? '';
+    const rule =
+      (typeof ruleIndex === 'number' ? rules[ruleIndex] : undefined) ??
+      rules.find((candidate) => candidate?.id === ruleId);
+    const resolvedRuleId = ruleId || TodoSarifMapper.toText(rule?.id) || '';
+    const level = [result.level, rule?.defaultConfiguration?.level].find(
+      (candidate): candidate is SarifLevel => SARIF_LEVEL_VALUES.includes(candidate as SarifLevel)
+    );
+
+    const primary = Array.isArray(result.locations) ? result.locations[0] : undefined;
+    const physical = primary?.physicalLocation;
+    const artifactIndex = physical?.artifactLocation?.index;
+    const uri =
+      TodoSarifMapper.toText(physical?.artifactLocation?.uri) ??
+      (typeof artifactIndex === 'number'
+        ? TodoSarifMapper.toText(run.artifacts?.[artifactIndex]?.location?.uri)
+        : undefined);
+    const line = physical?.region?.startLine;
+    const logical = Array.isArray(primary?.logicalLocations)
+      ? primary!.logicalLocations[0]
+      : undefined;
+    const location = uri
+      ? `${uri}${typeof line === 'number' ? `:${line}` : ''}`
+      : TodoSarifMapper.toText(logical?.fullyQualifiedName ?? logical?.name);
+    const message = TodoSarifMapper.toMessage(result.message, rule);
+
+    const fingerprints =
+      TodoSarifMapper.toFingerprintEntries(result.fingerprints) ??
+      TodoSarifMapper.toFingerprintEntries(result.partialFingerprints);
+    const material = fingerprints
+      ? [resolvedRuleId, ...fingerprints]
+      : [
+          resolvedRuleId,
+          uri ?? location ?? '',
+          physical?.region?.snippet?.text?.trim() ?? String(line ?? ''),
+          message,
+        ];
+
+    return {
+      result: position,
+      ruleId: resolvedRuleId,
+      level: level ?? 'warning',
+      fingerprint: createHash('sha256').update(material.join('\n')).digest('hex'),
+      location,
+      message,
+      ruleDescription: TodoSarifMapper.toText(rule?.shortDescription?.text),
+      helpUri: TodoSarifMapper.toText(rule?.helpUri),
+      tags: TodoSarifMapper.toTags(rule?.properties?.tags),
+    };
+  }
+
+  /**
+   * Resolves the text of a result message, filling in a rule message string when the
+   * message only references one.
+   *
+   * @param message - Message of the result
+   * @param rule - Rule of the result
+   * @returns Message text, or an empty string when there is none
+   * @private
+   */
+  private static toMessage(message: SarifMessage | undefined, rule: SarifRule | undefined): string {
+    if (typeof message?.text === 'string') {
+      return message.text;
+    }
+    const template = message?.id ? rule?.messageStrings?.[message.id]?.text : undefined;
+    if (typeof template !== 'string') {
+      return '';
+    }
+    const args = Array.isArray(message?.arguments) ? message!.arguments : [];
+    return template.replace(
+      /\{(\d+)\}/g,
+      (placeholder, index) => args[Number(index)] ?? placeholder
+    );
+  }
+
+  /**
+   * Lists fingerprints in a stable order.
+   *
+   * @param fingerprints - Fingerprints keyed by their kind
+   * @returns `kind=value` entries sorted by kind, or undefined when there are none
+   * @private
+   */
+  private static toFingerprintEntries(
+    fingerprints: Record<string, string> | undefined
+  ): string[] | undefined {
+    if (!fingerprints || typeof fingerprints !== 'object') {
+      return undefined;
+    }
+    const entries = Object.keys(fingerprints)
+      .sort()
+      .map((kind) => `${kind}=${String(fingerprints[kind])}`);
+    return entries.length > 0 ? entries : undefined;
+  }
+
+  /**
+   * Converts rule tags to TODO tags, dropping tags that are too long and duplicates.
+   *
+   * @param tags - `properties.tags` of the rule
+   * @returns At most 20 tags
+   * @private
+   */
+  private static toTags(tags: unknown): string[] {
+    if (!Array.isArray(tags)) {
+      return [];
+    }
+    const result: string[] = [];
+    for (const tag of tags) {
+      const text = typeof tag === 'string' ? tag.trim().toLowerCase() : '';
+      if (text && text.length <= MAX_TAG_LENGTH && !result.includes(text)) {
+        result.push(text);
+      }
+    }
+    return result.slice(0, MAX_TAGS);
+  }
+
+  /**
+   * Converts a date to ISO 8601.
+   *
+   * @param value - Date from the log
+   * @returns ISO 8601 timestamp, or undefined when the value is not a date
+   * @private
+   */
+  private static toIsoDate(value: unknown): string | undefined {
+    if (typeof value !== 'string') {
+      return undefined;
+    }
+    const date = new Date(value);
+    return isNaN(date.getTime()) ? undefined : date.toISOString();
+  }
+
+  /**
+   * Reads a non-empty string.
+   *
+   * @param value - Value from the log
+   * @returns Trimmed text, or undefined when the value is not a non-empty string
+   * @private
+   */
+  private static toText(value: unknown): string | undefined {
+    return typeof value === 'string' && value.trim() ? value.trim() : undefined;
+  }
+
+  /**
+   * Shortens text to a maximum length.
+   *
+   * @param text - Text to shorten
+   * @param maxLength - Maximum length
+   * @returns The text, ending with an ellipsis when it was shortened
+   * @private
+   */
+  private static truncate(text: string, maxLength: number): string {
+    return text.length > maxLength ? `${text.slice(0, maxLength - 1)}${ELLIPSIS}` : text;
+  }
+}
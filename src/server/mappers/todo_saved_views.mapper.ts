@@ -0,0 +1,174 @@
+import {
+  TodoSavedView,
+  TodoSavedViewFilters,
+  TodoViewTab,
+  TodoSortField,
+  SortDirection,
+  CreateTodoSavedViewRequest,
+  UpdateTodoSavedViewRequest,
+  TODO_SAVED_VIEW_DATE_FILTERS,
+} from '../../common';
+import { OpenSearchHit } from './todos.mapper';
+/**
+ * Internal representation of a saved view in OpenSearch.
+ * Uses snake_case field names as per OpenSearch conventions.
+ */
+export interface TodoSavedViewDocument {
+  /** Name of the view */
+  name: string;
+
+  /** Username of the user who saved the view */
+  owner: string;
+
+  /** Whether every user can see the view */
+  shared: boolean;
+
+  /** Filters applied by the view (stored, not indexed) */
+  filters: TodoSavedViewFilters;
+
+  /** Sort field of the table */
+  sort_field: TodoSortField;
+
+  /** Sort direction of the table */
+  sort_direction: SortDirection;
+
+  /** Tab opened by the view */
+  tab: TodoViewTab;
+
+  /** Creation timestamp in ISO 8601 format */
+  created_at: string;
+
+  /** Last change timestamp in ISO 8601 format */
+  updated_at: string;
+}
+
+/**
+ * Mapper class for saved views.
+ *
+ * @remarks
+ * Maps between {@link TodoSavedViewDocument} stored in the saved views index and
+ * {@link TodoSavedView} returned by the API.
+ */
+export class TodoSavedViewsMapper {
+  /**
+   * Builds the document of a new saved view.
+   *
+   * @param request - The create request, already validated
+   * @param owner - Username of the user saving the view
+   * @param now - Current timestamp in ISO 8601 format
+   * @returns OpenSearch document ready for indexing
+   */
+  static toCreateDocument(
+    request: CreateTodoSavedViewRequest,
+    owner: string,
+    now: string
+  ): TodoSavedViewDocument {
+    return {
+      name: request.name.trim(),
+      owner,
+      shared: request.shared === true,
+      filters: TodoSavedViewsMapper.normalizeFilters(request.filters),
+      sort_field: request.sortField || 'createdAt',
+      sort_direction: request.sortDirection || 'desc',
+      tab: request.tab || 'table',
+      created_at: now,
+      updated_at: now,
+    };
+  }
+
+  /**
+   * Converts an update request to a partial document.
+   *
+   * @param request - The update request, already validated
+   * @param now - Current timestamp in ISO 8601 format
+   * @returns Partial OpenSearch document containing only the fields to update
+   */
+  static toUpdateDocument(
+    request: UpdateTodoSavedViewRequest,
+    now: string
+  ): Partial<TodoSavedViewDocument> {
+    const updates: Partial<TodoSavedViewDocument> = {
+      updated_at: now,
+    };
+    if (request.name !== undefined) {
+      updates.name = request.name.trim();
+    }
+    if (request.filters !== undefined) {
+      updates.filters = TodoSavedViewsMapper.normalizeFilters(request.filters);
+    }
+    if (request.sortField !== undefined) {
+      updates.sort_field = request.sortField;
+    }
+    if (request.sortDirection !== undefined) {
+      updates.sort_direction = request.sortDirection;
+    }
+    if (request.tab !== undefined) {
+      updates.tab = request.tab;
+    }
+    if (request.shared !== undefined) {
+      updates.shared = request.shared;
+    }
+    return updates;
+  }
+
+  /**
+   * Converts an OpenSearch hit to a saved view.
+   *
+   * @param hit - The OpenSearch search hit
+   * @returns A saved view
+   */
+  static fromOpenSearchHit(hit: OpenSearchHit<TodoSavedViewDocument>): TodoSavedView {
+    const source = hit._source;
+    return {
+      id: hit._id,
+      name: source.name,
+      owner: source.owner,
+      shared: source.shared === true,
+      filters: source.filters || {},
+      sortField: source.sort_field || 'createdAt',
+      sortDirection: source.sort_direction || 'desc',
+      tab: source.tab || 'table',
+      createdAt: source.created_at,
+      updatedAt: source.updated_at,
+    };
+  }
+
+  /**
+   * Normalizes the filters of a view.
+   * - Trims the search text and tags
+   * - Removes empty values and lists
+   * - Removes duplicates
+   *
+   * @param filters - Filters to normalize
+   * @returns Filters without empty values
+   */
+  static normalizeFilters(filters?: TodoSavedViewFilters): TodoSavedViewFilters {
+    if (!filters) {
+      return {};
+    }
+    const unique = <T extends string>(values?: readonly T[]): T[] =>
+      [...new Set((values || []).map((value) => value.trim() as T))].filter(
+        (value) => value.length > 0
+      );
+    const searchText = filters.searchText?.trim();
+    const status = unique(filters.status);
+    const tags = unique(filters.tags);
+    const priority = unique(filters.priority);
+    const severity = unique(filters.severity);
+    const dates: Partial<Record<typeof TODO_SAVED_VIEW_DATE_FILTERS[number], string>> = {};
+    TODO_SAVED_VIEW_DATE_FILTERS.forEach((field) => {
+      if (filters[field]) {
+        dates[field] = filters[field];
+      }
+    });
+    return {
+      ...(searchText && { searchText }),
+      ...(status.length > 0 && { status }),
+      ...(tags.length > 0 && { tags }),
+      ...(priority.length > 0 && { priority }),
+      ...(severity.length > 0 && { severity }),
+      ...(filters.isOverdue === true && { isOverdue: true }),
+      ...dates,
+    };
+  }
+}
@@ -9,6 +9,10 @@ import {
   AssigneeCount,
   CreateTodoRequest,
   UpdateTodoRequest,
+  TodoChildProgress,
+  TodoFinding,
+  TodoCustomFieldValue,
+  TodoCustomFieldValues,
   AnalyticsStats,
   ComplianceCoverageStats,
   OverdueTaskStats,
@@ -17,6 +21,8 @@ import {
   TODO_STATUS_VALUES,
   TODO_PRIORITY_VALUES,
   TODO_SEVERITY_VALUES,
+  formatRecurrenceRule,
+  parseRecurrenceRule,
 } from '../../common';
 import { OpenSearchAnalyticsAggregations } from '../repositories';
 /**
@@ -49,6 +55,9 @@ export interface TodoDocument {
   /** Severity level */
   severity: TodoSeverity;
 
+  /** Planned start date in ISO 8601 format, or null if not set */
+  start_date?: string | null;
+
   /** Due date in ISO 8601 format, or null if not set */
   due_date: string | null;
 
@@ -63,6 +72,55 @@ export interface TodoDocument {
 
   /** Completion timestamp in ISO 8601 format, or null if not completed */
   completed_at: string | null;
+
+  /** Reason recorded with the most recent status change, or null if none */
+  status_reason?: string | null;
+
+  /** ID of the parent TODO, or null for a top-level TODO */
+  parent_id?: string | null;
+
+  /** IDs of the TODOs that must be done before this TODO can start */
+  blocked_by?: string[];
+
+  /** Recurrence rule in canonical RRULE form, or null if the TODO does not recur */
+  recurrence?: string | null;
+
+  /** ID of the first TODO of the recurring series */
+  series_id?: string;
+
+  /** ID of the occurrence generated when this TODO was completed */
+  next_occurrence_id?: string;
+
+  /** Position in manually ordered lists, or null if not ranked */
+  rank?: string | null;
+
+  /** Custom field values keyed by field key; cleared values are stored as null */
+  custom?: Record<string, TodoCustomFieldValue | null>;
+
+  /** Scanner finding tracked by the TODO */
+  finding?: TodoFindingDocument;
+}
+/**
+ * Scanner finding as stored on a TODO document.
+ */
+export interface TodoFindingDocument {
+  /** Name of the tool that reported the finding */
+  tool: string;
+
+  /** Category of the analysis */
+  category?: string;
+
+  /** ID of the violated rule */
+  rule_id: string;
+
+  /** Stable fingerprint of the finding */
+  fingerprint: string;
+
+  /** Primary location of the finding */
+  location?: string;
+
+  /** Time of the most recent run that reported the finding in ISO 8601 format */
+  last_seen_at: string;
 }
 /**
  * Represents a single search result hit from OpenSearch.
@@ -78,6 +136,26 @@ export interface OpenSearchHit<T> {
 
   /** Relevance score (if applicable) */
   _score?: number;
+
+  /** Sequence number of the last change (for optimistic concurrency control) */
+  _seq_no?: number;
+
+  /** Primary term of the last change (for optimistic concurrency control) */
+  _primary_term?: number;
+
+  /** Sort values of the hit, used as `search_after` for the next page */
+  sort?: unknown[];
+}
+
+/**
+ * Decoded form of a {@link Todo} version token.
+ */
+export interface TodoDocumentVersion {
+  /** OpenSearch `_seq_no` of the document */
+  seqNo: number;
+
+  /** OpenSearch `_primary_term` of the document */
+  primaryTerm: number;
 }
 
 /**
@@ -191,13 +269,94 @@ export class TodosMapper {
       assignee: source.assignee,
       priority: source.priority,
       severity: source.severity,
+      startDate: source.start_date || undefined,
       dueDate: source.due_date || undefined,
       complianceFrameworks: source.compliance_framework || [],
       createdAt: source.created_at,
       updatedAt: source.updated_at,
       completedAt: source.completed_at,
+      statusReason: source.status_reason || undefined,
+      parentId: source.parent_id || undefined,
+      blockedBy: source.blocked_by?.length ? source.blocked_by : undefined,
+      recurrence: source.recurrence || undefined,
+      seriesId: source.series_id || undefined,
+      nextOccurrenceId: source.next_occurrence_id || undefined,
+      rank: source.rank || undefined,
+      custom: TodosMapper.toCustomValues(source.custom),
+      finding: source.finding ? TodosMapper.fromFindingDocument(source.finding) : undefined,
+      version: TodosMapper.encodeVersion(hit._seq_no, hit._primary_term),
     };
   }
+
+  /**
+   * Converts a stored scanner finding to its domain form.
+   *
+   * @param finding - Finding as stored on the TODO document
+   * @returns Finding of the TODO
+   */
+  static fromFindingDocument(finding: TodoFindingDocument): TodoFinding {
+    return {
+      tool: finding.tool,
+      ...(finding.category && { category: finding.category }),
+      ruleId: finding.rule_id,
+      fingerprint: finding.fingerprint,
+      ...(finding.location && { location: finding.location }),
+      lastSeenAt: finding.last_seen_at,
+    };
+  }
+
+  /**
+   * Converts a scanner finding to its stored form.
+   *
+   * @param finding - Finding of the TODO
+   * @returns Finding to store on the TODO document
+   */
+  static toFindingDocument(finding: TodoFinding): TodoFindingDocument {
+    return {
+      tool: finding.tool,
+      ...(finding.category && { category: finding.category }),
+      rule_id: finding.ruleId,
+      fingerprint: finding.fingerprint,
+      ...(finding.location && { location: finding.location }),
+      last_seen_at: finding.lastSeenAt,
+    };
+  }
+
+  /**
+   * Encodes OpenSearch sequence number and primary term into an opaque version token.
+   *
+   * @param seqNo - Document `_seq_no`
+   * @param primaryTerm - Document `_primary_term`
+   * @returns Base64 version token, or undefined if either value is missing
+   */
+  static encodeVersion(seqNo?: number, primaryTerm?: number): string | undefined {
+    if (seqNo === undefined || primaryTerm === undefined) {
+      return undefined;
+    }
+    return Buffer.from(JSON.stringify([seqNo, primaryTerm]), 'utf8').toString('base64');
+  }
+
+  /**
+   * Decodes a version token produced by {@link TodosMapper.encodeVersion}.
+   *
+   * @param version - Opaque version token
+   * @returns Sequence number and primary term, or null if the token is malformed
+   */
+  static decodeVersion(version: string): TodoDocumentVersion | null {
+    try {
+      const decoded = JSON.parse(Buffer.from(version, 'base64').toString('utf8'));
+      if (
+        Array.isArray(decoded) &&
+        decoded.length === 2 &&
+        decoded.every((value) => Number.isInteger(value) && value >= 0)
+      ) {
+        return { seqNo: decoded[0], primaryTerm: decoded[1] };
+      }
+      return null;
+    } catch {
+      return null;
+    }
+  }
   /**
    * Converts multiple OpenSearch hits to TODO domain entities.
    *
@@ -226,6 +385,7 @@ export class TodosMapper {
       assignee: request.assignee?.trim(),
       priority: request.priority || 'medium',
       severity: request.severity || 'low',
+      start_date: request.startDate || null,
       due_date: request.dueDate || null,
       compliance_framework: TodosMapper.normalizeComplianceFrameworks(
         request.complianceFrameworks
@@ -233,6 +393,57 @@ export class TodosMapper {
       created_at: now,
       updated_at: now,
       completed_at: completedAt,
+      parent_id: request.parentId?.trim() || undefined,
+      blocked_by: TodosMapper.normalizeIds(request.blockedBy),
+      recurrence: TodosMapper.normalizeRecurrence(request.recurrence),
+      custom: request.custom
+        ? TodosMapper.toCustomValues(TodosMapper.normalizeCustomValues(request.custom))
+        : undefined,
+    };
+  }
+
+  /**
+   * Builds the document of the next occurrence of a recurring TODO.
+   *
+   * @param previous - The occurrence that was just completed
+   * @param dueDate - Due date of the next occurrence in ISO 8601 format, or null if none
+   * @param now - Current timestamp in ISO 8601 format
+   * @returns OpenSearch document for the new, planned occurrence
+   *
+   * @remarks
+   * Content fields, custom field values, the parent and the recurrence rule are copied;
+   * status, blockers and subtasks are not. A start date keeps its distance to the due date.
+   */
+  static toNextOccurrenceDocument(
+    previous: Todo,
+    dueDate: string | null,
+    now: string
+  ): TodoDocument {
+    const lead =
+      previous.startDate && previous.dueDate
+        ? Date.parse(previous.dueDate) - Date.parse(previous.startDate)
+        : null;
+    return {
+      ...TodosMapper.toCreateDocument(
+        {
+          title: previous.title,
+          description: previous.description,
+          status: 'planned',
+          tags: [...previous.tags],
+          assignee: previous.assignee,
+          priority: previous.priority,
+          severity: previous.severity,
+          complianceFrameworks: [...previous.complianceFrameworks],
+          parentId: previous.parentId,
+          recurrence: previous.recurrence,
+          custom: previous.custom ? { ...previous.custom } : undefined,
+        },
+        now
+      ),
+      start_date:
+        dueDate && lead !== null ? new Date(Date.parse(dueDate) - lead).toISOString() : null,
+      due_date: dueDate,
+      series_id: previous.seriesId ?? previous.id,
     };
   }
   /**
@@ -265,6 +476,9 @@ export class TodosMapper {
       if (request.status !== 'done' && existingTodo.status === 'done') {
         updates.completed_at = null;
       }
+      if (request.status !== existingTodo.status) {
+        updates.status_reason = request.statusReason?.trim() || null;
+      }
     }
     if (request.tags !== undefined) {
       updates.tags = TodosMapper.normalizeTags(request.tags);
@@ -278,6 +492,9 @@ export class TodosMapper {
     if (request.severity !== undefined) {
       updates.severity = request.severity;
     }
+    if (request.startDate !== undefined) {
+      updates.start_date = request.startDate;
+    }
     if (request.dueDate !== undefined) {
       updates.due_date = request.dueDate;
     }
@@ -286,6 +503,22 @@ export class TodosMapper {
         request.complianceFrameworks
       );
     }
+    if (request.parentId !== undefined) {
+      updates.parent_id = request.parentId?.trim() || null;
+    }
+    if (request.blockedBy !== undefined) {
+      updates.blocked_by = TodosMapper.normalizeIds(request.blockedBy);
+    }
+    if (request.recurrence !== undefined) {
+      updates.recurrence = TodosMapper.normalizeRecurrence(request.recurrence);
+    }
+    if (request.rank !== undefined) {
+      updates.rank = request.rank;
+    }
+    if (request.custom !== undefined && Object.keys(request.custom).length > 0) {
+      // Partial updates merge objects, so only the changed keys are sent; null clears a key
+      updates.custom = TodosMapper.normalizeCustomValues(request.custom);
+    }
     return updates;
   }
   /**
@@ -308,6 +541,73 @@ export class TodosMapper {
     return [...new Set(normalized)];
   }
 
+  /**
+   * Normalizes an array of TODO IDs.
+   * - Trims whitespace
+   * - Removes empty strings
+   * - Removes duplicates
+   *
+   * @param ids - Array of IDs to normalize
+   * @returns Normalized array of unique IDs
+   */
+  static normalizeIds(ids?: readonly string[]): string[] {
+    if (!ids || ids.length === 0) {
+      return [];
+    }
+    const normalized = ids.map((id) => id.trim()).filter((id) => id.length > 0);
+    return [...new Set(normalized)];
+  }
+
+  /**
+   * Normalizes a recurrence rule to its canonical RRULE form.
+   *
+   * @param recurrence - Recurrence rule to normalize
+   * @returns Canonical rule, or null if the rule is missing or invalid
+   */
+  static normalizeRecurrence(recurrence?: string | null): string | null {
+    const rule = recurrence ? parseRecurrenceRule(recurrence) : null;
+    return rule ? formatRecurrenceRule(rule) : null;
+  }
+
+  /**
+   * Normalizes custom field values.
+   * - Trims whitespace of text values
+   * - Turns empty text values into null (cleared)
+   *
+   * @param values - Custom field values to normalize, already validated
+   * @returns Normalized values keyed by field key
+   */
+  static normalizeCustomValues(
+    values: Readonly<Record<string, TodoCustomFieldValue | null>>
+  ): Record<string, TodoCustomFieldValue | null> {
+    const normalized: Record<string, TodoCustomFieldValue | null> = {};
+    for (const [key, value] of Object.entries(values)) {
+      normalized[key] = typeof value === 'string' ? value.trim() || null : value;
+    }
+    return normalized;
+  }
+
+  /**
+   * Converts stored custom field values to the values exposed on a TODO.
+   *
+   * @param custom - Stored custom field values
+   * @returns Values without cleared keys, or undefined if no value is set
+   */
+  static toCustomValues(
+    custom?: Readonly<Record<string, TodoCustomFieldValue | null>> | null
+  ): TodoCustomFieldValues | undefined {
+    if (!custom) {
+      return undefined;
+    }
+    const values: Record<string, TodoCustomFieldValue> = {};
+    for (const [key, value] of Object.entries(custom)) {
+      if (value !== null && value !== undefined) {
+        values[key] = value;
+      }
+    }
+    return Object.keys(values).length > 0 ? values : undefined;
+  }
+
   /**
    * Normalizes an array of compliance frameworks.
    * - Trims whitespace
@@ -376,9 +676,15 @@ export class TodosMapper {
    * @param existingTodo - The existing TODO entity
    * @param updateDoc - Partial document with updates
    * @param id - The TODO ID
+   * @param version - Version token of the document after the update
    * @returns Updated TODO entity with merged values
    */
-  static mergeUpdate(existingTodo: Todo, updateDoc: Partial<TodoDocument>, id: string): Todo {
+  static mergeUpdate(
+    existingTodo: Todo,
+    updateDoc: Partial<TodoDocument>,
+    id: string,
+    version?: string
+  ): Todo {
     return {
       id,
       title: updateDoc.title ?? existingTodo.title,
@@ -388,6 +694,10 @@ export class TodosMapper {
       assignee: updateDoc.assignee ?? existingTodo.assignee,
       priority: updateDoc.priority ?? existingTodo.priority,
       severity: updateDoc.severity ?? existingTodo.severity,
+      startDate:
+        updateDoc.start_date !== undefined
+          ? updateDoc.start_date || undefined
+          : existingTodo.startDate,
       dueDate:
         updateDoc.due_date !== undefined
           ? updateDoc.due_date || undefined
@@ -399,6 +709,47 @@ export class TodosMapper {
       updatedAt: updateDoc.updated_at ?? existingTodo.updatedAt,
       completedAt:
         updateDoc.completed_at !== undefined ? updateDoc.completed_at : existingTodo.completedAt,
+      statusReason:
+        updateDoc.status_reason !== undefined
+          ? updateDoc.status_reason || undefined
+          : existingTodo.statusReason,
+      parentId:
+        updateDoc.parent_id !== undefined ? updateDoc.parent_id || undefined : existingTodo.parentId,
+      childProgress: existingTodo.childProgress,
+      blockedBy:
+        updateDoc.blocked_by !== undefined
+          ? updateDoc.blocked_by.length > 0
+            ? updateDoc.blocked_by
+            : undefined
+          : existingTodo.blockedBy,
+      recurrence:
+        updateDoc.recurrence !== undefined
+          ? updateDoc.recurrence || undefined
+          : existingTodo.recurrence,
+      seriesId: existingTodo.seriesId,
+      nextOccurrenceId: updateDoc.next_occurrence_id ?? existingTodo.nextOccurrenceId,
+      rank: updateDoc.rank !== undefined ? updateDoc.rank || undefined : existingTodo.rank,
+      custom: updateDoc.custom
+        ? TodosMapper.toCustomValues({ ...existingTodo.custom, ...updateDoc.custom })
+        : existingTodo.custom,
+      finding: updateDoc.finding
+        ? TodosMapper.fromFindingDocument(updateDoc.finding)
+        : existingTodo.finding,
+      version,
+    };
+  }
+  /**
+   * Builds the subtask roll-up of a parent TODO.
+   *
+   * @param total - Number of direct subtasks
+   * @param done - Number of direct subtasks with status `done`
+   * @returns Child progress with the percentage done
+   */
+  static toChildProgress(total: number, done: number): TodoChildProgress {
+    return {
+      total,
+      done,
+      percent: TodosMapper.calculatePercentage(done, total),
     };
   }
   /**
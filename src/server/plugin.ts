@@ -7,17 +7,20 @@ import {
 } from '../../../src/core/server';
 import { CustomPluginPluginSetup, CustomPluginPluginStart } from './types';
 import { defineRoutes } from './routes';
+import { CustomPluginConfigType } from './config';
 export class CustomPluginPlugin
   implements Plugin<CustomPluginPluginSetup, CustomPluginPluginStart>
 {
   private readonly logger: Logger;
+  private readonly config: CustomPluginConfigType;
   constructor(initializerContext: PluginInitializerContext) {
     this.logger = initializerContext.logger.get();
+    this.config = initializerContext.config.get();
   }
   public setup(core: CoreSetup): CustomPluginPluginSetup {
     this.logger.debug('customPlugin: Setup');
     const router = core.http.createRouter();
-    defineRoutes(router, this.logger);
+    defineRoutes(router, this.logger, this.config);
     this.logger.info('customPlugin: Routes registered');
     return {};
   }
@@ -1,2 +1,6 @@
 export * from './index_manager';
 export * from './todos.repository';
+export * from './todo_audit.repository';
+export * from './todo_comments.repository';
+export * from './todo_custom_fields.repository';
+export * from './todo_saved_views.repository';
@@ -21,6 +21,9 @@ export interface OpenSearchClient {
       body: Record<string, unknown>;
     }) => Promise<unknown>;
   };
+  transport?: {
+    request: <T = unknown>(params: { method: string; path: string }) => Promise<{ body: T }>;
+  };
   updateByQuery?: (params: {
     index: string;
     body: {
@@ -28,6 +31,7 @@ export interface OpenSearchClient {
       script?: {
         source: string;
         lang: string;
+        params?: Record<string, unknown>;
       };
     };
     refresh?: boolean | 'wait_for';
@@ -37,16 +41,31 @@ export interface OpenSearchClient {
       updated?: number;
       failures?: unknown[];
       total?: number;
+      version_conflicts?: number;
     };
   }>;
 }
+export interface IndexDefinition {
+  settings: Record<string, unknown>;
+  mappings: Record<string, unknown>;
+}
+const TODO_INDEX_DEFINITION: IndexDefinition = {
+  settings: TODO_INDEX_SETTINGS,
+  mappings: TODO_INDEX_MAPPING,
+};
 export class IndexManager {
   private readonly indexName: string;
   private readonly logger: Logger;
+  private readonly definition: IndexDefinition;
   private indexCreated: boolean = false;
-  constructor(logger: Logger, indexName: string = DEFAULT_INDEX_NAME) {
+  constructor(
+    logger: Logger,
+    indexName: string = DEFAULT_INDEX_NAME,
+    definition: IndexDefinition = TODO_INDEX_DEFINITION
+  ) {
     this.logger = logger;
     this.indexName = indexName;
+    this.definition = definition;
   }
   getIndexName(): string {
     return this.indexName;
@@ -68,8 +87,8 @@ export class IndexManager {
       await client.indices.create({
         index: this.indexName,
         body: {
-          settings: TODO_INDEX_SETTINGS,
-          mappings: TODO_INDEX_MAPPING,
+          settings: this.definition.settings,
+          mappings: this.definition.mappings,
         },
       });
       this.logger.info(`Index '${this.indexName}' created successfully`);
@@ -0,0 +1,105 @@
+import { Logger } from '../../../../src/core/server';
+import {
+  TodoHistoryEntry,
+  DEFAULT_AUDIT_INDEX_NAME,
+  DEFAULT_PAGE_SIZE,
+  MAX_PAGE_SIZE,
+} from '../../common';
+import { TodoAuditMapper, TodoAuditDocument, OpenSearchSearchResponse } from '../mappers';
+import { IndexError } from '../errors';
+import { IndexManager } from './index_manager';
+import { TodoOpenSearchClient } from './todos.repository';
+export interface TodoHistoryResult {
+  entries: TodoHistoryEntry[];
+  total: number;
+}
+
+/**
+ * Repository layer for TODO history (audit trail) data access.
+ *
+ * Entries are append-only: once written they are never updated or deleted,
+ * and they outlive the TODO they describe.
+ */
+export class TodoAuditRepository {
+  private readonly indexName: string;
+  private readonly logger: Logger;
+  private readonly indexManager: IndexManager;
+
+  constructor(
+    logger: Logger,
+    indexManager: IndexManager,
+    indexName: string = DEFAULT_AUDIT_INDEX_NAME
+  ) {
+    this.logger = logger;
+    this.indexManager = indexManager;
+    this.indexName = indexName;
+  }
+
+  /**
+   * Appends a history entry to the audit index.
+   *
+   * @param client - OpenSearch client with request-scoped permissions
+   * @param document - Audit document to append (OpenSearch format)
+   * @returns The stored history entry
+   * @throws {IndexError} If OpenSearch operation fails
+   */
+  async append(client: TodoOpenSearchClient, document: TodoAuditDocument): Promise<TodoHistoryEntry> {
+    await this.indexManager.ensureIndex(client);
+    try {
+      const result = await client.index({
+        index: this.indexName,
+        body: document as unknown as Record<string, unknown>,
+      });
+      this.logger.debug(
+        `Recorded '${document.action}' history entry for TODO '${document.todo_id}'`
+      );
+      return TodoAuditMapper.fromOpenSearchHit({ _id: result.body._id, _source: document });
+    } catch (error) {
+      this.logger.error(`Failed to record history for TODO '${document.todo_id}'`, error);
+      throw new IndexError(`Failed to record history for TODO '${document.todo_id}'`, {
+        originalError: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  /**
+   * Lists history entries of a TODO, newest first.
+   *
+   * @param client - OpenSearch client with request-scoped permissions
+   * @param todoId - ID of the TODO
+   * @param page - Page number (1-based)
+   * @param pageSize - Number of entries per page
+   * @returns Matching history entries and total count
+   * @throws {IndexError} If OpenSearch operation fails
+   */
+  async listByTodoId(
+    client: TodoOpenSearchClient,
+    todoId: string,
+    page: number = 1,
+    pageSize: number = DEFAULT_PAGE_SIZE
+  ): Promise<TodoHistoryResult> {
+    await this.indexManager.ensureIndex(client);
+    const safePage = Math.max(1, page);
+    const size = Math.min(MAX_PAGE_SIZE, Math.max(1, pageSize));
+    try {
+      const result = await client.search<OpenSearchSearchResponse<TodoAuditDocument>>({
+        index: this.indexName,
+        body: {
+          query: { term: { todo_id: todoId } },
+          sort: [{ timestamp: { order: 'desc' } }],
+          from: (safePage - 1) * size,
+          size,
+        },
+      });
+      return {
+        entries: result.body.hits.hits.map((hit) => TodoAuditMapper.fromOpenSearchHit(hit)),
+        total: result.body.hits.total.value,
+      };
+    } catch (error) {
+      this.logger.error(`Failed to get history for TODO '${todoId}'`, error);
+      throw new IndexError(`Failed to get history for TODO '${todoId}'`, {
+        originalError: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+}
@@ -0,0 +1,267 @@
+import { Logger } from '../../../../src/core/server';
+import {
+  TodoComment,
+  DEFAULT_COMMENTS_INDEX_NAME,
+  DEFAULT_PAGE_SIZE,
+  MAX_PAGE_SIZE,
+} from '../../common';
+import { TodoCommentsMapper, TodoCommentDocument, OpenSearchSearchResponse } from '../mappers';
+import { IndexError, NotFoundError } from '../errors';
+import { IndexManager } from './index_manager';
+import { TodoOpenSearchClient } from './todos.repository';
+export interface TodoCommentsResult {
+  comments: TodoComment[];
+  total: number;
+}
+
+/**
+ * Repository layer for TODO comment data access.
+ *
+ * Comments live in their own index and reference their TODO by `todo_id`.
+ */
+export class TodoCommentsRepository {
+  private readonly indexName: string;
+  private readonly logger: Logger;
+  private readonly indexManager: IndexManager;
+
+  constructor(
+    logger: Logger,
+    indexManager: IndexManager,
+    indexName: string = DEFAULT_COMMENTS_INDEX_NAME
+  ) {
+    this.logger = logger;
+    this.indexManager = indexManager;
+    this.indexName = indexName;
+  }
+
+  /**
+   * Stores a new comment.
+   *
+   * @param client - OpenSearch client with request-scoped permissions
+   * @param document - Comment document to store (OpenSearch format)
+   * @returns The stored comment
+   * @throws {IndexError} If OpenSearch operation fails
+   */
+  async create(client: TodoOpenSearchClient, document: TodoCommentDocument): Promise<TodoComment> {
+    await this.indexManager.ensureIndex(client);
+    try {
+      const result = await client.index({
+        index: this.indexName,
+        body: document as unknown as Record<string, unknown>,
+        refresh: 'wait_for',
+      });
+      this.logger.debug(`Added comment '${result.body._id}' to TODO '${document.todo_id}'`);
+      return TodoCommentsMapper.fromOpenSearchHit({ _id: result.body._id, _source: document });
+    } catch (error) {
+      this.logger.error(`Failed to add comment to TODO '${document.todo_id}'`, error);
+      throw new IndexError(`Failed to add comment to TODO '${document.todo_id}'`, {
+        originalError: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  /**
+   * Retrieves a comment of a TODO.
+   *
+   * @param client - OpenSearch client with request-scoped permissions
+   * @param todoId - ID of the TODO the comment must belong to
+   * @param commentId - ID of the comment
+   * @returns The comment
+   * @throws {NotFoundError} If the TODO has no comment with this ID
+   * @throws {IndexError} If OpenSearch operation fails
+   */
+  async getById(
+    client: TodoOpenSearchClient,
+    todoId: string,
+    commentId: string
+  ): Promise<TodoComment> {
+    await this.indexManager.ensureIndex(client);
+    let hits;
+    try {
+      const result = await client.search<OpenSearchSearchResponse<TodoCommentDocument>>({
+        index: this.indexName,
+        body: {
+          size: 1,
+          query: {
+            bool: {
+              filter: [{ ids: { values: [commentId] } }, { term: { todo_id: todoId } }],
+            },
+          },
+        },
+      });
+      hits = result.body.hits.hits;
+    } catch (error) {
+      this.logger.error(`Failed to get comment '${commentId}'`, error);
+      throw new IndexError(`Failed to get comment '${commentId}'`, {
+        originalError: error instanceof Error ? error.message : String(error),
+      });
+    }
+    if (hits.length === 0) {
+      throw new NotFoundError('Comment', commentId);
+    }
+    return TodoCommentsMapper.fromOpenSearchHit(hits[0]);
+  }
+
+  /**
+   * Lists the comments of a TODO, oldest first.
+   *
+   * @param client - OpenSearch client with request-scoped permissions
+   * @param todoId - ID of the TODO
+   * @param page - Page number (1-based)
+   * @param pageSize - Number of comments per page
+   * @returns Matching comments and total count
+   * @throws {IndexError} If OpenSearch operation fails
+   */
+  async listByTodoId(
+    client: TodoOpenSearchClient,
+    todoId: string,
+    page: number = 1,
+    pageSize: number = DEFAULT_PAGE_SIZE
+  ): Promise<TodoCommentsResult> {
+    await this.indexManager.ensureIndex(client);
+    const safePage = Math.max(1, page);
+    const size = Math.min(MAX_PAGE_SIZE, Math.max(1, pageSize));
+    try {
+      const result = await client.search<OpenSearchSearchResponse<TodoCommentDocument>>({
+        index: this.indexName,
+        body: {
+          query: { term: { todo_id: todoId } },
+          sort: [{ created_at: { order: 'asc' } }],
+          from: (safePage - 1) * size,
+          size,
+        },
+      });
+      return {
+        comments: result.body.hits.hits.map((hit) => TodoCommentsMapper.fromOpenSearchHit(hit)),
+        total: result.body.hits.total.value,
+      };
+    } catch (error) {
+      this.logger.error(`Failed to get comments for TODO '${todoId}'`, error);
+      throw new IndexError(`Failed to get comments for TODO '${todoId}'`, {
+        originalError: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  /**
+   * Replaces the body of a comment.
+   *
+   * @param client - OpenSearch client with request-scoped permissions
+   * @param commentId - ID of the comment
+   * @param body - New comment text, already validated
+   * @param timestamp - Edit timestamp in ISO 8601 format
+   * @throws {IndexError} If OpenSearch operation fails
+   */
+  async update(
+    client: TodoOpenSearchClient,
+    commentId: string,
+    body: string,
+    timestamp: string
+  ): Promise<void> {
+    await this.indexManager.ensureIndex(client);
+    try {
+      await client.update({
+        index: this.indexName,
+        id: commentId,
+        body: { doc: { body, updated_at: timestamp } },
+        refresh: 'wait_for',
+      });
+    } catch (error) {
+      this.logger.error(`Failed to update comment '${commentId}'`, error);
+      throw new IndexError(`Failed to update comment '${commentId}'`, {
+        originalError: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  /**
+   * Deletes a comment.
+   *
+   * @param client - OpenSearch client with request-scoped permissions
+   * @param commentId - ID of the comment
+   * @returns True if the comment was deleted
+   * @throws {IndexError} If OpenSearch operation fails
+   */
+  async delete(client: TodoOpenSearchClient, commentId: string): Promise<boolean> {
+    await this.indexManager.ensureIndex(client);
+    try {
+      const result = await client.delete({
+        index: this.indexName,
+        id: commentId,
+        refresh: 'wait_for',
+      });
+      return result.body.result === 'deleted';
+    } catch (error) {
+      this.logger.error(`Failed to delete comment '${commentId}'`, error);
+      throw new IndexError(`Failed to delete comment '${commentId}'`, {
+        originalError: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  /**
+   * Deletes every comment of a TODO.
+   *
+   * @param client - OpenSearch client with request-scoped permissions
+   * @param todoId - ID of the TODO
+   * @returns Number of deleted comments
+   * @throws {IndexError} If OpenSearch operation fails
+   */
+  async deleteByTodoId(client: TodoOpenSearchClient, todoId: string): Promise<number> {
+    await this.indexManager.ensureIndex(client);
+    try {
+      const result = await client.deleteByQuery({
+        index: this.indexName,
+        body: { query: { term: { todo_id: todoId } } },
+        refresh: true,
+        conflicts: 'proceed',
+      });
+      return result.body.deleted ?? 0;
+    } catch (error) {
+      this.logger.error(`Failed to delete comments of TODO '${todoId}'`, error);
+      throw new IndexError(`Failed to delete comments of TODO '${todoId}'`, {
+        originalError: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  /**
+   * Counts the comments of several TODOs with a single aggregation.
+   *
+   * @param client - OpenSearch client with request-scoped permissions
+   * @param todoIds - IDs of the TODOs
+   * @returns Comment counts keyed by TODO ID (TODOs without comments are omitted)
+   * @throws {IndexError} If OpenSearch operation fails
+   */
+  async countByTodoIds(
+    client: TodoOpenSearchClient,
+    todoIds: readonly string[]
+  ): Promise<Map<string, number>> {
+    if (todoIds.length === 0) {
+      return new Map();
+    }
+    await this.indexManager.ensureIndex(client);
+    try {
+      const result = await client.search<{
+        aggregations: { by_todo: { buckets: Array<{ key: string; doc_count: number }> } };
+      }>({
+        index: this.indexName,
+        body: {
+          size: 0,
+          query: { terms: { todo_id: [...todoIds] } },
+          aggs: {
+            by_todo: { terms: { field: 'todo_id', size: todoIds.length } },
+          },
+        },
+      });
+      return new Map(
+        result.body.aggregations.by_todo.buckets.map((bucket) => [bucket.key, bucket.doc_count])
+      );
+    } catch (error) {
+      this.logger.error('Failed to count comments', error);
+      throw new IndexError('Failed to count TODO comments', {
+        originalError: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+}
@@ -0,0 +1,195 @@
+import { Logger } from '../../../../src/core/server';
+import {
+  TodoCustomFieldDefinition,
+  DEFAULT_CUSTOM_FIELDS_INDEX_NAME,
+  MAX_TODO_CUSTOM_FIELDS,
+} from '../../common';
+import {
+  TodoCustomFieldsMapper,
+  TodoCustomFieldDocument,
+  OpenSearchSearchResponse,
+} from '../mappers';
+import { ConflictError, IndexError, NotFoundError } from '../errors';
+import { IndexManager } from './index_manager';
+import { TodoOpenSearchClient, isNotFoundError, isVersionConflictError } from './todos.repository';
+
+/**
+ * Repository layer for the custom field registry.
+ *
+ * Each definition is stored in the custom fields index with its key as document ID,
+ * which keeps keys unique.
+ */
+export class TodoCustomFieldsRepository {
+  private readonly indexName: string;
+  private readonly logger: Logger;
+  private readonly indexManager: IndexManager;
+
+  constructor(
+    logger: Logger,
+    indexManager: IndexManager,
+    indexName: string = DEFAULT_CUSTOM_FIELDS_INDEX_NAME
+  ) {
+    this.logger = logger;
+    this.indexManager = indexManager;
+    this.indexName = indexName;
+  }
+
+  /**
+   * Lists every custom field definition, oldest first.
+   *
+   * @param client - OpenSearch client with request-scoped permissions
+   * @returns Field definitions
+   * @throws {IndexError} If OpenSearch operation fails
+   */
+  async list(client: TodoOpenSearchClient): Promise<TodoCustomFieldDefinition[]> {
+    await this.indexManager.ensureIndex(client);
+    try {
+      const result = await client.search<OpenSearchSearchResponse<TodoCustomFieldDocument>>({
+        index: this.indexName,
+        body: {
+          query: { match_all: {} },
+          sort: [{ created_at: { order: 'asc' } }],
+          size: MAX_TODO_CUSTOM_FIELDS,
+        },
+      });
+      return result.body.hits.hits.map((hit) => TodoCustomFieldsMapper.fromOpenSearchHit(hit));
+    } catch (error) {
+      this.logger.error('Failed to list custom fields', error);
+      throw new IndexError('Failed to list custom fields', {
+        originalError: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  /**
+   * Retrieves a custom field definition by key.
+   *
+   * @param client - OpenSearch client with request-scoped permissions
+   * @param key - Key of the field
+   * @returns The field definition
+   * @throws {NotFoundError} If no field has this key
+   * @throws {IndexError} If OpenSearch operation fails
+   */
+  async getByKey(client: TodoOpenSearchClient, key: string): Promise<TodoCustomFieldDefinition> {
+    await this.indexManager.ensureIndex(client);
+    let hits;
+    try {
+      const result = await client.search<OpenSearchSearchResponse<TodoCustomFieldDocument>>({
+        index: this.indexName,
+        body: {
+          size: 1,
+          query: { ids: { values: [key] } },
+        },
+      });
+      hits = result.body.hits.hits;
+    } catch (error) {
+      this.logger.error(`Failed to get custom field '${key}'`, error);
+      throw new IndexError(`Failed to get custom field '${key}'`, {
+        originalError: error instanceof Error ? error.message : String(error),
+      });
+    }
+    if (hits.length === 0) {
+      throw new NotFoundError('Custom field', key);
+    }
+    return TodoCustomFieldsMapper.fromOpenSearchHit(hits[0]);
+  }
+
+  /**
+   * Stores a new custom field definition.
+   *
+   * @param client - OpenSearch client with request-scoped permissions
+   * @param key - Key of the field, used as document ID
+   * @param document - Definition document to store (OpenSearch format)
+   * @returns The stored field definition
+   * @throws {ConflictError} If a field with this key already exists
+   * @throws {IndexError} If OpenSearch operation fails
+   */
+  async create(
+    client: TodoOpenSearchClient,
+    key: string,
+    document: TodoCustomFieldDocument
+  ): Promise<TodoCustomFieldDefinition> {
+    await this.indexManager.ensureIndex(client);
+    try {
+      await client.index({
+        index: this.indexName,
+        id: key,
+        body: document as unknown as Record<string, unknown>,
+        op_type: 'create',
+        refresh: 'wait_for',
+      });
+      this.logger.debug(`Defined custom field '${key}'`);
+      return TodoCustomFieldsMapper.fromOpenSearchHit({ _id: key, _source: document });
+    } catch (error) {
+      if (isVersionConflictError(error)) {
+        throw new ConflictError(`Custom field '${key}' already exists`, { key });
+      }
+      this.logger.error(`Failed to define custom field '${key}'`, error);
+      throw new IndexError(`Failed to define custom field '${key}'`, {
+        originalError: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  /**
+   * Updates a custom field definition with partial updates.
+   *
+   * @param client - OpenSearch client with request-scoped permissions
+   * @param key - Key of the field
+   * @param updates - Partial document with fields to update
+   * @throws {NotFoundError} If no field has this key
+   * @throws {IndexError} If OpenSearch operation fails
+   */
+  async update(
+    client: TodoOpenSearchClient,
+    key: string,
+    updates: Partial<TodoCustomFieldDocument>
+  ): Promise<void> {
+    await this.indexManager.ensureIndex(client);
+    try {
+      await client.update({
+        index: this.indexName,
+        id: key,
+        body: { doc: updates as Record<string, unknown> },
+        refresh: 'wait_for',
+      });
+    } catch (error) {
+      if (isNotFoundError(error)) {
+        throw new NotFoundError('Custom field', key);
+      }
+      this.logger.error(`Failed to update custom field '${key}'`, error);
+      throw new IndexError(`Failed to update custom field '${key}'`, {
+        originalError: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  /**
+   * Deletes a custom field definition.
+   *
+   * @param client - OpenSearch client with request-scoped permissions
+   * @param key - Key of the field
+   * @returns True if the definition was deleted
+   * @throws {NotFoundError} If no field has this key
+   * @throws {IndexError} If OpenSearch operation fails
+   */
+  async delete(client: TodoOpenSearchClient, key: string): Promise<boolean> {
+    await this.indexManager.ensureIndex(client);
+    try {
+      const result = await client.delete({
+        index: this.indexName,
+        id: key,
+        refresh: 'wait_for',
+      });
+      return result.body.result === 'deleted';
+    } catch (error) {
+      if (isNotFoundError(error)) {
+        throw new NotFoundError('Custom field', key);
+      }
+      this.logger.error(`Failed to delete custom field '${key}'`, error);
+      throw new IndexError(`Failed to delete custom field '${key}'`, {
+        originalError: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+}
@@ -0,0 +1,201 @@
+import { Logger } from '../../../../src/core/server';
+import { TodoSavedView, DEFAULT_SAVED_VIEWS_INDEX_NAME } from '../../common';
+import {
+  TodoSavedViewsMapper,
+  TodoSavedViewDocument,
+  OpenSearchSearchResponse,
+} from '../mappers';
+import { IndexError, NotFoundError } from '../errors';
+import { IndexManager } from './index_manager';
+import { TodoOpenSearchClient, isNotFoundError } from './todos.repository';
+
+/**
+ * Maximum number of views returned by a listing, own and shared together.
+ */
+const MAX_LISTED_SAVED_VIEWS = 1000;
+
+/**
+ * Repository layer for saved views of the TODO page.
+ *
+ * Views live in their own index and record the username of their owner.
+ */
+export class TodoSavedViewsRepository {
+  private readonly indexName: string;
+  private readonly logger: Logger;
+  private readonly indexManager: IndexManager;
+
+  constructor(
+    logger: Logger,
+    indexManager: IndexManager,
+    indexName: string = DEFAULT_SAVED_VIEWS_INDEX_NAME
+  ) {
+    this.logger = logger;
+    this.indexManager = indexManager;
+    this.indexName = indexName;
+  }
+
+  /**
+   * Lists the views of a user, and optionally the views shared by other users, by name.
+   *
+   * @param client - OpenSearch client with request-scoped permissions
+   * @param owner - Username of the user
+   * @param includeShared - Whether to include the views other users shared
+   * @returns Matching views
+   * @throws {IndexError} If OpenSearch operation fails
+   */
+  async list(
+    client: TodoOpenSearchClient,
+    owner: string,
+    includeShared: boolean = true
+  ): Promise<TodoSavedView[]> {
+    await this.indexManager.ensureIndex(client);
+    const query = includeShared
+      ? {
+          bool: {
+            should: [{ term: { owner } }, { term: { shared: true } }],
+            minimum_should_match: 1,
+          },
+        }
+      : { term: { owner } };
+    try {
+      const result = await client.search<OpenSearchSearchResponse<TodoSavedViewDocument>>({
+        index: this.indexName,
+        body: {
+          query,
+          sort: [{ name: { order: 'asc' } }, { created_at: { order: 'asc' } }],
+          size: MAX_LISTED_SAVED_VIEWS,
+        },
+      });
+      return result.body.hits.hits.map((hit) => TodoSavedViewsMapper.fromOpenSearchHit(hit));
+    } catch (error) {
+      this.logger.error(`Failed to list saved views of '${owner}'`, error);
+      throw new IndexError('Failed to list saved views', {
+        originalError: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  /**
+   * Retrieves a saved view by ID.
+   *
+   * @param client - OpenSearch client with request-scoped permissions
+   * @param id - ID of the view
+   * @returns The view
+   * @throws {NotFoundError} If no view has this ID
+   * @throws {IndexError} If OpenSearch operation fails
+   */
+  async getById(client: TodoOpenSearchClient, id: string): Promise<TodoSavedView> {
+    await this.indexManager.ensureIndex(client);
+    let hits;
+    try {
+      const result = await client.search<OpenSearchSearchResponse<TodoSavedViewDocument>>({
+        index: this.indexName,
+        body: {
+          size: 1,
+          query: { ids: { values: [id] } },
+        },
+      });
+      hits = result.body.hits.hits;
+    } catch (error) {
+      this.logger.error(`Failed to get saved view '${id}'`, error);
+      throw new IndexError(`Failed to get saved view '${id}'`, {
+        originalError: error instanceof Error ? error.message : String(error),
+      });
+    }
+    if (hits.length === 0) {
+      throw new NotFoundError('Saved view', id);
+    }
+    return TodoSavedViewsMapper.fromOpenSearchHit(hits[0]);
+  }
+
+  /**
+   * Stores a new saved view.
+   *
+   * @param client - OpenSearch client with request-scoped permissions
+   * @param document - View document to store (OpenSearch format)
+   * @returns The stored view
+   * @throws {IndexError} If OpenSearch operation fails
+   */
+  async create(
+    client: TodoOpenSearchClient,
+    document: TodoSavedViewDocument
+  ): Promise<TodoSavedView> {
+    await this.indexManager.ensureIndex(client);
+    try {
+      const result = await client.index({
+        index: this.indexName,
+        body: document as unknown as Record<string, unknown>,
+        refresh: 'wait_for',
+      });
+      this.logger.debug(`Saved view '${result.body._id}' for '${document.owner}'`);
+      return TodoSavedViewsMapper.fromOpenSearchHit({ _id: result.body._id, _source: document });
+    } catch (error) {
+      this.logger.error(`Failed to save view '${document.name}'`, error);
+      throw new IndexError(`Failed to save view '${document.name}'`, {
+        originalError: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  /**
+   * Updates a saved view with partial updates.
+   *
+   * @param client - OpenSearch client with request-scoped permissions
+   * @param id - ID of the view
+   * @param updates - Partial document with fields to update
+   * @throws {NotFoundError} If no view has this ID
+   * @throws {IndexError} If OpenSearch operation fails
+   */
+  async update(
+    client: TodoOpenSearchClient,
+    id: string,
+    updates: Partial<TodoSavedViewDocument>
+  ): Promise<void> {
+    await this.indexManager.ensureIndex(client);
+    try {
+      await client.update({
+        index: this.indexName,
+        id,
+        body: { doc: updates as Record<string, unknown> },
+        refresh: 'wait_for',
+      });
+    } catch (error) {
+      if (isNotFoundError(error)) {
+        throw new NotFoundError('Saved view', id);
+      }
+      this.logger.error(`Failed to update saved view '${id}'`, error);
+      throw new IndexError(`Failed to update saved view '${id}'`, {
+        originalError: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  /**
+   * Deletes a saved view.
+   *
+   * @param client - OpenSearch client with request-scoped permissions
+   * @param id - ID of the view
+   * @returns True if the view was deleted
+   * @throws {NotFoundError} If no view has this ID
+   * @throws {IndexError} If OpenSearch operation fails
+   */
+  async delete(client: TodoOpenSearchClient, id: string): Promise<boolean> {
+    await this.indexManager.ensureIndex(client);
+    try {
+      const result = await client.delete({
+        index: this.indexName,
+        id,
+        refresh: 'wait_for',
+      });
+      return result.body.result === 'deleted';
+    } catch (error) {
+      if (isNotFoundError(error)) {
+        throw new NotFoundError('Saved view', id);
+      }
+      this.logger.error(`Failed to delete saved view '${id}'`, error);
+      throw new IndexError(`Failed to delete saved view '${id}'`, {
+        originalError: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+}
@@ -6,9 +6,16 @@ import {
   TodoSeverity,
   TodoSortField,
   SortDirection,
+  TodoCustomFieldFilterOperator,
+  TodoCustomFieldValue,
+  TodoQueryClause,
+  TodoQueryField,
+  getTodoQueryDateRange,
+  TODO_QUERY_FIELDS,
   DEFAULT_INDEX_NAME,
   DEFAULT_PAGE_SIZE,
   MAX_PAGE_SIZE,
+  EXPORT_BATCH_SIZE,
 } from '../../common';
 import {
   TodosMapper,
@@ -17,7 +24,7 @@ import {
   OpenSearchStatsAggregations,
   OpenSearchHit,
 } from '../mappers';
-import { NotFoundError, IndexError } from '../errors';
+import { AppError, NotFoundError, IndexError, ConflictError } from '../errors';
 import { IndexManager, OpenSearchClient } from './index_manager';
 export interface TodoOpenSearchClient extends OpenSearchClient {
   index: (params: {
@@ -25,7 +32,8 @@ export interface TodoOpenSearchClient extends OpenSearchClient {
     id?: string;
     body: Record<string, unknown>;
     refresh?: boolean | 'wait_for';
-  }) => Promise<{ body: { _id: string } }>;
+    op_type?: 'index' | 'create';
+  }) => Promise<{ body: { _id: string; _seq_no?: number; _primary_term?: number } }>;
   get: (params: {
     index: string;
     id: string;
@@ -35,7 +43,9 @@ export interface TodoOpenSearchClient extends OpenSearchClient {
     id: string;
     body: { doc: Record<string, unknown> };
     refresh?: boolean | 'wait_for';
-  }) => Promise<{ body: { result: string } }>;
+    if_seq_no?: number;
+    if_primary_term?: number;
+  }) => Promise<{ body: { result: string; _seq_no?: number; _primary_term?: number } }>;
   delete: (params: {
     index: string;
     id: string;
@@ -45,6 +55,58 @@ export interface TodoOpenSearchClient extends OpenSearchClient {
     index: string;
     body: Record<string, unknown>;
   }) => Promise<{ body: T }>;
+  mget: (params: {
+    index: string;
+    body: { ids: string[] };
+  }) => Promise<{ body: { docs: Array<OpenSearchHit<TodoDocument> & { found: boolean }> } }>;
+  bulk: (params: {
+    body: Array<Record<string, unknown>>;
+    refresh?: boolean | 'wait_for';
+  }) => Promise<{ body: { errors: boolean; items: OpenSearchBulkResponseItem[] } }>;
+  updateByQuery: NonNullable<OpenSearchClient['updateByQuery']>;
+  deleteByQuery: (params: {
+    index: string;
+    body: { query: Record<string, unknown> };
+    refresh?: boolean;
+    conflicts?: 'abort' | 'proceed';
+  }) => Promise<{ body: { deleted?: number } }>;
+}
+export interface OpenSearchBulkItemResult {
+  _id: string;
+  status: number;
+  result?: string;
+  _seq_no?: number;
+  _primary_term?: number;
+  error?: {
+    type: string;
+    reason?: string;
+  };
+}
+export type OpenSearchBulkResponseItem = Partial<
+  Record<'index' | 'create' | 'update' | 'delete', OpenSearchBulkItemResult>
+>;
+export type TodoBulkOperation =
+  | { type: 'create'; document: TodoDocument }
+  | { type: 'update'; id: string; document: Partial<TodoDocument>; expectedVersion?: string }
+  | { type: 'delete'; id: string };
+export type TodoBulkOperationResult =
+  | { success: true; id: string; version?: string }
+  | { success: false; id?: string; error: AppError };
+export interface TodoChildCounts {
+  total: number;
+  done: number;
+}
+export interface TodoUpdateByQueryResult {
+  total: number;
+  updated: number;
+  versionConflicts: number;
+  failures: number;
+}
+export interface TodoCustomFieldSearchFilter {
+  key: string;
+  operator: TodoCustomFieldFilterOperator;
+  /** Filter value, already converted to the field's type */
+  value: TodoCustomFieldValue;
 }
 export interface TodoSearchParams {
   page?: number;
@@ -52,6 +114,12 @@ export interface TodoSearchParams {
   status?: TodoStatus | readonly TodoStatus[];
   tags?: readonly string[];
   searchText?: string;
+  /** Quoted phrases of the search box query, matched with their words together and in order */
+  phrases?: readonly string[];
+  /** Words and phrases the search box query excludes, e.g. `-draft` */
+  excludedText?: readonly string[];
+  /** Field clauses of the search box query, e.g. `priority:critical` */
+  queryClauses?: readonly TodoQueryClause[];
   assignee?: string;
   priority?: TodoPriority | readonly TodoPriority[];
   severity?: TodoSeverity | readonly TodoSeverity[];
@@ -65,12 +133,22 @@ export interface TodoSearchParams {
   completedAfter?: string;
   completedBefore?: string;
   isOverdue?: boolean;
+  /** Only TODOs with a due date */
+  hasDueDate?: boolean;
+  parentId?: string;
+  isBlocked?: boolean;
+  /** IDs of the TODOs that block others and are not done; required for `isBlocked` */
+  openBlockerIds?: readonly string[];
+  customFilters?: readonly TodoCustomFieldSearchFilter[];
+  /** Only TODOs tracking findings of this tool and category (no category: findings without one) */
+  finding?: { tool: string; category?: string };
   sortField?: TodoSortField;
   sortDirection?: SortDirection;
 }
 export interface TodoStatsParams {
   createdAfter?: string;
   createdBefore?: string;
+  complianceFramework?: string;
   timeInterval?: 'hour' | 'day' | 'week' | 'month';
   topTagsLimit?: number;
 }
@@ -85,6 +163,8 @@ export interface StatsResult {
 export interface TodoAnalyticsParams {
   complianceFramework?: string;
   overdueOnly?: boolean;
+  createdAfter?: string;
+  createdBefore?: string;
 }
 export interface OpenSearchAnalyticsAggregations {
   compliance_coverage: {
@@ -144,6 +224,93 @@ export interface AnalyticsResult {
   aggregations: OpenSearchAnalyticsAggregations;
 }
 
+/**
+ * Source fields returned when listing TODOs.
+ */
+const TODO_SOURCE_FIELDS = [
+  'title',
+  'description',
+  'status',
+  'tags',
+  'assignee',
+  'priority',
+  'severity',
+  'start_date',
+  'due_date',
+  'compliance_framework',
+  'created_at',
+  'updated_at',
+  'completed_at',
+  'status_reason',
+  'parent_id',
+  'blocked_by',
+  'recurrence',
+  'series_id',
+  'next_occurrence_id',
+  'rank',
+  'custom',
+  'finding',
+];
+
+/**
+ * Maximum number of distinct blockers considered when resolving the `isBlocked` filter.
+ */
+const MAX_OPEN_BLOCKERS = 10000;
+
+/**
+ * OpenSearch fields searched by the query fields of the search box.
+ */
+const QUERY_FIELD_NAMES: Readonly<Record<TodoQueryField, string>> = {
+  status: 'status',
+  priority: 'priority',
+  severity: 'severity',
+  tag: 'tags',
+  assignee: 'assignee',
+  framework: 'compliance_framework',
+  overdue: 'due_date',
+  start: 'start_date',
+  due: 'due_date',
+  created: 'created_at',
+  updated: 'updated_at',
+  completed: 'completed_at',
+};
+
+/**
+ * Matches TODOs past their due date that are not done.
+ */
+const OVERDUE_FILTER = {
+  bool: {
+    must: [{ range: { due_date: { lt: 'now' } } }, { exists: { field: 'due_date' } }],
+    must_not: [{ term: { status: 'done' } }],
+  },
+};
+
+/**
+ * Painless script applying a partial document to each TODO matched by update-by-query.
+ * Keeps `completed_at` and `status_reason` consistent with single-item updates:
+ * they only change when the document's status actually changes.
+ */
+const PATCH_DOCUMENT_SCRIPT = `
+  for (entry in params.doc.entrySet()) {
+    String key = entry.getKey();
+    if (key == 'status_reason') {
+      continue;
+    }
+    if (key == 'status') {
+      if (ctx._source.status == entry.getValue()) {
+        continue;
+      }
+      if (entry.getValue() == 'done') {
+        ctx._source.completed_at = params.doc.updated_at;
+      } else if (ctx._source.status == 'done') {
+        ctx._source.completed_at = null;
+      }
+      ctx._source.status_reason = params.doc.status_reason;
+    }
+    ctx._source[key] = entry.getValue();
+  }
+`;
+
 /**
  * Repository layer for TODO data access with OpenSearch.
  *
@@ -198,6 +365,8 @@ export class TodosRepository {
       return TodosMapper.fromOpenSearchHit({
         _id: id,
         _source: document,
+        _seq_no: result.body._seq_no,
+        _primary_term: result.body._primary_term,
       });
     } catch (error) {
       this.logger.error('Failed to create TODO', error);
@@ -241,29 +410,43 @@ export class TodosRepository {
    * @param client - OpenSearch client with request-scoped permissions
    * @param id - Document ID to update
    * @param updates - Partial document with fields to update
-   * @returns True if update was successful
+   * @param expectedVersion - Version token the document must still have (optimistic concurrency)
+   * @returns Version token of the document after the update
    * @throws {NotFoundError} If document with the specified ID does not exist
+   * @throws {ConflictError} If the document no longer matches `expectedVersion`
    * @throws {IndexError} If OpenSearch operation fails
    */
   async update(
     client: TodoOpenSearchClient,
     id: string,
-    updates: Partial<TodoDocument>
-  ): Promise<boolean> {
+    updates: Partial<TodoDocument>,
+    expectedVersion?: string
+  ): Promise<string | undefined> {
     await this.ensureIndex(client);
+    const concurrency = expectedVersion ? TodosMapper.decodeVersion(expectedVersion) : null;
     try {
       const result = await client.update({
         index: this.indexName,
         id,
         body: { doc: updates as Record<string, unknown> },
         refresh: 'wait_for',
+        ...(concurrency && {
+          if_seq_no: concurrency.seqNo,
+          if_primary_term: concurrency.primaryTerm,
+        }),
       });
       this.logger.debug(`Updated TODO '${id}', result: ${result.body.result}`);
-      return result.body.result === 'updated' || result.body.result === 'noop';
+      return TodosMapper.encodeVersion(result.body._seq_no, result.body._primary_term);
     } catch (error) {
       if (isNotFoundError(error)) {
         throw new NotFoundError('Todo', id);
       }
+      if (isVersionConflictError(error)) {
+        throw new ConflictError(`Todo '${id}' was modified by another request`, {
+          id,
+          expectedVersion,
+        });
+      }
       this.logger.error(`Failed to update TODO '${id}'`, error);
       throw new IndexError(`Failed to update TODO '${id}'`, {
         originalError: error instanceof Error ? error.message : String(error),
@@ -301,6 +484,98 @@ export class TodosRepository {
     }
   }
 
+  /**
+   * Retrieves several TODO documents by ID in a single request.
+   *
+   * @param client - OpenSearch client with request-scoped permissions
+   * @param ids - Document IDs to retrieve
+   * @returns Found TODOs keyed by ID (missing IDs are omitted)
+   * @throws {IndexError} If OpenSearch operation fails
+   */
+  async getByIds(client: TodoOpenSearchClient, ids: readonly string[]): Promise<Map<string, Todo>> {
+    await this.ensureIndex(client);
+    try {
+      const result = await client.mget({
+        index: this.indexName,
+        body: { ids: [...ids] },
+      });
+      const todos = new Map<string, Todo>();
+      for (const doc of result.body.docs) {
+        if (doc.found) {
+          todos.set(doc._id, TodosMapper.fromOpenSearchHit(doc));
+        }
+      }
+      return todos;
+    } catch (error) {
+      this.logger.error('Failed to get TODOs by ID', error);
+      throw new IndexError('Failed to get TODO documents', {
+        originalError: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  /**
+   * Applies several create/update/delete operations with the OpenSearch `_bulk` API.
+   *
+   * @param client - OpenSearch client with request-scoped permissions
+   * @param operations - Operations to apply, in order
+   * @returns Per-operation results, in the same order as `operations`
+   * @throws {IndexError} If the bulk request as a whole fails
+   *
+   * @remarks
+   * Operations are independent: a failed item does not roll back the others.
+   * Item failures are reported as {@link NotFoundError}, {@link ConflictError} or {@link IndexError}.
+   */
+  async bulk(
+    client: TodoOpenSearchClient,
+    operations: readonly TodoBulkOperation[]
+  ): Promise<TodoBulkOperationResult[]> {
+    await this.ensureIndex(client);
+    const body: Array<Record<string, unknown>> = [];
+    for (const operation of operations) {
+      switch (operation.type) {
+        case 'create':
+          body.push({ index: { _index: this.indexName } });
+          body.push(operation.document as unknown as Record<string, unknown>);
+          break;
+        case 'update': {
+          const concurrency = operation.expectedVersion
+            ? TodosMapper.decodeVersion(operation.expectedVersion)
+            : null;
+          body.push({
+            update: {
+              _index: this.indexName,
+              _id: operation.id,
+              ...(concurrency && {
+                if_seq_no: concurrency.seqNo,
+                if_primary_term: concurrency.primaryTerm,
+              }),
+            },
+          });
+          body.push({ doc: operation.document });
+          break;
+        }
+        case 'delete':
+          body.push({ delete: { _index: this.indexName, _id: operation.id } });
+          break;
+      }
+    }
+    try {
+      const result = await client.bulk({ body, refresh: 'wait_for' });
+      this.logger.debug(
+        `Bulk request applied ${operations.length} operations, errors: ${result.body.errors}`
+      );
+      return result.body.items.map((item, index) =>
+        toBulkOperationResult(item, operations[index])
+      );
+    } catch (error) {
+      this.logger.error('Failed to execute bulk request', error);
+      throw new IndexError('Failed to execute bulk request', {
+        originalError: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
   /**
    * Searches TODO documents with filtering, pagination, and sorting.
    *
@@ -333,22 +608,8 @@ export class TodosRepository {
           sort,
           from,
           size: pageSize,
-          _source: {
-            includes: [
-              'title',
-              'description',
-              'status',
-              'tags',
-              'assignee',
-              'priority',
-              'severity',
-              'due_date',
-              'compliance_framework',
-              'created_at',
-              'updated_at',
-              'completed_at',
-            ],
-          },
+          seq_no_primary_term: true,
+          _source: { includes: TODO_SOURCE_FIELDS },
         },
       });
       const todos = TodosMapper.fromOpenSearchHits(result.body.hits.hits);
@@ -362,6 +623,299 @@ export class TodosRepository {
     }
   }
 
+  /**
+   * Searches the TODOs of each status separately, for the columns of the Kanban board.
+   *
+   * @param client - OpenSearch client with request-scoped permissions
+   * @param params - Search filters; status, pagination and sort options are ignored
+   * @param statuses - Statuses to search, one search each
+   * @param from - Number of TODOs to skip in each status
+   * @param size - Maximum number of TODOs returned per status
+   * @returns One search result per status, in the order of `statuses`
+   * @throws {IndexError} If OpenSearch operation fails
+   *
+   * @remarks
+   * TODOs are ordered as on the board: ranked ones first in rank order, then newest first.
+   * The document ID breaks ties, so consecutive offsets neither skip nor repeat TODOs.
+   */
+  async searchByStatus(
+    client: TodoOpenSearchClient,
+    params: TodoSearchParams,
+    statuses: readonly TodoStatus[],
+    from: number,
+    size: number
+  ): Promise<SearchResult[]> {
+    await this.ensureIndex(client);
+    const sort = [
+      ...this.buildSort('rank', 'asc'),
+      ...this.buildSort('createdAt', 'desc'),
+      { _id: { order: 'asc' } },
+    ];
+    try {
+      return await Promise.all(
+        statuses.map(async (status) => {
+          const result = await client.search<OpenSearchSearchResponse<TodoDocument>>({
+            index: this.indexName,
+            body: {
+              query: this.buildSearchQuery({ ...params, status }),
+              sort,
+              from,
+              size,
+              track_total_hits: true,
+              seq_no_primary_term: true,
+              _source: { includes: TODO_SOURCE_FIELDS },
+            },
+          });
+          return {
+            todos: TodosMapper.fromOpenSearchHits(result.body.hits.hits),
+            total: result.body.hits.total.value,
+          };
+        })
+      );
+    } catch (error) {
+      this.logger.error('Failed to search TODOs by status', error);
+      throw new IndexError('Failed to search TODO documents', {
+        originalError: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  /**
+   * Reads every TODO matching the search parameters, one batch at a time.
+   *
+   * @param client - OpenSearch client with request-scoped permissions
+   * @param params - Search parameters including filters and sort options; pagination is ignored
+   * @param batchSize - Number of TODOs read per OpenSearch request
+   * @returns Async iterator over batches of TODOs with their versions, in sort order
+   * @throws {IndexError} If OpenSearch operation fails
+   *
+   * @remarks
+   * Pages through the results with `search_after`, so the number of TODOs is not limited
+   * by `MAX_PAGE_SIZE` or the index's result window. The document ID breaks ties between
+   * TODOs with the same sort value, so no TODO is skipped or repeated between batches.
+   */
+  async *scan(
+    client: TodoOpenSearchClient,
+    params: TodoSearchParams,
+    batchSize: number = EXPORT_BATCH_SIZE
+  ): AsyncGenerator<Todo[]> {
+    await this.ensureIndex(client);
+    const query = this.buildSearchQuery(params);
+    const sort = [
+      ...this.buildSort(params.sortField, params.sortDirection),
+      { _id: { order: 'asc' } },
+    ];
+    let searchAfter: unknown[] | undefined;
+    while (true) {
+      let hits: Array<OpenSearchHit<TodoDocument>>;
+      try {
+        const result = await client.search<OpenSearchSearchResponse<TodoDocument>>({
+          index: this.indexName,
+          body: {
+            query,
+            sort,
+            size: batchSize,
+            ...(searchAfter && { search_after: searchAfter }),
+            seq_no_primary_term: true,
+            _source: { includes: TODO_SOURCE_FIELDS },
+          },
+        });
+        hits = result.body.hits.hits;
+      } catch (error) {
+        this.logger.error('Failed to scan TODOs', error);
+        throw new IndexError('Failed to read TODO documents', {
+          originalError: error instanceof Error ? error.message : String(error),
+        });
+      }
+      if (hits.length > 0) {
+        yield TodosMapper.fromOpenSearchHits(hits);
+      }
+      if (hits.length < batchSize) {
+        return;
+      }
+      searchAfter = hits[hits.length - 1].sort;
+    }
+  }
+
+  /**
+   * Counts the direct subtasks of several parent TODOs, in total and done.
+   *
+   * @param client - OpenSearch client with request-scoped permissions
+   * @param parentIds - IDs of the parent TODOs
+   * @returns Subtask counts keyed by parent ID (parents without subtasks are omitted)
+   * @throws {IndexError} If OpenSearch operation fails
+   */
+  async getChildCounts(
+    client: TodoOpenSearchClient,
+    parentIds: readonly string[]
+  ): Promise<Map<string, TodoChildCounts>> {
+    const counts = new Map<string, TodoChildCounts>();
+    if (parentIds.length === 0) {
+      return counts;
+    }
+    await this.ensureIndex(client);
+    try {
+      const result = await client.search<{
+        aggregations: {
+          by_parent: {
+            buckets: Array<{ key: string; doc_count: number; done: { doc_count: number } }>;
+          };
+        };
+      }>({
+        index: this.indexName,
+        body: {
+          size: 0,
+          query: { terms: { parent_id: [...parentIds] } },
+          aggs: {
+            by_parent: {
+              terms: { field: 'parent_id', size: parentIds.length },
+              aggs: {
+                done: { filter: { term: { status: 'done' } } },
+              },
+            },
+          },
+        },
+      });
+      for (const bucket of result.body.aggregations.by_parent.buckets) {
+        counts.set(bucket.key, { total: bucket.doc_count, done: bucket.done.doc_count });
+      }
+      return counts;
+    } catch (error) {
+      this.logger.error('Failed to count TODO subtasks', error);
+      throw new IndexError('Failed to count TODO subtasks', {
+        originalError: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  /**
+   * Finds the TODOs that block at least one other TODO and are not done yet.
+   *
+   * @param client - OpenSearch client with request-scoped permissions
+   * @returns IDs of the open blockers
+   * @throws {IndexError} If OpenSearch operation fails
+   *
+   * @remarks
+   * Blocker state lives on the blocking TODO, so it is resolved at query time
+   * instead of being copied onto every blocked TODO.
+   */
+  async getOpenBlockerIds(client: TodoOpenSearchClient): Promise<string[]> {
+    await this.ensureIndex(client);
+    try {
+      const referenced = await client.search<{
+        aggregations: { blockers: { buckets: Array<{ key: string }> } };
+      }>({
+        index: this.indexName,
+        body: {
+          size: 0,
+          aggs: {
+            blockers: { terms: { field: 'blocked_by', size: MAX_OPEN_BLOCKERS } },
+          },
+        },
+      });
+      const blockerIds = referenced.body.aggregations.blockers.buckets.map((bucket) => bucket.key);
+      if (blockerIds.length === 0) {
+        return [];
+      }
+      const open = await client.search<OpenSearchSearchResponse<TodoDocument>>({
+        index: this.indexName,
+        body: {
+          size: blockerIds.length,
+          _source: false,
+          query: {
+            bool: {
+              filter: [{ ids: { values: blockerIds } }],
+              must_not: [{ term: { status: 'done' } }],
+            },
+          },
+        },
+      });
+      return open.body.hits.hits.map((hit) => hit._id);
+    } catch (error) {
+      this.logger.error('Failed to find open blockers', error);
+      throw new IndexError('Failed to find open blocking TODOs', {
+        originalError: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  /**
+   * Counts TODO documents matching the search filters.
+   *
+   * @param client - OpenSearch client with request-scoped permissions
+   * @param params - Search filters (pagination and sorting are ignored)
+   * @returns Exact number of matching TODOs
+   * @throws {IndexError} If OpenSearch operation fails
+   */
+  async count(client: TodoOpenSearchClient, params: TodoSearchParams): Promise<number> {
+    await this.ensureIndex(client);
+    const query = this.buildSearchQuery(params);
+    try {
+      const result = await client.search<OpenSearchSearchResponse<TodoDocument>>({
+        index: this.indexName,
+        body: {
+          query,
+          size: 0,
+          track_total_hits: true,
+        },
+      });
+      return result.body.hits.total.value;
+    } catch (error) {
+      this.logger.error('Failed to count TODOs', error);
+      throw new IndexError('Failed to count TODO documents', {
+        originalError: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  /**
+   * Applies a partial document to every TODO matching the search filters.
+   *
+   * @param client - OpenSearch client with request-scoped permissions
+   * @param params - Search filters selecting the TODOs to update
+   * @param document - Fields to set on each matching TODO
+   * @returns Counts of matched, updated, conflicting and failed documents
+   * @throws {IndexError} If the update-by-query request as a whole fails
+   *
+   * @remarks
+   * Runs with `conflicts: proceed`: documents changed concurrently are skipped and
+   * reported as version conflicts instead of aborting the whole operation.
+   */
+  async updateByQuery(
+    client: TodoOpenSearchClient,
+    params: TodoSearchParams,
+    document: Partial<TodoDocument>
+  ): Promise<TodoUpdateByQueryResult> {
+    await this.ensureIndex(client);
+    const query = this.buildSearchQuery(params);
+    try {
+      const result = await client.updateByQuery({
+        index: this.indexName,
+        body: {
+          query,
+          script: {
+            source: PATCH_DOCUMENT_SCRIPT,
+            lang: 'painless',
+            params: { doc: document },
+          },
+        },
+        refresh: true,
+        conflicts: 'proceed',
+      });
+      return {
+        total: result.body.total ?? 0,
+        updated: result.body.updated ?? 0,
+        versionConflicts: result.body.version_conflicts ?? 0,
+        failures: result.body.failures?.length ?? 0,
+      };
+    } catch (error) {
+      this.logger.error('Failed to update TODOs by query', error);
+      throw new IndexError('Failed to update TODO documents by query', {
+        originalError: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
   /**
    * Retrieves aggregated statistics for TODO items.
    *
@@ -414,7 +968,7 @@ export class TodosRepository {
    * @private
    *
    * @remarks
-   * - Uses multi_match for full-text search with fuzzy matching
+   * - Uses multi_match for full-text search with fuzzy matching, and phrase matching for quoted phrases
    * - Applies term/terms filters for exact matches
    * - Combines filters using bool query with must/filter clauses
    * - Returns match_all if no filters are specified
@@ -422,6 +976,7 @@ export class TodosRepository {
   private buildSearchQuery(params: TodoSearchParams): Record<string, unknown> {
     const must: unknown[] = [];
     const filter: unknown[] = [];
+    const mustNot: unknown[] = [];
     if (params.searchText && params.searchText.trim()) {
       must.push({
         multi_match: {
@@ -432,6 +987,29 @@ export class TodosRepository {
         },
       });
     }
+    for (const phrase of params.phrases || []) {
+      must.push({
+        multi_match: {
+          query: phrase,
+          fields: ['title^2', 'description'],
+          type: 'phrase',
+        },
+      });
+    }
+    for (const text of params.excludedText || []) {
+      mustNot.push({
+        multi_match: {
+          query: text,
+          fields: ['title', 'description'],
+          type: 'phrase',
+        },
+      });
+    }
+    if (params.queryClauses && params.queryClauses.length > 0) {
+      const clauses = this.buildQueryClauses(params.queryClauses);
+      filter.push(...clauses.filter);
+      mustNot.push(...clauses.mustNot);
+    }
     if (params.status) {
       const statusValues = Array.isArray(params.status) ? params.status : [params.status];
       if (statusValues.length === 1) {
@@ -448,6 +1026,25 @@ export class TodosRepository {
     if (params.assignee) {
       filter.push({ term: { assignee: params.assignee } });
     }
+    if (params.parentId) {
+      filter.push({ term: { parent_id: params.parentId } });
+    }
+    if (params.finding) {
+      filter.push({ term: { 'finding.tool': params.finding.tool } });
+      if (params.finding.category) {
+        filter.push({ term: { 'finding.category': params.finding.category } });
+      } else {
+        mustNot.push({ exists: { field: 'finding.category' } });
+      }
+    }
+    if (params.isBlocked !== undefined) {
+      const blockedFilter = { terms: { blocked_by: [...(params.openBlockerIds || [])] } };
+      if (params.isBlocked) {
+        filter.push(blockedFilter);
+      } else {
+        mustNot.push(blockedFilter);
+      }
+    }
     if (params.priority) {
       const priorityValues = Array.isArray(params.priority) ? params.priority : [params.priority];
       if (priorityValues.length === 1) {
@@ -478,28 +1075,79 @@ export class TodosRepository {
 
     const completedFilter = this.buildDateRangeFilter('completed_at', params.completedAfter, params.completedBefore);
     if (completedFilter) filter.push(completedFilter);
+    for (const customFilter of params.customFilters || []) {
+      const field = `custom.${customFilter.key}`;
+      filter.push(
+        customFilter.operator === 'eq'
+          ? { term: { [field]: customFilter.value } }
+          : { range: { [field]: { [customFilter.operator]: customFilter.value } } }
+      );
+    }
     if (params.isOverdue) {
-      filter.push({
-        bool: {
-          must: [
-            { range: { due_date: { lt: 'now' } } },
-            { exists: { field: 'due_date' } },
-          ],
-          must_not: [{ term: { status: 'done' } }],
-        },
-      });
+      filter.push(OVERDUE_FILTER);
     }
-    if (must.length === 0 && filter.length === 0) {
+    if (params.hasDueDate) {
+      filter.push({ exists: { field: 'due_date' } });
+    }
+    if (must.length === 0 && filter.length === 0 && mustNot.length === 0) {
       return { match_all: {} };
     }
     return {
       bool: {
         ...(must.length > 0 && { must }),
         ...(filter.length > 0 && { filter }),
+        ...(mustNot.length > 0 && { must_not: mustNot }),
       },
     };
   }
 
+  /**
+   * Builds the filters of the field clauses typed in the search box.
+   *
+   * @param clauses - Clauses parsed by `parseTodoQuery`
+   * @returns Clauses to require and to exclude
+   * @private
+   *
+   * @remarks
+   * - Clauses on different fields must all match
+   * - Repeated clauses on the same status, priority, severity, assignee or framework
+   *   match any of their values; repeated tags must all be present
+   * - Date clauses are ranges, so `due>=2026-11-01 due<2026-12-01` is a window
+   * - Negated clauses exclude every TODO they match
+   */
+  private buildQueryClauses(clauses: readonly TodoQueryClause[]): {
+    filter: unknown[];
+    mustNot: unknown[];
+  } {
+    const filter: unknown[] = [];
+    const mustNot: unknown[] = [];
+    const anyOf = new Map<string, string[]>();
+    for (const clause of clauses) {
+      const field = QUERY_FIELD_NAMES[clause.field];
+      let condition: unknown;
+      if (clause.field === 'overdue') {
+        // overdue:false is the same as -overdue:true
+        const excluded = clause.negated === (clause.value === 'true');
+        (excluded ? mustNot : filter).push(OVERDUE_FILTER);
+        continue;
+      } else if (TODO_QUERY_FIELDS[clause.field].kind === 'date') {
+        condition = { range: { [field]: getTodoQueryDateRange(clause) } };
+      } else if (clause.field === 'tag') {
+        condition = { term: { tags: clause.value.toLowerCase() } };
+      } else if (!clause.negated) {
+        anyOf.set(field, [...(anyOf.get(field) || []), clause.value]);
+        continue;
+      } else {
+        condition = { term: { [field]: clause.value } };
+      }
+      (clause.negated ? mustNot : filter).push(condition);
+    }
+    anyOf.forEach((values, field) => {
+      filter.push(values.length === 1 ? { term: { [field]: values[0] } } : { terms: { [field]: values } });
+    });
+    return { filter, mustNot };
+  }
+
   /**
    * Builds a date range filter for OpenSearch queries.
    *
@@ -533,6 +1181,9 @@ export class TodosRepository {
    * @remarks
    * Maps camelCase field names to snake_case OpenSearch field names.
    * Uses .keyword suffix for text fields to enable sorting.
+   * `custom.<key>` sorts by a custom field; TODOs without a value come last,
+   * and a field no TODO has a value for yet is sorted as an unmapped keyword.
+   * Unranked TODOs also come last when sorting by `rank`.
    */
   private buildSort(
     sortField?: TodoSortField,
@@ -540,6 +1191,12 @@ export class TodosRepository {
   ): Array<Record<string, unknown>> {
     const field = sortField || 'createdAt';
     const direction = sortDirection || 'desc';
+    if (field.startsWith('custom.')) {
+      return [{ [field]: { order: direction, missing: '_last', unmapped_type: 'keyword' } }];
+    }
+    if (field === 'rank') {
+      return [{ rank: { order: direction, missing: '_last' } }];
+    }
     const fieldMapping: Record<string, string> = {
       createdAt: 'created_at',
       updatedAt: 'updated_at',
@@ -573,6 +1230,9 @@ export class TodosRepository {
       }
       filter.push({ range: { created_at: range } });
     }
+    if (params.complianceFramework) {
+      filter.push({ term: { compliance_framework: params.complianceFramework } });
+    }
     if (filter.length === 0) {
       return { match_all: {} };
     }
@@ -709,6 +1369,8 @@ export class TodosRepository {
         },
       });
     }
+    const createdFilter = this.buildDateRangeFilter('created_at', params.createdAfter, params.createdBefore);
+    if (createdFilter) filter.push(createdFilter);
     if (filter.length === 0) {
       return { match_all: {} };
     }
@@ -865,7 +1527,7 @@ export class TodosRepository {
  * @param error - Error object to check
  * @returns True if the error indicates a document was not found
  */
-function isNotFoundError(error: unknown): boolean {
+export function isNotFoundError(error: unknown): boolean {
   if (!error || typeof error !== 'object') {
     return false;
   }
@@ -878,3 +1540,56 @@ function isNotFoundError(error: unknown): boolean {
   }
   return false;
 }
+
+/**
+ * Checks if an error is a 409 version conflict from OpenSearch.
+ *
+ * @param error - Error object to check
+ * @returns True if the error indicates the document changed since it was read
+ */
+export function isVersionConflictError(error: unknown): boolean {
+  if (!error || typeof error !== 'object') {
+    return false;
+  }
+  const errorObj = error as { statusCode?: number; meta?: { statusCode?: number } };
+  return errorObj.statusCode === 409 || errorObj.meta?.statusCode === 409;
+}
+
+/**
+ * Converts one item of an OpenSearch `_bulk` response into an operation result.
+ *
+ * @param item - Bulk response item (keyed by operation type)
+ * @param operation - The operation the item belongs to
+ * @returns Success with the document ID and version, or the mapped error
+ */
+function toBulkOperationResult(
+  item: OpenSearchBulkResponseItem,
+  operation: TodoBulkOperation
+): TodoBulkOperationResult {
+  const itemResult = item.index || item.create || item.update || item.delete;
+  const id = itemResult?._id ?? (operation.type === 'create' ? undefined : operation.id);
+  if (itemResult && !itemResult.error && itemResult.status < 300) {
+    return {
+      success: true,
+      id: itemResult._id,
+      version: TodosMapper.encodeVersion(itemResult._seq_no, itemResult._primary_term),
+    };
+  }
+  if (itemResult?.status === 404 && id) {
+    return { success: false, id, error: new NotFoundError('Todo', id) };
+  }
+  if (itemResult?.status === 409) {
+    return {
+      success: false,
+      id,
+      error: new ConflictError(`Todo '${id}' was modified by another request`, { id }),
+    };
+  }
+  return {
+    success: false,
+    id,
+    error: new IndexError(itemResult?.error?.reason || 'Bulk operation failed', {
+      ...(itemResult?.error && { type: itemResult.error.type }),
+    }),
+  };
+}
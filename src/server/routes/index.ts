@@ -1,7 +1,15 @@
 import { IRouter, Logger } from '../../../../src/core/server';
 import { registerTodosRoutes } from './todos.routes';
-export function defineRoutes(router: IRouter, logger: Logger): void {
-  registerTodosRoutes(router, logger);
+import { CustomPluginConfigType } from '../config';
+export function defineRoutes(router: IRouter, logger: Logger, config: CustomPluginConfigType): void {
+  registerTodosRoutes(
+    router,
+    logger,
+    config.statusTransitions,
+    config.customFields.adminRoles,
+    config.wipLimits,
+    config.security.enabled
+  );
   logger.debug('All routes registered');
 }
 export { registerTodosRoutes };
@@ -1,16 +1,288 @@
 import { IRouter, Logger } from '../../../../src/core/server';
 import { schema } from '@osd/config-schema';
-import { PLUGIN_ID } from '../../common';
+import {
+  PLUGIN_ID,
+  MAX_PAGE_SIZE,
+  MAX_BOARD_OFFSET,
+  MAX_BULK_ACTIONS,
+  MAX_IMPORT_BYTES,
+  DEFAULT_AUDIT_INDEX_NAME,
+  TODO_AUDIT_INDEX_MAPPING,
+  DEFAULT_COMMENTS_INDEX_NAME,
+  TODO_COMMENTS_INDEX_MAPPING,
+  MAX_TODO_COMMENT_LENGTH,
+  DEFAULT_CUSTOM_FIELDS_INDEX_NAME,
+  TODO_CUSTOM_FIELDS_INDEX_MAPPING,
+  CUSTOM_FIELD_KEY_PATTERN,
+  MAX_CUSTOM_FIELD_KEY_LENGTH,
+  MAX_CUSTOM_FIELD_LABEL_LENGTH,
+  MAX_CUSTOM_FIELD_DESCRIPTION_LENGTH,
+  MAX_CUSTOM_FIELD_OPTIONS,
+  MAX_CUSTOM_FIELD_TEXT_LENGTH,
+  DEFAULT_SAVED_VIEWS_INDEX_NAME,
+  TODO_SAVED_VIEWS_INDEX_MAPPING,
+  MAX_SAVED_VIEW_NAME_LENGTH,
+  MAX_TODO_RANK_LENGTH,
+  TODO_INDEX_SETTINGS,
+  TodoStatusTransitionRules,
+  TodoWipLimits,
+} from '../../common';
 import { TodosController } from '../controllers';
-import { TodosService, TodoStatsService, TodoAnalyticsService } from '../services';
-import { TodosRepository, IndexManager } from '../repositories';
-export function registerTodosRoutes(router: IRouter, logger: Logger): void {
+import {
+  TodosService,
+  TodoStatsService,
+  TodoAnalyticsService,
+  TodoCommentsService,
+  TodoCustomFieldsService,
+  TodoSavedViewsService,
+} from '../services';
+import {
+  TodosRepository,
+  TodoAuditRepository,
+  TodoCommentsRepository,
+  TodoCustomFieldsRepository,
+  TodoSavedViewsRepository,
+  IndexManager,
+} from '../repositories';
+const stringOrStringsSchema = schema.oneOf([schema.string(), schema.arrayOf(schema.string())]);
+const sortFieldSchema = schema.oneOf([
+  schema.literal('createdAt'),
+  schema.literal('updatedAt'),
+  schema.literal('completedAt'),
+  schema.literal('title'),
+  schema.literal('status'),
+  schema.literal('priority'),
+  schema.literal('severity'),
+  schema.literal('dueDate'),
+  schema.literal('rank'),
+  schema.string({
+    validate: (value) =>
+      value.startsWith('custom.') && CUSTOM_FIELD_KEY_PATTERN.test(value.slice('custom.'.length))
+        ? undefined
+        : `expected a TODO field or custom.<key> but got [${value}]`,
+  }),
+]);
+const customFieldKeySchema = schema.string({ minLength: 1, maxLength: MAX_CUSTOM_FIELD_KEY_LENGTH });
+const customFieldValueSchema = schema.oneOf([
+  schema.string({ maxLength: MAX_CUSTOM_FIELD_TEXT_LENGTH }),
+  schema.number(),
+  schema.boolean(),
+]);
+const customFieldOptionsSchema = schema.arrayOf(
+  schema.string({ minLength: 1, maxLength: MAX_CUSTOM_FIELD_TEXT_LENGTH }),
+  { maxSize: MAX_CUSTOM_FIELD_OPTIONS }
+);
+const savedViewFiltersSchema = schema.object({
+  searchText: schema.maybe(schema.string()),
+  status: schema.maybe(schema.arrayOf(schema.string())),
+  tags: schema.maybe(schema.arrayOf(schema.string({ maxLength: 50 }), { maxSize: 20 })),
+  priority: schema.maybe(schema.arrayOf(schema.string())),
+  severity: schema.maybe(schema.arrayOf(schema.string())),
+  isOverdue: schema.maybe(schema.boolean()),
+  createdAfter: schema.maybe(schema.string()),
+  createdBefore: schema.maybe(schema.string()),
+  updatedAfter: schema.maybe(schema.string()),
+  updatedBefore: schema.maybe(schema.string()),
+  completedAfter: schema.maybe(schema.string()),
+  completedBefore: schema.maybe(schema.string()),
+  dueDateAfter: schema.maybe(schema.string()),
+  dueDateBefore: schema.maybe(schema.string()),
+});
+const viewTabSchema = schema.oneOf([
+  schema.literal('table'),
+  schema.literal('kanban'),
+  schema.literal('calendar'),
+  schema.literal('gantt'),
+  schema.literal('analytics'),
+]);
+const createTodoBodySchema = schema.object({
+  title: schema.string({ minLength: 1, maxLength: 256 }),
+  description: schema.maybe(schema.string({ maxLength: 4000 })),
+  status: schema.maybe(
+    schema.oneOf([
+      schema.literal('planned'),
+      schema.literal('in_progress'),
+      schema.literal('done'),
+      schema.literal('error'),
+    ])
+  ),
+  tags: schema.maybe(schema.arrayOf(schema.string({ maxLength: 50 }), { maxSize: 20 })),
+  assignee: schema.maybe(schema.string({ maxLength: 100 })),
+  priority: schema.maybe(
+    schema.oneOf([
+      schema.literal('low'),
+      schema.literal('medium'),
+      schema.literal('high'),
+      schema.literal('critical'),
+    ])
+  ),
+  severity: schema.maybe(
+    schema.oneOf([
+      schema.literal('info'),
+      schema.literal('low'),
+      schema.literal('medium'),
+      schema.literal('high'),
+      schema.literal('critical'),
+    ])
+  ),
+  startDate: schema.maybe(schema.string()),
+  dueDate: schema.maybe(schema.string()),
+  complianceFrameworks: schema.maybe(
+    schema.arrayOf(schema.string({ maxLength: 100 }), { maxSize: 10 })
+  ),
+  parentId: schema.maybe(schema.string({ minLength: 1 })),
+  blockedBy: schema.maybe(schema.arrayOf(schema.string({ minLength: 1 }), { maxSize: 20 })),
+  recurrence: schema.maybe(schema.string({ minLength: 1, maxLength: 100 })),
+  custom: schema.maybe(schema.recordOf(customFieldKeySchema, customFieldValueSchema)),
+});
+const updateTodoBodySchema = schema.object({
+  title: schema.maybe(schema.string({ minLength: 1, maxLength: 256 })),
+  description: schema.maybe(schema.string({ maxLength: 4000 })),
+  status: schema.maybe(
+    schema.oneOf([
+      schema.literal('planned'),
+      schema.literal('in_progress'),
+      schema.literal('done'),
+      schema.literal('error'),
+    ])
+  ),
+  tags: schema.maybe(schema.arrayOf(schema.string({ maxLength: 50 }), { maxSize: 20 })),
+  assignee: schema.maybe(schema.string({ maxLength: 100 })),
+  priority: schema.maybe(
+    schema.oneOf([
+      schema.literal('low'),
+      schema.literal('medium'),
+      schema.literal('high'),
+      schema.literal('critical'),
+    ])
+  ),
+  severity: schema.maybe(
+    schema.oneOf([
+      schema.literal('info'),
+      schema.literal('low'),
+      schema.literal('medium'),
+      schema.literal('high'),
+      schema.literal('critical'),
+    ])
+  ),
+  startDate: schema.maybe(schema.nullable(schema.string())),
+  dueDate: schema.maybe(schema.nullable(schema.string())),
+  complianceFrameworks: schema.maybe(
+    schema.arrayOf(schema.string({ maxLength: 100 }), { maxSize: 10 })
+  ),
+  statusReason: schema.maybe(schema.string({ maxLength: 1000 })),
+  parentId: schema.maybe(schema.nullable(schema.string({ minLength: 1 }))),
+  blockedBy: schema.maybe(schema.arrayOf(schema.string({ minLength: 1 }), { maxSize: 20 })),
+  recurrence: schema.maybe(schema.nullable(schema.string({ minLength: 1, maxLength: 100 }))),
+  rank: schema.maybe(
+    schema.nullable(schema.string({ minLength: 1, maxLength: MAX_TODO_RANK_LENGTH }))
+  ),
+  custom: schema.maybe(
+    schema.recordOf(customFieldKeySchema, schema.nullable(customFieldValueSchema))
+  ),
+  version: schema.maybe(schema.string({ minLength: 1 })),
+});
+const todoPatchBodySchema = schema.object({
+  status: schema.maybe(
+    schema.oneOf([
+      schema.literal('planned'),
+      schema.literal('in_progress'),
+      schema.literal('done'),
+      schema.literal('error'),
+    ])
+  ),
+  statusReason: schema.maybe(schema.string({ maxLength: 1000 })),
+  tags: schema.maybe(schema.arrayOf(schema.string({ maxLength: 50 }), { maxSize: 20 })),
+  assignee: schema.maybe(schema.string({ maxLength: 100 })),
+  priority: schema.maybe(
+    schema.oneOf([
+      schema.literal('low'),
+      schema.literal('medium'),
+      schema.literal('high'),
+      schema.literal('critical'),
+    ])
+  ),
+  severity: schema.maybe(
+    schema.oneOf([
+      schema.literal('info'),
+      schema.literal('low'),
+      schema.literal('medium'),
+      schema.literal('high'),
+      schema.literal('critical'),
+    ])
+  ),
+  dueDate: schema.maybe(schema.nullable(schema.string())),
+  complianceFrameworks: schema.maybe(
+    schema.arrayOf(schema.string({ maxLength: 100 }), { maxSize: 10 })
+  ),
+});
+export function registerTodosRoutes(
+  router: IRouter,
+  logger: Logger,
+  statusTransitions: TodoStatusTransitionRules,
+  customFieldAdminRoles?: readonly string[],
+  wipLimits?: TodoWipLimits,
+  securityEnabled?: boolean
+): void {
   const indexManager = new IndexManager(logger);
   const repository = new TodosRepository(logger, indexManager);
-  const todosService = new TodosService(logger, repository);
+  const auditIndexManager = new IndexManager(logger, DEFAULT_AUDIT_INDEX_NAME, {
+    settings: TODO_INDEX_SETTINGS,
+    mappings: TODO_AUDIT_INDEX_MAPPING,
+  });
+  const auditRepository = new TodoAuditRepository(logger, auditIndexManager);
+  const commentsIndexManager = new IndexManager(logger, DEFAULT_COMMENTS_INDEX_NAME, {
+    settings: TODO_INDEX_SETTINGS,
+    mappings: TODO_COMMENTS_INDEX_MAPPING,
+  });
+  const commentsRepository = new TodoCommentsRepository(logger, commentsIndexManager);
+  const customFieldsIndexManager = new IndexManager(logger, DEFAULT_CUSTOM_FIELDS_INDEX_NAME, {
+    settings: TODO_INDEX_SETTINGS,
+    mappings: TODO_CUSTOM_FIELDS_INDEX_MAPPING,
+  });
+  const customFieldsRepository = new TodoCustomFieldsRepository(logger, customFieldsIndexManager);
+  const savedViewsIndexManager = new IndexManager(logger, DEFAULT_SAVED_VIEWS_INDEX_NAME, {
+    settings: TODO_INDEX_SETTINGS,
+    mappings: TODO_SAVED_VIEWS_INDEX_MAPPING,
+  });
+  const savedViewsRepository = new TodoSavedViewsRepository(logger, savedViewsIndexManager);
+  const todosService = new TodosService(
+    logger,
+    repository,
+    statusTransitions,
+    auditRepository,
+    commentsRepository,
+    customFieldsRepository,
+    wipLimits
+  );
   const statsService = new TodoStatsService(logger, repository);
   const analyticsService = new TodoAnalyticsService(logger, repository);
-  const controller = new TodosController(logger, todosService, statsService, analyticsService);
+  const commentsService = new TodoCommentsService(
+    logger,
+    repository,
+    commentsRepository,
+    securityEnabled
+  );
+  const customFieldsService = new TodoCustomFieldsService(
+    logger,
+    customFieldsRepository,
+    customFieldAdminRoles,
+    securityEnabled
+  );
+  const savedViewsService = new TodoSavedViewsService(
+    logger,
+    savedViewsRepository,
+    securityEnabled
+  );
+  const controller = new TodosController(
+    logger,
+    todosService,
+    statsService,
+    analyticsService,
+    commentsService,
+    customFieldsService,
+    savedViewsService
+  );
   const basePath = `/api/${PLUGIN_ID}/todos`;
   router.get(
     {
@@ -35,18 +307,10 @@ export function registerTodosRoutes(router: IRouter, logger: Logger): void {
           completedAfter: schema.maybe(schema.string()),
           completedBefore: schema.maybe(schema.string()),
           isOverdue: schema.maybe(schema.string()),
-          sortField: schema.maybe(
-            schema.oneOf([
-              schema.literal('createdAt'),
-              schema.literal('updatedAt'),
-              schema.literal('completedAt'),
-              schema.literal('title'),
-              schema.literal('status'),
-              schema.literal('priority'),
-              schema.literal('severity'),
-              schema.literal('dueDate'),
-            ])
-          ),
+          parentId: schema.maybe(schema.string()),
+          isBlocked: schema.maybe(schema.string()),
+          custom: schema.maybe(stringOrStringsSchema),
+          sortField: schema.maybe(sortFieldSchema),
           sortDirection: schema.maybe(
             schema.oneOf([schema.literal('asc'), schema.literal('desc')])
           ),
@@ -57,6 +321,109 @@ export function registerTodosRoutes(router: IRouter, logger: Logger): void {
       return controller.list(context, request, response);
     }
   );
+  router.get(
+    {
+      path: `${basePath}/_board`,
+      validate: {
+        query: schema.object({
+          columnSize: schema.maybe(schema.number({ min: 1, max: MAX_PAGE_SIZE })),
+          offset: schema.maybe(schema.number({ min: 0, max: MAX_BOARD_OFFSET })),
+          status: schema.maybe(schema.string()),
+          tags: schema.maybe(schema.string()),
+          searchText: schema.maybe(schema.string()),
+          assignee: schema.maybe(schema.string()),
+          priority: schema.maybe(schema.string()),
+          severity: schema.maybe(schema.string()),
+          complianceFrameworks: schema.maybe(schema.string()),
+          dueDateAfter: schema.maybe(schema.string()),
+          dueDateBefore: schema.maybe(schema.string()),
+          createdAfter: schema.maybe(schema.string()),
+          createdBefore: schema.maybe(schema.string()),
+          updatedAfter: schema.maybe(schema.string()),
+          updatedBefore: schema.maybe(schema.string()),
+          completedAfter: schema.maybe(schema.string()),
+          completedBefore: schema.maybe(schema.string()),
+          isOverdue: schema.maybe(schema.string()),
+          parentId: schema.maybe(schema.string()),
+          isBlocked: schema.maybe(schema.string()),
+          custom: schema.maybe(stringOrStringsSchema),
+        }),
+      },
+    },
+    async (context, request, response) => {
+      return controller.getBoard(context, request, response);
+    }
+  );
+  router.get(
+    {
+      path: `${basePath}/_calendar.ics`,
+      validate: {
+        query: schema.object({
+          status: schema.maybe(schema.string()),
+          tags: schema.maybe(schema.string()),
+          searchText: schema.maybe(schema.string()),
+          assignee: schema.maybe(schema.string()),
+          priority: schema.maybe(schema.string()),
+          severity: schema.maybe(schema.string()),
+          complianceFrameworks: schema.maybe(schema.string()),
+          dueDateAfter: schema.maybe(schema.string()),
+          dueDateBefore: schema.maybe(schema.string()),
+          createdAfter: schema.maybe(schema.string()),
+          createdBefore: schema.maybe(schema.string()),
+          updatedAfter: schema.maybe(schema.string()),
+          updatedBefore: schema.maybe(schema.string()),
+          completedAfter: schema.maybe(schema.string()),
+          completedBefore: schema.maybe(schema.string()),
+          isOverdue: schema.maybe(schema.string()),
+          parentId: schema.maybe(schema.string()),
+          isBlocked: schema.maybe(schema.string()),
+          custom: schema.maybe(stringOrStringsSchema),
+        }),
+      },
+    },
+    async (context, request, response) => {
+      return controller.getCalendar(context, request, response);
+    }
+  );
+  router.get(
+    {
+      path: `${basePath}/_export`,
+      validate: {
+        query: schema.object({
+          status: schema.maybe(schema.string()),
+          tags: schema.maybe(schema.string()),
+          searchText: schema.maybe(schema.string()),
+          assignee: schema.maybe(schema.string()),
+          priority: schema.maybe(schema.string()),
+          severity: schema.maybe(schema.string()),
+          complianceFrameworks: schema.maybe(schema.string()),
+          dueDateAfter: schema.maybe(schema.string()),
+          dueDateBefore: schema.maybe(schema.string()),
+          createdAfter: schema.maybe(schema.string()),
+          createdBefore: schema.maybe(schema.string()),
+          updatedAfter: schema.maybe(schema.string()),
+          updatedBefore: schema.maybe(schema.string()),
+          completedAfter: schema.maybe(schema.string()),
+          completedBefore: schema.maybe(schema.string()),
+          isOverdue: schema.maybe(schema.string()),
+          parentId: schema.maybe(schema.string()),
+          isBlocked: schema.maybe(schema.string()),
+          custom: schema.maybe(stringOrStringsSchema),
+          sortField: schema.maybe(sortFieldSchema),
+          sortDirection: schema.maybe(
+            schema.oneOf([schema.literal('asc'), schema.literal('desc')])
+          ),
+          format: schema.maybe(
+            schema.oneOf([schema.literal('csv'), schema.literal('ndjson'), schema.literal('json')])
+          ),
+          columns: schema.maybe(stringOrStringsSchema),
+        }),
+      },
+    },
+    async (context, request, response) => {
+      return controller.exportTodos(context, request, response);
+    }
+  );
   router.get(
     {
       path: `${basePath}/_stats`,
@@ -95,6 +462,45 @@ export function registerTodosRoutes(router: IRouter, logger: Logger): void {
     }
   );
 
+  router.get(
+    {
+      path: `${basePath}/_analytics/oscal`,
+      validate: {
+        query: schema.object({
+          complianceFramework: schema.string({ minLength: 1, maxLength: 100 }),
+        }),
+      },
+    },
+    async (context, request, response) => {
+      return controller.exportOscal(context, request, response);
+    }
+  );
+
+  router.get(
+    {
+      path: `${basePath}/_analytics/report`,
+      validate: {
+        query: schema.object({
+          format: schema.maybe(schema.oneOf([schema.literal('html'), schema.literal('markdown')])),
+          complianceFramework: schema.maybe(schema.string({ maxLength: 100 })),
+          createdAfter: schema.maybe(schema.string()),
+          createdBefore: schema.maybe(schema.string()),
+          timeInterval: schema.maybe(
+            schema.oneOf([
+              schema.literal('hour'),
+              schema.literal('day'),
+              schema.literal('week'),
+              schema.literal('month'),
+            ])
+          ),
+        }),
+      },
+    },
+    async (context, request, response) => {
+      return controller.getReport(context, request, response);
+    }
+  );
+
   router.get(
     {
       path: `${basePath}/_suggestions`,
@@ -107,104 +513,415 @@ export function registerTodosRoutes(router: IRouter, logger: Logger): void {
 
   router.get(
     {
-      path: `${basePath}/{id}`,
+      path: `${basePath}/_wip_limits`,
+      validate: false,
+    },
+    async (context, request, response) => {
+      return controller.getWipLimits(context, request, response);
+    }
+  );
+  router.get(
+    {
+      path: `${basePath}/_status_transitions`,
+      validate: false,
+    },
+    async (context, request, response) => {
+      return controller.getStatusTransitions(context, request, response);
+    }
+  );
+  router.get(
+    {
+      path: `${basePath}/_custom_fields`,
+      validate: false,
+    },
+    async (context, request, response) => {
+      return controller.listCustomFields(context, request, response);
+    }
+  );
+  router.post(
+    {
+      path: `${basePath}/_custom_fields`,
+      validate: {
+        body: schema.object({
+          key: customFieldKeySchema,
+          label: schema.string({ minLength: 1, maxLength: MAX_CUSTOM_FIELD_LABEL_LENGTH }),
+          type: schema.oneOf([
+            schema.literal('text'),
+            schema.literal('number'),
+            schema.literal('date'),
+            schema.literal('enum'),
+            schema.literal('boolean'),
+          ]),
+          description: schema.maybe(
+            schema.string({ maxLength: MAX_CUSTOM_FIELD_DESCRIPTION_LENGTH })
+          ),
+          options: schema.maybe(customFieldOptionsSchema),
+          required: schema.maybe(schema.boolean()),
+        }),
+      },
+    },
+    async (context, request, response) => {
+      return controller.createCustomField(context, request, response);
+    }
+  );
+  router.patch(
+    {
+      path: `${basePath}/_custom_fields/{key}`,
       validate: {
         params: schema.object({
-          id: schema.string({ minLength: 1 }),
+          key: customFieldKeySchema,
+        }),
+        body: schema.object({
+          label: schema.maybe(
+            schema.string({ minLength: 1, maxLength: MAX_CUSTOM_FIELD_LABEL_LENGTH })
+          ),
+          description: schema.maybe(
+            schema.nullable(schema.string({ maxLength: MAX_CUSTOM_FIELD_DESCRIPTION_LENGTH }))
+          ),
+          options: schema.maybe(customFieldOptionsSchema),
+          required: schema.maybe(schema.boolean()),
         }),
       },
     },
     async (context, request, response) => {
-      return controller.getById(context, request, response);
+      return controller.updateCustomField(context, request, response);
+    }
+  );
+  router.delete(
+    {
+      path: `${basePath}/_custom_fields/{key}`,
+      validate: {
+        params: schema.object({
+          key: customFieldKeySchema,
+        }),
+      },
+    },
+    async (context, request, response) => {
+      return controller.deleteCustomField(context, request, response);
+    }
+  );
+  router.get(
+    {
+      path: `${basePath}/_saved_views`,
+      validate: false,
+    },
+    async (context, request, response) => {
+      return controller.listSavedViews(context, request, response);
     }
   );
   router.post(
     {
-      path: basePath,
+      path: `${basePath}/_saved_views`,
       validate: {
         body: schema.object({
-          title: schema.string({ minLength: 1, maxLength: 256 }),
-          description: schema.maybe(schema.string({ maxLength: 4000 })),
-          status: schema.maybe(
-            schema.oneOf([
-              schema.literal('planned'),
-              schema.literal('in_progress'),
-              schema.literal('done'),
-              schema.literal('error'),
-            ])
+          name: schema.string({ minLength: 1, maxLength: MAX_SAVED_VIEW_NAME_LENGTH }),
+          filters: schema.maybe(savedViewFiltersSchema),
+          sortField: schema.maybe(sortFieldSchema),
+          sortDirection: schema.maybe(
+            schema.oneOf([schema.literal('asc'), schema.literal('desc')])
           ),
-          tags: schema.maybe(schema.arrayOf(schema.string({ maxLength: 50 }), { maxSize: 20 })),
-          assignee: schema.maybe(schema.string({ maxLength: 100 })),
-          priority: schema.maybe(
-            schema.oneOf([
-              schema.literal('low'),
-              schema.literal('medium'),
-              schema.literal('high'),
-              schema.literal('critical'),
-            ])
+          tab: schema.maybe(viewTabSchema),
+          shared: schema.maybe(schema.boolean()),
+        }),
+      },
+    },
+    async (context, request, response) => {
+      return controller.createSavedView(context, request, response);
+    }
+  );
+  router.patch(
+    {
+      path: `${basePath}/_saved_views/{viewId}`,
+      validate: {
+        params: schema.object({
+          viewId: schema.string({ minLength: 1 }),
+        }),
+        body: schema.object({
+          name: schema.maybe(
+            schema.string({ minLength: 1, maxLength: MAX_SAVED_VIEW_NAME_LENGTH })
           ),
-          severity: schema.maybe(
-            schema.oneOf([
-              schema.literal('info'),
-              schema.literal('low'),
-              schema.literal('medium'),
-              schema.literal('high'),
-              schema.literal('critical'),
-            ])
+          filters: schema.maybe(savedViewFiltersSchema),
+          sortField: schema.maybe(sortFieldSchema),
+          sortDirection: schema.maybe(
+            schema.oneOf([schema.literal('asc'), schema.literal('desc')])
           ),
-          dueDate: schema.maybe(schema.string()),
-          complianceFrameworks: schema.maybe(
-            schema.arrayOf(schema.string({ maxLength: 100 }), { maxSize: 10 })
+          tab: schema.maybe(viewTabSchema),
+          shared: schema.maybe(schema.boolean()),
+        }),
+      },
+    },
+    async (context, request, response) => {
+      return controller.updateSavedView(context, request, response);
+    }
+  );
+  router.delete(
+    {
+      path: `${basePath}/_saved_views/{viewId}`,
+      validate: {
+        params: schema.object({
+          viewId: schema.string({ minLength: 1 }),
+        }),
+      },
+    },
+    async (context, request, response) => {
+      return controller.deleteSavedView(context, request, response);
+    }
+  );
+
+  router.get(
+    {
+      path: `${basePath}/{id}`,
+      validate: {
+        params: schema.object({
+          id: schema.string({ minLength: 1 }),
+        }),
+      },
+    },
+    async (context, request, response) => {
+      return controller.getById(context, request, response);
+    }
+  );
+  router.get(
+    {
+      path: `${basePath}/{id}/_history`,
+      validate: {
+        params: schema.object({
+          id: schema.string({ minLength: 1 }),
+        }),
+        query: schema.object({
+          page: schema.maybe(schema.number({ min: 1 })),
+          pageSize: schema.maybe(schema.number({ min: 1, max: 100 })),
+        }),
+      },
+    },
+    async (context, request, response) => {
+      return controller.getHistory(context, request, response);
+    }
+  );
+  router.get(
+    {
+      path: `${basePath}/{id}/_children`,
+      validate: {
+        params: schema.object({
+          id: schema.string({ minLength: 1 }),
+        }),
+        query: schema.object({
+          page: schema.maybe(schema.number({ min: 1 })),
+          pageSize: schema.maybe(schema.number({ min: 1, max: 100 })),
+          sortField: schema.maybe(sortFieldSchema),
+          sortDirection: schema.maybe(
+            schema.oneOf([schema.literal('asc'), schema.literal('desc')])
           ),
         }),
       },
     },
     async (context, request, response) => {
-      return controller.create(context, request, response);
+      return controller.getChildren(context, request, response);
+    }
+  );
+  router.get(
+    {
+      path: `${basePath}/{id}/comments`,
+      validate: {
+        params: schema.object({
+          id: schema.string({ minLength: 1 }),
+        }),
+        query: schema.object({
+          page: schema.maybe(schema.number({ min: 1 })),
+          pageSize: schema.maybe(schema.number({ min: 1, max: 100 })),
+        }),
+      },
+    },
+    async (context, request, response) => {
+      return controller.listComments(context, request, response);
+    }
+  );
+  router.post(
+    {
+      path: `${basePath}/{id}/comments`,
+      validate: {
+        params: schema.object({
+          id: schema.string({ minLength: 1 }),
+        }),
+        body: schema.object({
+          body: schema.string({ minLength: 1, maxLength: MAX_TODO_COMMENT_LENGTH }),
+        }),
+      },
+    },
+    async (context, request, response) => {
+      return controller.createComment(context, request, response);
     }
   );
   router.patch(
     {
-      path: `${basePath}/{id}`,
+      path: `${basePath}/{id}/comments/{commentId}`,
       validate: {
         params: schema.object({
           id: schema.string({ minLength: 1 }),
+          commentId: schema.string({ minLength: 1 }),
         }),
         body: schema.object({
-          title: schema.maybe(schema.string({ minLength: 1, maxLength: 256 })),
-          description: schema.maybe(schema.string({ maxLength: 4000 })),
-          status: schema.maybe(
-            schema.oneOf([
-              schema.literal('planned'),
-              schema.literal('in_progress'),
-              schema.literal('done'),
-              schema.literal('error'),
-            ])
-          ),
-          tags: schema.maybe(schema.arrayOf(schema.string({ maxLength: 50 }), { maxSize: 20 })),
-          assignee: schema.maybe(schema.string({ maxLength: 100 })),
-          priority: schema.maybe(
+          body: schema.string({ minLength: 1, maxLength: MAX_TODO_COMMENT_LENGTH }),
+        }),
+      },
+    },
+    async (context, request, response) => {
+      return controller.updateComment(context, request, response);
+    }
+  );
+  router.delete(
+    {
+      path: `${basePath}/{id}/comments/{commentId}`,
+      validate: {
+        params: schema.object({
+          id: schema.string({ minLength: 1 }),
+          commentId: schema.string({ minLength: 1 }),
+        }),
+      },
+    },
+    async (context, request, response) => {
+      return controller.deleteComment(context, request, response);
+    }
+  );
+  router.post(
+    {
+      path: basePath,
+      validate: {
+        body: createTodoBodySchema,
+      },
+    },
+    async (context, request, response) => {
+      return controller.create(context, request, response);
+    }
+  );
+  router.post(
+    {
+      path: `${basePath}/_bulk`,
+      validate: {
+        body: schema.object({
+          actions: schema.arrayOf(
             schema.oneOf([
-              schema.literal('low'),
-              schema.literal('medium'),
-              schema.literal('high'),
-              schema.literal('critical'),
-            ])
+              schema.object({
+                action: schema.literal('create'),
+                todo: createTodoBodySchema,
+              }),
+              schema.object({
+                action: schema.literal('update'),
+                id: schema.string({ minLength: 1 }),
+                changes: updateTodoBodySchema,
+              }),
+              schema.object({
+                action: schema.literal('delete'),
+                id: schema.string({ minLength: 1 }),
+              }),
+            ]),
+            { minSize: 1, maxSize: MAX_BULK_ACTIONS }
           ),
-          severity: schema.maybe(
+        }),
+      },
+    },
+    async (context, request, response) => {
+      return controller.bulk(context, request, response);
+    }
+  );
+  router.post(
+    {
+      path: `${basePath}/_import`,
+      validate: {
+        body: schema.object({
+          format: schema.maybe(schema.oneOf([schema.literal('csv'), schema.literal('json')])),
+          content: schema.string({ minLength: 1 }),
+          mapping: schema.maybe(schema.recordOf(schema.string(), schema.string())),
+          dryRun: schema.maybe(schema.boolean()),
+        }),
+      },
+      options: {
+        body: { maxBytes: MAX_IMPORT_BYTES },
+      },
+    },
+    async (context, request, response) => {
+      return controller.importTodos(context, request, response);
+    }
+  );
+  router.post(
+    {
+      path: `${basePath}/_import/sarif`,
+      validate: {
+        body: schema.object({
+          content: schema.string({ minLength: 1 }),
+          minLevel: schema.maybe(
             schema.oneOf([
-              schema.literal('info'),
-              schema.literal('low'),
-              schema.literal('medium'),
-              schema.literal('high'),
-              schema.literal('critical'),
+              schema.literal('none'),
+              schema.literal('note'),
+              schema.literal('warning'),
+              schema.literal('error'),
             ])
           ),
-          dueDate: schema.maybe(schema.nullable(schema.string())),
-          complianceFrameworks: schema.maybe(
-            schema.arrayOf(schema.string({ maxLength: 100 }), { maxSize: 10 })
+          dryRun: schema.maybe(schema.boolean()),
+        }),
+      },
+      options: {
+        body: { maxBytes: MAX_IMPORT_BYTES },
+      },
+    },
+    async (context, request, response) => {
+      return controller.importSarif(context, request, response);
+    }
+  );
+  router.post(
+    {
+      path: `${basePath}/_update_by_query`,
+      validate: {
+        body: schema.object({
+          filters: schema.maybe(
+            schema.object({
+              status: schema.maybe(stringOrStringsSchema),
+              tags: schema.maybe(stringOrStringsSchema),
+              searchText: schema.maybe(schema.string()),
+              assignee: schema.maybe(schema.string()),
+              priority: schema.maybe(stringOrStringsSchema),
+              severity: schema.maybe(stringOrStringsSchema),
+              complianceFrameworks: schema.maybe(stringOrStringsSchema),
+              dueDateAfter: schema.maybe(schema.string()),
+              dueDateBefore: schema.maybe(schema.string()),
+              createdAfter: schema.maybe(schema.string()),
+              createdBefore: schema.maybe(schema.string()),
+              updatedAfter: schema.maybe(schema.string()),
+              updatedBefore: schema.maybe(schema.string()),
+              completedAfter: schema.maybe(schema.string()),
+              completedBefore: schema.maybe(schema.string()),
+              isOverdue: schema.maybe(schema.boolean()),
+              parentId: schema.maybe(schema.string()),
+              isBlocked: schema.maybe(schema.boolean()),
+              custom: schema.maybe(stringOrStringsSchema),
+            })
           ),
+          patch: todoPatchBodySchema,
+          dryRun: schema.maybe(schema.boolean()),
+        }),
+      },
+    },
+    async (context, request, response) => {
+      return controller.updateByQuery(context, request, response);
+    }
+  );
+  router.post(
+    {
+      path: `${basePath}/_rebalance_ranks`,
+      validate: false,
+    },
+    async (context, request, response) => {
+      return controller.rebalanceRanks(context, request, response);
+    }
+  );
+  router.patch(
+    {
+      path: `${basePath}/{id}`,
+      validate: {
+        params: schema.object({
+          id: schema.string({ minLength: 1 }),
         }),
+        body: updateTodoBodySchema,
       },
     },
     async (context, request, response) => {
@@ -1,3 +1,6 @@
 export * from './todos.service';
 export * from './todo_stats.service';
 export * from './todo_analytics.service';
+export * from './todo_comments.service';
+export * from './todo_custom_fields.service';
+export * from './todo_saved_views.service';
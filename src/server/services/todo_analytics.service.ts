@@ -1,12 +1,36 @@
 import { Logger } from '../../../../src/core/server';
-import { AnalyticsStats, TodoAnalyticsQueryParams } from '../../common';
+import {
+  AnalyticsStats,
+  Todo,
+  TodoAnalyticsQueryParams,
+  TodoOscalExportQueryParams,
+  TodoReportFormat,
+  TodoReportQueryParams,
+  TodoStatus,
+  TODO_STATUS_VALUES,
+} from '../../common';
 import {
   TodosRepository,
   TodoOpenSearchClient,
   TodoAnalyticsParams,
 } from '../repositories';
-import { TodosMapper } from '../mappers';
-import { ValidationError } from '../errors';
+import { TodosMapper, TodoOscalMapper, OscalPoamDocument, TodoReportMapper } from '../mappers';
+import { BusinessRuleError, ValidationError } from '../errors';
+
+/**
+ * A rendered compliance report.
+ */
+export interface TodoReport {
+  /** Format of the document */
+  readonly format: TodoReportFormat;
+  /** The report document */
+  readonly content: string;
+}
+
+const OPEN_STATUSES: readonly TodoStatus[] = TODO_STATUS_VALUES.filter(
+  (status) => status !== 'done'
+);
+
 export class TodoAnalyticsService {
   private readonly logger: Logger;
   private readonly repository: TodosRepository;
@@ -27,6 +51,126 @@ export class TodoAnalyticsService {
     const result = await this.repository.getAnalytics(client, analyticsParams);
     return TodosMapper.toAnalyticsStats(result.total, result.aggregations);
   }
+  /**
+   * Exports the open TODOs of a compliance framework as an OSCAL POA&M document.
+   *
+   * @param client - OpenSearch client
+   * @param params - Compliance framework to export
+   * @returns OSCAL plan-of-action-and-milestones document
+   * @throws {ValidationError} If no framework is given
+   * @throws {BusinessRuleError} If the framework has no open TODOs
+   *
+   * @remarks
+   * The summary properties come from the framework's compliance coverage. The POA&M
+   * items are the TODOs of the framework that are not done, ordered by due date.
+   */
+  async exportOscal(
+    client: TodoOpenSearchClient,
+    params: TodoOscalExportQueryParams
+  ): Promise<OscalPoamDocument> {
+    this.validateAnalyticsParams(params);
+    const framework = params.complianceFramework;
+    if (!framework) {
+      throw new ValidationError('complianceFramework is required', {
+        field: 'complianceFramework',
+      });
+    }
+
+    const analytics = await this.getAnalytics(client, { complianceFramework: framework });
+    const coverage = analytics.complianceCoverage.find((entry) => entry.framework === framework);
+    const todos: Todo[] = [];
+    if (coverage && coverage.total > coverage.byStatus.done) {
+      for await (const batch of this.repository.scan(client, {
+        complianceFrameworks: [framework],
+        status: OPEN_STATUSES,
+        sortField: 'dueDate',
+        sortDirection: 'asc',
+      })) {
+        todos.push(...batch);
+      }
+    }
+    // An OSCAL POA&M must contain at least one item
+    if (!coverage || todos.length === 0) {
+      throw new BusinessRuleError(`Compliance framework ${framework} has no open TODOs`, {
+        complianceFramework: framework,
+      });
+    }
+
+    this.logger.info(`Exported ${todos.length} open TODOs of ${framework} as an OSCAL POA&M`);
+    return TodoOscalMapper.toPoamDocument(coverage, todos, new Date().toISOString());
+  }
+
+  /**
+   * Generates a compliance report for a date range and, optionally, a framework.
+   *
+   * @param client - OpenSearch client
+   * @param params - Format, framework, creation date range and trend interval
+   * @returns The rendered report
+   * @throws {ValidationError} If a date or the trend interval is invalid
+   *
+   * @remarks
+   * Framework coverage, overdue TODOs and the priority-severity matrix come from the
+   * analytics; the status counts and completion trend come from the statistics. Both
+   * are limited to the same framework and TODOs created in the same date range.
+   */
+  async getReport(
+    client: TodoOpenSearchClient,
+    params: TodoReportQueryParams
+  ): Promise<TodoReport> {
+    this.validateAnalyticsParams(params);
+    this.validateReportParams(params);
+    const format = params.format || 'html';
+    const timeInterval = params.timeInterval || 'week';
+    const filters = {
+      complianceFramework: params.complianceFramework,
+      createdAfter: params.createdAfter,
+      createdBefore: params.createdBefore,
+    };
+    this.logger.debug('Generating compliance report', { params });
+    const [analyticsResult, statsResult] = await Promise.all([
+      this.repository.getAnalytics(client, filters),
+      this.repository.getStats(client, { ...filters, timeInterval, topTagsLimit: 1 }),
+    ]);
+    const analytics = TodosMapper.toAnalyticsStats(
+      analyticsResult.total,
+      analyticsResult.aggregations
+    );
+    const stats = TodosMapper.toTodoStats(statsResult.total, statsResult.aggregations);
+    const content = TodoReportMapper.render(
+      { generatedAt: new Date().toISOString(), ...filters, timeInterval, analytics, stats },
+      format
+    );
+    return { format, content };
+  }
+
+  private validateReportParams(params: TodoReportQueryParams): void {
+    for (const field of ['createdAfter', 'createdBefore'] as const) {
+      const value = params[field];
+      if (value !== undefined && isNaN(new Date(value).getTime())) {
+        throw new ValidationError(`Invalid ${field} date format. Use ISO 8601 format.`, {
+          field,
+          value,
+        });
+      }
+    }
+    if (
+      params.createdAfter &&
+      params.createdBefore &&
+      new Date(params.createdAfter) > new Date(params.createdBefore)
+    ) {
+      throw new ValidationError('createdAfter must be before createdBefore', {
+        createdAfter: params.createdAfter,
+        createdBefore: params.createdBefore,
+      });
+    }
+    if (params.timeInterval && !['hour', 'day', 'week', 'month'].includes(params.timeInterval)) {
+      throw new ValidationError(`Invalid timeInterval: ${params.timeInterval}`, {
+        field: 'timeInterval',
+        validValues: ['hour', 'day', 'week', 'month'],
+      });
+    }
+  }
+
   private validateAnalyticsParams(params: TodoAnalyticsQueryParams): void {
     if (params.complianceFramework !== undefined) {
       if (typeof params.complianceFramework !== 'string') {
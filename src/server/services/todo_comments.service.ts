@@ -0,0 +1,207 @@
+import { Logger } from '../../../../src/core/server';
+import {
+  TodoComment,
+  TodoCommentsQueryParams,
+  CreateTodoCommentRequest,
+  UpdateTodoCommentRequest,
+  ListTodoCommentsResponse,
+  DEFAULT_PAGE_SIZE,
+  MAX_PAGE_SIZE,
+  UNKNOWN_ACTOR,
+} from '../../common';
+import { TodosRepository, TodoCommentsRepository, TodoOpenSearchClient } from '../repositories';
+import { TodoCommentsMapper } from '../mappers';
+import { ValidationError, BusinessRuleError } from '../errors';
+import { FieldValidators } from './validators/field-validators';
+
+/**
+ * Service layer for the comment thread of each TODO.
+ *
+ * @remarks
+ * Comments are stored in their own index through {@link TodoCommentsRepository};
+ * the TODO itself is read through {@link TodosRepository} to make sure it exists.
+ */
+export class TodoCommentsService {
+  private readonly logger: Logger;
+  private readonly todosRepository: TodosRepository;
+  private readonly commentsRepository: TodoCommentsRepository;
+  private readonly securityEnabled: boolean;
+
+  constructor(
+    logger: Logger,
+    todosRepository: TodosRepository,
+    commentsRepository: TodoCommentsRepository,
+    securityEnabled: boolean = true
+  ) {
+    this.logger = logger;
+    this.todosRepository = todosRepository;
+    this.commentsRepository = commentsRepository;
+    this.securityEnabled = securityEnabled;
+  }
+
+  /**
+   * Lists the comments of a TODO, oldest first.
+   *
+   * @param client - OpenSearch client with request-scoped permissions
+   * @param todoId - ID of the TODO
+   * @param params - Pagination parameters
+   * @returns Paginated comments
+   * @throws {ValidationError} If the ID is invalid
+   * @throws {NotFoundError} If the TODO does not exist
+   * @throws {IndexError} If OpenSearch operation fails
+   */
+  async list(
+    client: TodoOpenSearchClient,
+    todoId: string,
+    params: TodoCommentsQueryParams = {}
+  ): Promise<ListTodoCommentsResponse> {
+    this.validateId(todoId);
+    await this.todosRepository.getById(client, todoId);
+    const page = Math.max(1, params.page || 1);
+    const pageSize = Math.min(MAX_PAGE_SIZE, Math.max(1, params.pageSize || DEFAULT_PAGE_SIZE));
+    const result = await this.commentsRepository.listByTodoId(client, todoId, page, pageSize);
+    const totalPages = Math.ceil(result.total / pageSize);
+    return {
+      todoId,
+      comments: result.comments,
+      pagination: {
+        page,
+        pageSize,
+        totalItems: result.total,
+        totalPages,
+        hasNextPage: page < totalPages,
+        hasPreviousPage: page > 1,
+      },
+    };
+  }
+
+  /**
+   * Adds a comment to a TODO.
+   *
+   * @param client - OpenSearch client with request-scoped permissions
+   * @param todoId - ID of the TODO
+   * @param request - Comment data
+   * @param author - Username of the user writing the comment
+   * @returns The stored comment
+   * @throws {ValidationError} If the ID or body is invalid
+   * @throws {NotFoundError} If the TODO does not exist
+   * @throws {IndexError} If OpenSearch operation fails
+   */
+  async create(
+    client: TodoOpenSearchClient,
+    todoId: string,
+    request: CreateTodoCommentRequest,
+    author: string = UNKNOWN_ACTOR
+  ): Promise<TodoComment> {
+    this.validateId(todoId);
+    FieldValidators.validateCommentBody(request.body);
+    await this.todosRepository.getById(client, todoId);
+    const document = TodoCommentsMapper.toDocument(
+      todoId,
+      author,
+      request.body,
+      new Date().toISOString()
+    );
+    const comment = await this.commentsRepository.create(client, document);
+    this.logger.info(`Comment '${comment.id}' added to TODO '${todoId}' by '${author}'`);
+    return comment;
+  }
+
+  /**
+   * Edits the body of a comment.
+   *
+   * @param client - OpenSearch client with request-scoped permissions
+   * @param todoId - ID of the TODO the comment belongs to
+   * @param commentId - ID of the comment
+   * @param request - New comment data
+   * @param actor - Username of the user editing the comment
+   * @returns The edited comment
+   * @throws {ValidationError} If an ID or the body is invalid
+   * @throws {NotFoundError} If the TODO has no comment with this ID
+   * @throws {BusinessRuleError} If the comment was written by another user
+   * @throws {IndexError} If OpenSearch operation fails
+   */
+  async update(
+    client: TodoOpenSearchClient,
+    todoId: string,
+    commentId: string,
+    request: UpdateTodoCommentRequest,
+    actor: string = UNKNOWN_ACTOR
+  ): Promise<TodoComment> {
+    this.validateId(todoId);
+    this.validateId(commentId);
+    FieldValidators.validateCommentBody(request.body);
+    const existing = await this.commentsRepository.getById(client, todoId, commentId);
+    this.validateAuthor(existing, actor, 'edit');
+    const body = request.body.trim();
+    const updatedAt = new Date().toISOString();
+    await this.commentsRepository.update(client, commentId, body, updatedAt);
+    return { ...existing, body, updatedAt };
+  }
+
+  /**
+   * Deletes a comment.
+   *
+   * @param client - OpenSearch client with request-scoped permissions
+   * @param todoId - ID of the TODO the comment belongs to
+   * @param commentId - ID of the comment
+   * @param actor - Username of the user deleting the comment
+   * @returns True if the comment was deleted
+   * @throws {ValidationError} If an ID is invalid
+   * @throws {NotFoundError} If the TODO has no comment with this ID
+   * @throws {BusinessRuleError} If the comment was written by another user
+   * @throws {IndexError} If OpenSearch operation fails
+   */
+  async delete(
+    client: TodoOpenSearchClient,
+    todoId: string,
+    commentId: string,
+    actor: string = UNKNOWN_ACTOR
+  ): Promise<boolean> {
+    this.validateId(todoId);
+    this.validateId(commentId);
+    const existing = await this.commentsRepository.getById(client, todoId, commentId);
+    this.validateAuthor(existing, actor, 'delete');
+    const deleted = await this.commentsRepository.delete(client, commentId);
+    this.logger.info(`Comment '${commentId}' deleted from TODO '${todoId}' by '${actor}'`);
+    return deleted;
+  }
+
+  /**
+   * Validates that a comment may be changed by the current user.
+   *
+   * @param comment - Stored comment
+   * @param actor - Username of the current user
+   * @param operation - Operation being attempted, for the error message
+   * @throws {BusinessRuleError} If the comment was written by another user,
+   *   or the current user could not be identified
+   * @private
+   *
+   * @remarks
+   * A user whose lookup failed is {@link UNKNOWN_ACTOR} and is never treated as the author.
+   * Only when security is disabled in the configuration (clusters without the security
+   * plugin) is authorship not checked.
+   */
+  private validateAuthor(comment: TodoComment, actor: string, operation: 'edit' | 'delete'): void {
+    if (!this.securityEnabled || (actor !== UNKNOWN_ACTOR && comment.author === actor)) {
+      return;
+    }
+    throw new BusinessRuleError(`Only the author can ${operation} this comment`, {
+      field: 'author',
+      author: comment.author,
+    });
+  }
+
+  /**
+   * Validates an ID parameter.
+   *
+   * @param id - ID to validate
+   * @throws {ValidationError} If the ID is empty
+   * @private
+   */
+  private validateId(id: string): void {
+    if (!id || id.trim().length === 0) {
+      throw new ValidationError('ID is required', { field: 'id' });
+    }
+  }
+}
@@ -0,0 +1,185 @@
+import { Logger } from '../../../../src/core/server';
+import {
+  TodoCustomFieldDefinition,
+  CreateTodoCustomFieldRequest,
+  UpdateTodoCustomFieldRequest,
+  DEFAULT_CUSTOM_FIELD_ADMIN_ROLES,
+  MAX_TODO_CUSTOM_FIELDS,
+  UNKNOWN_ACTOR,
+} from '../../common';
+import { TodoCustomFieldsRepository, TodoOpenSearchClient } from '../repositories';
+import { TodoCustomFieldsMapper } from '../mappers';
+import { BusinessRuleError, ForbiddenError } from '../errors';
+import { CurrentUser } from '../utils';
+import { FieldValidators } from './validators/field-validators';
+
+/**
+ * Service layer for the deployment's registry of custom TODO fields.
+ *
+ * @remarks
+ * Anyone can read the registry; defining, changing and deleting fields is limited
+ * to users with one of the configured admin roles. Values stored on TODOs are
+ * validated against the registry by {@link TodosService}.
+ */
+export class TodoCustomFieldsService {
+  private readonly logger: Logger;
+  private readonly repository: TodoCustomFieldsRepository;
+  private readonly adminRoles: readonly string[];
+  private readonly securityEnabled: boolean;
+
+  constructor(
+    logger: Logger,
+    repository: TodoCustomFieldsRepository,
+    adminRoles: readonly string[] = DEFAULT_CUSTOM_FIELD_ADMIN_ROLES,
+    securityEnabled: boolean = true
+  ) {
+    this.logger = logger;
+    this.repository = repository;
+    this.adminRoles = adminRoles;
+    this.securityEnabled = securityEnabled;
+  }
+
+  /**
+   * Lists every custom field definition, oldest first.
+   *
+   * @param client - OpenSearch client with request-scoped permissions
+   * @returns Field definitions
+   * @throws {IndexError} If OpenSearch operation fails
+   */
+  async list(client: TodoOpenSearchClient): Promise<TodoCustomFieldDefinition[]> {
+    return this.repository.list(client);
+  }
+
+  /**
+   * Defines a new custom field.
+   *
+   * @param client - OpenSearch client with request-scoped permissions
+   * @param request - Field definition
+   * @param user - User making the change
+   * @returns The stored field definition
+   * @throws {ForbiddenError} If the user has none of the admin roles
+   * @throws {ValidationError} If the definition is invalid
+   * @throws {BusinessRuleError} If `MAX_TODO_CUSTOM_FIELDS` fields are already defined
+   * @throws {ConflictError} If a field with the same key already exists
+   * @throws {IndexError} If OpenSearch operation fails
+   */
+  async create(
+    client: TodoOpenSearchClient,
+    request: CreateTodoCustomFieldRequest,
+    user: CurrentUser
+  ): Promise<TodoCustomFieldDefinition> {
+    this.validateCanManage(user);
+    FieldValidators.validateCustomFieldKey(request.key);
+    FieldValidators.validateCustomFieldLabel(request.label, true);
+    FieldValidators.validateCustomFieldType(request.type);
+    FieldValidators.validateCustomFieldDescription(request.description);
+    FieldValidators.validateCustomFieldOptions(request.options, request.type);
+    const existing = await this.repository.list(client);
+    if (existing.length >= MAX_TODO_CUSTOM_FIELDS) {
+      throw new BusinessRuleError(`Cannot define more than ${MAX_TODO_CUSTOM_FIELDS} custom fields`, {
+        maxFields: MAX_TODO_CUSTOM_FIELDS,
+      });
+    }
+    const document = TodoCustomFieldsMapper.toCreateDocument(request, new Date().toISOString());
+    const field = await this.repository.create(client, request.key, document);
+    this.logger.info(`Custom field '${field.key}' (${field.type}) defined by '${user.username}'`);
+    return field;
+  }
+
+  /**
+   * Changes a custom field definition.
+   *
+   * @param client - OpenSearch client with request-scoped permissions
+   * @param key - Key of the field
+   * @param request - Fields to change; the key and type cannot be changed
+   * @param user - User making the change
+   * @returns The updated field definition
+   * @throws {ForbiddenError} If the user has none of the admin roles
+   * @throws {ValidationError} If the changes are invalid
+   * @throws {NotFoundError} If no field has this key
+   * @throws {IndexError} If OpenSearch operation fails
+   *
+   * @remarks
+   * Changing options or making a field required does not touch values already
+   * stored on TODOs; they are checked again the next time each TODO is saved.
+   */
+  async update(
+    client: TodoOpenSearchClient,
+    key: string,
+    request: UpdateTodoCustomFieldRequest,
+    user: CurrentUser
+  ): Promise<TodoCustomFieldDefinition> {
+    this.validateCanManage(user);
+    FieldValidators.validateCustomFieldLabel(request.label, false);
+    FieldValidators.validateCustomFieldDescription(request.description);
+    const existing = await this.repository.getByKey(client, key);
+    if (request.options !== undefined) {
+      FieldValidators.validateCustomFieldOptions(request.options, existing.type);
+    }
+    const updates = TodoCustomFieldsMapper.toUpdateDocument(request, new Date().toISOString());
+    await this.repository.update(client, key, updates);
+    this.logger.info(`Custom field '${key}' changed by '${user.username}'`);
+    return {
+      ...existing,
+      label: updates.label ?? existing.label,
+      description:
+        updates.description !== undefined
+          ? updates.description || undefined
+          : existing.description,
+      options: updates.options ?? existing.options,
+      required: updates.required ?? existing.required,
+      updatedAt: updates.updated_at ?? existing.updatedAt,
+    };
+  }
+
+  /**
+   * Deletes a custom field definition.
+   *
+   * @param client - OpenSearch client with request-scoped permissions
+   * @param key - Key of the field
+   * @param user - User making the change
+   * @returns True if the definition was deleted
+   * @throws {ForbiddenError} If the user has none of the admin roles
+   * @throws {NotFoundError} If no field has this key
+   * @throws {IndexError} If OpenSearch operation fails
+   *
+   * @remarks
+   * Values already stored on TODOs are kept and still returned, but can no longer
+   * be set or filtered on, and the UI stops showing them.
+   */
+  async delete(client: TodoOpenSearchClient, key: string, user: CurrentUser): Promise<boolean> {
+    this.validateCanManage(user);
+    const deleted = await this.repository.delete(client, key);
+    this.logger.info(`Custom field '${key}' deleted by '${user.username}'`);
+    return deleted;
+  }
+
+  /**
+   * Validates that a user may manage the registry.
+   *
+   * @param user - User making the change
+   * @throws {ForbiddenError} If the user could not be identified or has none of the admin roles
+   * @private
+   *
+   * @remarks
+   * A user whose lookup failed is {@link UNKNOWN_ACTOR} without roles and is rejected.
+   * Only when security is disabled in the configuration (clusters without the security
+   * plugin) are roles not checked and the registry open to everyone.
+   */
+  private validateCanManage(user: CurrentUser): void {
+    if (!this.securityEnabled) {
+      return;
+    }
+    if (user.username === UNKNOWN_ACTOR) {
+      throw new ForbiddenError('Could not identify the current user to check admin roles', {
+        requiredRoles: [...this.adminRoles],
+      });
+    }
+    if (user.roles.some((role) => this.adminRoles.includes(role))) {
+      return;
+    }
+    throw new ForbiddenError('Only administrators can manage custom fields', {
+      requiredRoles: [...this.adminRoles],
+    });
+  }
+}
@@ -0,0 +1,258 @@
+import { Logger } from '../../../../src/core/server';
+import {
+  TodoSavedView,
+  CreateTodoSavedViewRequest,
+  UpdateTodoSavedViewRequest,
+  MAX_TODO_SAVED_VIEWS,
+  UNKNOWN_ACTOR,
+} from '../../common';
+import { TodoSavedViewsRepository, TodoOpenSearchClient } from '../repositories';
+import { TodoSavedViewsMapper } from '../mappers';
+import {
+  ValidationError,
+  BusinessRuleError,
+  ConflictError,
+  ForbiddenError,
+  NotFoundError,
+} from '../errors';
+import { FieldValidators } from './validators/field-validators';
+
+/**
+ * Service layer for saved views of the TODO page.
+ *
+ * @remarks
+ * Each user sees their own views and the views other users shared. Only the owner
+ * of a view can change or delete it; views of other users that are not shared are
+ * reported as not found.
+ *
+ * A user whose lookup failed is {@link UNKNOWN_ACTOR}: while security is enabled in the
+ * configuration, such a user only sees shared views and cannot save, change or delete any.
+ * When it is disabled (clusters without the security plugin), all views belong to that user.
+ */
+export class TodoSavedViewsService {
+  private readonly logger: Logger;
+  private readonly repository: TodoSavedViewsRepository;
+  private readonly securityEnabled: boolean;
+
+  constructor(
+    logger: Logger,
+    repository: TodoSavedViewsRepository,
+    securityEnabled: boolean = true
+  ) {
+    this.logger = logger;
+    this.repository = repository;
+    this.securityEnabled = securityEnabled;
+  }
+
+  /**
+   * Lists the views of a user and the views shared by other users, by name.
+   *
+   * @param client - OpenSearch client with request-scoped permissions
+   * @param username - Username of the current user
+   * @returns Visible views, only the shared ones if the user could not be identified
+   * @throws {IndexError} If OpenSearch operation fails
+   */
+  async list(
+    client: TodoOpenSearchClient,
+    username: string = UNKNOWN_ACTOR
+  ): Promise<TodoSavedView[]> {
+    const views = await this.repository.list(client, username);
+    if (this.isUnidentified(username)) {
+      return views.filter((view) => view.shared);
+    }
+    return views;
+  }
+
+  /**
+   * Saves a new view for the current user.
+   *
+   * @param client - OpenSearch client with request-scoped permissions
+   * @param request - View to save
+   * @param owner - Username of the user saving the view
+   * @returns The stored view
+   * @throws {ForbiddenError} If the user could not be identified
+   * @throws {ValidationError} If the name, filters or tab is invalid
+   * @throws {BusinessRuleError} If the user already has `MAX_TODO_SAVED_VIEWS` views
+   * @throws {ConflictError} If the user already has a view with the same name
+   * @throws {IndexError} If OpenSearch operation fails
+   */
+  async create(
+    client: TodoOpenSearchClient,
+    request: CreateTodoSavedViewRequest,
+    owner: string = UNKNOWN_ACTOR
+  ): Promise<TodoSavedView> {
+    this.validateIdentified(owner, 'save');
+    FieldValidators.validateSavedViewName(request.name, true);
+    FieldValidators.validateSavedViewFilters(request.filters);
+    FieldValidators.validateSavedViewTab(request.tab);
+    const ownViews = await this.repository.list(client, owner, false);
+    if (ownViews.length >= MAX_TODO_SAVED_VIEWS) {
+      throw new BusinessRuleError(`Cannot save more than ${MAX_TODO_SAVED_VIEWS} views`, {
+        maxViews: MAX_TODO_SAVED_VIEWS,
+      });
+    }
+    this.validateUniqueName(ownViews, request.name);
+    const document = TodoSavedViewsMapper.toCreateDocument(
+      request,
+      owner,
+      new Date().toISOString()
+    );
+    const view = await this.repository.create(client, document);
+    this.logger.info(`View '${view.name}' saved by '${owner}'`);
+    return view;
+  }
+
+  /**
+   * Changes a saved view.
+   *
+   * @param client - OpenSearch client with request-scoped permissions
+   * @param id - ID of the view
+   * @param request - Fields to change
+   * @param actor - Username of the user changing the view
+   * @returns The updated view
+   * @throws {ForbiddenError} If the user could not be identified
+   * @throws {ValidationError} If the ID, name, filters or tab is invalid
+   * @throws {NotFoundError} If no view visible to the user has this ID
+   * @throws {ForbiddenError} If the view was shared by another user
+   * @throws {ConflictError} If the user already has another view with the new name
+   * @throws {IndexError} If OpenSearch operation fails
+   */
+  async update(
+    client: TodoOpenSearchClient,
+    id: string,
+    request: UpdateTodoSavedViewRequest,
+    actor: string = UNKNOWN_ACTOR
+  ): Promise<TodoSavedView> {
+    this.validateIdentified(actor, 'change');
+    this.validateId(id);
+    FieldValidators.validateSavedViewName(request.name, false);
+    FieldValidators.validateSavedViewFilters(request.filters);
+    FieldValidators.validateSavedViewTab(request.tab);
+    const existing = await this.repository.getById(client, id);
+    this.validateOwner(existing, actor, 'change');
+    if (request.name !== undefined) {
+      const ownViews = await this.repository.list(client, actor, false);
+      this.validateUniqueName(ownViews, request.name, id);
+    }
+    const updates = TodoSavedViewsMapper.toUpdateDocument(request, new Date().toISOString());
+    await this.repository.update(client, id, updates);
+    return {
+      ...existing,
+      name: updates.name ?? existing.name,
+      shared: updates.shared ?? existing.shared,
+      filters: updates.filters ?? existing.filters,
+      sortField: updates.sort_field ?? existing.sortField,
+      sortDirection: updates.sort_direction ?? existing.sortDirection,
+      tab: updates.tab ?? existing.tab,
+      updatedAt: updates.updated_at ?? existing.updatedAt,
+    };
+  }
+
+  /**
+   * Deletes a saved view.
+   *
+   * @param client - OpenSearch client with request-scoped permissions
+   * @param id - ID of the view
+   * @param actor - Username of the user deleting the view
+   * @returns True if the view was deleted
+   * @throws {ForbiddenError} If the user could not be identified
+   * @throws {ValidationError} If the ID is invalid
+   * @throws {NotFoundError} If no view visible to the user has this ID
+   * @throws {ForbiddenError} If the view was shared by another user
+   * @throws {IndexError} If OpenSearch operation fails
+   */
+  async delete(
+    client: TodoOpenSearchClient,
+    id: string,
+    actor: string = UNKNOWN_ACTOR
+  ): Promise<boolean> {
+    this.validateIdentified(actor, 'delete');
+    this.validateId(id);
+    const existing = await this.repository.getById(client, id);
+    this.validateOwner(existing, actor, 'delete');
+    const deleted = await this.repository.delete(client, id);
+    this.logger.info(`View '${existing.name}' deleted by '${actor}'`);
+    return deleted;
+  }
+
+  /**
+   * Whether a user could not be identified while security is enabled.
+   *
+   * @param username - Username of the current user
+   * @private
+   */
+  private isUnidentified(username: string): boolean {
+    return this.securityEnabled && username === UNKNOWN_ACTOR;
+  }
+
+  /**
+   * Validates that the current user was identified before saving views under their name.
+   *
+   * @param actor - Username of the current user
+   * @param operation - Operation being attempted, for the error message
+   * @throws {ForbiddenError} If the user could not be identified
+   * @private
+   */
+  private validateIdentified(actor: string, operation: 'save' | 'change' | 'delete'): void {
+    if (this.isUnidentified(actor)) {
+      throw new ForbiddenError(`Could not identify the current user to ${operation} saved views`);
+    }
+  }
+
+  /**
+   * Validates that a view may be changed by the current user.
+   *
+   * @param view - Stored view
+   * @param actor - Username of the current user
+   * @param operation - Operation being attempted, for the error message
+   * @throws {NotFoundError} If the view belongs to another user and is not shared
+   * @throws {ForbiddenError} If the view was shared by another user
+   * @private
+   */
+  private validateOwner(view: TodoSavedView, actor: string, operation: 'change' | 'delete'): void {
+    if (view.owner === actor) {
+      return;
+    }
+    if (!view.shared) {
+      throw new NotFoundError('Saved view', view.id);
+    }
+    throw new ForbiddenError(`Only the owner can ${operation} this saved view`, {
+      owner: view.owner,
+    });
+  }
+
+  /**
+   * Validates that no other view of the user has the same name, ignoring case.
+   *
+   * @param ownViews - Views of the user
+   * @param name - Name to check
+   * @param id - ID of the view being renamed, if any
+   * @throws {ConflictError} If another view has the same name
+   * @private
+   */
+  private validateUniqueName(ownViews: readonly TodoSavedView[], name: string, id?: string): void {
+    const normalized = name.trim().toLowerCase();
+    const duplicate = ownViews.find(
+      (view) => view.id !== id && view.name.toLowerCase() === normalized
+    );
+    if (duplicate) {
+      throw new ConflictError(`A saved view named '${duplicate.name}' already exists`, {
+        field: 'name',
+        id: duplicate.id,
+      });
+    }
+  }
+
+  /**
+   * Validates an ID parameter.
+   *
+   * @param id - ID to validate
+   * @throws {ValidationError} If the ID is empty
+   * @private
+   */
+  private validateId(id: string): void {
+    if (!id || id.trim().length === 0) {
+      throw new ValidationError('ID is required', { field: 'id' });
+    }
+  }
+}
@@ -5,15 +5,120 @@ import {
   UpdateTodoRequest,
   ListTodosQueryParams,
   ListTodosResponse,
+  ExportTodosQueryParams,
+  TodoCalendarQueryParams,
+  GetTodoBoardQueryParams,
+  GetTodoBoardResponse,
+  TodoExportFormat,
+  ImportTodosRequest,
+  ImportTodosResponse,
+  TodoImportRowError,
+  ImportSarifRequest,
+  ImportSarifResponse,
+  SarifImportAction,
+  SarifImportItem,
   PaginationMeta,
+  TodoStatus,
+  TodoStatusTransitionRules,
+  TodoWipLimits,
+  TodoHistoryAction,
+  TodoHistoryQueryParams,
+  GetTodoHistoryResponse,
+  BulkTodosRequest,
+  BulkTodosResponse,
+  BulkTodoAction,
+  BulkTodoItemResult,
+  UpdateTodosByQueryRequest,
+  UpdateTodosByQueryResponse,
+  RebalanceTodoRanksResponse,
+  TodoUpdateByQueryPatch,
+  GetTodoChildrenResponse,
+  TodoCustomFieldDefinition,
   DEFAULT_PAGE_SIZE,
+  DEFAULT_BOARD_COLUMN_SIZE,
+  MAX_BOARD_OFFSET,
+  IMPORT_PREVIEW_SIZE,
+  MAX_BULK_ACTIONS,
+  MAX_IMPORT_ROWS,
   MAX_PAGE_SIZE,
+  MAX_TODO_HIERARCHY_DEPTH,
+  TODO_BLOCKED_STATUSES,
+  DEFAULT_TODO_STATUS_TRANSITIONS,
+  TODO_STATUS_LABELS,
+  TODO_STATUS_VALUES,
+  TODO_EXPORT_COLUMNS,
+  SARIF_LEVEL_VALUES,
+  UNKNOWN_ACTOR,
+  diffTodos,
+  getNextOccurrenceDate,
+  parseRecurrenceRule,
+  parseCustomFieldFilter,
+  getDefaultImportMapping,
+  evenRanks,
+  getWipLimit,
+  DEFAULT_TODO_WIP_LIMITS,
 } from '../../common';
-import { TodosRepository, TodoOpenSearchClient, TodoSearchParams } from '../repositories';
-import { TodosMapper } from '../mappers';
-import { ValidationError } from '../errors';
+import {
+  TodosRepository,
+  TodoAuditRepository,
+  TodoCommentsRepository,
+  TodoCustomFieldsRepository,
+  TodoOpenSearchClient,
+  TodoSearchParams,
+  TodoCustomFieldSearchFilter,
+  TodoBulkOperation,
+} from '../repositories';
+import {
+  TodosMapper,
+  TodoAuditMapper,
+  TodoExportMapper,
+  TodoCalendarMapper,
+  TodoImportMapper,
+  TodoImportTable,
+  TodoSarifMapper,
+  SarifFinding,
+  SarifRun,
+  TodoDocument,
+} from '../mappers';
+import {
+  AppError,
+  ValidationError,
+  BusinessRuleError,
+  ConflictError,
+  NotFoundError,
+  InternalError,
+} from '../errors';
 import { FieldValidators } from './validators/field-validators';
 
+/**
+ * Export file produced by {@link TodosService.export}.
+ */
+export interface TodoExport {
+  /** Format of the file */
+  readonly format: TodoExportFormat;
+  /** Columns of the file, in order */
+  readonly columns: readonly string[];
+  /** Text chunks of the file, read lazily from the index as they are consumed */
+  readonly chunks: AsyncIterable<string>;
+}
+
+/**
+ * Maximum number of tags on a TODO; rule tags a SARIF import would add beyond it are dropped.
+ */
+const MAX_SARIF_TODO_TAGS = 20;
+
+/**
+ * Change planned by a SARIF import for one finding or TODO.
+ */
+interface SarifImportChange {
+  /** Reported change */
+  item: SarifImportItem;
+  /** TODO before the change (null when it is created) */
+  before: Todo | null;
+  /** Write that applies the change; absent when nothing is written */
+  operation?: TodoBulkOperation;
+}
+
 /**
  * Service layer for TODO item business logic.
  *
@@ -27,10 +132,28 @@ import { FieldValidators } from './validators/field-validators';
 export class TodosService {
   private readonly logger: Logger;
   private readonly repository: TodosRepository;
+  private readonly statusTransitions: TodoStatusTransitionRules;
+  private readonly auditRepository?: TodoAuditRepository;
+  private readonly commentsRepository?: TodoCommentsRepository;
+  private readonly customFieldsRepository?: TodoCustomFieldsRepository;
+  private readonly wipLimits: TodoWipLimits;
 
-  constructor(logger: Logger, repository: TodosRepository) {
+  constructor(
+    logger: Logger,
+    repository: TodosRepository,
+    statusTransitions: TodoStatusTransitionRules = DEFAULT_TODO_STATUS_TRANSITIONS,
+    auditRepository?: TodoAuditRepository,
+    commentsRepository?: TodoCommentsRepository,
+    customFieldsRepository?: TodoCustomFieldsRepository,
+    wipLimits: TodoWipLimits = DEFAULT_TODO_WIP_LIMITS
+  ) {
     this.logger = logger;
     this.repository = repository;
+    this.statusTransitions = statusTransitions;
+    this.auditRepository = auditRepository;
+    this.commentsRepository = commentsRepository;
+    this.customFieldsRepository = customFieldsRepository;
+    this.wipLimits = wipLimits;
   }
 
   /**
@@ -38,8 +161,12 @@ export class TodosService {
    *
    * @param client - OpenSearch client with request-scoped permissions
    * @param request - TODO creation request with required fields
+   * @param actor - Username recorded in the TODO's history
    * @returns Created TODO with generated ID and timestamps
-   * @throws {ValidationError} If request validation fails
+   * @throws {ValidationError} If request validation fails, a custom field value does not match
+   *   the registry, or the parent or a blocking TODO does not exist
+   * @throws {BusinessRuleError} If the parent TODO is already nested too deeply,
+   *   or the initial status requires blockers that are not done
    * @throws {IndexError} If OpenSearch operation fails
    *
    * @example
@@ -52,12 +179,27 @@ export class TodosService {
    * });
    * ```
    */
-  async create(client: TodoOpenSearchClient, request: CreateTodoRequest): Promise<Todo> {
-    this.validateCreateRequest(request);
+  async create(
+    client: TodoOpenSearchClient,
+    request: CreateTodoRequest,
+    actor: string = UNKNOWN_ACTOR
+  ): Promise<Todo> {
+    const customFields = await this.getCustomFields(client);
+    this.validateCreateRequest(request, customFields);
+    if (request.parentId) {
+      await this.validateParent(client, null, request.parentId);
+    }
+    if (request.blockedBy && request.blockedBy.length > 0) {
+      await this.validateBlockers(client, null, request.blockedBy);
+      await this.validateNotBlocked(client, request.blockedBy, request.status || 'planned');
+    }
     const now = new Date().toISOString();
     const document = TodosMapper.toCreateDocument(request, now);
     this.logger.debug(`Creating TODO: ${request.title}`);
-    return this.repository.create(client, document);
+    const todo = await this.repository.create(client, document);
+    await this.recordHistory(client, todo.id, 'create', null, todo, actor, now);
+    const [withBlockers] = await this.attachBlockers(client, [todo]);
+    return withBlockers;
   }
 
   /**
@@ -65,14 +207,18 @@ export class TodosService {
    *
    * @param client - OpenSearch client with request-scoped permissions
    * @param id - Unique identifier of the TODO item
-   * @returns TODO item with the specified ID
+   * @returns TODO item with the specified ID, including its subtask progress and comment count
    * @throws {ValidationError} If ID is invalid
    * @throws {NotFoundError} If TODO with the specified ID does not exist
    * @throws {IndexError} If OpenSearch operation fails
    */
   async getById(client: TodoOpenSearchClient, id: string): Promise<Todo> {
     this.validateId(id);
-    return this.repository.getById(client, id);
+    const todo = await this.repository.getById(client, id);
+    const [withProgress] = await this.attachChildProgress(client, [todo]);
+    const [withBlockers] = await this.attachBlockers(client, [withProgress]);
+    const [withComments] = await this.attachCommentCounts(client, [withBlockers]);
+    return withComments;
   }
 
   /**
@@ -81,6 +227,8 @@ export class TodosService {
    * @param client - OpenSearch client with request-scoped permissions
    * @param params - Query parameters for filtering, pagination, and sorting
    * @returns Paginated list of TODO items matching the query
+   * @throws {ValidationError} If the search query has a syntax error, or a custom field filter
+   *   is malformed or targets an undefined field
    * @throws {IndexError} If OpenSearch operation fails
    *
    * @example
@@ -96,7 +244,11 @@ export class TodosService {
    * ```
    */
   async list(client: TodoOpenSearchClient, params: ListTodosQueryParams): Promise<ListTodosResponse> {
-    const searchParams = this.buildSearchParams(params);
+    const customFilters = await this.resolveCustomFilters(client, params.custom);
+    const searchParams = await this.resolveBlockedFilter(
+      client,
+      this.buildSearchParams(params, customFilters)
+    );
     const result = await this.repository.search(client, searchParams);
     const page = Math.max(1, params.page || 1);
     const pageSize = Math.min(MAX_PAGE_SIZE, Math.max(1, params.pageSize || DEFAULT_PAGE_SIZE));
@@ -109,27 +261,449 @@ export class TodosService {
       hasNextPage: page < totalPages,
       hasPreviousPage: page > 1,
     };
+    const withProgress = await this.attachChildProgress(client, result.todos);
+    const withBlockers = await this.attachBlockers(client, withProgress);
     return {
-      todos: result.todos,
+      todos: await this.attachCommentCounts(client, withBlockers),
       pagination,
     };
   }
 
+  /**
+   * Loads the columns of the Kanban board: the first TODOs of each status and their totals.
+   *
+   * @param client - OpenSearch client with request-scoped permissions
+   * @param params - List filters, plus the number of TODOs per column and to skip
+   * @returns One column per status, in workflow order; only the filtered statuses if any
+   * @throws {ValidationError} If the search query has a syntax error, or a custom field filter
+   *   is malformed or targets an undefined field
+   * @throws {IndexError} If OpenSearch operation fails
+   *
+   * @remarks
+   * Each column holds at most `columnSize` TODOs (default `DEFAULT_BOARD_COLUMN_SIZE`),
+   * ranked ones first in rank order, then newest first. `offset` skips as many TODOs in
+   * every column, so a single column can be extended by requesting only its status.
+   *
+   * @example
+   * ```typescript
+   * // The next 20 TODOs in progress
+   * const { columns } = await service.board(client, {
+   *   status: 'in_progress',
+   *   offset: 20,
+   * });
+   * ```
+   */
+  async board(
+    client: TodoOpenSearchClient,
+    params: GetTodoBoardQueryParams
+  ): Promise<GetTodoBoardResponse> {
+    const customFilters = await this.resolveCustomFilters(client, params.custom);
+    const searchParams = await this.resolveBlockedFilter(
+      client,
+      this.buildSearchParams(params, customFilters)
+    );
+    const requested = params.status === undefined ? [] : ([] as TodoStatus[]).concat(params.status);
+    const statuses = TODO_STATUS_VALUES.filter(
+      (status) => requested.length === 0 || requested.includes(status)
+    );
+    const columnSize = Math.min(
+      MAX_PAGE_SIZE,
+      Math.max(1, params.columnSize || DEFAULT_BOARD_COLUMN_SIZE)
+    );
+    const offset = Math.min(MAX_BOARD_OFFSET, Math.max(0, params.offset || 0));
+    const results = await this.repository.searchByStatus(
+      client,
+      searchParams,
+      statuses,
+      offset,
+      columnSize
+    );
+
+    // Enrich the TODOs of all columns at once, then put them back in their columns
+    const loaded = ([] as Todo[]).concat(...results.map((result) => result.todos));
+    const withProgress = await this.attachChildProgress(client, loaded);
+    const withBlockers = await this.attachBlockers(client, withProgress);
+    const enriched = await this.attachCommentCounts(client, withBlockers);
+    let next = 0;
+    return {
+      columns: results.map((result, index) => {
+        const todos = enriched.slice(next, next + result.todos.length);
+        next += result.todos.length;
+        return { status: statuses[index], todos, total: result.total };
+      }),
+    };
+  }
+
+  /**
+   * Exports every TODO matching the list filters, regardless of page size.
+   *
+   * @param client - OpenSearch client with request-scoped permissions
+   * @param params - List filters and sorting, plus the export format and columns
+   * @returns The export, whose chunks stream matching TODOs in batches
+   * @throws {ValidationError} If a column, the search query or a custom field filter is invalid
+   * @throws {IndexError} If OpenSearch operation fails while the chunks are read
+   *
+   * @remarks
+   * Parameters are validated before any chunk is produced, so errors surface
+   * before the response starts. Without `columns`, all built-in columns are
+   * exported followed by one `custom.<key>` column per defined custom field.
+   *
+   * @example
+   * ```typescript
+   * const { chunks } = await service.export(client, {
+   *   status: ['planned'],
+   *   format: 'csv',
+   *   columns: ['id', 'title', 'custom.ticket'],
+   * });
+   * ```
+   */
+  async export(client: TodoOpenSearchClient, params: ExportTodosQueryParams): Promise<TodoExport> {
+    const format = params.format || 'csv';
+    const customFields = await this.getCustomFields(client);
+    const columns = params.columns || [
+      ...TODO_EXPORT_COLUMNS,
+      ...customFields.map((field) => `custom.${field.key}`),
+    ];
+    FieldValidators.validateExportColumns(columns, customFields);
+
+    const customFilters = await this.resolveCustomFilters(client, params.custom);
+    const searchParams = await this.resolveBlockedFilter(
+      client,
+      this.buildSearchParams(params, customFilters)
+    );
+    this.logger.debug(`Exporting TODOs as ${format} with ${columns.length} columns`);
+    return {
+      format,
+      columns,
+      chunks: TodoExportMapper.serialize(this.repository.scan(client, searchParams), format, columns),
+    };
+  }
+
+  /**
+   * Builds the iCalendar feed of the TODOs with a due date that match the list filters.
+   *
+   * @param client - OpenSearch client with request-scoped permissions
+   * @param params - List filters, e.g. `assignee` for a personal feed
+   * @returns Text chunks of the feed, read lazily from the index as they are consumed
+   * @throws {ValidationError} If the search query or a custom field filter is invalid
+   * @throws {IndexError} If OpenSearch operation fails while the chunks are read
+   *
+   * @remarks
+   * TODOs are ordered by due date. Like {@link TodosService.export}, parameters are
+   * validated before any chunk is produced.
+   */
+  async calendar(
+    client: TodoOpenSearchClient,
+    params: TodoCalendarQueryParams
+  ): Promise<AsyncIterable<string>> {
+    const customFilters = await this.resolveCustomFilters(client, params.custom);
+    const searchParams = await this.resolveBlockedFilter(client, {
+      ...this.buildSearchParams(params, customFilters),
+      hasDueDate: true,
+      sortField: 'dueDate',
+      sortDirection: 'asc',
+    });
+    this.logger.debug('Building iCalendar feed of TODO due dates');
+    return TodoCalendarMapper.serialize(
+      this.repository.scan(client, searchParams),
+      new Date().toISOString()
+    );
+  }
+
+  /**
+   * Creates TODO items from the rows of a CSV or JSON file.
+   *
+   * @param client - OpenSearch client with request-scoped permissions
+   * @param request - File content, format, column mapping and dry-run flag
+   * @param actor - Username recorded in the created TODOs' history
+   * @returns Counts, per-row errors with line numbers, and a preview of the valid rows
+   * @throws {ValidationError} If the file is empty, malformed or has more than
+   *   `MAX_IMPORT_ROWS` rows, or the column mapping is invalid
+   * @throws {IndexError} If OpenSearch operation fails
+   *
+   * @remarks
+   * - Each row goes through the same validation as {@link TodosService.create}
+   * - Rows are independent: invalid rows are reported and the valid ones are created
+   * - A dry run validates every row and creates nothing
+   * - Valid rows are indexed in batches of `MAX_BULK_ACTIONS`; if a whole batch fails,
+   *   the TODOs of earlier batches stay created
+   *
+   * @example
+   * ```typescript
+   * const result = await service.importTodos(client, {
+   *   format: 'csv',
+   *   content: 'Summary,Owner\nRotate keys,alice\n',
+   *   mapping: { Summary: 'title', Owner: 'assignee' },
+   *   dryRun: true,
+   * });
+   * ```
+   */
+  async importTodos(
+    client: TodoOpenSearchClient,
+    request: ImportTodosRequest,
+    actor: string = UNKNOWN_ACTOR
+  ): Promise<ImportTodosResponse> {
+    if (!request.content || request.content.trim().length === 0) {
+      throw new ValidationError('The import file is empty', { field: 'content' });
+    }
+    let table: TodoImportTable;
+    try {
+      table = TodoImportMapper.parse(request.content, request.format);
+    } catch (error) {
+      throw new ValidationError(
+        `The import file is not valid ${request.format.toUpperCase()}: ${(error as Error).message}`,
+        { field: 'content', format: request.format }
+      );
+    }
+    if (table.rows.length > MAX_IMPORT_ROWS) {
+      throw new ValidationError(`Cannot import more than ${MAX_IMPORT_ROWS} rows`, {
+        field: 'content',
+        maxRows: MAX_IMPORT_ROWS,
+        actualRows: table.rows.length,
+      });
+    }
+
+    const customFields = await this.getCustomFields(client);
+    const mapping =
+      request.mapping ||
+      getDefaultImportMapping(
+        table.columns,
+        customFields.map((field) => field.key)
+      );
+    FieldValidators.validateImportMapping(mapping, table.columns, customFields);
+
+    const errors: TodoImportRowError[] = [];
+    const accepted: Array<{ row: number; line: number; todo: CreateTodoRequest }> = [];
+    for (const row of table.rows) {
+      const todo = TodoImportMapper.toCreateRequest(row.values, mapping, customFields);
+      try {
+        this.validateCreateRequest(todo, customFields);
+        await this.validateBulkRelations(client, { action: 'create', todo }, new Map());
+        accepted.push({ row: row.row, line: row.line, todo });
+      } catch (error) {
+        errors.push({ row: row.row, line: row.line, error: this.toErrorResponse(error) });
+      }
+    }
+
+    let imported = 0;
+    if (!request.dryRun) {
+      const now = new Date().toISOString();
+      for (let start = 0; start < accepted.length; start += MAX_BULK_ACTIONS) {
+        const batch = accepted.slice(start, start + MAX_BULK_ACTIONS);
+        const documents = batch.map(({ todo }) => TodosMapper.toCreateDocument(todo, now));
+        const outcomes = await this.repository.bulk(
+          client,
+          documents.map((document): TodoBulkOperation => ({ type: 'create', document }))
+        );
+        for (let i = 0; i < outcomes.length; i++) {
+          const outcome = outcomes[i];
+          const { row, line } = batch[i];
+          if (!outcome.success) {
+            errors.push({ row, line, error: outcome.error.toJSON() });
+            continue;
+          }
+          const todo = TodosMapper.fromOpenSearchHit({ _id: outcome.id, _source: documents[i] });
+          await this.recordHistory(client, outcome.id, 'create', null, todo, actor, now);
+          imported++;
+        }
+      }
+      errors.sort((a, b) => a.row - b.row);
+      this.logger.info(
+        `Import by '${actor}' created ${imported} of ${table.rows.length} TODOs ` +
+          `(${errors.length} rows rejected)`
+      );
+    }
+
+    return {
+      dryRun: request.dryRun === true,
+      columns: table.columns,
+      mapping,
+      total: table.rows.length,
+      valid: accepted.length,
+      imported,
+      errors,
+      preview: accepted.slice(0, IMPORT_PREVIEW_SIZE).map(({ todo }) => todo),
+    };
+  }
+
+  /**
+   * Creates, updates and closes TODOs from the findings of a SARIF log.
+   *
+   * @param client - OpenSearch client with request-scoped permissions
+   * @param request - SARIF log, lowest level that gets a TODO, and dry-run flag
+   * @param actor - Username recorded in the history of the changed TODOs
+   * @returns Runs of the log, number of changes per action, and the change for every finding
+   * @throws {ValidationError} If the log is empty, is not valid SARIF 2.1.0,
+   *   or holds more findings than one import accepts
+   * @throws {IndexError} If OpenSearch operation fails
+   *
+   * @remarks
+   * - A finding is matched to a TODO by tool, category and fingerprint, so importing
+   *   a log again updates the TODOs instead of duplicating them
+   * - Updates replace the title, description and severity, and add the rule's tags
+   * - Findings below `minLevel` get no TODO but still count as reported
+   * - When a newer run of the same tool and category no longer reports a finding, its TODO
+   *   is marked done; a done TODO whose finding is reported again is reopened as planned.
+   *   These status changes follow the scanner, not the configured workflow
+   * - A run older than the last run that reported a finding leaves its TODO unchanged
+   * - A run without a `results` array closes nothing
+   * - Findings that fail validation, like any other change that fails, are reported
+   *   with an error and the rest of the import is applied
+   *
+   * @example
+   * ```typescript
+   * const result = await service.importSarif(client, {
+   *   content: fs.readFileSync('results.sarif', 'utf8'),
+   *   minLevel: 'warning',
+   * });
+   * ```
+   */
+  async importSarif(
+    client: TodoOpenSearchClient,
+    request: ImportSarifRequest,
+    actor: string = UNKNOWN_ACTOR
+  ): Promise<ImportSarifResponse> {
+    if (!request.content || request.content.trim().length === 0) {
+      throw new ValidationError('The SARIF log is empty', { field: 'content' });
+    }
+    let runs: SarifRun[];
+    try {
+      runs = TodoSarifMapper.parse(request.content);
+    } catch (error) {
+      throw new ValidationError(`The SARIF log is not valid: ${(error as Error).message}`, {
+        field: 'content',
+      });
+    }
+    const findingCount = runs.reduce((sum, run) => sum + run.findings.length, 0);
+    if (findingCount > MAX_IMPORT_ROWS) {
+      throw new ValidationError(`Cannot import more than ${MAX_IMPORT_ROWS} findings`, {
+        field: 'content',
+        maxFindings: MAX_IMPORT_ROWS,
+        actualFindings: findingCount,
+      });
+    }
+
+    const minLevel = SARIF_LEVEL_VALUES.indexOf(request.minLevel || 'note');
+    const customFields = await this.getCustomFields(client);
+    const now = new Date().toISOString();
+    const changes: SarifImportChange[] = [];
+    for (let runIndex = 0; runIndex < runs.length; runIndex++) {
+      const run = runs[runIndex];
+      const seenAt = run.time || now;
+      const tracked = new Map<string, Todo>();
+      for await (const batch of this.repository.scan(client, {
+        finding: { tool: run.tool, category: run.category },
+      })) {
+        batch.forEach((todo) => todo.finding && tracked.set(todo.finding.fingerprint, todo));
+      }
+      const reported = new Set<string>();
+      for (const finding of run.findings) {
+        if (reported.has(finding.fingerprint)) {
+          continue;
+        }
+        reported.add(finding.fingerprint);
+        if (SARIF_LEVEL_VALUES.indexOf(finding.level) < minLevel) {
+          continue;
+        }
+        const existing = tracked.get(finding.fingerprint) ?? null;
+        changes.push(
+          this.planSarifFinding(finding, run, runIndex, existing, seenAt, now, customFields)
+        );
+      }
+      if (!run.complete) {
+        continue;
+      }
+      for (const todo of tracked.values()) {
+        const finding = todo.finding!;
+        const missing = !reported.has(finding.fingerprint) && finding.lastSeenAt < seenAt;
+        if (missing && todo.status !== 'done') {
+          changes.push(this.planSarifClose(todo, run, runIndex, now));
+        }
+      }
+    }
+
+    if (!request.dryRun) {
+      const pending = changes.filter((change) => change.operation && !change.item.error);
+      for (let start = 0; start < pending.length; start += MAX_BULK_ACTIONS) {
+        const batch = pending.slice(start, start + MAX_BULK_ACTIONS);
+        const outcomes = await this.repository.bulk(
+          client,
+          batch.map((change) => change.operation!)
+        );
+        for (let i = 0; i < outcomes.length; i++) {
+          const outcome = outcomes[i];
+          const { item, before, operation } = batch[i];
+          if (!outcome.success) {
+            item.error = outcome.error.toJSON();
+            continue;
+          }
+          item.id = outcome.id;
+          if (operation!.type === 'create') {
+            const todo = TodosMapper.fromOpenSearchHit({
+              _id: outcome.id,
+              _source: operation!.document,
+            });
+            await this.recordHistory(client, outcome.id, 'create', null, todo, actor, now);
+          } else if (operation!.type === 'update' && before) {
+            const todo = TodosMapper.mergeUpdate(before, operation!.document, outcome.id);
+            await this.recordHistory(client, outcome.id, 'update', before, todo, actor, now);
+          }
+        }
+      }
+    }
+
+    const summary: Record<SarifImportAction | 'failed', number> = {
+      create: 0,
+      update: 0,
+      reopen: 0,
+      close: 0,
+      unchanged: 0,
+      failed: 0,
+    };
+    changes.forEach(({ item }) => summary[item.error ? 'failed' : item.action]++);
+    if (!request.dryRun) {
+      this.logger.info(
+        `SARIF import by '${actor}': ${summary.create} created, ${summary.update} updated, ` +
+          `${summary.reopen} reopened, ${summary.close} closed, ${summary.failed} failed`
+      );
+    }
+    return {
+      dryRun: request.dryRun === true,
+      runs: runs.map((run) => ({
+        tool: run.tool,
+        ...(run.category && { category: run.category }),
+        findings: run.findings.length,
+      })),
+      summary,
+      items: changes.map(({ item }) => item),
+    };
+  }
+
   /**
    * Updates an existing TODO item with partial updates.
    *
    * @param client - OpenSearch client with request-scoped permissions
    * @param id - Unique identifier of the TODO item to update
    * @param request - Update request with fields to modify (partial update)
+   * @param actor - Username recorded in the TODO's history
    * @returns Updated TODO item with new values
-   * @throws {ValidationError} If ID or update request is invalid
+   * @throws {ValidationError} If ID or update request is invalid, or the new parent or a blocking TODO does not exist
    * @throws {NotFoundError} If TODO with the specified ID does not exist
+   * @throws {BusinessRuleError} If the status change is not allowed by the configured workflow,
+   *   the new parent would create a cycle or nest subtasks too deeply, the new blockers would
+   *   create a cycle, or the new status requires blockers that are not done
+   * @throws {ConflictError} If `request.version` no longer matches the stored TODO
    * @throws {IndexError} If OpenSearch operation fails
    *
    * @remarks
+   * - When `request.version` is provided, the update only applies if the TODO is unchanged
+   * - Status changes must follow the configured transition graph
+   * - Moving to a status in `TODO_BLOCKED_STATUSES` requires every blocker to be done
    * - Automatically manages completedAt timestamp based on status transitions
    * - Sets completedAt when status changes to 'done'
    * - Clears completedAt when status changes from 'done' to another status
+   * - Completing a recurring TODO creates its next occurrence
+   * - Custom field values are merged: keys left out of `request.custom` are kept
    *
    * @example
    * ```typescript
@@ -142,18 +716,47 @@ export class TodosService {
   async update(
     client: TodoOpenSearchClient,
     id: string,
-    request: UpdateTodoRequest
+    request: UpdateTodoRequest,
+    actor: string = UNKNOWN_ACTOR
   ): Promise<Todo> {
     this.validateId(id);
-    this.validateUpdateRequest(request);
+    const customFields =
+      request.custom !== undefined ? await this.getCustomFields(client) : [];
+    this.validateUpdateRequest(request, customFields);
     const existingTodo = await this.repository.getById(client, id);
-    if (request.status !== undefined) {
-      this.validateStatusTransition(existingTodo.status, request.status);
+    this.validateVersion(existingTodo, request.version);
+    this.validateUpdatedDates(existingTodo, request);
+    if (request.status !== undefined && request.status !== existingTodo.status) {
+      this.validateStatusTransition(existingTodo.status, request.status, request.statusReason);
     }
+    if (request.parentId && request.parentId !== existingTodo.parentId) {
+      await this.validateParent(client, id, request.parentId);
+    }
+    if (request.blockedBy !== undefined) {
+      await this.validateBlockers(client, id, request.blockedBy, existingTodo.blockedBy);
+    }
+    if (request.status !== undefined && request.status !== existingTodo.status) {
+      await this.validateNotBlocked(
+        client,
+        request.blockedBy ?? existingTodo.blockedBy,
+        request.status
+      );
+    }
+    await this.validateWipLimits(client, existingTodo, request);
     const now = new Date().toISOString();
     const updateDocument = TodosMapper.toUpdateDocument(request, existingTodo, now);
-    await this.repository.update(client, id, updateDocument);
-    return TodosMapper.mergeUpdate(existingTodo, updateDocument, id);
+    const version = await this.repository.update(client, id, updateDocument, request.version);
+    const updatedTodo = TodosMapper.mergeUpdate(existingTodo, updateDocument, id, version);
+    await this.recordHistory(client, id, 'update', existingTodo, updatedTodo, actor, now);
+    const scheduledTodo = await this.scheduleNextOccurrence(
+      client,
+      existingTodo,
+      updatedTodo,
+      actor,
+      now
+    );
+    const [withBlockers] = await this.attachBlockers(client, [scheduledTodo]);
+    return withBlockers;
   }
 
   /**
@@ -161,24 +764,729 @@ export class TodosService {
    *
    * @param client - OpenSearch client with request-scoped permissions
    * @param id - Unique identifier of the TODO item to delete
+   * @param actor - Username recorded in the TODO's history
    * @returns True if the TODO was successfully deleted
    * @throws {ValidationError} If ID is invalid
    * @throws {NotFoundError} If TODO with the specified ID does not exist
    * @throws {IndexError} If OpenSearch operation fails
+   *
+   * @remarks
+   * Subtasks of the deleted TODO are kept and become top-level TODOs.
    */
-  async delete(client: TodoOpenSearchClient, id: string): Promise<boolean> {
+  async delete(
+    client: TodoOpenSearchClient,
+    id: string,
+    actor: string = UNKNOWN_ACTOR
+  ): Promise<boolean> {
     this.validateId(id);
-    return this.repository.delete(client, id);
+    const existingTodo = this.auditRepository ? await this.repository.getById(client, id) : null;
+    const deleted = await this.repository.delete(client, id);
+    if (deleted) {
+      const now = new Date().toISOString();
+      await this.recordHistory(client, id, 'delete', existingTodo, null, actor, now);
+      await this.detachChildren(client, id, now);
+      await this.deleteComments(client, id);
+    }
+    return deleted;
+  }
+
+  /**
+   * Creates, updates and deletes several TODO items in one request.
+   *
+   * @param client - OpenSearch client with request-scoped permissions
+   * @param request - Bulk request with the actions to apply
+   * @param actor - Username recorded in the history of every changed TODO
+   * @returns Per-action results and a summary
+   * @throws {ValidationError} If the request has no actions or more than `MAX_BULK_ACTIONS`
+   * @throws {IndexError} If the bulk request as a whole fails
+   *
+   * @remarks
+   * - Each action goes through the same validation and business rules as the single-item endpoints
+   * - Work-in-progress limits also count the TODOs that earlier actions of the request move
+   *   into the same column
+   * - Actions are independent: invalid or failing actions are reported without affecting the others
+   * - A TODO may be targeted by at most one update/delete action per request
+   *
+   * @example
+   * ```typescript
+   * const result = await service.bulk(client, {
+   *   actions: [
+   *     { action: 'update', id: 'abc', changes: { status: 'done' } },
+   *     { action: 'delete', id: 'def' },
+   *   ],
+   * });
+   * ```
+   */
+  async bulk(
+    client: TodoOpenSearchClient,
+    request: BulkTodosRequest,
+    actor: string = UNKNOWN_ACTOR
+  ): Promise<BulkTodosResponse> {
+    const actions = request.actions || [];
+    if (actions.length === 0) {
+      throw new ValidationError('At least one bulk action must be provided', { field: 'actions' });
+    }
+    if (actions.length > MAX_BULK_ACTIONS) {
+      throw new ValidationError(`Cannot process more than ${MAX_BULK_ACTIONS} bulk actions`, {
+        field: 'actions',
+        maxActions: MAX_BULK_ACTIONS,
+      });
+    }
+    const targetIds = new Set<string>();
+    for (const action of actions) {
+      if (action.action !== 'create' && action.id && action.id.trim()) {
+        targetIds.add(action.id);
+      }
+    }
+    const existingTodos =
+      targetIds.size > 0
+        ? await this.repository.getByIds(client, [...targetIds])
+        : new Map<string, Todo>();
+    const needsCustomFields = actions.some(
+      (action) =>
+        action.action === 'create' ||
+        (action.action === 'update' && action.changes?.custom !== undefined)
+    );
+    const customFields = needsCustomFields ? await this.getCustomFields(client) : [];
+    // Parent and blocker checks read other TODOs, so they run before the synchronous preparation below
+    const relationErrors = new Map<number, unknown>();
+    for (let index = 0; index < actions.length; index++) {
+      try {
+        await this.validateBulkRelations(client, actions[index], existingTodos);
+      } catch (error) {
+        relationErrors.set(index, error);
+      }
+    }
+    const now = new Date().toISOString();
+    const results: BulkTodoItemResult[] = new Array(actions.length);
+    const operations: TodoBulkOperation[] = [];
+    const pending: Array<{ index: number; before: Todo | null }> = [];
+    const seenIds = new Set<string>();
+    // Moves into limited columns made by the actions accepted so far
+    const wipMoves = new Map<string, number>();
+    for (let index = 0; index < actions.length; index++) {
+      const action = actions[index];
+      try {
+        if (relationErrors.has(index)) {
+          throw relationErrors.get(index);
+        }
+        const before = this.prepareBulkAction(
+          action,
+          existingTodos,
+          customFields,
+          seenIds,
+          now,
+          operations
+        );
+        if (action.action === 'update' && before) {
+          try {
+            await this.validateWipLimits(client, before, action.changes, wipMoves);
+          } catch (error) {
+            operations.pop();
+            throw error;
+          }
+        }
+        pending.push({ index, before });
+      } catch (error) {
+        results[index] = {
+          index,
+          action: action.action,
+          ...(action.action !== 'create' && { id: action.id }),
+          success: false,
+          error: this.toErrorResponse(error),
+        };
+      }
+    }
+    const outcomes = operations.length > 0 ? await this.repository.bulk(client, operations) : [];
+    for (let i = 0; i < outcomes.length; i++) {
+      const outcome = outcomes[i];
+      const operation = operations[i];
+      const { index, before } = pending[i];
+      const action = actions[index].action;
+      if (!outcome.success) {
+        results[index] = {
+          index,
+          action,
+          ...(outcome.id && { id: outcome.id }),
+          success: false,
+          error: outcome.error.toJSON(),
+        };
+        continue;
+      }
+      let todo: Todo | undefined;
+      if (operation.type === 'create') {
+        todo = {
+          ...TodosMapper.fromOpenSearchHit({ _id: outcome.id, _source: operation.document }),
+          version: outcome.version,
+        };
+      } else if (operation.type === 'update' && before) {
+        todo = TodosMapper.mergeUpdate(before, operation.document, outcome.id, outcome.version);
+      }
+      await this.recordHistory(client, outcome.id, action, before, todo ?? null, actor, now);
+      if (operation.type === 'update' && before && todo) {
+        todo = await this.scheduleNextOccurrence(client, before, todo, actor, now);
+      }
+      if (operation.type === 'delete') {
+        await this.detachChildren(client, outcome.id, now);
+        await this.deleteComments(client, outcome.id);
+      }
+      results[index] = { index, action, id: outcome.id, success: true, ...(todo && { todo }) };
+    }
+    const succeeded = results.filter((result) => result.success).length;
+    this.logger.debug(`Bulk request: ${succeeded} of ${actions.length} actions applied`);
+    return {
+      results,
+      summary: {
+        total: actions.length,
+        succeeded,
+        failed: actions.length - succeeded,
+      },
+    };
+  }
+
+  /**
+   * Sets the same fields on every TODO item matching a filter.
+   *
+   * @param client - OpenSearch client with request-scoped permissions
+   * @param request - Filters, patch and dry-run flag
+   * @param actor - Username recorded in each TODO's history and in the server log
+   * @returns Counts of matched, skipped and updated TODOs
+   * @throws {ValidationError} If the patch is empty, any field fails validation,
+   *   the search query has a syntax error, or a custom field filter is invalid
+   * @throws {BusinessRuleError} If the patch sets a status that requires a reason without one,
+   *   or moves TODOs into a column or to an assignee with an enforced work-in-progress limit
+   * @throws {IndexError} If OpenSearch operation fails
+   *
+   * @remarks
+   * - Filters have the same meaning as in {@link TodosService.list}
+   * - When the patch sets a status, TODOs whose current status cannot move to it
+   *   under the configured workflow are skipped
+   * - When the patch sets a status that requires finished blockers, blocked TODOs are skipped
+   * - A dry run only counts matching TODOs and changes nothing
+   * - Matching TODOs are read and updated in batches of `MAX_BULK_ACTIONS`, each with the
+   *   version it was read at; TODOs changed in the meantime count as version conflicts
+   * - Each updated TODO gets a history entry, and recurring TODOs completed this way
+   *   get their next occurrence created, as with {@link TodosService.update}
+   *
+   * @example
+   * ```typescript
+   * const result = await service.updateByQuery(client, {
+   *   filters: { complianceFrameworks: ['PCI-DSS'], tags: ['network'], status: ['planned', 'in_progress'] },
+   *   patch: { assignee: 'alice' },
+   *   dryRun: true,
+   * });
+   * ```
+   */
+  async updateByQuery(
+    client: TodoOpenSearchClient,
+    request: UpdateTodosByQueryRequest,
+    actor: string = UNKNOWN_ACTOR
+  ): Promise<UpdateTodosByQueryResponse> {
+    const patch = request.patch || {};
+    this.validatePatch(patch);
+    this.validatePatchWipLimits(patch);
+    const dryRun = request.dryRun === true;
+    const filters = request.filters || {};
+    const customFilters = await this.resolveCustomFilters(client, filters.custom);
+    const searchParams = await this.resolveBlockedFilter(
+      client,
+      this.buildSearchParams(filters, customFilters)
+    );
+    let targetParams = this.restrictToAllowedSources(searchParams, patch.status);
+    if (targetParams && patch.status && TODO_BLOCKED_STATUSES.includes(patch.status)) {
+      targetParams = targetParams.isBlocked
+        ? null
+        : await this.resolveBlockedFilter(client, { ...targetParams, isBlocked: false });
+    }
+    const matched = await this.repository.count(client, searchParams);
+    let eligible = 0;
+    if (targetParams === searchParams) {
+      eligible = matched;
+    } else if (targetParams) {
+      eligible = await this.repository.count(client, targetParams);
+    }
+    const fields = Object.keys(patch).join(', ');
+    this.logger.info(
+      `Update by query${dryRun ? ' (dry run)' : ''} by '${actor}' setting [${fields}]: ` +
+        `${matched} matched, ${matched - eligible} skipped by workflow or blockers`
+    );
+    const response: UpdateTodosByQueryResponse = {
+      dryRun,
+      matched,
+      skipped: matched - eligible,
+      updated: 0,
+      versionConflicts: 0,
+      failed: 0,
+    };
+    if (dryRun || !targetParams || eligible === 0) {
+      return response;
+    }
+    const now = new Date().toISOString();
+    for await (const batch of this.repository.scan(
+      client,
+      { ...targetParams, sortField: 'createdAt', sortDirection: 'asc' },
+      MAX_BULK_ACTIONS
+    )) {
+      const documents = batch.map((todo) => TodosMapper.toUpdateDocument(patch, todo, now));
+      const outcomes = await this.repository.bulk(
+        client,
+        batch.map((todo, i) => ({
+          type: 'update',
+          id: todo.id,
+          document: documents[i],
+          expectedVersion: todo.version,
+        }))
+      );
+      for (let i = 0; i < outcomes.length; i++) {
+        const outcome = outcomes[i];
+        const before = batch[i];
+        if (!outcome.success) {
+          if (outcome.error instanceof ConflictError) {
+            response.versionConflicts++;
+          } else {
+            response.failed++;
+          }
+          continue;
+        }
+        response.updated++;
+        const todo = TodosMapper.mergeUpdate(before, documents[i], outcome.id, outcome.version);
+        await this.recordHistory(client, outcome.id, 'update', before, todo, actor, now);
+        await this.scheduleNextOccurrence(client, before, todo, actor, now);
+      }
+    }
+    this.logger.info(
+      `Update by query by '${actor}' updated ${response.updated} of ${eligible} TODOs ` +
+        `(${response.versionConflicts} version conflicts, ${response.failed} failures)`
+    );
+    return response;
+  }
+
+  /**
+   * Gives the ranked TODO items new, evenly spaced ranks in the same order.
+   *
+   * @param client - OpenSearch client with request-scoped permissions
+   * @returns Counts of rebalanced and failed TODOs
+   * @throws {IndexError} If OpenSearch operation fails
+   *
+   * @remarks
+   * Ranks get longer each time a TODO is placed between two close neighbors;
+   * rebalancing makes them short again so that later moves stay cheap.
+   * - Unranked TODOs are left unranked
+   * - Only the rank changes: `updatedAt` is kept and no history is recorded
+   */
+  async rebalanceRanks(client: TodoOpenSearchClient): Promise<RebalanceTodoRanksResponse> {
+    const ranked: Todo[] = [];
+    for await (const batch of this.repository.scan(client, {
+      sortField: 'rank',
+      sortDirection: 'asc',
+    })) {
+      const rankedInBatch = batch.filter((todo) => todo.rank !== undefined);
+      ranked.push(...rankedInBatch);
+      if (rankedInBatch.length < batch.length) {
+        // Unranked TODOs sort last, so the rest of the scan has none
+        break;
+      }
+    }
+    const ranks = evenRanks(ranked.length);
+    const operations: TodoBulkOperation[] = [];
+    ranked.forEach((todo, index) => {
+      if (todo.rank !== ranks[index]) {
+        operations.push({ type: 'update', id: todo.id, document: { rank: ranks[index] } });
+      }
+    });
+    let failed = 0;
+    for (let start = 0; start < operations.length; start += MAX_BULK_ACTIONS) {
+      const outcomes = await this.repository.bulk(
+        client,
+        operations.slice(start, start + MAX_BULK_ACTIONS)
+      );
+      failed += outcomes.filter((outcome) => !outcome.success).length;
+    }
+    this.logger.info(
+      `Rebalanced the ranks of ${ranked.length} TODOs ` +
+        `(${operations.length - failed} changed, ${failed} failures)`
+    );
+    return { rebalanced: operations.length - failed, failed };
+  }
+
+  /**
+   * Lists the direct subtasks of a TODO item with the parent's roll-up progress.
+   *
+   * @param client - OpenSearch client with request-scoped permissions
+   * @param id - Unique identifier of the parent TODO
+   * @param params - Pagination, sorting and filters applied to the subtasks
+   * @returns Paginated subtasks and the progress of all direct subtasks
+   * @throws {ValidationError} If ID is invalid
+   * @throws {NotFoundError} If the parent TODO does not exist
+   * @throws {IndexError} If OpenSearch operation fails
+   */
+  async getChildren(
+    client: TodoOpenSearchClient,
+    id: string,
+    params: ListTodosQueryParams = {}
+  ): Promise<GetTodoChildrenResponse> {
+    this.validateId(id);
+    await this.repository.getById(client, id);
+    const children = await this.list(client, { ...params, parentId: id });
+    const counts = (await this.repository.getChildCounts(client, [id])).get(id);
+    return {
+      ...children,
+      parentId: id,
+      progress: TodosMapper.toChildProgress(counts?.total ?? 0, counts?.done ?? 0),
+    };
+  }
+
+  /**
+   * Retrieves the change history of a TODO item, newest first.
+   *
+   * @param client - OpenSearch client with request-scoped permissions
+   * @param id - Unique identifier of the TODO item
+   * @param params - Pagination parameters
+   * @returns Paginated history entries
+   * @throws {ValidationError} If ID is invalid
+   * @throws {IndexError} If OpenSearch operation fails
+   *
+   * @remarks
+   * History is kept after a TODO is deleted, so this does not require the TODO to exist.
+   */
+  async getHistory(
+    client: TodoOpenSearchClient,
+    id: string,
+    params: TodoHistoryQueryParams = {}
+  ): Promise<GetTodoHistoryResponse> {
+    this.validateId(id);
+    const page = Math.max(1, params.page || 1);
+    const pageSize = Math.min(MAX_PAGE_SIZE, Math.max(1, params.pageSize || DEFAULT_PAGE_SIZE));
+    const result = this.auditRepository
+      ? await this.auditRepository.listByTodoId(client, id, page, pageSize)
+      : { entries: [], total: 0 };
+    const totalPages = Math.ceil(result.total / pageSize);
+    return {
+      todoId: id,
+      entries: result.entries,
+      pagination: {
+        page,
+        pageSize,
+        totalItems: result.total,
+        totalPages,
+        hasNextPage: page < totalPages,
+        hasPreviousPage: page > 1,
+      },
+    };
+  }
+
+  /**
+   * Appends a field-level diff of a TODO change to the audit trail.
+   *
+   * @param client - OpenSearch client with request-scoped permissions
+   * @param todoId - ID of the changed TODO
+   * @param action - Kind of change
+   * @param before - TODO before the change (null on create)
+   * @param after - TODO after the change (null on delete)
+   * @param actor - Username of the user who made the change
+   * @param timestamp - Timestamp of the change in ISO 8601 format
+   * @private
+   *
+   * @remarks
+   * The change itself has already been persisted, so audit failures are logged
+   * rather than surfaced to the caller. Updates that change no tracked field are not recorded.
+   */
+  private async recordHistory(
+    client: TodoOpenSearchClient,
+    todoId: string,
+    action: TodoHistoryAction,
+    before: Todo | null,
+    after: Todo | null,
+    actor: string,
+    timestamp: string
+  ): Promise<void> {
+    if (!this.auditRepository) {
+      return;
+    }
+    const changes = diffTodos(before, after);
+    if (action === 'update' && changes.length === 0) {
+      return;
+    }
+    try {
+      const document = TodoAuditMapper.toDocument(todoId, action, actor, changes, timestamp);
+      await this.auditRepository.append(client, document);
+    } catch (error) {
+      this.logger.error(`Failed to record '${action}' history for TODO '${todoId}'`, error);
+    }
+  }
+
+  /**
+   * Creates the next occurrence of a recurring TODO that has just been completed.
+   *
+   * @param client - OpenSearch client with request-scoped permissions
+   * @param before - The TODO before the update
+   * @param after - The TODO after the update
+   * @param actor - Username recorded in the new occurrence's history
+   * @param now - Timestamp of the update
+   * @returns The updated TODO, linked to its next occurrence when one was created
+   * @private
+   *
+   * @remarks
+   * The next due date is one recurrence period after the completed occurrence's due date
+   * (or after the completion time when it had none). An occurrence is only generated once,
+   * so reopening and completing the TODO again does not create another one.
+   * The update itself has already been persisted, so failures are logged rather than surfaced.
+   */
+  private async scheduleNextOccurrence(
+    client: TodoOpenSearchClient,
+    before: Todo,
+    after: Todo,
+    actor: string,
+    now: string
+  ): Promise<Todo> {
+    const rule = after.recurrence ? parseRecurrenceRule(after.recurrence) : null;
+    if (!rule || after.status !== 'done' || before.status === 'done' || after.nextOccurrenceId) {
+      return after;
+    }
+    try {
+      const dueDate = getNextOccurrenceDate(after.dueDate ?? now, rule);
+      const document = TodosMapper.toNextOccurrenceDocument(after, dueDate, now);
+      const next = await this.repository.create(client, document);
+      await this.recordHistory(client, next.id, 'create', null, next, actor, now);
+      const version = await this.repository.update(client, after.id, {
+        next_occurrence_id: next.id,
+      });
+      this.logger.debug(`Scheduled next occurrence '${next.id}' of recurring TODO '${after.id}'`);
+      return { ...after, nextOccurrenceId: next.id, version };
+    } catch (error) {
+      this.logger.error(`Failed to create the next occurrence of recurring TODO '${after.id}'`, error);
+      return after;
+    }
+  }
+
+  /**
+   * Validates a single bulk action and appends the matching repository operation.
+   *
+   * @param action - Bulk action to prepare
+   * @param existingTodos - Current TODOs targeted by the request, keyed by ID
+   * @param customFields - Custom field definitions used to validate custom values
+   * @param seenIds - IDs already targeted by earlier actions (updated in place)
+   * @param now - Timestamp applied to created/updated documents
+   * @param operations - Operation list to append to
+   * @returns The TODO before the change (null for create)
+   * @throws {ValidationError} If the action is invalid or targets an ID twice
+   * @throws {NotFoundError} If an update/delete targets a missing TODO
+   * @throws {BusinessRuleError} If a status change is not allowed
+   * @throws {ConflictError} If an update's version is stale
+   * @private
+   */
+  private prepareBulkAction(
+    action: BulkTodoAction,
+    existingTodos: Map<string, Todo>,
+    customFields: readonly TodoCustomFieldDefinition[],
+    seenIds: Set<string>,
+    now: string,
+    operations: TodoBulkOperation[]
+  ): Todo | null {
+    switch (action.action) {
+      case 'create': {
+        this.validateCreateRequest(action.todo, customFields);
+        operations.push({ type: 'create', document: TodosMapper.toCreateDocument(action.todo, now) });
+        return null;
+      }
+      case 'update':
+      case 'delete': {
+        this.validateId(action.id);
+        if (seenIds.has(action.id)) {
+          throw new ValidationError('A TODO can only be targeted once per bulk request', {
+            field: 'id',
+            id: action.id,
+          });
+        }
+        seenIds.add(action.id);
+        if (action.action === 'update') {
+          this.validateUpdateRequest(action.changes, customFields);
+        }
+        const existingTodo = existingTodos.get(action.id);
+        if (!existingTodo) {
+          throw new NotFoundError('Todo', action.id);
+        }
+        if (action.action === 'delete') {
+          operations.push({ type: 'delete', id: action.id });
+          return existingTodo;
+        }
+        const changes = action.changes;
+        this.validateVersion(existingTodo, changes.version);
+        this.validateUpdatedDates(existingTodo, changes);
+        if (changes.status !== undefined && changes.status !== existingTodo.status) {
+          this.validateStatusTransition(existingTodo.status, changes.status, changes.statusReason);
+        }
+        operations.push({
+          type: 'update',
+          id: action.id,
+          document: TodosMapper.toUpdateDocument(changes, existingTodo, now),
+          expectedVersion: changes.version,
+        });
+        return existingTodo;
+      }
+      default:
+        throw new ValidationError('Unknown bulk action', { field: 'action' });
+    }
+  }
+
+  /**
+   * Converts an error raised while preparing a bulk action into an API error body.
+   *
+   * @param error - Error to convert
+   * @returns Error response for the failed action
+   * @private
+   */
+  private toErrorResponse(error: unknown) {
+    if (error instanceof AppError) {
+      return error.toJSON();
+    }
+    return new InternalError(error instanceof Error ? error.message : String(error)).toJSON();
+  }
+
+  /**
+   * Plans the change a SARIF finding makes to its TODO.
+   *
+   * @param finding - Finding reported by the run
+   * @param run - Run that reported the finding
+   * @param runIndex - Index of the run in the log
+   * @param existing - TODO tracking the finding, or null when there is none
+   * @param seenAt - Time of the run
+   * @param now - Current timestamp in ISO 8601 format
+   * @param customFields - Custom field definitions new TODOs must satisfy
+   * @returns Change to report and the write that applies it
+   * @private
+   */
+  private planSarifFinding(
+    finding: SarifFinding,
+    run: SarifRun,
+    runIndex: number,
+    existing: Todo | null,
+    seenAt: string,
+    now: string,
+    customFields: readonly TodoCustomFieldDefinition[]
+  ): SarifImportChange {
+    const request = TodoSarifMapper.toCreateRequest(finding, run);
+    const stored = TodosMapper.toFindingDocument(
+      TodoSarifMapper.toTodoFinding(finding, run, seenAt)
+    );
+    const item: SarifImportItem = {
+      action: existing ? 'update' : 'create',
+      ...(existing && { id: existing.id }),
+      title: request.title,
+      severity: request.severity!,
+      ruleId: finding.ruleId,
+      fingerprint: finding.fingerprint,
+      ...(finding.location && { location: finding.location }),
+      run: runIndex,
+      result: finding.result,
+    };
+    try {
+      if (!finding.ruleId) {
+        throw new ValidationError('The result does not name a rule', { field: 'ruleId' });
+      }
+      this.validateCreateRequest(request, customFields);
+    } catch (error) {
+      return { item: { ...item, error: this.toErrorResponse(error) }, before: existing };
+    }
+
+    if (!existing) {
+      const document = { ...TodosMapper.toCreateDocument(request, now), finding: stored };
+      return { item, before: null, operation: { type: 'create', document } };
+    }
+    if (existing.finding!.lastSeenAt > seenAt) {
+      return {
+        item: { ...item, action: 'unchanged', title: existing.title, severity: existing.severity },
+        before: existing,
+      };
+    }
+    const reopen = existing.status === 'done';
+    const tags = [...existing.tags];
+    (request.tags || []).filter((tag) => !tags.includes(tag)).forEach((tag) => tags.push(tag));
+    const document: Partial<TodoDocument> = {
+      ...TodosMapper.toUpdateDocument(
+        {
+          title: request.title,
+          description: request.description,
+          severity: request.severity,
+          tags: tags.slice(0, MAX_SARIF_TODO_TAGS),
+          ...(reopen && { status: 'planned', statusReason: `Reported again by ${run.tool}` }),
+        },
+        existing,
+        now
+      ),
+      finding: stored,
+    };
+    const changed =
+      diffTodos(existing, TodosMapper.mergeUpdate(existing, document, existing.id)).length > 0 ||
+      existing.finding!.location !== finding.location;
+    if (!changed) {
+      // Only the time the finding was last seen moves forward
+      return {
+        item: { ...item, action: 'unchanged' },
+        before: existing,
+        operation: { type: 'update', id: existing.id, document: { finding: stored } },
+      };
+    }
+    return {
+      item: { ...item, action: reopen ? 'reopen' : 'update' },
+      before: existing,
+      operation: { type: 'update', id: existing.id, document },
+    };
+  }
+
+  /**
+   * Plans closing the TODO of a finding that a run no longer reports.
+   *
+   * @param todo - TODO tracking the finding
+   * @param run - Run that no longer reports the finding
+   * @param runIndex - Index of the run in the log
+   * @param now - Current timestamp in ISO 8601 format
+   * @returns Change to report and the write that marks the TODO done
+   * @private
+   */
+  private planSarifClose(
+    todo: Todo,
+    run: SarifRun,
+    runIndex: number,
+    now: string
+  ): SarifImportChange {
+    const finding = todo.finding!;
+    return {
+      item: {
+        action: 'close',
+        id: todo.id,
+        title: todo.title,
+        severity: todo.severity,
+        ruleId: finding.ruleId,
+        fingerprint: finding.fingerprint,
+        ...(finding.location && { location: finding.location }),
+        run: runIndex,
+      },
+      before: todo,
+      operation: {
+        type: 'update',
+        id: todo.id,
+        document: TodosMapper.toUpdateDocument(
+          { status: 'done', statusReason: `No longer reported by ${run.tool}` },
+          todo,
+          now
+        ),
+      },
+    };
   }
 
   /**
    * Validates a create TODO request.
    *
    * @param request - Create request to validate
+   * @param customFields - Custom field definitions the request's custom values must match
    * @throws {ValidationError} If any field fails validation
    * @private
    */
-  private validateCreateRequest(request: CreateTodoRequest): void {
+  private validateCreateRequest(
+    request: CreateTodoRequest,
+    customFields: readonly TodoCustomFieldDefinition[]
+  ): void {
     FieldValidators.validateTitle(request.title, true);
     FieldValidators.validateDescription(request.description);
     FieldValidators.validateStatus(request.status);
@@ -186,18 +1494,27 @@ export class TodosService {
     FieldValidators.validateAssignee(request.assignee);
     FieldValidators.validatePriority(request.priority);
     FieldValidators.validateSeverity(request.severity);
+    FieldValidators.validateStartDate(request.startDate, false);
     FieldValidators.validateDueDate(request.dueDate, false);
+    FieldValidators.validateDateOrder(request.startDate, request.dueDate);
     FieldValidators.validateComplianceFrameworks(request.complianceFrameworks);
+    FieldValidators.validateBlockedBy(request.blockedBy);
+    FieldValidators.validateRecurrence(request.recurrence);
+    FieldValidators.validateCustomFields(request.custom, customFields, true);
   }
 
   /**
    * Validates an update TODO request.
    *
    * @param request - Update request to validate
+   * @param customFields - Custom field definitions the request's custom values must match
    * @throws {ValidationError} If no fields are provided or any field fails validation
    * @private
    */
-  private validateUpdateRequest(request: UpdateTodoRequest): void {
+  private validateUpdateRequest(
+    request: UpdateTodoRequest,
+    customFields: readonly TodoCustomFieldDefinition[]
+  ): void {
     const hasUpdates =
       request.title !== undefined ||
       request.description !== undefined ||
@@ -206,8 +1523,15 @@ export class TodosService {
       request.assignee !== undefined ||
       request.priority !== undefined ||
       request.severity !== undefined ||
+      request.startDate !== undefined ||
       request.dueDate !== undefined ||
-      request.complianceFrameworks !== undefined;
+      request.complianceFrameworks !== undefined ||
+      request.statusReason !== undefined ||
+      request.parentId !== undefined ||
+      request.blockedBy !== undefined ||
+      request.recurrence !== undefined ||
+      request.rank !== undefined ||
+      request.custom !== undefined;
 
     if (!hasUpdates) {
       throw new ValidationError('At least one field must be provided for update');
@@ -220,8 +1544,656 @@ export class TodosService {
     FieldValidators.validateAssignee(request.assignee);
     FieldValidators.validatePriority(request.priority);
     FieldValidators.validateSeverity(request.severity);
+    FieldValidators.validateStartDate(request.startDate, true);
     FieldValidators.validateDueDate(request.dueDate, true);
     FieldValidators.validateComplianceFrameworks(request.complianceFrameworks);
+    FieldValidators.validateStatusReason(request.statusReason);
+    FieldValidators.validateBlockedBy(request.blockedBy);
+    FieldValidators.validateRecurrence(request.recurrence);
+    FieldValidators.validateRank(request.rank);
+    FieldValidators.validateCustomFields(request.custom, customFields, false);
+  }
+
+  /**
+   * Validates that an update does not leave a TODO starting after it is due.
+   *
+   * @param existingTodo - TODO being updated
+   * @param request - Update request to validate
+   * @throws {ValidationError} If the resulting start date is after the resulting due date
+   * @private
+   */
+  private validateUpdatedDates(existingTodo: Todo, request: UpdateTodoRequest): void {
+    FieldValidators.validateDateOrder(
+      request.startDate !== undefined ? request.startDate : existingTodo.startDate,
+      request.dueDate !== undefined ? request.dueDate : existingTodo.dueDate
+    );
+  }
+
+  /**
+   * Validates that a TODO can be placed under a parent TODO.
+   *
+   * @param client - OpenSearch client with request-scoped permissions
+   * @param todoId - ID of the TODO being moved (null for a TODO being created)
+   * @param parentId - ID of the requested parent
+   * @throws {ValidationError} If the parent TODO does not exist
+   * @throws {BusinessRuleError} If the move would create a cycle or exceed `MAX_TODO_HIERARCHY_DEPTH`
+   * @private
+   *
+   * @remarks
+   * Walks up from the requested parent; reaching `todoId` means the TODO would become its own ancestor.
+   */
+  private async validateParent(
+    client: TodoOpenSearchClient,
+    todoId: string | null,
+    parentId: string
+  ): Promise<void> {
+    if (parentId === todoId) {
+      throw new BusinessRuleError('A TODO cannot be its own parent', { field: 'parentId', parentId });
+    }
+    let ancestor: Todo;
+    try {
+      ancestor = await this.repository.getById(client, parentId);
+    } catch (error) {
+      if (error instanceof NotFoundError) {
+        throw new ValidationError(`Parent TODO '${parentId}' does not exist`, {
+          field: 'parentId',
+          parentId,
+        });
+      }
+      throw error;
+    }
+    let parentDepth = 1;
+    while (ancestor.parentId) {
+      if (ancestor.parentId === todoId) {
+        throw new BusinessRuleError('A TODO cannot be moved under one of its own subtasks', {
+          field: 'parentId',
+          parentId,
+        });
+      }
+      parentDepth++;
+      if (parentDepth >= MAX_TODO_HIERARCHY_DEPTH) {
+        break;
+      }
+      try {
+        ancestor = await this.repository.getById(client, ancestor.parentId);
+      } catch (error) {
+        if (error instanceof NotFoundError) {
+          break;
+        }
+        throw error;
+      }
+    }
+    if (parentDepth >= MAX_TODO_HIERARCHY_DEPTH) {
+      throw new BusinessRuleError(
+        `Subtasks cannot be nested more than ${MAX_TODO_HIERARCHY_DEPTH} levels deep`,
+        { field: 'parentId', parentId, maxDepth: MAX_TODO_HIERARCHY_DEPTH }
+      );
+    }
+  }
+
+  /**
+   * Validates the blocking TODOs of a TODO.
+   *
+   * @param client - OpenSearch client with request-scoped permissions
+   * @param todoId - ID of the TODO being updated (null for a TODO being created)
+   * @param blockedBy - Requested blocking TODO IDs
+   * @param existingBlockedBy - Blocking TODO IDs currently stored on the TODO
+   * @throws {ValidationError} If a newly added blocking TODO does not exist
+   * @throws {BusinessRuleError} If the TODO would block itself, directly or through other TODOs
+   * @private
+   *
+   * @remarks
+   * Only newly added blockers are checked, so blockers deleted in the meantime
+   * do not prevent other edits.
+   */
+  private async validateBlockers(
+    client: TodoOpenSearchClient,
+    todoId: string | null,
+    blockedBy: readonly string[],
+    existingBlockedBy: readonly string[] = []
+  ): Promise<void> {
+    const ids = TodosMapper.normalizeIds(blockedBy);
+    if (todoId && ids.includes(todoId)) {
+      throw new BusinessRuleError('A TODO cannot block itself', { field: 'blockedBy', id: todoId });
+    }
+    const added = ids.filter((id) => !existingBlockedBy.includes(id));
+    if (added.length === 0) {
+      return;
+    }
+    const blockers = await this.repository.getByIds(client, added);
+    const missingIds = added.filter((id) => !blockers.has(id));
+    if (missingIds.length > 0) {
+      throw new ValidationError(`Blocking TODOs do not exist: ${missingIds.join(', ')}`, {
+        field: 'blockedBy',
+        missingIds,
+      });
+    }
+    if (!todoId) {
+      return;
+    }
+    // Follow the blockers of the new blockers; reaching todoId means a cycle
+    const visited = new Set<string>(added);
+    let frontier = [...blockers.values()].flatMap((blocker) => blocker.blockedBy || []);
+    while (frontier.length > 0) {
+      if (frontier.includes(todoId)) {
+        throw new BusinessRuleError('Blocking TODOs cannot themselves be waiting on this TODO', {
+          field: 'blockedBy',
+          id: todoId,
+        });
+      }
+      const next = [...new Set(frontier)].filter((id) => !visited.has(id));
+      if (next.length === 0) {
+        return;
+      }
+      next.forEach((id) => visited.add(id));
+      const ancestors = await this.repository.getByIds(client, next);
+      frontier = [...ancestors.values()].flatMap((ancestor) => ancestor.blockedBy || []);
+    }
+  }
+
+  /**
+   * Validates that a TODO is not blocked when moving to a status that requires finished blockers.
+   *
+   * @param client - OpenSearch client with request-scoped permissions
+   * @param blockedBy - Blocking TODO IDs of the TODO
+   * @param newStatus - Status the TODO is moving to
+   * @throws {BusinessRuleError} If `newStatus` is in `TODO_BLOCKED_STATUSES` and a blocker is not done
+   * @private
+   */
+  private async validateNotBlocked(
+    client: TodoOpenSearchClient,
+    blockedBy: readonly string[] | undefined,
+    newStatus: TodoStatus
+  ): Promise<void> {
+    if (!TODO_BLOCKED_STATUSES.includes(newStatus) || !blockedBy || blockedBy.length === 0) {
+      return;
+    }
+    const blockers = await this.repository.getByIds(client, blockedBy);
+    const openBlockers = [...blockers.values()].filter((blocker) => blocker.status !== 'done');
+    if (openBlockers.length > 0) {
+      throw new BusinessRuleError(
+        `Cannot move a TODO to '${TODO_STATUS_LABELS[newStatus]}' while it is blocked by unfinished TODOs`,
+        {
+          field: 'status',
+          requestedStatus: newStatus,
+          openBlockers: openBlockers.map((blocker) => ({ id: blocker.id, title: blocker.title })),
+        }
+      );
+    }
+  }
+
+  /**
+   * Validates that an update does not move a TODO into a status that is at its
+   * work-in-progress limit.
+   *
+   * @param client - OpenSearch client with request-scoped permissions
+   * @param existingTodo - TODO being updated
+   * @param request - Update request to validate
+   * @param batchMoves - TODOs moved into each column by earlier actions of the same bulk
+   *   request and not stored yet; this update's move is added when it passes
+   * @throws {BusinessRuleError} If the new status already holds as many TODOs as its limit
+   *   allows, or as many of the assignee's TODOs as the assignee's limit allows
+   * @private
+   *
+   * @remarks
+   * Only checked when limits are enforced. The global limit is checked when the status
+   * changes; the assignee's limit when the status or the assignee changes.
+   */
+  private async validateWipLimits(
+    client: TodoOpenSearchClient,
+    existingTodo: Todo,
+    request: UpdateTodoRequest,
+    batchMoves?: Map<string, number>
+  ): Promise<void> {
+    if (!this.wipLimits.enforce) {
+      return;
+    }
+    const status = request.status ?? existingTodo.status;
+    const assignee =
+      request.assignee !== undefined ? request.assignee.trim() || undefined : existingTodo.assignee;
+    const statusChanged = status !== existingTodo.status;
+    const assigneeChanged = assignee !== existingTodo.assignee;
+
+    const limit = statusChanged ? getWipLimit(this.wipLimits, status) : null;
+    if (limit !== null) {
+      const count =
+        (await this.repository.count(client, { status })) + (batchMoves?.get(status) ?? 0);
+      if (count >= limit) {
+        throw new BusinessRuleError(
+          `Cannot move a TODO to '${TODO_STATUS_LABELS[status]}': the column is at its ` +
+            `work-in-progress limit of ${limit}`,
+          { field: 'status', requestedStatus: status, limit, count }
+        );
+      }
+    }
+
+    const assigneeLimit =
+      assignee !== undefined && (statusChanged || assigneeChanged)
+        ? getWipLimit(this.wipLimits, status, assignee)
+        : null;
+    const assigneeKey = `${status}:${assignee}`;
+    if (assignee !== undefined && assigneeLimit !== null) {
+      const count =
+        (await this.repository.count(client, { status, assignee })) +
+        (batchMoves?.get(assigneeKey) ?? 0);
+      if (count >= assigneeLimit) {
+        throw new BusinessRuleError(
+          `Cannot move a TODO to '${TODO_STATUS_LABELS[status]}' for '${assignee}': they are ` +
+            `at their work-in-progress limit of ${assigneeLimit}`,
+          { field: 'status', requestedStatus: status, assignee, limit: assigneeLimit, count }
+        );
+      }
+    }
+
+    if (batchMoves && statusChanged) {
+      batchMoves.set(status, (batchMoves.get(status) ?? 0) + 1);
+    }
+    if (batchMoves && assignee !== undefined && (statusChanged || assigneeChanged)) {
+      batchMoves.set(assigneeKey, (batchMoves.get(assigneeKey) ?? 0) + 1);
+    }
+  }
+
+  /**
+   * Validates that an update by query cannot take a column over its work-in-progress limit.
+   *
+   * @param patch - Fields set on every matching TODO
+   * @throws {BusinessRuleError} If limits are enforced and the patch moves TODOs into a status,
+   *   or to an assignee, that has a limit
+   * @private
+   *
+   * @remarks
+   * How many TODOs the patch moves into each column is only known once they are updated,
+   * so a patch that could reach a limit is rejected as a whole. Such moves go through
+   * {@link TodosService.bulk}, which counts them.
+   */
+  private validatePatchWipLimits(patch: TodoUpdateByQueryPatch): void {
+    if (!this.wipLimits.enforce) {
+      return;
+    }
+    const status = patch.status;
+    if (
+      status !== undefined &&
+      (getWipLimit(this.wipLimits, status) !== null ||
+        Object.keys(this.wipLimits.perAssignee).some(
+          (assignee) => getWipLimit(this.wipLimits, status, assignee) !== null
+        ))
+    ) {
+      throw new BusinessRuleError(
+        `Cannot move TODOs to '${TODO_STATUS_LABELS[status]}' by query: the column has an ` +
+          'enforced work-in-progress limit',
+        { field: 'status', requestedStatus: status }
+      );
+    }
+    const assignee = patch.assignee?.trim();
+    if (
+      assignee &&
+      TODO_STATUS_VALUES.some((value) => getWipLimit(this.wipLimits, value, assignee) !== null)
+    ) {
+      throw new BusinessRuleError(
+        `Cannot assign TODOs to '${assignee}' by query: they have enforced work-in-progress limits`,
+        { field: 'assignee', assignee }
+      );
+    }
+  }
+
+  /**
+   * Runs the checks of a bulk action that read other TODOs.
+   *
+   * @param client - OpenSearch client with request-scoped permissions
+   * @param action - Bulk action to check
+   * @param existingTodos - Stored TODOs targeted by the bulk request, keyed by ID
+   * @throws {ValidationError} If a referenced parent or blocking TODO does not exist
+   * @throws {BusinessRuleError} If a parent or blocker relation is not allowed,
+   *   or the status change is blocked by unfinished TODOs
+   * @private
+   */
+  private async validateBulkRelations(
+    client: TodoOpenSearchClient,
+    action: BulkTodoAction,
+    existingTodos: Map<string, Todo>
+  ): Promise<void> {
+    if (action.action === 'create') {
+      const todo = action.todo;
+      if (todo.parentId) {
+        await this.validateParent(client, null, todo.parentId);
+      }
+      if (todo.blockedBy && todo.blockedBy.length > 0) {
+        await this.validateBlockers(client, null, todo.blockedBy);
+        await this.validateNotBlocked(client, todo.blockedBy, todo.status || 'planned');
+      }
+      return;
+    }
+    if (action.action !== 'update') {
+      return;
+    }
+    const changes = action.changes;
+    if (changes.parentId) {
+      await this.validateParent(client, action.id, changes.parentId);
+    }
+    // Missing TODOs are reported when the action is prepared
+    const existingTodo = existingTodos.get(action.id);
+    if (!existingTodo) {
+      return;
+    }
+    if (changes.blockedBy !== undefined) {
+      await this.validateBlockers(client, action.id, changes.blockedBy, existingTodo.blockedBy);
+    }
+    if (changes.status !== undefined && changes.status !== existingTodo.status) {
+      await this.validateNotBlocked(client, changes.blockedBy ?? existingTodo.blockedBy, changes.status);
+    }
+  }
+
+  /**
+   * Adds the state of their blocking TODOs to the TODOs that have blockers.
+   *
+   * @param client - OpenSearch client with request-scoped permissions
+   * @param todos - TODOs to enrich
+   * @returns The TODOs, with `blockers` and `isBlocked` set on blocked TODOs
+   * @private
+   */
+  private async attachBlockers(client: TodoOpenSearchClient, todos: Todo[]): Promise<Todo[]> {
+    const blockerIds = [...new Set(todos.flatMap((todo) => todo.blockedBy || []))];
+    if (blockerIds.length === 0) {
+      return todos;
+    }
+    const blockers = await this.repository.getByIds(client, blockerIds);
+    return todos.map((todo) => {
+      if (!todo.blockedBy || todo.blockedBy.length === 0) {
+        return todo;
+      }
+      const summaries = todo.blockedBy.flatMap((id) => {
+        const blocker = blockers.get(id);
+        return blocker ? [{ id, title: blocker.title, status: blocker.status }] : [];
+      });
+      return {
+        ...todo,
+        blockers: summaries,
+        isBlocked: summaries.some((blocker) => blocker.status !== 'done'),
+      };
+    });
+  }
+
+  /**
+   * Resolves the open blockers needed by the `isBlocked` search filter.
+   *
+   * @param client - OpenSearch client with request-scoped permissions
+   * @param params - Search parameters
+   * @returns The same parameters, with `openBlockerIds` set when `isBlocked` is used
+   * @private
+   */
+  private async resolveBlockedFilter(
+    client: TodoOpenSearchClient,
+    params: TodoSearchParams
+  ): Promise<TodoSearchParams> {
+    if (params.isBlocked === undefined || params.openBlockerIds) {
+      return params;
+    }
+    return { ...params, openBlockerIds: await this.repository.getOpenBlockerIds(client) };
+  }
+
+  /**
+   * Reads the custom field registry.
+   *
+   * @param client - OpenSearch client with request-scoped permissions
+   * @returns Field definitions, or none when the service has no registry
+   * @private
+   */
+  private async getCustomFields(
+    client: TodoOpenSearchClient
+  ): Promise<TodoCustomFieldDefinition[]> {
+    return this.customFieldsRepository ? this.customFieldsRepository.list(client) : [];
+  }
+
+  /**
+   * Parses custom field filter expressions and converts their values to the fields' types.
+   *
+   * @param client - OpenSearch client with request-scoped permissions
+   * @param expressions - Filter expressions (`key:value`, `key>=value` or `key<=value`)
+   * @returns Search filters, or undefined if no expression was given
+   * @throws {ValidationError} If an expression is malformed, targets an undefined field,
+   *   or has a value that does not match the field's type
+   * @private
+   *
+   * @remarks
+   * Text and enum values compare as exact keywords; date values may be any date
+   * `Date` can parse and are compared as ISO 8601 timestamps.
+   */
+  private async resolveCustomFilters(
+    client: TodoOpenSearchClient,
+    expressions?: readonly string[]
+  ): Promise<TodoCustomFieldSearchFilter[] | undefined> {
+    if (!expressions || expressions.length === 0) {
+      return undefined;
+    }
+    const customFields = await this.getCustomFields(client);
+    return expressions.map((expression) => {
+      const filter = parseCustomFieldFilter(expression);
+      if (!filter) {
+        throw new ValidationError(`Invalid custom field filter: ${expression}`, {
+          field: 'custom',
+          value: expression,
+        });
+      }
+      const definition = customFields.find((candidate) => candidate.key === filter.key);
+      if (!definition) {
+        throw new ValidationError(`Unknown custom field: ${filter.key}`, {
+          field: 'custom',
+          validValues: customFields.map((candidate) => candidate.key),
+        });
+      }
+      const invalid = () =>
+        new ValidationError(`Invalid value for custom field filter: ${expression}`, {
+          field: 'custom',
+          value: expression,
+        });
+      switch (definition.type) {
+        case 'number': {
+          const value = Number(filter.value);
+          if (!Number.isFinite(value)) {
+            throw invalid();
+          }
+          return { ...filter, value };
+        }
+        case 'date': {
+          const date = new Date(filter.value);
+          if (isNaN(date.getTime())) {
+            throw invalid();
+          }
+          return { ...filter, value: date.toISOString() };
+        }
+        case 'boolean':
+          if (filter.operator !== 'eq' || (filter.value !== 'true' && filter.value !== 'false')) {
+            throw invalid();
+          }
+          return { ...filter, value: filter.value === 'true' };
+        default:
+          return filter;
+      }
+    });
+  }
+
+  /**
+   * Adds subtask roll-up progress to the TODOs that have subtasks.
+   *
+   * @param client - OpenSearch client with request-scoped permissions
+   * @param todos - TODOs to enrich
+   * @returns The TODOs, with `childProgress` set on parents
+   * @private
+   */
+  private async attachChildProgress(client: TodoOpenSearchClient, todos: Todo[]): Promise<Todo[]> {
+    if (todos.length === 0) {
+      return todos;
+    }
+    const counts = await this.repository.getChildCounts(
+      client,
+      todos.map((todo) => todo.id)
+    );
+    if (counts.size === 0) {
+      return todos;
+    }
+    return todos.map((todo) => {
+      const childCounts = counts.get(todo.id);
+      return childCounts
+        ? { ...todo, childProgress: TodosMapper.toChildProgress(childCounts.total, childCounts.done) }
+        : todo;
+    });
+  }
+
+  /**
+   * Adds the number of comments to each TODO.
+   *
+   * @param client - OpenSearch client with request-scoped permissions
+   * @param todos - TODOs to enrich
+   * @returns The TODOs, with `commentCount` set when comments are enabled
+   * @private
+   */
+  private async attachCommentCounts(client: TodoOpenSearchClient, todos: Todo[]): Promise<Todo[]> {
+    if (!this.commentsRepository || todos.length === 0) {
+      return todos;
+    }
+    const counts = await this.commentsRepository.countByTodoIds(
+      client,
+      todos.map((todo) => todo.id)
+    );
+    return todos.map((todo) => ({ ...todo, commentCount: counts.get(todo.id) ?? 0 }));
+  }
+
+  /**
+   * Deletes the comment thread of a deleted TODO.
+   *
+   * @param client - OpenSearch client with request-scoped permissions
+   * @param todoId - ID of the deleted TODO
+   * @private
+   *
+   * @remarks
+   * The TODO is already deleted, so failures are logged rather than surfaced to the caller.
+   */
+  private async deleteComments(client: TodoOpenSearchClient, todoId: string): Promise<void> {
+    if (!this.commentsRepository) {
+      return;
+    }
+    try {
+      const deleted = await this.commentsRepository.deleteByTodoId(client, todoId);
+      if (deleted > 0) {
+        this.logger.info(`Deleted ${deleted} comments of deleted TODO '${todoId}'`);
+      }
+    } catch (error) {
+      this.logger.error(`Failed to delete comments of deleted TODO '${todoId}'`, error);
+    }
+  }
+
+  /**
+   * Turns the subtasks of a deleted TODO into top-level TODOs.
+   *
+   * @param client - OpenSearch client with request-scoped permissions
+   * @param parentId - ID of the deleted TODO
+   * @param now - Timestamp of the deletion in ISO 8601 format
+   * @private
+   *
+   * @remarks
+   * The parent is already deleted, so failures are logged rather than surfaced to the caller.
+   */
+  private async detachChildren(
+    client: TodoOpenSearchClient,
+    parentId: string,
+    now: string
+  ): Promise<void> {
+    try {
+      const result = await this.repository.updateByQuery(
+        client,
+        { parentId },
+        { parent_id: null, updated_at: now }
+      );
+      if (result.updated > 0) {
+        this.logger.info(`Detached ${result.updated} subtasks of deleted TODO '${parentId}'`);
+      }
+    } catch (error) {
+      this.logger.error(`Failed to detach subtasks of deleted TODO '${parentId}'`, error);
+    }
+  }
+
+  /**
+   * Validates an update-by-query patch.
+   *
+   * @param patch - Patch to validate
+   * @throws {ValidationError} If no fields are provided or any field fails validation
+   * @throws {BusinessRuleError} If the target status requires a reason and none is given
+   * @private
+   */
+  private validatePatch(patch: TodoUpdateByQueryPatch): void {
+    const hasUpdates =
+      patch.status !== undefined ||
+      patch.tags !== undefined ||
+      patch.assignee !== undefined ||
+      patch.priority !== undefined ||
+      patch.severity !== undefined ||
+      patch.dueDate !== undefined ||
+      patch.complianceFrameworks !== undefined;
+
+    if (!hasUpdates) {
+      throw new ValidationError('At least one field must be provided for update', {
+        field: 'patch',
+      });
+    }
+
+    FieldValidators.validateStatus(patch.status);
+    FieldValidators.validateTags(patch.tags);
+    FieldValidators.validateAssignee(patch.assignee);
+    FieldValidators.validatePriority(patch.priority);
+    FieldValidators.validateSeverity(patch.severity);
+    FieldValidators.validateDueDate(patch.dueDate, true);
+    FieldValidators.validateComplianceFrameworks(patch.complianceFrameworks);
+    FieldValidators.validateStatusReason(patch.statusReason);
+
+    if (
+      patch.status !== undefined &&
+      this.statusTransitions.enabled &&
+      this.statusTransitions.requireReason.includes(patch.status) &&
+      !patch.statusReason?.trim()
+    ) {
+      throw new BusinessRuleError(
+        `A reason is required when moving a TODO to '${TODO_STATUS_LABELS[patch.status]}'`,
+        {
+          field: 'statusReason',
+          requestedStatus: patch.status,
+        }
+      );
+    }
+  }
+
+  /**
+   * Narrows search parameters to TODOs whose status may move to the target status.
+   *
+   * @param params - Search parameters built from the request filters
+   * @param targetStatus - Status set by the patch, if any
+   * @returns The same parameters when nothing needs excluding, narrowed parameters,
+   *   or null when no TODO can be moved to the target status
+   * @private
+   */
+  private restrictToAllowedSources(
+    params: TodoSearchParams,
+    targetStatus?: TodoStatus
+  ): TodoSearchParams | null {
+    if (targetStatus === undefined || !this.statusTransitions.enabled) {
+      return params;
+    }
+    const sources = TODO_STATUS_VALUES.filter(
+      (status) =>
+        status === targetStatus || (this.statusTransitions.allowed[status] || []).includes(targetStatus)
+    );
+    if (params.status === undefined && sources.length === TODO_STATUS_VALUES.length) {
+      return params;
+    }
+    const requested =
+      params.status === undefined ? null : Array.isArray(params.status) ? params.status : [params.status];
+    const allowed = requested ? sources.filter((status) => requested.includes(status)) : sources;
+    if (allowed.length === 0) {
+      return null;
+    }
+    if (requested && allowed.length === requested.length) {
+      return params;
+    }
+    return { ...params, status: allowed };
   }
 
   /**
@@ -238,14 +2210,71 @@ export class TodosService {
   }
 
   /**
-   * Validates a status transition (placeholder for future business rules).
+   * Validates the client's version token against the stored TODO.
+   *
+   * @param existingTodo - TODO as currently stored
+   * @param version - Version token the client last saw (optional)
+   * @throws {ValidationError} If the version token is malformed
+   * @throws {ConflictError} If the TODO changed since the client loaded it
+   * @private
+   */
+  private validateVersion(existingTodo: Todo, version?: string): void {
+    if (version === undefined) {
+      return;
+    }
+    if (!TodosMapper.decodeVersion(version)) {
+      throw new ValidationError('Invalid version token', { field: 'version' });
+    }
+    if (existingTodo.version && existingTodo.version !== version) {
+      throw new ConflictError('This TODO was modified since it was loaded', {
+        field: 'version',
+        expectedVersion: version,
+        currentVersion: existingTodo.version,
+        current: existingTodo,
+      });
+    }
+  }
+
+  /**
+   * Validates a status transition against the configured workflow.
    *
    * @param currentStatus - Current status of the TODO
    * @param newStatus - New status to transition to
+   * @param reason - Optional reason supplied with the status change
+   * @throws {BusinessRuleError} If the transition is not allowed or a required reason is missing
    * @private
    */
-  private validateStatusTransition(currentStatus: string, newStatus: string): void {
+  private validateStatusTransition(
+    currentStatus: TodoStatus,
+    newStatus: TodoStatus,
+    reason?: string
+  ): void {
     this.logger.debug(`Status transition: ${currentStatus} -> ${newStatus}`);
+    if (!this.statusTransitions.enabled) {
+      return;
+    }
+    const allowed = this.statusTransitions.allowed[currentStatus] || [];
+    if (!allowed.includes(newStatus)) {
+      throw new BusinessRuleError(
+        `Cannot move a TODO from '${TODO_STATUS_LABELS[currentStatus]}' to '${TODO_STATUS_LABELS[newStatus]}'`,
+        {
+          field: 'status',
+          currentStatus,
+          requestedStatus: newStatus,
+          allowedStatuses: [...allowed],
+        }
+      );
+    }
+    if (this.statusTransitions.requireReason.includes(newStatus) && !reason?.trim()) {
+      throw new BusinessRuleError(
+        `A reason is required when moving a TODO to '${TODO_STATUS_LABELS[newStatus]}'`,
+        {
+          field: 'statusReason',
+          currentStatus,
+          requestedStatus: newStatus,
+        }
+      );
+    }
   }
 
   /**
@@ -265,20 +2294,59 @@ export class TodosService {
     return this.repository.getSuggestions(client);
   }
 
+  /**
+   * Returns the work-in-progress limits of the Kanban columns.
+   *
+   * @returns Configured limits, and whether updates going over them are rejected
+   */
+  getWipLimits(): TodoWipLimits {
+    return this.wipLimits;
+  }
+
+  /**
+   * Returns the status workflow applied to TODO updates.
+   *
+   * @returns Configured transitions, and the statuses that require a reason
+   */
+  getStatusTransitions(): TodoStatusTransitionRules {
+    return this.statusTransitions;
+  }
+
   /**
    * Builds search parameters from query parameters.
    *
    * @param params - List query parameters from HTTP request
+   * @param customFilters - Custom field filters resolved by {@link TodosService.resolveCustomFilters}
    * @returns Normalized search parameters for repository
+   * @throws {ValidationError} If the search text has a syntax error
    * @private
+   *
+   * @remarks
+   * The search text is parsed as a query: field clauses such as `priority:critical`
+   * become `queryClauses`, and the remaining words are searched as free text.
    */
-  private buildSearchParams(params: ListTodosQueryParams): TodoSearchParams {
+  private buildSearchParams(
+    params: ListTodosQueryParams,
+    customFilters?: TodoCustomFieldSearchFilter[]
+  ): TodoSearchParams {
+    const query = FieldValidators.validateSearchQuery(params.searchText);
+    const searchText = query.terms
+      .filter((term) => !term.negated && !term.phrase)
+      .map((term) => term.text)
+      .join(' ');
+    const phrases = query.terms
+      .filter((term) => !term.negated && term.phrase)
+      .map((term) => term.text);
+    const excludedText = query.terms.filter((term) => term.negated).map((term) => term.text);
     return {
       page: params.page,
       pageSize: params.pageSize,
       status: params.status,
       tags: params.tags,
-      searchText: params.searchText,
+      searchText: searchText || undefined,
+      ...(phrases.length > 0 && { phrases }),
+      ...(excludedText.length > 0 && { excludedText }),
+      ...(query.clauses.length > 0 && { queryClauses: query.clauses }),
       assignee: params.assignee,
       priority: params.priority,
       severity: params.severity,
@@ -292,6 +2360,9 @@ export class TodosService {
       completedAfter: params.completedAfter,
       completedBefore: params.completedBefore,
       isOverdue: params.isOverdue,
+      parentId: params.parentId,
+      isBlocked: params.isBlocked,
+      customFilters,
       sortField: params.sortField,
       sortDirection: params.sortDirection,
     };
@@ -6,7 +6,36 @@ import {
   TODO_STATUS_VALUES,
   MAX_COMPLIANCE_FRAMEWORKS,
   MAX_COMPLIANCE_FRAMEWORK_LENGTH,
+  MAX_STATUS_REASON_LENGTH,
+  MAX_TODO_BLOCKERS,
 } from '../../../common/todo/todo.types';
+import { MAX_TODO_COMMENT_LENGTH } from '../../../common/todo/todo.comments';
+import {
+  MAX_TODO_RECURRENCE_INTERVAL,
+  parseRecurrenceRule,
+} from '../../../common/todo/todo.recurrence';
+import { MAX_TODO_RANK_LENGTH, isValidRank } from '../../../common/todo/todo.rank';
+import {
+  TodoCustomFieldDefinition,
+  TodoCustomFieldValue,
+  TODO_CUSTOM_FIELD_TYPE_VALUES,
+  CUSTOM_FIELD_KEY_PATTERN,
+  MAX_CUSTOM_FIELD_KEY_LENGTH,
+  MAX_CUSTOM_FIELD_LABEL_LENGTH,
+  MAX_CUSTOM_FIELD_DESCRIPTION_LENGTH,
+  MAX_CUSTOM_FIELD_OPTIONS,
+  MAX_CUSTOM_FIELD_TEXT_LENGTH,
+} from '../../../common/todo/todo.custom_fields';
+import { TODO_EXPORT_COLUMNS } from '../../../common/todo/todo.export';
+import { TODO_IMPORT_FIELDS } from '../../../common/todo/todo.import';
+import {
+  TodoSavedViewFilters,
+  TodoViewTab,
+  TODO_VIEW_TAB_VALUES,
+  TODO_SAVED_VIEW_DATE_FILTERS,
+  MAX_SAVED_VIEW_NAME_LENGTH,
+} from '../../../common/todo/todo.saved_views';
+import { ParsedTodoQuery, parseTodoQuery } from '../../../common/todo/todo.query';
 
 /**
  * Centralized field validation logic for TODO entities.
@@ -166,6 +195,43 @@ export class FieldValidators {
     }
   }
 
+  /**
+   * Validates the startDate field.
+   *
+   * @param startDate - StartDate value to validate
+   * @param allowNull - Whether null is allowed (for updates)
+   * @throws {ValidationError} If validation fails
+   */
+  static validateStartDate(startDate: string | undefined | null, allowNull: boolean = false): void {
+    if (startDate === null && allowNull) {
+      return;
+    }
+
+    if (startDate && !FieldValidators.isValidISODate(startDate)) {
+      throw new ValidationError('Invalid startDate format. Use ISO 8601 format (e.g., 2025-12-01T09:00:00Z)', {
+        field: 'startDate',
+        format: 'ISO 8601',
+      });
+    }
+  }
+
+  /**
+   * Validates that a TODO does not start after it is due.
+   *
+   * @param startDate - Start date the TODO will have, if any
+   * @param dueDate - Due date the TODO will have, if any
+   * @throws {ValidationError} If both dates are set and the start date is after the due date
+   */
+  static validateDateOrder(startDate: string | undefined | null, dueDate: string | undefined | null): void {
+    if (startDate && dueDate && Date.parse(startDate) > Date.parse(dueDate)) {
+      throw new ValidationError('startDate must not be after dueDate', {
+        field: 'startDate',
+        startDate,
+        dueDate,
+      });
+    }
+  }
+
   /**
    * Validates the complianceFrameworks array.
    *
@@ -196,6 +262,500 @@ export class FieldValidators {
     }
   }
 
+  /**
+   * Validates the statusReason field.
+   *
+   * @param statusReason - Status change reason to validate
+   * @throws {ValidationError} If validation fails
+   */
+  static validateStatusReason(statusReason: string | undefined): void {
+    if (statusReason && statusReason.length > MAX_STATUS_REASON_LENGTH) {
+      throw new ValidationError(`Status reason must not exceed ${MAX_STATUS_REASON_LENGTH} characters`, {
+        field: 'statusReason',
+        maxLength: MAX_STATUS_REASON_LENGTH,
+        actualLength: statusReason.length,
+      });
+    }
+  }
+
+  /**
+   * Validates the blockedBy array.
+   *
+   * @param blockedBy - IDs of blocking TODOs to validate
+   * @throws {ValidationError} If validation fails
+   */
+  static validateBlockedBy(blockedBy: readonly string[] | undefined): void {
+    if (!blockedBy) {
+      return;
+    }
+
+    if (blockedBy.length > MAX_TODO_BLOCKERS) {
+      throw new ValidationError(`Maximum ${MAX_TODO_BLOCKERS} blocking TODOs allowed`, {
+        field: 'blockedBy',
+        maxBlockers: MAX_TODO_BLOCKERS,
+        actualBlockers: blockedBy.length,
+      });
+    }
+
+    if (blockedBy.some((id) => !id || id.trim().length === 0)) {
+      throw new ValidationError('Blocking TODO IDs cannot be empty', { field: 'blockedBy' });
+    }
+  }
+
+  /**
+   * Validates the recurrence rule.
+   *
+   * @param recurrence - Recurrence rule to validate (null clears it)
+   * @throws {ValidationError} If validation fails
+   */
+  static validateRecurrence(recurrence: string | null | undefined): void {
+    if (recurrence === undefined || recurrence === null) {
+      return;
+    }
+
+    if (!parseRecurrenceRule(recurrence)) {
+      throw new ValidationError(
+        'Recurrence must be FREQ=DAILY, WEEKLY, MONTHLY or YEARLY with an optional ' +
+          `INTERVAL between 1 and ${MAX_TODO_RECURRENCE_INTERVAL}`,
+        { field: 'recurrence', value: recurrence }
+      );
+    }
+  }
+
+  /**
+   * Validates the rank of a TODO in manually ordered lists.
+   *
+   * @param rank - Rank to validate (null clears it)
+   * @throws {ValidationError} If validation fails
+   */
+  static validateRank(rank: string | null | undefined): void {
+    if (rank === undefined || rank === null) {
+      return;
+    }
+
+    if (!isValidRank(rank)) {
+      throw new ValidationError(
+        `Rank must be 1 to ${MAX_TODO_RANK_LENGTH} digits or lowercase letters ` +
+          'and must not end in 0',
+        { field: 'rank', value: rank }
+      );
+    }
+  }
+
+  /**
+   * Validates custom field values against the deployment's field definitions.
+   *
+   * @param values - Custom field values keyed by field key (null clears a value on update)
+   * @param definitions - Defined custom fields
+   * @param isCreate - Whether the values belong to a new TODO, which must set every required field
+   * @throws {ValidationError} If a key is not defined, a value does not match its field's type,
+   *   or a required field is missing or cleared
+   */
+  static validateCustomFields(
+    values: Readonly<Record<string, TodoCustomFieldValue | null>> | undefined,
+    definitions: readonly TodoCustomFieldDefinition[],
+    isCreate: boolean
+  ): void {
+    const provided = values || {};
+    for (const [key, value] of Object.entries(provided)) {
+      const definition = definitions.find((candidate) => candidate.key === key);
+      if (!definition) {
+        throw new ValidationError(`Unknown custom field: ${key}`, {
+          field: `custom.${key}`,
+          validValues: definitions.map((candidate) => candidate.key),
+        });
+      }
+      if (value === null || (typeof value === 'string' && value.trim().length === 0)) {
+        if (definition.required) {
+          throw new ValidationError(`${definition.label} is required`, { field: `custom.${key}` });
+        }
+        continue;
+      }
+      FieldValidators.validateCustomFieldValue(definition, value);
+    }
+
+    if (isCreate) {
+      const missing = definitions.find(
+        (definition) => definition.required && provided[definition.key] === undefined
+      );
+      if (missing) {
+        throw new ValidationError(`${missing.label} is required`, {
+          field: `custom.${missing.key}`,
+        });
+      }
+    }
+  }
+
+  /**
+   * Validates a single custom field value against its field's type.
+   *
+   * @param definition - Definition of the field
+   * @param value - Value to validate
+   * @throws {ValidationError} If the value does not match the field's type
+   */
+  static validateCustomFieldValue(
+    definition: TodoCustomFieldDefinition,
+    value: TodoCustomFieldValue
+  ): void {
+    const field = `custom.${definition.key}`;
+    switch (definition.type) {
+      case 'text':
+        if (typeof value !== 'string') {
+          throw new ValidationError(`${definition.label} must be text`, { field });
+        }
+        if (value.length > MAX_CUSTOM_FIELD_TEXT_LENGTH) {
+          throw new ValidationError(
+            `${definition.label} must not exceed ${MAX_CUSTOM_FIELD_TEXT_LENGTH} characters`,
+            { field, maxLength: MAX_CUSTOM_FIELD_TEXT_LENGTH, actualLength: value.length }
+          );
+        }
+        return;
+      case 'number':
+        if (typeof value !== 'number' || !Number.isFinite(value)) {
+          throw new ValidationError(`${definition.label} must be a number`, { field });
+        }
+        return;
+      case 'date':
+        if (typeof value !== 'string' || !FieldValidators.isValidISODate(value)) {
+          throw new ValidationError(`${definition.label} must be a valid ISO 8601 date`, {
+            field,
+            value,
+          });
+        }
+        return;
+      case 'enum':
+        if (typeof value !== 'string' || !(definition.options || []).includes(value)) {
+          throw new ValidationError(`Invalid ${definition.label}: ${value}`, {
+            field,
+            validValues: [...(definition.options || [])],
+          });
+        }
+        return;
+      case 'boolean':
+        if (typeof value !== 'boolean') {
+          throw new ValidationError(`${definition.label} must be true or false`, { field });
+        }
+        return;
+    }
+  }
+
+  /**
+   * Validates the key of a custom field definition.
+   *
+   * @param key - Key to validate
+   * @throws {ValidationError} If validation fails
+   */
+  static validateCustomFieldKey(key: string | undefined): void {
+    if (!key) {
+      throw new ValidationError('Custom field key is required', { field: 'key' });
+    }
+
+    if (key.length > MAX_CUSTOM_FIELD_KEY_LENGTH) {
+      throw new ValidationError(
+        `Custom field key must not exceed ${MAX_CUSTOM_FIELD_KEY_LENGTH} characters`,
+        { field: 'key', maxLength: MAX_CUSTOM_FIELD_KEY_LENGTH, actualLength: key.length }
+      );
+    }
+
+    if (!CUSTOM_FIELD_KEY_PATTERN.test(key)) {
+      throw new ValidationError(
+        'Custom field key must start with a lowercase letter and contain only lowercase letters, digits and underscores',
+        { field: 'key', value: key }
+      );
+    }
+  }
+
+  /**
+   * Validates the label of a custom field definition.
+   *
+   * @param label - Label to validate
+   * @param isRequired - Whether the field is required
+   * @throws {ValidationError} If validation fails
+   */
+  static validateCustomFieldLabel(label: string | undefined, isRequired: boolean): void {
+    if (label === undefined && !isRequired) {
+      return;
+    }
+
+    if (!label || label.trim().length === 0) {
+      throw new ValidationError('Custom field label is required', { field: 'label' });
+    }
+
+    if (label.length > MAX_CUSTOM_FIELD_LABEL_LENGTH) {
+      throw new ValidationError(
+        `Custom field label must not exceed ${MAX_CUSTOM_FIELD_LABEL_LENGTH} characters`,
+        { field: 'label', maxLength: MAX_CUSTOM_FIELD_LABEL_LENGTH, actualLength: label.length }
+      );
+    }
+  }
+
+  /**
+   * Validates the type of a custom field definition.
+   *
+   * @param type - Type to validate
+   * @throws {ValidationError} If validation fails
+   */
+  static validateCustomFieldType(type: string | undefined): void {
+    if (!type || !TODO_CUSTOM_FIELD_TYPE_VALUES.includes(type as any)) {
+      throw new ValidationError(`Invalid custom field type: ${type}`, {
+        field: 'type',
+        validValues: [...TODO_CUSTOM_FIELD_TYPE_VALUES],
+      });
+    }
+  }
+
+  /**
+   * Validates the description of a custom field definition.
+   *
+   * @param description - Description to validate (null clears it)
+   * @throws {ValidationError} If validation fails
+   */
+  static validateCustomFieldDescription(description: string | null | undefined): void {
+    if (description && description.length > MAX_CUSTOM_FIELD_DESCRIPTION_LENGTH) {
+      throw new ValidationError(
+        `Custom field description must not exceed ${MAX_CUSTOM_FIELD_DESCRIPTION_LENGTH} characters`,
+        {
+          field: 'description',
+          maxLength: MAX_CUSTOM_FIELD_DESCRIPTION_LENGTH,
+          actualLength: description.length,
+        }
+      );
+    }
+  }
+
+  /**
+   * Validates the options of a custom field definition.
+   *
+   * @param options - Options to validate
+   * @param type - Type of the field; only `enum` fields have options
+   * @throws {ValidationError} If validation fails
+   */
+  static validateCustomFieldOptions(options: string[] | undefined, type: string): void {
+    if (type !== 'enum') {
+      if (options && options.length > 0) {
+        throw new ValidationError('Only enum custom fields can have options', {
+          field: 'options',
+        });
+      }
+      return;
+    }
+
+    if (!options || options.every((option) => option.trim().length === 0)) {
+      throw new ValidationError('Enum custom fields need at least one option', {
+        field: 'options',
+      });
+    }
+
+    if (options.length > MAX_CUSTOM_FIELD_OPTIONS) {
+      throw new ValidationError(`Maximum ${MAX_CUSTOM_FIELD_OPTIONS} options allowed`, {
+        field: 'options',
+        maxOptions: MAX_CUSTOM_FIELD_OPTIONS,
+        actualOptions: options.length,
+      });
+    }
+
+    const tooLong = options.find((option) => option.length > MAX_CUSTOM_FIELD_TEXT_LENGTH);
+    if (tooLong) {
+      throw new ValidationError(
+        `Each option must not exceed ${MAX_CUSTOM_FIELD_TEXT_LENGTH} characters`,
+        { field: 'options', maxLength: MAX_CUSTOM_FIELD_TEXT_LENGTH, actualLength: tooLong.length }
+      );
+    }
+  }
+
+  /**
+   * Validates the body of a comment.
+   *
+   * @param body - Comment text to validate
+   * @throws {ValidationError} If validation fails
+   */
+  static validateCommentBody(body: string | undefined): void {
+    if (!body || body.trim().length === 0) {
+      throw new ValidationError('Comment body is required', { field: 'body' });
+    }
+
+    if (body.length > MAX_TODO_COMMENT_LENGTH) {
+      throw new ValidationError(
+        `Comment body must not exceed ${MAX_TODO_COMMENT_LENGTH} characters`,
+        {
+          field: 'body',
+          maxLength: MAX_TODO_COMMENT_LENGTH,
+          actualLength: body.length,
+        }
+      );
+    }
+  }
+
+  /**
+   * Validates the query typed in the search box and parses it.
+   *
+   * @param searchText - Query to validate, e.g. `status:in_progress -assignee:bob firewall`
+   * @param field - Name of the validated field, reported in the error
+   * @returns Parsed query; empty when there is no search text
+   * @throws {ValidationError} If the query has a syntax error; details give its position
+   */
+  static validateSearchQuery(
+    searchText: string | undefined,
+    field: string = 'searchText'
+  ): ParsedTodoQuery {
+    const query = parseTodoQuery(searchText || '');
+    if (query.errors.length > 0) {
+      const [error] = query.errors;
+      throw new ValidationError(error.message, {
+        field,
+        start: error.start,
+        end: error.end,
+      });
+    }
+    return query;
+  }
+
+  /**
+   * Validates the name of a saved view.
+   *
+   * @param name - Name to validate
+   * @param isRequired - Whether the field is required
+   * @throws {ValidationError} If validation fails
+   */
+  static validateSavedViewName(name: string | undefined, isRequired: boolean): void {
+    if (name === undefined && !isRequired) {
+      return;
+    }
+
+    if (!name || name.trim().length === 0) {
+      throw new ValidationError('Saved view name is required', { field: 'name' });
+    }
+
+    if (name.length > MAX_SAVED_VIEW_NAME_LENGTH) {
+      throw new ValidationError(
+        `Saved view name must not exceed ${MAX_SAVED_VIEW_NAME_LENGTH} characters`,
+        { field: 'name', maxLength: MAX_SAVED_VIEW_NAME_LENGTH, actualLength: name.length }
+      );
+    }
+  }
+
+  /**
+   * Validates the filters stored in a saved view.
+   *
+   * @param filters - Filters to validate
+   * @throws {ValidationError} If the search text has a syntax error, a status, priority or severity is unknown, or a date is not ISO 8601
+   */
+  static validateSavedViewFilters(filters: TodoSavedViewFilters | undefined): void {
+    if (!filters) {
+      return;
+    }
+
+    FieldValidators.validateSearchQuery(filters.searchText, 'filters.searchText');
+
+    (filters.status || []).forEach((status) => FieldValidators.validateStatus(status));
+    (filters.priority || []).forEach((priority) => FieldValidators.validatePriority(priority));
+    (filters.severity || []).forEach((severity) => FieldValidators.validateSeverity(severity));
+    FieldValidators.validateTags(filters.tags);
+
+    for (const field of TODO_SAVED_VIEW_DATE_FILTERS) {
+      const value = filters[field];
+      if (value && !FieldValidators.isValidISODate(value)) {
+        throw new ValidationError(`Invalid ${field} format. Use ISO 8601 format (e.g., 2025-12-31T23:59:59.000Z)`, {
+          field: `filters.${field}`,
+          format: 'ISO 8601',
+        });
+      }
+    }
+  }
+
+  /**
+   * Validates the tab opened by a saved view.
+   *
+   * @param tab - Tab to validate
+   * @throws {ValidationError} If the tab is unknown
+   */
+  static validateSavedViewTab(tab: string | undefined): void {
+    if (tab && !TODO_VIEW_TAB_VALUES.includes(tab as TodoViewTab)) {
+      throw new ValidationError(`Invalid tab: ${tab}`, {
+        field: 'tab',
+        value: tab,
+        validValues: [...TODO_VIEW_TAB_VALUES],
+      });
+    }
+  }
+
+  /**
+   * Validates the columns requested for an export.
+   *
+   * @param columns - Built-in column names or `custom.<key>` references
+   * @param definitions - Defined custom fields
+   * @throws {ValidationError} If no column is given, or a column is neither built in nor a defined custom field
+   */
+  static validateExportColumns(
+    columns: readonly string[],
+    definitions: readonly TodoCustomFieldDefinition[]
+  ): void {
+    if (columns.length === 0) {
+      throw new ValidationError('At least one column is required', { field: 'columns' });
+    }
+
+    const validValues = [
+      ...TODO_EXPORT_COLUMNS,
+      ...definitions.map((definition) => `custom.${definition.key}`),
+    ];
+    const invalid = columns.find((column) => !validValues.includes(column));
+    if (invalid) {
+      throw new ValidationError(`Unknown export column: ${invalid}`, {
+        field: 'columns',
+        value: invalid,
+        validValues,
+      });
+    }
+  }
+
+  /**
+   * Validates the mapping from the columns of an import file to TODO fields.
+   *
+   * @param mapping - Mapping from column name to import field or `custom.<key>`
+   * @param columns - Column names found in the file
+   * @param definitions - Defined custom fields
+   * @throws {ValidationError} If a column is not in the file, a target is not an import field
+   *   or defined custom field, two columns map to the same field, or no column maps to `title`
+   */
+  static validateImportMapping(
+    mapping: Readonly<Record<string, string>>,
+    columns: readonly string[],
+    definitions: readonly TodoCustomFieldDefinition[]
+  ): void {
+    const validValues = [
+      ...TODO_IMPORT_FIELDS,
+      ...definitions.map((definition) => `custom.${definition.key}`),
+    ];
+    const targets = new Set<string>();
+    for (const [column, target] of Object.entries(mapping)) {
+      if (!columns.includes(column)) {
+        throw new ValidationError(`Column not found in the file: ${column}`, {
+          field: 'mapping',
+          value: column,
+          validValues: [...columns],
+        });
+      }
+      if (!validValues.includes(target)) {
+        throw new ValidationError(`Unknown import field: ${target}`, {
+          field: 'mapping',
+          value: target,
+          validValues,
+        });
+      }
+      if (targets.has(target)) {
+        throw new ValidationError(`More than one column is mapped to ${target}`, {
+          field: 'mapping',
+          value: target,
+        });
+      }
+      targets.add(target);
+    }
+
+    if (!targets.has('title')) {
+      throw new ValidationError('A column must be mapped to title', { field: 'mapping' });
+    }
+  }
+
   /**
    * Checks if a string is a valid ISO 8601 date.
    *
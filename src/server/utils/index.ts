@@ -1 +1,2 @@
 export { RequestParser } from './request-parser';
+export { getCurrentUser, getCurrentUsername, CurrentUser } from './security-context';
@@ -1,14 +1,47 @@
 import {
   CreateTodoRequest,
   UpdateTodoRequest,
+  BulkTodosRequest,
+  BulkTodoAction,
+  UpdateTodosByQueryRequest,
   ListTodosQueryParams,
+  ExportTodosQueryParams,
+  TodoExportFormat,
+  TODO_EXPORT_FORMAT_VALUES,
+  ImportTodosRequest,
+  TodoImportFormat,
+  TODO_IMPORT_FORMAT_VALUES,
+  ImportSarifRequest,
+  SarifLevel,
+  SARIF_LEVEL_VALUES,
   TodoStatsQueryParams,
   TodoAnalyticsQueryParams,
+  TodoCalendarQueryParams,
+  GetTodoBoardQueryParams,
+  TodoOscalExportQueryParams,
+  TodoReportQueryParams,
+  TodoReportFormat,
+  TODO_REPORT_FORMAT_VALUES,
+  TodoHistoryQueryParams,
+  TodoCommentsQueryParams,
+  CreateTodoCommentRequest,
+  CreateTodoCustomFieldRequest,
+  UpdateTodoCustomFieldRequest,
+  CreateTodoSavedViewRequest,
+  UpdateTodoSavedViewRequest,
+  TodoSavedViewFilters,
+  TodoViewTab,
+  TODO_VIEW_TAB_VALUES,
+  TODO_SAVED_VIEW_DATE_FILTERS,
+  TodoCustomFieldType,
+  TODO_CUSTOM_FIELD_TYPE_VALUES,
   TodoStatus,
   TodoPriority,
   TodoSeverity,
   TodoSortField,
   SortDirection,
+  TodoCustomFieldValue,
+  CUSTOM_FIELD_KEY_PATTERN,
 } from '../../common';
 import { Logger } from '../../../../src/core/server';
 
@@ -35,11 +68,23 @@ export class RequestParser {
       ...(query.completedAfter !== undefined && typeof query.completedAfter === 'string' && { completedAfter: query.completedAfter }),
       ...(query.completedBefore !== undefined && typeof query.completedBefore === 'string' && { completedBefore: query.completedBefore }),
       ...(query.isOverdue !== undefined && { isOverdue: this.parseBoolean(query.isOverdue) }),
+      ...(query.parentId !== undefined && typeof query.parentId === 'string' && { parentId: query.parentId }),
+      ...(query.isBlocked !== undefined && { isBlocked: this.parseBoolean(query.isBlocked) }),
+      ...(query.custom !== undefined && { custom: this.parseCustomFilters(query.custom) }),
       ...(query.sortField !== undefined && { sortField: this.parseSortField(query.sortField) }),
       ...(query.sortDirection !== undefined && { sortDirection: this.parseSortDirection(query.sortDirection) }),
     };
   }
 
+  parseExportQueryParams(query: Record<string, unknown>): ExportTodosQueryParams {
+    const { page, pageSize, ...filters } = this.parseListQueryParams(query);
+    return {
+      ...filters,
+      ...(query.format !== undefined && { format: this.parseExportFormat(query.format) }),
+      ...(query.columns !== undefined && { columns: this.parseTags(query.columns) as string[] }),
+    };
+  }
+
   parseCreateRequest(body: unknown): CreateTodoRequest {
     if (!body || typeof body !== 'object') {
       return { title: '' };
@@ -53,8 +98,13 @@ export class RequestParser {
       ...(typeof obj.assignee === 'string' && { assignee: obj.assignee }),
       ...(this.parseOptionalPriority(obj.priority) && { priority: this.parseOptionalPriority(obj.priority) }),
       ...(this.parseOptionalSeverity(obj.severity) && { severity: this.parseOptionalSeverity(obj.severity) }),
+      ...(typeof obj.startDate === 'string' && { startDate: obj.startDate }),
       ...(typeof obj.dueDate === 'string' && { dueDate: obj.dueDate }),
       ...(this.parseOptionalComplianceFrameworks(obj.complianceFrameworks) && { complianceFrameworks: this.parseOptionalComplianceFrameworks(obj.complianceFrameworks) }),
+      ...(typeof obj.parentId === 'string' && { parentId: obj.parentId }),
+      ...(this.parseOptionalIds(obj.blockedBy) && { blockedBy: this.parseOptionalIds(obj.blockedBy) }),
+      ...(typeof obj.recurrence === 'string' && { recurrence: obj.recurrence }),
+      ...(this.parseOptionalCustomValues(obj.custom) && { custom: this.parseOptionalCustomValues(obj.custom) as Record<string, TodoCustomFieldValue> }),
     };
   }
 
@@ -71,11 +121,83 @@ export class RequestParser {
       ...(obj.assignee !== undefined && { assignee: typeof obj.assignee === 'string' ? obj.assignee : '' }),
       ...(obj.priority !== undefined && { priority: this.parseOptionalPriority(obj.priority) }),
       ...(obj.severity !== undefined && { severity: this.parseOptionalSeverity(obj.severity) }),
+      ...(obj.startDate !== undefined && { startDate: obj.startDate === null ? null : typeof obj.startDate === 'string' ? obj.startDate : undefined }),
       ...(obj.dueDate !== undefined && { dueDate: obj.dueDate === null ? null : typeof obj.dueDate === 'string' ? obj.dueDate : undefined }),
       ...(obj.complianceFrameworks !== undefined && { complianceFrameworks: this.parseOptionalComplianceFrameworks(obj.complianceFrameworks) }),
+      ...(obj.statusReason !== undefined && { statusReason: typeof obj.statusReason === 'string' ? obj.statusReason : '' }),
+      ...(obj.parentId !== undefined && { parentId: typeof obj.parentId === 'string' ? obj.parentId : null }),
+      ...(obj.blockedBy !== undefined && { blockedBy: this.parseOptionalIds(obj.blockedBy) }),
+      ...(obj.recurrence !== undefined && { recurrence: typeof obj.recurrence === 'string' ? obj.recurrence : null }),
+      ...(obj.rank !== undefined && { rank: typeof obj.rank === 'string' ? obj.rank : null }),
+      ...(obj.custom !== undefined && { custom: this.parseOptionalCustomValues(obj.custom) }),
+      ...(typeof obj.version === 'string' && { version: obj.version }),
     };
   }
 
+  parseBulkRequest(body: unknown): BulkTodosRequest {
+    if (!body || typeof body !== 'object' || !Array.isArray((body as Record<string, unknown>).actions)) {
+      return { actions: [] };
+    }
+    const actions = (body as { actions: unknown[] }).actions;
+    return {
+      actions: actions.map((item): BulkTodoAction => {
+        const obj = (item && typeof item === 'object' ? item : {}) as Record<string, unknown>;
+        const id = typeof obj.id === 'string' ? obj.id : '';
+        switch (obj.action) {
+          case 'update':
+            return { action: 'update', id, changes: this.parseUpdateRequest(obj.changes) };
+          case 'delete':
+            return { action: 'delete', id };
+          default:
+            return { action: 'create', todo: this.parseCreateRequest(obj.todo) };
+        }
+      }),
+    };
+  }
+
+  parseUpdateByQueryRequest(body: unknown): UpdateTodosByQueryRequest {
+    const obj = (body && typeof body === 'object' ? body : {}) as Record<string, unknown>;
+    const rawFilters = (obj.filters && typeof obj.filters === 'object' ? obj.filters : {}) as Record<string, unknown>;
+    // Pagination, sorting and single-item fields have no meaning for a mass update
+    const { page, pageSize, sortField, sortDirection, ...filters } = this.parseListQueryParams(rawFilters);
+    const { title, description, startDate, parentId, blockedBy, recurrence, rank, custom, version, ...patch } = this.parseUpdateRequest(obj.patch);
+    return {
+      filters,
+      patch,
+      ...(obj.dryRun !== undefined && { dryRun: this.parseBoolean(obj.dryRun) === true }),
+    };
+  }
+
+  parseImportRequest(body: unknown): ImportTodosRequest {
+    const obj = (body && typeof body === 'object' ? body : {}) as Record<string, unknown>;
+    const format = this.parseEnum<TodoImportFormat>(obj.format, TODO_IMPORT_FORMAT_VALUES, false);
+    return {
+      format: (Array.isArray(format) ? format[0] : format) || 'csv',
+      content: typeof obj.content === 'string' ? obj.content : '',
+      ...(this.parseImportMapping(obj.mapping) && { mapping: this.parseImportMapping(obj.mapping) }),
+      ...(obj.dryRun !== undefined && { dryRun: this.parseBoolean(obj.dryRun) === true }),
+    };
+  }
+
+  parseImportSarifRequest(body: unknown): ImportSarifRequest {
+    const obj = (body && typeof body === 'object' ? body : {}) as Record<string, unknown>;
+    const minLevel = this.parseEnum<SarifLevel>(obj.minLevel, SARIF_LEVEL_VALUES, false);
+    return {
+      content: typeof obj.content === 'string' ? obj.content : '',
+      ...(minLevel && { minLevel: Array.isArray(minLevel) ? minLevel[0] : minLevel }),
+      ...(obj.dryRun !== undefined && { dryRun: this.parseBoolean(obj.dryRun) === true }),
+    };
+  }
+
+  parseIfMatchHeader(headers: Record<string, string | string[] | undefined>): string | undefined {
+    const raw = headers['if-match'];
+    const value = Array.isArray(raw) ? raw[0] : raw;
+    if (!value || value.trim() === '*') {
+      return undefined;
+    }
+    return value.trim().replace(/^W\//, '').replace(/^"(.*)"$/, '$1');
+  }
+
   parseStatsQueryParams(query: Record<string, unknown>): TodoStatsQueryParams {
     return {
       ...(query.createdAfter !== undefined && typeof query.createdAfter === 'string' && { createdAfter: query.createdAfter }),
@@ -88,6 +210,19 @@ export class RequestParser {
     };
   }
 
+  parseCalendarQueryParams(query: Record<string, unknown>): TodoCalendarQueryParams {
+    const { page, pageSize, sortField, sortDirection, ...filters } = this.parseListQueryParams(query);
+    return filters;
+  }
+
+  parseBoardQueryParams(query: Record<string, unknown>): GetTodoBoardQueryParams {
+    return {
+      ...this.parseCalendarQueryParams(query),
+      ...(query.columnSize !== undefined && { columnSize: this.parseNumber(query.columnSize, 'columnSize') }),
+      ...(query.offset !== undefined && { offset: this.parseNumber(query.offset, 'offset') }),
+    };
+  }
+
   parseAnalyticsQueryParams(query: Record<string, unknown>): TodoAnalyticsQueryParams {
     return {
       ...(query.complianceFramework !== undefined && typeof query.complianceFramework === 'string' && { complianceFramework: query.complianceFramework }),
@@ -95,6 +230,117 @@ export class RequestParser {
     };
   }
 
+  parseOscalExportQueryParams(query: Record<string, unknown>): TodoOscalExportQueryParams {
+    return {
+      complianceFramework: typeof query.complianceFramework === 'string' ? query.complianceFramework : '',
+    };
+  }
+
+  parseReportQueryParams(query: Record<string, unknown>): TodoReportQueryParams {
+    const { createdAfter, createdBefore, timeInterval } = this.parseStatsQueryParams(query);
+    const { complianceFramework } = this.parseAnalyticsQueryParams(query);
+    return {
+      ...(query.format !== undefined && { format: this.parseReportFormat(query.format) }),
+      ...(complianceFramework !== undefined && { complianceFramework }),
+      ...(createdAfter !== undefined && { createdAfter }),
+      ...(createdBefore !== undefined && { createdBefore }),
+      ...(timeInterval !== undefined && { timeInterval }),
+    };
+  }
+
+  parseHistoryQueryParams(query: Record<string, unknown>): TodoHistoryQueryParams {
+    return {
+      ...(query.page !== undefined && { page: this.parseNumber(query.page, 'page') }),
+      ...(query.pageSize !== undefined && { pageSize: this.parseNumber(query.pageSize, 'pageSize') }),
+    };
+  }
+
+  parseCommentsQueryParams(query: Record<string, unknown>): TodoCommentsQueryParams {
+    return {
+      ...(query.page !== undefined && { page: this.parseNumber(query.page, 'page') }),
+      ...(query.pageSize !== undefined && { pageSize: this.parseNumber(query.pageSize, 'pageSize') }),
+    };
+  }
+
+  parseCommentRequest(body: unknown): CreateTodoCommentRequest {
+    if (!body || typeof body !== 'object') {
+      return { body: '' };
+    }
+    const obj = body as Record<string, unknown>;
+    return { body: typeof obj.body === 'string' ? obj.body : '' };
+  }
+
+  parseCustomFieldCreateRequest(body: unknown): CreateTodoCustomFieldRequest {
+    const obj = (body && typeof body === 'object' ? body : {}) as Record<string, unknown>;
+    const type = this.parseEnum<TodoCustomFieldType>(obj.type, TODO_CUSTOM_FIELD_TYPE_VALUES, false);
+    return {
+      key: typeof obj.key === 'string' ? obj.key : '',
+      label: typeof obj.label === 'string' ? obj.label : '',
+      type: (Array.isArray(type) ? type[0] : type) as TodoCustomFieldType,
+      ...(typeof obj.description === 'string' && { description: obj.description }),
+      ...(this.parseOptionalTags(obj.options) && { options: [...(this.parseOptionalTags(obj.options) as string[])] }),
+      ...(typeof obj.required === 'boolean' && { required: obj.required }),
+    };
+  }
+
+  parseCustomFieldUpdateRequest(body: unknown): UpdateTodoCustomFieldRequest {
+    const obj = (body && typeof body === 'object' ? body : {}) as Record<string, unknown>;
+    return {
+      ...(typeof obj.label === 'string' && { label: obj.label }),
+      ...(obj.description !== undefined && { description: typeof obj.description === 'string' ? obj.description : null }),
+      ...(this.parseOptionalTags(obj.options) && { options: [...(this.parseOptionalTags(obj.options) as string[])] }),
+      ...(typeof obj.required === 'boolean' && { required: obj.required }),
+    };
+  }
+
+  parseSavedViewCreateRequest(body: unknown): CreateTodoSavedViewRequest {
+    const obj = (body && typeof body === 'object' ? body : {}) as Record<string, unknown>;
+    return {
+      name: typeof obj.name === 'string' ? obj.name : '',
+      ...this.parseSavedViewFields(obj),
+    };
+  }
+
+  parseSavedViewUpdateRequest(body: unknown): UpdateTodoSavedViewRequest {
+    const obj = (body && typeof body === 'object' ? body : {}) as Record<string, unknown>;
+    return {
+      ...(typeof obj.name === 'string' && { name: obj.name }),
+      ...this.parseSavedViewFields(obj),
+    };
+  }
+
+  private parseSavedViewFields(obj: Record<string, unknown>): UpdateTodoSavedViewRequest {
+    return {
+      ...(this.parseSavedViewFilters(obj.filters) && { filters: this.parseSavedViewFilters(obj.filters) }),
+      ...(this.parseSortField(obj.sortField) && { sortField: this.parseSortField(obj.sortField) }),
+      ...(this.parseSortDirection(obj.sortDirection) && { sortDirection: this.parseSortDirection(obj.sortDirection) }),
+      ...(this.parseViewTab(obj.tab) && { tab: this.parseViewTab(obj.tab) }),
+      ...(typeof obj.shared === 'boolean' && { shared: obj.shared }),
+    };
+  }
+
+  private parseSavedViewFilters(value: unknown): TodoSavedViewFilters | undefined {
+    if (!value || typeof value !== 'object' || Array.isArray(value)) {
+      return undefined;
+    }
+    const obj = value as Record<string, unknown>;
+    const dates = TODO_SAVED_VIEW_DATE_FILTERS.filter((field) => typeof obj[field] === 'string');
+    return {
+      ...(typeof obj.searchText === 'string' && { searchText: obj.searchText }),
+      ...(this.parseOptionalTags(obj.status) && { status: this.parseOptionalTags(obj.status) as TodoStatus[] }),
+      ...(this.parseOptionalTags(obj.tags) && { tags: this.parseOptionalTags(obj.tags) }),
+      ...(this.parseOptionalTags(obj.priority) && { priority: this.parseOptionalTags(obj.priority) as TodoPriority[] }),
+      ...(this.parseOptionalTags(obj.severity) && { severity: this.parseOptionalTags(obj.severity) as TodoSeverity[] }),
+      ...(typeof obj.isOverdue === 'boolean' && { isOverdue: obj.isOverdue }),
+      ...Object.fromEntries(dates.map((field) => [field, obj[field] as string])),
+    };
+  }
+
+  private parseViewTab(value: unknown): TodoViewTab | undefined {
+    const result = this.parseEnum<TodoViewTab>(value, TODO_VIEW_TAB_VALUES, false);
+    return Array.isArray(result) ? result[0] : result;
+  }
+
   private parseNumber(value: unknown, field: string): number {
     if (typeof value === 'number') {
       return value;
@@ -177,13 +423,61 @@ export class RequestParser {
       'priority',
       'severity',
       'dueDate',
+      'rank',
     ];
     if (typeof value === 'string' && validFields.includes(value as TodoSortField)) {
       return value as TodoSortField;
     }
+    if (typeof value === 'string' && value.startsWith('custom.') && CUSTOM_FIELD_KEY_PATTERN.test(value.slice('custom.'.length))) {
+      return value as TodoSortField;
+    }
+    return undefined;
+  }
+
+  private parseCustomFilters(value: unknown): string[] | undefined {
+    if (typeof value === 'string') {
+      return value.trim().length > 0 ? [value] : undefined;
+    }
+    if (Array.isArray(value)) {
+      return value.filter((f): f is string => typeof f === 'string' && f.trim().length > 0);
+    }
     return undefined;
   }
 
+  private parseOptionalCustomValues(value: unknown): Record<string, TodoCustomFieldValue | null> | undefined {
+    if (!value || typeof value !== 'object' || Array.isArray(value)) {
+      return undefined;
+    }
+    const values: Record<string, TodoCustomFieldValue | null> = {};
+    for (const [key, item] of Object.entries(value as Record<string, unknown>)) {
+      if (item === null || typeof item === 'string' || typeof item === 'number' || typeof item === 'boolean') {
+        values[key] = item;
+      }
+    }
+    return values;
+  }
+
+  private parseExportFormat(value: unknown): TodoExportFormat | undefined {
+    const result = this.parseEnum<TodoExportFormat>(value, TODO_EXPORT_FORMAT_VALUES, false);
+    return Array.isArray(result) ? result[0] : result;
+  }
+
+  private parseReportFormat(value: unknown): TodoReportFormat | undefined {
+    const result = this.parseEnum<TodoReportFormat>(value, TODO_REPORT_FORMAT_VALUES, false);
+    return Array.isArray(result) ? result[0] : result;
+  }
+
+  private parseImportMapping(value: unknown): Record<string, string> | undefined {
+    if (!value || typeof value !== 'object' || Array.isArray(value)) {
+      return undefined;
+    }
+    return Object.fromEntries(
+      Object.entries(value as Record<string, unknown>).filter(
+        (entry): entry is [string, string] => typeof entry[1] === 'string' && entry[1].length > 0
+      )
+    );
+  }
+
   private parseSortDirection(value: unknown): SortDirection | undefined {
     if (typeof value === 'string' && ['asc', 'desc'].includes(value)) {
       return value as SortDirection;
@@ -226,6 +520,13 @@ export class RequestParser {
     return undefined;
   }
 
+  private parseOptionalIds(value: unknown): string[] | undefined {
+    if (Array.isArray(value)) {
+      return value.filter((id): id is string => typeof id === 'string');
+    }
+    return undefined;
+  }
+
   private parseBoolean(value: unknown): boolean | undefined {
     if (typeof value === 'boolean') {
       return value;
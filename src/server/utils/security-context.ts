@@ -0,0 +1,70 @@
+import { Logger } from '../../../../src/core/server';
+import { UNKNOWN_ACTOR } from '../../common';
+import { OpenSearchClient } from '../repositories';
+
+interface AuthInfoResponse {
+  user_name?: string;
+  roles?: string[];
+  backend_roles?: string[];
+}
+
+const AUTHINFO_PATH = '/_plugins/_security/authinfo';
+
+/**
+ * The user behind a request, as reported by the security plugin.
+ */
+export interface CurrentUser {
+  /** Username, or {@link UNKNOWN_ACTOR} when it cannot be determined */
+  username: string;
+
+  /** Security roles and backend roles of the user */
+  roles: string[];
+}
+
+/**
+ * Resolves the user behind a request-scoped OpenSearch client.
+ *
+ * @param client - OpenSearch client scoped to the current user
+ * @param logger - Logger for diagnostics
+ * @returns User reported by the security plugin, or {@link UNKNOWN_ACTOR} without roles
+ * when the security plugin is not installed or the lookup fails
+ *
+ * @remarks
+ * The two cases cannot be told apart here, so callers that authorize on the result must
+ * treat {@link UNKNOWN_ACTOR} as unidentified unless security is disabled in the configuration.
+ */
+export async function getCurrentUser(
+  client: OpenSearchClient,
+  logger: Logger
+): Promise<CurrentUser> {
+  if (!client.transport) {
+    return { username: UNKNOWN_ACTOR, roles: [] };
+  }
+  try {
+    const result = await client.transport.request<AuthInfoResponse>({ method: 'GET', path: AUTHINFO_PATH });
+    return {
+      username: result.body.user_name || UNKNOWN_ACTOR,
+      roles: [...(result.body.roles || []), ...(result.body.backend_roles || [])],
+    };
+  } catch (error) {
+    logger.debug(
+      `Could not resolve current user: ${error instanceof Error ? error.message : String(error)}`
+    );
+    return { username: UNKNOWN_ACTOR, roles: [] };
+  }
+}
+
+/**
+ * Resolves the username of the user behind a request-scoped OpenSearch client.
+ *
+ * @param client - OpenSearch client scoped to the current user
+ * @param logger - Logger for diagnostics
+ * @returns Username reported by the security plugin, or {@link UNKNOWN_ACTOR}
+ * when the security plugin is not installed or the lookup fails
+ */
+export async function getCurrentUsername(
+  client: OpenSearchClient,
+  logger: Logger
+): Promise<string> {
+  return (await getCurrentUser(client, logger)).username;
+}
@@ -109,6 +109,8 @@ declare module '@elastic/eui' {
   export const EuiToolTip: any;
   export const EuiHighlight: any;
   export const EuiDescriptionList: any;
+  export const EuiCommentList: any;
+  export const EuiAvatar: any;
 
   export const EuiCallOut: any;
   export const EuiEmptyPrompt: any;